@@ -10,9 +10,13 @@ import { MonitoringModule } from './common/monitoring.module';
 import { AuthModule } from './modules/auth/auth.module';
 import { SubjectsModule } from './modules/subjects/subjects.module';
 import { SectionsModule } from './modules/sections/sections.module';
+import { TermsModule } from './modules/terms/terms.module';
 import { EventsModule } from './modules/events/events.module';
 import { SpotlightModule } from './modules/spotlight/spotlight.module';
 import { ImportModule } from './modules/import/import.module';
+import { ExportModule } from './modules/export/export.module';
+import { FeedsModule } from './modules/feeds/feeds.module';
+import { GoogleCalendarModule } from './modules/google-calendar/google-calendar.module';
 import { SecurityHeadersMiddleware, RequestLoggingMiddleware } from './modules/auth/middleware/security.middleware';
 import { CorsMiddleware } from './modules/auth/middleware/cors.middleware';
 import { RateLimitMiddleware, AuthRateLimitMiddleware } from './modules/auth/middleware/rate-limit.middleware';
@@ -32,9 +36,13 @@ import { GlobalExceptionFilter } from './common/filters/global-exception.filter'
     AuthModule,
     SubjectsModule,
     SectionsModule,
+    TermsModule,
     EventsModule,
     SpotlightModule,
     ImportModule,
+    ExportModule,
+    FeedsModule,
+    GoogleCalendarModule,
   ],
   controllers: [AppController],
   providers: [
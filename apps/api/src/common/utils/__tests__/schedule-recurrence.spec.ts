@@ -0,0 +1,76 @@
+import {
+  daysBetween,
+  expandScheduleRule,
+  getAcademicWeek,
+  isEveryWeek,
+  shiftDate,
+  toRRuleParts,
+} from '../schedule-recurrence';
+
+describe('schedule-recurrence', () => {
+  // Wednesday 2024-01-10 falls in academic week 1
+  const base = { dayOfWeek: 1, startDate: '2024-01-10', endDate: '2024-02-29' };
+
+  describe('getAcademicWeek', () => {
+    it('should count Monday-based weeks from the week containing the start date', () => {
+      expect(getAcademicWeek('2024-01-08', '2024-01-10')).toBe(1);
+      expect(getAcademicWeek('2024-01-14', '2024-01-10')).toBe(1);
+      expect(getAcademicWeek('2024-01-15', '2024-01-10')).toBe(2);
+    });
+  });
+
+  describe('expandScheduleRule', () => {
+    it('should repeat every week by default', () => {
+      expect(isEveryWeek(base)).toBe(true);
+      expect(expandScheduleRule(base, '2024-01-01', '2024-01-31')).toEqual([
+        '2024-01-15',
+        '2024-01-22',
+        '2024-01-29',
+      ]);
+    });
+
+    it('should count intervals from the first occurrence, not the requested range', () => {
+      expect(expandScheduleRule({ ...base, interval: 3 }, '2024-01-20')).toEqual(['2024-02-05', '2024-02-26']);
+    });
+
+    it('should keep odd or even academic weeks', () => {
+      expect(expandScheduleRule({ ...base, weekParity: 'odd' }, undefined, '2024-02-12')).toEqual([
+        '2024-01-22',
+        '2024-02-05',
+      ]);
+      expect(expandScheduleRule({ ...base, weekParity: 'even' }, undefined, '2024-02-12')).toEqual([
+        '2024-01-15',
+        '2024-01-29',
+        '2024-02-12',
+      ]);
+    });
+
+    it('should pick the Nth or last weekday of each month', () => {
+      // The second Monday of January (the 8th) is before the start date
+      expect(expandScheduleRule({ ...base, setPos: 2 })).toEqual(['2024-02-12']);
+      expect(expandScheduleRule({ ...base, setPos: -1 })).toEqual(['2024-01-29', '2024-02-26']);
+    });
+  });
+
+  describe('toRRuleParts', () => {
+    it('should describe each pattern', () => {
+      expect(toRRuleParts(base)).toEqual(['FREQ=WEEKLY', 'INTERVAL=1', 'BYDAY=MO']);
+      expect(toRRuleParts({ ...base, weekParity: 'odd' })).toEqual(['FREQ=WEEKLY', 'INTERVAL=2', 'BYDAY=MO']);
+      expect(toRRuleParts({ ...base, setPos: 1, interval: 2 })).toEqual([
+        'FREQ=MONTHLY',
+        'INTERVAL=2',
+        'BYDAY=MO',
+        'BYSETPOS=1',
+      ]);
+    });
+  });
+
+  describe('shiftDate', () => {
+    it('should move a date across month and year ends', () => {
+      expect(shiftDate('2024-01-31', 1)).toBe('2024-02-01');
+      expect(shiftDate('2024-01-01', -1)).toBe('2023-12-31');
+      expect(daysBetween('2024-02-27', '2024-03-01')).toBe(3);
+      expect(daysBetween('2024-03-01', '2024-02-27')).toBe(-3);
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import {
+  formatDateInTimeZone,
+  formatInTimeZone,
+  getTimeZoneOffset,
+  isValidTimeZone,
+  toDateString,
+  zonedTimeToUtc,
+} from '../timezone';
+
+describe('timezone', () => {
+  describe('isValidTimeZone', () => {
+    it('should accept IANA names and reject anything else', () => {
+      expect(isValidTimeZone('Asia/Bangkok')).toBe(true);
+      expect(isValidTimeZone('America/New_York')).toBe(true);
+      expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+      expect(isValidTimeZone('')).toBe(false);
+    });
+  });
+
+  describe('getTimeZoneOffset', () => {
+    it('should follow DST', () => {
+      expect(getTimeZoneOffset(new Date('2024-01-15T12:00:00Z'), 'America/New_York')).toBe(-300);
+      expect(getTimeZoneOffset(new Date('2024-07-15T12:00:00Z'), 'America/New_York')).toBe(-240);
+      expect(getTimeZoneOffset(new Date('2024-07-15T12:00:00Z'), 'Asia/Bangkok')).toBe(420);
+    });
+  });
+
+  describe('zonedTimeToUtc', () => {
+    it('should keep wall-clock time on both sides of a DST change', () => {
+      expect(zonedTimeToUtc('2024-03-04', '09:00', 'America/New_York').toISOString()).toBe('2024-03-04T14:00:00.000Z');
+      expect(zonedTimeToUtc('2024-03-11', '09:00', 'America/New_York').toISOString()).toBe('2024-03-11T13:00:00.000Z');
+      expect(zonedTimeToUtc('2024-10-28', '09:00', 'Europe/London').toISOString()).toBe('2024-10-28T09:00:00.000Z');
+    });
+
+    it('should move times skipped by a DST change forward', () => {
+      expect(zonedTimeToUtc('2024-03-10', '02:30', 'America/New_York').toISOString()).toBe('2024-03-10T07:30:00.000Z');
+    });
+
+    it('should resolve repeated times to the earlier instant', () => {
+      expect(zonedTimeToUtc('2024-11-03', '01:30', 'America/New_York').toISOString()).toBe('2024-11-03T05:30:00.000Z');
+      expect(zonedTimeToUtc('2024-04-07', '02:30', 'Australia/Sydney').toISOString()).toBe('2024-04-06T15:30:00.000Z');
+    });
+  });
+
+  describe('formatInTimeZone', () => {
+    it('should include the offset in effect at the instant', () => {
+      expect(formatInTimeZone(new Date('2024-03-11T13:00:00Z'), 'America/New_York')).toBe('2024-03-11T09:00:00-04:00');
+      expect(formatInTimeZone(new Date('2024-01-15T02:00:00Z'), 'Asia/Bangkok')).toBe('2024-01-15T09:00:00+07:00');
+    });
+  });
+
+  describe('formatDateInTimeZone', () => {
+    it('should use the date in the timezone rather than in UTC', () => {
+      expect(formatDateInTimeZone(new Date('2024-01-14T20:00:00Z'), 'Asia/Bangkok')).toBe('2024-01-15');
+      expect(formatDateInTimeZone(new Date('2024-01-15T03:00:00Z'), 'America/Los_Angeles')).toBe('2024-01-14');
+    });
+  });
+
+  describe('toDateString', () => {
+    it('should read a parsed DATE column as the local date it was parsed to', () => {
+      expect(toDateString(new Date(2024, 0, 15))).toBe('2024-01-15');
+      expect(toDateString('2024-01-15')).toBe('2024-01-15');
+      expect(toDateString('2024-01-15T00:00:00.000Z')).toBe('2024-01-15');
+    });
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Recurrence patterns for section schedule rules.
+ *
+ * A rule repeats on its dayOfWeek between startDate and endDate (inclusive):
+ * - every `interval` weeks, counted from its first occurrence;
+ * - or only in odd or even academic weeks, where week 1 is the Monday-based
+ *   week containing startDate;
+ * - or, with `setPos`, on the Nth (or last, for -1) matching weekday of the
+ *   month, every `interval` months counted from its first occurrence.
+ *
+ * Event generation, section validation and the Google RRULE all read a rule
+ * through these helpers so they agree on which dates it covers.
+ */
+
+export type WeekParity = 'odd' | 'even';
+
+export const WEEK_PARITIES: WeekParity[] = ['odd', 'even'];
+export const SET_POSITIONS = [1, 2, 3, 4, -1];
+export const MAX_INTERVAL = 12;
+
+export interface RecurrencePattern {
+  dayOfWeek: number; // 0=Sunday, 6=Saturday
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD
+  interval?: number;
+  weekParity?: WeekParity;
+  setPos?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RRULE_DAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+function parseDate(date: string): Date {
+  return new Date(`${date.substring(0, 10)}T00:00:00Z`);
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().substring(0, 10);
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+function mondayOf(date: Date): Date {
+  return addDays(date, -((date.getUTCDay() + 6) % 7));
+}
+
+/**
+ * True for a rule that repeats every week, the only pattern before
+ * intervals, parity and set positions existed
+ */
+export function isEveryWeek(rule: RecurrencePattern): boolean {
+  return (rule.interval || 1) === 1 && !rule.weekParity && !rule.setPos;
+}
+
+/**
+ * Academic week number of a date, where week 1 is the Monday-based week
+ * containing startDate
+ */
+export function getAcademicWeek(date: string, startDate: string): number {
+  const weeks = (mondayOf(parseDate(date)).getTime() - mondayOf(parseDate(startDate)).getTime()) / (7 * DAY_MS);
+  return Math.floor(weeks) + 1;
+}
+
+/**
+ * Monday (YYYY-MM-DD) of the week a date falls in
+ */
+export function getWeekStart(date: string): string {
+  return formatDate(mondayOf(parseDate(date)));
+}
+
+/**
+ * Date (YYYY-MM-DD) the given number of days after another, or before it
+ * when negative
+ */
+export function shiftDate(date: string, days: number): string {
+  return formatDate(addDays(parseDate(date), days));
+}
+
+/**
+ * Number of days from one date to another
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((parseDate(to).getTime() - parseDate(from).getTime()) / DAY_MS);
+}
+
+function nthWeekdayOfMonth(year: number, month: number, dayOfWeek: number, setPos: number): Date | null {
+  if (setPos < 0) {
+    const last = new Date(Date.UTC(year, month + 1, 0));
+    return addDays(last, -((last.getUTCDay() - dayOfWeek + 7) % 7));
+  }
+
+  const first = new Date(Date.UTC(year, month, 1));
+  const date = addDays(first, ((dayOfWeek - first.getUTCDay() + 7) % 7) + (setPos - 1) * 7);
+  return date.getUTCMonth() === month ? date : null;
+}
+
+/**
+ * Lists the dates a rule covers, optionally limited to [from, to]. Skip dates
+ * are not applied. Intervals stay anchored to the rule's own first occurrence
+ * whatever range is asked for.
+ */
+export function expandScheduleRule(rule: RecurrencePattern, from?: string, to?: string): string[] {
+  const start = parseDate(rule.startDate);
+  const end = parseDate(rule.endDate);
+  const interval = rule.interval || 1;
+  const dates: string[] = [];
+
+  if (rule.setPos) {
+    let firstMonth: number | null = null;
+    const lastMonth = end.getUTCFullYear() * 12 + end.getUTCMonth();
+
+    for (let month = start.getUTCFullYear() * 12 + start.getUTCMonth(); month <= lastMonth; month++) {
+      const date = nthWeekdayOfMonth(Math.floor(month / 12), month % 12, rule.dayOfWeek, rule.setPos);
+      if (!date || date < start || date > end) {
+        continue;
+      }
+      if (firstMonth === null) {
+        firstMonth = month;
+      }
+      if ((month - firstMonth) % interval === 0) {
+        dates.push(formatDate(date));
+      }
+    }
+  } else {
+    const first = addDays(start, (rule.dayOfWeek - start.getUTCDay() + 7) % 7);
+    const step = rule.weekParity ? 1 : interval;
+
+    for (let date = first; date <= end; date = addDays(date, 7 * step)) {
+      if (rule.weekParity) {
+        const isOdd = getAcademicWeek(formatDate(date), rule.startDate) % 2 === 1;
+        if (isOdd !== (rule.weekParity === 'odd')) {
+          continue;
+        }
+      }
+      dates.push(formatDate(date));
+    }
+  }
+
+  return dates.filter(date => (!from || date >= from) && (!to || date <= to));
+}
+
+/**
+ * Builds the RRULE parts, without UNTIL, that repeat a rule from one of its
+ * own occurrences. Odd/even weeks become every other week, which holds as
+ * long as the series starts on a matching week.
+ */
+export function toRRuleParts(rule: RecurrencePattern): string[] {
+  const byDay = `BYDAY=${RRULE_DAYS[rule.dayOfWeek]}`;
+
+  if (rule.setPos) {
+    return ['FREQ=MONTHLY', `INTERVAL=${rule.interval || 1}`, byDay, `BYSETPOS=${rule.setPos}`];
+  }
+
+  return ['FREQ=WEEKLY', `INTERVAL=${rule.weekParity ? 2 : rule.interval || 1}`, byDay];
+}
+
+/**
+ * Lists every date in a set of inclusive date ranges, such as a term's
+ * blackout periods
+ */
+export function expandDateRanges(ranges: { startDate: string; endDate: string }[]): Set<string> {
+  const dates = new Set<string>();
+
+  for (const range of ranges) {
+    const end = parseDate(range.endDate);
+    for (let date = parseDate(range.startDate); date <= end; date = addDays(date, 1)) {
+      dates.add(formatDate(date));
+    }
+  }
+
+  return dates;
+}
@@ -0,0 +1,119 @@
+/**
+ * Wall-clock conversions for IANA timezones. Class times are stored as local
+ * date and time strings; these helpers turn them into instants and back using
+ * the offset in effect on that date, so DST transitions are respected.
+ */
+
+// Used when a user has no timezone and none can be read from Google
+export const DEFAULT_TIMEZONE = 'UTC';
+
+export interface ZonedDateTime {
+  date: string; // YYYY-MM-DD
+  time: string; // HH:mm:ss
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  if (!timeZone) {
+    return false;
+  }
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Reads the wall-clock date and time of an instant in a timezone
+ */
+export function toZonedDateTime(instant: Date, timeZone: string): ZonedDateTime {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(instant);
+  const part = (type: string) => parts.find(p => p.type === type)!.value;
+
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    time: `${part('hour')}:${part('minute')}:${part('second')}`,
+  };
+}
+
+/**
+ * Formats an instant as the YYYY-MM-DD date it falls on in a timezone
+ */
+export function formatDateInTimeZone(instant: Date, timeZone: string): string {
+  return toZonedDateTime(instant, timeZone).date;
+}
+
+/**
+ * Reads a date column as YYYY-MM-DD. The driver parses DATE values to
+ * midnight in the server's timezone, so a Date is read with local getters
+ * rather than through UTC, which would move it back a day east of UTC.
+ */
+export function toDateString(value: string | Date): string {
+  if (typeof value === 'string') {
+    return value.substring(0, 10);
+  }
+
+  const year = value.getFullYear();
+  const month = String(value.getMonth() + 1).padStart(2, '0');
+  const day = String(value.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Offset of a timezone from UTC at an instant, in minutes east of UTC
+ */
+export function getTimeZoneOffset(instant: Date, timeZone: string): number {
+  const { date, time } = toZonedDateTime(instant, timeZone);
+  const wallClock = Date.parse(`${date}T${time}Z`);
+  const seconds = Math.floor(instant.getTime() / 1000) * 1000;
+  return Math.round((wallClock - seconds) / 60000);
+}
+
+/**
+ * Converts a wall-clock date and time in a timezone to an instant. Times
+ * skipped by a DST change move forward by the length of the gap; times
+ * repeated by one resolve to the earlier instant.
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [hours, minutes, seconds = 0] = time.split(':').map(Number);
+  const wallClock = Date.parse(`${date}T00:00:00Z`) + ((hours * 60 + minutes) * 60 + seconds) * 1000;
+
+  // Try the offsets in effect a day either side; a candidate is valid when
+  // the offset at the resulting instant is the one it was computed with
+  const candidates = [-1, 1].map(days => {
+    const offset = getTimeZoneOffset(new Date(wallClock + days * 86400000), timeZone);
+    const instant = wallClock - offset * 60000;
+    return { instant, valid: getTimeZoneOffset(new Date(instant), timeZone) === offset };
+  });
+  const valid = candidates.filter(candidate => candidate.valid).map(candidate => candidate.instant);
+
+  return new Date(valid.length > 0
+    ? Math.min(...valid)
+    : Math.max(...candidates.map(candidate => candidate.instant)));
+}
+
+/**
+ * Formats an instant as an RFC 3339 date-time in a timezone, with the
+ * offset in effect at that instant (e.g. 2024-03-11T09:00:00-04:00)
+ */
+export function formatInTimeZone(instant: Date, timeZone: string): string {
+  const { date, time } = toZonedDateTime(instant, timeZone);
+  return `${date}T${time}${formatOffset(getTimeZoneOffset(instant, timeZone))}`;
+}
+
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const absolute = Math.abs(minutes);
+  const hours = String(Math.floor(absolute / 60)).padStart(2, '0');
+  return `${sign}${hours}:${String(absolute % 60).padStart(2, '0')}`;
+}
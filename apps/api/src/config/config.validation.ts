@@ -35,6 +35,7 @@ export const configValidationSchema = Joi.object({
   GOOGLE_REDIRECT_URI: Joi.string().uri().required(),
   GOOGLE_API_QUOTA_LIMIT: Joi.number().min(100).default(3000),
   GOOGLE_API_BATCH_SIZE: Joi.number().min(1).max(100).default(50),
+  GOOGLE_BATCH_URL: Joi.string().uri().default('https://www.googleapis.com/batch/calendar/v3'),
   
   // Rate Limiting
   RATE_LIMIT_WINDOW: Joi.number().min(1).default(60),
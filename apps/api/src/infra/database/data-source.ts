@@ -8,6 +8,9 @@ import { LocalEvent } from './entities/local-event.entity';
 import { SavedFilter } from './entities/saved-filter.entity';
 import { ImportJob } from './entities/import-job.entity';
 import { ImportItem } from './entities/import-item.entity';
+import { SyncHistory } from './entities/sync-history.entity';
+import { Term } from './entities/term.entity';
+import { CalendarFeed } from './entities/calendar-feed.entity';
 
 config();
 
@@ -23,6 +26,9 @@ export const AppDataSource = new DataSource({
     SavedFilter,
     ImportJob,
     ImportItem,
+    SyncHistory,
+    Term,
+    CalendarFeed,
   ],
   migrations: ['src/infra/database/migrations/*.ts'],
   synchronize: false,
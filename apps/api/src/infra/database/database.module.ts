@@ -9,6 +9,9 @@ import { LocalEvent } from './entities/local-event.entity';
 import { SavedFilter } from './entities/saved-filter.entity';
 import { ImportJob } from './entities/import-job.entity';
 import { ImportItem } from './entities/import-item.entity';
+import { SyncHistory } from './entities/sync-history.entity';
+import { Term } from './entities/term.entity';
+import { CalendarFeed } from './entities/calendar-feed.entity';
 
 @Module({
   imports: [
@@ -26,6 +29,9 @@ import { ImportItem } from './entities/import-item.entity';
           SavedFilter,
           ImportJob,
           ImportItem,
+          SyncHistory,
+          Term,
+          CalendarFeed,
         ],
         migrations: ['dist/infra/database/migrations/*.js'],
         synchronize: configService.get('NODE_ENV') === 'development',
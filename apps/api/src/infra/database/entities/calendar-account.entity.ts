@@ -40,10 +40,20 @@ export class CalendarAccount {
   @IsDate()
   tokenExpiresAt: Date;
 
+  // Calendar new events are written to unless their subject picks another; null means 'primary'
   @Column({ name: 'primary_calendar_id', nullable: true })
   @IsOptional()
   primaryCalendarId?: string;
 
+  // Google sync cursor per calendar ID
+  @Column({ name: 'sync_tokens', type: 'jsonb', default: () => "'{}'" })
+  @IsOptional()
+  syncTokens?: Record<string, string>;
+
+  @Column({ name: 'last_synced_at', type: 'timestamptz', nullable: true })
+  @IsOptional()
+  lastSyncedAt?: Date;
+
   @CreateDateColumn({ name: 'created_at' })
   createdAt: Date;
 
@@ -0,0 +1,54 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { IsNotEmpty, IsOptional } from 'class-validator';
+import { User } from './user.entity';
+import { SavedFilter } from './saved-filter.entity';
+
+/**
+ * Read-only iCalendar feed of a user's classes, served without login at a
+ * secret token URL. Deleting the feed revokes the URL.
+ */
+@Entity('calendar_feed')
+export class CalendarFeed {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'user_id' })
+  userId: string;
+
+  @Column()
+  @IsNotEmpty()
+  name: string;
+
+  @Column({ unique: true })
+  token: string;
+
+  // Feeds of a saved filter only show the classes it matches
+  @Column({ name: 'saved_filter_id', nullable: true })
+  @IsOptional()
+  savedFilterId?: string;
+
+  // Hash of the last feed served, to tell when its content changed
+  @Column({ name: 'content_hash', nullable: true })
+  contentHash?: string;
+
+  @Column({ name: 'last_modified_at', type: 'timestamp with time zone', default: () => 'now()' })
+  lastModifiedAt: Date;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @ManyToOne(() => User, (user) => user.calendarFeeds, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @ManyToOne(() => SavedFilter, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'saved_filter_id' })
+  savedFilter?: SavedFilter;
+}
@@ -8,6 +8,17 @@ import {
 import { IsObject, IsOptional, IsDateString, Matches, IsIn } from 'class-validator';
 import { ImportJob } from './import-job.entity';
 
+/**
+ * A record an applied row created or updated. An update keeps the fields it
+ * overwrote so a rollback can put them back.
+ */
+export interface ImportItemChange {
+  entity: 'subject' | 'section' | 'event';
+  id: string;
+  action: 'created' | 'updated';
+  previous?: Record<string, any>;
+}
+
 @Entity('import_item')
 export class ImportItem {
   @PrimaryGeneratedColumn('uuid')
@@ -61,8 +72,21 @@ export class ImportItem {
   note?: string;
 
   @Column({ default: 'preview' })
-  @IsIn(['preview', 'created', 'skipped', 'failed'])
-  status: 'preview' | 'created' | 'skipped' | 'failed';
+  @IsIn(['preview', 'created', 'skipped', 'failed', 'rolled_back'])
+  status: 'preview' | 'created' | 'skipped' | 'failed' | 'rolled_back';
+
+  // Written in the same transaction as the records themselves
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  changes: ImportItemChange[];
+
+  // When the row was applied within its job, which a rollback undoes in reverse
+  @Column({ name: 'apply_sequence', type: 'integer', nullable: true })
+  @IsOptional()
+  applySequence?: number;
+
+  @Column({ name: 'error_message', nullable: true })
+  @IsOptional()
+  errorMessage?: string;
 
   @ManyToOne(() => ImportJob, (job) => job.items, { onDelete: 'CASCADE' })
   @JoinColumn({ name: 'import_job_id' })
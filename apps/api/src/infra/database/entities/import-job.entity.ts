@@ -11,6 +11,18 @@ import { IsIn, IsOptional, IsObject } from 'class-validator';
 import { User } from './user.entity';
 import { ImportItem } from './import-item.entity';
 
+export type ImportSourceType = 'csv' | 'xlsx' | 'ics';
+
+export const IMPORT_SOURCE_TYPES: ImportSourceType[] = ['csv', 'xlsx', 'ics'];
+
+// All-or-nothing applies every row in one transaction; best-effort keeps the
+// rows that apply and reports the others
+export type ImportApplyMode = 'all-or-nothing' | 'best-effort';
+
+export const IMPORT_APPLY_MODES: ImportApplyMode[] = ['all-or-nothing', 'best-effort'];
+
+export type ImportJobState = 'pending' | 'preview' | 'applying' | 'applied' | 'failed' | 'rolled_back';
+
 @Entity('import_job')
 export class ImportJob {
   @PrimaryGeneratedColumn('uuid')
@@ -20,17 +32,28 @@ export class ImportJob {
   userId: string;
 
   @Column({ name: 'source_type' })
-  @IsIn(['csv', 'xlsx'])
-  sourceType: 'csv' | 'xlsx';
+  @IsIn(IMPORT_SOURCE_TYPES)
+  sourceType: ImportSourceType;
 
   @Column({ name: 'column_map', type: 'jsonb', nullable: true })
   @IsOptional()
   @IsObject()
   columnMap?: Record<string, string>;
 
+  // Applying until an apply finishes, so a job left applying was interrupted
   @Column()
-  @IsIn(['pending', 'preview', 'applied', 'failed'])
-  state: 'pending' | 'preview' | 'applied' | 'failed';
+  @IsIn(['pending', 'preview', 'applying', 'applied', 'failed', 'rolled_back'])
+  state: ImportJobState;
+
+  @Column({ name: 'apply_mode', nullable: true })
+  @IsOptional()
+  @IsIn(IMPORT_APPLY_MODES)
+  applyMode?: ImportApplyMode;
+
+  // Renewed while an apply runs; an applying job whose lease ran out was interrupted
+  @Column({ name: 'apply_lease_expires_at', type: 'timestamptz', nullable: true })
+  @IsOptional()
+  applyLeaseExpiresAt?: Date;
 
   @Column({ name: 'error_message', nullable: true })
   @IsOptional()
@@ -44,10 +44,30 @@ export class LocalEvent {
   @IsOptional()
   room?: string;
 
+  // Set when the event comes from one of the section's exceptions rather
+  // than its schedule rules
+  @Column({ name: 'exception_id', nullable: true })
+  @IsOptional()
+  exceptionId?: string;
+
+  @Column({ name: 'exception_type', nullable: true })
+  @IsOptional()
+  @IsIn(['moved', 'extra'])
+  exceptionType?: 'moved' | 'extra';
+
+  // Date the class was scheduled on before it was moved
+  @Column({ name: 'original_date', type: 'date', nullable: true })
+  @IsOptional()
+  originalDate?: string;
+
   @Column({ name: 'title_override', nullable: true })
   @IsOptional()
   titleOverride?: string;
 
+  @Column({ type: 'text', nullable: true })
+  @IsOptional()
+  notes?: string;
+
   @Column({ default: 'planned' })
   @IsIn(['planned', 'synced', 'deleted'])
   status: 'planned' | 'synced' | 'deleted';
@@ -56,10 +76,25 @@ export class LocalEvent {
   @IsOptional()
   gcalEventId?: string;
 
+  // Google calendar the event was written to
+  @Column({ name: 'gcal_calendar_id', nullable: true })
+  @IsOptional()
+  gcalCalendarId?: string;
+
+  // Set when the event is one occurrence of a recurring Google event
+  @Column({ name: 'gcal_recurring_event_id', nullable: true })
+  @IsOptional()
+  gcalRecurringEventId?: string;
+
   @Column({ name: 'gcal_etag', nullable: true })
   @IsOptional()
   gcalEtag?: string;
 
+  // Set on local changes, cleared once the event matches Google again
+  @Column({ default: true })
+  @IsOptional()
+  dirty?: boolean;
+
   @CreateDateColumn({ name: 'created_at' })
   createdAt: Date;
 
@@ -7,10 +7,12 @@ import {
   JoinColumn,
   Unique,
 } from 'typeorm';
-import { IsNotEmpty, IsOptional, IsArray, ValidateNested } from 'class-validator';
+import { IsNotEmpty, IsOptional, IsArray, IsIn, IsInt, Min, ValidateNested } from 'class-validator';
 import { Type } from 'class-transformer';
 import { Subject } from './subject.entity';
 import { LocalEvent } from './local-event.entity';
+import { Term } from './term.entity';
+import { SET_POSITIONS, WEEK_PARITIES, WeekParity } from '../../../common/utils/schedule-recurrence';
 
 export class ScheduleRule {
   @IsNotEmpty()
@@ -31,6 +33,50 @@ export class ScheduleRule {
   @IsOptional()
   @IsArray()
   skipDates?: string[];
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  interval?: number;
+
+  @IsOptional()
+  @IsIn(WEEK_PARITIES)
+  weekParity?: WeekParity;
+
+  @IsOptional()
+  @IsIn(SET_POSITIONS)
+  setPos?: number;
+}
+
+export type SectionExceptionType = 'cancel' | 'move' | 'extra';
+
+export const SECTION_EXCEPTION_TYPES: SectionExceptionType[] = ['cancel', 'move', 'extra'];
+
+/**
+ * A one-off change to a section's schedule: a cancelled class, a class moved
+ * to another slot or room, or an extra (make-up) session
+ */
+export class SectionException {
+  id: string;
+
+  type: SectionExceptionType;
+
+  // Date of the cancelled or moved class, or of the extra session
+  date: string;
+
+  // Picks the class on the date when the section has more than one that day
+  originalStartTime?: string;
+
+  // New slot of a moved class, or the slot of an extra session
+  newDate?: string;
+
+  startTime?: string;
+
+  endTime?: string;
+
+  room?: string;
+
+  reason?: string;
 }
 
 @Entity('section')
@@ -46,6 +92,11 @@ export class Section {
   @IsNotEmpty()
   secCode: string;
 
+  // Term whose blackout periods the section's classes skip
+  @Column({ name: 'term_id', nullable: true })
+  @IsOptional()
+  termId?: string;
+
   @Column({ nullable: true })
   @IsOptional()
   teacher?: string;
@@ -60,10 +111,19 @@ export class Section {
   @Type(() => ScheduleRule)
   scheduleRules: ScheduleRule[];
 
+  @Column({ type: 'jsonb', default: [] })
+  @IsOptional()
+  @IsArray()
+  exceptions?: SectionException[];
+
   @ManyToOne(() => Subject, (subject) => subject.sections, { onDelete: 'CASCADE' })
   @JoinColumn({ name: 'subject_id' })
   subject: Subject;
 
+  @ManyToOne(() => Term, (term) => term.sections, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'term_id' })
+  term?: Term;
+
   @OneToMany(() => LocalEvent, (event) => event.section)
   events: LocalEvent[];
 }
\ No newline at end of file
@@ -39,6 +39,11 @@ export class Subject {
   @IsObject()
   meta?: Record<string, any>;
 
+  // Google calendar this subject's events are written to; null uses the account's calendar
+  @Column({ name: 'calendar_id', nullable: true })
+  @IsOptional()
+  calendarId?: string;
+
   @CreateDateColumn({ name: 'created_at' })
   createdAt: Date;
 
@@ -0,0 +1,67 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { IsIn, IsOptional, IsObject } from 'class-validator';
+import { User } from './user.entity';
+
+@Entity('sync_history')
+@Index(['userId', 'startedAt'])
+export class SyncHistory {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'user_id' })
+  userId: string;
+
+  @Column({ default: 'pending' })
+  @IsIn(['pending', 'completed', 'failed', 'cancelled'])
+  status: 'pending' | 'completed' | 'failed' | 'cancelled';
+
+  @Column({ type: 'jsonb' })
+  @IsObject()
+  options: {
+    direction: string;
+    range: {
+      from: string;
+      to: string;
+    };
+    eventIds?: string[];
+    dryRun: boolean;
+  };
+
+  @Column({ type: 'jsonb', nullable: true })
+  @IsOptional()
+  @IsObject()
+  result?: {
+    summary: {
+      created: number;
+      updated: number;
+      // Absent on entries recorded before deletes were synced
+      deleted?: number;
+      skipped: number;
+      failed: number;
+    };
+    quotaUsed: number;
+    conflicts: number;
+  };
+
+  @Column({ name: 'error_message', nullable: true })
+  @IsOptional()
+  errorMessage?: string;
+
+  @Column({ name: 'started_at', type: 'timestamptz' })
+  startedAt: Date;
+
+  @Column({ name: 'completed_at', type: 'timestamptz', nullable: true })
+  @IsOptional()
+  completedAt?: Date;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+}
@@ -0,0 +1,73 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+  Unique,
+} from 'typeorm';
+import { IsNotEmpty, IsIn, IsArray, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+import { User } from './user.entity';
+import { Section } from './section.entity';
+
+export type BlackoutKind = 'holiday' | 'reading_week' | 'midterm' | 'exam' | 'other';
+
+export const BLACKOUT_KINDS: BlackoutKind[] = ['holiday', 'reading_week', 'midterm', 'exam', 'other'];
+
+/**
+ * Named period within a term with no regular classes, inclusive of both ends
+ */
+export class TermBlackout {
+  @IsNotEmpty()
+  name: string;
+
+  @IsIn(BLACKOUT_KINDS)
+  kind: BlackoutKind;
+
+  @IsNotEmpty()
+  startDate: string;
+
+  @IsNotEmpty()
+  endDate: string;
+}
+
+@Entity('term')
+@Unique(['userId', 'name'])
+export class Term {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'user_id' })
+  userId: string;
+
+  @Column()
+  @IsNotEmpty()
+  name: string;
+
+  @Column({ name: 'start_date', type: 'date' })
+  @IsNotEmpty()
+  startDate: string;
+
+  @Column({ name: 'end_date', type: 'date' })
+  @IsNotEmpty()
+  endDate: string;
+
+  @Column({ type: 'jsonb', default: [] })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => TermBlackout)
+  blackouts: TermBlackout[];
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @ManyToOne(() => User, (user) => user.terms, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @OneToMany(() => Section, (section) => section.term)
+  sections: Section[];
+}
@@ -11,6 +11,8 @@ import { Subject } from './subject.entity';
 import { LocalEvent } from './local-event.entity';
 import { SavedFilter } from './saved-filter.entity';
 import { ImportJob } from './import-job.entity';
+import { Term } from './term.entity';
+import { CalendarFeed } from './calendar-feed.entity';
 
 @Entity('user')
 export class User {
@@ -26,6 +28,11 @@ export class User {
   @IsNotEmpty()
   displayName: string;
 
+  // IANA timezone class times are written in; defaults from the primary Google calendar
+  @Column({ nullable: true })
+  @IsOptional()
+  timezone?: string;
+
   @CreateDateColumn({ name: 'created_at' })
   createdAt: Date;
 
@@ -48,4 +55,10 @@ export class User {
 
   @OneToMany(() => ImportJob, (job) => job.user)
   importJobs: ImportJob[];
+
+  @OneToMany(() => Term, (term) => term.user)
+  terms: Term[];
+
+  @OneToMany(() => CalendarFeed, (feed) => feed.user)
+  calendarFeeds: CalendarFeed[];
 }
\ No newline at end of file
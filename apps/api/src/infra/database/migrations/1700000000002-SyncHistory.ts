@@ -0,0 +1,31 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class SyncHistory1700000000002 implements MigrationInterface {
+  name = 'SyncHistory1700000000002';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Create sync_history table
+    await queryRunner.query(`
+      CREATE TABLE "sync_history" (
+        "id" uuid NOT NULL DEFAULT gen_random_uuid(),
+        "user_id" uuid NOT NULL,
+        "status" character varying NOT NULL DEFAULT 'pending' CHECK ("status" IN ('pending', 'completed', 'failed', 'cancelled')),
+        "options" jsonb NOT NULL,
+        "result" jsonb,
+        "error_message" character varying,
+        "started_at" TIMESTAMP WITH TIME ZONE NOT NULL,
+        "completed_at" TIMESTAMP WITH TIME ZONE,
+        CONSTRAINT "PK_sync_history_id" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_sync_history_user_id" FOREIGN KEY ("user_id") REFERENCES "user"("id") ON DELETE CASCADE
+      )
+    `);
+
+    // Index for paging through a user's history, newest first
+    await queryRunner.query(`CREATE INDEX "idx_sync_history_user_started" ON "sync_history" ("user_id", "started_at")`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "idx_sync_history_user_started"`);
+    await queryRunner.query(`DROP TABLE "sync_history"`);
+  }
+}
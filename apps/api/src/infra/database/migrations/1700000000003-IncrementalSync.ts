@@ -0,0 +1,25 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class IncrementalSync1700000000003 implements MigrationInterface {
+  name = 'IncrementalSync1700000000003';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Google sync cursor per calendar account
+    await queryRunner.query(`ALTER TABLE "calendar_account" ADD "sync_token" character varying`);
+    await queryRunner.query(`ALTER TABLE "calendar_account" ADD "last_synced_at" TIMESTAMP WITH TIME ZONE`);
+
+    // Local changes not yet pushed to Google; events already synced start clean
+    await queryRunner.query(`ALTER TABLE "local_event" ADD "dirty" boolean NOT NULL DEFAULT true`);
+    await queryRunner.query(`UPDATE "local_event" SET "dirty" = false WHERE "status" = 'synced'`);
+
+    // Partial index for finding a user's pending changes
+    await queryRunner.query(`CREATE INDEX "idx_event_user_dirty" ON "local_event" ("user_id") WHERE "dirty" = true`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "idx_event_user_dirty"`);
+    await queryRunner.query(`ALTER TABLE "local_event" DROP COLUMN "dirty"`);
+    await queryRunner.query(`ALTER TABLE "calendar_account" DROP COLUMN "last_synced_at"`);
+    await queryRunner.query(`ALTER TABLE "calendar_account" DROP COLUMN "sync_token"`);
+  }
+}
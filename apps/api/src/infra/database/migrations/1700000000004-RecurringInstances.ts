@@ -0,0 +1,32 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class RecurringInstances1700000000004 implements MigrationInterface {
+  name = 'RecurringInstances1700000000004';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Recurring Google event an occurrence belongs to; gcal_event_id holds the instance ID
+    await queryRunner.query(`ALTER TABLE "local_event" ADD "gcal_recurring_event_id" character varying`);
+
+    // Occurrences synced before this all point at the series itself; record it
+    // as their series and let the next push look up the instance IDs
+    await queryRunner.query(`
+      UPDATE "local_event" e
+      SET "gcal_recurring_event_id" = e."gcal_event_id"
+      FROM (
+        SELECT "user_id", "gcal_event_id"
+        FROM "local_event"
+        WHERE "gcal_event_id" IS NOT NULL
+        GROUP BY "user_id", "gcal_event_id"
+        HAVING COUNT(*) > 1
+      ) shared
+      WHERE e."user_id" = shared."user_id" AND e."gcal_event_id" = shared."gcal_event_id"
+    `);
+
+    await queryRunner.query(`CREATE INDEX "idx_event_user_recurring" ON "local_event" ("user_id", "gcal_recurring_event_id") WHERE "gcal_recurring_event_id" IS NOT NULL`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "idx_event_user_recurring"`);
+    await queryRunner.query(`ALTER TABLE "local_event" DROP COLUMN "gcal_recurring_event_id"`);
+  }
+}
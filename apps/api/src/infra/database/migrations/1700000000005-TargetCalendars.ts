@@ -0,0 +1,27 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class TargetCalendars1700000000005 implements MigrationInterface {
+  name = 'TargetCalendars1700000000005';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Per-subject target calendar, overriding the account's primary_calendar_id
+    await queryRunner.query(`ALTER TABLE "subject" ADD "calendar_id" character varying`);
+
+    // Calendar each event was written to, so updates and deletes reach it after the target changes
+    await queryRunner.query(`ALTER TABLE "local_event" ADD "gcal_calendar_id" character varying`);
+    await queryRunner.query(`UPDATE "local_event" SET "gcal_calendar_id" = 'primary' WHERE "gcal_event_id" IS NOT NULL`);
+
+    // Sync cursors are per calendar; everything so far was written to the primary calendar
+    await queryRunner.query(`ALTER TABLE "calendar_account" ADD "sync_tokens" jsonb NOT NULL DEFAULT '{}'`);
+    await queryRunner.query(`UPDATE "calendar_account" SET "sync_tokens" = jsonb_build_object('primary', "sync_token")`);
+    await queryRunner.query(`ALTER TABLE "calendar_account" DROP COLUMN "sync_token"`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "calendar_account" ADD "sync_token" character varying`);
+    await queryRunner.query(`UPDATE "calendar_account" SET "sync_token" = "sync_tokens"->>'primary'`);
+    await queryRunner.query(`ALTER TABLE "calendar_account" DROP COLUMN "sync_tokens"`);
+    await queryRunner.query(`ALTER TABLE "local_event" DROP COLUMN "gcal_calendar_id"`);
+    await queryRunner.query(`ALTER TABLE "subject" DROP COLUMN "calendar_id"`);
+  }
+}
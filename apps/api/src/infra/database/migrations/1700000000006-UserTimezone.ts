@@ -0,0 +1,17 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class UserTimezone1700000000006 implements MigrationInterface {
+  name = 'UserTimezone1700000000006';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "user" ADD "timezone" character varying`);
+
+    // Events were written in Asia/Bangkok until now; keep existing users there
+    // so their synced times don't move. New users take their Google calendar's timezone.
+    await queryRunner.query(`UPDATE "user" SET "timezone" = 'Asia/Bangkok'`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "user" DROP COLUMN "timezone"`);
+  }
+}
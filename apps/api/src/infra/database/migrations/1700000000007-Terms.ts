@@ -0,0 +1,38 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class Terms1700000000007 implements MigrationInterface {
+  name = 'Terms1700000000007';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Create term table; blackouts hold holidays, reading weeks and exam periods
+    await queryRunner.query(`
+      CREATE TABLE "term" (
+        "id" uuid NOT NULL DEFAULT gen_random_uuid(),
+        "user_id" uuid NOT NULL,
+        "name" character varying NOT NULL,
+        "start_date" date NOT NULL,
+        "end_date" date NOT NULL,
+        "blackouts" jsonb NOT NULL DEFAULT '[]',
+        "created_at" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+        CONSTRAINT "UQ_term_user_name" UNIQUE ("user_id", "name"),
+        CONSTRAINT "PK_term_id" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_term_user_id" FOREIGN KEY ("user_id") REFERENCES "user"("id") ON DELETE CASCADE
+      )
+    `);
+
+    // Sections optionally follow a term; deleting the term leaves them standalone
+    await queryRunner.query(`ALTER TABLE "section" ADD "term_id" uuid`);
+    await queryRunner.query(`
+      ALTER TABLE "section" ADD CONSTRAINT "FK_section_term_id"
+      FOREIGN KEY ("term_id") REFERENCES "term"("id") ON DELETE SET NULL
+    `);
+    await queryRunner.query(`CREATE INDEX "idx_section_term" ON "section" ("term_id")`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "idx_section_term"`);
+    await queryRunner.query(`ALTER TABLE "section" DROP CONSTRAINT "FK_section_term_id"`);
+    await queryRunner.query(`ALTER TABLE "section" DROP COLUMN "term_id"`);
+    await queryRunner.query(`DROP TABLE "term"`);
+  }
+}
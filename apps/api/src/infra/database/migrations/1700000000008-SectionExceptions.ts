@@ -0,0 +1,22 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class SectionExceptions1700000000008 implements MigrationInterface {
+  name = 'SectionExceptions1700000000008';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Cancelled, moved and extra classes kept apart from the schedule rules
+    await queryRunner.query(`ALTER TABLE "section" ADD "exceptions" jsonb NOT NULL DEFAULT '[]'`);
+
+    // Events created by an exception remember it, so regeneration keeps them
+    await queryRunner.query(`ALTER TABLE "local_event" ADD "exception_id" character varying`);
+    await queryRunner.query(`ALTER TABLE "local_event" ADD "exception_type" character varying`);
+    await queryRunner.query(`ALTER TABLE "local_event" ADD "original_date" date`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "local_event" DROP COLUMN "original_date"`);
+    await queryRunner.query(`ALTER TABLE "local_event" DROP COLUMN "exception_type"`);
+    await queryRunner.query(`ALTER TABLE "local_event" DROP COLUMN "exception_id"`);
+    await queryRunner.query(`ALTER TABLE "section" DROP COLUMN "exceptions"`);
+  }
+}
@@ -0,0 +1,14 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class EventNotes1700000000009 implements MigrationInterface {
+  name = 'EventNotes1700000000009';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Notes written on a single class, kept through regeneration
+    await queryRunner.query(`ALTER TABLE "local_event" ADD "notes" text`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "local_event" DROP COLUMN "notes"`);
+  }
+}
@@ -0,0 +1,23 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CalendarImport1700000000010 implements MigrationInterface {
+  name = 'CalendarImport1700000000010';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // iCalendar (.ics) files as an import source
+    await queryRunner.query(`ALTER TABLE "import_job" DROP CONSTRAINT "import_job_source_type_check"`);
+    await queryRunner.query(`
+      ALTER TABLE "import_job" ADD CONSTRAINT "import_job_source_type_check"
+        CHECK ("source_type" IN ('csv', 'xlsx', 'ics'))
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DELETE FROM "import_job" WHERE "source_type" = 'ics'`);
+    await queryRunner.query(`ALTER TABLE "import_job" DROP CONSTRAINT "import_job_source_type_check"`);
+    await queryRunner.query(`
+      ALTER TABLE "import_job" ADD CONSTRAINT "import_job_source_type_check"
+        CHECK ("source_type" IN ('csv', 'xlsx'))
+    `);
+  }
+}
@@ -0,0 +1,31 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CalendarFeeds1700000000011 implements MigrationInterface {
+  name = 'CalendarFeeds1700000000011';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Create calendar_feed table; the token is the secret part of the feed URL
+    await queryRunner.query(`
+      CREATE TABLE "calendar_feed" (
+        "id" uuid NOT NULL DEFAULT gen_random_uuid(),
+        "user_id" uuid NOT NULL,
+        "name" character varying NOT NULL,
+        "token" character varying NOT NULL,
+        "saved_filter_id" uuid,
+        "content_hash" character varying,
+        "last_modified_at" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+        "created_at" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+        CONSTRAINT "UQ_calendar_feed_token" UNIQUE ("token"),
+        CONSTRAINT "PK_calendar_feed_id" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_calendar_feed_user_id" FOREIGN KEY ("user_id") REFERENCES "user"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_calendar_feed_saved_filter_id" FOREIGN KEY ("saved_filter_id") REFERENCES "saved_filter"("id") ON DELETE CASCADE
+      )
+    `);
+    await queryRunner.query(`CREATE INDEX "idx_calendar_feed_user" ON "calendar_feed" ("user_id")`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "idx_calendar_feed_user"`);
+    await queryRunner.query(`DROP TABLE "calendar_feed"`);
+  }
+}
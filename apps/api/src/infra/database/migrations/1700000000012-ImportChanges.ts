@@ -0,0 +1,50 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class ImportChanges1700000000012 implements MigrationInterface {
+  name = 'ImportChanges1700000000012';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Jobs are applying while an apply runs, and can be rolled back
+    await queryRunner.query(`ALTER TABLE "import_job" DROP CONSTRAINT "import_job_state_check"`);
+    await queryRunner.query(`
+      ALTER TABLE "import_job" ADD CONSTRAINT "import_job_state_check"
+        CHECK ("state" IN ('pending', 'preview', 'applying', 'applied', 'failed', 'rolled_back'))
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "import_job" ADD "apply_mode" character varying
+        CHECK ("apply_mode" IN ('all-or-nothing', 'best-effort'))
+    `);
+    await queryRunner.query(`ALTER TABLE "import_job" ADD "apply_lease_expires_at" TIMESTAMP WITH TIME ZONE`);
+
+    // Records each row created or updated, for rolling the job back
+    await queryRunner.query(`ALTER TABLE "import_item" DROP CONSTRAINT "import_item_status_check"`);
+    await queryRunner.query(`
+      ALTER TABLE "import_item" ADD CONSTRAINT "import_item_status_check"
+        CHECK ("status" IN ('preview', 'created', 'skipped', 'failed', 'rolled_back'))
+    `);
+    await queryRunner.query(`ALTER TABLE "import_item" ADD "changes" jsonb NOT NULL DEFAULT '[]'`);
+    await queryRunner.query(`ALTER TABLE "import_item" ADD "apply_sequence" integer`);
+    await queryRunner.query(`ALTER TABLE "import_item" ADD "error_message" character varying`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "import_item" DROP COLUMN "error_message"`);
+    await queryRunner.query(`ALTER TABLE "import_item" DROP COLUMN "apply_sequence"`);
+    await queryRunner.query(`ALTER TABLE "import_item" DROP COLUMN "changes"`);
+    await queryRunner.query(`UPDATE "import_item" SET "status" = 'skipped' WHERE "status" = 'rolled_back'`);
+    await queryRunner.query(`ALTER TABLE "import_item" DROP CONSTRAINT "import_item_status_check"`);
+    await queryRunner.query(`
+      ALTER TABLE "import_item" ADD CONSTRAINT "import_item_status_check"
+        CHECK ("status" IN ('preview', 'created', 'skipped', 'failed'))
+    `);
+
+    await queryRunner.query(`ALTER TABLE "import_job" DROP COLUMN "apply_lease_expires_at"`);
+    await queryRunner.query(`ALTER TABLE "import_job" DROP COLUMN "apply_mode"`);
+    await queryRunner.query(`UPDATE "import_job" SET "state" = 'failed' WHERE "state" IN ('applying', 'rolled_back')`);
+    await queryRunner.query(`ALTER TABLE "import_job" DROP CONSTRAINT "import_job_state_check"`);
+    await queryRunner.query(`
+      ALTER TABLE "import_job" ADD CONSTRAINT "import_job_state_check"
+        CHECK ("state" IN ('pending', 'preview', 'applied', 'failed'))
+    `);
+  }
+}
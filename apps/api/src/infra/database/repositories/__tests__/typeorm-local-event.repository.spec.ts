@@ -1,4 +1,4 @@
-import { Repository, Between } from 'typeorm';
+import { Repository, Between, IsNull, Not } from 'typeorm';
 import { LocalEvent } from '../../entities/local-event.entity';
 import { TypeOrmLocalEventRepository } from '../typeorm-local-event.repository';
 
@@ -115,7 +115,7 @@ describe('TypeOrmLocalEventRepository', () => {
 
       const result = await repository.softDelete(eventId);
 
-      expect(mockRepository.update).toHaveBeenCalledWith(eventId, { status: 'deleted' });
+      expect(mockRepository.update).toHaveBeenCalledWith(eventId, { status: 'deleted', dirty: true });
       expect(result).toBe(true);
     });
 
@@ -128,6 +128,19 @@ describe('TypeOrmLocalEventRepository', () => {
     });
   });
 
+  describe('markDirtyBySubjectId', () => {
+    it('should mark the subject events already in Google as dirty', async () => {
+      mockRepository.update.mockResolvedValue({ affected: 2 } as any);
+
+      await repository.markDirtyBySubjectId('subject-123');
+
+      expect(mockRepository.update).toHaveBeenCalledWith(
+        { subjectId: 'subject-123', gcalEventId: Not(IsNull()) },
+        { dirty: true },
+      );
+    });
+  });
+
   describe('findPendingSync', () => {
     it('should find events with planned status for sync', async () => {
       const userId = 'user-123';
@@ -0,0 +1,6 @@
+import { CalendarFeed } from '../../entities/calendar-feed.entity';
+import { BaseRepository } from './base-repository.interface';
+
+export interface CalendarFeedRepository extends BaseRepository<CalendarFeed> {
+  findByUserId(userId: string): Promise<CalendarFeed[]>;
+}
@@ -1,7 +1,7 @@
 import { ImportItem } from '../../entities/import-item.entity';
-import { BaseRepositoryInterface } from './base-repository.interface';
+import { BaseRepository } from './base-repository.interface';
 
-export interface ImportItemRepositoryInterface extends BaseRepositoryInterface<ImportItem> {
+export interface ImportItemRepositoryInterface extends BaseRepository<ImportItem> {
   findByImportJobId(importJobId: string): Promise<ImportItem[]>;
   findByImportJobIdAndStatus(importJobId: string, status: ImportItem['status']): Promise<ImportItem[]>;
   bulkCreate(items: Partial<ImportItem>[]): Promise<ImportItem[]>;
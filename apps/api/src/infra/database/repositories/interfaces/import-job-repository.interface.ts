@@ -1,8 +1,13 @@
 import { ImportJob } from '../../entities/import-job.entity';
-import { BaseRepositoryInterface } from './base-repository.interface';
+import { BaseRepository } from './base-repository.interface';
 
-export interface ImportJobRepositoryInterface extends BaseRepositoryInterface<ImportJob> {
+export interface ImportJobRepositoryInterface extends BaseRepository<ImportJob> {
   findByUserId(userId: string): Promise<ImportJob[]>;
   findByUserIdAndState(userId: string, state: ImportJob['state']): Promise<ImportJob[]>;
   findWithItems(id: string): Promise<ImportJob | null>;
+  /**
+   * Moves a job from the given state to applying, unless another apply
+   * holds its lease. Returns whether this call claimed it.
+   */
+  claimForApply(id: string, fromState: ImportJob['state'], data: Partial<ImportJob>, now: Date): Promise<boolean>;
 }
\ No newline at end of file
@@ -1,6 +1,22 @@
 import { LocalEvent } from '../../entities/local-event.entity';
 import { BaseRepository } from './base-repository.interface';
 
+export interface LocalEventFilters {
+  from?: string;
+  to?: string;
+  subjectId?: string;
+  sectionId?: string;
+  // Removed events are only listed when asked for by status
+  status?: 'planned' | 'synced' | 'deleted';
+}
+
+// Position after which a page starts, in date, start time and ID order
+export interface LocalEventCursor {
+  eventDate: string;
+  startTime: string;
+  id: string;
+}
+
 export interface LocalEventRepository extends BaseRepository<LocalEvent> {
   findByUserId(userId: string): Promise<LocalEvent[]>;
   findByUserIdAndDateRange(userId: string, startDate: string, endDate: string): Promise<LocalEvent[]>;
@@ -9,5 +25,7 @@ export interface LocalEventRepository extends BaseRepository<LocalEvent> {
   findByStatus(status: 'planned' | 'synced' | 'deleted'): Promise<LocalEvent[]>;
   findByGcalEventId(gcalEventId: string): Promise<LocalEvent | null>;
   softDelete(id: string): Promise<boolean>;
+  markDirtyBySubjectId(subjectId: string): Promise<void>;
   findPendingSync(userId: string): Promise<LocalEvent[]>;
+  findPage(userId: string, filters: LocalEventFilters, limit: number, after?: LocalEventCursor): Promise<LocalEvent[]>;
 }
\ No newline at end of file
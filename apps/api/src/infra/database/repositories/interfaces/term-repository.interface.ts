@@ -0,0 +1,7 @@
+import { Term } from '../../entities/term.entity';
+import { BaseRepository } from './base-repository.interface';
+
+export interface TermRepository extends BaseRepository<Term> {
+  findByUserId(userId: string): Promise<Term[]>;
+  findByUserIdAndName(userId: string, name: string): Promise<Term | null>;
+}
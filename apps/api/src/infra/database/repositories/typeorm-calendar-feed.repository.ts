@@ -0,0 +1,50 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { CalendarFeed } from '../entities/calendar-feed.entity';
+import { CalendarFeedRepository } from './interfaces/calendar-feed-repository.interface';
+
+@Injectable()
+export class TypeOrmCalendarFeedRepository implements CalendarFeedRepository {
+  constructor(
+    @InjectRepository(CalendarFeed)
+    private readonly repository: Repository<CalendarFeed>,
+  ) {}
+
+  async findById(id: string): Promise<CalendarFeed | null> {
+    return this.repository.findOne({ where: { id } });
+  }
+
+  async findAll(): Promise<CalendarFeed[]> {
+    return this.repository.find();
+  }
+
+  async create(feedData: Partial<CalendarFeed>): Promise<CalendarFeed> {
+    const feed = this.repository.create(feedData);
+    return this.repository.save(feed);
+  }
+
+  async update(id: string, updates: Partial<CalendarFeed>): Promise<CalendarFeed | null> {
+    const result = await this.repository.update(id, updates);
+    if (result.affected === 0) {
+      return null;
+    }
+    return this.findById(id);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await this.repository.delete(id);
+    return result.affected > 0;
+  }
+
+  async count(): Promise<number> {
+    return this.repository.count();
+  }
+
+  async findByUserId(userId: string): Promise<CalendarFeed[]> {
+    return this.repository.find({
+      where: { userId },
+      order: { createdAt: 'ASC' }
+    });
+  }
+}
@@ -48,8 +48,13 @@ export class TypeOrmImportItemRepository implements ImportItemRepositoryInterfac
     return this.findById(id);
   }
 
-  async delete(id: string): Promise<void> {
-    await this.repository.delete(id);
+  async delete(id: string): Promise<boolean> {
+    const result = await this.repository.delete(id);
+    return result.affected > 0;
+  }
+
+  async count(): Promise<number> {
+    return this.repository.count();
   }
 
   async findAll(): Promise<ImportItem[]> {
@@ -41,13 +41,34 @@ export class TypeOrmImportJobRepository implements ImportJobRepositoryInterface
     });
   }
 
+  async claimForApply(
+    id: string,
+    fromState: ImportJob['state'],
+    data: Partial<ImportJob>,
+    now: Date,
+  ): Promise<boolean> {
+    const result = await this.repository
+      .createQueryBuilder()
+      .update(ImportJob)
+      .set({ ...data, state: 'applying' })
+      .where('id = :id AND state = :fromState', { id, fromState })
+      .andWhere('(apply_lease_expires_at IS NULL OR apply_lease_expires_at < :now)', { now })
+      .execute();
+    return result.affected > 0;
+  }
+
   async update(id: string, data: Partial<ImportJob>): Promise<ImportJob | null> {
     await this.repository.update(id, data);
     return this.findById(id);
   }
 
-  async delete(id: string): Promise<void> {
-    await this.repository.delete(id);
+  async delete(id: string): Promise<boolean> {
+    const result = await this.repository.delete(id);
+    return result.affected > 0;
+  }
+
+  async count(): Promise<number> {
+    return this.repository.count();
   }
 
   async findAll(): Promise<ImportJob[]> {
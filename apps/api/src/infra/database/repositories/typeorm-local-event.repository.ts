@@ -1,8 +1,12 @@
 import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, Between } from 'typeorm';
+import { Repository, Between, IsNull, Not } from 'typeorm';
 import { LocalEvent } from '../entities/local-event.entity';
-import { LocalEventRepository } from './interfaces/local-event-repository.interface';
+import {
+  LocalEventRepository,
+  LocalEventFilters,
+  LocalEventCursor,
+} from './interfaces/local-event-repository.interface';
 
 @Injectable()
 export class TypeOrmLocalEventRepository implements LocalEventRepository {
@@ -98,10 +102,15 @@ export class TypeOrmLocalEventRepository implements LocalEventRepository {
   }
 
   async softDelete(id: string): Promise<boolean> {
-    const result = await this.repository.update(id, { status: 'deleted' });
+    const result = await this.repository.update(id, { status: 'deleted', dirty: true });
     return result.affected > 0;
   }
 
+  async markDirtyBySubjectId(subjectId: string): Promise<void> {
+    // Only events already in Google have anything to rewrite
+    await this.repository.update({ subjectId, gcalEventId: Not(IsNull()) }, { dirty: true });
+  }
+
   async findPendingSync(userId: string): Promise<LocalEvent[]> {
     return this.repository.find({
       where: { 
@@ -112,4 +121,48 @@ export class TypeOrmLocalEventRepository implements LocalEventRepository {
       order: { eventDate: 'ASC', startTime: 'ASC' }
     });
   }
-}
\ No newline at end of file
+
+  async findPage(
+    userId: string,
+    filters: LocalEventFilters,
+    limit: number,
+    after?: LocalEventCursor,
+  ): Promise<LocalEvent[]> {
+    const query = this.repository
+      .createQueryBuilder('event')
+      .leftJoinAndSelect('event.subject', 'subject')
+      .leftJoinAndSelect('event.section', 'section')
+      .where('event.userId = :userId', { userId });
+
+    if (filters.from) {
+      query.andWhere('event.eventDate >= :from', { from: filters.from });
+    }
+    if (filters.to) {
+      query.andWhere('event.eventDate <= :to', { to: filters.to });
+    }
+    if (filters.subjectId) {
+      query.andWhere('event.subjectId = :subjectId', { subjectId: filters.subjectId });
+    }
+    if (filters.sectionId) {
+      query.andWhere('event.sectionId = :sectionId', { sectionId: filters.sectionId });
+    }
+    if (filters.status) {
+      query.andWhere('event.status = :status', { status: filters.status });
+    } else {
+      query.andWhere('event.status != :deleted', { deleted: 'deleted' });
+    }
+    if (after) {
+      query.andWhere(
+        '(event.eventDate, event.startTime, event.id) > (:afterDate, :afterTime, :afterId)',
+        { afterDate: after.eventDate, afterTime: after.startTime, afterId: after.id }
+      );
+    }
+
+    return query
+      .orderBy('event.eventDate', 'ASC')
+      .addOrderBy('event.startTime', 'ASC')
+      .addOrderBy('event.id', 'ASC')
+      .limit(limit)
+      .getMany();
+  }
+}
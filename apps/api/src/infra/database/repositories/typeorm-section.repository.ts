@@ -14,13 +14,13 @@ export class TypeOrmSectionRepository implements SectionRepository {
   async findById(id: string): Promise<Section | null> {
     return this.repository.findOne({
       where: { id },
-      relations: ['subject', 'events']
+      relations: ['subject', 'events', 'term']
     });
   }
 
   async findAll(): Promise<Section[]> {
     return this.repository.find({
-      relations: ['subject', 'events']
+      relations: ['subject', 'events', 'term']
     });
   }
 
@@ -49,7 +49,7 @@ export class TypeOrmSectionRepository implements SectionRepository {
   async findBySubjectId(subjectId: string): Promise<Section[]> {
     return this.repository.find({
       where: { subjectId },
-      relations: ['subject', 'events'],
+      relations: ['subject', 'events', 'term'],
       order: { secCode: 'ASC' }
     });
   }
@@ -57,7 +57,7 @@ export class TypeOrmSectionRepository implements SectionRepository {
   async findBySubjectIdAndSecCode(subjectId: string, secCode: string): Promise<Section | null> {
     return this.repository.findOne({
       where: { subjectId, secCode },
-      relations: ['subject', 'events']
+      relations: ['subject', 'events', 'term']
     });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,60 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Term } from '../entities/term.entity';
+import { TermRepository } from './interfaces/term-repository.interface';
+
+@Injectable()
+export class TypeOrmTermRepository implements TermRepository {
+  constructor(
+    @InjectRepository(Term)
+    private readonly repository: Repository<Term>,
+  ) {}
+
+  async findById(id: string): Promise<Term | null> {
+    return this.repository.findOne({
+      where: { id },
+      relations: ['sections']
+    });
+  }
+
+  async findAll(): Promise<Term[]> {
+    return this.repository.find();
+  }
+
+  async create(termData: Partial<Term>): Promise<Term> {
+    const term = this.repository.create(termData);
+    return this.repository.save(term);
+  }
+
+  async update(id: string, updates: Partial<Term>): Promise<Term | null> {
+    const result = await this.repository.update(id, updates);
+    if (result.affected === 0) {
+      return null;
+    }
+    return this.findById(id);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await this.repository.delete(id);
+    return result.affected > 0;
+  }
+
+  async count(): Promise<number> {
+    return this.repository.count();
+  }
+
+  async findByUserId(userId: string): Promise<Term[]> {
+    return this.repository.find({
+      where: { userId },
+      relations: ['sections'],
+      order: { startDate: 'DESC' }
+    });
+  }
+
+  async findByUserIdAndName(userId: string, name: string): Promise<Term | null> {
+    return this.repository.findOne({
+      where: { userId, name }
+    });
+  }
+}
@@ -0,0 +1,62 @@
+import { Injectable } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { Subject } from '../entities/subject.entity';
+import { Section } from '../entities/section.entity';
+import { Term } from '../entities/term.entity';
+import { LocalEvent } from '../entities/local-event.entity';
+import { SavedFilter } from '../entities/saved-filter.entity';
+import { ImportJob } from '../entities/import-job.entity';
+import { ImportItem } from '../entities/import-item.entity';
+import { CalendarFeed } from '../entities/calendar-feed.entity';
+import { SubjectRepository } from './interfaces/subject-repository.interface';
+import { SectionRepository } from './interfaces/section-repository.interface';
+import { TermRepository } from './interfaces/term-repository.interface';
+import { LocalEventRepository } from './interfaces/local-event-repository.interface';
+import { SavedFilterRepository } from './interfaces/saved-filter-repository.interface';
+import { ImportJobRepositoryInterface } from './interfaces/import-job-repository.interface';
+import { ImportItemRepositoryInterface } from './interfaces/import-item-repository.interface';
+import { CalendarFeedRepository } from './interfaces/calendar-feed-repository.interface';
+import { TypeOrmSubjectRepository } from './typeorm-subject.repository';
+import { TypeOrmSectionRepository } from './typeorm-section.repository';
+import { TypeOrmTermRepository } from './typeorm-term.repository';
+import { TypeOrmLocalEventRepository } from './typeorm-local-event.repository';
+import { TypeOrmSavedFilterRepository } from './typeorm-saved-filter.repository';
+import { TypeOrmImportJobRepository } from './typeorm-import-job.repository';
+import { TypeOrmImportItemRepository } from './typeorm-import-item.repository';
+import { TypeOrmCalendarFeedRepository } from './typeorm-calendar-feed.repository';
+
+/**
+ * Repositories whose reads and writes all go through one transaction
+ */
+export interface TransactionRepositories {
+  subjects: SubjectRepository;
+  sections: SectionRepository;
+  terms: TermRepository;
+  localEvents: LocalEventRepository;
+  savedFilters: SavedFilterRepository;
+  importJobs: ImportJobRepositoryInterface;
+  importItems: ImportItemRepositoryInterface;
+  calendarFeeds: CalendarFeedRepository;
+}
+
+@Injectable()
+export class UnitOfWork {
+  constructor(private readonly dataSource: DataSource) {}
+
+  /**
+   * Runs work in a transaction, committed when it resolves and rolled back
+   * when it throws
+   */
+  async run<T>(work: (repositories: TransactionRepositories) => Promise<T>): Promise<T> {
+    return this.dataSource.transaction(manager => work({
+      subjects: new TypeOrmSubjectRepository(manager.getRepository(Subject)),
+      sections: new TypeOrmSectionRepository(manager.getRepository(Section)),
+      terms: new TypeOrmTermRepository(manager.getRepository(Term)),
+      localEvents: new TypeOrmLocalEventRepository(manager.getRepository(LocalEvent)),
+      savedFilters: new TypeOrmSavedFilterRepository(manager.getRepository(SavedFilter)),
+      importJobs: new TypeOrmImportJobRepository(manager.getRepository(ImportJob)),
+      importItems: new TypeOrmImportItemRepository(manager.getRepository(ImportItem)),
+      calendarFeeds: new TypeOrmCalendarFeedRepository(manager.getRepository(CalendarFeed)),
+    }));
+  }
+}
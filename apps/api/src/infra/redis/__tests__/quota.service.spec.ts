@@ -0,0 +1,114 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { QuotaService } from '../quota.service';
+import Redis from 'ioredis';
+
+// Mock Redis
+jest.mock('ioredis');
+const MockedRedis = Redis as jest.MockedClass<typeof Redis>;
+
+describe('QuotaService', () => {
+  let service: QuotaService;
+  let mockRedis: jest.Mocked<Redis>;
+
+  beforeEach(async () => {
+    jest.useFakeTimers().setSystemTime(new Date('2024-01-15T10:00:00Z'));
+
+    // Create mock Redis instance
+    mockRedis = {
+      incrby: jest.fn(),
+      expire: jest.fn(),
+      get: jest.fn(),
+      on: jest.fn(),
+    } as any;
+
+    // Mock Redis constructor
+    MockedRedis.mockImplementation(() => mockRedis);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        QuotaService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string) => {
+              const config = {
+                REDIS_HOST: 'localhost',
+                REDIS_PORT: 6379,
+                REDIS_DB: 0,
+                GOOGLE_API_QUOTA_LIMIT: 500,
+              };
+              return config[key];
+            }),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<QuotaService>(QuotaService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.clearAllMocks();
+  });
+
+  describe('recordRequests', () => {
+    it('should increment the counter for the user and day', async () => {
+      mockRedis.incrby.mockResolvedValue(12);
+
+      const used = await service.recordRequests('user-123', 2);
+
+      expect(used).toBe(12);
+      expect(mockRedis.incrby).toHaveBeenCalledWith('quota:user-123:2024-01-15', 2);
+      expect(mockRedis.expire).not.toHaveBeenCalled();
+    });
+
+    it('should set an expiry on the first request of the day', async () => {
+      mockRedis.incrby.mockResolvedValue(1);
+
+      await service.recordRequests('user-123');
+
+      expect(mockRedis.expire).toHaveBeenCalledWith('quota:user-123:2024-01-15', 172800);
+    });
+
+    it('should not throw when Redis is unavailable', async () => {
+      mockRedis.incrby.mockRejectedValue(new Error('Connection refused'));
+
+      await expect(service.recordRequests('user-123')).resolves.toBeNull();
+    });
+  });
+
+  describe('getUsage', () => {
+    it('should report remaining quota and the next reset', async () => {
+      mockRedis.get.mockResolvedValue('120');
+
+      const usage = await service.getUsage('user-123');
+
+      expect(mockRedis.get).toHaveBeenCalledWith('quota:user-123:2024-01-15');
+      expect(usage).toEqual({
+        used: 120,
+        remaining: 380,
+        dailyLimit: 500,
+        resetTime: new Date('2024-01-16T00:00:00Z'),
+      });
+    });
+
+    it('should never report negative remaining quota', async () => {
+      mockRedis.get.mockResolvedValue('650');
+
+      const usage = await service.getUsage('user-123');
+
+      expect(usage.remaining).toBe(0);
+    });
+
+    it('should report no usage when nothing was counted today', async () => {
+      mockRedis.get.mockResolvedValue(null);
+
+      const usage = await service.getUsage('user-123');
+
+      expect(usage.used).toBe(0);
+      expect(usage.remaining).toBe(500);
+    });
+  });
+});
@@ -1,16 +1,57 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { SyncJobProcessor, SyncJobData } from '../sync-job.processor';
+import { CalendarSyncService, SyncResult } from '../../../../modules/google-calendar/calendar-sync.service';
+import { SyncHistoryService } from '../../../../modules/google-calendar/sync-history.service';
 import { Job } from 'bull';
 
 describe('SyncJobProcessor', () => {
   let processor: SyncJobProcessor;
+  let calendarSyncService: jest.Mocked<CalendarSyncService>;
+  let syncHistoryService: jest.Mocked<SyncHistoryService>;
+
+  const mockSyncResult: SyncResult = {
+    summary: {
+      created: 1,
+      updated: 1,
+      deleted: 0,
+      skipped: 0,
+      failed: 0,
+    },
+    details: [
+      { localEventId: 'event-1', googleEventId: 'google-1', action: 'created', etag: 'etag-1' },
+      { localEventId: 'event-2', googleEventId: 'google-2', action: 'updated', etag: 'etag-2' },
+    ],
+    conflicts: [],
+    quotaUsed: 2,
+    isDryRun: false,
+  };
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
-      providers: [SyncJobProcessor],
+      providers: [
+        SyncJobProcessor,
+        {
+          provide: CalendarSyncService,
+          useValue: {
+            sync: jest.fn(async (userId, options, onProgress) => {
+              await onProgress?.(1, 2);
+              await onProgress?.(2, 2);
+              return { ...mockSyncResult, isDryRun: !!options.dryRun };
+            }),
+          },
+        },
+        {
+          provide: SyncHistoryService,
+          useValue: {
+            record: jest.fn((userId, options, operation) => operation()),
+          },
+        },
+      ],
     }).compile();
 
     processor = module.get<SyncJobProcessor>(SyncJobProcessor);
+    calendarSyncService = module.get(CalendarSyncService);
+    syncHistoryService = module.get(SyncHistoryService);
   });
 
   describe('handleCalendarSync', () => {
@@ -35,46 +76,62 @@ describe('SyncJobProcessor', () => {
     it('should process sync job successfully', async () => {
       const result = await processor.handleCalendarSync(mockJob as Job<SyncJobData>);
 
-      expect(result).toEqual({
-        summary: {
-          created: 5,
-          updated: 3,
-          skipped: 2,
-          failed: 0,
+      expect(result).toEqual(mockSyncResult);
+      expect(calendarSyncService.sync).toHaveBeenCalledWith(
+        'user-123',
+        {
+          direction: 'upsert-to-google',
+          range: { from: '2024-01-01', to: '2024-01-31' },
+          idempotencyKey: 'test-key-123',
         },
-        details: [
-          { eventId: 'event-1', action: 'created' },
-          { eventId: 'event-2', action: 'updated' },
-          { eventId: 'event-3', action: 'skipped' },
-        ],
-        conflicts: [],
-        quotaUsed: 8,
-        isDryRun: false, // dryRun defaults to false
-      });
+        expect.any(Function),
+      );
 
       expect(mockJob.progress).toHaveBeenCalledWith(10);
       expect(mockJob.progress).toHaveBeenCalledWith(20);
       expect(mockJob.progress).toHaveBeenCalledWith(100);
     });
 
+    it('should report progress per event group', async () => {
+      await processor.handleCalendarSync(mockJob as Job<SyncJobData>);
+
+      expect(mockJob.progress).toHaveBeenCalledWith(59);
+      expect(mockJob.progress).toHaveBeenCalledWith(99);
+    });
+
+    it('should record the run in sync history', async () => {
+      await processor.handleCalendarSync(mockJob as Job<SyncJobData>);
+
+      expect(syncHistoryService.record).toHaveBeenCalledWith(
+        'user-123',
+        expect.objectContaining({ direction: 'upsert-to-google' }),
+        expect.any(Function),
+      );
+    });
+
     it('should handle dry run correctly', async () => {
       mockJob.data!.dryRun = true;
 
       const result = await processor.handleCalendarSync(mockJob as Job<SyncJobData>);
 
       expect(result.isDryRun).toBe(true);
-      expect(result.summary.created).toBe(0);
-      expect(result.summary.updated).toBe(0);
-      expect(result.quotaUsed).toBe(0);
+      expect(calendarSyncService.sync).toHaveBeenCalledWith(
+        'user-123',
+        expect.objectContaining({ dryRun: true }),
+        expect.any(Function),
+      );
     });
 
     it('should include eventIds when provided', async () => {
       mockJob.data!.eventIds = ['event-1', 'event-2'];
 
-      const result = await processor.handleCalendarSync(mockJob as Job<SyncJobData>);
+      await processor.handleCalendarSync(mockJob as Job<SyncJobData>);
 
-      expect(result).toBeDefined();
-      // The processor should handle eventIds (implementation detail)
+      expect(calendarSyncService.sync).toHaveBeenCalledWith(
+        'user-123',
+        expect.objectContaining({ eventIds: ['event-1', 'event-2'] }),
+        expect.any(Function),
+      );
     });
 
     it('should validate required userId', async () => {
@@ -179,6 +236,19 @@ describe('SyncJobProcessor', () => {
       expect(() => processor['validateSyncJobData'](validData)).not.toThrow();
     });
 
+    it('should accept pull and bidirectional directions', () => {
+      for (const direction of ['pull-from-google', 'bidirectional'] as const) {
+        const validData: SyncJobData = {
+          userId: 'user-123',
+          direction,
+          range: { from: '2024-01-01', to: '2024-01-31' },
+          idempotencyKey: 'test-key-123',
+        };
+
+        expect(() => processor['validateSyncJobData'](validData)).not.toThrow();
+      }
+    });
+
     it('should reject data without userId', () => {
       const invalidData = {
         direction: 'upsert-to-google',
@@ -233,38 +303,21 @@ describe('SyncJobProcessor', () => {
   });
 
   describe('performSync', () => {
-    it('should return sync result for regular sync', async () => {
-      const data: SyncJobData = {
-        userId: 'user-123',
-        direction: 'upsert-to-google',
-        range: { from: '2024-01-01', to: '2024-01-31' },
-        idempotencyKey: 'test-key-123',
-        dryRun: false,
-      };
-
-      const result = await processor['performSync'](data);
+    it('should propagate sync failures so Bull can retry the job', async () => {
+      calendarSyncService.sync.mockRejectedValue(new Error('Google API unavailable'));
 
-      expect(result.summary.created).toBe(5);
-      expect(result.summary.updated).toBe(3);
-      expect(result.quotaUsed).toBe(8);
-      expect(result.isDryRun).toBe(false);
-    });
-
-    it('should return dry run result for dry run sync', async () => {
-      const data: SyncJobData = {
-        userId: 'user-123',
-        direction: 'upsert-to-google',
-        range: { from: '2024-01-01', to: '2024-01-31' },
-        idempotencyKey: 'test-key-123',
-        dryRun: true,
-      };
-
-      const result = await processor['performSync'](data);
+      const job = {
+        id: 'job-1',
+        data: {
+          userId: 'user-123',
+          direction: 'upsert-to-google',
+          range: { from: '2024-01-01', to: '2024-01-31' },
+          idempotencyKey: 'test-key-123',
+        },
+        progress: jest.fn(),
+      } as unknown as Job<SyncJobData>;
 
-      expect(result.summary.created).toBe(0);
-      expect(result.summary.updated).toBe(0);
-      expect(result.quotaUsed).toBe(0);
-      expect(result.isDryRun).toBe(true);
+      await expect(processor['performSync'](job)).rejects.toThrow('Google API unavailable');
     });
   });
-});
\ No newline at end of file
+});
@@ -1,45 +1,33 @@
 import { Process, Processor } from '@nestjs/bull';
 import { Logger } from '@nestjs/common';
 import { Job } from 'bull';
+import { CalendarSyncService, SYNC_DIRECTIONS, SyncOptions, SyncResult } from '../../../modules/google-calendar/calendar-sync.service';
+import { SyncHistoryService } from '../../../modules/google-calendar/sync-history.service';
 
 export interface SyncJobData {
   userId: string;
-  direction: 'upsert-to-google';
+  direction: SyncOptions['direction'];
   range: {
     from: string;
     to: string;
   };
   eventIds?: string[];
   dryRun?: boolean;
+  fullResync?: boolean;
   idempotencyKey: string;
 }
 
-export interface SyncJobResult {
-  summary: {
-    created: number;
-    updated: number;
-    skipped: number;
-    failed: number;
-  };
-  details: Array<{
-    eventId: string;
-    action: 'created' | 'updated' | 'skipped' | 'failed';
-    error?: string;
-  }>;
-  conflicts: Array<{
-    eventId: string;
-    reason: string;
-    localData: any;
-    googleData: any;
-  }>;
-  quotaUsed: number;
-  isDryRun: boolean;
-}
+export type SyncJobResult = SyncResult;
 
 @Processor('sync')
 export class SyncJobProcessor {
   private readonly logger = new Logger(SyncJobProcessor.name);
 
+  constructor(
+    private readonly calendarSyncService: CalendarSyncService,
+    private readonly syncHistoryService: SyncHistoryService,
+  ) {}
+
   @Process('calendar-sync')
   async handleCalendarSync(job: Job<SyncJobData>): Promise<SyncJobResult> {
     const { userId, direction, range, eventIds, dryRun = false, idempotencyKey } = job.data;
@@ -55,9 +43,7 @@ export class SyncJobProcessor {
       this.validateSyncJobData(job.data);
       await job.progress(20);
 
-      // TODO: Implement actual sync logic here
-      // This is a placeholder that will be replaced with actual CalendarSyncService integration
-      const result = await this.performSync(job.data);
+      const result = await this.performSync(job);
       await job.progress(100);
 
       this.logger.log(`Sync job ${job.id} completed successfully`);
@@ -74,7 +60,7 @@ export class SyncJobProcessor {
       throw new Error('User ID is required');
     }
 
-    if (!data.direction || data.direction !== 'upsert-to-google') {
+    if (!data.direction || !SYNC_DIRECTIONS.includes(data.direction)) {
       throw new Error('Invalid sync direction');
     }
 
@@ -105,30 +91,16 @@ export class SyncJobProcessor {
     }
   }
 
-  private async performSync(data: SyncJobData): Promise<SyncJobResult> {
-    // This is a placeholder implementation
-    // In the actual implementation, this would use CalendarSyncService
-    
-    this.logger.debug(`Performing ${data.dryRun ? 'dry run' : 'actual'} sync for user ${data.userId}`);
-    
-    // Simulate processing time
-    await new Promise(resolve => setTimeout(resolve, 100));
-
-    return {
-      summary: {
-        created: data.dryRun ? 0 : 5,
-        updated: data.dryRun ? 0 : 3,
-        skipped: 2,
-        failed: 0,
-      },
-      details: [
-        { eventId: 'event-1', action: 'created' },
-        { eventId: 'event-2', action: 'updated' },
-        { eventId: 'event-3', action: 'skipped' },
-      ],
-      conflicts: [],
-      quotaUsed: data.dryRun ? 0 : 8,
-      isDryRun: !!data.dryRun, // Convert to boolean
-    };
+  private async performSync(job: Job<SyncJobData>): Promise<SyncJobResult> {
+    const { userId, ...options } = job.data;
+
+    this.logger.debug(`Performing ${options.dryRun ? 'dry run' : 'actual'} sync for user ${userId}`);
+
+    // Progress 20-99% is spread across event groups; 100% is reported by the caller
+    return this.syncHistoryService.record(userId, options, () =>
+      this.calendarSyncService.sync(userId, options, (completed, total) =>
+        job.progress(20 + Math.floor((completed / total) * 79)),
+      ),
+    );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,89 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import Redis from 'ioredis';
+
+export interface QuotaUsage {
+  used: number;
+  remaining: number;
+  dailyLimit: number;
+  resetTime: Date;
+}
+
+/**
+ * Counts Google Calendar API requests per user per day. Days roll over at
+ * midnight UTC.
+ */
+@Injectable()
+export class QuotaService {
+  private readonly logger = new Logger(QuotaService.name);
+  private readonly redis: Redis;
+  private readonly keyPrefix = 'quota';
+  private readonly keyTtl = 2 * 86400; // keep yesterday's counter around for inspection
+  private readonly dailyLimit: number;
+
+  constructor(private readonly configService: ConfigService) {
+    this.dailyLimit = Number(this.configService.get('GOOGLE_API_QUOTA_LIMIT') || 3000);
+
+    this.redis = new Redis({
+      host: this.configService.get('REDIS_HOST') || 'localhost',
+      port: this.configService.get('REDIS_PORT') || 6379,
+      password: this.configService.get('REDIS_PASSWORD'),
+      db: this.configService.get('REDIS_DB') || 0,
+      maxRetriesPerRequest: 3,
+    });
+
+    this.redis.on('error', (error) => {
+      this.logger.error('Redis connection error:', error);
+    });
+  }
+
+  /**
+   * Records API requests made on behalf of a user. Counting never blocks a
+   * request: if Redis is down the request goes through uncounted.
+   */
+  async recordRequests(userId: string, count = 1): Promise<number | null> {
+    const key = this.getKey(userId);
+
+    try {
+      const used = await this.redis.incrby(key, count);
+      if (used === count) {
+        await this.redis.expire(key, this.keyTtl);
+      }
+      return used;
+    } catch (error) {
+      this.logger.warn(`Failed to record quota usage for user ${userId}: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    }
+  }
+
+  /**
+   * Gets today's usage for a user. Reports no usage if Redis is unavailable.
+   */
+  async getUsage(userId: string): Promise<QuotaUsage> {
+    let used = 0;
+
+    try {
+      used = Number(await this.redis.get(this.getKey(userId))) || 0;
+    } catch (error) {
+      this.logger.warn(`Failed to read quota usage for user ${userId}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    return {
+      used,
+      remaining: Math.max(0, this.dailyLimit - used),
+      dailyLimit: this.dailyLimit,
+      resetTime: this.getResetTime(),
+    };
+  }
+
+  /**
+   * Start of the next quota day
+   */
+  getResetTime(now: Date = new Date()): Date {
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+  }
+
+  private getKey(userId: string, now: Date = new Date()): string {
+    return `${this.keyPrefix}:${userId}:${now.toISOString().split('T')[0]}`;
+  }
+}
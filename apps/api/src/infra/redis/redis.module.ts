@@ -3,9 +3,9 @@ import { BullModule } from '@nestjs/bull';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { ScheduleModule } from '@nestjs/schedule';
 import { IdempotencyService } from './idempotency.service';
+import { QuotaService } from './quota.service';
 import { IdempotencyMiddleware } from './idempotency.middleware';
 import { IdempotencyInterceptor } from './idempotency.interceptor';
-import { SyncJobProcessor } from './jobs/sync-job.processor';
 import { JobService } from './jobs/job.service';
 import { JobMonitorService } from './jobs/job-monitor.service';
 
@@ -40,15 +40,16 @@ import { JobMonitorService } from './jobs/job-monitor.service';
   ],
   providers: [
     IdempotencyService,
+    QuotaService,
     IdempotencyMiddleware,
     IdempotencyInterceptor,
-    SyncJobProcessor,
     JobService,
     JobMonitorService,
   ],
   exports: [
     BullModule,
     IdempotencyService,
+    QuotaService,
     IdempotencyMiddleware,
     IdempotencyInterceptor,
     JobService,
@@ -7,6 +7,7 @@ import * as request from 'supertest';
 import { AuthModule } from '../auth.module';
 import { User } from '../../../infra/database/entities/user.entity';
 import { CalendarAccount } from '../../../infra/database/entities/calendar-account.entity';
+import { LocalEvent } from '../../../infra/database/entities/local-event.entity';
 import { AuthService } from '../auth.service';
 import { JwtService } from '@nestjs/jwt';
 
@@ -48,6 +49,12 @@ describe('Auth Integration Tests', () => {
             save: jest.fn(),
           },
         },
+        {
+          provide: getRepositoryToken(LocalEvent),
+          useValue: {
+            update: jest.fn(),
+          },
+        },
         {
           provide: JwtService,
           useValue: {
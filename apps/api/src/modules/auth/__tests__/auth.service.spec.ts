@@ -1,4 +1,5 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
 import { getRepositoryToken } from '@nestjs/typeorm';
@@ -7,12 +8,14 @@ import { AuthService } from '../auth.service';
 import { CryptoService } from '../crypto.service';
 import { User } from '../../../infra/database/entities/user.entity';
 import { CalendarAccount } from '../../../infra/database/entities/calendar-account.entity';
+import { LocalEvent } from '../../../infra/database/entities/local-event.entity';
 import { GoogleProfile, GoogleTokens } from '../interfaces/auth.interface';
 
 describe('AuthService', () => {
   let service: AuthService;
   let userRepository: Repository<User>;
   let calendarAccountRepository: Repository<CalendarAccount>;
+  let localEventRepository: Repository<LocalEvent>;
   let jwtService: JwtService;
   let cryptoService: CryptoService;
 
@@ -56,6 +59,12 @@ describe('AuthService', () => {
             save: jest.fn(),
           },
         },
+        {
+          provide: getRepositoryToken(LocalEvent),
+          useValue: {
+            update: jest.fn(),
+          },
+        },
         {
           provide: JwtService,
           useValue: {
@@ -99,6 +108,7 @@ describe('AuthService', () => {
     service = module.get<AuthService>(AuthService);
     userRepository = module.get<Repository<User>>(getRepositoryToken(User));
     calendarAccountRepository = module.get<Repository<CalendarAccount>>(getRepositoryToken(CalendarAccount));
+    localEventRepository = module.get<Repository<LocalEvent>>(getRepositoryToken(LocalEvent));
     jwtService = module.get<JwtService>(JwtService);
     cryptoService = module.get<CryptoService>(CryptoService);
   });
@@ -242,6 +252,35 @@ describe('AuthService', () => {
     });
   });
 
+  describe('updateTimezone', () => {
+    it('should store a valid IANA timezone and mark synced events for rewrite', async () => {
+      jest.spyOn(userRepository, 'findOne').mockResolvedValue({ ...mockUser, timezone: 'Asia/Bangkok' } as any);
+
+      const result = await service.updateTimezone('user-123', 'America/New_York');
+
+      expect(result).toBe('America/New_York');
+      expect(userRepository.update).toHaveBeenCalledWith('user-123', { timezone: 'America/New_York' });
+      expect(localEventRepository.update).toHaveBeenCalledWith(
+        { userId: 'user-123', gcalEventId: expect.anything() },
+        { dirty: true },
+      );
+    });
+
+    it('should leave events alone when the timezone is unchanged', async () => {
+      jest.spyOn(userRepository, 'findOne').mockResolvedValue({ ...mockUser, timezone: 'Asia/Bangkok' } as any);
+
+      await service.updateTimezone('user-123', 'Asia/Bangkok');
+
+      expect(userRepository.update).not.toHaveBeenCalled();
+      expect(localEventRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown timezones', async () => {
+      await expect(service.updateTimezone('user-123', 'Bangkok')).rejects.toThrow(BadRequestException);
+      expect(userRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
   describe('refreshToken', () => {
     it('should generate new tokens for valid refresh token', async () => {
       const refreshToken = 'valid-refresh-token';
@@ -0,0 +1,39 @@
+import { EventEmitter } from 'events';
+import { RequestLoggingMiddleware } from '../middleware/security.middleware';
+
+describe('RequestLoggingMiddleware', () => {
+  let middleware: RequestLoggingMiddleware;
+  let logSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    middleware = new RequestLoggingMiddleware();
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+  });
+
+  const logRequest = (originalUrl: string): string => {
+    const req = { method: 'GET', originalUrl, ip: '127.0.0.1', get: () => 'Calendar/1.0' } as any;
+    const res = Object.assign(new EventEmitter(), { statusCode: 200 }) as any;
+    const next = jest.fn();
+
+    middleware.use(req, res, next);
+    res.emit('finish');
+
+    expect(next).toHaveBeenCalled();
+    return logSpy.mock.calls[0][0];
+  };
+
+  it('should redact the token of calendar feed requests', () => {
+    const line = logRequest('/feeds/3f9c1a7e0b2d4c6a8e1f.ics?v=2');
+
+    expect(line).toContain('GET /feeds/[redacted].ics?v=2 200');
+    expect(line).not.toContain('3f9c1a7e0b2d4c6a8e1f');
+  });
+
+  it('should log other requests unchanged', () => {
+    expect(logRequest('/api/feeds/feed-123')).toContain('GET /api/feeds/feed-123 200');
+  });
+});
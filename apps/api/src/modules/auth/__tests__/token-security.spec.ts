@@ -7,6 +7,7 @@ import { AuthService } from '../auth.service';
 import { CryptoService } from '../crypto.service';
 import { User } from '../../../infra/database/entities/user.entity';
 import { CalendarAccount } from '../../../infra/database/entities/calendar-account.entity';
+import { LocalEvent } from '../../../infra/database/entities/local-event.entity';
 import { UnauthorizedException } from '@nestjs/common';
 
 describe('AuthService - Token Security', () => {
@@ -39,6 +40,12 @@ describe('AuthService - Token Security', () => {
             save: jest.fn(),
           },
         },
+        {
+          provide: getRepositoryToken(LocalEvent),
+          useValue: {
+            update: jest.fn(),
+          },
+        },
         {
           provide: JwtService,
           useValue: {
@@ -2,6 +2,7 @@ import {
   Controller, 
   Get, 
   Post, 
+  Put,
   UseGuards, 
   Req, 
   Res, 
@@ -16,6 +17,7 @@ import { AuthService } from './auth.service';
 import { PKCEChallenge } from './interfaces/auth.interface';
 import { Public } from './decorators/public.decorator';
 import { CurrentUser } from './decorators/current-user.decorator';
+import { UpdateTimezoneDto } from './dto/update-timezone.dto';
 
 @Controller('auth')
 export class AuthController {
@@ -155,10 +157,22 @@ export class AuthController {
       id: user.id,
       email: user.email,
       displayName: user.displayName,
+      timezone: user.timezone,
       lastLoginAt: user.lastLoginAt,
     };
   }
 
+  /**
+   * Set the timezone class times are scheduled in
+   * PUT /auth/me/timezone
+   */
+  @Put('me/timezone')
+  async updateTimezone(@CurrentUser() user: any, @Body() updateTimezoneDto: UpdateTimezoneDto) {
+    const timezone = await this.authService.updateTimezone(user.id, updateTimezoneDto.timezone);
+
+    return { timezone };
+  }
+
   /**
    * Check if user has Google Calendar connected
    * GET /auth/google/status
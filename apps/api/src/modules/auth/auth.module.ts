@@ -15,6 +15,7 @@ import { CorsMiddleware } from './middleware/cors.middleware';
 import { RateLimitMiddleware, AuthRateLimitMiddleware } from './middleware/rate-limit.middleware';
 import { User } from '../../infra/database/entities/user.entity';
 import { CalendarAccount } from '../../infra/database/entities/calendar-account.entity';
+import { LocalEvent } from '../../infra/database/entities/local-event.entity';
 
 @Module({
   imports: [
@@ -29,7 +30,7 @@ import { CalendarAccount } from '../../infra/database/entities/calendar-account.
       }),
       inject: [ConfigService],
     }),
-    TypeOrmModule.forFeature([User, CalendarAccount]),
+    TypeOrmModule.forFeature([User, CalendarAccount, LocalEvent]),
   ],
   controllers: [AuthController],
   providers: [
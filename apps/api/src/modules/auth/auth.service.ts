@@ -2,9 +2,10 @@ import { Injectable, UnauthorizedException, BadRequestException } from '@nestjs/
 import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { Repository, Not, IsNull } from 'typeorm';
 import { User } from '../../infra/database/entities/user.entity';
 import { CalendarAccount } from '../../infra/database/entities/calendar-account.entity';
+import { LocalEvent } from '../../infra/database/entities/local-event.entity';
 import { CryptoService } from './crypto.service';
 import { 
   GoogleProfile, 
@@ -15,6 +16,7 @@ import {
   OAuthState 
 } from './interfaces/auth.interface';
 import { JwtPayload } from './strategies/jwt.strategy';
+import { isValidTimeZone } from '../../common/utils/timezone';
 import * as crypto from 'crypto';
 
 interface RefreshTokenData {
@@ -36,6 +38,8 @@ export class AuthService {
     private userRepository: Repository<User>,
     @InjectRepository(CalendarAccount)
     private calendarAccountRepository: Repository<CalendarAccount>,
+    @InjectRepository(LocalEvent)
+    private localEventRepository: Repository<LocalEvent>,
     private jwtService: JwtService,
     private configService: ConfigService,
     private cryptoService: CryptoService,
@@ -218,6 +222,28 @@ export class AuthService {
     return user;
   }
 
+  /**
+   * Sets the IANA timezone a user's class times are scheduled in
+   */
+  async updateTimezone(userId: string, timezone: string): Promise<string> {
+    if (!isValidTimeZone(timezone)) {
+      throw new BadRequestException(`Unknown timezone: ${timezone}`);
+    }
+
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+    if (user?.timezone === timezone) {
+      return timezone;
+    }
+
+    await this.userRepository.update(userId, { timezone });
+
+    // Events already in Google were written in the old timezone; mark them so
+    // the next sync rewrites them at the same wall-clock time
+    await this.localEventRepository.update({ userId, gcalEventId: Not(IsNull()) }, { dirty: true });
+
+    return timezone;
+  }
+
   /**
    * Refreshes access token using refresh token with reuse detection
    */
@@ -1,9 +1,14 @@
 import { createParamDecorator, ExecutionContext } from '@nestjs/common';
 import { User } from '../../../infra/database/entities/user.entity';
 
+/**
+ * Injects the authenticated user, or one of its fields when given a key
+ * (e.g. `@CurrentUser('id')`)
+ */
 export const CurrentUser = createParamDecorator(
-  (data: unknown, ctx: ExecutionContext): User => {
+  (data: keyof User | undefined, ctx: ExecutionContext) => {
     const request = ctx.switchToHttp().getRequest();
-    return request.user;
+    const user: User = request.user;
+    return data ? user?.[data] : user;
   },
-);
\ No newline at end of file
+);
@@ -0,0 +1,8 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class UpdateTimezoneDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(64)
+  timezone: string;
+}
@@ -24,11 +24,15 @@ export class SecurityHeadersMiddleware implements NestMiddleware {
   }
 }
 
+// Calendar feed URLs carry their only credential in the path
+const FEED_TOKEN_PATTERN = /\/feeds\/[^/?#]+\.ics/g;
+
 @Injectable()
 export class RequestLoggingMiddleware implements NestMiddleware {
   use(req: Request, res: Response, next: NextFunction) {
     const start = Date.now();
-    const { method, originalUrl, ip } = req;
+    const { method, ip } = req;
+    const originalUrl = req.originalUrl.replace(FEED_TOKEN_PATTERN, '/feeds/[redacted].ics');
     const userAgent = req.get('User-Agent') || '';
 
     res.on('finish', () => {
@@ -0,0 +1,153 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { ClashDetectionService } from '../clash-detection.service';
+import { EventGenerationService } from '../event-generation.service';
+import { LocalEventRepository } from '../../../infra/database/repositories/interfaces/local-event-repository.interface';
+import { SectionRepository } from '../../../infra/database/repositories/interfaces/section-repository.interface';
+import { LocalEvent } from '../../../infra/database/entities/local-event.entity';
+import { Section } from '../../../infra/database/entities/section.entity';
+import { Subject } from '../../../infra/database/entities/subject.entity';
+
+const LOCAL_EVENT_REPOSITORY_TOKEN = 'LocalEventRepository';
+const SECTION_REPOSITORY_TOKEN = 'SectionRepository';
+
+describe('ClashDetectionService', () => {
+  let service: ClashDetectionService;
+  let localEventRepository: jest.Mocked<LocalEventRepository>;
+  let sectionRepository: jest.Mocked<SectionRepository>;
+  let eventGenerationService: jest.Mocked<EventGenerationService>;
+
+  const mockUserId = 'user-123';
+  const mockSectionId = 'section-123';
+
+  const mockSubject = {
+    id: 'subject-123',
+    userId: mockUserId,
+    code: 'CS101',
+    name: 'Computer Science',
+  } as Subject;
+
+  const mockSection = {
+    id: mockSectionId,
+    subjectId: 'subject-123',
+    secCode: '2',
+    scheduleRules: [],
+    subject: mockSubject,
+  } as Section;
+
+  const mathEvent = {
+    id: 'event-math',
+    userId: mockUserId,
+    subjectId: 'subject-math',
+    sectionId: 'section-math',
+    eventDate: '2024-01-16',
+    startTime: '10:00:00',
+    endTime: '11:30:00',
+    status: 'synced',
+    subject: { code: 'MATH201', name: 'Calculus' },
+    section: { secCode: '1' },
+  } as LocalEvent;
+
+  beforeEach(async () => {
+    const mockLocalEventRepository = {
+      findByUserId: jest.fn(),
+      findByUserIdAndDateRange: jest.fn(),
+    };
+
+    const mockSectionRepository = {
+      findById: jest.fn(),
+    };
+
+    const mockEventGenerationService = {
+      listScheduledEvents: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ClashDetectionService,
+        {
+          provide: LOCAL_EVENT_REPOSITORY_TOKEN,
+          useValue: mockLocalEventRepository,
+        },
+        {
+          provide: SECTION_REPOSITORY_TOKEN,
+          useValue: mockSectionRepository,
+        },
+        {
+          provide: EventGenerationService,
+          useValue: mockEventGenerationService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ClashDetectionService>(ClashDetectionService);
+    localEventRepository = module.get(LOCAL_EVENT_REPOSITORY_TOKEN);
+    sectionRepository = module.get(SECTION_REPOSITORY_TOKEN);
+    eventGenerationService = module.get(EventGenerationService);
+  });
+
+  describe('detectClashes', () => {
+    it('should read the events of the requested range', async () => {
+      localEventRepository.findByUserIdAndDateRange.mockResolvedValue([
+        mathEvent,
+        { ...mathEvent, id: 'event-cs', sectionId: mockSectionId, subjectId: 'subject-123', startTime: '09:00:00', endTime: '10:30:00' },
+      ]);
+
+      const clashes = await service.detectClashes(mockUserId, { startDate: '2024-01-15', endDate: '2024-01-21' });
+
+      expect(localEventRepository.findByUserIdAndDateRange).toHaveBeenCalledWith(mockUserId, '2024-01-15', '2024-01-21');
+      expect(clashes).toHaveLength(1);
+      expect(clashes[0].occurrences[0].overlapMinutes).toBe(30);
+    });
+
+    it('should read all events without a range', async () => {
+      localEventRepository.findByUserId.mockResolvedValue([mathEvent]);
+
+      const clashes = await service.detectClashes(mockUserId);
+
+      expect(localEventRepository.findByUserId).toHaveBeenCalledWith(mockUserId);
+      expect(clashes).toEqual([]);
+    });
+  });
+
+  describe('detectSectionClashes', () => {
+    it('should check the scheduled classes against the other sections in their date range', async () => {
+      sectionRepository.findById.mockResolvedValue(mockSection);
+      eventGenerationService.listScheduledEvents.mockReturnValue([
+        { sectionId: mockSectionId, subjectId: 'subject-123', eventDate: '2024-01-16', startTime: '09:00', endTime: '10:30' },
+        { sectionId: mockSectionId, subjectId: 'subject-123', eventDate: '2024-01-23', startTime: '09:00', endTime: '10:30' },
+      ]);
+      localEventRepository.findByUserIdAndDateRange.mockResolvedValue([
+        mathEvent,
+        // The section's own generated events are replaced by its schedule
+        { ...mathEvent, id: 'event-cs', sectionId: mockSectionId, startTime: '09:00:00', endTime: '10:30:00' },
+      ]);
+
+      const clashes = await service.detectSectionClashes(mockUserId, mockSectionId, { timezone: 'Asia/Bangkok' });
+
+      expect(eventGenerationService.listScheduledEvents).toHaveBeenCalledWith(mockSection, { timezone: 'Asia/Bangkok' });
+      expect(localEventRepository.findByUserIdAndDateRange).toHaveBeenCalledWith(mockUserId, '2024-01-16', '2024-01-23');
+      expect(clashes).toHaveLength(1);
+      expect(clashes[0].sections).toEqual([
+        { sectionId: mockSectionId, subjectId: 'subject-123', secCode: '2', subjectCode: 'CS101', subjectName: 'Computer Science' },
+        { sectionId: 'section-math', subjectId: 'subject-math', secCode: '1', subjectCode: 'MATH201', subjectName: 'Calculus' },
+      ]);
+      expect(clashes[0].occurrences).toHaveLength(1);
+      expect(clashes[0].occurrences[0].events[0].eventId).toBeUndefined();
+    });
+
+    it('should not read other events when the section has no classes', async () => {
+      sectionRepository.findById.mockResolvedValue(mockSection);
+      eventGenerationService.listScheduledEvents.mockReturnValue([]);
+
+      expect(await service.detectSectionClashes(mockUserId, mockSectionId)).toEqual([]);
+      expect(localEventRepository.findByUserIdAndDateRange).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for another user\'s section', async () => {
+      sectionRepository.findById.mockResolvedValue({ ...mockSection, subject: { ...mockSubject, userId: 'other-user' } });
+
+      await expect(service.detectSectionClashes(mockUserId, mockSectionId)).rejects.toThrow(NotFoundException);
+    });
+  });
+});
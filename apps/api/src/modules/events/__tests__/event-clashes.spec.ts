@@ -0,0 +1,89 @@
+import { findClashes } from '../event-clashes';
+import { LocalEvent } from '../../../infra/database/entities/local-event.entity';
+
+describe('event-clashes', () => {
+  const event = (overrides: Partial<LocalEvent>): Partial<LocalEvent> => ({
+    id: 'event-cs',
+    userId: 'user-123',
+    subjectId: 'subject-cs',
+    sectionId: 'section-cs',
+    eventDate: '2024-01-16',
+    startTime: '09:00:00',
+    endTime: '10:30:00',
+    room: 'Room 101',
+    status: 'synced',
+    ...overrides,
+  });
+
+  const math = (overrides: Partial<LocalEvent>): Partial<LocalEvent> => event({
+    id: 'event-math',
+    subjectId: 'subject-math',
+    sectionId: 'section-math',
+    startTime: '10:00:00',
+    endTime: '11:30:00',
+    room: 'Room 202',
+    ...overrides,
+  });
+
+  describe('findClashes', () => {
+    it('should report overlapping classes of two sections with the minutes they overlap', () => {
+      const clashes = findClashes([event({}), math({})]);
+
+      expect(clashes).toEqual([{
+        sections: [
+          { sectionId: 'section-cs', subjectId: 'subject-cs', secCode: undefined, subjectCode: undefined, subjectName: undefined },
+          { sectionId: 'section-math', subjectId: 'subject-math', secCode: undefined, subjectCode: undefined, subjectName: undefined },
+        ],
+        occurrences: [{
+          date: '2024-01-16',
+          overlapStart: '10:00',
+          overlapEnd: '10:30',
+          overlapMinutes: 30,
+          events: [
+            { eventId: 'event-cs', sectionId: 'section-cs', startTime: '09:00', endTime: '10:30', room: 'Room 101' },
+            { eventId: 'event-math', sectionId: 'section-math', startTime: '10:00', endTime: '11:30', room: 'Room 202' },
+          ],
+        }],
+        totalOverlapMinutes: 30,
+      }]);
+    });
+
+    it('should group a weekly clash into one report per pair of sections', () => {
+      const clashes = findClashes([
+        math({ eventDate: '2024-01-23', id: 'event-math-2' }),
+        event({ eventDate: '2024-01-23', id: 'event-cs-2' }),
+        event({}),
+        math({}),
+      ]);
+
+      expect(clashes).toHaveLength(1);
+      expect(clashes[0].occurrences.map(occurrence => occurrence.date)).toEqual(['2024-01-16', '2024-01-23']);
+      expect(clashes[0].totalOverlapMinutes).toBe(60);
+    });
+
+    it('should not report classes that only touch, fall on other dates or belong to one section', () => {
+      const clashes = findClashes([
+        event({}),
+        math({ startTime: '10:30:00', endTime: '12:00:00' }),
+        math({ id: 'event-math-2', eventDate: '2024-01-17' }),
+        event({ id: 'event-cs-2', startTime: '09:30:00', endTime: '10:15:00' }),
+      ]);
+
+      expect(clashes).toEqual([]);
+    });
+
+    it('should ignore removed events', () => {
+      expect(findClashes([event({}), math({ status: 'deleted' })])).toEqual([]);
+    });
+
+    it('should only report clashes involving the given sections', () => {
+      const physics = event({ id: 'event-phys', subjectId: 'subject-phys', sectionId: 'section-phys', startTime: '11:00:00', endTime: '12:00:00' });
+
+      const clashes = findClashes([event({}), math({}), physics], ['section-phys']);
+
+      expect(clashes).toHaveLength(1);
+      expect(clashes[0].sections.map(section => section.sectionId)).toEqual(['section-math', 'section-phys']);
+      expect(clashes[0].occurrences[0].overlapMinutes).toBe(30);
+    });
+  });
+});
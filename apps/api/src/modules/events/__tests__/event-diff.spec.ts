@@ -0,0 +1,132 @@
+import { diffEvents, describeDiff } from '../event-diff';
+import { LocalEvent } from '../../../infra/database/entities/local-event.entity';
+
+describe('event-diff', () => {
+  const existingEvent = (overrides: Partial<LocalEvent>): LocalEvent => ({
+    id: 'event-1',
+    userId: 'user-123',
+    subjectId: 'subject-123',
+    sectionId: 'section-123',
+    eventDate: '2024-01-15',
+    startTime: '09:00:00',
+    endTime: '10:30:00',
+    room: 'Room 101',
+    status: 'synced',
+    gcalEventId: 'google-1',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    user: null,
+    subject: null,
+    section: null,
+    ...overrides,
+  });
+
+  const occurrence = (overrides: Partial<LocalEvent>): Partial<LocalEvent> => ({
+    eventDate: '2024-01-15',
+    startTime: '09:00',
+    endTime: '10:30',
+    room: 'Room 101',
+    status: 'planned',
+    dirty: true,
+    ...overrides,
+  });
+
+  describe('diffEvents', () => {
+    it('should leave occurrences on the same slot unchanged', () => {
+      const event = existingEvent({});
+
+      const diff = diffEvents([occurrence({})], [event]);
+
+      expect(diff.unchanged).toEqual([event]);
+      expect(diff.toCreate).toEqual([]);
+      expect(diff.toUpdate).toEqual([]);
+      expect(diff.toDelete).toEqual([]);
+    });
+
+    it('should move an event to another weekday of the same week', () => {
+      const monday = existingEvent({ id: 'event-mon' });
+      const nextMonday = existingEvent({ id: 'event-next', eventDate: '2024-01-22', gcalEventId: 'google-2' });
+
+      const diff = diffEvents(
+        [occurrence({ eventDate: '2024-01-17' }), occurrence({ eventDate: '2024-01-24' })],
+        [monday, nextMonday],
+      );
+
+      expect(diff.toUpdate).toEqual([
+        { event: monday, changes: { eventDate: '2024-01-17', dirty: true } },
+        { event: nextMonday, changes: { eventDate: '2024-01-24', dirty: true } },
+      ]);
+      expect(diff.toCreate).toEqual([]);
+      expect(diff.toDelete).toEqual([]);
+    });
+
+    it('should create and delete what has no counterpart in its week', () => {
+      const dropped = existingEvent({ id: 'event-dropped', eventDate: '2024-01-08' });
+
+      const diff = diffEvents([occurrence({ eventDate: '2024-01-29' })], [dropped]);
+
+      expect(diff.toCreate).toEqual([occurrence({ eventDate: '2024-01-29' })]);
+      expect(diff.toDelete).toEqual([dropped]);
+    });
+
+    it('should restore a removed event back on its slot instead of moving another onto it', () => {
+      const removed = existingEvent({ id: 'event-removed', status: 'deleted' });
+      const tuesday = existingEvent({ id: 'event-tue', eventDate: '2024-01-16', gcalEventId: 'google-2' });
+
+      const diff = diffEvents([occurrence({})], [removed, tuesday]);
+
+      expect(diff.toUpdate).toEqual([
+        { event: removed, changes: { status: 'synced', dirty: true } },
+      ]);
+      expect(diff.toDelete).toEqual([tuesday]);
+    });
+
+    it('should match a moved class to its own row by exception', () => {
+      const moved = existingEvent({
+        id: 'event-moved',
+        eventDate: '2024-01-17',
+        exceptionId: 'exception-1',
+        exceptionType: 'moved',
+        originalDate: '2024-01-15',
+      });
+
+      const diff = diffEvents(
+        [occurrence({
+          eventDate: '2024-01-18',
+          exceptionId: 'exception-1',
+          exceptionType: 'moved',
+          originalDate: '2024-01-15',
+        })],
+        [moved],
+      );
+
+      expect(diff.toUpdate).toEqual([
+        { event: moved, changes: { eventDate: '2024-01-18', dirty: true } },
+      ]);
+    });
+  });
+
+  describe('describeDiff', () => {
+    it('should list the changes in date order with the previous slot of updates', () => {
+      const monday = existingEvent({ id: 'event-mon', startTime: '09:00', endTime: '10:30' });
+      const dropped = existingEvent({ id: 'event-dropped', eventDate: '2024-01-08', startTime: '09:00', endTime: '10:30' });
+
+      const changes = describeDiff(diffEvents(
+        [occurrence({ startTime: '13:00', endTime: '14:30' }), occurrence({ eventDate: '2024-01-22' })],
+        [monday, dropped],
+      ));
+
+      expect(changes.map(change => [change.action, change.eventDate, change.startTime])).toEqual([
+        ['delete', '2024-01-08', '09:00'],
+        ['update', '2024-01-15', '13:00'],
+        ['create', '2024-01-22', '09:00'],
+      ]);
+      expect(changes[1].previous).toEqual({
+        eventDate: '2024-01-15',
+        startTime: '09:00',
+        endTime: '10:30',
+        room: 'Room 101',
+      });
+    });
+  });
+});
@@ -5,6 +5,7 @@ import { LocalEventRepository } from '../../../infra/database/repositories/inter
 import { SectionRepository } from '../../../infra/database/repositories/interfaces/section-repository.interface';
 import { LocalEvent } from '../../../infra/database/entities/local-event.entity';
 import { Section } from '../../../infra/database/entities/section.entity';
+import { Term } from '../../../infra/database/entities/term.entity';
 import { Subject } from '../../../infra/database/entities/subject.entity';
 
 const LOCAL_EVENT_REPOSITORY_TOKEN = 'LocalEventRepository';
@@ -171,6 +172,23 @@ describe('EventGenerationService', () => {
       expect(result.skipped).toBe(1); // One skip date
     });
 
+    it('should restore removed events that are back on the schedule', async () => {
+      const removedEvent = { ...mockEvent, status: 'deleted' as const, gcalEventId: 'series-1_20240115T020000Z' };
+      sectionRepository.findById.mockResolvedValue(mockSection);
+      localEventRepository.findBySectionId.mockResolvedValue([removedEvent]);
+      localEventRepository.update.mockResolvedValue(mockEvent);
+      localEventRepository.create.mockResolvedValue(mockEvent);
+
+      const result = await service.generateEventsForSection(mockUserId, mockSectionId);
+
+      expect(localEventRepository.update).toHaveBeenCalledWith(
+        removedEvent.id,
+        expect.objectContaining({ status: 'synced', dirty: true }),
+      );
+      expect(localEventRepository.create).toHaveBeenCalledTimes(1);
+      expect(result.generated).toBe(2);
+    });
+
     it('should respect custom date range', async () => {
       sectionRepository.findById.mockResolvedValue(mockSection);
       localEventRepository.findBySectionId.mockResolvedValue([]);
@@ -184,6 +202,213 @@ describe('EventGenerationService', () => {
       expect(result.generated).toBe(1); // Only first Monday
       expect(result.skipped).toBe(0);
     });
+
+    it('should read timestamp ranges as dates in the user timezone', async () => {
+      sectionRepository.findById.mockResolvedValue(mockSection);
+      localEventRepository.findBySectionId.mockResolvedValue([]);
+      localEventRepository.create.mockResolvedValue(mockEvent);
+
+      // Midnight on Tuesday 2024-01-16 in Bangkok is still Monday in UTC
+      const result = await service.generateEventsForSection(mockUserId, mockSectionId, {
+        startDate: '2024-01-15T17:00:00.000Z',
+        endDate: '2024-01-29',
+        timezone: 'Asia/Bangkok',
+      });
+
+      expect(localEventRepository.create).toHaveBeenCalledTimes(1);
+      expect(localEventRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ eventDate: '2024-01-29' }),
+      );
+      expect(result.generated).toBe(1);
+    });
+
+    it('should generate every other week from the first class when the rule has an interval', async () => {
+      sectionRepository.findById.mockResolvedValue({
+        ...mockSection,
+        scheduleRules: [
+          { ...mockSection.scheduleRules[0], endDate: '2024-02-26', skipDates: [], interval: 2 },
+        ],
+      });
+      localEventRepository.findBySectionId.mockResolvedValue([]);
+      localEventRepository.create.mockResolvedValue(mockEvent);
+
+      // A range starting mid-term stays on the weeks counted from 2024-01-15
+      const result = await service.generateEventsForSection(mockUserId, mockSectionId, {
+        startDate: '2024-01-22',
+      });
+
+      const dates = localEventRepository.create.mock.calls.map(([event]) => event.eventDate);
+      expect(dates).toEqual(['2024-01-29', '2024-02-12', '2024-02-26']);
+      expect(result.generated).toBe(3);
+    });
+
+    it('should skip blackout periods of the section term', async () => {
+      sectionRepository.findById.mockResolvedValue({
+        ...mockSection,
+        scheduleRules: [{ ...mockSection.scheduleRules[0], skipDates: [] }],
+        term: {
+          blackouts: [{ name: 'Reading week', kind: 'reading_week', startDate: '2024-01-20', endDate: '2024-01-28' }],
+        } as Term,
+      });
+      localEventRepository.findBySectionId.mockResolvedValue([]);
+      localEventRepository.create.mockResolvedValue(mockEvent);
+
+      const result = await service.generateEventsForSection(mockUserId, mockSectionId);
+
+      const dates = localEventRepository.create.mock.calls.map(([event]) => event.eventDate);
+      expect(dates).toEqual(['2024-01-15', '2024-01-29']);
+      expect(result.skipped).toBe(1);
+    });
+
+    it('should generate only the first Monday of each month for a set position rule', async () => {
+      sectionRepository.findById.mockResolvedValue({
+        ...mockSection,
+        scheduleRules: [
+          { ...mockSection.scheduleRules[0], endDate: '2024-04-30', skipDates: [], setPos: 1 },
+        ],
+      });
+      localEventRepository.findBySectionId.mockResolvedValue([]);
+      localEventRepository.create.mockResolvedValue(mockEvent);
+
+      await service.generateEventsForSection(mockUserId, mockSectionId);
+
+      const dates = localEventRepository.create.mock.calls.map(([event]) => event.eventDate);
+      expect(dates).toEqual(['2024-02-05', '2024-03-04', '2024-04-01']);
+    });
+  });
+
+  describe('section exceptions', () => {
+    const weeklySection: Section = {
+      ...mockSection,
+      scheduleRules: [{ ...mockSection.scheduleRules[0], skipDates: [] }],
+      exceptions: [
+        { id: 'exception-cancel', type: 'cancel', date: '2024-01-15' },
+        { id: 'exception-move', type: 'move', date: '2024-01-22', newDate: '2024-01-24', room: 'Room 205' },
+        { id: 'exception-extra', type: 'extra', date: '2024-01-27', startTime: '13:00', endTime: '16:00' },
+      ],
+    };
+
+    it('should generate moved classes and extra sessions in place of the scheduled ones', async () => {
+      sectionRepository.findById.mockResolvedValue(weeklySection);
+      localEventRepository.findBySectionId.mockResolvedValue([]);
+      localEventRepository.create.mockResolvedValue(mockEvent);
+
+      const result = await service.generateEventsForSection(mockUserId, mockSectionId);
+
+      const events = localEventRepository.create.mock.calls.map(([event]) => event);
+      expect(events.map(event => event.eventDate)).toEqual(['2024-01-29', '2024-01-24', '2024-01-27']);
+      expect(events[1]).toEqual(expect.objectContaining({
+        startTime: '09:00',
+        room: 'Room 205',
+        exceptionId: 'exception-move',
+        exceptionType: 'moved',
+        originalDate: '2024-01-22',
+      }));
+      expect(events[2]).toEqual(expect.objectContaining({
+        startTime: '13:00',
+        endTime: '16:00',
+        exceptionType: 'extra',
+      }));
+      expect(result.skipped).toBe(2);
+    });
+
+    it('should keep a moved class linked to Google when the section is regenerated', async () => {
+      const movedEvent = {
+        ...mockEvent,
+        id: 'event-moved',
+        eventDate: '2024-01-24',
+        room: 'Room 205',
+        status: 'synced' as const,
+        gcalEventId: 'series-1_20240122T020000Z',
+        exceptionId: 'exception-move',
+        exceptionType: 'moved' as const,
+        originalDate: '2024-01-22',
+      };
+      sectionRepository.findById.mockResolvedValue(weeklySection);
+      localEventRepository.findBySectionId.mockResolvedValue([movedEvent]);
+      localEventRepository.create.mockResolvedValue(mockEvent);
+
+      const result = await service.regenerateEventsForSection(mockUserId, mockSectionId);
+
+      expect(localEventRepository.update).not.toHaveBeenCalled();
+      expect(localEventRepository.softDelete).not.toHaveBeenCalled();
+      expect(result.unchanged).toBe(1);
+    });
+
+    it('should move the existing event of a class when a move is applied', async () => {
+      const syncedEvent = { ...mockEvent, eventDate: '2024-01-22', status: 'synced' as const, gcalEventId: 'series-1_20240122T020000Z' };
+      localEventRepository.findBySectionId.mockResolvedValue([syncedEvent]);
+      localEventRepository.update.mockResolvedValue(syncedEvent);
+
+      await service.applyException(weeklySection, weeklySection.exceptions[1]);
+
+      expect(localEventRepository.update).toHaveBeenCalledWith(syncedEvent.id, expect.objectContaining({
+        eventDate: '2024-01-24',
+        status: 'synced',
+        dirty: true,
+        exceptionType: 'moved',
+      }));
+      expect(localEventRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should update the event of a moved class when its move is edited', async () => {
+      const movedEvent = {
+        ...mockEvent,
+        eventDate: '2024-01-24',
+        status: 'synced' as const,
+        exceptionId: 'exception-move',
+        exceptionType: 'moved' as const,
+        originalDate: '2024-01-22',
+      };
+      localEventRepository.findBySectionId.mockResolvedValue([movedEvent]);
+      localEventRepository.update.mockResolvedValue(movedEvent);
+
+      await service.applyException(weeklySection, { ...weeklySection.exceptions[1], newDate: '2024-01-25' });
+
+      expect(localEventRepository.update).toHaveBeenCalledWith(movedEvent.id, expect.objectContaining({
+        eventDate: '2024-01-25',
+        status: 'synced',
+        exceptionId: 'exception-move',
+      }));
+      expect(localEventRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should remove the event of a cancelled class', async () => {
+      localEventRepository.findBySectionId.mockResolvedValue([mockEvent]);
+      localEventRepository.delete.mockResolvedValue(true);
+
+      await service.applyException(weeklySection, weeklySection.exceptions[0]);
+
+      expect(localEventRepository.delete).toHaveBeenCalledWith(mockEvent.id);
+    });
+
+    it('should put a moved class back on its scheduled slot when the move is removed', async () => {
+      const movedEvent = {
+        ...mockEvent,
+        eventDate: '2024-01-24',
+        status: 'synced' as const,
+        gcalEventId: 'series-1_20240122T020000Z',
+        exceptionId: 'exception-move',
+        exceptionType: 'moved' as const,
+        originalDate: '2024-01-22',
+      };
+      localEventRepository.findBySectionId.mockResolvedValue([movedEvent]);
+      localEventRepository.update.mockResolvedValue(movedEvent);
+
+      await service.revertException(
+        { ...weeklySection, exceptions: [] },
+        weeklySection.exceptions[1],
+      );
+
+      expect(localEventRepository.update).toHaveBeenCalledWith(movedEvent.id, expect.objectContaining({
+        eventDate: '2024-01-22',
+        startTime: '09:00',
+        room: 'Room 101',
+        status: 'synced',
+        exceptionId: null,
+        exceptionType: null,
+      }));
+    });
   });
 
   describe('generateEventsForSubject', () => {
@@ -232,25 +457,127 @@ describe('EventGenerationService', () => {
       expect(localEventRepository.softDelete).toHaveBeenCalledWith(syncedEvent.id);
       expect(result).toBe(1);
     });
+
+    it('should soft delete planned events that are still linked to Google', async () => {
+      const linkedEvent = { ...mockEvent, gcalEventId: 'google-123' };
+      sectionRepository.findById.mockResolvedValue(mockSection);
+      localEventRepository.findBySectionId.mockResolvedValue([linkedEvent]);
+      localEventRepository.softDelete.mockResolvedValue(true);
+
+      const result = await service.deleteEventsForSection(mockUserId, mockSectionId);
+
+      expect(localEventRepository.softDelete).toHaveBeenCalledWith(linkedEvent.id);
+      expect(localEventRepository.delete).not.toHaveBeenCalled();
+      expect(result).toBe(1);
+    });
   });
 
   describe('regenerateEventsForSection', () => {
-    it('should delete existing events and generate new ones', async () => {
-      // Mock for deleteEventsForSection
+    it('should keep unchanged events and only create what is missing', async () => {
       sectionRepository.findById.mockResolvedValue(mockSection);
       localEventRepository.findBySectionId.mockResolvedValue([mockEvent]);
-      localEventRepository.delete.mockResolvedValue(true);
-      
-      // Mock for generateEventsForSection (called after delete)
-      localEventRepository.findBySectionId.mockResolvedValueOnce([mockEvent]); // For delete
-      localEventRepository.findBySectionId.mockResolvedValue([]); // For generate (no existing events)
       localEventRepository.create.mockResolvedValue(mockEvent);
 
       const result = await service.regenerateEventsForSection(mockUserId, mockSectionId);
 
-      expect(localEventRepository.delete).toHaveBeenCalled();
-      expect(result.generated).toBe(2);
-      expect(result.replaced).toBe(1); // Deleted count
+      expect(localEventRepository.findBySectionId).toHaveBeenCalledTimes(1);
+      expect(localEventRepository.update).not.toHaveBeenCalled();
+      expect(localEventRepository.delete).not.toHaveBeenCalled();
+      expect(localEventRepository.create).toHaveBeenCalledWith(expect.objectContaining({ eventDate: '2024-01-29' }));
+      expect(result.generated).toBe(1);
+      expect(result.unchanged).toBe(1);
+      expect(result.skipped).toBe(1); // One skip date
+    });
+
+    it('should update events in place when their class moves to another time', async () => {
+      const syncedEvent = { ...mockEvent, status: 'synced' as const, gcalEventId: 'series-1_20240115T020000Z' };
+      sectionRepository.findById.mockResolvedValue({
+        ...mockSection,
+        scheduleRules: [{ ...mockSection.scheduleRules[0], startTime: '13:00', endTime: '14:30' }],
+      });
+      localEventRepository.findBySectionId.mockResolvedValue([syncedEvent]);
+      localEventRepository.update.mockResolvedValue(syncedEvent);
+      localEventRepository.create.mockResolvedValue(mockEvent);
+
+      const result = await service.regenerateEventsForSection(mockUserId, mockSectionId);
+
+      expect(localEventRepository.update).toHaveBeenCalledWith(syncedEvent.id, {
+        startTime: '13:00',
+        endTime: '14:30',
+        dirty: true,
+      });
+      expect(localEventRepository.create).toHaveBeenCalledTimes(1);
+      expect(localEventRepository.softDelete).not.toHaveBeenCalled();
+      expect(result.replaced).toBe(1);
+      expect(result.generated).toBe(1);
+    });
+
+    it('should delete events that are no longer on the schedule', async () => {
+      const skippedEvent = { ...mockEvent, id: 'event-skipped', eventDate: '2024-01-22', status: 'synced' as const, gcalEventId: 'google-1' };
+      sectionRepository.findById.mockResolvedValue(mockSection);
+      localEventRepository.findBySectionId.mockResolvedValue([
+        mockEvent,
+        { ...mockEvent, id: 'event-29', eventDate: '2024-01-29' },
+        skippedEvent,
+      ]);
+      localEventRepository.softDelete.mockResolvedValue(true);
+
+      const result = await service.regenerateEventsForSection(mockUserId, mockSectionId);
+
+      expect(localEventRepository.softDelete).toHaveBeenCalledWith('event-skipped');
+      expect(localEventRepository.create).not.toHaveBeenCalled();
+      expect(result.deleted).toBe(1);
+      expect(result.unchanged).toBe(2);
+    });
+
+    it('should only return the changes on a dry run', async () => {
+      const syncedEvent = { ...mockEvent, status: 'synced' as const, gcalEventId: 'series-1_20240115T020000Z' };
+      sectionRepository.findById.mockResolvedValue({
+        ...mockSection,
+        scheduleRules: [{ ...mockSection.scheduleRules[0], startTime: '13:00', endTime: '14:30' }],
+      });
+      localEventRepository.findBySectionId.mockResolvedValue([syncedEvent]);
+
+      const result = await service.regenerateEventsForSection(mockUserId, mockSectionId, { dryRun: true });
+
+      expect(localEventRepository.update).not.toHaveBeenCalled();
+      expect(localEventRepository.create).not.toHaveBeenCalled();
+      expect(result.dryRun).toBe(true);
+      expect(result.changes).toEqual([
+        {
+          action: 'update',
+          eventId: syncedEvent.id,
+          eventDate: '2024-01-15',
+          startTime: '13:00',
+          endTime: '14:30',
+          room: 'Room 101',
+          previous: { eventDate: '2024-01-15', startTime: '09:00', endTime: '10:30', room: 'Room 101' },
+          gcalEventId: 'series-1_20240115T020000Z',
+        },
+        {
+          action: 'create',
+          eventDate: '2024-01-29',
+          startTime: '13:00',
+          endTime: '14:30',
+          room: 'Room 101',
+        },
+      ]);
+    });
+
+    it('should keep events before the start date', async () => {
+      const pastEvent = { ...mockEvent, id: 'event-past', status: 'synced' as const, eventDate: '2024-01-08' };
+      sectionRepository.findById.mockResolvedValue(mockSection);
+      localEventRepository.findBySectionId.mockResolvedValue([pastEvent, mockEvent]);
+      localEventRepository.create.mockResolvedValue(mockEvent);
+
+      const result = await service.regenerateEventsForSection(mockUserId, mockSectionId, {
+        startDate: '2024-01-15',
+      });
+
+      expect(localEventRepository.softDelete).not.toHaveBeenCalled();
+      expect(localEventRepository.delete).not.toHaveBeenCalled();
+      expect(result.unchanged).toBe(1);
+      expect(result.generated).toBe(1);
     });
   });
-});
\ No newline at end of file
+});
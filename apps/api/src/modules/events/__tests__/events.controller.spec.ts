@@ -1,16 +1,22 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { EventsController } from '../events.controller';
 import { EventGenerationService } from '../event-generation.service';
-import { GenerateEventsDto } from '../dto/generate-events.dto';
+import { EventsService } from '../events.service';
+import { ClashDetectionService } from '../clash-detection.service';
+import { GenerateEventsDto, RegenerateEventsDto } from '../dto/generate-events.dto';
+import { EventResponseDto } from '../dto/event-response.dto';
 import { JwtAuthGuard } from '../../auth/guards/auth.guard';
 
 describe('EventsController', () => {
   let controller: EventsController;
   let service: jest.Mocked<EventGenerationService>;
+  let eventsService: jest.Mocked<EventsService>;
+  let clashDetectionService: jest.Mocked<ClashDetectionService>;
 
   const mockUserId = 'user-123';
   const mockSubjectId = 'subject-123';
   const mockSectionId = 'section-123';
+  const mockTimezone = 'Asia/Bangkok';
 
   const mockGenerationResult = {
     generated: 5,
@@ -27,6 +33,16 @@ describe('EventsController', () => {
       deleteEventsForSection: jest.fn(),
     };
 
+    const mockEventsService = {
+      findAll: jest.fn(),
+      update: jest.fn(),
+      remove: jest.fn(),
+    };
+
+    const mockClashDetectionService = {
+      detectClashes: jest.fn(),
+    };
+
     const mockAuthGuard = {
       canActivate: jest.fn(() => true),
     };
@@ -34,10 +50,18 @@ describe('EventsController', () => {
     const module: TestingModule = await Test.createTestingModule({
       controllers: [EventsController],
       providers: [
+        {
+          provide: EventsService,
+          useValue: mockEventsService,
+        },
         {
           provide: EventGenerationService,
           useValue: mockService,
         },
+        {
+          provide: ClashDetectionService,
+          useValue: mockClashDetectionService,
+        },
       ],
     })
       .overrideGuard(JwtAuthGuard)
@@ -46,12 +70,67 @@ describe('EventsController', () => {
 
     controller = module.get<EventsController>(EventsController);
     service = module.get(EventGenerationService);
+    eventsService = module.get(EventsService);
+    clashDetectionService = module.get(ClashDetectionService);
   });
 
   it('should be defined', () => {
     expect(controller).toBeDefined();
   });
 
+  describe('findAll', () => {
+    it('should list events with the filters in the user\'s timezone', async () => {
+      const page = { data: [], nextCursor: 'next' };
+      eventsService.findAll.mockResolvedValue(page);
+
+      const query = { from: '2024-01-15', to: '2024-01-21', status: 'planned' as const };
+      const result = await controller.findAll(mockUserId, query, mockTimezone);
+
+      expect(eventsService.findAll).toHaveBeenCalledWith(mockUserId, query, mockTimezone);
+      expect(result).toEqual(page);
+    });
+  });
+
+  describe('update', () => {
+    it('should edit the event in the user\'s timezone', async () => {
+      const updated = { id: 'event-1', title: 'Midterm review' } as EventResponseDto;
+      eventsService.update.mockResolvedValue(updated);
+
+      const dto = { titleOverride: 'Midterm review', startTime: '10:00', endTime: '11:30' };
+      const result = await controller.update(mockUserId, 'event-1', dto, mockTimezone);
+
+      expect(eventsService.update).toHaveBeenCalledWith(mockUserId, 'event-1', dto, mockTimezone);
+      expect(result).toEqual(updated);
+    });
+  });
+
+  describe('remove', () => {
+    it('should cancel the event', async () => {
+      eventsService.remove.mockResolvedValue(undefined);
+
+      await controller.remove(mockUserId, 'event-1');
+
+      expect(eventsService.remove).toHaveBeenCalledWith(mockUserId, 'event-1');
+    });
+  });
+
+  describe('getClashes', () => {
+    it('should list the clashes in the requested range', async () => {
+      clashDetectionService.detectClashes.mockResolvedValue([]);
+
+      const result = await controller.getClashes(mockUserId, {
+        startDate: '2024-01-15',
+        endDate: '2024-04-15',
+      });
+
+      expect(clashDetectionService.detectClashes).toHaveBeenCalledWith(mockUserId, {
+        startDate: '2024-01-15',
+        endDate: '2024-04-15',
+      });
+      expect(result).toEqual([]);
+    });
+  });
+
   describe('generateEventsForSection', () => {
     it('should generate events for section', async () => {
       const generateDto: GenerateEventsDto = {
@@ -62,12 +141,12 @@ describe('EventsController', () => {
 
       service.generateEventsForSection.mockResolvedValue(mockGenerationResult);
 
-      const result = await controller.generateEventsForSection(mockUserId, mockSectionId, generateDto);
+      const result = await controller.generateEventsForSection(mockUserId, mockSectionId, generateDto, mockTimezone);
 
       expect(service.generateEventsForSection).toHaveBeenCalledWith(
         mockUserId,
         mockSectionId,
-        generateDto
+        { ...generateDto, timezone: mockTimezone }
       );
       expect(result.generated).toBe(5);
       expect(result.skipped).toBe(2);
@@ -84,12 +163,12 @@ describe('EventsController', () => {
 
       service.generateEventsForSubject.mockResolvedValue(mockGenerationResult);
 
-      const result = await controller.generateEventsForSubject(mockUserId, mockSubjectId, generateDto);
+      const result = await controller.generateEventsForSubject(mockUserId, mockSubjectId, generateDto, mockTimezone);
 
       expect(service.generateEventsForSubject).toHaveBeenCalledWith(
         mockUserId,
         mockSubjectId,
-        generateDto
+        { ...generateDto, timezone: mockTimezone }
       );
       expect(result.generated).toBe(5);
     });
@@ -97,18 +176,18 @@ describe('EventsController', () => {
 
   describe('regenerateEventsForSection', () => {
     it('should regenerate events for section', async () => {
-      const generateDto: GenerateEventsDto = {
-        replaceExisting: true,
+      const regenerateDto: RegenerateEventsDto = {
+        dryRun: true,
       };
 
       service.regenerateEventsForSection.mockResolvedValue(mockGenerationResult);
 
-      const result = await controller.regenerateEventsForSection(mockUserId, mockSectionId, generateDto);
+      const result = await controller.regenerateEventsForSection(mockUserId, mockSectionId, regenerateDto, mockTimezone);
 
       expect(service.regenerateEventsForSection).toHaveBeenCalledWith(
         mockUserId,
         mockSectionId,
-        generateDto
+        { ...regenerateDto, timezone: mockTimezone }
       );
       expect(result.generated).toBe(5);
     });
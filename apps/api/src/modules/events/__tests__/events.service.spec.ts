@@ -0,0 +1,553 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException, ConflictException } from '@nestjs/common';
+import { EventsService } from '../events.service';
+import { EventGenerationService } from '../event-generation.service';
+import { LocalEventRepository } from '../../../infra/database/repositories/interfaces/local-event-repository.interface';
+import { SectionRepository } from '../../../infra/database/repositories/interfaces/section-repository.interface';
+import { LocalEvent } from '../../../infra/database/entities/local-event.entity';
+import { Section } from '../../../infra/database/entities/section.entity';
+import { Subject } from '../../../infra/database/entities/subject.entity';
+
+const LOCAL_EVENT_REPOSITORY_TOKEN = 'LocalEventRepository';
+const SECTION_REPOSITORY_TOKEN = 'SectionRepository';
+
+describe('EventsService', () => {
+  let service: EventsService;
+  let localEventRepository: jest.Mocked<LocalEventRepository>;
+  let sectionRepository: jest.Mocked<SectionRepository>;
+  let eventGenerationService: jest.Mocked<EventGenerationService>;
+
+  const mockUserId = 'user-123';
+
+  const mockSubject = {
+    id: 'subject-123',
+    userId: mockUserId,
+    code: 'CS101',
+    name: 'Computer Science',
+    colorHex: '#3b82f6',
+  } as Subject;
+
+  const mockSection = {
+    id: 'section-123',
+    subjectId: 'subject-123',
+    secCode: '2',
+    teacher: 'Dr. Smith',
+    room: 'Room 101',
+    exceptions: [],
+  } as Section;
+
+  const mockEvent = (overrides: Partial<LocalEvent> = {}): LocalEvent => ({
+    id: 'event-1',
+    userId: mockUserId,
+    subjectId: 'subject-123',
+    sectionId: 'section-123',
+    eventDate: '2024-01-16',
+    startTime: '09:00:00',
+    endTime: '10:30:00',
+    status: 'synced',
+    gcalEventId: 'google-1',
+    dirty: false,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    user: null,
+    subject: mockSubject,
+    section: mockSection,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const mockLocalEventRepository = {
+      findPage: jest.fn(),
+      findById: jest.fn(),
+      findBySectionId: jest.fn(),
+      update: jest.fn(),
+    };
+
+    const mockSectionRepository = {
+      findById: jest.fn(),
+      update: jest.fn(),
+    };
+
+    const mockEventGenerationService = {
+      applyException: jest.fn(),
+      revertException: jest.fn(),
+      regenerateEventsForSection: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EventsService,
+        {
+          provide: LOCAL_EVENT_REPOSITORY_TOKEN,
+          useValue: mockLocalEventRepository,
+        },
+        {
+          provide: SECTION_REPOSITORY_TOKEN,
+          useValue: mockSectionRepository,
+        },
+        {
+          provide: EventGenerationService,
+          useValue: mockEventGenerationService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<EventsService>(EventsService);
+    localEventRepository = module.get(LOCAL_EVENT_REPOSITORY_TOKEN);
+    sectionRepository = module.get(SECTION_REPOSITORY_TOKEN);
+    eventGenerationService = module.get(EventGenerationService);
+  });
+
+  describe('findAll', () => {
+    it('should return events in the shape the calendar renders', async () => {
+      localEventRepository.findPage.mockResolvedValue([mockEvent()]);
+
+      const result = await service.findAll(mockUserId, { from: '2024-01-15', to: '2024-01-21' }, 'Asia/Bangkok');
+
+      expect(result.data).toEqual([{
+        id: 'event-1',
+        title: 'CS101 Computer Science (2)',
+        start: '2024-01-16T09:00:00+07:00',
+        end: '2024-01-16T10:30:00+07:00',
+        eventDate: '2024-01-16',
+        startTime: '09:00',
+        endTime: '10:30',
+        color: '#3b82f6',
+        room: 'Room 101',
+        teacher: 'Dr. Smith',
+        status: 'synced',
+        dirty: false,
+        exceptionType: undefined,
+        originalDate: undefined,
+        gcalEventId: 'google-1',
+        subject: { id: 'subject-123', code: 'CS101', name: 'Computer Science', colorHex: '#3b82f6' },
+        section: { id: 'section-123', secCode: '2' },
+      }]);
+      expect(result.nextCursor).toBeUndefined();
+    });
+
+    it('should pass the filters to the repository', async () => {
+      localEventRepository.findPage.mockResolvedValue([]);
+
+      await service.findAll(mockUserId, {
+        from: '2024-01-15',
+        to: '2024-01-21',
+        subjectId: 'subject-123',
+        sectionId: 'section-123',
+        status: 'planned',
+        limit: 20,
+      });
+
+      expect(localEventRepository.findPage).toHaveBeenCalledWith(
+        mockUserId,
+        {
+          from: '2024-01-15',
+          to: '2024-01-21',
+          subjectId: 'subject-123',
+          sectionId: 'section-123',
+          status: 'planned',
+        },
+        21,
+        undefined,
+      );
+    });
+
+    it('should prefer the title override and the event\'s own room', async () => {
+      localEventRepository.findPage.mockResolvedValue([
+        mockEvent({ titleOverride: 'Midterm review', room: 'Hall A' }),
+      ]);
+
+      const result = await service.findAll(mockUserId, {});
+
+      expect(result.data[0].title).toBe('Midterm review');
+      expect(result.data[0].room).toBe('Hall A');
+      expect(result.data[0].start).toBe('2024-01-16T09:00:00+00:00');
+    });
+
+    it('should return a cursor that continues after the last event of a full page', async () => {
+      localEventRepository.findPage.mockResolvedValueOnce([
+        mockEvent({ id: 'event-1' }),
+        mockEvent({ id: 'event-2', eventDate: '2024-01-23' }),
+      ]);
+
+      const firstPage = await service.findAll(mockUserId, { limit: 1 });
+
+      expect(firstPage.data).toHaveLength(1);
+      expect(firstPage.nextCursor).toBeDefined();
+
+      localEventRepository.findPage.mockResolvedValueOnce([mockEvent({ id: 'event-2', eventDate: '2024-01-23' })]);
+
+      const secondPage = await service.findAll(mockUserId, { limit: 1, cursor: firstPage.nextCursor });
+
+      expect(localEventRepository.findPage).toHaveBeenLastCalledWith(
+        mockUserId,
+        expect.any(Object),
+        2,
+        { eventDate: '2024-01-16', startTime: '09:00:00', id: 'event-1' },
+      );
+      expect(secondPage.data[0].id).toBe('event-2');
+      expect(secondPage.nextCursor).toBeUndefined();
+    });
+
+    it('should reject an invalid cursor', async () => {
+      await expect(service.findAll(mockUserId, { cursor: 'not-a-cursor' })).rejects.toThrow(BadRequestException);
+      expect(localEventRepository.findPage).not.toHaveBeenCalled();
+    });
+
+    it('should reject a range that ends before it starts', async () => {
+      await expect(service.findAll(mockUserId, { from: '2024-02-01', to: '2024-01-01' })).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('update', () => {
+    it('should keep a new slot as a move exception on the section', async () => {
+      const event = mockEvent();
+      const movedEvent = mockEvent({ eventDate: '2024-01-17', startTime: '13:00:00', endTime: '14:30:00', dirty: true });
+      localEventRepository.findById.mockResolvedValue(event);
+      localEventRepository.findBySectionId.mockResolvedValue([event]);
+      sectionRepository.findById.mockResolvedValue(mockSection);
+      eventGenerationService.applyException.mockResolvedValue(movedEvent);
+
+      const result = await service.update(mockUserId, 'event-1', {
+        eventDate: '2024-01-17',
+        startTime: '13:00',
+        endTime: '14:30',
+      });
+
+      const expectedException = {
+        id: expect.any(String),
+        type: 'move',
+        date: '2024-01-16',
+        originalStartTime: '09:00',
+        newDate: '2024-01-17',
+        startTime: '13:00',
+        endTime: '14:30',
+        room: undefined,
+      };
+      expect(sectionRepository.update).toHaveBeenCalledWith('section-123', { exceptions: [expectedException] });
+      expect(eventGenerationService.applyException).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'section-123', exceptions: [expectedException] }),
+        expectedException,
+      );
+      expect(localEventRepository.update).not.toHaveBeenCalled();
+      expect(result.start).toBe('2024-01-17T13:00:00+00:00');
+    });
+
+    it('should edit the move of a class that was already moved', async () => {
+      const moveException = {
+        id: 'exception-move',
+        type: 'move' as const,
+        date: '2024-01-16',
+        originalStartTime: '09:00',
+        newDate: '2024-01-17',
+        startTime: '13:00',
+        endTime: '14:30',
+      };
+      const movedEvent = mockEvent({
+        eventDate: '2024-01-17',
+        startTime: '13:00:00',
+        endTime: '14:30:00',
+        exceptionId: 'exception-move',
+        exceptionType: 'moved',
+      });
+      localEventRepository.findById.mockResolvedValue(movedEvent);
+      localEventRepository.findBySectionId.mockResolvedValue([movedEvent]);
+      sectionRepository.findById.mockResolvedValue({ ...mockSection, exceptions: [moveException] });
+      eventGenerationService.applyException.mockResolvedValue(movedEvent);
+
+      await service.update(mockUserId, 'event-1', { room: 'Hall A' });
+
+      expect(sectionRepository.update).toHaveBeenCalledWith('section-123', {
+        exceptions: [{ ...moveException, room: 'Hall A' }],
+      });
+    });
+
+    it('should write the title override and notes on the event and mark it dirty', async () => {
+      localEventRepository.findById.mockResolvedValue(mockEvent());
+      localEventRepository.update.mockResolvedValue(mockEvent({ titleOverride: 'Midterm review', notes: 'Bring a calculator' }));
+
+      const result = await service.update(mockUserId, 'event-1', {
+        titleOverride: 'Midterm review',
+        notes: 'Bring a calculator',
+      });
+
+      expect(localEventRepository.update).toHaveBeenCalledWith('event-1', {
+        titleOverride: 'Midterm review',
+        notes: 'Bring a calculator',
+        dirty: true,
+      });
+      expect(sectionRepository.update).not.toHaveBeenCalled();
+      expect(result.title).toBe('Midterm review');
+      expect(result.notes).toBe('Bring a calculator');
+    });
+
+    it('should reject a slot another class of the section already has', async () => {
+      const event = mockEvent();
+      localEventRepository.findById.mockResolvedValue(event);
+      localEventRepository.findBySectionId.mockResolvedValue([
+        event,
+        mockEvent({ id: 'event-2', eventDate: '2024-01-23' }),
+      ]);
+      sectionRepository.findById.mockResolvedValue(mockSection);
+
+      await expect(service.update(mockUserId, 'event-1', { eventDate: '2024-01-23' })).rejects.toThrow(
+        ConflictException,
+      );
+      expect(sectionRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should compare a one-digit hour with the times of the section\'s classes', async () => {
+      const event = mockEvent({ eventDate: '2024-01-16', startTime: '13:00:00', endTime: '14:30:00' });
+      localEventRepository.findById.mockResolvedValue(event);
+      localEventRepository.findBySectionId.mockResolvedValue([
+        event,
+        mockEvent({ id: 'event-2', eventDate: '2024-01-16', startTime: '09:00:00', endTime: '10:00:00' }),
+      ]);
+      sectionRepository.findById.mockResolvedValue(mockSection);
+
+      await expect(service.update(mockUserId, 'event-1', { startTime: '9:00', endTime: '10:00' })).rejects.toThrow(
+        new ConflictException('The section already has a class at that time'),
+      );
+    });
+
+    it('should move a class to a time with a one-digit hour', async () => {
+      const event = mockEvent();
+      localEventRepository.findById.mockResolvedValue(event);
+      localEventRepository.findBySectionId.mockResolvedValue([event]);
+      sectionRepository.findById.mockResolvedValue(mockSection);
+      eventGenerationService.applyException.mockResolvedValue(event);
+
+      await service.update(mockUserId, 'event-1', { eventDate: '2024-01-17', startTime: '9:00', endTime: '10:00' });
+
+      expect(sectionRepository.update).toHaveBeenCalledWith('section-123', {
+        exceptions: [expect.objectContaining({ startTime: '09:00', endTime: '10:00' })],
+      });
+    });
+
+    it('should reject the slot of a cancelled class that is not removed from Google yet', async () => {
+      const event = mockEvent();
+      localEventRepository.findById.mockResolvedValue(event);
+      localEventRepository.findBySectionId.mockResolvedValue([
+        event,
+        mockEvent({ id: 'event-2', eventDate: '2024-01-23', status: 'deleted' }),
+      ]);
+      sectionRepository.findById.mockResolvedValue(mockSection);
+
+      await expect(service.update(mockUserId, 'event-1', { eventDate: '2024-01-23' })).rejects.toThrow(
+        new ConflictException('A cancelled class at that time is still being removed from Google Calendar; sync and try again'),
+      );
+      expect(sectionRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject a start time after the end time', async () => {
+      localEventRepository.findById.mockResolvedValue(mockEvent());
+      sectionRepository.findById.mockResolvedValue(mockSection);
+
+      await expect(service.update(mockUserId, 'event-1', { startTime: '11:00' })).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    describe('for a series', () => {
+      const weeklySection = {
+        ...mockSection,
+        scheduleRules: [{
+          dayOfWeek: 2,
+          startTime: '09:00',
+          endTime: '10:30',
+          startDate: '2024-01-09',
+          endDate: '2024-02-27',
+        }],
+      } as Section;
+
+      it('should move the schedule rule and regenerate the whole section', async () => {
+        const movedEvent = mockEvent({ eventDate: '2024-01-17', startTime: '10:00:00', endTime: '11:30:00' });
+        localEventRepository.findById.mockResolvedValueOnce(mockEvent()).mockResolvedValueOnce(movedEvent);
+        sectionRepository.findById.mockResolvedValue(weeklySection);
+        eventGenerationService.regenerateEventsForSection.mockResolvedValue({
+          generated: 0,
+          skipped: 0,
+          replaced: 8,
+          events: [movedEvent],
+        });
+
+        const result = await service.update(
+          mockUserId,
+          'event-1',
+          { eventDate: '2024-01-17', startTime: '10:00', endTime: '11:30', scope: 'series' },
+          'Asia/Bangkok',
+        );
+
+        expect(sectionRepository.update).toHaveBeenCalledWith('section-123', {
+          scheduleRules: [{
+            dayOfWeek: 3,
+            startTime: '10:00',
+            endTime: '11:30',
+            startDate: '2024-01-10',
+            endDate: '2024-02-28',
+            skipDates: undefined,
+          }],
+          exceptions: [],
+        });
+        expect(eventGenerationService.regenerateEventsForSection).toHaveBeenCalledWith(mockUserId, 'section-123', {
+          startDate: undefined,
+          timezone: 'Asia/Bangkok',
+        });
+        expect(eventGenerationService.applyException).not.toHaveBeenCalled();
+        expect(result.start).toBe('2024-01-17T10:00:00+07:00');
+      });
+
+      it('should split the rule and regenerate from the class for this and following', async () => {
+        localEventRepository.findById.mockResolvedValue(mockEvent({ eventDate: '2024-01-23' }));
+        sectionRepository.findById.mockResolvedValue(weeklySection);
+        eventGenerationService.regenerateEventsForSection.mockResolvedValue({
+          generated: 0,
+          skipped: 0,
+          replaced: 6,
+          events: [],
+        });
+
+        await service.update(mockUserId, 'event-1', { startTime: '08:00', endTime: '09:30', scope: 'following' });
+
+        const { scheduleRules } = sectionRepository.update.mock.calls[0][1];
+        expect(scheduleRules).toHaveLength(2);
+        expect(scheduleRules[0]).toEqual(expect.objectContaining({ startTime: '09:00', endDate: '2024-01-22' }));
+        expect(scheduleRules[1]).toEqual(expect.objectContaining({ startTime: '08:00', startDate: '2024-01-23' }));
+        expect(eventGenerationService.regenerateEventsForSection).toHaveBeenCalledWith(mockUserId, 'section-123', {
+          startDate: '2024-01-23',
+          timezone: undefined,
+        });
+      });
+
+      it('should move the series to a time with a one-digit hour', async () => {
+        localEventRepository.findById.mockResolvedValue(mockEvent());
+        sectionRepository.findById.mockResolvedValue(weeklySection);
+        eventGenerationService.regenerateEventsForSection.mockResolvedValue({
+          generated: 0,
+          skipped: 0,
+          replaced: 8,
+          events: [],
+        });
+
+        await service.update(mockUserId, 'event-1', { startTime: '9:30', endTime: '11:00', scope: 'series' });
+
+        expect(sectionRepository.update).toHaveBeenCalledWith('section-123', expect.objectContaining({
+          scheduleRules: [expect.objectContaining({ startTime: '09:30', endTime: '11:00' })],
+        }));
+      });
+
+      it('should find a rule saved with a one-digit hour', async () => {
+        localEventRepository.findById.mockResolvedValue(mockEvent());
+        sectionRepository.findById.mockResolvedValue({
+          ...weeklySection,
+          scheduleRules: [{ ...weeklySection.scheduleRules[0], startTime: '9:00' }],
+        } as Section);
+        eventGenerationService.regenerateEventsForSection.mockResolvedValue({
+          generated: 0,
+          skipped: 0,
+          replaced: 8,
+          events: [],
+        });
+
+        await service.update(mockUserId, 'event-1', { startTime: '10:00', endTime: '11:30', scope: 'series' });
+
+        expect(sectionRepository.update).toHaveBeenCalledWith('section-123', expect.objectContaining({
+          scheduleRules: [expect.objectContaining({ startTime: '10:00', endTime: '11:30' })],
+        }));
+      });
+
+      it('should only move a rescheduled class on its own', async () => {
+        localEventRepository.findById.mockResolvedValue(mockEvent({ exceptionId: 'exception-move', exceptionType: 'moved' }));
+
+        await expect(
+          service.update(mockUserId, 'event-1', { startTime: '10:00', endTime: '11:30', scope: 'series' }),
+        ).rejects.toThrow(BadRequestException);
+        expect(sectionRepository.update).not.toHaveBeenCalled();
+      });
+
+      it('should reject a move of a week or more', async () => {
+        localEventRepository.findById.mockResolvedValue(mockEvent());
+        sectionRepository.findById.mockResolvedValue(weeklySection);
+
+        await expect(
+          service.update(mockUserId, 'event-1', { eventDate: '2024-01-23', scope: 'series' }),
+        ).rejects.toThrow(BadRequestException);
+      });
+    });
+
+    it('should not find another user\'s event', async () => {
+      localEventRepository.findById.mockResolvedValue(mockEvent({ userId: 'other-user' }));
+
+      await expect(service.update(mockUserId, 'event-1', { notes: 'Hi' })).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('remove', () => {
+    it('should cancel the class with an exception on the section', async () => {
+      localEventRepository.findById.mockResolvedValue(mockEvent());
+      sectionRepository.findById.mockResolvedValue(mockSection);
+
+      await service.remove(mockUserId, 'event-1');
+
+      const expectedException = {
+        id: expect.any(String),
+        type: 'cancel',
+        date: '2024-01-16',
+        originalStartTime: '09:00',
+        reason: undefined,
+      };
+      expect(sectionRepository.update).toHaveBeenCalledWith('section-123', { exceptions: [expectedException] });
+      expect(eventGenerationService.applyException).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'section-123' }),
+        expectedException,
+      );
+    });
+
+    it('should turn the move of a moved class into a cancellation', async () => {
+      const moveException = {
+        id: 'exception-move',
+        type: 'move' as const,
+        date: '2024-01-16',
+        originalStartTime: '09:00',
+        newDate: '2024-01-17',
+      };
+      localEventRepository.findById.mockResolvedValue(mockEvent({ exceptionId: 'exception-move', exceptionType: 'moved' }));
+      sectionRepository.findById.mockResolvedValue({ ...mockSection, exceptions: [moveException] });
+
+      await service.remove(mockUserId, 'event-1');
+
+      expect(sectionRepository.update).toHaveBeenCalledWith('section-123', {
+        exceptions: [{ id: 'exception-move', type: 'cancel', date: '2024-01-16', originalStartTime: '09:00', reason: undefined }],
+      });
+    });
+
+    it('should drop an extra session', async () => {
+      const extraException = {
+        id: 'exception-extra',
+        type: 'extra' as const,
+        date: '2024-01-19',
+        startTime: '13:00',
+        endTime: '16:00',
+      };
+      localEventRepository.findById.mockResolvedValue(mockEvent({ exceptionId: 'exception-extra', exceptionType: 'extra' }));
+      sectionRepository.findById.mockResolvedValue({ ...mockSection, exceptions: [extraException] });
+
+      await service.remove(mockUserId, 'event-1');
+
+      expect(sectionRepository.update).toHaveBeenCalledWith('section-123', { exceptions: [] });
+      expect(eventGenerationService.revertException).toHaveBeenCalledWith(
+        expect.objectContaining({ exceptions: [] }),
+        extraException,
+      );
+      expect(eventGenerationService.applyException).not.toHaveBeenCalled();
+    });
+
+    it('should not find an event that was already removed', async () => {
+      localEventRepository.findById.mockResolvedValue(mockEvent({ status: 'deleted' }));
+
+      await expect(service.remove(mockUserId, 'event-1')).rejects.toThrow(NotFoundException);
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { rescheduleSeries } from '../series-reschedule';
+import { ScheduleRule, SectionException } from '../../../infra/database/entities/section.entity';
+import { expandScheduleRule } from '../../../common/utils/schedule-recurrence';
+
+describe('series-reschedule', () => {
+  // Mondays 09:00-10:30 from 2024-01-15 to 2024-02-26
+  const mondays: ScheduleRule = {
+    dayOfWeek: 1,
+    startTime: '09:00',
+    endTime: '10:30',
+    startDate: '2024-01-15',
+    endDate: '2024-02-26',
+    skipDates: ['2024-01-29', '2024-02-19'],
+  };
+
+  const thursdays: ScheduleRule = {
+    dayOfWeek: 4,
+    startTime: '13:00',
+    endTime: '14:30',
+    startDate: '2024-01-15',
+    endDate: '2024-02-26',
+  };
+
+  const cancelled: SectionException = {
+    id: 'exception-cancel',
+    type: 'cancel',
+    date: '2024-02-12',
+    originalStartTime: '09:00',
+  };
+
+  const extra: SectionException = {
+    id: 'exception-extra',
+    type: 'extra',
+    date: '2024-02-14',
+    startTime: '13:00',
+    endTime: '16:00',
+  };
+
+  describe('rescheduleSeries', () => {
+    it('should move every class of the series to the new day and times', () => {
+      const result = rescheduleSeries(
+        [mondays, thursdays],
+        [cancelled, extra],
+        mondays,
+        { date: '2024-01-22', dayShift: 1, startTime: '10:00', endTime: '11:30' },
+        'series',
+      );
+
+      expect(result.scheduleRules).toEqual([
+        {
+          dayOfWeek: 2,
+          startTime: '10:00',
+          endTime: '11:30',
+          startDate: '2024-01-16',
+          endDate: '2024-02-27',
+          skipDates: ['2024-01-30', '2024-02-20'],
+        },
+        thursdays,
+      ]);
+      expect(expandScheduleRule(result.scheduleRules[0])).toHaveLength(expandScheduleRule(mondays).length);
+      expect(result.exceptions).toEqual([
+        { ...cancelled, date: '2024-02-13', originalStartTime: '10:00' },
+        extra,
+      ]);
+    });
+
+    it('should split the rule at the class for this and following', () => {
+      const result = rescheduleSeries(
+        [mondays],
+        [{ ...cancelled, date: '2024-01-22' }, cancelled],
+        mondays,
+        { date: '2024-02-05', dayShift: -1, startTime: '09:00', endTime: '10:30' },
+        'following',
+      );
+
+      expect(result.scheduleRules).toEqual([
+        { ...mondays, endDate: '2024-02-04', skipDates: ['2024-01-29'] },
+        {
+          ...mondays,
+          dayOfWeek: 0,
+          startDate: '2024-02-04',
+          endDate: '2024-02-25',
+          skipDates: ['2024-02-18'],
+          weekParity: undefined,
+        },
+      ]);
+      expect(result.exceptions).toEqual([
+        { ...cancelled, date: '2024-01-22' },
+        { ...cancelled, date: '2024-02-11' },
+      ]);
+    });
+
+    it('should move the whole rule when the class is its first', () => {
+      const result = rescheduleSeries(
+        [mondays],
+        [],
+        mondays,
+        { date: '2024-01-15', dayShift: 0, startTime: '08:00', endTime: '09:30' },
+        'following',
+      );
+
+      expect(result.scheduleRules).toEqual([
+        { ...mondays, startTime: '08:00', endTime: '09:30' },
+      ]);
+    });
+
+    it('should keep the moved class in the weeks of an alternating rule', () => {
+      const evenWeeks: ScheduleRule = { ...mondays, skipDates: undefined, weekParity: 'even' };
+
+      const result = rescheduleSeries(
+        [evenWeeks],
+        [],
+        evenWeeks,
+        { date: '2024-02-05', dayShift: 0, startTime: '10:00', endTime: '11:30' },
+        'following',
+      );
+
+      expect(expandScheduleRule(result.scheduleRules[0])).toEqual(['2024-01-22']);
+      expect(expandScheduleRule(result.scheduleRules[1])).toEqual(['2024-02-05', '2024-02-19']);
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { Injectable, Inject, NotFoundException } from '@nestjs/common';
+import { LocalEventRepository } from '../../infra/database/repositories/interfaces/local-event-repository.interface';
+import { SectionRepository } from '../../infra/database/repositories/interfaces/section-repository.interface';
+import { LocalEvent } from '../../infra/database/entities/local-event.entity';
+import { EventGenerationService, GenerateEventsOptions } from './event-generation.service';
+import { ClashReport, findClashes } from './event-clashes';
+
+export interface DetectClashesOptions {
+  startDate?: string;
+  endDate?: string;
+  // Only report clashes involving these sections
+  sectionIds?: string[];
+}
+
+@Injectable()
+export class ClashDetectionService {
+  constructor(
+    @Inject('LocalEventRepository')
+    private readonly localEventRepository: LocalEventRepository,
+    @Inject('SectionRepository')
+    private readonly sectionRepository: SectionRepository,
+    private readonly eventGenerationService: EventGenerationService,
+  ) {}
+
+  /**
+   * Finds the clashes between all of a user's events, in a date range if given
+   */
+  async detectClashes(userId: string, options: DetectClashesOptions = {}): Promise<ClashReport[]> {
+    const events = options.startDate && options.endDate
+      ? await this.localEventRepository.findByUserIdAndDateRange(userId, options.startDate, options.endDate)
+      : await this.localEventRepository.findByUserId(userId);
+
+    return findClashes(events, options.sectionIds);
+  }
+
+  /**
+   * Finds the clashes between a section's schedule and the user's other
+   * events. The schedule is read from the section's rules and exceptions, so
+   * this also works before its events are generated or reconciled.
+   */
+  async detectSectionClashes(
+    userId: string,
+    sectionId: string,
+    options: GenerateEventsOptions = {}
+  ): Promise<ClashReport[]> {
+    const section = await this.sectionRepository.findById(sectionId);
+
+    if (!section || section.subject.userId !== userId) {
+      throw new NotFoundException(`Section with ID '${sectionId}' not found`);
+    }
+
+    const scheduledEvents: Partial<LocalEvent>[] = this.eventGenerationService
+      .listScheduledEvents(section, options)
+      .map(event => ({ ...event, section, subject: section.subject }));
+
+    if (scheduledEvents.length === 0) {
+      return [];
+    }
+
+    // Only the other sections' events in the schedule's own date range matter
+    const dates = scheduledEvents.map(event => event.eventDate).sort();
+    const otherEvents = (await this.localEventRepository.findByUserIdAndDateRange(
+      userId,
+      dates[0],
+      dates[dates.length - 1],
+    )).filter(event => event.sectionId !== sectionId);
+
+    return findClashes([...scheduledEvents, ...otherEvents], [sectionId]);
+  }
+}
@@ -0,0 +1,11 @@
+import { IsOptional, IsDateString } from 'class-validator';
+
+export class ClashQueryDto {
+  @IsOptional()
+  @IsDateString({}, { message: 'Start date must be a valid ISO date string (YYYY-MM-DD)' })
+  startDate?: string;
+
+  @IsOptional()
+  @IsDateString({}, { message: 'End date must be a valid ISO date string (YYYY-MM-DD)' })
+  endDate?: string;
+}
@@ -1,17 +1,27 @@
 import { LocalEvent } from '../../../infra/database/entities/local-event.entity';
+import { EventChange } from '../event-diff';
+import { EventGenerationResult } from '../event-generation.service';
 
 export class EventGenerationResultDto {
   generated: number;
   skipped: number;
   replaced: number;
   events: LocalEventSummaryDto[];
+  deleted?: number;
+  unchanged?: number;
+  changes?: EventChange[];
+  dryRun?: boolean;
 
-  static fromResult(result: { generated: number; skipped: number; replaced: number; events: LocalEvent[] }): EventGenerationResultDto {
+  static fromResult(result: EventGenerationResult): EventGenerationResultDto {
     return {
       generated: result.generated,
       skipped: result.skipped,
       replaced: result.replaced,
       events: result.events.map(event => LocalEventSummaryDto.fromEntity(event)),
+      deleted: result.deleted,
+      unchanged: result.unchanged,
+      changes: result.changes,
+      dryRun: result.dryRun,
     };
   }
 }
@@ -0,0 +1,93 @@
+import { LocalEvent } from '../../../infra/database/entities/local-event.entity';
+import { DEFAULT_TIMEZONE, formatInTimeZone, toDateString, zonedTimeToUtc } from '../../../common/utils/timezone';
+
+/**
+ * An event as the calendar shows it: its title and colour come from the
+ * subject and section, and start and end are RFC 3339 date-times in the
+ * user's timezone
+ */
+export class EventResponseDto {
+  id: string;
+  title: string;
+  start: string;
+  end: string;
+  eventDate: string;
+  startTime: string;
+  endTime: string;
+  color?: string;
+  room?: string;
+  teacher?: string;
+  status: 'planned' | 'synced' | 'deleted';
+  dirty?: boolean;
+  exceptionType?: 'moved' | 'extra';
+  originalDate?: string;
+  titleOverride?: string;
+  notes?: string;
+  gcalEventId?: string;
+  subject: {
+    id: string;
+    code?: string;
+    name?: string;
+    colorHex?: string;
+  };
+  section: {
+    id: string;
+    secCode?: string;
+  };
+
+  static fromEntity(event: LocalEvent, timezone: string = DEFAULT_TIMEZONE): EventResponseDto {
+    const eventDate = toDateString(event.eventDate);
+
+    return {
+      id: event.id,
+      title: event.titleOverride || createTitle(event),
+      start: formatInTimeZone(zonedTimeToUtc(eventDate, event.startTime.substring(0, 5), timezone), timezone),
+      end: formatInTimeZone(zonedTimeToUtc(eventDate, event.endTime.substring(0, 5), timezone), timezone),
+      eventDate,
+      startTime: event.startTime.substring(0, 5),
+      endTime: event.endTime.substring(0, 5),
+      color: event.subject?.colorHex,
+      room: event.room || event.section?.room,
+      teacher: event.section?.teacher,
+      status: event.status,
+      dirty: event.dirty,
+      exceptionType: event.exceptionType,
+      originalDate: event.originalDate ? toDateString(event.originalDate) : undefined,
+      titleOverride: event.titleOverride,
+      notes: event.notes,
+      gcalEventId: event.gcalEventId,
+      subject: {
+        id: event.subjectId,
+        code: event.subject?.code,
+        name: event.subject?.name,
+        colorHex: event.subject?.colorHex,
+      },
+      section: {
+        id: event.sectionId,
+        secCode: event.section?.secCode,
+      },
+    };
+  }
+}
+
+export class EventListResponseDto {
+  data: EventResponseDto[];
+  nextCursor?: string;
+}
+
+// Same title as the event gets in Google Calendar
+function createTitle(event: LocalEvent): string {
+  const parts = [];
+
+  if (event.subject?.code) {
+    parts.push(event.subject.code);
+  }
+  if (event.subject?.name) {
+    parts.push(event.subject.name);
+  }
+  if (event.section?.secCode) {
+    parts.push(`(${event.section.secCode})`);
+  }
+
+  return parts.join(' ');
+}
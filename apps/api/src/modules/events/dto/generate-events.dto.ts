@@ -1,3 +1,4 @@
+import { OmitType } from '@nestjs/mapped-types';
 import { IsOptional, IsDateString, IsBoolean } from 'class-validator';
 
 export class GenerateEventsDto {
@@ -12,4 +13,12 @@ export class GenerateEventsDto {
   @IsOptional()
   @IsBoolean()
   replaceExisting?: boolean;
-}
\ No newline at end of file
+}
+
+// Regeneration always updates existing classes in place
+export class RegenerateEventsDto extends OmitType(GenerateEventsDto, ['replaceExisting'] as const) {
+  // Return the changes regeneration would make without writing them
+  @IsOptional()
+  @IsBoolean()
+  dryRun?: boolean;
+}
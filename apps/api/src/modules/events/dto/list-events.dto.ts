@@ -0,0 +1,36 @@
+import { Type } from 'class-transformer';
+import { IsOptional, IsDateString, IsUUID, IsIn, IsInt, IsString, Min, Max } from 'class-validator';
+
+export class ListEventsQueryDto {
+  @IsOptional()
+  @IsDateString({}, { message: 'From must be a valid ISO date string (YYYY-MM-DD)' })
+  from?: string;
+
+  @IsOptional()
+  @IsDateString({}, { message: 'To must be a valid ISO date string (YYYY-MM-DD)' })
+  to?: string;
+
+  @IsOptional()
+  @IsUUID()
+  subjectId?: string;
+
+  @IsOptional()
+  @IsUUID()
+  sectionId?: string;
+
+  // Removed events are left out unless asked for
+  @IsOptional()
+  @IsIn(['planned', 'synced', 'deleted'], { message: 'Status must be planned, synced or deleted' })
+  status?: 'planned' | 'synced' | 'deleted';
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  limit?: number;
+
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+}
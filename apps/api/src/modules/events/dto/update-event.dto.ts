@@ -0,0 +1,37 @@
+import { IsOptional, IsString, IsDateString, IsIn, Matches, MaxLength } from 'class-validator';
+import { RESCHEDULE_SCOPES, RescheduleScope } from '../series-reschedule';
+
+export class UpdateEventDto {
+  @IsOptional()
+  @IsDateString({}, { message: 'Event date must be a valid ISO date string (YYYY-MM-DD)' })
+  eventDate?: string;
+
+  @IsOptional()
+  @Matches(/^([01][0-9]|2[0-3]):[0-5][0-9]$/, { message: 'Start time must be in HH:MM format' })
+  startTime?: string;
+
+  @IsOptional()
+  @Matches(/^([01][0-9]|2[0-3]):[0-5][0-9]$/, { message: 'End time must be in HH:MM format' })
+  endTime?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  room?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  titleOverride?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  notes?: string;
+
+  // Which classes a new date or time applies to: this one (the default), this
+  // and the following ones of its series, or the whole series
+  @IsOptional()
+  @IsIn(RESCHEDULE_SCOPES, { message: 'Scope must be occurrence, following or series' })
+  scope?: RescheduleScope;
+}
@@ -0,0 +1,160 @@
+/**
+ * Timetable clashes: events of two different sections that overlap on the
+ * same date, grouped by the pair of sections so a weekly clash is reported
+ * once with every date it happens on.
+ */
+import { LocalEvent } from '../../infra/database/entities/local-event.entity';
+
+export interface ClashSection {
+  sectionId: string;
+  subjectId: string;
+  secCode?: string;
+  subjectCode?: string;
+  subjectName?: string;
+}
+
+export interface ClashEvent {
+  // Unset for a class that is scheduled but not generated yet
+  eventId?: string;
+  sectionId: string;
+  startTime: string;
+  endTime: string;
+  room?: string;
+}
+
+export interface ClashOccurrence {
+  date: string;
+  // Window both classes take up
+  overlapStart: string;
+  overlapEnd: string;
+  overlapMinutes: number;
+  events: [ClashEvent, ClashEvent];
+}
+
+export interface ClashReport {
+  sections: [ClashSection, ClashSection];
+  occurrences: ClashOccurrence[];
+  totalOverlapMinutes: number;
+}
+
+/**
+ * Finds the clashes between the given events. With sectionIds, only clashes
+ * involving one of those sections are reported. Removed events never clash.
+ */
+export function findClashes(events: Partial<LocalEvent>[], sectionIds?: string[]): ClashReport[] {
+  const reports = new Map<string, ClashReport>();
+  const eventsByDate = new Map<string, Partial<LocalEvent>[]>();
+
+  for (const event of events) {
+    if (event.status === 'deleted') {
+      continue;
+    }
+    const date = toDate(event.eventDate);
+    eventsByDate.set(date, [...(eventsByDate.get(date) || []), event]);
+  }
+
+  for (const [date, dayEvents] of eventsByDate) {
+    const sorted = [...dayEvents].sort((a, b) => toMinutes(a.startTime) - toMinutes(b.startTime));
+
+    for (let i = 0; i < sorted.length; i++) {
+      for (let j = i + 1; j < sorted.length; j++) {
+        const first = sorted[i];
+        const second = sorted[j];
+
+        // Sorted by start, so nothing later in the day can overlap the first
+        if (toMinutes(second.startTime) >= toMinutes(first.endTime)) {
+          break;
+        }
+        if (first.sectionId === second.sectionId) {
+          continue;
+        }
+        if (sectionIds && !sectionIds.includes(first.sectionId) && !sectionIds.includes(second.sectionId)) {
+          continue;
+        }
+
+        addOccurrence(reports, date, first, second);
+      }
+    }
+  }
+
+  return [...reports.values()]
+    .map(report => ({
+      ...report,
+      occurrences: report.occurrences.sort((a, b) =>
+        `${a.date} ${a.overlapStart}`.localeCompare(`${b.date} ${b.overlapStart}`),
+      ),
+    }))
+    .sort((a, b) => a.occurrences[0].date.localeCompare(b.occurrences[0].date));
+}
+
+function addOccurrence(
+  reports: Map<string, ClashReport>,
+  date: string,
+  first: Partial<LocalEvent>,
+  second: Partial<LocalEvent>,
+): void {
+  // Keep each pair of sections in one order, whichever starts first on the day
+  const [a, b] = first.sectionId < second.sectionId ? [first, second] : [second, first];
+  const key = `${a.sectionId}|${b.sectionId}`;
+  const overlapStart = Math.max(toMinutes(a.startTime), toMinutes(b.startTime));
+  const overlapEnd = Math.min(toMinutes(a.endTime), toMinutes(b.endTime));
+  const overlapMinutes = overlapEnd - overlapStart;
+
+  if (!reports.has(key)) {
+    reports.set(key, {
+      sections: [toClashSection(a), toClashSection(b)],
+      occurrences: [],
+      totalOverlapMinutes: 0,
+    });
+  }
+
+  const report = reports.get(key);
+  report.occurrences.push({
+    date,
+    overlapStart: fromMinutes(overlapStart),
+    overlapEnd: fromMinutes(overlapEnd),
+    overlapMinutes,
+    events: [toClashEvent(a), toClashEvent(b)],
+  });
+  report.totalOverlapMinutes += overlapMinutes;
+}
+
+function toClashSection(event: Partial<LocalEvent>): ClashSection {
+  return {
+    sectionId: event.sectionId,
+    subjectId: event.subjectId,
+    secCode: event.section?.secCode,
+    subjectCode: event.subject?.code,
+    subjectName: event.subject?.name,
+  };
+}
+
+function toClashEvent(event: Partial<LocalEvent>): ClashEvent {
+  return {
+    eventId: event.id,
+    sectionId: event.sectionId,
+    startTime: toTime(event.startTime),
+    endTime: toTime(event.endTime),
+    room: event.room,
+  };
+}
+
+function toDate(value: string | Date): string {
+  return typeof value === 'string' ? value.substring(0, 10) : value.toISOString().substring(0, 10);
+}
+
+// Postgres returns times as HH:mm:ss
+function toTime(value: string): string {
+  return (value || '').substring(0, 5);
+}
+
+function toMinutes(value: string): number {
+  const [hours, minutes] = toTime(value).split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function fromMinutes(value: number): string {
+  const hours = Math.floor(value / 60);
+  const minutes = value % 60;
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
+}
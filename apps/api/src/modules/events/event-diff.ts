@@ -0,0 +1,246 @@
+/**
+ * Reconciliation of a section's events: the occurrences its schedule should
+ * have are matched against the rows it already has, so an occurrence that did
+ * not change keeps its row and Google link, one that moved is updated in
+ * place, and only what is really gone or new is deleted or created.
+ *
+ * Occurrences are matched, in order:
+ * - by exception, so a moved class or extra session finds its own row;
+ * - by slot (date, start and end time), first against live rows and then
+ *   against soft-deleted ones, which are restored;
+ * - by week, pairing what is left in the same Monday-based week in date
+ *   order, so a class moved to another time or weekday keeps its row.
+ */
+import { LocalEvent } from '../../infra/database/entities/local-event.entity';
+import { getWeekStart } from '../../common/utils/schedule-recurrence';
+import { toDateString } from '../../common/utils/timezone';
+
+export interface EventUpdate {
+  event: LocalEvent;
+  changes: Partial<LocalEvent>;
+}
+
+export interface EventDiff {
+  toCreate: Partial<LocalEvent>[];
+  toUpdate: EventUpdate[];
+  toDelete: LocalEvent[];
+  unchanged: LocalEvent[];
+}
+
+/**
+ * One line of a diff preview
+ */
+export interface EventChange {
+  action: 'create' | 'update' | 'delete';
+  eventId?: string;
+  eventDate: string;
+  startTime: string;
+  endTime: string;
+  room?: string;
+  // Slot the event had before an update
+  previous?: {
+    eventDate: string;
+    startTime: string;
+    endTime: string;
+    room?: string;
+  };
+  gcalEventId?: string;
+}
+
+// Fields an occurrence is compared on; the rest (status, Google link) belong to the row
+const COMPARED_FIELDS: (keyof LocalEvent)[] = [
+  'eventDate',
+  'startTime',
+  'endTime',
+  'room',
+  'exceptionId',
+  'exceptionType',
+  'originalDate',
+];
+
+/**
+ * Diffs the desired occurrences of a section against its existing events.
+ * Soft-deleted rows are only reused when an occurrence is back on their exact
+ * slot; otherwise they are left for the sync to remove from Google, and are
+ * never deleted again.
+ */
+export function diffEvents(desired: Partial<LocalEvent>[], existing: LocalEvent[]): EventDiff {
+  const diff: EventDiff = { toCreate: [], toUpdate: [], toDelete: [], unchanged: [] };
+  const pairs: [Partial<LocalEvent>, LocalEvent][] = [];
+  const live = existing.filter(event => event.status !== 'deleted');
+  const removed = existing.filter(event => event.status === 'deleted');
+
+  const unpaired = () => {
+    const pairedDesired = new Set(pairs.map(([occurrence]) => occurrence));
+    const pairedExisting = new Set(pairs.map(([, event]) => event));
+    return {
+      desired: desired.filter(occurrence => !pairedDesired.has(occurrence)),
+      existing: live.filter(event => !pairedExisting.has(event)),
+    };
+  };
+
+  pairByKey(desired, live, event => event.exceptionId || null, pairs);
+  pairByKey(unpaired().desired, unpaired().existing, slotKey, pairs);
+
+  // Restore a removed occurrence that is back on the schedule, keeping its
+  // Google link, before pairing by week could move another row onto its slot
+  pairByKey(unpaired().desired, removed, slotKey, pairs);
+
+  pairByWeek(unpaired().desired, unpaired().existing, pairs);
+
+  const { desired: remainingDesired, existing: remainingExisting } = unpaired();
+
+  for (const [occurrence, event] of pairs) {
+    const changes = getChanges(occurrence, event);
+    if (event.status === 'deleted') {
+      diff.toUpdate.push({
+        event,
+        changes: { ...changes, status: event.gcalEventId ? 'synced' : 'planned', dirty: true },
+      });
+    } else if (Object.keys(changes).length === 0) {
+      diff.unchanged.push(event);
+    } else {
+      diff.toUpdate.push({ event, changes: { ...changes, dirty: true } });
+    }
+  }
+
+  diff.toCreate.push(...remainingDesired);
+  diff.toDelete.push(...remainingExisting);
+
+  return diff;
+}
+
+/**
+ * Lists a diff as create, update and delete lines, in date order
+ */
+export function describeDiff(diff: EventDiff): EventChange[] {
+  const changes: EventChange[] = [
+    ...diff.toCreate.map(occurrence => ({
+      action: 'create' as const,
+      eventDate: occurrence.eventDate,
+      startTime: occurrence.startTime,
+      endTime: occurrence.endTime,
+      room: occurrence.room,
+    })),
+    ...diff.toUpdate.map(({ event, changes: updates }) => ({
+      action: 'update' as const,
+      eventId: event.id,
+      eventDate: updates.eventDate ?? event.eventDate,
+      startTime: updates.startTime ?? event.startTime,
+      endTime: updates.endTime ?? event.endTime,
+      room: 'room' in updates ? updates.room : event.room,
+      previous: {
+        eventDate: event.eventDate,
+        startTime: event.startTime,
+        endTime: event.endTime,
+        room: event.room,
+      },
+      gcalEventId: event.gcalEventId,
+    })),
+    ...diff.toDelete.map(event => ({
+      action: 'delete' as const,
+      eventId: event.id,
+      eventDate: event.eventDate,
+      startTime: event.startTime,
+      endTime: event.endTime,
+      room: event.room,
+      gcalEventId: event.gcalEventId,
+    })),
+  ];
+
+  return changes.sort((a, b) =>
+    `${a.eventDate} ${a.startTime}`.localeCompare(`${b.eventDate} ${b.startTime}`),
+  );
+}
+
+function pairByKey(
+  desired: Partial<LocalEvent>[],
+  existing: LocalEvent[],
+  keyOf: (event: Partial<LocalEvent>) => string | null,
+  pairs: [Partial<LocalEvent>, LocalEvent][],
+): void {
+  const existingByKey = new Map<string, LocalEvent>();
+  for (const event of existing) {
+    const key = keyOf(event);
+    if (key && !existingByKey.has(key)) {
+      existingByKey.set(key, event);
+    }
+  }
+
+  for (const occurrence of desired) {
+    const key = keyOf(occurrence);
+    if (key && existingByKey.has(key)) {
+      pairs.push([occurrence, existingByKey.get(key)]);
+      existingByKey.delete(key);
+    }
+  }
+}
+
+function slotKey(event: Partial<LocalEvent>): string {
+  return `${toDateString(event.eventDate)}|${toTime(event.startTime)}|${toTime(event.endTime)}`;
+}
+
+/**
+ * Pairs what is left of each week in date order, so a class that moved to
+ * another day or time keeps its row
+ */
+function pairByWeek(
+  desired: Partial<LocalEvent>[],
+  existing: LocalEvent[],
+  pairs: [Partial<LocalEvent>, LocalEvent][],
+): void {
+  const bySlot = (a: Partial<LocalEvent>, b: Partial<LocalEvent>) => slotKey(a).localeCompare(slotKey(b));
+  const existingByWeek = new Map<string, LocalEvent[]>();
+
+  for (const event of [...existing].sort(bySlot)) {
+    // Exception rows are only ever matched by their own exception
+    if (event.exceptionId) {
+      continue;
+    }
+    const week = getWeekStart(toDateString(event.eventDate));
+    existingByWeek.set(week, [...(existingByWeek.get(week) || []), event]);
+  }
+
+  for (const occurrence of [...desired].sort(bySlot)) {
+    if (occurrence.exceptionId) {
+      continue;
+    }
+    const candidates = existingByWeek.get(getWeekStart(toDateString(occurrence.eventDate)));
+    if (candidates?.length) {
+      pairs.push([occurrence, candidates.shift()]);
+    }
+  }
+}
+
+function getChanges(occurrence: Partial<LocalEvent>, event: LocalEvent): Partial<LocalEvent> {
+  const changes: Partial<LocalEvent> = {};
+  const setChange = <K extends keyof LocalEvent>(field: K) => {
+    changes[field] = occurrence[field] ?? null;
+  };
+
+  for (const field of COMPARED_FIELDS) {
+    if (normalize(field, occurrence[field]) !== normalize(field, event[field])) {
+      setChange(field);
+    }
+  }
+
+  return changes;
+}
+
+function normalize(field: keyof LocalEvent, value: unknown): unknown {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  if (field === 'startTime' || field === 'endTime') {
+    return toTime(value as string);
+  }
+  if (field === 'eventDate' || field === 'originalDate') {
+    return toDateString(value as string);
+  }
+  return value;
+}
+
+// Postgres returns times as HH:mm:ss
+function toTime(value: string): string {
+  return (value || '').substring(0, 5);
+}
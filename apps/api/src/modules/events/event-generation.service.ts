@@ -2,12 +2,22 @@ import { Injectable, Inject, NotFoundException, BadRequestException } from '@nes
 import { LocalEventRepository } from '../../infra/database/repositories/interfaces/local-event-repository.interface';
 import { SectionRepository } from '../../infra/database/repositories/interfaces/section-repository.interface';
 import { LocalEvent } from '../../infra/database/entities/local-event.entity';
-import { Section, ScheduleRule } from '../../infra/database/entities/section.entity';
+import { Section, ScheduleRule, SectionException } from '../../infra/database/entities/section.entity';
+import { DEFAULT_TIMEZONE, formatDateInTimeZone } from '../../common/utils/timezone';
+import { expandDateRanges, expandScheduleRule } from '../../common/utils/schedule-recurrence';
+import { EventChange, describeDiff, diffEvents } from './event-diff';
 
 export interface GenerateEventsOptions {
   startDate?: string;
   endDate?: string;
   replaceExisting?: boolean;
+  // Timezone that full timestamps in startDate/endDate are read in
+  timezone?: string;
+}
+
+export interface RegenerateEventsOptions extends Omit<GenerateEventsOptions, 'replaceExisting'> {
+  // Only work out the changes, without writing them
+  dryRun?: boolean;
 }
 
 export interface EventGenerationResult {
@@ -15,6 +25,11 @@ export interface EventGenerationResult {
   skipped: number;
   replaced: number;
   events: LocalEvent[];
+  // Set by regeneration
+  deleted?: number;
+  unchanged?: number;
+  changes?: EventChange[];
+  dryRun?: boolean;
 }
 
 @Injectable()
@@ -26,6 +41,17 @@ export class EventGenerationService {
     private readonly sectionRepository: SectionRepository,
   ) {}
 
+  /**
+   * The same service reading and writing through other repositories, such
+   * as those of a UnitOfWork transaction
+   */
+  withRepositories(
+    localEventRepository: LocalEventRepository,
+    sectionRepository: SectionRepository,
+  ): EventGenerationService {
+    return new EventGenerationService(localEventRepository, sectionRepository);
+  }
+
   /**
    * Generate events for a specific section based on its schedule rules
    */
@@ -45,20 +71,20 @@ export class EventGenerationService {
       throw new NotFoundException(`Section with ID '${sectionId}' not found`);
     }
 
+    const { events: occurrences, skipped } = this.getDesiredEvents(section, options);
+
     const result: EventGenerationResult = {
       generated: 0,
-      skipped: 0,
+      skipped,
       replaced: 0,
       events: [],
     };
 
-    // Generate events for each schedule rule
-    for (const rule of section.scheduleRules) {
-      const ruleResult = await this.generateEventsForRule(section, rule, options);
-      result.generated += ruleResult.generated;
-      result.skipped += ruleResult.skipped;
-      result.replaced += ruleResult.replaced;
-      result.events.push(...ruleResult.events);
+    // Existing events are read once and kept current as events are added
+    const existingEvents = await this.localEventRepository.findBySectionId(section.id);
+
+    for (const eventData of occurrences) {
+      await this.saveGeneratedEvent(eventData, existingEvents, options, result);
     }
 
     return result;
@@ -103,106 +129,254 @@ export class EventGenerationService {
   }
 
   /**
-   * Generate events for a specific schedule rule using RRULE-like logic
+   * Lists the events a section's schedule should have, without saving them
    */
-  private async generateEventsForRule(
+  listScheduledEvents(section: Section, options: GenerateEventsOptions = {}): Partial<LocalEvent>[] {
+    return this.getDesiredEvents(section, options).events;
+  }
+
+  /**
+   * Lists the events a section's schedule should have in the requested
+   * range: its rules' classes and its moved classes and extra sessions
+   */
+  private getDesiredEvents(
     section: Section,
-    rule: ScheduleRule,
     options: GenerateEventsOptions
-  ): Promise<EventGenerationResult> {
-    const result: EventGenerationResult = {
-      generated: 0,
-      skipped: 0,
-      replaced: 0,
-      events: [],
-    };
+  ): { events: Partial<LocalEvent>[]; skipped: number } {
+    const events: Partial<LocalEvent>[] = [];
+    let skipped = 0;
+
+    for (const rule of section.scheduleRules) {
+      const ruleOccurrences = this.getRuleOccurrences(section, rule, options);
+      events.push(...ruleOccurrences.events);
+      skipped += ruleOccurrences.skipped;
+    }
+
+    // Moved classes and extra sessions live outside the schedule rules
+    events.push(...this.getExceptionOccurrences(section, options));
+
+    return { events, skipped };
+  }
 
-    // Determine date range for generation
-    const startDate = options.startDate ? new Date(options.startDate) : new Date(rule.startDate);
-    const endDate = options.endDate ? new Date(options.endDate) : new Date(rule.endDate);
+  /**
+   * List the events of a schedule rule using RRULE-like logic
+   */
+  private getRuleOccurrences(
+    section: Section,
+    rule: ScheduleRule,
+    options: GenerateEventsOptions
+  ): { events: Partial<LocalEvent>[]; skipped: number } {
+    const events: Partial<LocalEvent>[] = [];
+    let skipped = 0;
+
+    // Determine date range for generation, as calendar dates in the user's timezone
+    const timezone = options.timezone || DEFAULT_TIMEZONE;
+    const startDate = this.toLocalDate(options.startDate || rule.startDate, timezone);
+    const endDate = this.toLocalDate(options.endDate || rule.endDate, timezone);
     
     // Ensure we don't go outside the rule's date range
-    const ruleStartDate = new Date(rule.startDate);
-    const ruleEndDate = new Date(rule.endDate);
+    const ruleStartDate = this.toLocalDate(rule.startDate, timezone);
+    const ruleEndDate = this.toLocalDate(rule.endDate, timezone);
     
     const effectiveStartDate = startDate > ruleStartDate ? startDate : ruleStartDate;
     const effectiveEndDate = endDate < ruleEndDate ? endDate : ruleEndDate;
 
     if (effectiveStartDate >= effectiveEndDate) {
-      return result;
-    }
-
-    // Get skip dates as Date objects for easier comparison
-    const skipDates = new Set(rule.skipDates?.map(date => date) || []);
-
-    // Generate events for each occurrence
-    const currentDate = new Date(effectiveStartDate);
-    
-    // Find the first occurrence of the target day of week
-    while (currentDate.getDay() !== rule.dayOfWeek && currentDate <= effectiveEndDate) {
-      currentDate.setDate(currentDate.getDate() + 1);
+      return { events, skipped };
     }
 
-    // Generate events weekly
-    while (currentDate <= effectiveEndDate) {
-      const eventDateString = this.formatDate(currentDate);
-      
+    // Skip the rule's own skip dates and the blackout periods of the section's term
+    const skipDates = new Set([
+      ...(rule.skipDates || []),
+      ...expandDateRanges(section.term?.blackouts || []),
+    ]);
+
+    // One event for each occurrence of the rule's pattern, counted from the
+    // rule's own first class so a partial range stays in step
+    const occurrences = expandScheduleRule(
+      { ...rule, startDate: ruleStartDate, endDate: ruleEndDate },
+      effectiveStartDate,
+      effectiveEndDate,
+    );
+
+    for (const eventDateString of occurrences) {
       // Skip if this date is in the skip list
       if (skipDates.has(eventDateString)) {
-        result.skipped++;
-        currentDate.setDate(currentDate.getDate() + 7); // Move to next week
+        skipped++;
+        continue;
+      }
+
+      // Cancelled and moved classes are handled by the section's exceptions
+      if (this.findOccurrenceException(section, eventDateString, rule.startTime)) {
+        skipped++;
         continue;
       }
 
-      // Check if event already exists
-      const existingEvents = await this.localEventRepository.findBySectionId(section.id);
-      const existingEvent = existingEvents.find(
-        event => event.eventDate === eventDateString && 
-                event.startTime === rule.startTime &&
-                event.endTime === rule.endTime
+      events.push({
+        ...this.buildEventData(section, eventDateString, rule.startTime, rule.endTime),
+        exceptionId: null,
+        exceptionType: null,
+        originalDate: null,
+      });
+    }
+
+    return { events, skipped };
+  }
+
+  /**
+   * List the moved classes and extra sessions of a section that fall in the
+   * requested range
+   */
+  private getExceptionOccurrences(section: Section, options: GenerateEventsOptions): Partial<LocalEvent>[] {
+    const { startDate, endDate } = this.getRange(options);
+
+    return (section.exceptions || [])
+      .map(exception => this.buildExceptionEventData(section, exception))
+      .filter(eventData =>
+        eventData &&
+        (!startDate || eventData.eventDate >= startDate) &&
+        (!endDate || eventData.eventDate <= endDate)
       );
+  }
 
-      if (existingEvent && !options.replaceExisting) {
-        result.skipped++;
-      } else {
-        // Create or replace event
-        const eventData: Partial<LocalEvent> = {
-          userId: section.subject.userId,
-          subjectId: section.subjectId,
-          sectionId: section.id,
-          eventDate: eventDateString,
-          startTime: rule.startTime,
-          endTime: rule.endTime,
-          room: section.room,
-          status: 'planned',
-        };
-
-        if (existingEvent && options.replaceExisting) {
-          // Update existing event
-          const updatedEvent = await this.localEventRepository.update(existingEvent.id, eventData);
-          if (updatedEvent) {
-            result.events.push(updatedEvent);
-            result.replaced++;
-          }
-        } else if (!existingEvent) {
-          // Create new event
-          const newEvent = await this.localEventRepository.create(eventData);
-          result.events.push(newEvent);
-          result.generated++;
+  /**
+   * Creates the event for a slot, or restores or replaces the one already
+   * there, and counts the outcome in the result
+   */
+  private async saveGeneratedEvent(
+    eventData: Partial<LocalEvent>,
+    existingEvents: LocalEvent[],
+    options: GenerateEventsOptions,
+    result: EventGenerationResult
+  ): Promise<void> {
+    // Check if event already exists
+    const existingEvent = existingEvents.find(
+      event => event.eventDate === eventData.eventDate && 
+              event.startTime === eventData.startTime &&
+              event.endTime === eventData.endTime
+    );
+
+    if (existingEvent?.status === 'deleted') {
+      // Restore a removed occurrence that is back on the schedule, keeping its Google link
+      const restoredEvent = await this.localEventRepository.update(existingEvent.id, {
+        ...eventData,
+        status: existingEvent.gcalEventId ? 'synced' : 'planned',
+      });
+      if (restoredEvent) {
+        existingEvents.splice(existingEvents.indexOf(existingEvent), 1, restoredEvent);
+        result.events.push(restoredEvent);
+        result.generated++;
+      }
+    } else if (existingEvent && !options.replaceExisting) {
+      result.skipped++;
+    } else {
+      // Create or replace event
+      if (existingEvent && options.replaceExisting) {
+        // Update existing event
+        const updatedEvent = await this.localEventRepository.update(existingEvent.id, eventData);
+        if (updatedEvent) {
+          result.events.push(updatedEvent);
+          result.replaced++;
         }
+      } else if (!existingEvent) {
+        // Create new event
+        const newEvent = await this.localEventRepository.create(eventData);
+        existingEvents.push(newEvent);
+        result.events.push(newEvent);
+        result.generated++;
       }
+    }
+  }
 
-      // Move to next week
-      currentDate.setDate(currentDate.getDate() + 7);
+  /**
+   * Brings the section's existing events in line with a new or edited
+   * exception: a cancelled class is removed, a moved class keeps its row (and
+   * Google link, so a series occurrence becomes an override) and an extra
+   * session is added. An edited exception updates the event it already has.
+   */
+  async applyException(section: Section, exception: SectionException): Promise<LocalEvent | null> {
+    const events = await this.localEventRepository.findBySectionId(section.id);
+    const existingEvent =
+      events.find(event => event.status !== 'deleted' && event.exceptionId === exception.id) ||
+      (exception.type !== 'extra'
+        ? events.find(event =>
+            event.status !== 'deleted' &&
+            !event.exceptionId &&
+            event.eventDate === exception.date &&
+            (!exception.originalStartTime || event.startTime.substring(0, 5) === exception.originalStartTime)
+          )
+        : undefined);
+
+    if (exception.type === 'cancel') {
+      if (existingEvent) {
+        await this.removeEvent(existingEvent);
+      }
+      return null;
     }
 
-    return result;
+    const eventData = this.buildExceptionEventData(section, exception);
+    if (!eventData) {
+      return null;
+    }
+
+    if (existingEvent) {
+      return this.localEventRepository.update(existingEvent.id, {
+        ...eventData,
+        status: existingEvent.status,
+      });
+    }
+
+    return this.localEventRepository.create(eventData);
+  }
+
+  /**
+   * Undoes an exception that was removed from the section: the class goes
+   * back to its scheduled slot, or the extra session is removed
+   */
+  async revertException(section: Section, exception: SectionException): Promise<LocalEvent | null> {
+    const events = await this.localEventRepository.findBySectionId(section.id);
+    const exceptionEvent = events.find(event => event.exceptionId === exception.id);
+
+    if (exception.type === 'extra') {
+      if (exceptionEvent && exceptionEvent.status !== 'deleted') {
+        await this.removeEvent(exceptionEvent);
+      }
+      return null;
+    }
+
+    const rule = this.findScheduledRule(section, exception.date, exception.originalStartTime);
+    if (!rule) {
+      // The class is no longer on the schedule, so there is nothing to go back to
+      if (exceptionEvent && exceptionEvent.status !== 'deleted') {
+        await this.removeEvent(exceptionEvent);
+      }
+      return null;
+    }
+
+    const eventData: Partial<LocalEvent> = {
+      ...this.buildEventData(section, exception.date, rule.startTime, rule.endTime),
+      exceptionId: null,
+      exceptionType: null,
+      originalDate: null,
+    };
+
+    if (exceptionEvent) {
+      // Move the class back on the same row so a Google override is reverted in place
+      return this.localEventRepository.update(exceptionEvent.id, {
+        ...eventData,
+        status: exceptionEvent.gcalEventId ? 'synced' : 'planned',
+      });
+    }
+
+    const result: EventGenerationResult = { generated: 0, skipped: 0, replaced: 0, events: [] };
+    await this.saveGeneratedEvent(eventData, events, {}, result);
+    return result.events[0] || null;
   }
 
   /**
-   * Delete all generated events for a section
+   * Delete all generated events for a section, or only those from a given date on
    */
-  async deleteEventsForSection(userId: string, sectionId: string): Promise<number> {
+  async deleteEventsForSection(userId: string, sectionId: string, fromDate?: string): Promise<number> {
     const section = await this.sectionRepository.findById(sectionId);
     
     if (!section) {
@@ -218,40 +392,175 @@ export class EventGenerationService {
     let deletedCount = 0;
 
     for (const event of events) {
-      if (event.status === 'planned') {
-        // Hard delete planned events
-        const deleted = await this.localEventRepository.delete(event.id);
-        if (deleted) deletedCount++;
-      } else {
-        // Soft delete synced events
-        const deleted = await this.localEventRepository.softDelete(event.id);
-        if (deleted) deletedCount++;
+      if (fromDate && event.eventDate < fromDate) {
+        continue;
+      }
+
+      if (event.status !== 'deleted' && await this.removeEvent(event)) {
+        deletedCount++;
       }
     }
 
     return deletedCount;
   }
 
+  private async removeEvent(event: LocalEvent): Promise<boolean> {
+    if (event.status === 'planned' && !event.gcalEventId) {
+      // Hard delete planned events that never reached Google Calendar
+      return this.localEventRepository.delete(event.id);
+    }
+
+    // Soft delete synced events; the next sync removes them from Google and drops the row
+    return this.localEventRepository.softDelete(event.id);
+  }
+
   /**
-   * Regenerate events for a section (delete existing and create new)
+   * Regenerate events for a section by reconciling them with its schedule:
+   * unchanged events are kept with their Google links, moved ones are
+   * updated in place, and only what changed is deleted or created. With a
+   * start date, earlier events are kept, so a synced series is split there
+   * rather than recreated. A dry run only returns the changes.
    */
   async regenerateEventsForSection(
     userId: string,
     sectionId: string,
-    options: GenerateEventsOptions = {}
+    options: RegenerateEventsOptions = {}
   ): Promise<EventGenerationResult> {
-    // Delete existing events
-    const deletedCount = await this.deleteEventsForSection(userId, sectionId);
-    
-    // Generate new events
-    const result = await this.generateEventsForSection(userId, sectionId, options);
+    const section = await this.sectionRepository.findById(sectionId);
     
+    if (!section) {
+      throw new NotFoundException(`Section with ID '${sectionId}' not found`);
+    }
+
+    // Verify section belongs to user through subject
+    if (section.subject.userId !== userId) {
+      throw new NotFoundException(`Section with ID '${sectionId}' not found`);
+    }
+
+    const { events: occurrences, skipped } = this.getDesiredEvents(section, options);
+
+    // Events outside the requested range are left as they are
+    const { startDate, endDate } = this.getRange(options);
+    const existingEvents = (await this.localEventRepository.findBySectionId(sectionId)).filter(event =>
+      (!startDate || event.eventDate >= startDate) && (!endDate || event.eventDate <= endDate)
+    );
+
+    const diff = diffEvents(occurrences, existingEvents);
+    const result: EventGenerationResult = {
+      generated: diff.toCreate.length,
+      skipped,
+      replaced: diff.toUpdate.length,
+      deleted: diff.toDelete.length,
+      unchanged: diff.unchanged.length,
+      events: [],
+      changes: describeDiff(diff),
+      dryRun: !!options.dryRun,
+    };
+
+    if (options.dryRun) {
+      return result;
+    }
+
+    for (const { event, changes } of diff.toUpdate) {
+      const updatedEvent = await this.localEventRepository.update(event.id, changes);
+      if (updatedEvent) {
+        result.events.push(updatedEvent);
+      }
+    }
+
+    for (const event of diff.toDelete) {
+      await this.removeEvent(event);
+    }
+
+    for (const eventData of diff.toCreate) {
+      result.events.push(await this.localEventRepository.create(eventData));
+    }
+
+    return result;
+  }
+
+  private buildEventData(
+    section: Section,
+    eventDate: string,
+    startTime: string,
+    endTime: string
+  ): Partial<LocalEvent> {
     return {
-      ...result,
-      replaced: deletedCount,
+      userId: section.subject.userId,
+      subjectId: section.subjectId,
+      sectionId: section.id,
+      eventDate,
+      startTime,
+      endTime,
+      room: section.room,
+      status: 'planned',
+      dirty: true,
     };
   }
 
+  /**
+   * Builds the event of a moved class or extra session; null when a moved
+   * class is no longer on the schedule
+   */
+  private buildExceptionEventData(section: Section, exception: SectionException): Partial<LocalEvent> | null {
+    if (exception.type === 'extra') {
+      return {
+        ...this.buildEventData(section, exception.date, exception.startTime, exception.endTime),
+        room: exception.room || section.room,
+        exceptionId: exception.id,
+        exceptionType: 'extra',
+        originalDate: null,
+      };
+    }
+
+    if (exception.type !== 'move') {
+      return null;
+    }
+
+    const rule = this.findScheduledRule(section, exception.date, exception.originalStartTime);
+    if (!rule) {
+      return null;
+    }
+
+    return {
+      ...this.buildEventData(
+        section,
+        exception.newDate || exception.date,
+        exception.startTime || rule.startTime,
+        exception.endTime || rule.endTime,
+      ),
+      room: exception.room || section.room,
+      exceptionId: exception.id,
+      exceptionType: 'moved',
+      originalDate: exception.date,
+    };
+  }
+
+  /**
+   * Finds the cancel or move exception for a scheduled class
+   */
+  private findOccurrenceException(
+    section: Section,
+    date: string,
+    startTime: string
+  ): SectionException | undefined {
+    return (section.exceptions || []).find(exception =>
+      exception.type !== 'extra' &&
+      exception.date === date &&
+      (!exception.originalStartTime || exception.originalStartTime === startTime)
+    );
+  }
+
+  /**
+   * Finds the rule with a class on the date, at the given start time if any
+   */
+  private findScheduledRule(section: Section, date: string, startTime?: string): ScheduleRule | undefined {
+    return section.scheduleRules.find(rule =>
+      (!startTime || rule.startTime === startTime) &&
+      expandScheduleRule(rule, date, date).includes(date)
+    );
+  }
+
   /**
    * Validate date range for event generation
    */
@@ -273,9 +582,31 @@ export class EventGenerationService {
   }
 
   /**
-   * Format date as YYYY-MM-DD string
+   * Format date as YYYY-MM-DD string, as it falls in the given timezone
+   */
+  private formatDate(date: Date, timezone: string): string {
+    return formatDateInTimeZone(date, timezone);
+  }
+
+  /**
+   * The requested range as calendar dates in the user's timezone; open ends are null
    */
-  private formatDate(date: Date): string {
-    return date.toISOString().split('T')[0];
+  private getRange(options: GenerateEventsOptions): { startDate: string | null; endDate: string | null } {
+    const timezone = options.timezone || DEFAULT_TIMEZONE;
+    return {
+      startDate: options.startDate ? this.toLocalDate(options.startDate, timezone) : null,
+      endDate: options.endDate ? this.toLocalDate(options.endDate, timezone) : null,
+    };
+  }
+
+  /**
+   * Reads a YYYY-MM-DD date as is, and a full timestamp as the date it falls
+   * on in the user's timezone
+   */
+  private toLocalDate(value: string, timezone: string): string {
+    if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      return value;
+    }
+    return this.formatDate(new Date(value), timezone);
   }
 }
\ No newline at end of file
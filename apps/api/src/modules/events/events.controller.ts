@@ -1,16 +1,26 @@
 import {
   Controller,
+  Get,
   Post,
+  Patch,
   Delete,
   Param,
   Body,
+  Query,
   UseGuards,
   ParseUUIDPipe,
   HttpCode,
   HttpStatus,
 } from '@nestjs/common';
 import { EventGenerationService } from './event-generation.service';
-import { GenerateEventsDto } from './dto/generate-events.dto';
+import { EventsService } from './events.service';
+import { ClashDetectionService } from './clash-detection.service';
+import { ClashReport } from './event-clashes';
+import { ClashQueryDto } from './dto/clash-query.dto';
+import { ListEventsQueryDto } from './dto/list-events.dto';
+import { EventListResponseDto, EventResponseDto } from './dto/event-response.dto';
+import { UpdateEventDto } from './dto/update-event.dto';
+import { GenerateEventsDto, RegenerateEventsDto } from './dto/generate-events.dto';
 import { EventGenerationResultDto } from './dto/event-generation-result.dto';
 import { JwtAuthGuard } from '../auth/guards/auth.guard';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
@@ -18,7 +28,34 @@ import { CurrentUser } from '../auth/decorators/current-user.decorator';
 @Controller('events')
 @UseGuards(JwtAuthGuard)
 export class EventsController {
-  constructor(private readonly eventGenerationService: EventGenerationService) {}
+  constructor(
+    private readonly eventsService: EventsService,
+    private readonly eventGenerationService: EventGenerationService,
+    private readonly clashDetectionService: ClashDetectionService,
+  ) {}
+
+  /**
+   * Lists the user's events, filtered and a page at a time
+   */
+  @Get()
+  async findAll(
+    @CurrentUser('id') userId: string,
+    @Query() listEventsQueryDto: ListEventsQueryDto,
+    @CurrentUser('timezone') timezone: string,
+  ): Promise<EventListResponseDto> {
+    return this.eventsService.findAll(userId, listEventsQueryDto, timezone);
+  }
+
+  /**
+   * Lists the clashes between the user's classes, in a date range if given
+   */
+  @Get('clashes')
+  async getClashes(
+    @CurrentUser('id') userId: string,
+    @Query() clashQueryDto: ClashQueryDto,
+  ): Promise<ClashReport[]> {
+    return this.clashDetectionService.detectClashes(userId, clashQueryDto);
+  }
 
   @Post('generate/section/:sectionId')
   @HttpCode(HttpStatus.CREATED)
@@ -26,11 +63,12 @@ export class EventsController {
     @CurrentUser('id') userId: string,
     @Param('sectionId', ParseUUIDPipe) sectionId: string,
     @Body() generateEventsDto: GenerateEventsDto,
+    @CurrentUser('timezone') timezone: string,
   ): Promise<EventGenerationResultDto> {
     const result = await this.eventGenerationService.generateEventsForSection(
       userId,
       sectionId,
-      generateEventsDto
+      { ...generateEventsDto, timezone }
     );
     return EventGenerationResultDto.fromResult(result);
   }
@@ -41,11 +79,12 @@ export class EventsController {
     @CurrentUser('id') userId: string,
     @Param('subjectId', ParseUUIDPipe) subjectId: string,
     @Body() generateEventsDto: GenerateEventsDto,
+    @CurrentUser('timezone') timezone: string,
   ): Promise<EventGenerationResultDto> {
     const result = await this.eventGenerationService.generateEventsForSubject(
       userId,
       subjectId,
-      generateEventsDto
+      { ...generateEventsDto, timezone }
     );
     return EventGenerationResultDto.fromResult(result);
   }
@@ -55,12 +94,13 @@ export class EventsController {
   async regenerateEventsForSection(
     @CurrentUser('id') userId: string,
     @Param('sectionId', ParseUUIDPipe) sectionId: string,
-    @Body() generateEventsDto: GenerateEventsDto,
+    @Body() regenerateEventsDto: RegenerateEventsDto,
+    @CurrentUser('timezone') timezone: string,
   ): Promise<EventGenerationResultDto> {
     const result = await this.eventGenerationService.regenerateEventsForSection(
       userId,
       sectionId,
-      generateEventsDto
+      { ...regenerateEventsDto, timezone }
     );
     return EventGenerationResultDto.fromResult(result);
   }
@@ -74,4 +114,29 @@ export class EventsController {
     const deleted = await this.eventGenerationService.deleteEventsForSection(userId, sectionId);
     return { deleted };
   }
-}
\ No newline at end of file
+
+  /**
+   * Edits one class; the change survives regenerating its section
+   */
+  @Patch(':id')
+  async update(
+    @CurrentUser('id') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateEventDto: UpdateEventDto,
+    @CurrentUser('timezone') timezone: string,
+  ): Promise<EventResponseDto> {
+    return this.eventsService.update(userId, id, updateEventDto, timezone);
+  }
+
+  /**
+   * Cancels one class
+   */
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(
+    @CurrentUser('id') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<void> {
+    return this.eventsService.remove(userId, id);
+  }
+}
@@ -1,6 +1,8 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { EventGenerationService } from './event-generation.service';
+import { EventsService } from './events.service';
+import { ClashDetectionService } from './clash-detection.service';
 import { EventsController } from './events.controller';
 import { LocalEvent } from '../../infra/database/entities/local-event.entity';
 import { Section } from '../../infra/database/entities/section.entity';
@@ -11,7 +13,9 @@ import { TypeOrmSectionRepository } from '../../infra/database/repositories/type
   imports: [TypeOrmModule.forFeature([LocalEvent, Section])],
   controllers: [EventsController],
   providers: [
+    EventsService,
     EventGenerationService,
+    ClashDetectionService,
     {
       provide: 'LocalEventRepository',
       useClass: TypeOrmLocalEventRepository,
@@ -21,6 +25,6 @@ import { TypeOrmSectionRepository } from '../../infra/database/repositories/type
       useClass: TypeOrmSectionRepository,
     },
   ],
-  exports: [EventGenerationService, 'LocalEventRepository'],
+  exports: [EventGenerationService, ClashDetectionService, 'LocalEventRepository'],
 })
 export class EventsModule {}
\ No newline at end of file
@@ -0,0 +1,323 @@
+import { Injectable, Inject, BadRequestException, NotFoundException, ConflictException } from '@nestjs/common';
+import * as crypto from 'crypto';
+import {
+  LocalEventRepository,
+  LocalEventCursor,
+} from '../../infra/database/repositories/interfaces/local-event-repository.interface';
+import { SectionRepository } from '../../infra/database/repositories/interfaces/section-repository.interface';
+import { LocalEvent } from '../../infra/database/entities/local-event.entity';
+import { Section, ScheduleRule, SectionException } from '../../infra/database/entities/section.entity';
+import { daysBetween, expandScheduleRule } from '../../common/utils/schedule-recurrence';
+import { toDateString } from '../../common/utils/timezone';
+import { EventGenerationService } from './event-generation.service';
+import { rescheduleSeries } from './series-reschedule';
+import { ListEventsQueryDto } from './dto/list-events.dto';
+import { UpdateEventDto } from './dto/update-event.dto';
+import { EventListResponseDto, EventResponseDto } from './dto/event-response.dto';
+
+@Injectable()
+export class EventsService {
+  private readonly defaultPageSize = 100;
+
+  constructor(
+    @Inject('LocalEventRepository')
+    private readonly localEventRepository: LocalEventRepository,
+    @Inject('SectionRepository')
+    private readonly sectionRepository: SectionRepository,
+    private readonly eventGenerationService: EventGenerationService,
+  ) {}
+
+  /**
+   * Gets a page of the user's events in date and time order. The cursor of
+   * the next page is the position of the last event, so events added or
+   * removed between pages do not shift it.
+   */
+  async findAll(userId: string, query: ListEventsQueryDto, timezone?: string): Promise<EventListResponseDto> {
+    if (query.from && query.to && query.from > query.to) {
+      throw new BadRequestException('From date must not be after to date');
+    }
+
+    const pageSize = query.limit || this.defaultPageSize;
+    const events = await this.localEventRepository.findPage(
+      userId,
+      {
+        from: query.from,
+        to: query.to,
+        subjectId: query.subjectId,
+        sectionId: query.sectionId,
+        status: query.status,
+      },
+      pageSize + 1,
+      query.cursor ? this.decodeCursor(query.cursor) : undefined,
+    );
+
+    const hasMore = events.length > pageSize;
+    const page = events.slice(0, pageSize);
+
+    return {
+      data: page.map(event => EventResponseDto.fromEntity(event, timezone)),
+      nextCursor: hasMore ? this.encodeCursor(page[page.length - 1]) : undefined,
+    };
+  }
+
+  /**
+   * Edits one class. A new date, time or room is kept as a move exception on
+   * the section, so regenerating the section keeps it; the title override and
+   * notes live on the event itself. Either way the event is marked dirty for
+   * the next sync. With the following or series scope, a new date or time
+   * moves the schedule rule of the class instead.
+   */
+  async update(userId: string, id: string, updateEventDto: UpdateEventDto, timezone?: string): Promise<EventResponseDto> {
+    const event = await this.findOwnedEvent(userId, id);
+    updateEventDto = withPaddedTimes(updateEventDto);
+
+    if (updateEventDto.scope === 'following' || updateEventDto.scope === 'series') {
+      return this.rescheduleSeries(userId, event, updateEventDto, timezone);
+    }
+
+    let updatedEvent = event;
+
+    if (this.changesSlot(event, updateEventDto)) {
+      const section = await this.findSection(event.sectionId);
+      const exception = this.buildMoveException(section, event, updateEventDto);
+
+      if (exception.startTime >= exception.endTime) {
+        throw new BadRequestException('Start time must be before end time');
+      }
+      await this.ensureSlotIsFree(event, exception);
+
+      const exceptions = [
+        ...(section.exceptions || []).filter(existing => existing.id !== exception.id),
+        exception,
+      ];
+      await this.sectionRepository.update(section.id, { exceptions });
+      updatedEvent = (await this.eventGenerationService.applyException({ ...section, exceptions }, exception)) || event;
+    }
+
+    const overrides: Partial<LocalEvent> = {};
+    if (updateEventDto.titleOverride !== undefined) {
+      overrides.titleOverride = updateEventDto.titleOverride || null;
+    }
+    if (updateEventDto.notes !== undefined) {
+      overrides.notes = updateEventDto.notes || null;
+    }
+    if (Object.keys(overrides).length > 0) {
+      updatedEvent = await this.localEventRepository.update(updatedEvent.id, { ...overrides, dirty: true });
+    }
+
+    return EventResponseDto.fromEntity(updatedEvent, timezone);
+  }
+
+  /**
+   * Cancels one class. The cancellation is kept as an exception on the
+   * section, so regenerating the section does not bring the class back; a
+   * class already on Google is removed there on the next sync.
+   */
+  async remove(userId: string, id: string): Promise<void> {
+    const event = await this.findOwnedEvent(userId, id);
+    const section = await this.findSection(event.sectionId);
+    const existing = (section.exceptions || []).find(exception => exception.id === event.exceptionId);
+    const others = (section.exceptions || []).filter(exception => exception.id !== event.exceptionId);
+
+    if (existing?.type === 'extra') {
+      // An extra session has no scheduled slot to cancel, so it is just dropped
+      await this.sectionRepository.update(section.id, { exceptions: others });
+      await this.eventGenerationService.revertException({ ...section, exceptions: others }, existing);
+      return;
+    }
+
+    const cancellation: SectionException = {
+      id: existing?.id || crypto.randomUUID(),
+      type: 'cancel',
+      date: existing?.date || toDateString(event.eventDate),
+      originalStartTime: existing ? existing.originalStartTime : event.startTime.substring(0, 5),
+      reason: existing?.reason,
+    };
+    const exceptions = [...others, cancellation];
+
+    await this.sectionRepository.update(section.id, { exceptions });
+    await this.eventGenerationService.applyException({ ...section, exceptions }, cancellation);
+  }
+
+  /**
+   * Moves the class's series to the class's new slot and regenerates the
+   * section, from the class on for the following scope
+   */
+  private async rescheduleSeries(
+    userId: string,
+    event: LocalEvent,
+    updateEventDto: UpdateEventDto,
+    timezone?: string,
+  ): Promise<EventResponseDto> {
+    if (event.exceptionId) {
+      throw new BadRequestException('A rescheduled class or extra session can only be changed on its own');
+    }
+    if (updateEventDto.room !== undefined || updateEventDto.titleOverride !== undefined || updateEventDto.notes !== undefined) {
+      throw new BadRequestException('Only the date and time can be changed for a series');
+    }
+
+    const section = await this.findSection(event.sectionId);
+    const date = toDateString(event.eventDate);
+    const newDate = updateEventDto.eventDate ?? date;
+    const startTime = updateEventDto.startTime ?? event.startTime.substring(0, 5);
+    const endTime = updateEventDto.endTime ?? event.endTime.substring(0, 5);
+    const dayShift = daysBetween(date, newDate);
+
+    if (startTime >= endTime) {
+      throw new BadRequestException('Start time must be before end time');
+    }
+    if (Math.abs(dayShift) >= 7) {
+      throw new BadRequestException('A series can only be moved to another day of the same week');
+    }
+
+    const rule = this.findScheduledRule(section, date, event.startTime.substring(0, 5));
+    if (!rule) {
+      throw new BadRequestException('The class is no longer on its section\'s schedule');
+    }
+
+    const scope = updateEventDto.scope === 'following' ? 'following' : 'series';
+    const rescheduled = rescheduleSeries(
+      section.scheduleRules,
+      section.exceptions || [],
+      rule,
+      { date, dayShift, startTime, endTime },
+      scope,
+    );
+    await this.sectionRepository.update(section.id, rescheduled);
+
+    const result = await this.eventGenerationService.regenerateEventsForSection(userId, section.id, {
+      startDate: scope === 'following' ? (newDate < date ? newDate : date) : undefined,
+      timezone,
+    });
+
+    // The class keeps its row when it stays in the same week; otherwise it is
+    // recreated on its new slot
+    const movedEvent = result.events.find(candidate =>
+      toDateString(candidate.eventDate) === newDate && candidate.startTime.substring(0, 5) === startTime
+    );
+    return EventResponseDto.fromEntity(await this.localEventRepository.findById(movedEvent?.id || event.id), timezone);
+  }
+
+  private findScheduledRule(section: Section, date: string, startTime: string): ScheduleRule | undefined {
+    // Rules saved before their times were padded can have a one-digit hour
+    return section.scheduleRules.find(rule =>
+      rule.startTime.padStart(5, '0') === startTime && expandScheduleRule(rule, date, date).includes(date)
+    );
+  }
+
+  private async findOwnedEvent(userId: string, id: string): Promise<LocalEvent> {
+    const event = await this.localEventRepository.findById(id);
+
+    if (!event || event.userId !== userId || event.status === 'deleted') {
+      throw new NotFoundException(`Event with ID '${id}' not found`);
+    }
+
+    return event;
+  }
+
+  private async findSection(sectionId: string): Promise<Section> {
+    const section = await this.sectionRepository.findById(sectionId);
+
+    if (!section) {
+      throw new NotFoundException(`Section with ID '${sectionId}' not found`);
+    }
+
+    return section;
+  }
+
+  /**
+   * True when the update moves the class or changes its room
+   */
+  private changesSlot(event: LocalEvent, updateEventDto: UpdateEventDto): boolean {
+    return (
+      (updateEventDto.eventDate !== undefined && updateEventDto.eventDate !== toDateString(event.eventDate)) ||
+      (updateEventDto.startTime !== undefined && updateEventDto.startTime !== event.startTime.substring(0, 5)) ||
+      (updateEventDto.endTime !== undefined && updateEventDto.endTime !== event.endTime.substring(0, 5)) ||
+      (updateEventDto.room !== undefined && updateEventDto.room !== (event.room || ''))
+    );
+  }
+
+  /**
+   * Builds the exception that puts the class on its new slot: the class's
+   * own move or extra session when it already has one, a new move otherwise
+   */
+  private buildMoveException(section: Section, event: LocalEvent, updateEventDto: UpdateEventDto): SectionException {
+    const existing = (section.exceptions || []).find(exception => exception.id === event.exceptionId);
+    const eventDate = updateEventDto.eventDate ?? toDateString(event.eventDate);
+    const slot = {
+      startTime: updateEventDto.startTime ?? event.startTime.substring(0, 5),
+      endTime: updateEventDto.endTime ?? event.endTime.substring(0, 5),
+      room: updateEventDto.room ?? event.room,
+    };
+
+    if (existing?.type === 'extra') {
+      return { ...existing, date: eventDate, ...slot };
+    }
+
+    if (existing) {
+      return { ...existing, newDate: eventDate, ...slot };
+    }
+
+    return {
+      id: crypto.randomUUID(),
+      type: 'move',
+      date: toDateString(event.eventDate),
+      originalStartTime: event.startTime.substring(0, 5),
+      newDate: eventDate,
+      ...slot,
+    };
+  }
+
+  /**
+   * Rejects a move onto a slot another class of the section already has. A
+   * cancelled class keeps its slot until the sync removes it from Google.
+   */
+  private async ensureSlotIsFree(event: LocalEvent, exception: SectionException): Promise<void> {
+    const date = exception.type === 'extra' ? exception.date : exception.newDate;
+    const events = await this.localEventRepository.findBySectionId(event.sectionId);
+    const taken = events.find(other =>
+      other.id !== event.id &&
+      toDateString(other.eventDate) === date &&
+      other.startTime.substring(0, 5) === exception.startTime &&
+      other.endTime.substring(0, 5) === exception.endTime
+    );
+
+    if (taken?.status === 'deleted') {
+      throw new ConflictException('A cancelled class at that time is still being removed from Google Calendar; sync and try again');
+    }
+    if (taken) {
+      throw new ConflictException('The section already has a class at that time');
+    }
+  }
+
+  private encodeCursor(event: LocalEvent): string {
+    const cursor: LocalEventCursor = {
+      eventDate: event.eventDate,
+      startTime: event.startTime,
+      id: event.id,
+    };
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  }
+
+  private decodeCursor(value: string): LocalEventCursor {
+    try {
+      const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+      if (
+        /^\d{4}-\d{2}-\d{2}$/.test(cursor.eventDate) &&
+        /^\d{2}:\d{2}(:\d{2})?$/.test(cursor.startTime) &&
+        typeof cursor.id === 'string'
+      ) {
+        return { eventDate: cursor.eventDate, startTime: cursor.startTime, id: cursor.id };
+      }
+    } catch {
+      // Reported below
+    }
+    throw new BadRequestException('Invalid cursor');
+  }
+}
+
+// Times compare as HH:MM strings, so an hour given with one digit is padded
+function withPaddedTimes(updateEventDto: UpdateEventDto): UpdateEventDto {
+  const pad = (time?: string) => time && time.padStart(5, '0');
+  return { ...updateEventDto, startTime: pad(updateEventDto.startTime), endTime: pad(updateEventDto.endTime) };
+}
@@ -0,0 +1,103 @@
+/**
+ * Moving a whole series of classes from one of its occurrences: when a class
+ * is dragged to a new slot for "this and following" or "all classes", the
+ * schedule rule it came from is moved by the same number of days and to the
+ * new times. "This and following" splits the rule at the dragged class, so
+ * earlier classes stay where they are.
+ *
+ * Cancelled and moved classes of the series move along with it, so they
+ * still find the class they change once the section is regenerated.
+ */
+import { ScheduleRule, SectionException } from '../../infra/database/entities/section.entity';
+import { expandScheduleRule, shiftDate } from '../../common/utils/schedule-recurrence';
+
+export type RescheduleScope = 'occurrence' | 'following' | 'series';
+
+export const RESCHEDULE_SCOPES: RescheduleScope[] = ['occurrence', 'following', 'series'];
+
+export interface SeriesMove {
+  // Scheduled date of the class that was moved
+  date: string;
+  // Days the class moved by
+  dayShift: number;
+  startTime: string;
+  endTime: string;
+}
+
+export interface RescheduledSeries {
+  scheduleRules: ScheduleRule[];
+  exceptions: SectionException[];
+}
+
+/**
+ * Moves the rule's classes from the given one on, or all of them for the
+ * series scope
+ */
+export function rescheduleSeries(
+  scheduleRules: ScheduleRule[],
+  exceptions: SectionException[],
+  rule: ScheduleRule,
+  move: SeriesMove,
+  scope: 'following' | 'series',
+): RescheduledSeries {
+  const splits = scope === 'following' && expandScheduleRule(rule, undefined, shiftDate(move.date, -1)).length > 0;
+  const movedRules = splits
+    ? [
+        {
+          ...rule,
+          endDate: shiftDate(move.date, -1),
+          skipDates: rule.skipDates?.filter(date => date < move.date),
+        },
+        moveRule(
+          {
+            ...rule,
+            startDate: move.date,
+            skipDates: rule.skipDates?.filter(date => date >= move.date),
+            // The moved class opens the new rule, so it is in its first (odd) week
+            weekParity: rule.weekParity ? 'odd' : undefined,
+          },
+          move,
+        ),
+      ]
+    : [moveRule(rule, move)];
+
+  const from = splits ? move.date : undefined;
+
+  return {
+    scheduleRules: scheduleRules.flatMap(existing => (existing === rule ? movedRules : [existing])),
+    exceptions: exceptions.map(exception =>
+      belongsToSeries(exception, rule, from)
+        ? {
+            ...exception,
+            date: shiftDate(exception.date, move.dayShift),
+            originalStartTime: exception.originalStartTime ? move.startTime : undefined,
+          }
+        : exception
+    ),
+  };
+}
+
+function moveRule(rule: ScheduleRule, move: SeriesMove): ScheduleRule {
+  return {
+    ...rule,
+    dayOfWeek: (((rule.dayOfWeek + move.dayShift) % 7) + 7) % 7,
+    startTime: move.startTime,
+    endTime: move.endTime,
+    startDate: shiftDate(rule.startDate, move.dayShift),
+    endDate: shiftDate(rule.endDate, move.dayShift),
+    skipDates: rule.skipDates?.map(date => shiftDate(date, move.dayShift)),
+  };
+}
+
+/**
+ * True for a cancel or move exception of one of the rule's classes, on or
+ * after the given date if any
+ */
+function belongsToSeries(exception: SectionException, rule: ScheduleRule, from?: string): boolean {
+  return (
+    exception.type !== 'extra' &&
+    (!from || exception.date >= from) &&
+    (!exception.originalStartTime || exception.originalStartTime === rule.startTime) &&
+    expandScheduleRule(rule, exception.date, exception.date).length > 0
+  );
+}
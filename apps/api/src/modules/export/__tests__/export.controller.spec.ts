@@ -0,0 +1,54 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ExportController } from '../export.controller';
+import { ExportService } from '../export.service';
+import { JwtAuthGuard } from '../../auth/guards/auth.guard';
+
+describe('ExportController', () => {
+  let controller: ExportController;
+  let service: jest.Mocked<ExportService>;
+
+  const mockUserId = 'user-123';
+
+  beforeEach(async () => {
+    const mockService = {
+      exportSchedule: jest.fn(),
+    };
+
+    const mockAuthGuard = {
+      canActivate: jest.fn(() => true),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [ExportController],
+      providers: [
+        {
+          provide: ExportService,
+          useValue: mockService,
+        },
+      ],
+    })
+      .overrideGuard(JwtAuthGuard)
+      .useValue(mockAuthGuard)
+      .compile();
+
+    controller = module.get<ExportController>(ExportController);
+    service = module.get(ExportService);
+  });
+
+  it('should download the export in the user timezone as an attachment', async () => {
+    service.exportSchedule.mockResolvedValue({
+      filename: 'stanlendar.csv',
+      contentType: 'text/csv; charset=utf-8',
+      content: 'Subject,Code\r\n',
+    });
+
+    const file = await controller.export(mockUserId, { format: 'csv', subjectId: 'subject-1' }, 'Asia/Bangkok');
+
+    expect(service.exportSchedule).toHaveBeenCalledWith(mockUserId, { format: 'csv', subjectId: 'subject-1' }, 'Asia/Bangkok');
+    expect(file.getHeaders()).toEqual({
+      type: 'text/csv; charset=utf-8',
+      disposition: 'attachment; filename="stanlendar.csv"',
+      length: 14,
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { ExportService } from '../export.service';
+import { SpotlightService } from '../../spotlight/spotlight.service';
+import { SavedFiltersService } from '../../spotlight/saved-filters.service';
+import { SubjectRepository } from '../../../infra/database/repositories/interfaces/subject-repository.interface';
+import { SectionRepository } from '../../../infra/database/repositories/interfaces/section-repository.interface';
+import { TermRepository } from '../../../infra/database/repositories/interfaces/term-repository.interface';
+import { Subject } from '../../../infra/database/entities/subject.entity';
+import { Section } from '../../../infra/database/entities/section.entity';
+import { Term } from '../../../infra/database/entities/term.entity';
+import { LocalEvent } from '../../../infra/database/entities/local-event.entity';
+
+describe('ExportService', () => {
+  let service: ExportService;
+  let subjectRepository: jest.Mocked<SubjectRepository>;
+  let sectionRepository: jest.Mocked<SectionRepository>;
+  let termRepository: jest.Mocked<TermRepository>;
+  let spotlightService: jest.Mocked<SpotlightService>;
+  let savedFiltersService: jest.Mocked<SavedFiltersService>;
+
+  const mockUserId = 'user-123';
+
+  const mockTerm = {
+    id: '7b0c4a52-2f57-4d0e-a2a4-3f8f6f1f0a01',
+    userId: mockUserId,
+    name: 'Semester 2/2024',
+    startDate: '2024-01-15',
+    endDate: '2024-05-10',
+    blackouts: [],
+  } as Term;
+
+  const math = { id: 'subject-math', userId: mockUserId, code: 'MATH101', name: 'Calculus', colorHex: '#EF4444' } as Subject;
+  const physics = { id: 'subject-physics', userId: mockUserId, code: null, name: 'Physics', colorHex: '#10B981' } as Subject;
+
+  const mathSection = {
+    id: 'section-math',
+    subjectId: math.id,
+    subject: math,
+    secCode: '01',
+    termId: mockTerm.id,
+    term: mockTerm,
+    room: 'Room 101',
+    scheduleRules: [
+      { dayOfWeek: 1, startTime: '09:00', endTime: '10:30', startDate: '2024-01-15', endDate: '2024-02-26' },
+    ],
+    exceptions: [],
+    events: [
+      { id: 'event-1', sectionId: 'section-math', eventDate: '2024-01-15', startTime: '09:00:00', endTime: '10:30:00', notes: 'Quiz', status: 'planned' },
+      { id: 'event-2', sectionId: 'section-math', eventDate: '2024-01-22', startTime: '09:00:00', endTime: '10:30:00', status: 'deleted' },
+    ] as LocalEvent[],
+  } as Section;
+
+  const physicsSection = {
+    id: 'section-physics',
+    subjectId: physics.id,
+    subject: physics,
+    secCode: '02',
+    termId: null,
+    scheduleRules: [
+      { dayOfWeek: 4, startTime: '13:00', endTime: '15:00', startDate: '2024-01-15', endDate: '2024-02-26' },
+    ],
+    exceptions: [],
+    events: [],
+  } as Section;
+
+  const mockFilter = {
+    id: 'filter-1',
+    name: 'Mornings',
+    query: { text: 'Calculus' },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ExportService,
+        {
+          provide: 'SubjectRepository',
+          useValue: { findById: jest.fn(), findByUserId: jest.fn() },
+        },
+        {
+          provide: 'SectionRepository',
+          useValue: { findBySubjectId: jest.fn() },
+        },
+        {
+          provide: 'TermRepository',
+          useValue: { findById: jest.fn(), findByUserId: jest.fn() },
+        },
+        {
+          provide: SpotlightService,
+          useValue: { search: jest.fn() },
+        },
+        {
+          provide: SavedFiltersService,
+          useValue: { getFilter: jest.fn(), getUserSavedFilters: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ExportService>(ExportService);
+    subjectRepository = module.get('SubjectRepository');
+    sectionRepository = module.get('SectionRepository');
+    termRepository = module.get('TermRepository');
+    spotlightService = module.get(SpotlightService);
+    savedFiltersService = module.get(SavedFiltersService);
+
+    subjectRepository.findByUserId.mockResolvedValue([math, physics]);
+    sectionRepository.findBySubjectId.mockImplementation(async subjectId =>
+      [mathSection, physicsSection].filter(section => section.subjectId === subjectId)
+    );
+    termRepository.findByUserId.mockResolvedValue([mockTerm]);
+    savedFiltersService.getUserSavedFilters.mockResolvedValue([mockFilter]);
+  });
+
+  describe('exportSchedule', () => {
+    it('should back up everything with terms, saved filters and live events', async () => {
+      const file = await service.exportSchedule(mockUserId, { format: 'json' }, 'Asia/Bangkok');
+      const backup = JSON.parse(file.content);
+
+      expect(file.filename).toBe('stanlendar.json');
+      expect(file.contentType).toBe('application/json; charset=utf-8');
+      expect(backup).toEqual(expect.objectContaining({
+        version: 1,
+        timezone: 'Asia/Bangkok',
+        terms: [{ id: mockTerm.id, name: 'Semester 2/2024', startDate: '2024-01-15', endDate: '2024-05-10', blackouts: [] }],
+        savedFilters: [mockFilter],
+      }));
+      expect(backup.subjects.map((subject: any) => [subject.name, subject.sections.map((section: any) => section.secCode)])).toEqual([
+        ['Calculus', ['01']],
+        ['Physics', ['02']],
+      ]);
+      expect(backup.events).toEqual([
+        expect.objectContaining({ id: 'event-1', startTime: '09:00', notes: 'Quiz', titleOverride: null }),
+      ]);
+    });
+
+    it('should export the sections of a term as a calendar named after it', async () => {
+      termRepository.findById.mockResolvedValue(mockTerm);
+
+      const file = await service.exportSchedule(mockUserId, { format: 'ics', termId: mockTerm.id }, 'Asia/Bangkok');
+
+      expect(file.filename).toBe('stanlendar-semester-2-2024.ics');
+      expect(file.contentType).toBe('text/calendar; charset=utf-8');
+      expect(file.content).toContain('X-WR-CALNAME:Semester 2/2024');
+      expect(file.content).toContain('UID:section-math-0@stanlendar');
+      expect(file.content).not.toContain('section-physics');
+    });
+
+    it('should export the sections a saved filter matches as CSV', async () => {
+      savedFiltersService.getFilter.mockResolvedValue(mockFilter);
+      spotlightService.search.mockResolvedValue({ events: [{ sectionId: 'section-math' }] } as any);
+
+      const file = await service.exportSchedule(mockUserId, { format: 'csv', filterId: mockFilter.id });
+
+      expect(spotlightService.search).toHaveBeenCalledWith({ userId: mockUserId, query: mockFilter.query, includeRelations: false });
+      expect(file.filename).toBe('stanlendar-mornings.csv');
+      expect(file.content.split('\r\n').slice(1, -1)).toEqual([
+        'Calculus,MATH101,01,,weekly,MO,09:00,10:30,2024-01-15,2024-02-26,,,,Room 101',
+      ]);
+    });
+
+    it('should not export a subject of another user', async () => {
+      subjectRepository.findById.mockResolvedValue({ ...math, userId: 'other-user' } as Subject);
+
+      await expect(service.exportSchedule(mockUserId, { format: 'csv', subjectId: math.id }))
+        .rejects.toThrow(NotFoundException);
+    });
+  });
+});
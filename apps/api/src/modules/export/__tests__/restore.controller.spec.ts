@@ -0,0 +1,54 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { RestoreController } from '../restore.controller';
+import { RestoreService } from '../restore.service';
+import { JwtAuthGuard } from '../../auth/guards/auth.guard';
+
+describe('RestoreController', () => {
+  let controller: RestoreController;
+  let service: jest.Mocked<RestoreService>;
+
+  const mockUserId = 'user-123';
+
+  beforeEach(async () => {
+    const mockService = {
+      restore: jest.fn(),
+    };
+
+    const mockAuthGuard = {
+      canActivate: jest.fn(() => true),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [RestoreController],
+      providers: [
+        {
+          provide: RestoreService,
+          useValue: mockService,
+        },
+      ],
+    })
+      .overrideGuard(JwtAuthGuard)
+      .useValue(mockAuthGuard)
+      .compile();
+
+    controller = module.get<RestoreController>(RestoreController);
+    service = module.get(RestoreService);
+  });
+
+  it('should restore the uploaded backup in the user timezone', async () => {
+    const report = { mode: 'merge', dryRun: true } as any;
+    service.restore.mockResolvedValue(report);
+    const file = { buffer: Buffer.from('{"version":1}') } as Express.Multer.File;
+
+    const result = await controller.restore(mockUserId, file, { mode: 'merge', dryRun: true }, 'Asia/Bangkok');
+
+    expect(service.restore).toHaveBeenCalledWith(mockUserId, '{"version":1}', { mode: 'merge', dryRun: true }, 'Asia/Bangkok');
+    expect(result).toBe(report);
+  });
+
+  it('should require a file', async () => {
+    await expect(controller.restore(mockUserId, undefined as any, { mode: 'merge' }, 'Asia/Bangkok'))
+      .rejects.toThrow(BadRequestException);
+  });
+});
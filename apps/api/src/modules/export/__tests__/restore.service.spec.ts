@@ -0,0 +1,332 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { RestoreService } from '../restore.service';
+import { UnitOfWork, TransactionRepositories } from '../../../infra/database/repositories/unit-of-work';
+import { CalendarSyncService } from '../../google-calendar/calendar-sync.service';
+import { Subject } from '../../../infra/database/entities/subject.entity';
+import { Section } from '../../../infra/database/entities/section.entity';
+import { Term } from '../../../infra/database/entities/term.entity';
+import { LocalEvent } from '../../../infra/database/entities/local-event.entity';
+import { SavedFilter } from '../../../infra/database/entities/saved-filter.entity';
+import { CalendarFeed } from '../../../infra/database/entities/calendar-feed.entity';
+
+describe('RestoreService', () => {
+  let service: RestoreService;
+  let unitOfWork: jest.Mocked<UnitOfWork>;
+  let calendarSyncService: { removeDeletedEvents: jest.Mock };
+  let repositories: { [K in keyof TransactionRepositories]: jest.Mocked<TransactionRepositories[K]> };
+
+  const mockUserId = 'user-123';
+
+  const backup = {
+    version: 1,
+    exportedAt: '2024-01-01T00:00:00.000Z',
+    timezone: 'Asia/Bangkok',
+    terms: [
+      { id: 'old-term', name: 'Semester 2/2024', startDate: '2024-01-15', endDate: '2024-05-10', blackouts: [] },
+    ],
+    subjects: [
+      {
+        id: 'old-subject',
+        code: 'CS101',
+        name: 'Computer Science',
+        colorHex: '#3B82F6',
+        meta: { reminderSettings: { enabled: true, minutes: 30, method: 'popup' } },
+        sections: [
+          {
+            id: 'old-section-1',
+            secCode: '01',
+            termId: 'old-term',
+            teacher: 'Dr. Smith',
+            room: 'Room 101',
+            scheduleRules: [{ dayOfWeek: 1, startTime: '09:00', endTime: '10:30', startDate: '2024-01-15', endDate: '2024-05-10' }],
+            exceptions: [],
+          },
+          {
+            id: 'old-section-2',
+            secCode: '02',
+            termId: 'old-term',
+            teacher: null,
+            room: 'Lab 2',
+            scheduleRules: [{ dayOfWeek: 3, startTime: '13:00', endTime: '15:00', startDate: '2024-01-15', endDate: '2024-05-10' }],
+            exceptions: [{ id: 'move-1', type: 'move', date: '2024-01-17', newDate: '2024-01-18', startTime: '13:00', endTime: '15:00' }],
+          },
+        ],
+      },
+    ],
+    events: [
+      { id: 'old-event-1', sectionId: 'old-section-1', eventDate: '2024-01-15', startTime: '09:00', endTime: '10:30', room: null, exceptionId: null, exceptionType: null, originalDate: null, titleOverride: null, notes: null },
+      { id: 'old-event-2', sectionId: 'old-section-2', eventDate: '2024-01-18', startTime: '13:00', endTime: '15:00', room: null, exceptionId: 'move-1', exceptionType: 'moved', originalDate: '2024-01-17', titleOverride: null, notes: 'Bring laptops' },
+    ],
+    savedFilters: [
+      { id: 'old-filter', name: 'Labs', query: { subjectIds: ['old-subject'], sectionIds: ['old-section-2', 'gone-section'] } },
+    ],
+  };
+
+  const existingTerm = { id: 'term-1', userId: mockUserId, name: 'Semester 2/2024' } as Term;
+  const existingSubject = { id: 'subject-1', userId: mockUserId, code: 'CS101', name: 'Computer Science', sections: [{ id: 'section-1' }] } as Subject;
+  const existingSection = { id: 'section-1', subjectId: 'subject-1', secCode: '01' } as Section;
+
+  beforeEach(async () => {
+    let nextId = 0;
+    const creates = () => jest.fn(async (data: any) => ({ id: `new-${++nextId}`, ...data }));
+
+    repositories = {
+      subjects: { findByUserId: jest.fn(), create: creates(), delete: jest.fn() },
+      sections: { findBySubjectId: jest.fn(), create: creates() },
+      terms: { findByUserId: jest.fn(), create: creates(), delete: jest.fn() },
+      localEvents: { findByUserId: jest.fn(), create: creates() },
+      savedFilters: { findByUserId: jest.fn(), create: creates(), delete: jest.fn() },
+      calendarFeeds: { findByUserId: jest.fn().mockResolvedValue([]), update: jest.fn(), delete: jest.fn() },
+    } as any;
+    calendarSyncService = { removeDeletedEvents: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RestoreService,
+        {
+          provide: UnitOfWork,
+          useValue: { run: jest.fn(work => work(repositories)) },
+        },
+        { provide: CalendarSyncService, useValue: calendarSyncService },
+      ],
+    }).compile();
+
+    service = module.get<RestoreService>(RestoreService);
+    unitOfWork = module.get(UnitOfWork);
+
+    repositories.terms.findByUserId.mockResolvedValue([existingTerm]);
+    repositories.subjects.findByUserId.mockResolvedValue([existingSubject]);
+    repositories.sections.findBySubjectId.mockResolvedValue([existingSection]);
+    repositories.savedFilters.findByUserId.mockResolvedValue([]);
+    repositories.localEvents.findByUserId.mockResolvedValue([]);
+  });
+
+  describe('restore', () => {
+    it('should merge what the workspace does not have, with remapped IDs', async () => {
+      const report = await service.restore(mockUserId, JSON.stringify(backup), { mode: 'merge' }, 'Asia/Bangkok');
+
+      expect(unitOfWork.run).toHaveBeenCalledTimes(1);
+      expect(repositories.terms.create).not.toHaveBeenCalled();
+      expect(repositories.subjects.create).not.toHaveBeenCalled();
+      expect(repositories.sections.create).toHaveBeenCalledTimes(1);
+      expect(repositories.sections.create).toHaveBeenCalledWith(expect.objectContaining({
+        subjectId: 'subject-1',
+        secCode: '02',
+        termId: 'term-1',
+        room: 'Lab 2',
+      }));
+      const section: Section = await repositories.sections.create.mock.results[0].value;
+      expect(repositories.localEvents.create).toHaveBeenCalledTimes(1);
+      expect(repositories.localEvents.create).toHaveBeenCalledWith(expect.objectContaining({
+        userId: mockUserId,
+        subjectId: 'subject-1',
+        sectionId: section.id,
+        eventDate: '2024-01-18',
+        exceptionId: 'move-1',
+        exceptionType: 'moved',
+        originalDate: '2024-01-17',
+        notes: 'Bring laptops',
+        status: 'planned',
+      }));
+      expect(repositories.savedFilters.create).toHaveBeenCalledWith({
+        userId: mockUserId,
+        name: 'Labs',
+        query: { subjectIds: ['subject-1'], sectionIds: [section.id] },
+      });
+      expect(report).toEqual({
+        mode: 'merge',
+        dryRun: false,
+        terms: { created: 0, matched: 1, deleted: 0 },
+        subjects: { created: 0, matched: 1, deleted: 0 },
+        sections: { created: 1, matched: 1, deleted: 0 },
+        events: { created: 1, matched: 1, deleted: 0 },
+        savedFilters: { created: 1, matched: 0, deleted: 0 },
+        feeds: { repointed: 0, deleted: 0 },
+        googleEventsDeleted: 0,
+        warnings: ['Saved filter "Labs" refers to subjects or sections that are not in the backup'],
+      });
+    });
+
+    it('should replace the workspace with everything in the backup', async () => {
+      repositories.savedFilters.findByUserId.mockResolvedValue([{ id: 'filter-1', name: 'Labs' } as SavedFilter]);
+      repositories.localEvents.findByUserId.mockResolvedValue([
+        { id: 'event-2', status: 'planned' },
+      ] as LocalEvent[]);
+
+      const report = await service.restore(mockUserId, JSON.stringify(backup), { mode: 'replace' }, 'Europe/London');
+
+      expect(repositories.subjects.delete).toHaveBeenCalledWith('subject-1');
+      expect(repositories.terms.delete).toHaveBeenCalledWith('term-1');
+      expect(repositories.savedFilters.delete).toHaveBeenCalledWith('filter-1');
+      expect(repositories.subjects.create).toHaveBeenCalledWith({
+        userId: mockUserId,
+        code: 'CS101',
+        name: 'Computer Science',
+        colorHex: '#3B82F6',
+        meta: { reminderSettings: { enabled: true, minutes: 30, method: 'popup' } },
+      });
+      expect(repositories.sections.create).toHaveBeenCalledTimes(2);
+      expect(repositories.localEvents.create).toHaveBeenCalledTimes(2);
+      expect(report).toEqual(expect.objectContaining({
+        terms: { created: 1, matched: 0, deleted: 1 },
+        subjects: { created: 1, matched: 0, deleted: 1 },
+        sections: { created: 2, matched: 0, deleted: 1 },
+        events: { created: 2, matched: 0, deleted: 1 },
+        savedFilters: { created: 1, matched: 0, deleted: 1 },
+      }));
+      expect(calendarSyncService.removeDeletedEvents).not.toHaveBeenCalled();
+      expect(report.warnings).toEqual([
+        'Saved filter "Labs" refers to subjects or sections that are not in the backup',
+        'The backup was made in Asia/Bangkok; classes keep their times in your timezone, Europe/London',
+      ]);
+    });
+
+    it('should remove replaced synced classes from Google Calendar once the restore commits', async () => {
+      const syncedEvents = [
+        { id: 'event-1', status: 'synced', gcalEventId: 'gcal-1', eventDate: '2024-01-22' },
+        { id: 'event-3', status: 'deleted', gcalEventId: 'gcal-3', eventDate: '2024-01-15' },
+      ] as LocalEvent[];
+      repositories.localEvents.findByUserId.mockResolvedValue([
+        ...syncedEvents,
+        { id: 'event-2', status: 'planned', eventDate: '2024-01-17' } as LocalEvent,
+      ]);
+      let committed = false;
+      unitOfWork.run.mockImplementation(async work => {
+        const result = await work(repositories as any);
+        committed = true;
+        return result;
+      });
+      calendarSyncService.removeDeletedEvents.mockImplementation(async () => {
+        expect(committed).toBe(true);
+        return { summary: { created: 0, updated: 0, deleted: 2, skipped: 0, failed: 0 } };
+      });
+
+      const report = await service.restore(mockUserId, JSON.stringify(backup), { mode: 'replace' }, 'Asia/Bangkok');
+
+      expect(calendarSyncService.removeDeletedEvents).toHaveBeenCalledTimes(1);
+      expect(calendarSyncService.removeDeletedEvents).toHaveBeenCalledWith(mockUserId, syncedEvents);
+      // The restored copies are the only ones left to push
+      expect(repositories.localEvents.create).toHaveBeenCalledTimes(2);
+      repositories.localEvents.create.mock.calls.forEach(([event]) => {
+        expect(event.status).toBe('planned');
+        expect(event.gcalEventId).toBeUndefined();
+      });
+      expect(report.events).toEqual({ created: 2, matched: 0, deleted: 2 });
+      expect(report.googleEventsDeleted).toBe(2);
+      expect(report.warnings).not.toContainEqual(expect.stringContaining('Google Calendar'));
+    });
+
+    it('should leave synced classes in place when the restore fails', async () => {
+      repositories.localEvents.findByUserId.mockResolvedValue([
+        { id: 'event-1', status: 'synced', gcalEventId: 'gcal-1', eventDate: '2024-01-22' },
+      ] as LocalEvent[]);
+      repositories.sections.create.mockRejectedValue(new Error('duplicate key value violates unique constraint'));
+
+      await expect(service.restore(mockUserId, JSON.stringify(backup), { mode: 'replace' })).rejects.toThrow(
+        'duplicate key value violates unique constraint',
+      );
+      expect(calendarSyncService.removeDeletedEvents).not.toHaveBeenCalled();
+    });
+
+    it('should warn about replaced classes that could not be removed from Google Calendar', async () => {
+      repositories.localEvents.findByUserId.mockResolvedValue([
+        { id: 'event-1', status: 'synced', gcalEventId: 'gcal-1', eventDate: '2024-01-22' },
+      ] as LocalEvent[]);
+      calendarSyncService.removeDeletedEvents.mockResolvedValue({
+        summary: { created: 0, updated: 0, deleted: 0, skipped: 0, failed: 1 },
+      });
+
+      const report = await service.restore(mockUserId, JSON.stringify(backup), { mode: 'replace' }, 'Asia/Bangkok');
+
+      expect(report.subjects.created).toBe(1);
+      expect(report.googleEventsDeleted).toBe(0);
+      expect(report.warnings).toContain('1 replaced classes could not be removed from Google Calendar; delete them there');
+    });
+
+    it('should only count the synced classes a dry run of a replace would remove', async () => {
+      repositories.localEvents.findByUserId.mockResolvedValue([
+        { id: 'event-1', status: 'synced', gcalEventId: 'gcal-1' },
+      ] as LocalEvent[]);
+
+      const report = await service.restore(mockUserId, JSON.stringify(backup), { mode: 'replace', dryRun: true });
+
+      expect(calendarSyncService.removeDeletedEvents).not.toHaveBeenCalled();
+      expect(report.events.deleted).toBe(1);
+      expect(report.googleEventsDeleted).toBe(1);
+    });
+
+    it('should keep the feeds of replaced saved filters that the backup restores', async () => {
+      repositories.savedFilters.findByUserId.mockResolvedValue([
+        { id: 'filter-1', name: 'Labs' },
+        { id: 'filter-2', name: 'Lectures' },
+      ] as SavedFilter[]);
+      repositories.calendarFeeds.findByUserId.mockResolvedValue([
+        { id: 'feed-1', name: 'Lab feed', savedFilterId: 'filter-1' },
+        { id: 'feed-2', name: 'Lecture feed', savedFilterId: 'filter-2' },
+        { id: 'feed-3', name: 'Everything', savedFilterId: null },
+      ] as CalendarFeed[]);
+
+      const report = await service.restore(mockUserId, JSON.stringify(backup), { mode: 'replace' }, 'Asia/Bangkok');
+
+      const restoredFilter = await repositories.savedFilters.create.mock.results[0].value;
+      expect(repositories.calendarFeeds.findByUserId).toHaveBeenCalledWith(mockUserId);
+      // Unlinked before the filters are deleted, so the cascade leaves them
+      expect(repositories.calendarFeeds.update.mock.invocationCallOrder[0])
+        .toBeLessThan(repositories.savedFilters.delete.mock.invocationCallOrder[0]);
+      expect(repositories.calendarFeeds.update.mock.calls).toEqual([
+        ['feed-1', { savedFilterId: null }],
+        ['feed-2', { savedFilterId: null }],
+        ['feed-1', { savedFilterId: restoredFilter.id }],
+      ]);
+      expect(repositories.calendarFeeds.delete).toHaveBeenCalledTimes(1);
+      expect(repositories.calendarFeeds.delete).toHaveBeenCalledWith('feed-2');
+      expect(report.feeds).toEqual({ repointed: 1, deleted: 1 });
+      expect(report.warnings).toContain(
+        'Calendar feed "Lecture feed" was deleted with saved filter "Lectures", which is not in the backup; its URL no longer works',
+      );
+    });
+
+    it('should report a dry run by rolling back its transaction', async () => {
+      let outcome: Promise<unknown> | undefined;
+      unitOfWork.run.mockImplementation(work => {
+        outcome = work(repositories as any);
+        return outcome as any;
+      });
+
+      const report = await service.restore(mockUserId, JSON.stringify(backup), { mode: 'merge', dryRun: true }, 'Asia/Bangkok');
+
+      expect(report.dryRun).toBe(true);
+      expect(report.sections.created).toBe(1);
+      await expect(outcome).rejects.toThrow('Dry run');
+    });
+
+    it('should reject a backup whose records refer to missing ones', async () => {
+      const broken = { ...backup, events: [{ ...backup.events[0], sectionId: 'missing-section' }] };
+
+      await expect(service.restore(mockUserId, JSON.stringify(broken), { mode: 'merge' })).rejects.toThrow(
+        new BadRequestException(
+          "The backup is not valid: Event 'old-event-1' refers to section 'missing-section', which is not in the backup",
+        ),
+      );
+      expect(unitOfWork.run).not.toHaveBeenCalled();
+    });
+
+    it('should reject a backup with invalid records', async () => {
+      const broken = { ...backup, terms: [{ ...backup.terms[0], startDate: 'soon' }] };
+
+      await expect(service.restore(mockUserId, JSON.stringify(broken), { mode: 'merge' })).rejects.toThrow(
+        'The backup is not valid: terms.0.startDate: Term start date must be a valid ISO date string (YYYY-MM-DD)',
+      );
+    });
+
+    it('should reject files that are not a backup it can read', async () => {
+      await expect(service.restore(mockUserId, 'Subject,Code', { mode: 'merge' }))
+        .rejects.toThrow('The backup is not a JSON file');
+      await expect(service.restore(mockUserId, 'null', { mode: 'merge' }))
+        .rejects.toThrow('The backup version is not supported; backups up to version 1 can be restored');
+      await expect(service.restore(mockUserId, JSON.stringify({ ...backup, version: 2 }), { mode: 'merge' }))
+        .rejects.toThrow('The backup version is not supported; backups up to version 1 can be restored');
+    });
+  });
+});
@@ -0,0 +1,197 @@
+import { toICalendar, toEventCalendar, toScheduleCsv } from '../schedule-export';
+import * as timezoneUtils from '../../../common/utils/timezone';
+import { Section } from '../../../infra/database/entities/section.entity';
+import { Subject } from '../../../infra/database/entities/subject.entity';
+import { LocalEvent } from '../../../infra/database/entities/local-event.entity';
+import { parseICalendar, toImportRows } from '../../import/services/ics-calendar';
+
+describe('schedule-export', () => {
+  const subject = { id: 'subject-1', code: 'CS101', name: 'Computer Science', colorHex: '#3B82F6' } as Subject;
+
+  // Mondays and Wednesdays 09:00-10:30 from 2024-01-15 to 2024-02-28
+  const section = {
+    id: 'section-1',
+    subjectId: 'subject-1',
+    secCode: '01',
+    teacher: 'Dr. Smith',
+    room: 'Room 101',
+    subject,
+    term: {
+      id: 'term-1',
+      name: 'Semester 2/2024',
+      startDate: '2024-01-15',
+      endDate: '2024-05-10',
+      blackouts: [{ name: 'Reading week', kind: 'reading_week', startDate: '2024-02-19', endDate: '2024-02-23' }],
+    },
+    scheduleRules: [
+      { dayOfWeek: 1, startTime: '09:00', endTime: '10:30', startDate: '2024-01-15', endDate: '2024-02-28', skipDates: ['2024-01-29'] },
+      { dayOfWeek: 3, startTime: '09:00', endTime: '10:30', startDate: '2024-01-15', endDate: '2024-02-28' },
+    ],
+    exceptions: [
+      { id: 'cancel-1', type: 'cancel', date: '2024-01-24' },
+      { id: 'move-1', type: 'move', date: '2024-02-05', originalStartTime: '09:00', newDate: '2024-02-06', startTime: '13:00', endTime: '14:30', room: 'Lab 2' },
+      { id: 'extra-1', type: 'extra', date: '2024-03-02', startTime: '13:00', endTime: '16:00' },
+    ],
+    events: [
+      { id: 'event-1', sectionId: 'section-1', eventDate: '2024-01-17', startTime: '09:00:00', endTime: '10:30:00', titleOverride: 'CS101 Midterm review', status: 'planned' },
+      { id: 'event-2', sectionId: 'section-1', eventDate: '2024-02-06', startTime: '13:00:00', endTime: '14:30:00', exceptionId: 'move-1', exceptionType: 'moved', originalDate: '2024-02-05', notes: 'Bring laptops', status: 'planned' },
+    ] as LocalEvent[],
+  } as unknown as Section;
+
+  const now = new Date('2024-01-01T00:00:00Z');
+
+  describe('toICalendar', () => {
+    const ics = toICalendar([section], { name: 'CS101', timezone: 'Asia/Bangkok', now }).replace(/\r\n /g, '');
+    const lines = ics.split('\r\n');
+
+    it('should write one recurring event per rule with its skipped classes', () => {
+      expect(lines.slice(0, 7)).toEqual([
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//Stanlendar//Schedule Export//EN',
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        'X-WR-CALNAME:CS101',
+        'X-WR-TIMEZONE:Asia/Bangkok',
+      ]);
+      expect(ics).toContain([
+        'BEGIN:VEVENT',
+        'UID:section-1-0@stanlendar',
+        'DTSTAMP:20240101T000000Z',
+        'DTSTART;TZID=Asia/Bangkok:20240115T090000',
+        'DTEND;TZID=Asia/Bangkok:20240115T103000',
+        'RRULE:FREQ=WEEKLY;INTERVAL=1;BYDAY=MO;UNTIL=20240226T165959Z',
+        'EXDATE;TZID=Asia/Bangkok:20240129T090000,20240219T090000',
+        'SUMMARY:CS101 Computer Science (01)',
+        'LOCATION:Room 101',
+        'DESCRIPTION:Teacher: Dr. Smith',
+        'END:VEVENT',
+      ].join('\r\n'));
+      expect(ics).toContain('EXDATE;TZID=Asia/Bangkok:20240124T090000,20240221T090000');
+      expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    });
+
+    it('should write moved and edited classes as overrides and extra sessions on their own', () => {
+      expect(ics).toContain([
+        'UID:section-1-0@stanlendar',
+        'DTSTAMP:20240101T000000Z',
+        'DTSTART;TZID=Asia/Bangkok:20240206T130000',
+        'DTEND;TZID=Asia/Bangkok:20240206T143000',
+        'RECURRENCE-ID;TZID=Asia/Bangkok:20240205T090000',
+        'SUMMARY:CS101 Computer Science (01)',
+        'LOCATION:Lab 2',
+        'DESCRIPTION:Teacher: Dr. Smith\\nRescheduled from 2024-02-05 09:00\\nBring laptops',
+      ].join('\r\n'));
+      expect(ics).toContain('RECURRENCE-ID;TZID=Asia/Bangkok:20240117T090000\r\nSUMMARY:CS101 Midterm review');
+      expect(ics).toContain('UID:section-1-extra-1@stanlendar');
+      expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(5);
+    });
+
+    it('should describe the timezone and its daylight saving changes', () => {
+      expect(ics).toContain('BEGIN:VTIMEZONE\r\nTZID:Asia/Bangkok\r\nBEGIN:STANDARD\r\nDTSTART:20240101T000000\r\nTZOFFSETFROM:+0700\r\nTZOFFSETTO:+0700');
+
+      const london = toICalendar([section], { name: 'CS101', timezone: 'Europe/London', now });
+      expect(london).toContain([
+        'BEGIN:DAYLIGHT',
+        'DTSTART:20240331T010000',
+        'TZOFFSETFROM:+0000',
+        'TZOFFSETTO:+0100',
+        'END:DAYLIGHT',
+        'BEGIN:STANDARD',
+        'DTSTART:20241027T020000',
+        'TZOFFSETFROM:+0100',
+        'TZOFFSETTO:+0000',
+      ].join('\r\n'));
+    });
+
+    it('should scan a timezone\'s year for offset changes only once', () => {
+      toICalendar([section], { name: 'CS101', timezone: 'America/New_York', now });
+      const getTimeZoneOffset = jest.spyOn(timezoneUtils, 'getTimeZoneOffset');
+
+      const again = toICalendar([section], { name: 'CS101', timezone: 'America/New_York', now });
+
+      expect(again).toContain('DTSTART:20240310T020000\r\nTZOFFSETFROM:-0500\r\nTZOFFSETTO:-0400');
+      // Only the offset at the start of the year is read again
+      expect(getTimeZoneOffset).toHaveBeenCalledTimes(1);
+      getTimeZoneOffset.mockRestore();
+    });
+
+    it('should fold long lines and read back into the same classes', () => {
+      const notes = 'Bring laptops, chargers and the printed lab sheet; the room has no spare power sockets';
+      const folded = toICalendar(
+        [{ ...section, events: [{ ...section.events[1], notes }] } as Section],
+        { name: 'CS101', timezone: 'Asia/Bangkok', now },
+      );
+
+      expect(folded.split('\r\n').every(line => Buffer.byteLength(line) <= 75)).toBe(true);
+
+      const { events, errors } = parseICalendar(folded, 'Asia/Bangkok');
+      expect(errors).toEqual([]);
+      const { rows } = toImportRows(events);
+      expect(rows.filter(row => row['Repeats'] === 'weekly').map(row => row['Skip Dates'])).toEqual([
+        '2024-01-29,2024-02-05,2024-02-19',
+        '2024-01-24,2024-02-21',
+      ]);
+    });
+  });
+
+  describe('toEventCalendar', () => {
+    it('should write each live event on its own as it is on the calendar', () => {
+      const events = [
+        ...section.events,
+        { id: 'event-3', sectionId: 'section-1', eventDate: '2024-01-22', startTime: '09:00:00', endTime: '10:30:00', status: 'deleted' },
+      ].map(event => ({ ...event, subject, section })) as LocalEvent[];
+
+      const ics = toEventCalendar(events, { name: 'Labs', timezone: 'Asia/Bangkok', now }).replace(/\r\n /g, '');
+
+      expect(ics).toContain('X-WR-CALNAME:Labs');
+      expect(ics).toContain([
+        'BEGIN:VEVENT',
+        'UID:event-1@stanlendar',
+        'DTSTAMP:20240101T000000Z',
+        'DTSTART;TZID=Asia/Bangkok:20240117T090000',
+        'DTEND;TZID=Asia/Bangkok:20240117T103000',
+        'SUMMARY:CS101 Midterm review',
+        'LOCATION:Room 101',
+        'DESCRIPTION:Teacher: Dr. Smith',
+        'END:VEVENT',
+      ].join('\r\n'));
+      expect(ics).toContain([
+        'UID:event-2@stanlendar',
+        'DTSTAMP:20240101T000000Z',
+        'DTSTART;TZID=Asia/Bangkok:20240206T130000',
+        'DTEND;TZID=Asia/Bangkok:20240206T143000',
+        'SUMMARY:CS101 Computer Science (01)',
+        'LOCATION:Lab 2',
+        'DESCRIPTION:Teacher: Dr. Smith\\nRescheduled from 2024-02-05 09:00\\nBring laptops',
+      ].join('\r\n'));
+      expect(ics).not.toContain('event-3');
+      expect(ics).not.toContain('RRULE');
+    });
+  });
+
+  describe('toScheduleCsv', () => {
+    it('should write rules with their skipped classes and moved classes and extra sessions once', () => {
+      expect(toScheduleCsv([section]).split('\r\n')).toEqual([
+        'Subject,Code,Section,Teacher,Repeats,Days,Start Time,End Time,Start Date,End Date,Interval,Week of Month,Skip Dates,Room',
+        'Computer Science,CS101,01,Dr. Smith,weekly,MO,09:00,10:30,2024-01-15,2024-02-28,,,"2024-01-29,2024-02-05,2024-02-19",Room 101',
+        'Computer Science,CS101,01,Dr. Smith,weekly,WE,09:00,10:30,2024-01-15,2024-02-28,,,"2024-01-24,2024-02-21",Room 101',
+        'Computer Science,CS101,01,Dr. Smith,once,TU,13:00,14:30,2024-02-06,2024-02-06,,,,Lab 2',
+        'Computer Science,CS101,01,Dr. Smith,once,SA,13:00,16:00,2024-03-02,2024-03-02,,,,Room 101',
+        '',
+      ]);
+    });
+
+    it('should start alternate weeks at the first class', () => {
+      const alternate = {
+        ...section,
+        exceptions: [],
+        scheduleRules: [{ dayOfWeek: 4, startTime: '13:00', endTime: '14:30', startDate: '2024-01-15', endDate: '2024-02-28', weekParity: 'even' }],
+      } as unknown as Section;
+
+      const [, row] = toScheduleCsv([alternate]).split('\r\n');
+
+      expect(row).toBe('Computer Science,CS101,01,Dr. Smith,weekly,TH,13:00,14:30,2024-01-25,2024-02-28,2,,2024-02-22,Room 101');
+    });
+  });
+});
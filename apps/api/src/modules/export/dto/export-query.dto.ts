@@ -0,0 +1,23 @@
+import { IsIn, IsOptional, IsUUID } from 'class-validator';
+
+export type ExportFormat = 'ics' | 'csv' | 'json';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['ics', 'csv', 'json'];
+
+export class ExportQueryDto {
+  @IsIn(EXPORT_FORMATS, { message: `Format must be one of: ${EXPORT_FORMATS.join(', ')}` })
+  format: ExportFormat;
+
+  // Scopes narrow the export together; without any it covers every subject
+  @IsOptional()
+  @IsUUID()
+  subjectId?: string;
+
+  @IsOptional()
+  @IsUUID()
+  termId?: string;
+
+  @IsOptional()
+  @IsUUID()
+  filterId?: string;
+}
@@ -0,0 +1,216 @@
+import {
+  IsArray,
+  IsDateString,
+  IsHexColor,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ScheduleRuleDto } from '../../sections/dto/schedule-rule.dto';
+import { CreateSectionExceptionDto } from '../../sections/dto/create-section-exception.dto';
+import { TermBlackoutDto } from '../../terms/dto/create-term.dto';
+import { SpotlightQuery } from '../../spotlight/interfaces/spotlight.interface';
+
+export type RestoreMode = 'merge' | 'replace';
+
+export const RESTORE_MODES: RestoreMode[] = ['merge', 'replace'];
+
+/**
+ * Form fields sent with the uploaded backup file
+ */
+export class RestoreBackupDto {
+  // Merge adds what is missing to the workspace; replace deletes it first
+  @IsIn(RESTORE_MODES, { message: `Mode must be one of: ${RESTORE_MODES.join(', ')}` })
+  mode: RestoreMode;
+
+  // Reports what the restore would do without keeping any of it
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  dryRun?: boolean;
+}
+
+// Records of the archive, validated as written by toScheduleBackup
+
+export class BackupTermDto {
+  @IsString()
+  @IsNotEmpty()
+  id: string;
+
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @IsDateString({}, { message: 'Term start date must be a valid ISO date string (YYYY-MM-DD)' })
+  startDate: string;
+
+  @IsDateString({}, { message: 'Term end date must be a valid ISO date string (YYYY-MM-DD)' })
+  endDate: string;
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => TermBlackoutDto)
+  blackouts: TermBlackoutDto[];
+}
+
+export class BackupSectionExceptionDto extends CreateSectionExceptionDto {
+  @IsString()
+  @IsNotEmpty()
+  id: string;
+}
+
+export class BackupSectionDto {
+  @IsString()
+  @IsNotEmpty()
+  id: string;
+
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(20)
+  secCode: string;
+
+  @IsOptional()
+  @IsString()
+  termId: string | null;
+
+  @IsOptional()
+  @IsString()
+  teacher: string | null;
+
+  @IsOptional()
+  @IsString()
+  room: string | null;
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ScheduleRuleDto)
+  scheduleRules: ScheduleRuleDto[];
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => BackupSectionExceptionDto)
+  exceptions: BackupSectionExceptionDto[];
+}
+
+export class BackupSubjectDto {
+  @IsString()
+  @IsNotEmpty()
+  id: string;
+
+  @IsOptional()
+  @IsString()
+  code: string | null;
+
+  @IsNotEmpty()
+  @IsString()
+  name: string;
+
+  @IsHexColor()
+  colorHex: string;
+
+  // Holds the subject's reminder settings among others
+  @IsOptional()
+  @IsObject()
+  meta: Record<string, any> | null;
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => BackupSectionDto)
+  sections: BackupSectionDto[];
+}
+
+export class BackupEventDto {
+  @IsString()
+  @IsNotEmpty()
+  id: string;
+
+  @IsString()
+  @IsNotEmpty()
+  sectionId: string;
+
+  @IsDateString({}, { message: 'Event date must be a valid ISO date string (YYYY-MM-DD)' })
+  eventDate: string;
+
+  @Matches(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/, { message: 'Start time must be in HH:MM format' })
+  startTime: string;
+
+  @Matches(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/, { message: 'End time must be in HH:MM format' })
+  endTime: string;
+
+  @IsOptional()
+  @IsString()
+  room: string | null;
+
+  @IsOptional()
+  @IsString()
+  exceptionId: string | null;
+
+  @IsOptional()
+  @IsIn(['moved', 'extra'])
+  exceptionType: 'moved' | 'extra' | null;
+
+  @IsOptional()
+  @IsDateString()
+  originalDate: string | null;
+
+  @IsOptional()
+  @IsString()
+  titleOverride: string | null;
+
+  @IsOptional()
+  @IsString()
+  notes: string | null;
+}
+
+export class BackupSavedFilterDto {
+  @IsString()
+  @IsNotEmpty()
+  id: string;
+
+  @IsNotEmpty()
+  @IsString()
+  name: string;
+
+  @IsObject()
+  query: SpotlightQuery;
+}
+
+export class ScheduleBackupDto {
+  @IsInt()
+  version: number;
+
+  @IsOptional()
+  @IsString()
+  exportedAt: string;
+
+  @IsOptional()
+  @IsString()
+  timezone: string;
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => BackupTermDto)
+  terms: BackupTermDto[];
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => BackupSubjectDto)
+  subjects: BackupSubjectDto[];
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => BackupEventDto)
+  events: BackupEventDto[];
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => BackupSavedFilterDto)
+  savedFilters: BackupSavedFilterDto[];
+}
@@ -0,0 +1,28 @@
+import { Controller, Get, Query, UseGuards, StreamableFile } from '@nestjs/common';
+import { ExportService } from './export.service';
+import { ExportQueryDto } from './dto/export-query.dto';
+import { JwtAuthGuard } from '../auth/guards/auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+@Controller('export')
+@UseGuards(JwtAuthGuard)
+export class ExportController {
+  constructor(private readonly exportService: ExportService) {}
+
+  /**
+   * Downloads the user's schedules as an iCalendar file, CSV or JSON backup
+   */
+  @Get()
+  async export(
+    @CurrentUser('id') userId: string,
+    @Query() query: ExportQueryDto,
+    @CurrentUser('timezone') timezone: string,
+  ): Promise<StreamableFile> {
+    const file = await this.exportService.exportSchedule(userId, query, timezone);
+
+    return new StreamableFile(Buffer.from(file.content, 'utf8'), {
+      type: file.contentType,
+      disposition: `attachment; filename="${file.filename}"`,
+    });
+  }
+}
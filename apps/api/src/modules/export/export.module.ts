@@ -0,0 +1,39 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ExportService } from './export.service';
+import { ExportController } from './export.controller';
+import { RestoreService } from './restore.service';
+import { RestoreController } from './restore.controller';
+import { Subject } from '../../infra/database/entities/subject.entity';
+import { Section } from '../../infra/database/entities/section.entity';
+import { Term } from '../../infra/database/entities/term.entity';
+import { TypeOrmSubjectRepository } from '../../infra/database/repositories/typeorm-subject.repository';
+import { TypeOrmSectionRepository } from '../../infra/database/repositories/typeorm-section.repository';
+import { TypeOrmTermRepository } from '../../infra/database/repositories/typeorm-term.repository';
+import { UnitOfWork } from '../../infra/database/repositories/unit-of-work';
+import { SpotlightModule } from '../spotlight/spotlight.module';
+import { GoogleCalendarModule } from '../google-calendar/google-calendar.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Subject, Section, Term]), SpotlightModule, GoogleCalendarModule],
+  controllers: [ExportController, RestoreController],
+  providers: [
+    ExportService,
+    RestoreService,
+    UnitOfWork,
+    {
+      provide: 'SubjectRepository',
+      useClass: TypeOrmSubjectRepository,
+    },
+    {
+      provide: 'SectionRepository',
+      useClass: TypeOrmSectionRepository,
+    },
+    {
+      provide: 'TermRepository',
+      useClass: TypeOrmTermRepository,
+    },
+  ],
+  exports: [ExportService, RestoreService],
+})
+export class ExportModule {}
@@ -0,0 +1,174 @@
+import { Injectable, Inject, NotFoundException } from '@nestjs/common';
+import { SubjectRepository } from '../../infra/database/repositories/interfaces/subject-repository.interface';
+import { SectionRepository } from '../../infra/database/repositories/interfaces/section-repository.interface';
+import { TermRepository } from '../../infra/database/repositories/interfaces/term-repository.interface';
+import { Subject } from '../../infra/database/entities/subject.entity';
+import { Section } from '../../infra/database/entities/section.entity';
+import { Term } from '../../infra/database/entities/term.entity';
+import { DEFAULT_TIMEZONE } from '../../common/utils/timezone';
+import { SpotlightService } from '../spotlight/spotlight.service';
+import { SavedFiltersService, SavedFilterResponse } from '../spotlight/saved-filters.service';
+import { ExportFormat, ExportQueryDto } from './dto/export-query.dto';
+import { toICalendar, toScheduleCsv } from './schedule-export';
+import { toScheduleBackup } from './schedule-backup';
+
+export interface ExportFile {
+  filename: string;
+  contentType: string;
+  content: string;
+}
+
+/**
+ * What an export covers: the user's subjects and sections, narrowed by the
+ * requested subject, term and saved filter
+ */
+export interface ExportSelection {
+  name: string;
+  subjects: Subject[];
+  sections: Section[];
+  terms: Term[];
+  savedFilters: SavedFilterResponse[];
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  ics: 'text/calendar; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+};
+
+@Injectable()
+export class ExportService {
+  constructor(
+    @Inject('SubjectRepository')
+    private readonly subjectRepository: SubjectRepository,
+    @Inject('SectionRepository')
+    private readonly sectionRepository: SectionRepository,
+    @Inject('TermRepository')
+    private readonly termRepository: TermRepository,
+    private readonly spotlightService: SpotlightService,
+    private readonly savedFiltersService: SavedFiltersService,
+  ) {}
+
+  /**
+   * Writes the selected schedules as an iCalendar file, a CSV that imports
+   * back or a full JSON backup
+   */
+  async exportSchedule(
+    userId: string,
+    query: ExportQueryDto,
+    timezone: string = DEFAULT_TIMEZONE,
+  ): Promise<ExportFile> {
+    const { format } = query;
+    const selection = await this.select(userId, query);
+    const filename = `${this.toFileName(selection.name)}.${format}`;
+    let content: string;
+
+    if (format === 'ics') {
+      content = toICalendar(selection.sections, { name: selection.name, timezone });
+    } else if (format === 'csv') {
+      content = toScheduleCsv(selection.sections);
+    } else {
+      const backup = toScheduleBackup(
+        selection.subjects,
+        selection.sections,
+        selection.terms,
+        selection.savedFilters,
+        { timezone },
+      );
+      content = JSON.stringify(backup, null, 2);
+    }
+
+    return { filename, contentType: CONTENT_TYPES[format], content };
+  }
+
+  /**
+   * Finds the subjects and sections an export covers. A subject or term
+   * narrows it to their sections; a saved filter to the sections with an
+   * event it matches, which are exported whole.
+   */
+  async select(userId: string, scope: Omit<ExportQueryDto, 'format'>): Promise<ExportSelection> {
+    const names: string[] = [];
+    let subjects: Subject[];
+
+    if (scope.subjectId) {
+      const subject = await this.subjectRepository.findById(scope.subjectId);
+      if (!subject || subject.userId !== userId) {
+        throw new NotFoundException(`Subject with ID '${scope.subjectId}' not found`);
+      }
+      subjects = [subject];
+      names.push(subject.code || subject.name);
+    } else {
+      subjects = await this.subjectRepository.findByUserId(userId);
+    }
+
+    let term: Term | null = null;
+    if (scope.termId) {
+      term = await this.termRepository.findById(scope.termId);
+      if (!term || term.userId !== userId) {
+        throw new NotFoundException(`Term with ID '${scope.termId}' not found`);
+      }
+      names.push(term.name);
+    }
+
+    let filter: SavedFilterResponse | null = null;
+    let filteredSectionIds: Set<string> | null = null;
+    if (scope.filterId) {
+      filter = await this.savedFiltersService.getFilter(userId, scope.filterId);
+      const { events } = await this.spotlightService.search({
+        userId,
+        query: filter.query,
+        includeRelations: false,
+      });
+      filteredSectionIds = new Set(events.map(event => event.sectionId));
+      names.push(filter.name);
+    }
+
+    const sections: Section[] = [];
+    for (const subject of subjects) {
+      const subjectSections = await this.sectionRepository.findBySubjectId(subject.id);
+      sections.push(...subjectSections.filter(section =>
+        (!term || section.termId === term.id) &&
+        (!filteredSectionIds || filteredSectionIds.has(section.id))
+      ));
+    }
+
+    const isScoped = names.length > 0;
+    // A term or filter leaves out the subjects with no section in it
+    if (term || filter) {
+      subjects = subjects.filter(subject => sections.some(section => section.subjectId === subject.id));
+    }
+
+    let terms: Term[];
+    if (term) {
+      terms = [term];
+    } else if (!isScoped) {
+      terms = await this.termRepository.findByUserId(userId);
+    } else {
+      terms = [...new Map(
+        sections.filter(section => section.term).map(section => [section.term!.id, section.term!])
+      ).values()];
+    }
+
+    let savedFilters: SavedFilterResponse[];
+    if (filter) {
+      savedFilters = [filter];
+    } else if (!isScoped) {
+      savedFilters = await this.savedFiltersService.getUserSavedFilters(userId);
+    } else {
+      savedFilters = [];
+    }
+
+    return {
+      name: isScoped ? names.join(' - ') : 'Stanlendar',
+      subjects,
+      sections,
+      terms,
+      savedFilters,
+    };
+  }
+
+  private toFileName(name: string): string {
+    const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+    return slug && slug !== 'stanlendar' ? `stanlendar-${slug}` : 'stanlendar';
+  }
+}
@@ -0,0 +1,53 @@
+import {
+  Controller,
+  Post,
+  Body,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  BadRequestException,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { RestoreService, RestoreReport } from './restore.service';
+import { RestoreBackupDto } from './dto/restore-backup.dto';
+import { JwtAuthGuard } from '../auth/guards/auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+@Controller('restore')
+@UseGuards(JwtAuthGuard)
+export class RestoreController {
+  constructor(private readonly restoreService: RestoreService) {}
+
+  /**
+   * Restores a JSON backup made by the export, or reports what restoring it
+   * would do
+   */
+  @Post()
+  @HttpCode(HttpStatus.OK)
+  @UseInterceptors(FileInterceptor('file', {
+    limits: {
+      fileSize: 10 * 1024 * 1024, // 10MB
+    },
+    fileFilter: (req, file, callback) => {
+      if (file.mimetype === 'application/json' || file.originalname.toLowerCase().endsWith('.json')) {
+        callback(null, true);
+      } else {
+        callback(new BadRequestException('Only JSON backup files are allowed'), false);
+      }
+    },
+  }))
+  async restore(
+    @CurrentUser('id') userId: string,
+    @UploadedFile() file: Express.Multer.File,
+    @Body() body: RestoreBackupDto,
+    @CurrentUser('timezone') timezone: string,
+  ): Promise<RestoreReport> {
+    if (!file) {
+      throw new BadRequestException('No file uploaded');
+    }
+
+    return this.restoreService.restore(userId, file.buffer.toString('utf8'), body, timezone);
+  }
+}
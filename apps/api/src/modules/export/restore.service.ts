@@ -0,0 +1,491 @@
+import { Injectable, BadRequestException, Logger } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { validate, ValidationError } from 'class-validator';
+import { UnitOfWork, TransactionRepositories } from '../../infra/database/repositories/unit-of-work';
+import { Subject } from '../../infra/database/entities/subject.entity';
+import { Section } from '../../infra/database/entities/section.entity';
+import { LocalEvent } from '../../infra/database/entities/local-event.entity';
+import { SavedFilter } from '../../infra/database/entities/saved-filter.entity';
+import { CalendarFeed } from '../../infra/database/entities/calendar-feed.entity';
+import { DEFAULT_TIMEZONE } from '../../common/utils/timezone';
+import { SpotlightQuery } from '../spotlight/interfaces/spotlight.interface';
+import { CalendarSyncService } from '../google-calendar/calendar-sync.service';
+import { SCHEDULE_BACKUP_VERSION } from './schedule-backup';
+import { RestoreBackupDto, RestoreMode, ScheduleBackupDto } from './dto/restore-backup.dto';
+
+export interface RestoreCounts {
+  created: number;
+  // Already in the workspace under the same name or code, and kept as it is
+  matched: number;
+  // Removed from the workspace by a replace
+  deleted: number;
+}
+
+export interface RestoreReport {
+  mode: RestoreMode;
+  dryRun: boolean;
+  terms: RestoreCounts;
+  subjects: RestoreCounts;
+  sections: RestoreCounts;
+  events: RestoreCounts;
+  savedFilters: RestoreCounts;
+  // Calendar feeds of the saved filters a replace deleted
+  feeds: {
+    // Now showing the restored filter of the same name
+    repointed: number;
+    deleted: number;
+  };
+  // Synced classes a replace removed from Google Calendar
+  googleEventsDeleted: number;
+  warnings: string[];
+}
+
+interface AppliedRestore {
+  report: RestoreReport;
+  // Classes a replace deleted that are still in Google Calendar
+  linkedEvents: LocalEvent[];
+}
+
+interface DetachedFeed {
+  feed: CalendarFeed;
+  filterName: string;
+}
+
+/**
+ * Thrown to roll back a dry run once its report is ready
+ */
+class DryRunRollback extends Error {
+  constructor(readonly report: RestoreReport) {
+    super('Dry run');
+  }
+}
+
+@Injectable()
+export class RestoreService {
+  private readonly logger = new Logger(RestoreService.name);
+
+  constructor(
+    private readonly unitOfWork: UnitOfWork,
+    private readonly calendarSyncService: CalendarSyncService,
+  ) {}
+
+  /**
+   * Restores a JSON backup into the user's workspace in one transaction.
+   * Records get new IDs, and references between them follow. A merge keeps
+   * the workspace and adds the terms, subjects, sections and saved filters
+   * it does not have yet, matched by name, code or section code; a replace
+   * deletes the workspace first, keeping the calendar feeds of its saved
+   * filters for the restored filters of the same name. A dry run does the
+   * same and rolls it back, so its report is what a restore would do. Once
+   * a replace commits, the synced classes it deleted are removed from
+   * Google Calendar, so their restored copies are not pushed there next to
+   * them; a failed restore leaves both untouched.
+   */
+  async restore(
+    userId: string,
+    content: string,
+    options: RestoreBackupDto,
+    timezone: string = DEFAULT_TIMEZONE,
+  ): Promise<RestoreReport> {
+    const backup = await this.parse(content);
+    const dryRun = !!options.dryRun;
+
+    let applied: AppliedRestore;
+    try {
+      applied = await this.unitOfWork.run(async repositories => {
+        const linkedEvents = options.mode === 'replace'
+          ? (await repositories.localEvents.findByUserId(userId)).filter(event => event.gcalEventId)
+          : [];
+        const report = await this.apply(userId, backup, options.mode, repositories);
+        report.dryRun = dryRun;
+        report.googleEventsDeleted = linkedEvents.length;
+
+        if (backup.timezone && backup.timezone !== timezone) {
+          report.warnings.push(
+            `The backup was made in ${backup.timezone}; classes keep their times in your timezone, ${timezone}`,
+          );
+        }
+
+        if (dryRun) {
+          throw new DryRunRollback(report);
+        }
+        return { report, linkedEvents };
+      });
+    } catch (error) {
+      if (error instanceof DryRunRollback) {
+        return error.report;
+      }
+      throw error;
+    }
+
+    await this.removeFromGoogle(userId, applied);
+    return applied.report;
+  }
+
+  /**
+   * Removes the replaced classes' events from Google Calendar. The restore
+   * has committed by then, so classes that could not be removed are left
+   * there and reported rather than failing it.
+   */
+  private async removeFromGoogle(userId: string, { report, linkedEvents }: AppliedRestore): Promise<void> {
+    if (linkedEvents.length === 0) {
+      return;
+    }
+
+    const syncResult = await this.calendarSyncService.removeDeletedEvents(userId, linkedEvents);
+    report.googleEventsDeleted = syncResult.summary.deleted;
+
+    if (syncResult.summary.failed > 0) {
+      report.warnings.push(
+        `${syncResult.summary.failed} replaced classes could not be removed from Google Calendar; delete them there`,
+      );
+    }
+  }
+
+  /**
+   * Reads and validates a backup, including that its references point at
+   * records in it
+   */
+  private async parse(content: string): Promise<ScheduleBackupDto> {
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch {
+      throw new BadRequestException('The backup is not a JSON file');
+    }
+
+    const version = typeof data === 'object' && data !== null && 'version' in data ? data.version : undefined;
+    if (typeof version !== 'number' || version > SCHEDULE_BACKUP_VERSION) {
+      throw new BadRequestException(
+        `The backup version is not supported; backups up to version ${SCHEDULE_BACKUP_VERSION} can be restored`,
+      );
+    }
+
+    const backup = plainToInstance(ScheduleBackupDto, data);
+    const errors = this.formatErrors(await validate(backup, { whitelist: true }));
+    if (errors.length === 0) {
+      errors.push(...this.checkReferences(backup));
+    }
+
+    if (errors.length > 0) {
+      throw new BadRequestException({
+        message: `The backup is not valid: ${errors[0]}`,
+        details: { errors },
+      });
+    }
+
+    return backup;
+  }
+
+  private async apply(
+    userId: string,
+    backup: ScheduleBackupDto,
+    mode: RestoreMode,
+    repositories: TransactionRepositories,
+  ): Promise<RestoreReport> {
+    const counts = (): RestoreCounts => ({ created: 0, matched: 0, deleted: 0 });
+    const report: RestoreReport = {
+      mode,
+      dryRun: false,
+      terms: counts(),
+      subjects: counts(),
+      sections: counts(),
+      events: counts(),
+      savedFilters: counts(),
+      feeds: { repointed: 0, deleted: 0 },
+      googleEventsDeleted: 0,
+      warnings: [],
+    };
+
+    let existingTerms = await repositories.terms.findByUserId(userId);
+    let existingSubjects = await repositories.subjects.findByUserId(userId);
+    let existingFilters = await repositories.savedFilters.findByUserId(userId);
+
+    let detachedFeeds: DetachedFeed[] = [];
+
+    if (mode === 'replace') {
+      detachedFeeds = await this.detachFeeds(userId, existingFilters, repositories);
+      await this.clear(userId, existingSubjects, existingTerms, existingFilters, repositories, report);
+      existingTerms = [];
+      existingSubjects = [];
+      existingFilters = [];
+    }
+
+    // Archive IDs to the IDs of the records they were restored as or matched
+    const termIds = new Map<string, string>();
+    const subjectIds = new Map<string, string>();
+    const sectionIds = new Map<string, string>();
+    // Names of the restored saved filters to their IDs
+    const filterIds = new Map<string, string>();
+    // Sections created by this restore, whose classes are restored with them
+    const createdSections = new Map<string, Section>();
+
+    for (const term of backup.terms) {
+      const existing = existingTerms.find(candidate => candidate.name === term.name);
+      if (existing) {
+        termIds.set(term.id, existing.id);
+        report.terms.matched++;
+        continue;
+      }
+
+      const created = await repositories.terms.create({
+        userId,
+        name: term.name,
+        startDate: term.startDate,
+        endDate: term.endDate,
+        blackouts: term.blackouts,
+      });
+      termIds.set(term.id, created.id);
+      report.terms.created++;
+    }
+
+    for (const subject of backup.subjects) {
+      let target: Subject | undefined = existingSubjects.find(candidate =>
+        subject.code ? candidate.code === subject.code : candidate.name === subject.name
+      );
+      const existingSections = target ? await repositories.sections.findBySubjectId(target.id) : [];
+
+      if (target) {
+        report.subjects.matched++;
+      } else {
+        target = await repositories.subjects.create({
+          userId,
+          code: subject.code || undefined,
+          name: subject.name,
+          colorHex: subject.colorHex,
+          meta: subject.meta || undefined,
+        });
+        report.subjects.created++;
+      }
+      subjectIds.set(subject.id, target.id);
+
+      for (const section of subject.sections) {
+        const existing = existingSections.find(candidate => candidate.secCode === section.secCode);
+        if (existing) {
+          sectionIds.set(section.id, existing.id);
+          report.sections.matched++;
+          continue;
+        }
+
+        const created = await repositories.sections.create({
+          subjectId: target.id,
+          secCode: section.secCode,
+          termId: section.termId ? termIds.get(section.termId) : undefined,
+          teacher: section.teacher || undefined,
+          room: section.room || undefined,
+          scheduleRules: section.scheduleRules,
+          exceptions: section.exceptions,
+        });
+        sectionIds.set(section.id, created.id);
+        createdSections.set(section.id, created);
+        report.sections.created++;
+      }
+    }
+
+    for (const event of backup.events) {
+      const section = createdSections.get(event.sectionId);
+      // A matched section keeps the classes it has
+      if (!section) {
+        report.events.matched++;
+        continue;
+      }
+
+      await repositories.localEvents.create({
+        userId,
+        subjectId: section.subjectId,
+        sectionId: section.id,
+        eventDate: event.eventDate,
+        startTime: event.startTime,
+        endTime: event.endTime,
+        room: event.room || undefined,
+        exceptionId: event.exceptionId || undefined,
+        exceptionType: event.exceptionType || undefined,
+        originalDate: event.originalDate || undefined,
+        titleOverride: event.titleOverride || undefined,
+        notes: event.notes || undefined,
+        status: 'planned',
+        dirty: true,
+      });
+      report.events.created++;
+    }
+
+    for (const filter of backup.savedFilters) {
+      if (existingFilters.some(candidate => candidate.name === filter.name)) {
+        report.savedFilters.matched++;
+        continue;
+      }
+
+      const { query, isComplete } = this.remapQuery(filter.query, subjectIds, sectionIds);
+      if (!isComplete) {
+        report.warnings.push(`Saved filter "${filter.name}" refers to subjects or sections that are not in the backup`);
+      }
+
+      const created = await repositories.savedFilters.create({ userId, name: filter.name, query });
+      filterIds.set(filter.name, created.id);
+      report.savedFilters.created++;
+    }
+
+    await this.reattachFeeds(detachedFeeds, filterIds, repositories, report);
+
+    this.logger.debug(
+      `Restored backup for user ${userId} (${mode}): ${report.subjects.created} subjects, ${report.events.created} events`,
+    );
+
+    return report;
+  }
+
+  /**
+   * Unlinks the user's calendar feeds from their saved filters, which would
+   * otherwise delete the feeds along with the filters
+   */
+  private async detachFeeds(
+    userId: string,
+    savedFilters: SavedFilter[],
+    repositories: TransactionRepositories,
+  ): Promise<DetachedFeed[]> {
+    const filterNames = new Map(savedFilters.map(filter => [filter.id, filter.name]));
+    const feeds = await repositories.calendarFeeds.findByUserId(userId);
+    const detached = feeds.filter(feed => feed.savedFilterId && filterNames.has(feed.savedFilterId));
+
+    for (const feed of detached) {
+      await repositories.calendarFeeds.update(feed.id, { savedFilterId: null });
+    }
+
+    return detached.map(feed => ({ feed, filterName: filterNames.get(feed.savedFilterId) }));
+  }
+
+  /**
+   * Points detached feeds at the restored filter of the same name. A feed
+   * whose filter is not in the backup is deleted, as deleting the filter
+   * would have done, rather than left showing every class.
+   */
+  private async reattachFeeds(
+    detached: DetachedFeed[],
+    filterIds: Map<string, string>,
+    repositories: TransactionRepositories,
+    report: RestoreReport,
+  ): Promise<void> {
+    for (const { feed, filterName } of detached) {
+      const savedFilterId = filterIds.get(filterName);
+
+      if (savedFilterId) {
+        await repositories.calendarFeeds.update(feed.id, { savedFilterId });
+        report.feeds.repointed++;
+        continue;
+      }
+
+      await repositories.calendarFeeds.delete(feed.id);
+      report.feeds.deleted++;
+      report.warnings.push(
+        `Calendar feed "${feed.name}" was deleted with saved filter "${filterName}", which is not in the backup; its URL no longer works`,
+      );
+    }
+  }
+
+  /**
+   * Deletes the user's subjects, with their sections and classes, terms and
+   * saved filters
+   */
+  private async clear(
+    userId: string,
+    subjects: Subject[],
+    terms: { id: string }[],
+    savedFilters: { id: string }[],
+    repositories: TransactionRepositories,
+    report: RestoreReport,
+  ): Promise<void> {
+    const events = (await repositories.localEvents.findByUserId(userId))
+      .filter(event => event.status !== 'deleted');
+
+    for (const subject of subjects) {
+      report.sections.deleted += (subject.sections || []).length;
+      await repositories.subjects.delete(subject.id);
+      report.subjects.deleted++;
+    }
+    report.events.deleted = events.length;
+
+    for (const term of terms) {
+      await repositories.terms.delete(term.id);
+      report.terms.deleted++;
+    }
+
+    for (const filter of savedFilters) {
+      await repositories.savedFilters.delete(filter.id);
+      report.savedFilters.deleted++;
+    }
+  }
+
+  /**
+   * Points a saved filter's subjects and sections at the restored ones,
+   * leaving out any the backup does not have
+   */
+  private remapQuery(
+    query: SpotlightQuery,
+    subjectIds: Map<string, string>,
+    sectionIds: Map<string, string>,
+  ): { query: SpotlightQuery; isComplete: boolean } {
+    let isComplete = true;
+    const remap = (ids: string[] | undefined, map: Map<string, string>) => {
+      if (!ids) {
+        return undefined;
+      }
+      const mapped = ids.filter(id => map.has(id)).map(id => map.get(id)!);
+      isComplete = isComplete && mapped.length === ids.length;
+      return mapped;
+    };
+
+    const remapped: SpotlightQuery = { ...query };
+    if (query.subjectIds) {
+      remapped.subjectIds = remap(query.subjectIds, subjectIds);
+    }
+    if (query.sectionIds) {
+      remapped.sectionIds = remap(query.sectionIds, sectionIds);
+    }
+
+    return { query: remapped, isComplete };
+  }
+
+  private checkReferences(backup: ScheduleBackupDto): string[] {
+    const errors: string[] = [];
+    const termIds = new Set(backup.terms.map(term => term.id));
+    const sections = new Map(
+      backup.subjects.flatMap(subject => subject.sections).map(section => [section.id, section]),
+    );
+
+    const ids = [
+      ...backup.terms.map(term => term.id),
+      ...backup.subjects.map(subject => subject.id),
+      ...backup.subjects.flatMap(subject => subject.sections.map(section => section.id)),
+      ...backup.events.map(event => event.id),
+    ];
+    const duplicates = [...new Set(ids.filter((id, index) => ids.indexOf(id) !== index))];
+    errors.push(...duplicates.map(id => `ID '${id}' is used by more than one record`));
+
+    for (const section of sections.values()) {
+      if (section.termId && !termIds.has(section.termId)) {
+        errors.push(`Section ${section.secCode} refers to term '${section.termId}', which is not in the backup`);
+      }
+    }
+
+    for (const event of backup.events) {
+      const section = sections.get(event.sectionId);
+      if (!section) {
+        errors.push(`Event '${event.id}' refers to section '${event.sectionId}', which is not in the backup`);
+      } else if (event.exceptionId && !section.exceptions.some(exception => exception.id === event.exceptionId)) {
+        errors.push(`Event '${event.id}' refers to a change that is not in section ${section.secCode}`);
+      }
+    }
+
+    return errors;
+  }
+
+  private formatErrors(errors: ValidationError[], path = ''): string[] {
+    return errors.flatMap(error => {
+      const property = path ? `${path}.${error.property}` : error.property;
+      return [
+        ...Object.values(error.constraints || {}).map(message => `${property}: ${message}`),
+        ...this.formatErrors(error.children || [], property),
+      ];
+    });
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * The JSON backup of a user's schedules: subjects with their meta, which
+ * holds reminder settings, and their sections' rules and exceptions, the
+ * terms they belong to, their events with any edits, and saved filters.
+ * Records keep their IDs so references between them (a section's term, an
+ * event's section and exception) can be followed. Google Calendar links are
+ * left out.
+ *
+ * Events have no meta column, so no reminder settings of their own: they
+ * take their subject's. The remindersNeedUpdate flag ReminderService sets
+ * only asks for an event to be pushed again, and events are restored
+ * unsynced, so every one of them is pushed with its subject's reminders.
+ *
+ * The format is versioned by SCHEDULE_BACKUP_VERSION. RestoreService reads
+ * backups up to that version.
+ */
+import { Subject } from '../../infra/database/entities/subject.entity';
+import { Section, ScheduleRule, SectionException } from '../../infra/database/entities/section.entity';
+import { Term, TermBlackout } from '../../infra/database/entities/term.entity';
+import { LocalEvent } from '../../infra/database/entities/local-event.entity';
+import { SavedFilterResponse } from '../spotlight/saved-filters.service';
+import { SpotlightQuery } from '../spotlight/interfaces/spotlight.interface';
+
+export const SCHEDULE_BACKUP_VERSION = 1;
+
+export interface BackupTerm {
+  id: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+  blackouts: TermBlackout[];
+}
+
+export interface BackupSection {
+  id: string;
+  secCode: string;
+  termId: string | null;
+  teacher: string | null;
+  room: string | null;
+  scheduleRules: ScheduleRule[];
+  exceptions: SectionException[];
+}
+
+export interface BackupSubject {
+  id: string;
+  code: string | null;
+  name: string;
+  colorHex: string;
+  meta: Record<string, any> | null;
+  sections: BackupSection[];
+}
+
+export interface BackupEvent {
+  id: string;
+  sectionId: string;
+  eventDate: string;
+  startTime: string;
+  endTime: string;
+  room: string | null;
+  exceptionId: string | null;
+  exceptionType: 'moved' | 'extra' | null;
+  originalDate: string | null;
+  titleOverride: string | null;
+  notes: string | null;
+}
+
+export interface BackupSavedFilter {
+  id: string;
+  name: string;
+  query: SpotlightQuery;
+}
+
+export interface ScheduleBackup {
+  version: number;
+  exportedAt: string;
+  timezone: string;
+  terms: BackupTerm[];
+  subjects: BackupSubject[];
+  events: BackupEvent[];
+  savedFilters: BackupSavedFilter[];
+}
+
+/**
+ * Builds the backup of the given subjects and sections, each section with
+ * its events loaded, and of the terms and saved filters that go with them
+ */
+export function toScheduleBackup(
+  subjects: Subject[],
+  sections: Section[],
+  terms: Term[],
+  savedFilters: SavedFilterResponse[],
+  options: { timezone: string; now?: Date },
+): ScheduleBackup {
+  return {
+    version: SCHEDULE_BACKUP_VERSION,
+    exportedAt: (options.now || new Date()).toISOString(),
+    timezone: options.timezone,
+    terms: terms.map(term => ({
+      id: term.id,
+      name: term.name,
+      startDate: term.startDate,
+      endDate: term.endDate,
+      blackouts: term.blackouts || [],
+    })),
+    subjects: subjects.map(subject => ({
+      id: subject.id,
+      code: subject.code || null,
+      name: subject.name,
+      colorHex: subject.colorHex,
+      meta: subject.meta || null,
+      sections: sections.filter(section => section.subjectId === subject.id).map(toBackupSection),
+    })),
+    events: sections.flatMap(section =>
+      (section.events || [])
+        .filter(event => event.status !== 'deleted')
+        .map(toBackupEvent)
+    ),
+    savedFilters: savedFilters.map(({ id, name, query }) => ({ id, name, query })),
+  };
+}
+
+function toBackupSection(section: Section): BackupSection {
+  return {
+    id: section.id,
+    secCode: section.secCode,
+    termId: section.termId || null,
+    teacher: section.teacher || null,
+    room: section.room || null,
+    scheduleRules: section.scheduleRules,
+    exceptions: section.exceptions || [],
+  };
+}
+
+function toBackupEvent(event: LocalEvent): BackupEvent {
+  return {
+    id: event.id,
+    sectionId: event.sectionId,
+    eventDate: event.eventDate,
+    startTime: event.startTime.substring(0, 5),
+    endTime: event.endTime.substring(0, 5),
+    room: event.room || null,
+    exceptionId: event.exceptionId || null,
+    exceptionType: event.exceptionType || null,
+    originalDate: event.originalDate || null,
+    titleOverride: event.titleOverride || null,
+    notes: event.notes || null,
+  };
+}
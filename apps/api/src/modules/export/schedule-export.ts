@@ -0,0 +1,440 @@
+/**
+ * Writing schedules out as an iCalendar (.ics) file or as CSV rows.
+ *
+ * In a calendar file each schedule rule of a section is one recurring VEVENT
+ * in the user's timezone. Its skip dates, the blackout periods of its term
+ * and its cancelled classes are EXDATEs. A moved class, or one whose title
+ * or notes were edited, is an override of its occurrence (RECURRENCE-ID).
+ * Extra sessions are VEVENTs of their own. A calendar of events, as served
+ * by calendar feeds, has one VEVENT per event instead.
+ *
+ * CSV rows use the columns of SCHEDULE_COLUMN_MAP, one row per rule with its
+ * classes that do not take place as skip dates, and one row that repeats
+ * "once" per moved class and extra session, so the file imports back into
+ * the same schedule.
+ *
+ * Sections are expected with their subject, term and events loaded.
+ */
+import { Section, ScheduleRule, SectionException } from '../../infra/database/entities/section.entity';
+import { LocalEvent } from '../../infra/database/entities/local-event.entity';
+import { expandDateRanges, expandScheduleRule, toRRuleParts } from '../../common/utils/schedule-recurrence';
+import { getTimeZoneOffset, zonedTimeToUtc } from '../../common/utils/timezone';
+import { ICAL_DAYS, SCHEDULE_COLUMN_MAP } from '../import/services/ics-calendar';
+
+export interface CalendarOptions {
+  // Calendar name shown by clients that support X-WR-CALNAME
+  name: string;
+  timezone: string;
+  // Time the file is written, for DTSTAMP
+  now?: Date;
+}
+
+const PRODUCT_ID = '-//Stanlendar//Schedule Export//EN';
+const UID_DOMAIN = 'stanlendar';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Writes the sections' classes as an iCalendar file
+ */
+export function toICalendar(sections: Section[], options: CalendarOptions): string {
+  const { timezone } = options;
+  const calendar = createCalendar(options);
+  const { vevent } = calendar;
+
+  for (const section of sections) {
+    const liveEvents = (section.events || []).filter(event => event.status !== 'deleted');
+    const exceptions = section.exceptions || [];
+    const blackouts = expandDateRanges(section.term?.blackouts || []);
+    const overridden = new Set<string>();
+
+    section.scheduleRules.forEach((rule, index) => {
+      const occurrences = expandScheduleRule(rule);
+      if (occurrences.length === 0) {
+        return;
+      }
+
+      const uid = `${section.id}-${index}@${UID_DOMAIN}`;
+      const moves = exceptions.filter(exception => exception.type === 'move' && isOfRule(exception, rule));
+      const exdates = occurrences.filter(date =>
+        rule.skipDates?.includes(date) ||
+        blackouts.has(date) ||
+        exceptions.some(exception => exception.type === 'cancel' && exception.date === date && isOfRule(exception, rule))
+      );
+
+      vevent(uid, occurrences[0], rule.startTime, rule.endTime, [
+        `RRULE:${[...toRRuleParts(rule), `UNTIL=${formatUtc(zonedTimeToUtc(occurrences[occurrences.length - 1], '23:59:59', timezone))}`].join(';')}`,
+        ...(exdates.length > 0
+          ? [`EXDATE;TZID=${timezone}:${exdates.map(date => formatLocal(date, rule.startTime)).join(',')}`]
+          : []),
+        ...describe(section, rule.startTime),
+      ]);
+
+      // Moved classes replace their occurrence
+      for (const move of moves.filter(move => occurrences.includes(move.date) && !exdates.includes(move.date))) {
+        const event = liveEvents.find(event => event.exceptionId === move.id);
+        overridden.add(move.id);
+        vevent(uid, move.newDate || move.date, move.startTime || rule.startTime, move.endTime || rule.endTime, [
+          `RECURRENCE-ID;TZID=${timezone}:${formatLocal(move.date, rule.startTime)}`,
+          ...describe(section, rule.startTime, event, move),
+        ]);
+      }
+
+      // Classes with an edited title or notes keep their slot
+      for (const event of liveEvents) {
+        if (
+          !event.exceptionId &&
+          (event.titleOverride || event.notes) &&
+          event.startTime.substring(0, 5) === rule.startTime &&
+          occurrences.includes(event.eventDate) &&
+          !exdates.includes(event.eventDate)
+        ) {
+          vevent(uid, event.eventDate, rule.startTime, rule.endTime, [
+            `RECURRENCE-ID;TZID=${timezone}:${formatLocal(event.eventDate, rule.startTime)}`,
+            ...describe(section, rule.startTime, event),
+          ]);
+        }
+      }
+    });
+
+    // Extra sessions, and moved classes that are not an occurrence of a
+    // rule, stand alone
+    for (const exception of exceptions) {
+      if (exception.type === 'cancel' || overridden.has(exception.id) || !exception.startTime || !exception.endTime) {
+        continue;
+      }
+
+      const event = liveEvents.find(event => event.exceptionId === exception.id);
+      vevent(
+        `${section.id}-${exception.id}@${UID_DOMAIN}`,
+        exception.newDate || exception.date,
+        exception.startTime,
+        exception.endTime,
+        describe(section, exception.originalStartTime || exception.startTime, event, exception),
+      );
+    }
+  }
+
+  return calendar.write();
+}
+
+/**
+ * Writes events as an iCalendar file of one VEVENT each, as they are on the
+ * calendar. Events are expected with their subject and section loaded;
+ * deleted events are left out.
+ */
+export function toEventCalendar(events: LocalEvent[], options: CalendarOptions): string {
+  const calendar = createCalendar(options);
+
+  for (const event of events) {
+    if (event.status === 'deleted') {
+      continue;
+    }
+
+    const section = { ...event.section, subject: event.subject } as Section;
+    const exception = event.exceptionId
+      ? (section.exceptions || []).find(exception => exception.id === event.exceptionId)
+      : undefined;
+    const startTime = event.startTime.substring(0, 5);
+
+    calendar.vevent(
+      `${event.id}@${UID_DOMAIN}`,
+      event.eventDate,
+      startTime,
+      event.endTime.substring(0, 5),
+      describe(section, exception?.originalStartTime || startTime, event, exception),
+    );
+  }
+
+  return calendar.write();
+}
+
+/**
+ * Collects VEVENTs and writes them out in a VCALENDAR with the timezone
+ * they use
+ */
+function createCalendar(options: CalendarOptions) {
+  const { timezone } = options;
+  const stamp = formatUtc(options.now || new Date());
+  const events: string[][] = [];
+  const dates: string[] = [];
+
+  const vevent = (uid: string, date: string, startTime: string, endTime: string, properties: string[]) => {
+    dates.push(date);
+    events.push([
+      'BEGIN:VEVENT',
+      `UID:${uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;TZID=${timezone}:${formatLocal(date, startTime)}`,
+      `DTEND;TZID=${timezone}:${formatLocal(date, endTime)}`,
+      ...properties,
+      'END:VEVENT',
+    ]);
+  };
+
+  const write = () => [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    `X-WR-TIMEZONE:${timezone}`,
+    ...buildTimeZone(timezone, dates),
+    ...events.flat(),
+    'END:VCALENDAR',
+  ].map(foldLine).join('\r\n') + '\r\n';
+
+  return { vevent, write };
+}
+
+/**
+ * Writes the sections' schedules as CSV with the columns of an exported
+ * schedule
+ */
+export function toScheduleCsv(sections: Section[]): string {
+  const columns = Object.keys(SCHEDULE_COLUMN_MAP);
+  const rows: Record<string, string | number | null>[] = [];
+
+  for (const section of sections) {
+    const exceptions = section.exceptions || [];
+    const blackouts = expandDateRanges(section.term?.blackouts || []);
+    const common = {
+      'Subject': section.subject.name,
+      'Code': section.subject.code || null,
+      'Section': section.secCode,
+      'Teacher': section.teacher || null,
+    };
+
+    for (const rule of section.scheduleRules) {
+      const occurrences = expandScheduleRule(rule);
+      // Without the term, its blackout periods and the cancelled and moved
+      // classes are skip dates of their own
+      const skipDates = new Set([
+        ...(rule.skipDates || []),
+        ...occurrences.filter(date =>
+          blackouts.has(date) ||
+          exceptions.some(exception => exception.type !== 'extra' && exception.date === date && isOfRule(exception, rule))
+        ),
+      ]);
+
+      rows.push({
+        ...common,
+        'Repeats': rule.setPos ? 'monthly' : 'weekly',
+        'Days': ICAL_DAYS[rule.dayOfWeek],
+        'Start Time': rule.startTime,
+        'End Time': rule.endTime,
+        // Alternate weeks are counted from the first class
+        'Start Date': rule.weekParity && occurrences.length > 0 ? occurrences[0] : rule.startDate,
+        'End Date': rule.endDate,
+        'Interval': rule.weekParity ? 2 : rule.interval && rule.interval > 1 ? rule.interval : null,
+        'Week of Month': rule.setPos || null,
+        'Skip Dates': [...skipDates].sort().join(',') || null,
+        'Room': section.room || null,
+      });
+    }
+
+    for (const exception of exceptions) {
+      const date = exception.newDate || exception.date;
+      if (exception.type === 'cancel' || !exception.startTime || !exception.endTime) {
+        continue;
+      }
+
+      rows.push({
+        ...common,
+        'Repeats': 'once',
+        'Days': ICAL_DAYS[new Date(`${date}T00:00:00Z`).getUTCDay()],
+        'Start Time': exception.startTime,
+        'End Time': exception.endTime,
+        'Start Date': date,
+        'End Date': date,
+        'Interval': null,
+        'Week of Month': null,
+        'Skip Dates': null,
+        'Room': exception.room || section.room || null,
+      });
+    }
+  }
+
+  return [columns, ...rows.map(row => columns.map(column => row[column]))]
+    .map(values => values.map(formatCsvValue).join(','))
+    .join('\r\n') + '\r\n';
+}
+
+/**
+ * SUMMARY, LOCATION and DESCRIPTION of a class, from its section and, when
+ * it has one, its event or exception
+ */
+function describe(section: Section, startTime: string, event?: LocalEvent, exception?: SectionException): string[] {
+  const { subject } = section;
+  const title = event?.titleOverride ||
+    [subject.code, subject.name, section.secCode ? `(${section.secCode})` : null].filter(Boolean).join(' ');
+  const room = exception?.room || event?.room || section.room;
+  const description = [
+    section.teacher ? `Teacher: ${section.teacher}` : null,
+    exception?.type === 'move' ? `Rescheduled from ${exception.date} ${startTime}` : null,
+    exception?.type === 'extra' ? 'Extra session' : null,
+    exception?.reason || null,
+    event?.notes || null,
+  ].filter(Boolean).join('\n');
+
+  return [
+    `SUMMARY:${escapeText(title)}`,
+    ...(room ? [`LOCATION:${escapeText(room)}`] : []),
+    ...(description ? [`DESCRIPTION:${escapeText(description)}`] : []),
+  ];
+}
+
+/**
+ * True when a cancel or move exception may be of the rule's class on its
+ * date: the rule has a class then, at the exception's original start time
+ */
+function isOfRule(exception: SectionException, rule: ScheduleRule): boolean {
+  return (
+    (!exception.originalStartTime || exception.originalStartTime === rule.startTime) &&
+    expandScheduleRule(rule, exception.date, exception.date).length > 0
+  );
+}
+
+interface OffsetTransition {
+  at: number;
+  from: number;
+  to: number;
+}
+
+// Offset changes of a timezone in a year, by "timezone:year". Feeds are
+// polled often and zone rules do not change while the process runs, so each
+// year is scanned once.
+const transitionsByZoneYear = new Map<string, OffsetTransition[]>();
+
+/**
+ * The timezone's UTC offsets over the years of the given dates, with one
+ * observance per offset change
+ */
+function buildTimeZone(timezone: string, dates: string[]): string[] {
+  const years = dates.length > 0 ? dates.map(date => Number(date.substring(0, 4))) : [new Date().getUTCFullYear()];
+  const fromYear = Math.min(...years);
+  const toYear = Math.max(...years);
+  const transitions: OffsetTransition[] = [];
+  for (let year = fromYear; year <= toYear; year++) {
+    transitions.push(...findTransitions(timezone, year));
+  }
+
+  const start = Date.UTC(fromYear, 0, 1);
+  const offsetAt = (instant: number) => getTimeZoneOffset(new Date(instant), timezone);
+  const initial = offsetAt(start);
+  const observance = (from: number, to: number, wallClock: string, daylight: boolean) => [
+    `BEGIN:${daylight ? 'DAYLIGHT' : 'STANDARD'}`,
+    `DTSTART:${wallClock}`,
+    `TZOFFSETFROM:${formatOffset(from)}`,
+    `TZOFFSETTO:${formatOffset(to)}`,
+    `END:${daylight ? 'DAYLIGHT' : 'STANDARD'}`,
+  ];
+
+  return [
+    'BEGIN:VTIMEZONE',
+    `TZID:${timezone}`,
+    ...observance(initial, initial, `${fromYear}0101T000000`, transitions.length > 0 && transitions[0].to < initial),
+    ...transitions.flatMap(({ at, from, to }) =>
+      // DTSTART is the wall-clock time the change happens at, before it
+      observance(from, to, formatUtc(new Date(at + from * 60000)).slice(0, -1), to > from)
+    ),
+    'END:VTIMEZONE',
+  ];
+}
+
+/**
+ * The offset changes of a timezone from the start of a year up to the start
+ * of the next, found to the minute
+ */
+function findTransitions(timezone: string, year: number): OffsetTransition[] {
+  const key = `${timezone}:${year}`;
+  const cached = transitionsByZoneYear.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const offsetAt = (instant: number) => getTimeZoneOffset(new Date(instant), timezone);
+  const start = Date.UTC(year, 0, 1);
+  const end = Date.UTC(year + 1, 0, 1);
+  const transitions: OffsetTransition[] = [];
+  let offset = offsetAt(start);
+
+  for (let day = start + DAY_MS; day <= end; day += DAY_MS) {
+    const next = offsetAt(day);
+    if (next === offset) {
+      continue;
+    }
+
+    // Narrow the change down to the minute
+    let low = day - DAY_MS;
+    let high = day;
+    while (high - low > 60000) {
+      const middle = low + Math.floor((high - low) / 120000) * 60000;
+      if (offsetAt(middle) === offset) {
+        low = middle;
+      } else {
+        high = middle;
+      }
+    }
+
+    transitions.push({ at: high, from: offset, to: next });
+    offset = next;
+  }
+
+  transitionsByZoneYear.set(key, transitions);
+  return transitions;
+}
+
+/**
+ * Local date and HH:mm time as an iCalendar DATE-TIME without a timezone
+ */
+function formatLocal(date: string, time: string): string {
+  return `${date.replace(/-/g, '')}T${time.substring(0, 5).replace(':', '')}00`;
+}
+
+function formatUtc(instant: Date): string {
+  return instant.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function formatOffset(minutes: number): string {
+  const absolute = Math.abs(minutes);
+  const hours = String(Math.floor(absolute / 60)).padStart(2, '0');
+  return `${minutes < 0 ? '-' : '+'}${hours}${String(absolute % 60).padStart(2, '0')}`;
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Splits a content line into lines of at most 75 octets, continued with a
+ * leading space
+ */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let part = '';
+  let size = 0;
+
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char);
+    // Continuation lines spend an octet on their leading space
+    if (size + bytes > (parts.length === 0 ? 75 : 74)) {
+      parts.push(part);
+      part = '';
+      size = 0;
+    }
+    part += char;
+    size += bytes;
+  }
+
+  return [...parts, part].join('\r\n ');
+}
+
+function formatCsvValue(value: string | number | null): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,86 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { StreamableFile } from '@nestjs/common';
+import { Response } from 'express';
+import { FeedsController } from '../feeds.controller';
+import { FeedsService } from '../feeds.service';
+import { JwtAuthGuard } from '../../auth/guards/auth.guard';
+
+describe('FeedsController', () => {
+  let controller: FeedsController;
+  let service: jest.Mocked<FeedsService>;
+  let res: jest.Mocked<Pick<Response, 'setHeader' | 'status'>>;
+
+  const lastModified = new Date('2024-01-15T08:00:00Z');
+
+  beforeEach(async () => {
+    const mockService = {
+      findAll: jest.fn(),
+      create: jest.fn(),
+      remove: jest.fn(),
+      render: jest.fn(),
+    };
+
+    const mockAuthGuard = {
+      canActivate: jest.fn(() => true),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [FeedsController],
+      providers: [
+        {
+          provide: FeedsService,
+          useValue: mockService,
+        },
+      ],
+    })
+      .overrideGuard(JwtAuthGuard)
+      .useValue(mockAuthGuard)
+      .compile();
+
+    controller = module.get<FeedsController>(FeedsController);
+    service = module.get(FeedsService);
+    res = { setHeader: jest.fn(), status: jest.fn() } as any;
+
+    service.render.mockResolvedValue({
+      content: 'BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n',
+      etag: '"abc"',
+      lastModified,
+    });
+  });
+
+  describe('feed', () => {
+    it('should serve the calendar with its validators', async () => {
+      const file = await controller.feed('secret-token', undefined, undefined, res as unknown as Response) as StreamableFile;
+
+      expect(service.render).toHaveBeenCalledWith('secret-token');
+      expect(res.setHeader).toHaveBeenCalledWith('ETag', '"abc"');
+      expect(res.setHeader).toHaveBeenCalledWith('Last-Modified', 'Mon, 15 Jan 2024 08:00:00 GMT');
+      expect(res.status).not.toHaveBeenCalled();
+      expect(file.getHeaders()).toEqual({
+        type: 'text/calendar; charset=utf-8',
+        disposition: 'inline; filename="secret-token.ics"',
+        length: 32,
+      });
+    });
+
+    it('should answer 304 when the ETag matches', async () => {
+      const file = await controller.feed('secret-token', 'W/"old", "abc"', undefined, res as unknown as Response);
+
+      expect(res.status).toHaveBeenCalledWith(304);
+      expect(file).toBeUndefined();
+    });
+
+    it('should answer 304 when unchanged since the given date', async () => {
+      await controller.feed('secret-token', undefined, 'Mon, 15 Jan 2024 08:00:00 GMT', res as unknown as Response);
+
+      expect(res.status).toHaveBeenCalledWith(304);
+    });
+
+    it('should serve the calendar when the ETag differs, whatever the date', async () => {
+      const file = await controller.feed('secret-token', '"old"', 'Mon, 15 Jan 2024 09:00:00 GMT', res as unknown as Response);
+
+      expect(res.status).not.toHaveBeenCalled();
+      expect(file).toBeDefined();
+    });
+  });
+});
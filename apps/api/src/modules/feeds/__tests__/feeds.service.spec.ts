@@ -0,0 +1,175 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { NotFoundException } from '@nestjs/common';
+import { FeedsService } from '../feeds.service';
+import { SpotlightService } from '../../spotlight/spotlight.service';
+import { SavedFiltersService } from '../../spotlight/saved-filters.service';
+import { CalendarFeed } from '../../../infra/database/entities/calendar-feed.entity';
+import { LocalEvent } from '../../../infra/database/entities/local-event.entity';
+import { Subject } from '../../../infra/database/entities/subject.entity';
+import { Section } from '../../../infra/database/entities/section.entity';
+import { User } from '../../../infra/database/entities/user.entity';
+import { LocalEventRepository } from '../../../infra/database/repositories/interfaces/local-event-repository.interface';
+
+describe('FeedsService', () => {
+  let service: FeedsService;
+  let feedRepository: jest.Mocked<Repository<CalendarFeed>>;
+  let localEventRepository: jest.Mocked<LocalEventRepository>;
+  let spotlightService: jest.Mocked<SpotlightService>;
+  let savedFiltersService: jest.Mocked<SavedFiltersService>;
+
+  const mockUserId = 'user-123';
+  const mockFeedId = '5f0e8c1a-9b2d-4e6f-8a7b-1c2d3e4f5a6b';
+
+  const subject = { id: 'subject-1', code: 'CS101', name: 'Computer Science' } as Subject;
+  const section = { id: 'section-1', subjectId: 'subject-1', secCode: '01', room: 'Lab 1', exceptions: [] } as unknown as Section;
+
+  const mockEvent = {
+    id: 'event-1',
+    sectionId: 'section-1',
+    eventDate: '2024-01-15',
+    startTime: '09:00:00',
+    endTime: '10:30:00',
+    status: 'planned',
+    subject,
+    section,
+  } as LocalEvent;
+
+  const mockFeed = (overrides: Partial<CalendarFeed> = {}) => ({
+    id: mockFeedId,
+    userId: mockUserId,
+    name: 'My classes',
+    token: 'secret-token',
+    lastModifiedAt: new Date('2024-01-01T00:00:00Z'),
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    user: { id: mockUserId, timezone: 'Asia/Bangkok' } as User,
+    ...overrides,
+  }) as CalendarFeed;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FeedsService,
+        {
+          provide: getRepositoryToken(CalendarFeed),
+          useValue: {
+            find: jest.fn(),
+            findOne: jest.fn(),
+            create: jest.fn(data => data),
+            save: jest.fn(),
+            update: jest.fn(),
+            delete: jest.fn(),
+          },
+        },
+        {
+          provide: 'LocalEventRepository',
+          useValue: { findByUserId: jest.fn() },
+        },
+        {
+          provide: SpotlightService,
+          useValue: { search: jest.fn() },
+        },
+        {
+          provide: SavedFiltersService,
+          useValue: { getFilter: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<FeedsService>(FeedsService);
+    feedRepository = module.get(getRepositoryToken(CalendarFeed));
+    localEventRepository = module.get('LocalEventRepository');
+    spotlightService = module.get(SpotlightService);
+    savedFiltersService = module.get(SavedFiltersService);
+
+    localEventRepository.findByUserId.mockResolvedValue([mockEvent]);
+  });
+
+  describe('create', () => {
+    it('should create a feed of a saved filter with a random token', async () => {
+      savedFiltersService.getFilter.mockResolvedValue({ id: 'filter-1', name: 'Labs', query: { text: 'lab' } });
+      feedRepository.save.mockImplementation(async feed => mockFeed(feed as Partial<CalendarFeed>));
+
+      const result = await service.create(mockUserId, { name: 'Labs only', savedFilterId: 'filter-1' });
+
+      expect(savedFiltersService.getFilter).toHaveBeenCalledWith(mockUserId, 'filter-1');
+      expect(result).toEqual(expect.objectContaining({ name: 'Labs only', savedFilterId: 'filter-1' }));
+      expect(result.token).toMatch(/^[A-Za-z0-9_-]{32}$/);
+    });
+
+    it('should not create a feed of another user\'s filter', async () => {
+      savedFiltersService.getFilter.mockRejectedValue(new NotFoundException('Filter not found'));
+
+      await expect(service.create(mockUserId, { name: 'Labs only', savedFilterId: 'filter-1' }))
+        .rejects.toThrow(NotFoundException);
+      expect(feedRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('remove', () => {
+    it('should throw NotFoundException when the feed is not the user\'s', async () => {
+      feedRepository.delete.mockResolvedValue({ affected: 0, raw: [] });
+
+      await expect(service.remove(mockUserId, mockFeedId)).rejects.toThrow(
+        new NotFoundException(`Feed with ID '${mockFeedId}' not found`),
+      );
+      expect(feedRepository.delete).toHaveBeenCalledWith({ id: mockFeedId, userId: mockUserId });
+    });
+  });
+
+  describe('render', () => {
+    it('should write the user\'s events in their timezone and record when the feed changed', async () => {
+      feedRepository.findOne.mockResolvedValue(mockFeed());
+
+      const feed = await service.render('secret-token');
+
+      expect(feedRepository.findOne).toHaveBeenCalledWith({
+        where: { token: 'secret-token' },
+        relations: ['user', 'savedFilter'],
+      });
+      expect(feed.content).toContain('DTSTART;TZID=Asia/Bangkok:20240115T090000');
+      expect(feed.content).toContain('SUMMARY:CS101 Computer Science (01)');
+      expect(feed.lastModified.getTime()).toBeGreaterThan(new Date('2024-01-01T00:00:00Z').getTime());
+      expect(feedRepository.update).toHaveBeenCalledWith(mockFeedId, {
+        contentHash: feed.etag.slice(1, -1),
+        lastModifiedAt: feed.lastModified,
+      });
+    });
+
+    it('should keep the ETag and last modified time while the events are unchanged', async () => {
+      feedRepository.findOne.mockResolvedValue(mockFeed());
+      const first = await service.render('secret-token');
+
+      feedRepository.findOne.mockResolvedValue(mockFeed({
+        contentHash: first.etag.slice(1, -1),
+        lastModifiedAt: first.lastModified,
+      }));
+      feedRepository.update.mockClear();
+      const second = await service.render('secret-token');
+
+      expect(second).toEqual(first);
+      expect(feedRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should only write the events a saved filter matches', async () => {
+      feedRepository.findOne.mockResolvedValue(mockFeed({
+        savedFilterId: 'filter-1',
+        savedFilter: { id: 'filter-1', userId: mockUserId, name: 'Labs', query: { text: 'lab' } } as CalendarFeed['savedFilter'],
+      }));
+      spotlightService.search.mockResolvedValue({ events: [] } as any);
+
+      const feed = await service.render('secret-token');
+
+      expect(spotlightService.search).toHaveBeenCalledWith({ userId: mockUserId, query: { text: 'lab' }, includeRelations: true });
+      expect(localEventRepository.findByUserId).not.toHaveBeenCalled();
+      expect(feed.content).not.toContain('BEGIN:VEVENT');
+    });
+
+    it('should throw NotFoundException for a revoked token', async () => {
+      feedRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.render('revoked')).rejects.toThrow(NotFoundException);
+    });
+  });
+});
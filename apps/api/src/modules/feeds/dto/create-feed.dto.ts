@@ -0,0 +1,13 @@
+import { IsNotEmpty, IsOptional, IsString, IsUUID, MaxLength } from 'class-validator';
+
+export class CreateFeedDto {
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  // Limits the feed to the classes a saved filter matches
+  @IsOptional()
+  @IsUUID()
+  savedFilterId?: string;
+}
@@ -0,0 +1,25 @@
+import { CalendarFeed } from '../../../infra/database/entities/calendar-feed.entity';
+
+export class FeedResponseDto {
+  id: string;
+  name: string;
+  token: string;
+  savedFilterId: string | null;
+  lastModifiedAt: Date;
+  createdAt: Date;
+
+  static fromEntity(feed: CalendarFeed): FeedResponseDto {
+    return {
+      id: feed.id,
+      name: feed.name,
+      token: feed.token,
+      savedFilterId: feed.savedFilterId || null,
+      lastModifiedAt: feed.lastModifiedAt,
+      createdAt: feed.createdAt,
+    };
+  }
+
+  static fromEntities(feeds: CalendarFeed[]): FeedResponseDto[] {
+    return feeds.map(feed => this.fromEntity(feed));
+  }
+}
@@ -0,0 +1,86 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Headers,
+  Res,
+  UseGuards,
+  ParseUUIDPipe,
+  HttpCode,
+  HttpStatus,
+  StreamableFile,
+} from '@nestjs/common';
+import { Response } from 'express';
+import { FeedsService } from './feeds.service';
+import { CreateFeedDto } from './dto/create-feed.dto';
+import { FeedResponseDto } from './dto/feed-response.dto';
+import { JwtAuthGuard } from '../auth/guards/auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { Public } from '../auth/decorators/public.decorator';
+
+@Controller('feeds')
+@UseGuards(JwtAuthGuard)
+export class FeedsController {
+  constructor(private readonly feedsService: FeedsService) {}
+
+  @Get()
+  async findAll(@CurrentUser('id') userId: string): Promise<FeedResponseDto[]> {
+    return this.feedsService.findAll(userId);
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async create(
+    @CurrentUser('id') userId: string,
+    @Body() createFeedDto: CreateFeedDto,
+  ): Promise<FeedResponseDto> {
+    return this.feedsService.create(userId, createFeedDto);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(
+    @CurrentUser('id') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<void> {
+    await this.feedsService.remove(userId, id);
+  }
+
+  /**
+   * Serves the feed to calendar apps, which subscribe without logging in;
+   * the token in the URL is the only credential. Served outside the /api
+   * prefix. Unchanged feeds answer 304 to conditional requests.
+   */
+  @Get(':token.ics')
+  @Public()
+  async feed(
+    @Param('token') token: string,
+    @Headers('if-none-match') ifNoneMatch: string | undefined,
+    @Headers('if-modified-since') ifModifiedSince: string | undefined,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<StreamableFile | void> {
+    const feed = await this.feedsService.render(token);
+
+    res.setHeader('ETag', feed.etag);
+    res.setHeader('Last-Modified', feed.lastModified.toUTCString());
+    res.setHeader('Cache-Control', 'private, no-cache');
+
+    // If-Modified-Since only counts without If-None-Match (RFC 9110 13.1.3)
+    const isFresh = ifNoneMatch
+      ? ifNoneMatch.split(',').some(tag => ['*', feed.etag].includes(tag.trim().replace(/^W\//, '')))
+      : !!ifModifiedSince && Date.parse(ifModifiedSince) >= feed.lastModified.getTime();
+
+    if (isFresh) {
+      res.status(HttpStatus.NOT_MODIFIED);
+      return;
+    }
+
+    return new StreamableFile(Buffer.from(feed.content, 'utf8'), {
+      type: 'text/calendar; charset=utf-8',
+      disposition: `inline; filename="${token}.ics"`,
+    });
+  }
+}
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { FeedsService } from './feeds.service';
+import { FeedsController } from './feeds.controller';
+import { CalendarFeed } from '../../infra/database/entities/calendar-feed.entity';
+import { LocalEvent } from '../../infra/database/entities/local-event.entity';
+import { TypeOrmLocalEventRepository } from '../../infra/database/repositories/typeorm-local-event.repository';
+import { SpotlightModule } from '../spotlight/spotlight.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([CalendarFeed, LocalEvent]), SpotlightModule],
+  controllers: [FeedsController],
+  providers: [
+    FeedsService,
+    {
+      provide: 'LocalEventRepository',
+      useClass: TypeOrmLocalEventRepository,
+    },
+  ],
+  exports: [FeedsService],
+})
+export class FeedsModule {}
@@ -0,0 +1,114 @@
+import { Injectable, Inject, NotFoundException, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { CalendarFeed } from '../../infra/database/entities/calendar-feed.entity';
+import { LocalEventRepository } from '../../infra/database/repositories/interfaces/local-event-repository.interface';
+import { DEFAULT_TIMEZONE } from '../../common/utils/timezone';
+import { SpotlightService } from '../spotlight/spotlight.service';
+import { SavedFiltersService } from '../spotlight/saved-filters.service';
+import { toEventCalendar } from '../export/schedule-export';
+import { CreateFeedDto } from './dto/create-feed.dto';
+import { FeedResponseDto } from './dto/feed-response.dto';
+
+export interface FeedContent {
+  content: string;
+  etag: string;
+  lastModified: Date;
+}
+
+@Injectable()
+export class FeedsService {
+  private readonly logger = new Logger(FeedsService.name);
+
+  constructor(
+    @InjectRepository(CalendarFeed)
+    private readonly feedRepository: Repository<CalendarFeed>,
+    @Inject('LocalEventRepository')
+    private readonly localEventRepository: LocalEventRepository,
+    private readonly spotlightService: SpotlightService,
+    private readonly savedFiltersService: SavedFiltersService,
+  ) {}
+
+  async findAll(userId: string): Promise<FeedResponseDto[]> {
+    const feeds = await this.feedRepository.find({
+      where: { userId },
+      order: { createdAt: 'ASC' },
+    });
+
+    return FeedResponseDto.fromEntities(feeds);
+  }
+
+  async create(userId: string, createFeedDto: CreateFeedDto): Promise<FeedResponseDto> {
+    if (createFeedDto.savedFilterId) {
+      // Throws when the filter is not the user's
+      await this.savedFiltersService.getFilter(userId, createFeedDto.savedFilterId);
+    }
+
+    const feed = this.feedRepository.create({
+      userId,
+      name: createFeedDto.name,
+      token: randomBytes(24).toString('base64url'),
+      savedFilterId: createFeedDto.savedFilterId,
+    });
+
+    const result = await this.feedRepository.save(feed);
+    this.logger.debug(`Created calendar feed ${result.id} for user ${userId}`);
+
+    return FeedResponseDto.fromEntity(result);
+  }
+
+  /**
+   * Deletes a feed, after which its URL no longer works
+   */
+  async remove(userId: string, id: string): Promise<void> {
+    const result = await this.feedRepository.delete({ id, userId });
+    if (!result.affected) {
+      throw new NotFoundException(`Feed with ID '${id}' not found`);
+    }
+  }
+
+  /**
+   * Writes the feed's events as they are now in the owner's timezone. The
+   * feed is last modified when its content last differed from what was
+   * served before; DTSTAMPs carry that time so an unchanged calendar keeps
+   * the same ETag.
+   */
+  async render(token: string): Promise<FeedContent> {
+    const feed = await this.feedRepository.findOne({
+      where: { token },
+      relations: ['user', 'savedFilter'],
+    });
+    if (!feed) {
+      throw new NotFoundException('Feed not found');
+    }
+
+    const events = feed.savedFilter
+      ? (await this.spotlightService.search({
+          userId: feed.userId,
+          query: feed.savedFilter.query,
+          includeRelations: true,
+        })).events
+      : await this.localEventRepository.findByUserId(feed.userId);
+    const timezone = feed.user?.timezone || DEFAULT_TIMEZONE;
+    const write = (now: Date) => toEventCalendar(events, { name: feed.name, timezone, now });
+
+    let lastModified = feed.lastModifiedAt;
+    let content = write(lastModified);
+    let contentHash = this.hash(content);
+
+    if (contentHash !== feed.contentHash) {
+      // HTTP dates are to the second
+      lastModified = new Date(Math.floor(Date.now() / 1000) * 1000);
+      content = write(lastModified);
+      contentHash = this.hash(content);
+      await this.feedRepository.update(feed.id, { contentHash, lastModifiedAt: lastModified });
+    }
+
+    return { content, etag: `"${contentHash}"`, lastModified };
+  }
+
+  private hash(content: string): string {
+    return createHash('sha256').update(content).digest('base64url');
+  }
+}
@@ -5,6 +5,7 @@ import { EventFormatterService } from '../event-formatter.service'
 import { LocalEventRepositoryInterface } from '../../../infra/database/repositories/interfaces/local-event-repository.interface'
 import { IdempotencyService } from '../../../infra/redis/idempotency.service'
 import { JobService } from '../../../infra/redis/jobs/job.service'
+import { UserTimezoneService } from '../user-timezone.service'
 import { LocalEvent } from '../../../infra/database/entities/local-event.entity'
 import { Subject } from '../../../infra/database/entities/subject.entity'
 import { Section } from '../../../infra/database/entities/section.entity'
@@ -68,6 +69,12 @@ describe('CalendarSyncService (Comprehensive)', () => {
             getSyncJobStatus: jest.fn(),
           },
         },
+        {
+          provide: UserTimezoneService,
+          useValue: {
+            getTimezone: jest.fn().mockResolvedValue('Asia/Bangkok'),
+          },
+        },
       ],
     }).compile()
 
@@ -7,6 +7,9 @@ import { EventFormatterService } from '../event-formatter.service';
 import { LocalEvent } from '../../../infra/database/entities/local-event.entity';
 import { Subject } from '../../../infra/database/entities/subject.entity';
 import { Section } from '../../../infra/database/entities/section.entity';
+import { CalendarAccount } from '../../../infra/database/entities/calendar-account.entity';
+import { JobService } from '../../../infra/redis/jobs/job.service';
+import { UserTimezoneService } from '../user-timezone.service';
 
 describe('CalendarSyncService', () => {
   let service: CalendarSyncService;
@@ -15,6 +18,9 @@ describe('CalendarSyncService', () => {
   let localEventRepository: jest.Mocked<Repository<LocalEvent>>;
   let subjectRepository: jest.Mocked<Repository<Subject>>;
   let sectionRepository: jest.Mocked<Repository<Section>>;
+  let calendarAccountRepository: jest.Mocked<Repository<CalendarAccount>>;
+  let jobService: jest.Mocked<JobService>;
+  let userTimezoneService: jest.Mocked<UserTimezoneService>;
 
   const mockUserId = 'user-123';
 
@@ -79,6 +85,16 @@ describe('CalendarSyncService', () => {
             createEvent: jest.fn(),
             updateEvent: jest.fn(),
             getEvent: jest.fn(),
+            patchEvent: jest.fn(),
+            deleteEvent: jest.fn(),
+            listEventChanges: jest.fn(),
+            listInstances: jest.fn().mockResolvedValue([]),
+            executeBatch: jest.fn(),
+            getQuotaInfo: jest.fn().mockResolvedValue({
+              remaining: 3000,
+              dailyLimit: 3000,
+              resetTime: new Date('2024-01-16T00:00:00Z'),
+            }),
           },
         },
         {
@@ -86,6 +102,13 @@ describe('CalendarSyncService', () => {
           useValue: {
             formatSingleEvent: jest.fn(),
             formatRecurringEvent: jest.fn(),
+            parseGoogleEvent: jest.fn().mockReturnValue({}),
+            formatExDate: jest.fn(),
+            truncateRecurrence: jest.fn(),
+            parseOriginalStart: jest.fn((instance: any) => ({
+              eventDate: instance.originalStartTime.dateTime.substring(0, 10),
+              startTime: instance.originalStartTime.dateTime.substring(11, 16),
+            })),
           },
         },
         {
@@ -93,6 +116,8 @@ describe('CalendarSyncService', () => {
           useValue: {
             createQueryBuilder: jest.fn(),
             update: jest.fn(),
+            find: jest.fn().mockResolvedValue([]),
+            delete: jest.fn(),
           },
         },
         {
@@ -103,6 +128,25 @@ describe('CalendarSyncService', () => {
           provide: getRepositoryToken(Section),
           useValue: {},
         },
+        {
+          provide: getRepositoryToken(CalendarAccount),
+          useValue: {
+            findOne: jest.fn().mockResolvedValue({ id: 'account-123', syncTokens: { primary: 'token-1' } }),
+            update: jest.fn(),
+          },
+        },
+        {
+          provide: JobService,
+          useValue: {
+            createSyncJob: jest.fn(),
+          },
+        },
+        {
+          provide: UserTimezoneService,
+          useValue: {
+            getTimezone: jest.fn().mockResolvedValue('Asia/Bangkok'),
+          },
+        },
       ],
     }).compile();
 
@@ -112,6 +156,9 @@ describe('CalendarSyncService', () => {
     localEventRepository = module.get(getRepositoryToken(LocalEvent));
     subjectRepository = module.get(getRepositoryToken(Subject));
     sectionRepository = module.get(getRepositoryToken(Section));
+    calendarAccountRepository = module.get(getRepositoryToken(CalendarAccount));
+    jobService = module.get(JobService);
+    userTimezoneService = module.get(UserTimezoneService);
   });
 
   describe('syncToGoogle', () => {
@@ -154,6 +201,7 @@ describe('CalendarSyncService', () => {
         expect.objectContaining({
           summary: 'CS101 Computer Science (001)',
         }),
+        'primary',
       );
 
       expect(localEventRepository.update).toHaveBeenCalledWith(
@@ -166,6 +214,88 @@ describe('CalendarSyncService', () => {
       );
     });
 
+    it('should create events in the calendar chosen for the subject or account', async () => {
+      // Setup - one subject has its own calendar, the other uses the account default
+      const classesEvent = {
+        ...mockLocalEvent,
+        subject: { ...mockSubject, calendarId: 'classes@group.calendar.google.com' },
+      };
+      const otherEvent = {
+        ...mockLocalEvent,
+        id: 'event-456',
+        subjectId: 'subject-456',
+        subject: { ...mockSubject, id: 'subject-456' },
+      };
+      const mockQueryBuilder = {
+        leftJoinAndSelect: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        andWhere: jest.fn().mockReturnThis(),
+        getMany: jest.fn().mockResolvedValue([classesEvent, otherEvent]),
+      };
+
+      localEventRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder as any);
+      calendarAccountRepository.findOne.mockResolvedValue({
+        id: 'account-123',
+        primaryCalendarId: 'semester@group.calendar.google.com',
+        syncTokens: {},
+      } as any);
+      eventFormatterService.formatSingleEvent.mockReturnValue({ summary: 'CS101' } as any);
+      googleCalendarService.createEvent.mockResolvedValue({ eventId: 'google-event-123', etag: 'etag-123' });
+
+      // Execute
+      await service.syncToGoogle(mockUserId, mockSyncOptions);
+
+      // Verify
+      expect(googleCalendarService.createEvent).toHaveBeenCalledWith(
+        mockUserId,
+        expect.any(Object),
+        'classes@group.calendar.google.com',
+      );
+      expect(googleCalendarService.createEvent).toHaveBeenCalledWith(
+        mockUserId,
+        expect.any(Object),
+        'semester@group.calendar.google.com',
+      );
+      expect(localEventRepository.update).toHaveBeenCalledWith('event-456', expect.objectContaining({
+        gcalCalendarId: 'semester@group.calendar.google.com',
+      }));
+      // Both calendars are read on the next pull
+      expect(calendarAccountRepository.update).toHaveBeenCalledWith('account-123', {
+        syncTokens: {
+          'classes@group.calendar.google.com': null,
+          'semester@group.calendar.google.com': null,
+        },
+      });
+    });
+
+    it('should read the timezone once for every event pushed', async () => {
+      // Setup - two sections, so two groups of single events
+      const otherEvent = { ...mockLocalEvent, id: 'event-456', sectionId: 'section-456' };
+      const mockQueryBuilder = {
+        leftJoinAndSelect: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        andWhere: jest.fn().mockReturnThis(),
+        getMany: jest.fn().mockResolvedValue([mockLocalEvent, otherEvent]),
+      };
+
+      localEventRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder as any);
+      eventFormatterService.formatSingleEvent.mockReturnValue({ summary: 'CS101' } as any);
+      googleCalendarService.createEvent.mockResolvedValue({ eventId: 'google-event-123', etag: 'etag-123' });
+
+      // Execute
+      await service.syncToGoogle(mockUserId, mockSyncOptions);
+
+      // Verify
+      expect(userTimezoneService.getTimezone).toHaveBeenCalledTimes(1);
+      expect(eventFormatterService.formatSingleEvent).toHaveBeenCalledTimes(2);
+      expect(eventFormatterService.formatSingleEvent).toHaveBeenCalledWith(
+        otherEvent,
+        otherEvent.subject,
+        otherEvent.section,
+        { timezone: 'Asia/Bangkok' },
+      );
+    });
+
     it('should update existing events in Google Calendar', async () => {
       // Setup
       const existingEvent = {
@@ -210,6 +340,7 @@ describe('CalendarSyncService', () => {
         'existing-google-id',
         expect.any(Object),
         'old-etag',
+        'primary',
       );
     });
 
@@ -306,10 +437,10 @@ describe('CalendarSyncService', () => {
     it('should sync recurring events with RRULE', async () => {
       // Setup - multiple events with same pattern
       const recurringEvents = [
-        { ...mockLocalEvent, id: 'event-1', eventDate: new Date('2024-01-15') },
-        { ...mockLocalEvent, id: 'event-2', eventDate: new Date('2024-01-17') },
-        { ...mockLocalEvent, id: 'event-3', eventDate: new Date('2024-01-19') },
-        { ...mockLocalEvent, id: 'event-4', eventDate: new Date('2024-01-22') },
+        { ...mockLocalEvent, id: 'event-1', eventDate: '2024-01-15' },
+        { ...mockLocalEvent, id: 'event-2', eventDate: '2024-01-17' },
+        { ...mockLocalEvent, id: 'event-3', eventDate: '2024-01-19' },
+        { ...mockLocalEvent, id: 'event-4', eventDate: '2024-01-22' },
       ];
 
       const mockQueryBuilder = {
@@ -330,24 +461,551 @@ describe('CalendarSyncService', () => {
         eventId: 'recurring-google-id',
         etag: 'recurring-etag',
       });
+      googleCalendarService.listInstances.mockResolvedValue(
+        recurringEvents.map(event => ({
+          id: `recurring-google-id_${event.eventDate.replace(/-/g, '')}T020000Z`,
+          etag: `instance-etag-${event.id}`,
+          originalStartTime: { dateTime: `${event.eventDate}T09:00:00+07:00` },
+        })),
+      );
 
-      localEventRepository.update.mockResolvedValue({ affected: 4 } as any);
+      localEventRepository.update.mockResolvedValue({ affected: 1 } as any);
 
       // Execute
       const result = await service.syncToGoogle(mockUserId, mockSyncOptions);
 
       // Verify
       expect(result.summary.created).toBe(4); // All events marked as created
-      expect(result.quotaUsed).toBe(1); // Only one API call for RRULE
+      expect(result.quotaUsed).toBe(2); // One insert for the series plus one instance listing
       expect(eventFormatterService.formatRecurringEvent).toHaveBeenCalledWith(
         recurringEvents,
         mockSubject,
         mockSection,
+        { timezone: 'Asia/Bangkok' },
+      );
+      expect(localEventRepository.update).toHaveBeenCalledWith('event-1', {
+        status: 'synced',
+        dirty: false,
+        gcalEventId: 'recurring-google-id_20240115T020000Z',
+        gcalCalendarId: 'primary',
+        gcalRecurringEventId: 'recurring-google-id',
+        gcalEtag: 'instance-etag-event-1',
+      });
+      expect(result.details[3].googleEventId).toBe('recurring-google-id_20240122T020000Z');
+    });
+
+    it('should update synced occurrences one by one and create new ones as a new series', async () => {
+      // Setup - one edited occurrence of an existing series and four new events
+      const editedOccurrence = {
+        ...mockLocalEvent,
+        id: 'event-0',
+        eventDate: '2024-01-08',
+        status: 'synced' as const,
+        gcalEventId: 'series-1_20240108T020000Z',
+        gcalRecurringEventId: 'series-1',
+        gcalEtag: 'instance-etag',
+      };
+      const newEvents = ['2024-01-15', '2024-01-22', '2024-01-29', '2024-02-05'].map((eventDate, i) => ({
+        ...mockLocalEvent,
+        id: `event-${i + 1}`,
+        eventDate,
+      }));
+
+      localEventRepository.createQueryBuilder.mockReturnValue({
+        leftJoinAndSelect: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        andWhere: jest.fn().mockReturnThis(),
+        getMany: jest.fn().mockResolvedValue([editedOccurrence, ...newEvents]),
+      } as any);
+      eventFormatterService.formatSingleEvent.mockReturnValue({ summary: 'Moved session' } as any);
+      eventFormatterService.formatRecurringEvent.mockReturnValue({ summary: 'New series' } as any);
+      googleCalendarService.updateEvent.mockResolvedValue({ eventId: 'series-1_20240108T020000Z', etag: 'exception-etag' });
+      googleCalendarService.createEvent.mockResolvedValue({ eventId: 'series-2', etag: 'series-2-etag' });
+
+      // Execute
+      const result = await service.syncToGoogle(mockUserId, mockSyncOptions);
+
+      // Verify
+      expect(googleCalendarService.updateEvent).toHaveBeenCalledWith(
+        mockUserId,
+        'series-1_20240108T020000Z',
+        { summary: 'Moved session' },
+        'instance-etag',
+        'primary',
+      );
+      expect(eventFormatterService.formatRecurringEvent).toHaveBeenCalledWith(
+        newEvents,
+        mockSubject,
+        mockSection,
+        { timezone: 'Asia/Bangkok' },
+      );
+      expect(result.summary.updated).toBe(1);
+      expect(result.summary.created).toBe(4);
+    });
+
+    it('should create a new extra session on its own without breaking up the series', async () => {
+      const weeklyEvents = ['2024-01-15', '2024-01-22', '2024-01-29', '2024-02-05'].map((eventDate, i) => ({
+        ...mockLocalEvent,
+        id: `event-${i + 1}`,
+        eventDate,
+      }));
+      const extraSession = {
+        ...mockLocalEvent,
+        id: 'event-extra',
+        eventDate: '2024-01-27',
+        startTime: '13:00',
+        endTime: '16:00',
+        exceptionId: 'exception-1',
+        exceptionType: 'extra' as const,
+      };
+
+      localEventRepository.createQueryBuilder.mockReturnValue({
+        leftJoinAndSelect: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        andWhere: jest.fn().mockReturnThis(),
+        getMany: jest.fn().mockResolvedValue([...weeklyEvents, extraSession]),
+      } as any);
+      eventFormatterService.formatSingleEvent.mockReturnValue({ summary: 'Extra session' } as any);
+      eventFormatterService.formatRecurringEvent.mockReturnValue({ summary: 'New series' } as any);
+      googleCalendarService.createEvent.mockResolvedValue({ eventId: 'google-id', etag: 'etag' });
+
+      // Execute
+      const result = await service.syncToGoogle(mockUserId, mockSyncOptions);
+
+      // Verify
+      expect(eventFormatterService.formatRecurringEvent).toHaveBeenCalledWith(
+        weeklyEvents,
+        mockSubject,
+        mockSection,
+        { timezone: 'Asia/Bangkok' },
+      );
+      expect(eventFormatterService.formatSingleEvent).toHaveBeenCalledWith(
+        extraSession,
+        mockSubject,
+        mockSection,
+        expect.anything(),
+      );
+      expect(result.summary.created).toBe(5);
+    });
+  });
+
+  describe('batched single events', () => {
+    // Ten events of one section at different times, so no RRULE applies
+    const irregularEvents = Array.from({ length: 10 }, (_, i) => ({
+      ...mockLocalEvent,
+      id: `event-${i + 1}`,
+      eventDate: `2024-01-${String(i + 10).padStart(2, '0')}`,
+      startTime: `${String(8 + (i % 5)).padStart(2, '0')}:00`,
+      ...(i < 2 ? { gcalEventId: `google-${i + 1}`, gcalEtag: `etag-${i + 1}`, status: 'synced' as const } : {}),
+    }));
+
+    beforeEach(() => {
+      localEventRepository.createQueryBuilder.mockReturnValue({
+        leftJoinAndSelect: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        andWhere: jest.fn().mockReturnThis(),
+        getMany: jest.fn().mockResolvedValue(irregularEvents),
+      } as any);
+      eventFormatterService.formatSingleEvent.mockImplementation(async (event: any) => ({ summary: event.id }) as any);
+    });
+
+    it('should create and update large groups through one batch', async () => {
+      // Setup
+      googleCalendarService.executeBatch.mockImplementation(async (userId, operations) => ({
+        successful: operations.map(operation => ({
+          localEventId: operation.localEventId,
+          googleEventId: operation.method === 'create' ? `new-${operation.localEventId}` : (operation as any).eventId,
+          etag: 'batch-etag',
+        })),
+        failed: [],
+        requestsSent: operations.length,
+      }));
+
+      // Execute
+      const result = await service.syncToGoogle(mockUserId, mockSyncOptions);
+
+      // Verify
+      expect(googleCalendarService.executeBatch).toHaveBeenCalledTimes(1);
+      const operations = googleCalendarService.executeBatch.mock.calls[0][1];
+      expect(operations[0]).toEqual(expect.objectContaining({
+        method: 'update',
+        eventId: 'google-1',
+        etag: 'etag-1',
+        calendarId: 'primary',
+      }));
+      expect(operations[2]).toEqual(expect.objectContaining({ method: 'create', calendarId: 'primary' }));
+      expect(googleCalendarService.createEvent).not.toHaveBeenCalled();
+      expect(result.summary).toEqual(expect.objectContaining({ created: 8, updated: 2, failed: 0 }));
+      expect(result.quotaUsed).toBe(10);
+      expect(localEventRepository.update).toHaveBeenCalledWith('event-3', {
+        gcalEventId: 'new-event-3',
+        gcalCalendarId: 'primary',
+        gcalEtag: 'batch-etag',
+        status: 'synced',
+        dirty: false,
+      });
+    });
+
+    it('should report batch item failures and check ETag conflicts', async () => {
+      // Setup
+      googleCalendarService.executeBatch.mockResolvedValue({
+        successful: [],
+        failed: [
+          { localEventId: 'event-1', error: 'Google Calendar event was modified by another client (ETag mismatch)', status: 412 },
+          { localEventId: 'event-3', error: 'Google Calendar API error: Invalid event data', status: 400 },
+        ],
+        requestsSent: 2,
+      });
+      googleCalendarService.getEvent.mockResolvedValue({ id: 'google-1', etag: 'etag-remote' } as any);
+
+      // Execute
+      const result = await service.syncToGoogle(mockUserId, mockSyncOptions);
+
+      // Verify
+      expect(result.summary.failed).toBe(2);
+      expect(result.conflicts).toHaveLength(1);
+      expect(result.conflicts[0].localEventId).toBe('event-1');
+    });
+
+    it('should count retried batch requests as quota used', async () => {
+      // Setup
+      googleCalendarService.executeBatch.mockImplementation(async (userId, operations) => ({
+        successful: operations.map(operation => ({
+          localEventId: operation.localEventId,
+          googleEventId: `new-${operation.localEventId}`,
+          etag: 'batch-etag',
+        })),
+        failed: [],
+        // Three items were rate limited and sent again
+        requestsSent: operations.length + 3,
+      }));
+
+      // Execute
+      const result = await service.syncToGoogle(mockUserId, mockSyncOptions);
+
+      // Verify
+      expect(result.quotaUsed).toBe(13);
+    });
+
+    it('should keep syncing one by one on a dry run', async () => {
+      // Execute
+      const result = await service.syncToGoogle(mockUserId, { ...mockSyncOptions, dryRun: true });
+
+      // Verify
+      expect(googleCalendarService.executeBatch).not.toHaveBeenCalled();
+      expect(result.summary.created).toBe(8);
+    });
+  });
+
+  describe('quota planning', () => {
+    // Single events on different sections, so each costs one request
+    const singleEvents = ['2024-01-22', '2024-01-08', '2024-01-29', '2024-01-15'].map((eventDate, i) => ({
+      ...mockLocalEvent,
+      id: `event-${i + 1}`,
+      sectionId: `section-${i + 1}`,
+      eventDate,
+    }));
+
+    beforeEach(() => {
+      jest.useFakeTimers().setSystemTime(new Date('2024-01-15T20:00:00Z'));
+      localEventRepository.createQueryBuilder.mockReturnValue({
+        leftJoinAndSelect: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        andWhere: jest.fn().mockReturnThis(),
+        getMany: jest.fn().mockResolvedValue(singleEvents),
+      } as any);
+      eventFormatterService.formatSingleEvent.mockReturnValue({ summary: 'CS101' } as any);
+      googleCalendarService.createEvent.mockResolvedValue({ eventId: 'google-event-123', etag: 'etag-123' });
+      jobService.createSyncJob.mockImplementation(async () => ({ id: `job-${jobService.createSyncJob.mock.calls.length}` }) as any);
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should report the estimate and run everything when the quota allows', async () => {
+      // Execute
+      const result = await service.syncToGoogle(mockUserId, mockSyncOptions);
+
+      // Verify
+      expect(result.estimatedQuota).toBe(4);
+      expect(result.deferred).toBeUndefined();
+      expect(googleCalendarService.createEvent).toHaveBeenCalledTimes(4);
+      expect(jobService.createSyncJob).not.toHaveBeenCalled();
+    });
+
+    it('should push the soonest events and queue the rest after the quota resets', async () => {
+      // Setup
+      googleCalendarService.getQuotaInfo.mockResolvedValue({
+        remaining: 2,
+        dailyLimit: 1,
+        resetTime: new Date('2024-01-16T00:00:00Z'),
+      });
+
+      // Execute
+      const result = await service.syncToGoogle(mockUserId, mockSyncOptions);
+
+      // Verify
+      expect(result.summary.created).toBe(2);
+      expect(result.details.map(detail => detail.localEventId)).toEqual(['event-2', 'event-4']);
+      expect(result.deferred).toEqual({
+        eventIds: ['event-1', 'event-3'],
+        estimatedQuota: 2,
+        resumeAt: new Date('2024-01-16T00:00:00Z'),
+        jobIds: ['job-1', 'job-2'],
+      });
+      // One job per day's worth of quota, the first when the quota resets
+      expect(jobService.createSyncJob).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({ userId: mockUserId, direction: 'upsert-to-google', eventIds: ['event-1'] }),
+        { delay: 4 * 60 * 60 * 1000 },
       );
+      expect(jobService.createSyncJob).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({ eventIds: ['event-3'], idempotencyKey: 'test-key-123-deferred-2' }),
+        { delay: 28 * 60 * 60 * 1000 },
+      );
+    });
+
+    it('should count a new series as a single insert', async () => {
+      // Setup - four weekly occurrences of one section
+      const series = singleEvents.map(event => ({ ...event, sectionId: 'section-123' }));
+      localEventRepository.createQueryBuilder.mockReturnValue({
+        leftJoinAndSelect: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        andWhere: jest.fn().mockReturnThis(),
+        getMany: jest.fn().mockResolvedValue(series),
+      } as any);
+
+      // Execute
+      const result = await service.syncToGoogle(mockUserId, { ...mockSyncOptions, dryRun: true });
+
+      // Verify
+      expect(result.estimatedQuota).toBe(2);
+    });
+
+    it('should not queue jobs on a dry run', async () => {
+      // Setup
+      googleCalendarService.getQuotaInfo.mockResolvedValue({
+        remaining: 1,
+        dailyLimit: 3000,
+        resetTime: new Date('2024-01-16T00:00:00Z'),
+      });
+
+      // Execute
+      const result = await service.syncToGoogle(mockUserId, { ...mockSyncOptions, dryRun: true });
+
+      // Verify
+      expect(result.deferred).toEqual(expect.objectContaining({
+        eventIds: ['event-4', 'event-1', 'event-3'],
+        jobIds: [],
+      }));
+      expect(jobService.createSyncJob).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleted events', () => {
+    const deletedEvent = {
+      ...mockLocalEvent,
+      status: 'deleted' as const,
+      gcalEventId: 'google-123',
+      gcalEtag: 'etag-123',
+    };
+
+    beforeEach(() => {
+      localEventRepository.createQueryBuilder.mockReturnValue({
+        leftJoinAndSelect: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        andWhere: jest.fn().mockReturnThis(),
+        getMany: jest.fn().mockResolvedValue([]),
+      } as any);
+    });
+
+    it('should delete the Google event and drop the local row', async () => {
+      // Setup
+      localEventRepository.find.mockResolvedValueOnce([deletedEvent]);
+
+      // Execute
+      const result = await service.syncToGoogle(mockUserId, mockSyncOptions);
+
+      // Verify
+      expect(result.summary.deleted).toBe(1);
+      expect(result.quotaUsed).toBe(1);
+      expect(result.details[0]).toEqual({
+        localEventId: 'event-123',
+        googleEventId: 'google-123',
+        action: 'deleted',
+      });
+      expect(googleCalendarService.deleteEvent).toHaveBeenCalledWith(mockUserId, 'google-123', 'primary');
+      expect(localEventRepository.delete).toHaveBeenCalledWith(['event-123']);
+    });
+
+    describe('occurrences of a series', () => {
+      const occurrence = (id: string, eventDate: string, status: LocalEvent['status']) => ({
+        ...mockLocalEvent,
+        id,
+        eventDate,
+        status,
+        gcalEventId: `series-1_${eventDate.replace(/-/g, '')}T020000Z`,
+        gcalRecurringEventId: 'series-1',
+        gcalEtag: 'instance-etag',
+      });
+      const recurrence = ['RRULE:FREQ=WEEKLY;INTERVAL=1;BYDAY=MO;UNTIL=20240531T235959Z'];
+
+      beforeEach(() => {
+        googleCalendarService.getEvent.mockResolvedValue({ id: 'series-1', etag: 'series-etag', recurrence });
+        googleCalendarService.patchEvent.mockResolvedValue({ eventId: 'series-1', etag: 'patched-etag' });
+        googleCalendarService.listInstances.mockResolvedValue([
+          {
+            id: 'series-1_20240122T020000Z',
+            etag: 'refreshed-etag',
+            originalStartTime: { dateTime: '2024-01-22T09:00:00+07:00' },
+          },
+        ]);
+      });
+
+      it('should exclude removed occurrences with EXDATEs', async () => {
+        // Setup
+        localEventRepository.find
+          .mockResolvedValueOnce([occurrence('event-1', '2024-01-15', 'deleted')])
+          .mockResolvedValueOnce([occurrence('event-2', '2024-01-22', 'synced')]);
+        eventFormatterService.formatExDate.mockReturnValue('EXDATE;TZID=Asia/Bangkok:20240115T090000');
+
+        // Execute
+        const result = await service.syncToGoogle(mockUserId, mockSyncOptions);
+
+        // Verify
+        expect(result.summary.deleted).toBe(1);
+        expect(result.quotaUsed).toBe(3);
+        expect(googleCalendarService.deleteEvent).not.toHaveBeenCalled();
+        expect(eventFormatterService.truncateRecurrence).not.toHaveBeenCalled();
+        expect(googleCalendarService.patchEvent).toHaveBeenCalledWith(
+          mockUserId,
+          'series-1',
+          { recurrence: [...recurrence, 'EXDATE;TZID=Asia/Bangkok:20240115T090000'] },
+          'series-etag',
+          'primary',
+        );
+        expect(localEventRepository.update).toHaveBeenCalledWith('event-2', {
+          gcalEventId: 'series-1_20240122T020000Z',
+          gcalRecurringEventId: 'series-1',
+          gcalEtag: 'refreshed-etag',
+        });
+        expect(localEventRepository.delete).toHaveBeenCalledWith(['event-1']);
+      });
+
+      it('should end the series early when its last occurrences were removed', async () => {
+        // Setup
+        const truncated = ['RRULE:FREQ=WEEKLY;INTERVAL=1;BYDAY=MO;UNTIL=20240122T235959Z'];
+        localEventRepository.find
+          .mockResolvedValueOnce([
+            occurrence('event-3', '2024-01-29', 'deleted'),
+            occurrence('event-4', '2024-02-05', 'deleted'),
+          ])
+          .mockResolvedValueOnce([occurrence('event-2', '2024-01-22', 'synced')]);
+        eventFormatterService.truncateRecurrence.mockReturnValue(truncated);
+
+        // Execute
+        const result = await service.syncToGoogle(mockUserId, mockSyncOptions);
+
+        // Verify
+        expect(result.summary.deleted).toBe(2);
+        expect(eventFormatterService.truncateRecurrence).toHaveBeenCalledWith(recurrence, '2024-01-22', 'Asia/Bangkok');
+        expect(eventFormatterService.formatExDate).not.toHaveBeenCalled();
+        expect(googleCalendarService.patchEvent).toHaveBeenCalledWith(
+          mockUserId,
+          'series-1',
+          { recurrence: truncated },
+          'series-etag',
+          'primary',
+        );
+        expect(localEventRepository.delete).toHaveBeenCalledWith(['event-3', 'event-4']);
+      });
+
+      it('should delete the series once no occurrence is left', async () => {
+        // Setup
+        localEventRepository.find.mockResolvedValueOnce([occurrence('event-1', '2024-01-15', 'deleted')]);
+
+        // Execute
+        await service.syncToGoogle(mockUserId, mockSyncOptions);
+
+        // Verify
+        expect(googleCalendarService.deleteEvent).toHaveBeenCalledWith(mockUserId, 'series-1', 'primary');
+        expect(googleCalendarService.patchEvent).not.toHaveBeenCalled();
+      });
+    });
+
+    it('should drop deleted events that were never linked without calling Google', async () => {
+      // Setup
+      localEventRepository.find.mockResolvedValue([{ ...deletedEvent, gcalEventId: null }]);
+
+      // Execute
+      const result = await service.syncToGoogle(mockUserId, mockSyncOptions);
+
+      // Verify
+      expect(result.summary.deleted).toBe(1);
+      expect(result.quotaUsed).toBe(0);
+      expect(googleCalendarService.deleteEvent).not.toHaveBeenCalled();
+      expect(localEventRepository.delete).toHaveBeenCalledWith(['event-123']);
+    });
+
+    it('should keep the local row when the Google delete fails', async () => {
+      // Setup
+      localEventRepository.find.mockResolvedValueOnce([deletedEvent]);
+      googleCalendarService.deleteEvent.mockRejectedValue(new Error('Google Calendar API rate limit exceeded'));
+
+      // Execute
+      const result = await service.syncToGoogle(mockUserId, mockSyncOptions);
+
+      // Verify
+      expect(result.summary.failed).toBe(1);
+      expect(localEventRepository.delete).not.toHaveBeenCalled();
+    });
+
+    it('should remove the Google events of rows a transaction already deleted', async () => {
+      // Setup - two occurrences of one series and a class that never reached Google
+      const seriesEvents = ['event-1', 'event-2'].map(id => ({
+        ...mockLocalEvent,
+        id,
+        status: 'synced' as const,
+        gcalEventId: `google-series_${id}`,
+        gcalRecurringEventId: 'google-series',
+        gcalCalendarId: 'classes@group.calendar.google.com',
+      }));
+      localEventRepository.find.mockResolvedValue([]);
+
+      // Execute
+      const result = await service.removeDeletedEvents(mockUserId, [...seriesEvents, { ...mockLocalEvent, id: 'event-3' }]);
+
+      // Verify
+      expect(result.summary.deleted).toBe(2);
+      expect(googleCalendarService.deleteEvent).toHaveBeenCalledTimes(1);
+      expect(googleCalendarService.deleteEvent).toHaveBeenCalledWith(
+        mockUserId,
+        'google-series',
+        'classes@group.calendar.google.com',
+      );
+    });
+
+    it('should not change anything in dry run mode', async () => {
+      // Setup
+      localEventRepository.find.mockResolvedValueOnce([deletedEvent]);
+
+      // Execute
+      const result = await service.syncToGoogle(mockUserId, { ...mockSyncOptions, dryRun: true });
+
+      // Verify
+      expect(result.summary.deleted).toBe(1);
+      expect(googleCalendarService.deleteEvent).not.toHaveBeenCalled();
+      expect(localEventRepository.delete).not.toHaveBeenCalled();
     });
   });
 
   describe('resolveConflicts', () => {
+    beforeEach(() => {
+      localEventRepository.find.mockResolvedValue([mockLocalEvent]);
+    });
+
     it('should resolve conflicts with use_local action', async () => {
       // Setup
       const conflict = {
@@ -388,6 +1046,8 @@ describe('CalendarSyncService', () => {
         mockUserId,
         'google-123',
         expect.any(Object),
+        undefined,
+        'primary',
       );
     });
 
@@ -464,6 +1124,387 @@ describe('CalendarSyncService', () => {
         }),
       );
     });
+
+    it('should resolve conflicts with use_google action by pulling the Google version', async () => {
+      // Setup
+      const linkedEvent = { ...mockLocalEvent, gcalEventId: 'google-123', gcalEtag: 'old-etag' };
+      localEventRepository.find.mockResolvedValue([linkedEvent]);
+
+      const conflict = {
+        localEventId: 'event-123',
+        googleEventId: 'google-123',
+        conflictType: 'etag_mismatch' as const,
+        localEvent: linkedEvent,
+        googleEvent: { id: 'google-123', etag: 'stale-client-copy' },
+        suggestedResolution: {
+          action: 'use_google' as const,
+          reason: 'Use Google version',
+        },
+      };
+
+      googleCalendarService.getEvent.mockResolvedValue({ id: 'google-123', etag: 'google-etag' });
+      eventFormatterService.parseGoogleEvent.mockReturnValue({ room: 'Room 202', startTime: '10:00' });
+      localEventRepository.update.mockResolvedValue({ affected: 1 } as any);
+
+      // Execute
+      const result = await service.resolveConflicts(mockUserId, [conflict], [conflict.suggestedResolution]);
+
+      // Verify
+      expect(result.summary.updated).toBe(1);
+      expect(result.details[0].etag).toBe('google-etag');
+      expect(googleCalendarService.getEvent).toHaveBeenCalledWith(mockUserId, 'google-123', 'primary');
+      expect(localEventRepository.update).toHaveBeenCalledWith('event-123', {
+        room: 'Room 202',
+        startTime: '10:00',
+        gcalEtag: 'google-etag',
+        status: 'synced',
+        dirty: false,
+      });
+    });
+
+    it('should refuse to resolve conflicts for events the user does not own', async () => {
+      // Setup
+      const conflict = {
+        localEventId: 'someone-elses-event',
+        googleEventId: 'google-123',
+        conflictType: 'modified_externally' as const,
+        localEvent: mockLocalEvent,
+        suggestedResolution: {
+          action: 'unlink' as const,
+          reason: 'Unlink from Google',
+        },
+      };
+
+      localEventRepository.find.mockResolvedValue([]);
+
+      // Execute
+      const result = await service.resolveConflicts(mockUserId, [conflict], [conflict.suggestedResolution]);
+
+      // Verify
+      expect(result.summary.failed).toBe(1);
+      expect(result.details[0].error).toContain('not found');
+      expect(localEventRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('pullFromGoogle', () => {
+    const pullOptions: SyncOptions = { ...mockSyncOptions, direction: 'pull-from-google' };
+
+    const mockChanges = (events: any[], requests = 1) => {
+      googleCalendarService.listEventChanges.mockResolvedValue({
+        events,
+        nextSyncToken: 'token-2',
+        fullResync: false,
+        requests,
+      });
+    };
+
+    it('should apply Google edits to linked local events', async () => {
+      // Setup
+      const linkedEvent = { ...mockLocalEvent, status: 'synced' as const, gcalEventId: 'google-123', gcalEtag: 'old-etag' };
+      mockChanges([{ id: 'google-123', etag: 'new-etag' }, { id: 'unrelated', etag: 'x' }]);
+      localEventRepository.find.mockResolvedValue([linkedEvent]);
+      eventFormatterService.parseGoogleEvent.mockReturnValue({ eventDate: '2024-01-16', room: 'Room 202' });
+
+      // Execute
+      const result = await service.sync(mockUserId, pullOptions);
+
+      // Verify
+      expect(result.summary.updated).toBe(1);
+      expect(result.quotaUsed).toBe(1);
+      expect(googleCalendarService.listEventChanges).toHaveBeenCalledWith(mockUserId, 'token-1', 'primary');
+      expect(googleCalendarService.getEvent).not.toHaveBeenCalled();
+      expect(localEventRepository.update).toHaveBeenCalledWith('event-123', {
+        eventDate: '2024-01-16',
+        room: 'Room 202',
+        gcalEtag: 'new-etag',
+        status: 'synced',
+        dirty: false,
+      });
+      expect(calendarAccountRepository.update).toHaveBeenCalledWith('account-123', {
+        syncTokens: { primary: 'token-2' },
+        lastSyncedAt: expect.any(Date),
+      });
+      expect(googleCalendarService.createEvent).not.toHaveBeenCalled();
+    });
+
+    it('should read the timezone once for every event pulled', async () => {
+      // Setup
+      const linkedEvents = ['google-123', 'google-456'].map((gcalEventId, i) => ({
+        ...mockLocalEvent,
+        id: `event-${i}`,
+        status: 'synced' as const,
+        gcalEventId,
+        gcalEtag: 'old-etag',
+      }));
+      mockChanges([{ id: 'google-123', etag: 'new-etag' }, { id: 'google-456', etag: 'new-etag' }]);
+      localEventRepository.find.mockResolvedValueOnce(linkedEvents);
+      eventFormatterService.parseGoogleEvent.mockReturnValue({ room: 'Room 202' });
+
+      // Execute
+      const result = await service.sync(mockUserId, pullOptions);
+
+      // Verify
+      expect(result.summary.updated).toBe(2);
+      expect(userTimezoneService.getTimezone).toHaveBeenCalledTimes(1);
+      expect(eventFormatterService.parseGoogleEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'google-456' }),
+        linkedEvents[1],
+        'Asia/Bangkok',
+      );
+    });
+
+    it('should count every listed page towards quota', async () => {
+      // Setup
+      mockChanges([], 3);
+
+      // Execute
+      const result = await service.pullFromGoogle(mockUserId, pullOptions);
+
+      // Verify
+      expect(result.quotaUsed).toBe(3);
+      expect(localEventRepository.find).not.toHaveBeenCalled();
+    });
+
+    it('should ignore changes that echo our own pushes', async () => {
+      // Setup
+      const linkedEvent = { ...mockLocalEvent, gcalEventId: 'google-123', gcalEtag: 'same-etag' };
+      mockChanges([{ id: 'google-123', etag: 'same-etag' }]);
+      localEventRepository.find.mockResolvedValue([linkedEvent]);
+
+      // Execute
+      const result = await service.pullFromGoogle(mockUserId, pullOptions);
+
+      // Verify
+      expect(result.details).toHaveLength(0);
+      expect(eventFormatterService.parseGoogleEvent).not.toHaveBeenCalled();
+      expect(localEventRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should not write anything or move the cursor in dry run mode', async () => {
+      // Setup
+      const linkedEvent = { ...mockLocalEvent, gcalEventId: 'google-123', gcalEtag: 'old-etag' };
+      mockChanges([{ id: 'google-123', etag: 'new-etag' }]);
+      localEventRepository.find.mockResolvedValue([linkedEvent]);
+      eventFormatterService.parseGoogleEvent.mockReturnValue({ startTime: '10:00' });
+
+      // Execute
+      const result = await service.pullFromGoogle(mockUserId, { ...pullOptions, dryRun: true });
+
+      // Verify
+      expect(result.isDryRun).toBe(true);
+      expect(result.summary.updated).toBe(1);
+      expect(localEventRepository.update).not.toHaveBeenCalled();
+      expect(calendarAccountRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should keep the cursor when a change fails to apply', async () => {
+      // Setup
+      const linkedEvent = { ...mockLocalEvent, gcalEventId: 'google-123', gcalEtag: 'old-etag' };
+      mockChanges([{ id: 'google-123', etag: 'new-etag' }]);
+      localEventRepository.find.mockResolvedValue([linkedEvent]);
+      eventFormatterService.parseGoogleEvent.mockImplementation(() => {
+        throw new Error('All-day events cannot be mapped onto a class session');
+      });
+
+      // Execute
+      const result = await service.pullFromGoogle(mockUserId, pullOptions);
+
+      // Verify
+      expect(result.summary.failed).toBe(1);
+      expect(calendarAccountRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should report events cancelled on Google as conflicts', async () => {
+      // Setup
+      const linkedEvent = { ...mockLocalEvent, gcalEventId: 'google-123', gcalEtag: 'old-etag' };
+      mockChanges([{ id: 'google-123', status: 'cancelled' }]);
+      localEventRepository.find.mockResolvedValue([linkedEvent]);
+
+      // Execute
+      const result = await service.pullFromGoogle(mockUserId, pullOptions);
+
+      // Verify
+      expect(result.summary.skipped).toBe(1);
+      expect(result.conflicts).toHaveLength(1);
+      expect(result.conflicts[0].conflictType).toBe('deleted_on_google');
+    });
+
+    it('should skip changed events that share a recurring Google event', async () => {
+      // Setup
+      mockChanges([{ id: 'series-123', etag: 'new-etag' }]);
+      localEventRepository.find.mockResolvedValue([
+        { ...mockLocalEvent, id: 'event-1', gcalEventId: 'series-123', gcalRecurringEventId: 'series-123', gcalEtag: 'etag' },
+        { ...mockLocalEvent, id: 'event-2', gcalEventId: 'series-123', gcalRecurringEventId: 'series-123', gcalEtag: 'etag' },
+      ]);
+
+      // Execute
+      const result = await service.pullFromGoogle(mockUserId, pullOptions);
+
+      // Verify
+      expect(result.summary.skipped).toBe(2);
+      expect(eventFormatterService.parseGoogleEvent).not.toHaveBeenCalled();
+    });
+
+    it('should apply a change to a whole series to each occurrence', async () => {
+      // Setup
+      const occurrences = ['2024-01-15', '2024-01-22'].map((eventDate, i) => ({
+        ...mockLocalEvent,
+        id: `event-${i + 1}`,
+        eventDate,
+        status: 'synced' as const,
+        gcalEventId: `series-1_${eventDate.replace(/-/g, '')}T020000Z`,
+        gcalRecurringEventId: 'series-1',
+        gcalEtag: 'old-etag',
+      }));
+      mockChanges([{ id: 'series-1', etag: 'series-etag', recurrence: ['RRULE:FREQ=WEEKLY'] }]);
+      localEventRepository.find.mockResolvedValueOnce([]).mockResolvedValueOnce(occurrences);
+      googleCalendarService.listInstances.mockResolvedValue([
+        { id: 'series-1_20240115T020000Z', etag: 'new-etag', location: 'Room 202' },
+      ]);
+      eventFormatterService.parseGoogleEvent.mockReturnValue({ room: 'Room 202' });
+
+      // Execute
+      const result = await service.pullFromGoogle(mockUserId, pullOptions);
+
+      // Verify
+      expect(googleCalendarService.listInstances).toHaveBeenCalledWith(mockUserId, 'series-1', 'primary');
+      expect(result.quotaUsed).toBe(2);
+      expect(result.summary.updated).toBe(1);
+      expect(localEventRepository.update).toHaveBeenCalledWith('event-1', expect.objectContaining({
+        room: 'Room 202',
+        gcalEtag: 'new-etag',
+      }));
+      // The second occurrence is gone from the series
+      expect(result.conflicts).toHaveLength(1);
+      expect(result.conflicts[0]).toEqual(expect.objectContaining({
+        localEventId: 'event-2',
+        conflictType: 'deleted_on_google',
+      }));
+    });
+
+    it('should read events directly and keep the cursor when scoped to event IDs', async () => {
+      // Setup
+      const linkedEvent = { ...mockLocalEvent, gcalEventId: 'google-123', gcalEtag: 'old-etag' };
+      localEventRepository.createQueryBuilder.mockReturnValue({
+        leftJoinAndSelect: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        andWhere: jest.fn().mockReturnThis(),
+        getMany: jest.fn().mockResolvedValue([linkedEvent]),
+      } as any);
+      googleCalendarService.getEvent.mockRejectedValue(new Error('Google Calendar event not found'));
+
+      // Execute
+      const result = await service.pullFromGoogle(mockUserId, { ...pullOptions, eventIds: ['event-123'] });
+
+      // Verify
+      expect(result.quotaUsed).toBe(1);
+      expect(result.conflicts[0].conflictType).toBe('deleted_on_google');
+      expect(googleCalendarService.listEventChanges).not.toHaveBeenCalled();
+      expect(calendarAccountRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('syncBidirectional', () => {
+    const bidirectionalOptions: SyncOptions = { ...mockSyncOptions, direction: 'bidirectional' };
+
+    const mockDirtyEvents = (events: LocalEvent[]) => {
+      localEventRepository.createQueryBuilder.mockReturnValue({
+        leftJoinAndSelect: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        andWhere: jest.fn().mockReturnThis(),
+        getMany: jest.fn().mockResolvedValue(events),
+      } as any);
+    };
+
+    it('should take the Google version when the local event has no pending changes', async () => {
+      // Setup
+      const linkedEvent = { ...mockLocalEvent, gcalEventId: 'google-123', gcalEtag: 'old-etag', dirty: false };
+      googleCalendarService.listEventChanges.mockResolvedValue({
+        events: [{ id: 'google-123', etag: 'new-etag' }],
+        nextSyncToken: 'token-2',
+        fullResync: false,
+        requests: 1,
+      });
+      localEventRepository.find.mockResolvedValueOnce([linkedEvent]);
+      eventFormatterService.parseGoogleEvent.mockReturnValue({ room: 'Room 202' });
+      mockDirtyEvents([]);
+
+      // Execute
+      const result = await service.sync(mockUserId, bidirectionalOptions);
+
+      // Verify
+      expect(result.summary.updated).toBe(1);
+      expect(result.quotaUsed).toBe(1);
+      expect(localEventRepository.update).toHaveBeenCalledWith('event-123', expect.objectContaining({
+        room: 'Room 202',
+        gcalEtag: 'new-etag',
+      }));
+      expect(googleCalendarService.updateEvent).not.toHaveBeenCalled();
+    });
+
+    it('should take the Google version when both sides changed and Google is newer', async () => {
+      // Setup
+      const linkedEvent = {
+        ...mockLocalEvent,
+        gcalEventId: 'google-123',
+        gcalEtag: 'old-etag',
+        dirty: true,
+        updatedAt: new Date('2024-01-10T00:00:00Z'),
+      };
+      googleCalendarService.listEventChanges.mockResolvedValue({
+        events: [{ id: 'google-123', etag: 'new-etag', updated: '2024-01-12T00:00:00Z' }],
+        nextSyncToken: 'token-2',
+        fullResync: false,
+        requests: 1,
+      });
+      localEventRepository.find.mockResolvedValueOnce([linkedEvent]);
+      eventFormatterService.parseGoogleEvent.mockReturnValue({ room: 'Room 202' });
+      mockDirtyEvents([{ ...linkedEvent }]);
+
+      // Execute
+      const result = await service.sync(mockUserId, bidirectionalOptions);
+
+      // Verify
+      expect(result.summary.updated).toBe(1);
+      expect(googleCalendarService.updateEvent).not.toHaveBeenCalled();
+    });
+
+    it('should push the local version when both sides changed and local is newer', async () => {
+      // Setup
+      const linkedEvent = {
+        ...mockLocalEvent,
+        gcalEventId: 'google-123',
+        gcalEtag: 'old-etag',
+        dirty: true,
+        updatedAt: new Date('2024-01-12T00:00:00Z'),
+      };
+      googleCalendarService.listEventChanges.mockResolvedValue({
+        events: [{ id: 'google-123', etag: 'new-etag', updated: '2024-01-10T00:00:00Z' }],
+        nextSyncToken: 'token-2',
+        fullResync: false,
+        requests: 1,
+      });
+      localEventRepository.find.mockResolvedValueOnce([linkedEvent]);
+      mockDirtyEvents([{ ...linkedEvent }]);
+      eventFormatterService.formatSingleEvent.mockReturnValue({ summary: 'CS101 Computer Science (001)' } as any);
+      googleCalendarService.updateEvent.mockResolvedValue({ eventId: 'google-123', etag: 'pushed-etag' });
+
+      // Execute
+      const result = await service.sync(mockUserId, bidirectionalOptions);
+
+      // Verify
+      expect(result.summary.updated).toBe(1);
+      expect(result.quotaUsed).toBe(2);
+      expect(eventFormatterService.parseGoogleEvent).not.toHaveBeenCalled();
+      expect(googleCalendarService.updateEvent).toHaveBeenCalledWith(
+        mockUserId,
+        'google-123',
+        expect.any(Object),
+        'new-etag',
+        'primary',
+      );
+    });
   });
 
   describe('error handling', () => {
@@ -563,6 +1604,85 @@ describe('CalendarSyncService', () => {
         'event.id IN (:...eventIds)',
         { eventIds: ['event-1', 'event-2'] },
       );
+      expect(mockQueryBuilder.andWhere).not.toHaveBeenCalledWith(
+        '(event.dirty = true OR event.gcalEventId IS NULL)',
+      );
+    });
+
+    it('should only push events changed since the last sync', async () => {
+      // Setup
+      const mockQueryBuilder = {
+        leftJoinAndSelect: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        andWhere: jest.fn().mockReturnThis(),
+        getMany: jest.fn().mockResolvedValue([]),
+      };
+
+      localEventRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder as any);
+
+      // Execute
+      await service.syncToGoogle(mockUserId, mockSyncOptions);
+
+      // Verify
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
+        '(event.dirty = true OR event.gcalEventId IS NULL)',
+      );
+    });
+
+    it('should push an update for the events of a renamed subject', async () => {
+      // Setup - renaming the subject marked its synced event dirty
+      const renamedEvent = {
+        ...mockLocalEvent,
+        gcalEventId: 'existing-google-id',
+        gcalEtag: 'old-etag',
+        status: 'synced' as const,
+        dirty: true,
+        subject: { ...mockSubject, name: 'Data Structures' },
+      };
+      const mockQueryBuilder = {
+        leftJoinAndSelect: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        andWhere: jest.fn().mockReturnThis(),
+        getMany: jest.fn().mockResolvedValue([renamedEvent]),
+      };
+
+      localEventRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder as any);
+      eventFormatterService.formatSingleEvent.mockImplementation(async (event: any) => ({ summary: event.subject.name }) as any);
+      googleCalendarService.updateEvent.mockResolvedValue({ eventId: 'existing-google-id', etag: 'new-etag' });
+
+      // Execute
+      const result = await service.syncToGoogle(mockUserId, mockSyncOptions);
+
+      // Verify
+      expect(result.summary.updated).toBe(1);
+      expect(googleCalendarService.updateEvent).toHaveBeenCalledWith(
+        mockUserId,
+        'existing-google-id',
+        expect.objectContaining({ summary: 'Data Structures' }),
+        'old-etag',
+        'primary',
+      );
+      expect(localEventRepository.update).toHaveBeenCalledWith(renamedEvent.id, expect.objectContaining({ dirty: false }));
+    });
+
+    it('should push every event in range on a full resync', async () => {
+      // Setup
+      const mockQueryBuilder = {
+        leftJoinAndSelect: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        andWhere: jest.fn().mockReturnThis(),
+        getMany: jest.fn().mockResolvedValue([]),
+      };
+
+      localEventRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder as any);
+
+      // Execute
+      await service.syncToGoogle(mockUserId, { ...mockSyncOptions, fullResync: true });
+
+      // Verify
+      expect(mockQueryBuilder.andWhere).not.toHaveBeenCalledWith(
+        '(event.dirty = true OR event.gcalEventId IS NULL)',
+      );
     });
   });
 });
\ No newline at end of file
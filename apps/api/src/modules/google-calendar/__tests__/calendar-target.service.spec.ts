@@ -0,0 +1,208 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { NotFoundException, BadRequestException } from '@nestjs/common';
+import { Repository } from 'typeorm';
+import { CalendarTargetService } from '../calendar-target.service';
+import { GoogleCalendarService, GoogleCalendarSummary } from '../google-calendar.service';
+import { EventFormatterService } from '../event-formatter.service';
+import { ReminderService } from '../reminder.service';
+import { CalendarAccount } from '../../../infra/database/entities/calendar-account.entity';
+import { Subject } from '../../../infra/database/entities/subject.entity';
+
+describe('CalendarTargetService', () => {
+  let service: CalendarTargetService;
+  let accountRepository: jest.Mocked<Repository<CalendarAccount>>;
+  let subjectRepository: jest.Mocked<Repository<Subject>>;
+  let googleCalendarService: jest.Mocked<GoogleCalendarService>;
+
+  const mockUserId = 'user-123';
+
+  const calendars: GoogleCalendarSummary[] = [
+    { id: 'me@example.com', summary: 'Me', primary: true, writable: true },
+    { id: 'classes@group.calendar.google.com', summary: 'Classes', primary: false, writable: true },
+    { id: 'holidays@group.v.calendar.google.com', summary: 'Holidays', primary: false, writable: false },
+  ];
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CalendarTargetService,
+        {
+          provide: getRepositoryToken(CalendarAccount),
+          useValue: {
+            findOne: jest.fn().mockResolvedValue({ id: 'account-123', userId: mockUserId }),
+            update: jest.fn(),
+          },
+        },
+        {
+          provide: getRepositoryToken(Subject),
+          useValue: {
+            findOne: jest.fn().mockResolvedValue({ id: 'subject-1', userId: mockUserId }),
+            find: jest.fn(),
+            update: jest.fn(),
+          },
+        },
+        {
+          provide: GoogleCalendarService,
+          useValue: {
+            listCalendars: jest.fn().mockResolvedValue(calendars),
+            createCalendar: jest.fn(),
+          },
+        },
+        EventFormatterService,
+        {
+          provide: ReminderService,
+          useValue: {},
+        },
+      ],
+    }).compile();
+
+    service = module.get<CalendarTargetService>(CalendarTargetService);
+    accountRepository = module.get(getRepositoryToken(CalendarAccount));
+    subjectRepository = module.get(getRepositoryToken(Subject));
+    googleCalendarService = module.get(GoogleCalendarService);
+  });
+
+  describe('listCalendars', () => {
+    it('should mark the primary calendar as target when none is chosen', async () => {
+      const result = await service.listCalendars(mockUserId);
+
+      expect(result.targetCalendarId).toBe('me@example.com');
+      expect(result.calendars.filter(calendar => calendar.isTarget).map(calendar => calendar.id))
+        .toEqual(['me@example.com']);
+    });
+
+    it('should mark the chosen calendar as target', async () => {
+      accountRepository.findOne.mockResolvedValue({
+        id: 'account-123',
+        primaryCalendarId: 'classes@group.calendar.google.com',
+      } as CalendarAccount);
+
+      const result = await service.listCalendars(mockUserId);
+
+      expect(result.targetCalendarId).toBe('classes@group.calendar.google.com');
+      expect(result.calendars[1].isTarget).toBe(true);
+      expect(result.calendars[0].isTarget).toBe(false);
+    });
+
+    it('should require a connected account', async () => {
+      accountRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.listCalendars(mockUserId)).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('createCalendar', () => {
+    it('should create the calendar and make it the target when asked', async () => {
+      googleCalendarService.createCalendar.mockResolvedValue({
+        id: 'new@group.calendar.google.com',
+        summary: 'Semester 1',
+        timeZone: 'Asia/Bangkok',
+        primary: false,
+        writable: true,
+      });
+
+      const calendar = await service.createCalendar(mockUserId, 'Semester 1', 'Asia/Bangkok', true);
+
+      expect(googleCalendarService.createCalendar).toHaveBeenCalledWith(mockUserId, 'Semester 1', 'Asia/Bangkok');
+      expect(calendar.id).toBe('new@group.calendar.google.com');
+      expect(accountRepository.update).toHaveBeenCalledWith('account-123', {
+        primaryCalendarId: 'new@group.calendar.google.com',
+      });
+    });
+
+    it('should leave the target alone by default', async () => {
+      googleCalendarService.createCalendar.mockResolvedValue({
+        id: 'new@group.calendar.google.com',
+        summary: 'Semester 1',
+        primary: false,
+        writable: true,
+      });
+
+      await service.createCalendar(mockUserId, 'Semester 1');
+
+      expect(accountRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('setDefaultCalendar', () => {
+    it('should store a writable calendar as the account default', async () => {
+      await service.setDefaultCalendar(mockUserId, 'classes@group.calendar.google.com');
+
+      expect(accountRepository.update).toHaveBeenCalledWith('account-123', {
+        primaryCalendarId: 'classes@group.calendar.google.com',
+      });
+    });
+
+    it('should reject read-only calendars', async () => {
+      await expect(
+        service.setDefaultCalendar(mockUserId, 'holidays@group.v.calendar.google.com'),
+      ).rejects.toThrow(BadRequestException);
+      expect(accountRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown calendars', async () => {
+      await expect(service.setDefaultCalendar(mockUserId, 'missing')).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('setSubjectCalendar', () => {
+    it('should store the calendar on the subject', async () => {
+      await service.setSubjectCalendar(mockUserId, 'subject-1', 'classes@group.calendar.google.com');
+
+      expect(subjectRepository.findOne).toHaveBeenCalledWith({
+        where: { id: 'subject-1', userId: mockUserId },
+      });
+      expect(subjectRepository.update).toHaveBeenCalledWith('subject-1', {
+        calendarId: 'classes@group.calendar.google.com',
+      });
+    });
+
+    it('should clear the subject calendar without checking Google', async () => {
+      await service.setSubjectCalendar(mockUserId, 'subject-1', null);
+
+      expect(googleCalendarService.listCalendars).not.toHaveBeenCalled();
+      expect(subjectRepository.update).toHaveBeenCalledWith('subject-1', { calendarId: null });
+    });
+
+    it('should reject subjects of other users', async () => {
+      subjectRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.setSubjectCalendar(mockUserId, 'subject-2', 'classes@group.calendar.google.com'),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('getSubjectColors', () => {
+    it('should pair each subject color with the nearest Google color', async () => {
+      subjectRepository.find.mockResolvedValue([
+        { id: 'subject-1', code: 'CS101', name: 'Computer Science', colorHex: '#3b82f6' },
+        { id: 'subject-2', name: 'Statistics', colorHex: '#f59e0b' },
+      ] as Subject[]);
+
+      const result = await service.getSubjectColors(mockUserId);
+
+      expect(subjectRepository.find).toHaveBeenCalledWith({
+        where: { userId: mockUserId },
+        order: { name: 'ASC' },
+      });
+      expect(result).toEqual([
+        {
+          subjectId: 'subject-1',
+          code: 'CS101',
+          name: 'Computer Science',
+          colorHex: '#3b82f6',
+          googleColor: { id: '9', hex: '#5484ed', name: 'Blueberry' },
+        },
+        {
+          subjectId: 'subject-2',
+          code: undefined,
+          name: 'Statistics',
+          colorHex: '#f59e0b',
+          googleColor: { id: '5', hex: '#fbd75b', name: 'Banana' },
+        },
+      ]);
+    });
+  });
+});
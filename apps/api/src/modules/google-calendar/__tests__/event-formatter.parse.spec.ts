@@ -0,0 +1,129 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { EventFormatterService } from '../event-formatter.service';
+import { ReminderService } from '../reminder.service';
+import { LocalEvent } from '../../../infra/database/entities/local-event.entity';
+import { Subject } from '../../../infra/database/entities/subject.entity';
+import { Section } from '../../../infra/database/entities/section.entity';
+
+describe('EventFormatterService.parseGoogleEvent', () => {
+  let service: EventFormatterService;
+  const timezone = 'Asia/Bangkok';
+
+  const mockSubject = {
+    id: 'subject-123',
+    code: 'CS101',
+    name: 'Computer Science',
+    colorHex: '#ff5722',
+  } as Subject;
+
+  const mockSection = {
+    id: 'section-123',
+    secCode: '001',
+    room: 'Room 101',
+  } as Section;
+
+  const mockLocalEvent = {
+    id: 'event-123',
+    eventDate: '2024-01-15',
+    startTime: '09:00:00',
+    endTime: '10:30:00',
+    room: null,
+    titleOverride: null,
+    subject: mockSubject,
+    section: mockSection,
+  } as LocalEvent;
+
+  const googleEvent = (overrides: Record<string, any> = {}) => ({
+    summary: 'CS101 Computer Science (001)',
+    location: 'Room 101',
+    start: { dateTime: '2024-01-15T09:00:00+07:00', timeZone: 'Asia/Bangkok' },
+    end: { dateTime: '2024-01-15T10:30:00+07:00', timeZone: 'Asia/Bangkok' },
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EventFormatterService,
+        { provide: ReminderService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<EventFormatterService>(EventFormatterService);
+  });
+
+  it('should return no changes for an unedited event', () => {
+    expect(service.parseGoogleEvent(googleEvent(), mockLocalEvent, timezone)).toEqual({});
+  });
+
+  it('should map a moved event onto date and times', () => {
+    const changes = service.parseGoogleEvent(
+      googleEvent({
+        start: { dateTime: '2024-01-16T13:00:00+07:00' },
+        end: { dateTime: '2024-01-16T14:30:00+07:00' },
+      }),
+      mockLocalEvent,
+      timezone,
+    );
+
+    expect(changes).toEqual({ eventDate: '2024-01-16', startTime: '13:00', endTime: '14:30' });
+  });
+
+  it('should convert UTC times into the calendar timezone', () => {
+    const changes = service.parseGoogleEvent(
+      googleEvent({
+        start: { dateTime: '2024-01-15T03:00:00Z' },
+        end: { dateTime: '2024-01-15T04:30:00Z' },
+      }),
+      mockLocalEvent,
+      timezone,
+    );
+
+    expect(changes).toEqual({ startTime: '10:00', endTime: '11:30' });
+  });
+
+  it('should read wall-clock times without an offset as-is', () => {
+    const changes = service.parseGoogleEvent(
+      googleEvent({
+        start: { dateTime: '2024-01-15T09:30:00.000', timeZone: 'Asia/Bangkok' },
+        end: { dateTime: '2024-01-15T10:30:00.000', timeZone: 'Asia/Bangkok' },
+      }),
+      mockLocalEvent,
+      timezone,
+    );
+
+    expect(changes).toEqual({ startTime: '09:30' });
+  });
+
+  it('should set a room override when the location changes', () => {
+    const changes = service.parseGoogleEvent(googleEvent({ location: 'Lab 3' }), mockLocalEvent, timezone);
+
+    expect(changes).toEqual({ room: 'Lab 3' });
+  });
+
+  it('should clear the room override when the location is back to the section room', () => {
+    const changes = service.parseGoogleEvent(googleEvent(), { ...mockLocalEvent, room: 'Lab 3' } as LocalEvent, timezone);
+
+    expect(changes).toEqual({ room: null });
+  });
+
+  it('should set and clear the title override', () => {
+    expect(
+      service.parseGoogleEvent(googleEvent({ summary: 'CS101 Midterm' }), mockLocalEvent, timezone),
+    ).toEqual({ titleOverride: 'CS101 Midterm' });
+
+    expect(
+      service.parseGoogleEvent(googleEvent(), { ...mockLocalEvent, titleOverride: 'CS101 Midterm' } as LocalEvent, timezone),
+    ).toEqual({ titleOverride: null });
+  });
+
+  it('should reject all-day events', () => {
+    expect(() =>
+      service.parseGoogleEvent(
+        { summary: 'CS101', start: { date: '2024-01-15' }, end: { date: '2024-01-16' } },
+        mockLocalEvent,
+        timezone,
+      ),
+    ).toThrow('All-day events cannot be mapped onto a class session');
+  });
+});
@@ -0,0 +1,175 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { EventFormatterService } from '../event-formatter.service';
+import { ReminderService } from '../reminder.service';
+import { LocalEvent } from '../../../infra/database/entities/local-event.entity';
+import { Subject } from '../../../infra/database/entities/subject.entity';
+import { Section } from '../../../infra/database/entities/section.entity';
+
+describe('EventFormatterService recurrence', () => {
+  let service: EventFormatterService;
+
+  const mockSubject = {
+    id: 'subject-123',
+    code: 'CS101',
+    name: 'Computer Science',
+    colorHex: '#ff5722',
+  } as Subject;
+
+  const mockSection = {
+    id: 'section-123',
+    secCode: '001',
+    room: 'Room 101',
+  } as Section;
+
+  const mockEvent = (eventDate: string) => ({
+    id: `event-${eventDate}`,
+    eventDate,
+    startTime: '09:00',
+    endTime: '10:30',
+  } as LocalEvent);
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EventFormatterService,
+        { provide: ReminderService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<EventFormatterService>(EventFormatterService);
+  });
+
+  describe('formatRecurringEvent', () => {
+    it('should exclude weeks without a class', async () => {
+      const events = ['2024-01-08', '2024-01-22', '2024-01-29'].map(mockEvent);
+
+      const googleEvent = await service.formatRecurringEvent(events, mockSubject, mockSection, {
+        includeReminders: false,
+        timezone: 'Asia/Bangkok',
+      });
+
+      expect(googleEvent.recurrence).toEqual([
+        expect.stringMatching(/^RRULE:FREQ=WEEKLY;INTERVAL=1;BYDAY=MO;UNTIL=20240129T165959Z$/),
+        'EXDATE;TZID=Asia/Bangkok:20240115T090000',
+      ]);
+    });
+
+    it('should not add EXDATEs to an unbroken series', async () => {
+      const events = ['2024-01-08', '2024-01-15', '2024-01-22'].map(mockEvent);
+
+      const googleEvent = await service.formatRecurringEvent(events, mockSubject, mockSection, {
+        includeReminders: false,
+      });
+
+      expect(googleEvent.recurrence).toHaveLength(1);
+    });
+
+    it('should keep wall-clock start times across a DST change', async () => {
+      const events = ['2024-03-04', '2024-03-11'].map(mockEvent);
+
+      const googleEvent = await service.formatRecurringEvent(events, mockSubject, mockSection, {
+        includeReminders: false,
+        timezone: 'America/New_York',
+      });
+      const lastWeek = await service.formatSingleEvent(events[1], mockSubject, mockSection, {
+        includeReminders: false,
+        timezone: 'America/New_York',
+      });
+
+      expect(googleEvent.start).toEqual({ dateTime: '2024-03-04T09:00:00-05:00', timeZone: 'America/New_York' });
+      expect(lastWeek.start).toEqual({ dateTime: '2024-03-11T09:00:00-04:00', timeZone: 'America/New_York' });
+    });
+
+    it('should end the series at the end of the last local day', async () => {
+      const events = ['2024-01-08', '2024-01-15'].map(mockEvent);
+
+      const googleEvent = await service.formatRecurringEvent(events, mockSubject, mockSection, {
+        includeReminders: false,
+        timezone: 'America/Los_Angeles',
+      });
+
+      // 23:59:59 in Los Angeles is the next morning in UTC
+      expect(googleEvent.recurrence).toEqual(['RRULE:FREQ=WEEKLY;INTERVAL=1;BYDAY=MO;UNTIL=20240116T075959Z']);
+    });
+
+    it('should repeat every other week for an even-week rule', async () => {
+      const section = {
+        ...mockSection,
+        scheduleRules: [
+          { dayOfWeek: 1, startTime: '09:00', endTime: '10:30', startDate: '2024-01-08', endDate: '2024-03-31', weekParity: 'even' },
+        ],
+      } as Section;
+      const events = ['2024-01-15', '2024-01-29', '2024-02-26'].map(mockEvent);
+
+      const googleEvent = await service.formatRecurringEvent(events, mockSubject, section, {
+        includeReminders: false,
+        timezone: 'Asia/Bangkok',
+      });
+
+      expect(googleEvent.recurrence).toEqual([
+        'RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO;UNTIL=20240226T165959Z',
+        'EXDATE;TZID=Asia/Bangkok:20240212T090000',
+      ]);
+    });
+
+    it('should repeat monthly for an Nth-weekday rule', async () => {
+      const section = {
+        ...mockSection,
+        scheduleRules: [
+          { dayOfWeek: 1, startTime: '09:00', endTime: '10:30', startDate: '2024-01-01', endDate: '2024-06-30', setPos: -1 },
+        ],
+      } as Section;
+      const events = ['2024-01-29', '2024-02-26', '2024-03-25'].map(mockEvent);
+
+      const googleEvent = await service.formatRecurringEvent(events, mockSubject, section, {
+        includeReminders: false,
+        timezone: 'UTC',
+      });
+
+      expect(googleEvent.recurrence).toEqual([
+        'RRULE:FREQ=MONTHLY;INTERVAL=1;BYDAY=MO;BYSETPOS=-1;UNTIL=20240325T235959Z',
+      ]);
+    });
+  });
+
+  describe('truncateRecurrence', () => {
+    it('should replace the end of the rule and drop EXDATEs past it', () => {
+      const recurrence = service.truncateRecurrence(
+        [
+          'RRULE:FREQ=WEEKLY;INTERVAL=1;BYDAY=MO;UNTIL=20240531T235959Z',
+          'EXDATE;TZID=Asia/Bangkok:20240115T090000',
+          'EXDATE;TZID=Asia/Bangkok:20240304T090000',
+        ],
+        '2024-02-26',
+        'Asia/Bangkok',
+      );
+
+      expect(recurrence).toEqual([
+        'RRULE:FREQ=WEEKLY;INTERVAL=1;BYDAY=MO;UNTIL=20240226T165959Z',
+        'EXDATE;TZID=Asia/Bangkok:20240115T090000',
+      ]);
+    });
+
+    it('should replace a COUNT with an UNTIL', () => {
+      expect(service.truncateRecurrence(['RRULE:FREQ=WEEKLY;COUNT=15'], '2024-02-26')).toEqual([
+        'RRULE:FREQ=WEEKLY;UNTIL=20240226T235959Z',
+      ]);
+    });
+  });
+
+  describe('parseOriginalStart', () => {
+    it('should read the original slot of a moved instance', () => {
+      const slot = service.parseOriginalStart({
+        id: 'series-1_20240115T020000Z',
+        originalStartTime: { dateTime: '2024-01-15T02:00:00Z' },
+        start: { dateTime: '2024-01-16T13:00:00+07:00' },
+      }, 'Asia/Bangkok');
+
+      expect(slot).toEqual({ eventDate: '2024-01-15', startTime: '09:00' });
+    });
+
+    it('should return null for all-day instances', () => {
+      expect(service.parseOriginalStart({ originalStartTime: { date: '2024-01-15' } })).toBeNull();
+    });
+  });
+});
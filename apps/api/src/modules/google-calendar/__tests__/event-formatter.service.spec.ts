@@ -272,8 +272,8 @@ describe('EventFormatterService', () => {
       const colors = service.getAvailableColors();
 
       expect(colors).toHaveLength(11);
-      expect(colors[0]).toEqual({ id: '1', hex: '#a4bdfc' });
-      expect(colors[10]).toEqual({ id: '11', hex: '#dc2127' });
+      expect(colors[0]).toEqual({ id: '1', hex: '#a4bdfc', name: 'Lavender' });
+      expect(colors[10]).toEqual({ id: '11', hex: '#dc2127', name: 'Tomato' });
     });
 
     it('should return a copy of the color array', () => {
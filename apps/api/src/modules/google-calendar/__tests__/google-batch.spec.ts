@@ -0,0 +1,84 @@
+import { encodeBatchRequest, decodeBatchResponse, getBoundary } from '../google-batch';
+
+describe('google-batch', () => {
+  describe('encodeBatchRequest', () => {
+    it('should embed each request as an application/http part', () => {
+      const body = encodeBatchRequest([
+        { id: 'item-0', method: 'POST', path: '/calendar/v3/calendars/primary/events', body: { summary: 'CS101' } },
+        { id: 'item-1', method: 'DELETE', path: '/calendar/v3/calendars/primary/events/abc', headers: { 'If-Match': '"etag"' } },
+      ], 'b1');
+
+      expect(body).toBe([
+        '--b1',
+        'Content-Type: application/http',
+        'Content-ID: <item-0>',
+        '',
+        'POST /calendar/v3/calendars/primary/events HTTP/1.1',
+        'Content-Type: application/json',
+        '',
+        '{"summary":"CS101"}',
+        '--b1',
+        'Content-Type: application/http',
+        'Content-ID: <item-1>',
+        '',
+        'DELETE /calendar/v3/calendars/primary/events/abc HTTP/1.1',
+        'If-Match: "etag"',
+        '',
+        '--b1--',
+        '',
+      ].join('\r\n'));
+    });
+  });
+
+  describe('getBoundary', () => {
+    it('should read plain and quoted boundaries', () => {
+      expect(getBoundary('multipart/mixed; boundary=batch_abc')).toBe('batch_abc');
+      expect(getBoundary('multipart/mixed; boundary="batch_abc"; charset=UTF-8')).toBe('batch_abc');
+      expect(getBoundary('application/json')).toBeNull();
+    });
+  });
+
+  describe('decodeBatchResponse', () => {
+    it('should map embedded responses back to request ids', () => {
+      const body = [
+        '--batch_x',
+        'Content-Type: application/http',
+        'Content-ID: <response-item-0>',
+        '',
+        'HTTP/1.1 200 OK',
+        'Content-Type: application/json; charset=UTF-8',
+        'ETag: "etag-1"',
+        '',
+        '{"id":"google-1","etag":"\\"etag-1\\""}',
+        '--batch_x',
+        'Content-Type: application/http',
+        'Content-ID: <response-item-1>',
+        '',
+        'HTTP/1.1 204 No Content',
+        '',
+        '',
+        '--batch_x--',
+      ].join('\r\n');
+
+      const parts = decodeBatchResponse(body, 'batch_x');
+
+      expect(parts).toEqual([
+        {
+          id: 'item-0',
+          status: 200,
+          headers: { 'content-type': 'application/json; charset=UTF-8', etag: '"etag-1"' },
+          body: { id: 'google-1', etag: '"etag-1"' },
+        },
+        { id: 'item-1', status: 204, headers: {}, body: undefined },
+      ]);
+    });
+
+    it('should accept bare LF line endings', () => {
+      const body = '--b\nContent-ID: <response-item-0>\n\nHTTP/1.1 429 Too Many Requests\n\n{"error":{"code":429}}\n--b--\n';
+
+      expect(decodeBatchResponse(body, 'b')).toEqual([
+        { id: 'item-0', status: 429, headers: {}, body: { error: { code: 429 } } },
+      ]);
+    });
+  });
+});
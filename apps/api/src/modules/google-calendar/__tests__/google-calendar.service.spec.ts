@@ -6,7 +6,10 @@ import { UnauthorizedException, BadRequestException } from '@nestjs/common';
 import { GoogleCalendarService, GoogleCalendarEvent } from '../google-calendar.service';
 import { CryptoService } from '../../auth/crypto.service';
 import { CalendarAccount } from '../../../infra/database/entities/calendar-account.entity';
+import { QuotaService } from '../../../infra/redis/quota.service';
 import { google } from 'googleapis';
+import * as http from 'http';
+import { AddressInfo } from 'net';
 
 // Mock googleapis
 jest.mock('googleapis', () => ({
@@ -23,6 +26,7 @@ describe('GoogleCalendarService', () => {
   let calendarAccountRepository: jest.Mocked<Repository<CalendarAccount>>;
   let cryptoService: jest.Mocked<CryptoService>;
   let configService: jest.Mocked<ConfigService>;
+  let quotaService: jest.Mocked<QuotaService>;
   let mockOAuth2Client: any;
   let mockCalendarClient: any;
 
@@ -58,6 +62,14 @@ describe('GoogleCalendarService', () => {
         update: jest.fn(),
         delete: jest.fn(),
         get: jest.fn(),
+        list: jest.fn(),
+        instances: jest.fn(),
+      },
+      calendarList: {
+        list: jest.fn(),
+      },
+      calendars: {
+        insert: jest.fn(),
       },
     };
 
@@ -87,6 +99,13 @@ describe('GoogleCalendarService', () => {
             get: jest.fn(),
           },
         },
+        {
+          provide: QuotaService,
+          useValue: {
+            recordRequests: jest.fn().mockResolvedValue(1),
+            getUsage: jest.fn(),
+          },
+        },
       ],
     }).compile();
 
@@ -94,6 +113,7 @@ describe('GoogleCalendarService', () => {
     calendarAccountRepository = module.get(getRepositoryToken(CalendarAccount));
     cryptoService = module.get(CryptoService);
     configService = module.get(ConfigService);
+    quotaService = module.get(QuotaService);
 
     // Setup default config values
     configService.get.mockImplementation((key: string, defaultValue?: any) => {
@@ -316,6 +336,121 @@ describe('GoogleCalendarService', () => {
     });
   });
 
+  describe('listEventChanges', () => {
+    it('should page through changes since the sync token', async () => {
+      // Setup
+      calendarAccountRepository.findOne.mockResolvedValue(mockCalendarAccount);
+      mockCalendarClient.events.list
+        .mockResolvedValueOnce({ data: { items: [{ id: 'event-1' }], nextPageToken: 'page-2' } })
+        .mockResolvedValueOnce({ data: { items: [{ id: 'event-2' }], nextSyncToken: 'token-2' } });
+
+      // Execute
+      const result = await service.listEventChanges(mockUserId, 'token-1');
+
+      // Verify
+      expect(result).toEqual({
+        events: [{ id: 'event-1' }, { id: 'event-2' }],
+        nextSyncToken: 'token-2',
+        fullResync: false,
+        requests: 2,
+      });
+      expect(mockCalendarClient.events.list).toHaveBeenLastCalledWith(
+        expect.objectContaining({ calendarId: 'primary', syncToken: 'token-1', pageToken: 'page-2' }),
+      );
+    });
+
+    it('should fall back to a full listing when the sync token has expired', async () => {
+      // Setup
+      calendarAccountRepository.findOne.mockResolvedValue(mockCalendarAccount);
+      mockCalendarClient.events.list
+        .mockRejectedValueOnce({ code: 410, message: 'Sync token is no longer valid' })
+        .mockResolvedValueOnce({ data: { items: [{ id: 'event-1' }], nextSyncToken: 'token-2' } });
+
+      // Execute
+      const result = await service.listEventChanges(mockUserId, 'expired-token');
+
+      // Verify
+      expect(result.fullResync).toBe(true);
+      expect(result.nextSyncToken).toBe('token-2');
+      expect(result.requests).toBe(2);
+      expect(mockCalendarClient.events.list).toHaveBeenCalledTimes(2);
+      expect(mockCalendarClient.events.list).toHaveBeenLastCalledWith(
+        expect.objectContaining({ syncToken: undefined }),
+      );
+    });
+  });
+
+  describe('listInstances', () => {
+    it('should page through every occurrence of a recurring event', async () => {
+      // Setup
+      calendarAccountRepository.findOne.mockResolvedValue(mockCalendarAccount);
+      mockCalendarClient.events.instances
+        .mockResolvedValueOnce({ data: { items: [{ id: 'series-1_20240108T020000Z' }], nextPageToken: 'page-2' } })
+        .mockResolvedValueOnce({ data: { items: [{ id: 'series-1_20240115T020000Z' }] } });
+
+      // Execute
+      const result = await service.listInstances(mockUserId, 'series-1');
+
+      // Verify
+      expect(result.map(instance => instance.id)).toEqual([
+        'series-1_20240108T020000Z',
+        'series-1_20240115T020000Z',
+      ]);
+      expect(mockCalendarClient.events.instances).toHaveBeenLastCalledWith(
+        expect.objectContaining({ calendarId: 'primary', eventId: 'series-1', pageToken: 'page-2' }),
+      );
+    });
+  });
+
+  describe('listCalendars', () => {
+    it('should list calendars and flag the writable ones', async () => {
+      // Setup
+      calendarAccountRepository.findOne.mockResolvedValue(mockCalendarAccount);
+      mockCalendarClient.calendarList.list.mockResolvedValue({
+        data: {
+          items: [
+            { id: 'me@example.com', summary: 'Me', primary: true, accessRole: 'owner' },
+            { id: 'classes@group.calendar.google.com', summary: 'Classes', summaryOverride: 'My classes', accessRole: 'writer' },
+            { id: 'holidays@group.v.calendar.google.com', summary: 'Holidays', accessRole: 'reader' },
+          ],
+        },
+      });
+
+      // Execute
+      const result = await service.listCalendars(mockUserId);
+
+      // Verify
+      expect(result.map(calendar => [calendar.summary, calendar.primary, calendar.writable])).toEqual([
+        ['Me', true, true],
+        ['My classes', false, true],
+        ['Holidays', false, false],
+      ]);
+    });
+  });
+
+  describe('createCalendar', () => {
+    it('should create a secondary calendar in the given timezone', async () => {
+      // Setup
+      calendarAccountRepository.findOne.mockResolvedValue(mockCalendarAccount);
+      mockCalendarClient.calendars.insert.mockResolvedValue({
+        data: { id: 'new@group.calendar.google.com', summary: 'Semester 1', timeZone: 'Asia/Bangkok' },
+      });
+
+      // Execute
+      const result = await service.createCalendar(mockUserId, 'Semester 1', 'Asia/Bangkok');
+
+      // Verify
+      expect(mockCalendarClient.calendars.insert).toHaveBeenCalledWith({
+        requestBody: { summary: 'Semester 1', timeZone: 'Asia/Bangkok' },
+      });
+      expect(result).toEqual(expect.objectContaining({
+        id: 'new@group.calendar.google.com',
+        primary: false,
+        writable: true,
+      }));
+    });
+  });
+
   describe('token refresh', () => {
     it('should refresh tokens when they are about to expire', async () => {
       // Setup - token expires in 2 minutes
@@ -399,105 +534,266 @@ describe('GoogleCalendarService', () => {
     });
   });
 
-  describe('batchCreateEvents', () => {
-    it('should batch create multiple events', async () => {
-      // Setup
-      calendarAccountRepository.findOne.mockResolvedValue(mockCalendarAccount);
-
-      const events = [
-        {
-          localEventId: 'local-1',
-          event: {
-            summary: 'Event 1',
-            start: { dateTime: '2024-01-15T09:00:00', timeZone: 'Asia/Bangkok' },
-            end: { dateTime: '2024-01-15T10:00:00', timeZone: 'Asia/Bangkok' },
-          },
-        },
-        {
-          localEventId: 'local-2',
-          event: {
-            summary: 'Event 2',
-            start: { dateTime: '2024-01-15T11:00:00', timeZone: 'Asia/Bangkok' },
-            end: { dateTime: '2024-01-15T12:00:00', timeZone: 'Asia/Bangkok' },
-          },
-        },
-      ];
+  describe('batch requests', () => {
+    // Stub of Google's batch endpoint: decodes the multipart request and
+    // answers each embedded request through `respond`
+    interface StubRequest {
+      id: string;
+      method: string;
+      path: string;
+      headers: Record<string, string>;
+      body: any;
+    }
+
+    let server: http.Server;
+    let batchUrl: string;
+    let receivedBatches: StubRequest[][];
+    let respond: (request: StubRequest, batchNumber: number) => { status: number; body?: any };
+
+    const parseStubRequest = (body: string, contentType: string): StubRequest[] => {
+      const boundary = /boundary=([^;]+)/.exec(contentType)![1];
+      return body
+        .split(`--${boundary}`)
+        .filter(part => part.trim() && !part.startsWith('--'))
+        .map(part => {
+          // Part headers, then the embedded request's head, then its body
+          const [outer, head, ...rest] = part.trim().split(/\r\n\r\n/);
+          const [requestLine, ...headerLines] = head.split(/\r\n/);
+          const [method, path] = requestLine.split(' ');
+          const headers: Record<string, string> = {};
+          headerLines.forEach(line => {
+            const [name, ...value] = line.split(':');
+            headers[name.toLowerCase()] = value.join(':').trim();
+          });
+          const payload = rest.join('\r\n\r\n').trim();
+          return {
+            id: /Content-ID: <([^>]+)>/.exec(outer)![1],
+            method,
+            path,
+            headers,
+            body: payload ? JSON.parse(payload) : undefined,
+          };
+        });
+    };
 
-      mockCalendarClient.events.insert
-        .mockResolvedValueOnce({
-          data: { id: 'google-1', etag: 'etag-1' },
-        })
-        .mockResolvedValueOnce({
-          data: { id: 'google-2', etag: 'etag-2' },
+    beforeAll(done => {
+      server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => (body += chunk));
+        req.on('end', () => {
+          const requests = parseStubRequest(body, req.headers['content-type']!);
+          receivedBatches.push(requests);
+          const batchNumber = receivedBatches.length;
+
+          const boundary = 'batch_response_boundary';
+          const parts = requests.map(request => {
+            const { status, body: responseBody } = respond(request, batchNumber);
+            return [
+              `--${boundary}`,
+              'Content-Type: application/http',
+              `Content-ID: <response-${request.id}>`,
+              '',
+              `HTTP/1.1 ${status} ${status < 300 ? 'OK' : 'Error'}`,
+              'Content-Type: application/json; charset=UTF-8',
+              '',
+              responseBody === undefined ? '' : JSON.stringify(responseBody),
+            ].join('\r\n');
+          });
+
+          res.writeHead(200, { 'Content-Type': `multipart/mixed; boundary=${boundary}` });
+          res.end(`${parts.join('\r\n')}\r\n--${boundary}--\r\n`);
         });
+      });
+      server.listen(0, '127.0.0.1', () => {
+        batchUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/batch/calendar/v3`;
+        done();
+      });
+    });
+
+    afterAll(done => {
+      server.close(done);
+    });
+
+    beforeEach(() => {
+      receivedBatches = [];
+      respond = request => ({ status: 200, body: { id: `google-${request.id}`, etag: `etag-${request.id}` } });
+      calendarAccountRepository.findOne.mockResolvedValue(mockCalendarAccount);
+      jest.spyOn(service as any, 'sleep').mockResolvedValue(undefined);
+      configService.get.mockImplementation((key: string, defaultValue?: any) => {
+        const config = { GOOGLE_BATCH_URL: batchUrl };
+        return config[key] || defaultValue;
+      });
+    });
+
+    const buildEvent = (summary: string): GoogleCalendarEvent => ({
+      summary,
+      start: { dateTime: '2024-01-15T09:00:00', timeZone: 'Asia/Bangkok' },
+      end: { dateTime: '2024-01-15T10:00:00', timeZone: 'Asia/Bangkok' },
+    });
 
+    it('should batch create multiple events in one request', async () => {
       // Execute
-      const result = await service.batchCreateEvents(mockUserId, events);
+      const result = await service.batchCreateEvents(mockUserId, [
+        { localEventId: 'local-1', event: buildEvent('Event 1') },
+        { localEventId: 'local-2', event: buildEvent('Event 2') },
+      ]);
 
       // Verify
-      expect(result.successful).toHaveLength(2);
+      expect(receivedBatches).toHaveLength(1);
+      expect(receivedBatches[0].map(request => [request.method, request.path])).toEqual([
+        ['POST', '/calendar/v3/calendars/primary/events'],
+        ['POST', '/calendar/v3/calendars/primary/events'],
+      ]);
+      expect(receivedBatches[0][1].body.summary).toBe('Event 2');
       expect(result.failed).toHaveLength(0);
-      expect(result.successful[0]).toEqual({
-        localEventId: 'local-1',
-        googleEventId: 'google-1',
-        etag: 'etag-1',
-      });
+      expect(result.successful).toEqual([
+        { localEventId: 'local-1', googleEventId: 'google-item-0', etag: 'etag-item-0' },
+        { localEventId: 'local-2', googleEventId: 'google-item-1', etag: 'etag-item-1' },
+      ]);
+      expect(quotaService.recordRequests).toHaveBeenCalledWith(mockUserId, 2);
     });
 
     it('should handle partial failures in batch operations', async () => {
       // Setup
-      calendarAccountRepository.findOne.mockResolvedValue(mockCalendarAccount);
+      respond = request => request.id === 'item-1'
+        ? { status: 400, body: { error: { code: 400, message: 'Invalid event data' } } }
+        : { status: 200, body: { id: 'google-1', etag: 'etag-1' } };
 
-      const events = [
-        {
-          localEventId: 'local-1',
-          event: {
-            summary: 'Event 1',
-            start: { dateTime: '2024-01-15T09:00:00', timeZone: 'Asia/Bangkok' },
-            end: { dateTime: '2024-01-15T10:00:00', timeZone: 'Asia/Bangkok' },
-          },
-        },
-        {
-          localEventId: 'local-2',
-          event: {
-            summary: 'Event 2',
-            start: { dateTime: '2024-01-15T11:00:00', timeZone: 'Asia/Bangkok' },
-            end: { dateTime: '2024-01-15T12:00:00', timeZone: 'Asia/Bangkok' },
-          },
-        },
-      ];
+      // Execute
+      const result = await service.batchCreateEvents(mockUserId, [
+        { localEventId: 'local-1', event: buildEvent('Event 1') },
+        { localEventId: 'local-2', event: buildEvent('Event 2') },
+      ]);
 
-      mockCalendarClient.events.insert
-        .mockResolvedValueOnce({
-          data: { id: 'google-1', etag: 'etag-1' },
-        })
-        .mockRejectedValueOnce({
-          code: 400,
-          message: 'Invalid event data',
-        });
+      // Verify
+      expect(result.successful).toHaveLength(1);
+      expect(result.failed).toEqual([
+        { localEventId: 'local-2', error: 'Google Calendar API error: Invalid event data', status: 400 },
+      ]);
+    });
+
+    it('should send updates with their ETag and deletes to the event calendar', async () => {
+      // Setup
+      respond = request => request.method === 'DELETE'
+        ? { status: 410 }
+        : { status: 200, body: { id: 'google-1', etag: 'etag-2' } };
 
       // Execute
+      const result = await service.executeBatch(mockUserId, [
+        { localEventId: 'local-1', method: 'update', eventId: 'google-1', event: buildEvent('Event 1'), etag: '"etag-1"' },
+        { localEventId: 'local-2', method: 'delete', eventId: 'google-2', calendarId: 'classes@group.calendar.google.com' },
+      ]);
+
+      // Verify
+      const [update, remove] = receivedBatches[0];
+      expect([update.method, update.path, update.headers['if-match']]).toEqual([
+        'PUT',
+        '/calendar/v3/calendars/primary/events/google-1',
+        '"etag-1"',
+      ]);
+      expect([remove.method, remove.path]).toEqual([
+        'DELETE',
+        '/calendar/v3/calendars/classes%40group.calendar.google.com/events/google-2',
+      ]);
+      // Already gone counts as deleted
+      expect(result.successful).toEqual([
+        { localEventId: 'local-1', googleEventId: 'google-1', etag: 'etag-2' },
+        { localEventId: 'local-2', googleEventId: 'google-2', etag: '' },
+      ]);
+    });
+
+    it('should retry only the rate limited items', async () => {
+      // Setup - one item is throttled on the first round, another on the second
+      respond = (request, batchNumber) => {
+        if (batchNumber === 1 && request.id === 'item-1') {
+          return { status: 429, body: { error: { code: 429, message: 'Rate Limit Exceeded' } } };
+        }
+        if (batchNumber === 1 && request.id === 'item-2') {
+          return {
+            status: 403,
+            body: { error: { code: 403, message: 'Rate Limit Exceeded', errors: [{ reason: 'userRateLimitExceeded' }] } },
+          };
+        }
+        return { status: 200, body: { id: `google-${batchNumber}-${request.id}`, etag: 'etag' } };
+      };
+
+      // Execute
+      const result = await service.batchCreateEvents(mockUserId, [
+        { localEventId: 'local-1', event: buildEvent('Event 1') },
+        { localEventId: 'local-2', event: buildEvent('Event 2') },
+        { localEventId: 'local-3', event: buildEvent('Event 3') },
+      ]);
+
+      // Verify
+      expect(receivedBatches.map(batch => batch.length)).toEqual([3, 2]);
+      expect(receivedBatches[1].map(request => request.body.summary)).toEqual(['Event 2', 'Event 3']);
+      expect(result.failed).toHaveLength(0);
+      expect(result.successful.map(item => item.localEventId)).toEqual(['local-1', 'local-2', 'local-3']);
+      expect(result.requestsSent).toBe(5);
+    });
+
+    it('should not retry permission errors', async () => {
+      // Setup
+      respond = () => ({
+        status: 403,
+        body: { error: { code: 403, message: 'Forbidden', errors: [{ reason: 'forbidden' }] } },
+      });
+
+      // Execute
+      const result = await service.batchCreateEvents(mockUserId, [
+        { localEventId: 'local-1', event: buildEvent('Event 1') },
+      ]);
+
+      // Verify
+      expect(receivedBatches).toHaveLength(1);
+      expect(result.failed[0]).toEqual(expect.objectContaining({ localEventId: 'local-1', status: 403 }));
+    });
+
+    it('should split large batches at the batch size', async () => {
+      // Execute
+      const events = Array.from({ length: 51 }, (_, i) => ({ localEventId: `local-${i}`, event: buildEvent(`Event ${i}`) }));
       const result = await service.batchCreateEvents(mockUserId, events);
 
       // Verify
-      expect(result.successful).toHaveLength(1);
-      expect(result.failed).toHaveLength(1);
-      expect(result.failed[0].localEventId).toBe('local-2');
-      expect(result.failed[0].error).toContain('Google Calendar API error');
+      expect(receivedBatches.map(batch => batch.length)).toEqual([50, 1]);
+      expect(result.successful).toHaveLength(51);
     });
   });
 
   describe('getQuotaInfo', () => {
     it('should return quota information', async () => {
+      // Setup
+      const resetTime = new Date('2024-01-16T00:00:00Z');
+      quotaService.getUsage.mockResolvedValue({ used: 120, remaining: 2880, dailyLimit: 3000, resetTime });
+
       // Execute
       const result = await service.getQuotaInfo(mockUserId);
 
       // Verify
+      expect(quotaService.getUsage).toHaveBeenCalledWith(mockUserId);
       expect(result).toEqual({
-        remaining: 3000,
-        resetTime: expect.any(Date),
+        remaining: 2880,
+        resetTime,
         dailyLimit: 3000,
       });
     });
   });
+
+  describe('quota accounting', () => {
+    it('should count every attempt, including retries', async () => {
+      // Setup
+      calendarAccountRepository.findOne.mockResolvedValue(mockCalendarAccount);
+      jest.spyOn(service as any, 'sleep').mockResolvedValue(undefined);
+      mockCalendarClient.events.get
+        .mockRejectedValueOnce({ code: 500, message: 'Backend error' })
+        .mockResolvedValueOnce({ data: { id: 'google-event-123', etag: 'etag-1' } });
+
+      // Execute
+      await service.getEvent(mockUserId, 'google-event-123');
+
+      // Verify
+      expect(quotaService.recordRequests).toHaveBeenCalledTimes(2);
+      expect(quotaService.recordRequests).toHaveBeenCalledWith(mockUserId, 1);
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,71 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { GUARDS_METADATA, PATH_METADATA } from '@nestjs/common/constants';
+import { ReminderController } from '../reminder.controller';
+import { ReminderService, ReminderSettings } from '../reminder.service';
+import { JwtAuthGuard } from '../../auth/guards/auth.guard';
+
+describe('ReminderController', () => {
+  let controller: ReminderController;
+  let reminderService: jest.Mocked<ReminderService>;
+
+  const mockUserId = 'user-123';
+  const settings: ReminderSettings = { enabled: true, minutes: 15, method: 'popup' };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [ReminderController],
+      providers: [
+        {
+          provide: ReminderService,
+          useValue: {
+            validateReminderSettings: jest.fn(() => ({ valid: true, errors: [] })),
+            updateSubjectReminderSettings: jest.fn(),
+          },
+        },
+      ],
+    })
+      .overrideGuard(JwtAuthGuard)
+      .useValue({ canActivate: jest.fn(() => true) })
+      .compile();
+
+    controller = module.get<ReminderController>(ReminderController);
+    reminderService = module.get(ReminderService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be served under the global api prefix like the other controllers', () => {
+    expect(Reflect.getMetadata(PATH_METADATA, ReminderController)).toBe('reminders');
+  });
+
+  it('should be guarded by the JWT guard', () => {
+    expect(Reflect.getMetadata(GUARDS_METADATA, ReminderController)).toEqual([JwtAuthGuard]);
+  });
+
+  describe('updateSubjectReminderSettings', () => {
+    it('should update the subject\'s reminder settings', async () => {
+      const result = await controller.updateSubjectReminderSettings(mockUserId, 'subject-1', settings);
+
+      expect(reminderService.updateSubjectReminderSettings).toHaveBeenCalledWith(mockUserId, 'subject-1', settings);
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject invalid settings', async () => {
+      reminderService.validateReminderSettings.mockReturnValue({ valid: false, errors: ['bad minutes'] });
+
+      await expect(controller.updateSubjectReminderSettings(mockUserId, 'subject-1', settings))
+        .rejects.toThrow(BadRequestException);
+      expect(reminderService.updateSubjectReminderSettings).not.toHaveBeenCalled();
+    });
+
+    it('should map a missing subject to not found', async () => {
+      reminderService.updateSubjectReminderSettings.mockRejectedValue(new Error('Subject not found'));
+
+      await expect(controller.updateSubjectReminderSettings(mockUserId, 'subject-1', settings))
+        .rejects.toThrow(NotFoundException);
+    });
+  });
+});
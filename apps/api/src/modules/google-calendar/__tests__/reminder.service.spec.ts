@@ -1,6 +1,6 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { getRepositoryToken } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { IsNull, Not, Repository } from 'typeorm';
 import { ReminderService, ReminderSettings } from '../reminder.service';
 import { Subject } from '../../../infra/database/entities/subject.entity';
 import { LocalEvent } from '../../../infra/database/entities/local-event.entity';
@@ -133,6 +133,18 @@ describe('ReminderService', () => {
       });
     });
 
+    it('should mark the subject events in Google for the next sync', async () => {
+      subjectRepository.findOne.mockResolvedValue(mockSubject);
+      subjectRepository.update.mockResolvedValue({ affected: 1 } as any);
+
+      await service.updateSubjectReminderSettings('user-1', 'subject-1', { enabled: true, minutes: 60, method: 'email' });
+
+      expect(localEventRepository.update).toHaveBeenCalledWith(
+        { userId: 'user-1', subjectId: 'subject-1', gcalEventId: Not(IsNull()) },
+        { dirty: true }
+      );
+    });
+
     it('should throw error when subject not found', async () => {
       subjectRepository.findOne.mockResolvedValue(null);
 
@@ -0,0 +1,138 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException } from '@nestjs/common';
+import { Equal, LessThan, Repository } from 'typeorm';
+import { SyncHistoryService } from '../sync-history.service';
+import { SyncResult } from '../calendar-sync.service';
+import { SyncHistory } from '../../../infra/database/entities/sync-history.entity';
+
+describe('SyncHistoryService', () => {
+  let service: SyncHistoryService;
+  let repository: jest.Mocked<Repository<SyncHistory>>;
+
+  const mockUserId = 'user-123';
+
+  const syncOptions = {
+    direction: 'upsert-to-google' as const,
+    range: { from: '2024-01-01', to: '2024-03-31' },
+    dryRun: true,
+  };
+
+  const mockSyncResult: SyncResult = {
+    summary: { created: 2, updated: 1, deleted: 0, skipped: 0, failed: 0 },
+    details: [],
+    conflicts: [],
+    quotaUsed: 3,
+    isDryRun: true,
+  };
+
+  const buildEntry = (id: string, startedAt: string): SyncHistory => ({
+    id,
+    userId: mockUserId,
+    status: 'completed',
+    options: { ...syncOptions },
+    result: { summary: mockSyncResult.summary, quotaUsed: 3, conflicts: 0 },
+    startedAt: new Date(startedAt),
+    completedAt: new Date(startedAt),
+  } as SyncHistory);
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SyncHistoryService,
+        {
+          provide: getRepositoryToken(SyncHistory),
+          useValue: {
+            create: jest.fn(data => data),
+            save: jest.fn(data => Promise.resolve({ id: 'history-1', ...data })),
+            update: jest.fn(),
+            find: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<SyncHistoryService>(SyncHistoryService);
+    repository = module.get(getRepositoryToken(SyncHistory));
+  });
+
+  describe('record', () => {
+    it('should store a pending entry and complete it with the result summary', async () => {
+      const result = await service.record(mockUserId, syncOptions, () => Promise.resolve(mockSyncResult));
+
+      expect(result).toBe(mockSyncResult);
+      expect(repository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: mockUserId,
+          status: 'pending',
+          options: expect.objectContaining({ dryRun: true }),
+        }),
+      );
+      expect(repository.update).toHaveBeenCalledWith('history-1', {
+        status: 'completed',
+        result: {
+          summary: mockSyncResult.summary,
+          quotaUsed: 3,
+          conflicts: 0,
+        },
+        completedAt: expect.any(Date),
+      });
+    });
+
+    it('should mark the entry failed and rethrow when the sync fails', async () => {
+      await expect(
+        service.record(mockUserId, syncOptions, () => Promise.reject(new Error('Quota exceeded'))),
+      ).rejects.toThrow('Quota exceeded');
+
+      expect(repository.update).toHaveBeenCalledWith('history-1', {
+        status: 'failed',
+        errorMessage: 'Quota exceeded',
+        completedAt: expect.any(Date),
+      });
+    });
+  });
+
+  describe('getHistory', () => {
+    const encode = (startedAt: string, id: string) =>
+      Buffer.from(JSON.stringify({ startedAt, id })).toString('base64url');
+
+    it('should return a cursor when more entries exist', async () => {
+      repository.find.mockResolvedValue([
+        buildEntry('h3', '2024-01-03T00:00:00.000Z'),
+        buildEntry('h2', '2024-01-02T00:00:00.000Z'),
+        buildEntry('h1', '2024-01-01T00:00:00.000Z'),
+      ]);
+
+      const page = await service.getHistory(mockUserId, 2);
+
+      expect(repository.find).toHaveBeenCalledWith(expect.objectContaining({
+        order: { startedAt: 'DESC', id: 'DESC' },
+        take: 3,
+      }));
+      expect(page.data.map(entry => entry.id)).toEqual(['h3', 'h2']);
+      expect(page.nextCursor).toBe(encode('2024-01-02T00:00:00.000Z', 'h2'));
+    });
+
+    it('should continue after the cursor, including syncs that started in the same millisecond', async () => {
+      repository.find.mockResolvedValue([buildEntry('h1', '2024-01-02T00:00:00.000Z')]);
+
+      const page = await service.getHistory(mockUserId, 2, encode('2024-01-02T00:00:00.000Z', 'h2'));
+
+      const startedAt = new Date('2024-01-02T00:00:00.000Z');
+      expect(repository.find).toHaveBeenCalledWith(expect.objectContaining({
+        where: [
+          { userId: mockUserId, startedAt: LessThan(startedAt) },
+          { userId: mockUserId, startedAt: Equal(startedAt), id: LessThan('h2') },
+        ],
+      }));
+      expect(page.data.map(entry => entry.id)).toEqual(['h1']);
+      expect(page.nextCursor).toBeUndefined();
+    });
+
+    it('should reject a cursor it did not issue', async () => {
+      await expect(service.getHistory(mockUserId, 2, '2024-01-02T00:00:00.000Z')).rejects.toThrow(
+        new BadRequestException('Invalid cursor'),
+      );
+    });
+  });
+});
@@ -0,0 +1,188 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { SyncController } from '../sync.controller';
+import { CalendarSyncService, SyncResult } from '../calendar-sync.service';
+import { SyncHistoryService } from '../sync-history.service';
+import { SyncToGoogleDto, ResolveConflictsDto } from '../dto/sync.dto';
+import { JwtAuthGuard } from '../../auth/guards/auth.guard';
+import { IdempotencyInterceptor } from '../../../infra/redis/idempotency.interceptor';
+import { JobService } from '../../../infra/redis/jobs/job.service';
+import { User } from '../../../infra/database/entities/user.entity';
+
+describe('SyncController', () => {
+  let controller: SyncController;
+  let calendarSyncService: jest.Mocked<CalendarSyncService>;
+  let syncHistoryService: jest.Mocked<SyncHistoryService>;
+  let jobService: jest.Mocked<JobService>;
+
+  const mockUser = { id: 'user-123', email: 'test@example.com' } as User;
+
+  const mockSyncResult: SyncResult = {
+    summary: { created: 2, updated: 1, deleted: 0, skipped: 0, failed: 0 },
+    details: [],
+    conflicts: [],
+    quotaUsed: 3,
+    isDryRun: false,
+  };
+
+  const syncDto: SyncToGoogleDto = {
+    direction: 'upsert-to-google',
+    range: { from: '2024-01-01', to: '2024-03-31' },
+    dryRun: false,
+    idempotencyKey: 'sync-1700000000000-abc123def',
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [SyncController],
+      providers: [
+        {
+          provide: CalendarSyncService,
+          useValue: {
+            sync: jest.fn(),
+            resolveConflicts: jest.fn(),
+          },
+        },
+        {
+          provide: SyncHistoryService,
+          useValue: {
+            record: jest.fn((userId, options, operation) => operation()),
+            getHistory: jest.fn(),
+          },
+        },
+        {
+          provide: JobService,
+          useValue: {
+            createSyncJob: jest.fn(),
+            getJobStatus: jest.fn(),
+            findJobByIdempotencyKey: jest.fn(),
+          },
+        },
+      ],
+    })
+      .overrideGuard(JwtAuthGuard)
+      .useValue({ canActivate: jest.fn(() => true) })
+      .overrideInterceptor(IdempotencyInterceptor)
+      .useValue({ intercept: jest.fn((context, next) => next.handle()) })
+      .compile();
+
+    controller = module.get<SyncController>(SyncController);
+    calendarSyncService = module.get(CalendarSyncService);
+    syncHistoryService = module.get(SyncHistoryService);
+    jobService = module.get(JobService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('syncWithGoogle', () => {
+    it('should run the sync through the history recorder', async () => {
+      calendarSyncService.sync.mockResolvedValue(mockSyncResult);
+
+      const result = await controller.syncWithGoogle(mockUser, syncDto);
+
+      expect(syncHistoryService.record).toHaveBeenCalledWith(mockUser.id, syncDto, expect.any(Function));
+      expect(calendarSyncService.sync).toHaveBeenCalledWith(mockUser.id, syncDto);
+      expect(result).toEqual({ data: mockSyncResult });
+    });
+
+    it('should reject an inverted date range', async () => {
+      await expect(
+        controller.syncWithGoogle(mockUser, {
+          ...syncDto,
+          range: { from: '2024-03-31', to: '2024-01-01' },
+        }),
+      ).rejects.toThrow(BadRequestException);
+
+      expect(calendarSyncService.sync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createSyncJob', () => {
+    it('should queue a sync job for the user', async () => {
+      jobService.findJobByIdempotencyKey.mockResolvedValue(null);
+      jobService.createSyncJob.mockResolvedValue({ id: 42 } as any);
+
+      const result = await controller.createSyncJob(mockUser, syncDto);
+
+      expect(jobService.createSyncJob).toHaveBeenCalledWith({ userId: mockUser.id, ...syncDto });
+      expect(result).toEqual({ data: { jobId: '42' } });
+    });
+
+    it('should return the existing job for a repeated idempotency key', async () => {
+      jobService.findJobByIdempotencyKey.mockResolvedValue({
+        id: 7,
+        data: { userId: mockUser.id },
+      } as any);
+
+      const result = await controller.createSyncJob(mockUser, syncDto);
+
+      expect(jobService.createSyncJob).not.toHaveBeenCalled();
+      expect(result).toEqual({ data: { jobId: '7' } });
+    });
+  });
+
+  describe('getSyncJob', () => {
+    it('should return the status of the user\'s job', async () => {
+      const status = { id: '42', data: { userId: mockUser.id }, state: 'active', progress: 50 } as any;
+      jobService.getJobStatus.mockResolvedValue(status);
+
+      const result = await controller.getSyncJob(mockUser, '42');
+
+      expect(result).toEqual({ data: status });
+    });
+
+    it('should hide jobs that belong to another user', async () => {
+      jobService.getJobStatus.mockResolvedValue({ id: '42', data: { userId: 'other-user' } } as any);
+
+      await expect(controller.getSyncJob(mockUser, '42')).rejects.toThrow(NotFoundException);
+    });
+
+    it('should throw when the job does not exist', async () => {
+      jobService.getJobStatus.mockResolvedValue(null);
+
+      await expect(controller.getSyncJob(mockUser, 'missing')).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('getHistory', () => {
+    it('should return a page of history for the user', async () => {
+      const page = { data: [], nextCursor: undefined };
+      syncHistoryService.getHistory.mockResolvedValue(page);
+
+      const result = await controller.getHistory(mockUser, { limit: 10, cursor: '2024-01-01T00:00:00.000Z' });
+
+      expect(syncHistoryService.getHistory).toHaveBeenCalledWith(mockUser.id, 10, '2024-01-01T00:00:00.000Z');
+      expect(result).toBe(page);
+    });
+  });
+
+  describe('resolveConflicts', () => {
+    it('should pass conflicts and resolutions to the sync service', async () => {
+      const resolveDto = {
+        conflicts: [{ localEventId: 'event-1', googleEventId: 'google-1' }],
+        resolutions: [{ action: 'use_local', reason: 'Keep my version' }],
+      } as unknown as ResolveConflictsDto;
+      calendarSyncService.resolveConflicts.mockResolvedValue(mockSyncResult);
+
+      const result = await controller.resolveConflicts(mockUser, resolveDto);
+
+      expect(calendarSyncService.resolveConflicts).toHaveBeenCalledWith(
+        mockUser.id,
+        resolveDto.conflicts,
+        resolveDto.resolutions,
+      );
+      expect(result).toEqual({ data: mockSyncResult });
+    });
+
+    it('should reject mismatched conflict and resolution counts', async () => {
+      const resolveDto = {
+        conflicts: [{ localEventId: 'event-1' }, { localEventId: 'event-2' }],
+        resolutions: [{ action: 'use_local', reason: '' }],
+      } as unknown as ResolveConflictsDto;
+
+      await expect(controller.resolveConflicts(mockUser, resolveDto)).rejects.toThrow(BadRequestException);
+    });
+  });
+});
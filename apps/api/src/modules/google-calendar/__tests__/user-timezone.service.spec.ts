@@ -0,0 +1,58 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { UserTimezoneService } from '../user-timezone.service';
+import { GoogleCalendarService } from '../google-calendar.service';
+import { User } from '../../../infra/database/entities/user.entity';
+
+describe('UserTimezoneService', () => {
+  let service: UserTimezoneService;
+  let userRepository: jest.Mocked<Repository<User>>;
+  let googleCalendarService: jest.Mocked<GoogleCalendarService>;
+
+  const mockUserId = 'user-123';
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UserTimezoneService,
+        {
+          provide: getRepositoryToken(User),
+          useValue: {
+            findOne: jest.fn().mockResolvedValue({ id: mockUserId, timezone: null }),
+            update: jest.fn(),
+          },
+        },
+        {
+          provide: GoogleCalendarService,
+          useValue: {
+            getCalendarTimezone: jest.fn().mockResolvedValue('Europe/London'),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<UserTimezoneService>(UserTimezoneService);
+    userRepository = module.get(getRepositoryToken(User));
+    googleCalendarService = module.get(GoogleCalendarService);
+  });
+
+  it('should use the timezone stored on the user', async () => {
+    userRepository.findOne.mockResolvedValue({ id: mockUserId, timezone: 'Asia/Bangkok' } as User);
+
+    await expect(service.getTimezone(mockUserId)).resolves.toBe('Asia/Bangkok');
+    expect(googleCalendarService.getCalendarTimezone).not.toHaveBeenCalled();
+  });
+
+  it('should default to and store the primary Google calendar timezone', async () => {
+    await expect(service.getTimezone(mockUserId)).resolves.toBe('Europe/London');
+    expect(userRepository.update).toHaveBeenCalledWith(mockUserId, { timezone: 'Europe/London' });
+  });
+
+  it('should fall back to UTC without storing it when Google is unavailable', async () => {
+    googleCalendarService.getCalendarTimezone.mockRejectedValue(new Error('No Google Calendar account found for user'));
+
+    await expect(service.getTimezone(mockUserId)).resolves.toBe('UTC');
+    expect(userRepository.update).not.toHaveBeenCalled();
+  });
+});
@@ -1,20 +1,30 @@
 import { Injectable, Logger, BadRequestException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import { GoogleCalendarService } from './google-calendar.service';
+import { Between, In, Not, Repository } from 'typeorm';
+import { calendar_v3 } from 'googleapis';
+import { GoogleCalendarService, BatchOperation } from './google-calendar.service';
 import { EventFormatterService } from './event-formatter.service';
+import { UserTimezoneService } from './user-timezone.service';
 import { LocalEvent } from '../../infra/database/entities/local-event.entity';
 import { Subject } from '../../infra/database/entities/subject.entity';
 import { Section } from '../../infra/database/entities/section.entity';
+import { CalendarAccount } from '../../infra/database/entities/calendar-account.entity';
+import { JobService } from '../../infra/redis/jobs/job.service';
+
+export const SYNC_DIRECTIONS = ['upsert-to-google', 'pull-from-google', 'bidirectional'] as const;
+
+export type SyncDirection = typeof SYNC_DIRECTIONS[number];
 
 export interface SyncOptions {
-  direction: 'upsert-to-google';
+  direction: SyncDirection;
   range: {
     from: string;
     to: string;
   };
   eventIds?: string[];
   dryRun?: boolean;
+  // Push every event in range instead of only those changed since the last sync
+  fullResync?: boolean;
   idempotencyKey: string;
 }
 
@@ -22,19 +32,34 @@ export interface SyncResult {
   summary: {
     created: number;
     updated: number;
+    deleted: number;
     skipped: number;
     failed: number;
   };
   details: SyncDetail[];
   conflicts: EventConflict[];
   quotaUsed: number;
+  // Requests the push was expected to need before it ran
+  estimatedQuota?: number;
+  deferred?: DeferredSync;
   isDryRun: boolean;
 }
 
+/**
+ * Work left out of a run because it would have exceeded the daily quota
+ */
+export interface DeferredSync {
+  eventIds: string[];
+  estimatedQuota: number;
+  resumeAt: Date;
+  // Queued follow-up jobs, one per quota day; empty on a dry run
+  jobIds: string[];
+}
+
 export interface SyncDetail {
   localEventId: string;
   googleEventId?: string;
-  action: 'created' | 'updated' | 'skipped' | 'failed';
+  action: 'created' | 'updated' | 'deleted' | 'skipped' | 'failed';
   error?: string;
   etag?: string;
 }
@@ -53,6 +78,27 @@ export interface ConflictResolution {
   reason: string;
 }
 
+export type SyncProgressCallback = (completedGroups: number, totalGroups: number) => void | Promise<void>;
+
+interface PushWorkUnit {
+  events: LocalEvent[];
+  cost: number;
+}
+
+interface PushPlan {
+  groups: LocalEvent[][];
+  estimatedQuota: number;
+  deferred?: DeferredSync;
+}
+
+interface PullOutcome {
+  result: SyncResult;
+  // Events whose outcome was decided by the pull and must not be pushed
+  settledIds: Set<string>;
+  // Events where local won: push over the current Google version
+  refreshedEtags: Map<string, string>;
+}
+
 export interface EventMapping {
   localEventId: string;
   googleEventId: string;
@@ -63,6 +109,8 @@ export interface EventMapping {
 @Injectable()
 export class CalendarSyncService {
   private readonly logger = new Logger(CalendarSyncService.name);
+  // Groups with at least this many single events go through the batch endpoint
+  private readonly batchThreshold = 10;
 
   constructor(
     private readonly googleCalendarService: GoogleCalendarService,
@@ -73,50 +121,119 @@ export class CalendarSyncService {
     private readonly subjectRepository: Repository<Subject>,
     @InjectRepository(Section)
     private readonly sectionRepository: Repository<Section>,
+    @InjectRepository(CalendarAccount)
+    private readonly calendarAccountRepository: Repository<CalendarAccount>,
+    private readonly jobService: JobService,
+    private readonly userTimezoneService: UserTimezoneService,
   ) {}
 
+  /**
+   * Runs a sync in the direction given by the options
+   */
+  async sync(
+    userId: string,
+    options: SyncOptions,
+    onProgress?: SyncProgressCallback,
+  ): Promise<SyncResult> {
+    switch (options.direction) {
+      case 'upsert-to-google':
+        return this.syncToGoogle(userId, options, onProgress);
+
+      case 'pull-from-google':
+        return this.pullFromGoogle(userId, options, onProgress);
+
+      case 'bidirectional':
+        return this.syncBidirectional(userId, options, onProgress);
+
+      default:
+        throw new BadRequestException(`Unknown sync direction: ${options.direction}`);
+    }
+  }
+
   /**
    * Syncs local events to Google Calendar
    */
-  async syncToGoogle(userId: string, options: SyncOptions): Promise<SyncResult> {
+  async syncToGoogle(
+    userId: string,
+    options: SyncOptions,
+    onProgress?: SyncProgressCallback,
+  ): Promise<SyncResult> {
     this.logger.debug(`Starting sync for user ${userId} with options:`, options);
 
-    const result: SyncResult = {
-      summary: {
-        created: 0,
-        updated: 0,
-        skipped: 0,
-        failed: 0,
-      },
-      details: [],
-      conflicts: [],
-      quotaUsed: 0,
-      isDryRun: options.dryRun || false,
-    };
-
     try {
       // Get local events to sync
       const localEvents = await this.getLocalEventsToSync(userId, options);
-      
-      if (localEvents.length === 0) {
-        this.logger.debug(`No events to sync for user ${userId}`);
-        return result;
-      }
+      const result = await this.pushEvents(userId, localEvents, options, onProgress);
+      this.mergeResults(result, await this.pushDeletions(userId, options));
+
+      this.logger.debug(`Sync completed for user ${userId}:`, result.summary);
+      return result;
+
+    } catch (error) {
+      this.logger.error(`Sync failed for user ${userId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Pulls edits made in Google Calendar back onto linked local events.
+   * Google always wins for the mapped fields.
+   */
+  async pullFromGoogle(
+    userId: string,
+    options: SyncOptions,
+    onProgress?: SyncProgressCallback,
+  ): Promise<SyncResult> {
+    this.logger.debug(`Starting pull for user ${userId} with options:`, options);
 
-      // Group events by subject and section for potential RRULE optimization
-      const eventGroups = this.groupEventsBySubjectSection(localEvents);
+    try {
+      const { result } = await this.pullChanges(userId, options);
 
-      // Process each group
-      for (const group of eventGroups) {
-        const groupResult = await this.syncEventGroup(userId, group, options);
-        this.mergeResults(result, groupResult);
+      if (onProgress) {
+        await onProgress(1, 1);
       }
 
-      this.logger.debug(`Sync completed for user ${userId}:`, result.summary);
+      this.logger.debug(`Pull completed for user ${userId}:`, result.summary);
       return result;
 
     } catch (error) {
-      this.logger.error(`Sync failed for user ${userId}:`, error);
+      this.logger.error(`Pull failed for user ${userId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Pulls Google edits, then pushes local changes that were not settled by
+   * the pull. When both sides changed an event since the last sync, the side
+   * edited most recently wins; on a tie the local version wins.
+   */
+  async syncBidirectional(
+    userId: string,
+    options: SyncOptions,
+    onProgress?: SyncProgressCallback,
+  ): Promise<SyncResult> {
+    this.logger.debug(`Starting bidirectional sync for user ${userId} with options:`, options);
+
+    try {
+      const { result, settledIds, refreshedEtags } = await this.pullChanges(userId, options);
+
+      const localEvents = await this.getLocalEventsToSync(userId, options);
+      const eventsToPush = localEvents.filter(event => !settledIds.has(event.id));
+      eventsToPush.forEach(event => {
+        if (refreshedEtags.has(event.id)) {
+          event.gcalEtag = refreshedEtags.get(event.id);
+        }
+      });
+
+      const pushResult = await this.pushEvents(userId, eventsToPush, options, onProgress);
+      this.mergeResults(result, pushResult);
+      this.mergeResults(result, await this.pushDeletions(userId, options));
+
+      this.logger.debug(`Bidirectional sync completed for user ${userId}:`, result.summary);
+      return result;
+
+    } catch (error) {
+      this.logger.error(`Bidirectional sync failed for user ${userId}:`, error);
       throw error;
     }
   }
@@ -130,19 +247,38 @@ export class CalendarSyncService {
     resolutions: ConflictResolution[],
   ): Promise<SyncResult> {
     const result: SyncResult = {
-      summary: { created: 0, updated: 0, skipped: 0, failed: 0 },
+      summary: { created: 0, updated: 0, deleted: 0, skipped: 0, failed: 0 },
       details: [],
       conflicts: [],
       quotaUsed: 0,
       isDryRun: false,
     };
 
+    // Conflicts round-trip through the client, so re-read the local side and
+    // only act on events the user actually owns
+    const ownedEvents = conflicts.length > 0
+      ? await this.localEventRepository.find({
+          where: { id: In(conflicts.map(c => c.localEventId)), userId },
+          relations: ['subject', 'section'],
+        })
+      : [];
+    const ownedById = new Map(ownedEvents.map(event => [event.id, event]));
+
     for (let i = 0; i < conflicts.length; i++) {
       const conflict = conflicts[i];
       const resolution = resolutions[i];
 
       try {
-        const detail = await this.applyConflictResolution(userId, conflict, resolution);
+        const localEvent = ownedById.get(conflict.localEventId);
+        if (!localEvent) {
+          throw new BadRequestException(`Event ${conflict.localEventId} not found`);
+        }
+
+        const detail = await this.applyConflictResolution(
+          userId,
+          { ...conflict, localEvent },
+          resolution,
+        );
         result.details.push(detail);
         result.summary[detail.action]++;
       } catch (error) {
@@ -181,9 +317,802 @@ export class CalendarSyncService {
       statuses: ['planned', 'synced'] 
     });
 
+    // Skip events unchanged since the last sync unless specific events or a full resync were asked for
+    if (!options.fullResync && !(options.eventIds && options.eventIds.length > 0)) {
+      queryBuilder.andWhere('(event.dirty = true OR event.gcalEventId IS NULL)');
+    }
+
     return queryBuilder.getMany();
   }
 
+  /**
+   * Gets locally deleted events in range that still need removing
+   */
+  private async getLocalEventsToDelete(userId: string, options: SyncOptions): Promise<LocalEvent[]> {
+    return this.localEventRepository.find({
+      where: {
+        userId,
+        status: 'deleted',
+        eventDate: Between(options.range.from, options.range.to),
+        ...(options.eventIds && options.eventIds.length > 0 ? { id: In(options.eventIds) } : {}),
+      },
+    });
+  }
+
+  /**
+   * Pushes the given local events to Google Calendar, group by group
+   */
+  private async pushEvents(
+    userId: string,
+    localEvents: LocalEvent[],
+    options: SyncOptions,
+    onProgress?: SyncProgressCallback,
+  ): Promise<SyncResult> {
+    const result = this.createEmptyResult(options);
+
+    if (localEvents.length === 0) {
+      this.logger.debug(`No events to sync for user ${userId}`);
+      return result;
+    }
+
+    if (!options.dryRun) {
+      localEvents = await this.linkLegacyOccurrences(userId, localEvents, result);
+    }
+
+    // Group events by subject and section for potential RRULE optimization,
+    // keeping only what today's quota allows
+    const plan = await this.planPush(userId, this.groupEventsBySubjectSection(localEvents), options);
+    const eventGroups = plan.groups;
+    result.estimatedQuota = plan.estimatedQuota;
+    result.deferred = plan.deferred;
+
+    const account = await this.getCalendarAccount(userId);
+    const timezone = await this.userTimezoneService.getTimezone(userId);
+    const targetCalendarIds = new Set<string>();
+
+    // Process each group
+    for (let i = 0; i < eventGroups.length; i++) {
+      const calendarId = this.getTargetCalendarId(eventGroups[i][0].subject, account);
+      targetCalendarIds.add(calendarId);
+
+      const groupResult = await this.syncEventGroup(userId, eventGroups[i], options, calendarId, timezone);
+      this.mergeResults(result, groupResult);
+
+      if (onProgress) {
+        await onProgress(i + 1, eventGroups.length);
+      }
+    }
+
+    // Pull from every calendar events were written to
+    const newCalendarIds = Array.from(targetCalendarIds).filter(id => !(id in (account?.syncTokens || {})));
+    if (account && !options.dryRun && newCalendarIds.length > 0) {
+      const syncTokens = { ...account.syncTokens };
+      newCalendarIds.forEach(id => (syncTokens[id] = null));
+      await this.calendarAccountRepository.update(account.id, { syncTokens });
+    }
+
+    return result;
+  }
+
+  /**
+   * Estimates what pushing the groups costs. When that exceeds the user's
+   * remaining quota, the soonest events are kept for this run and the rest
+   * are queued in day-sized chunks to run after the quota resets.
+   */
+  private async planPush(
+    userId: string,
+    eventGroups: LocalEvent[][],
+    options: SyncOptions,
+  ): Promise<PushPlan> {
+    const units = eventGroups.flatMap(group => this.splitIntoWorkUnits(group));
+    const estimatedQuota = units.reduce((total, unit) => total + unit.cost, 0);
+    const quota = await this.googleCalendarService.getQuotaInfo(userId);
+
+    if (estimatedQuota <= quota.remaining) {
+      return { groups: eventGroups, estimatedQuota };
+    }
+
+    const firstDate = (unit: PushWorkUnit) =>
+      unit.events.reduce((first, event) => (event.eventDate < first ? event.eventDate : first), unit.events[0].eventDate);
+    units.sort((a, b) => firstDate(a).localeCompare(firstDate(b)));
+
+    let budget = quota.remaining;
+    const now: PushWorkUnit[] = [];
+    const later: PushWorkUnit[] = [];
+    for (const unit of units) {
+      if (unit.cost <= budget) {
+        now.push(unit);
+        budget -= unit.cost;
+      } else {
+        later.push(unit);
+      }
+    }
+
+    // Each follow-up job gets at most one day's worth of quota
+    const chunks: PushWorkUnit[][] = [];
+    let chunkCost = 0;
+    for (const unit of later) {
+      if (chunks.length === 0 || chunkCost + unit.cost > quota.dailyLimit) {
+        chunks.push([]);
+        chunkCost = 0;
+      }
+      chunks[chunks.length - 1].push(unit);
+      chunkCost += unit.cost;
+    }
+
+    const jobIds = options.dryRun
+      ? []
+      : await this.scheduleDeferredChunks(userId, chunks, options, quota.resetTime);
+
+    this.logger.warn(
+      `Sync for user ${userId} needs ~${estimatedQuota} requests but ${quota.remaining} remain; ` +
+      `deferring ${later.length} work units to ${chunks.length} follow-up job(s)`,
+    );
+
+    return {
+      groups: this.groupEventsBySubjectSection(now.flatMap(unit => unit.events)),
+      estimatedQuota,
+      deferred: {
+        eventIds: later.flatMap(unit => unit.events.map(event => event.id)),
+        estimatedQuota: later.reduce((total, unit) => total + unit.cost, 0),
+        resumeAt: quota.resetTime,
+        jobIds,
+      },
+    };
+  }
+
+  /**
+   * Splits a group into the pieces syncEventGroup sends to Google: one
+   * request per linked or single event, or an insert plus an instance
+   * listing for a new series
+   */
+  private splitIntoWorkUnits(events: LocalEvent[]): PushWorkUnit[] {
+    const newEvents = events.filter(event => !event.gcalEventId && !event.exceptionType);
+    const units: PushWorkUnit[] = events
+      .filter(event => event.gcalEventId || event.exceptionType)
+      .map(event => ({ events: [event], cost: 1 }));
+
+    if (this.canUseRecurringRule(newEvents) && newEvents.length > 3) {
+      units.push({ events: newEvents, cost: 2 });
+    } else {
+      units.push(...newEvents.map(event => ({ events: [event], cost: 1 })));
+    }
+
+    return units;
+  }
+
+  /**
+   * Queues one push job per chunk, a day apart, starting when the quota resets
+   */
+  private async scheduleDeferredChunks(
+    userId: string,
+    chunks: PushWorkUnit[][],
+    options: SyncOptions,
+    resetTime: Date,
+  ): Promise<string[]> {
+    const jobIds: string[] = [];
+
+    for (let i = 0; i < chunks.length; i++) {
+      const job = await this.jobService.createSyncJob(
+        {
+          userId,
+          direction: 'upsert-to-google',
+          range: options.range,
+          eventIds: chunks[i].flatMap(unit => unit.events.map(event => event.id)),
+          idempotencyKey: `${options.idempotencyKey.substring(0, 40)}-deferred-${i + 1}`,
+        },
+        { delay: Math.max(0, resetTime.getTime() + i * 24 * 60 * 60 * 1000 - Date.now()) },
+      );
+      jobIds.push(job.id.toString());
+    }
+
+    return jobIds;
+  }
+
+  /**
+   * Splits linked events into those mapped one-to-one to a Google event and
+   * those sharing a recurring Google event
+   */
+  private splitLinkedEvents(events: LocalEvent[]): { single: LocalEvent[]; series: LocalEvent[] } {
+    const byGoogleId = new Map<string, LocalEvent[]>();
+
+    for (const event of events) {
+      if (!event.gcalEventId) continue;
+      if (!byGoogleId.has(event.gcalEventId)) {
+        byGoogleId.set(event.gcalEventId, []);
+      }
+      byGoogleId.get(event.gcalEventId)!.push(event);
+    }
+
+    const single: LocalEvent[] = [];
+    const series: LocalEvent[] = [];
+    byGoogleId.forEach(group => (group.length === 1 ? single : series).push(...group));
+
+    return { single, series };
+  }
+
+  /**
+   * Reads what changed on Google since the stored sync cursor and applies it
+   * to linked local events. Runs scoped to eventIds read those events directly
+   * and leave the cursor alone.
+   */
+  private async pullChanges(userId: string, options: SyncOptions): Promise<PullOutcome> {
+    const outcome: PullOutcome = {
+      result: this.createEmptyResult(options),
+      settledIds: new Set<string>(),
+      refreshedEtags: new Map<string, string>(),
+    };
+    const timezone = await this.userTimezoneService.getTimezone(userId);
+
+    if (options.eventIds && options.eventIds.length > 0) {
+      const localEvents = await this.getLocalEventsToSync(userId, options);
+      const { single, series } = this.splitLinkedEvents(localEvents);
+      this.skipSeriesEvents(series, outcome.result);
+
+      for (const event of single) {
+        outcome.result.quotaUsed++;
+        const googleEvent = await this.fetchGoogleEvent(userId, event);
+        await this.applyPulledEvent(event, googleEvent, options, outcome, timezone);
+      }
+
+      return outcome;
+    }
+
+    const account = await this.getCalendarAccount(userId);
+    const syncTokens: Record<string, string> = {};
+
+    for (const calendarId of this.getPulledCalendarIds(account)) {
+      const changes = await this.googleCalendarService.listEventChanges(
+        userId,
+        account?.syncTokens?.[calendarId] || undefined,
+        calendarId,
+      );
+      outcome.result.quotaUsed += changes.requests;
+      syncTokens[calendarId] = changes.nextSyncToken;
+
+      await this.applyEventChanges(userId, changes.events, options, outcome, timezone);
+    }
+
+    // Only move the cursors once every change has been applied, so failures are retried
+    if (account && !options.dryRun && outcome.result.summary.failed === 0) {
+      await this.calendarAccountRepository.update(account.id, {
+        syncTokens: { ...account.syncTokens, ...syncTokens },
+        lastSyncedAt: new Date(),
+      });
+    }
+
+    return outcome;
+  }
+
+  /**
+   * Applies the events listed as changed in one calendar to the local events linked to them
+   */
+  private async applyEventChanges(
+    userId: string,
+    events: calendar_v3.Schema$Event[],
+    options: SyncOptions,
+    outcome: PullOutcome,
+    timezone: string,
+  ): Promise<void> {
+    const changedById = new Map(
+      events.filter(event => event.id).map(event => [event.id!, event]),
+    );
+
+    const linkedEvents = changedById.size > 0
+      ? await this.localEventRepository.find({
+          where: {
+            userId,
+            gcalEventId: In(Array.from(changedById.keys())),
+            status: In(['planned', 'synced']),
+          },
+          relations: ['subject', 'section'],
+        })
+      : [];
+
+    const { single, series } = this.splitLinkedEvents(linkedEvents);
+    this.skipSeriesEvents(
+      series.filter(event => changedById.get(event.gcalEventId!)!.etag !== event.gcalEtag),
+      outcome.result,
+    );
+
+    for (const event of single) {
+      await this.applyPulledEvent(event, changedById.get(event.gcalEventId!)!, options, outcome, timezone);
+    }
+
+    await this.pullSeriesChanges(userId, changedById, new Set(single.map(event => event.id)), options, outcome, timezone);
+  }
+
+  /**
+   * Reads a single linked event, treating a missing event as cancelled
+   */
+  private async fetchGoogleEvent(
+    userId: string,
+    localEvent: LocalEvent,
+  ): Promise<calendar_v3.Schema$Event> {
+    try {
+      return await this.googleCalendarService.getEvent(
+        userId,
+        localEvent.gcalEventId!,
+        this.getEventCalendarId(localEvent),
+      );
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('not found')) {
+        return { id: localEvent.gcalEventId, status: 'cancelled' };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Applies one Google event to its linked local event. Events whose ETag is
+   * unchanged are left alone; when local wins, the Google ETag is remembered
+   * so the push can overwrite that version.
+   */
+  private async applyPulledEvent(
+    localEvent: LocalEvent,
+    googleEvent: calendar_v3.Schema$Event,
+    options: SyncOptions,
+    outcome: PullOutcome,
+    timezone: string,
+  ): Promise<void> {
+    const { result } = outcome;
+
+    try {
+      if (googleEvent.status === 'cancelled') {
+        result.details.push({
+          localEventId: localEvent.id,
+          googleEventId: localEvent.gcalEventId,
+          action: 'skipped',
+          error: 'Event was deleted on Google Calendar',
+        });
+        result.summary.skipped++;
+        result.conflicts.push(this.createDeletedOnGoogleConflict(localEvent));
+        outcome.settledIds.add(localEvent.id);
+        return;
+      }
+
+      if (googleEvent.etag === localEvent.gcalEtag) {
+        return;
+      }
+
+      if (!this.googleWins(localEvent, googleEvent, options.direction)) {
+        outcome.refreshedEtags.set(localEvent.id, googleEvent.etag!);
+        return;
+      }
+
+      const detail = await this.applyGoogleChanges(localEvent, googleEvent, options.dryRun || false, timezone);
+      result.details.push(detail);
+      result.summary[detail.action]++;
+      outcome.settledIds.add(localEvent.id);
+
+    } catch (error) {
+      this.logger.error(`Failed to pull event ${localEvent.id}:`, error);
+      result.details.push({
+        localEventId: localEvent.id,
+        googleEventId: localEvent.gcalEventId,
+        action: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      });
+      result.summary.failed++;
+      outcome.settledIds.add(localEvent.id);
+    }
+  }
+
+  /**
+   * Applies changes to recurring Google events (an edit to "all events", or
+   * the series being deleted) to each linked occurrence. Occurrences whose
+   * instance was already listed as an exception are skipped.
+   */
+  private async pullSeriesChanges(
+    userId: string,
+    changedById: Map<string, calendar_v3.Schema$Event>,
+    handledIds: Set<string>,
+    options: SyncOptions,
+    outcome: PullOutcome,
+    timezone: string,
+  ): Promise<void> {
+    const occurrences = changedById.size > 0
+      ? await this.localEventRepository.find({
+          where: {
+            userId,
+            gcalRecurringEventId: In(Array.from(changedById.keys())),
+            status: In(['planned', 'synced']),
+          },
+          relations: ['subject', 'section'],
+        })
+      : [];
+
+    const bySeries = new Map<string, LocalEvent[]>();
+    for (const event of occurrences) {
+      // Occurrences not yet mapped to an instance are reported with the legacy series
+      if (handledIds.has(event.id) || event.gcalEventId === event.gcalRecurringEventId) continue;
+      if (!bySeries.has(event.gcalRecurringEventId!)) {
+        bySeries.set(event.gcalRecurringEventId!, []);
+      }
+      bySeries.get(event.gcalRecurringEventId!)!.push(event);
+    }
+
+    for (const [seriesId, events] of bySeries) {
+      let instances: calendar_v3.Schema$Event[] = [];
+
+      if (changedById.get(seriesId)!.status !== 'cancelled') {
+        try {
+          outcome.result.quotaUsed++;
+          instances = await this.googleCalendarService.listInstances(
+            userId,
+            seriesId,
+            this.getEventCalendarId(events[0]),
+          );
+        } catch (error) {
+          this.logger.error(`Failed to list instances of series ${seriesId}:`, error);
+          events.forEach(event => {
+            outcome.result.details.push({
+              localEventId: event.id,
+              googleEventId: event.gcalEventId,
+              action: 'failed',
+              error: error instanceof Error ? error.message : String(error),
+            });
+            outcome.settledIds.add(event.id);
+          });
+          outcome.result.summary.failed += events.length;
+          continue;
+        }
+      }
+
+      const instancesById = new Map(instances.map(instance => [instance.id, instance]));
+      for (const event of events) {
+        // An occurrence missing from the series was removed on Google
+        const instance = instancesById.get(event.gcalEventId!) || { id: event.gcalEventId, status: 'cancelled' };
+        await this.applyPulledEvent(event, instance, options, outcome, timezone);
+      }
+    }
+  }
+
+  /**
+   * Occurrences synced before instance IDs were tracked share the series ID,
+   * so there is no single instance to read back
+   */
+  private skipSeriesEvents(events: LocalEvent[], result: SyncResult): void {
+    events.forEach(event => {
+      result.details.push({
+        localEventId: event.id,
+        googleEventId: event.gcalEventId,
+        action: 'skipped',
+        error: 'Edits to recurring series are not pulled from Google Calendar',
+      });
+      result.summary.skipped++;
+    });
+  }
+
+  /**
+   * Decides whether the Google version of an edited event wins over the local one
+   */
+  private googleWins(
+    localEvent: LocalEvent,
+    googleEvent: calendar_v3.Schema$Event,
+    direction: SyncDirection,
+  ): boolean {
+    // Without local changes since the last sync there is nothing to protect
+    if (direction === 'pull-from-google' || !localEvent.dirty) {
+      return true;
+    }
+
+    if (!googleEvent.updated || !localEvent.updatedAt) {
+      return false;
+    }
+
+    return new Date(googleEvent.updated).getTime() > new Date(localEvent.updatedAt).getTime();
+  }
+
+  /**
+   * Writes the fields edited in Google Calendar onto the local event
+   */
+  private async applyGoogleChanges(
+    localEvent: LocalEvent,
+    googleEvent: calendar_v3.Schema$Event,
+    dryRun: boolean,
+    timezone: string,
+  ): Promise<SyncDetail> {
+    const changes = this.eventFormatterService.parseGoogleEvent(googleEvent, localEvent, timezone);
+    const changed = Object.keys(changes).length > 0;
+
+    if (!dryRun) {
+      await this.localEventRepository.update(localEvent.id, {
+        ...changes,
+        gcalEtag: googleEvent.etag,
+        status: 'synced',
+        dirty: false,
+      });
+    }
+
+    return {
+      localEventId: localEvent.id,
+      googleEventId: localEvent.gcalEventId,
+      action: changed ? 'updated' : 'skipped',
+      etag: googleEvent.etag,
+    };
+  }
+
+  /**
+   * Removes locally deleted events from Google Calendar, then drops their
+   * rows. Occurrences of a series that still has live events are excluded
+   * from it with EXDATEs instead of deleting the whole series.
+   */
+  private async pushDeletions(userId: string, options: SyncOptions): Promise<SyncResult> {
+    const result = this.createEmptyResult(options);
+    await this.deleteRemovedEvents(userId, await this.getLocalEventsToDelete(userId, options), result);
+    return result;
+  }
+
+  /**
+   * Removes from Google Calendar the events of rows deleted without a sync,
+   * by a restore replacing the workspace or an import rollback. Those delete
+   * rows in a transaction and only change Google once it commits. Series
+   * that keep live occurrences only lose the removed ones.
+   */
+  async removeDeletedEvents(userId: string, events: LocalEvent[]): Promise<SyncResult> {
+    const result = this.createEmptyResult({});
+    await this.deleteRemovedEvents(userId, events.filter(event => event.gcalEventId), result);
+    return result;
+  }
+
+  /**
+   * Deletes removed events from Google Calendar and drops their rows
+   */
+  private async deleteRemovedEvents(userId: string, removedEvents: LocalEvent[], result: SyncResult): Promise<void> {
+    const dryRun = result.isDryRun;
+
+    // Occurrences of a series are handled together through the series itself
+    const byGoogleId = new Map<string, LocalEvent[]>();
+    const unlinkedEvents: LocalEvent[] = [];
+    for (const event of removedEvents) {
+      if (!event.gcalEventId) {
+        unlinkedEvents.push(event);
+        continue;
+      }
+      const googleEventId = event.gcalRecurringEventId || event.gcalEventId;
+      if (!byGoogleId.has(googleEventId)) {
+        byGoogleId.set(googleEventId, []);
+      }
+      byGoogleId.get(googleEventId)!.push(event);
+    }
+
+    // Never reached Google, so only the local row is left
+    if (unlinkedEvents.length > 0) {
+      if (!dryRun) {
+        await this.localEventRepository.delete(unlinkedEvents.map(event => event.id));
+      }
+      this.addDeletedDetails(result, unlinkedEvents);
+    }
+
+    for (const [googleEventId, events] of byGoogleId) {
+      try {
+        const liveEvents = await this.localEventRepository.find({
+          where: [
+            { userId, gcalRecurringEventId: googleEventId, status: Not('deleted') },
+            { userId, gcalEventId: googleEventId, status: Not('deleted') },
+          ],
+          order: { eventDate: 'ASC', startTime: 'ASC' },
+        });
+
+        const calendarId = this.getEventCalendarId(events[0]);
+
+        if (liveEvents.length === 0) {
+          result.quotaUsed += 1;
+          if (!dryRun) {
+            await this.googleCalendarService.deleteEvent(userId, googleEventId, calendarId);
+          }
+        } else {
+          result.quotaUsed += 3;
+          if (!dryRun) {
+            await this.excludeFromSeries(userId, calendarId, googleEventId, events, liveEvents);
+          }
+        }
+
+        if (!dryRun) {
+          await this.localEventRepository.delete(events.map(event => event.id));
+        }
+        this.addDeletedDetails(result, events, googleEventId);
+
+      } catch (error) {
+        this.logger.error(`Failed to delete Google event ${googleEventId}:`, error);
+        events.forEach(event => {
+          result.details.push({
+            localEventId: event.id,
+            googleEventId,
+            action: 'failed',
+            error: error instanceof Error ? error.message : String(error),
+          });
+        });
+        result.summary.failed += events.length;
+      }
+    }
+  }
+
+  /**
+   * Removes occurrences from a recurring Google event. Occurrences after the
+   * last live one end the series there (a changed schedule rule splits the
+   * series rather than recreating it); earlier ones become EXDATEs.
+   */
+  private async excludeFromSeries(
+    userId: string,
+    calendarId: string,
+    seriesId: string,
+    removedEvents: LocalEvent[],
+    liveEvents: LocalEvent[],
+  ): Promise<void> {
+    const series = await this.googleCalendarService.getEvent(userId, seriesId, calendarId);
+    const lastLive = this.slotKey(liveEvents[liveEvents.length - 1]);
+    const trailing = removedEvents.some(event => this.slotKey(event) > lastLive);
+
+    const timezone = await this.userTimezoneService.getTimezone(userId);
+
+    let recurrence = series.recurrence || [];
+    if (trailing) {
+      recurrence = this.eventFormatterService.truncateRecurrence(
+        recurrence,
+        liveEvents[liveEvents.length - 1].eventDate,
+        timezone,
+      );
+    }
+
+    const exdates = removedEvents
+      .filter(event => this.slotKey(event) <= lastLive)
+      .map(event => this.eventFormatterService.formatExDate(event.eventDate, event.startTime, timezone));
+    recurrence = Array.from(new Set([...recurrence, ...exdates]));
+
+    await this.googleCalendarService.patchEvent(
+      userId,
+      seriesId,
+      { recurrence },
+      series.etag || undefined,
+      calendarId,
+    );
+
+    // Editing the series changes the ETag of every occurrence
+    await this.linkSeriesInstances(userId, calendarId, seriesId, liveEvents);
+  }
+
+  /**
+   * Maps local events onto the instances of a recurring Google event by the
+   * slot each instance was generated for, storing instance IDs and ETags.
+   * Returns the events no instance matched.
+   */
+  private async linkSeriesInstances(
+    userId: string,
+    calendarId: string,
+    seriesId: string,
+    events: LocalEvent[],
+    fields: Partial<LocalEvent> = {},
+  ): Promise<LocalEvent[]> {
+    const instances = await this.googleCalendarService.listInstances(userId, seriesId, calendarId);
+    const timezone = await this.userTimezoneService.getTimezone(userId);
+
+    const instancesBySlot = new Map<string, calendar_v3.Schema$Event>();
+    for (const instance of instances) {
+      const slot = this.eventFormatterService.parseOriginalStart(instance, timezone);
+      if (instance.status !== 'cancelled' && slot) {
+        instancesBySlot.set(`${slot.eventDate} ${slot.startTime}`, instance);
+      }
+    }
+
+    const unmatched: LocalEvent[] = [];
+    for (const event of events) {
+      const instance = instancesBySlot.get(this.slotKey(event));
+      if (!instance) {
+        unmatched.push(event);
+        continue;
+      }
+
+      event.gcalEventId = instance.id!;
+      event.gcalRecurringEventId = seriesId;
+      event.gcalEtag = instance.etag!;
+      await this.localEventRepository.update(event.id, {
+        ...fields,
+        gcalEventId: event.gcalEventId,
+        gcalRecurringEventId: seriesId,
+        gcalEtag: event.gcalEtag,
+      });
+    }
+
+    return unmatched;
+  }
+
+  /**
+   * Maps occurrences that still point at their series onto its instances, so
+   * they can be updated one by one. Occurrences that cannot be mapped are
+   * reported as failed and left out of the push.
+   */
+  private async linkLegacyOccurrences(
+    userId: string,
+    localEvents: LocalEvent[],
+    result: SyncResult,
+  ): Promise<LocalEvent[]> {
+    const bySeries = new Map<string, LocalEvent[]>();
+    for (const event of localEvents) {
+      if (!event.gcalRecurringEventId || event.gcalEventId !== event.gcalRecurringEventId) continue;
+      if (!bySeries.has(event.gcalRecurringEventId)) {
+        bySeries.set(event.gcalRecurringEventId, []);
+      }
+      bySeries.get(event.gcalRecurringEventId)!.push(event);
+    }
+
+    const unresolved = new Set<string>();
+    for (const [seriesId, events] of bySeries) {
+      let unmatched: LocalEvent[];
+      let reason = 'No matching occurrence in the recurring Google event';
+
+      try {
+        result.quotaUsed++;
+        unmatched = await this.linkSeriesInstances(userId, this.getEventCalendarId(events[0]), seriesId, events);
+      } catch (error) {
+        this.logger.error(`Failed to map occurrences of series ${seriesId}:`, error);
+        unmatched = events;
+        reason = error instanceof Error ? error.message : String(error);
+      }
+
+      unmatched.forEach(event => {
+        unresolved.add(event.id);
+        result.details.push({
+          localEventId: event.id,
+          googleEventId: seriesId,
+          action: 'failed',
+          error: reason,
+        });
+      });
+      result.summary.failed += unmatched.length;
+    }
+
+    return localEvents.filter(event => !unresolved.has(event.id));
+  }
+
+  private async getCalendarAccount(userId: string): Promise<CalendarAccount | null> {
+    return this.calendarAccountRepository.findOne({
+      where: { userId, provider: 'google' },
+    });
+  }
+
+  /**
+   * Calendar new events of a subject are written to
+   */
+  private getTargetCalendarId(subject: Subject | undefined, account: CalendarAccount | null): string {
+    return subject?.calendarId || account?.primaryCalendarId || 'primary';
+  }
+
+  /**
+   * Calendar a linked event lives in; events linked before calendars could be
+   * chosen were all written to the primary calendar
+   */
+  private getEventCalendarId(event: LocalEvent): string {
+    return event.gcalCalendarId || 'primary';
+  }
+
+  /**
+   * Calendars to read changes from: the current target and every calendar
+   * events have been written to
+   */
+  private getPulledCalendarIds(account: CalendarAccount | null): string[] {
+    return Array.from(new Set([
+      this.getTargetCalendarId(undefined, account),
+      ...Object.keys(account?.syncTokens || {}),
+    ]));
+  }
+
+  private slotKey(event: LocalEvent): string {
+    return `${event.eventDate} ${event.startTime.substring(0, 5)}`;
+  }
+
+  private addDeletedDetails(result: SyncResult, events: LocalEvent[], googleEventId?: string): void {
+    events.forEach(event => {
+      result.details.push({
+        localEventId: event.id,
+        googleEventId,
+        action: 'deleted',
+      });
+    });
+    result.summary.deleted += events.length;
+  }
+
   /**
    * Groups events by subject and section for potential RRULE optimization
    */
@@ -208,30 +1137,48 @@ export class CalendarSyncService {
     userId: string,
     events: LocalEvent[],
     options: SyncOptions,
+    calendarId: string,
+    timezone: string,
   ): Promise<SyncResult> {
     const result: SyncResult = {
-      summary: { created: 0, updated: 0, skipped: 0, failed: 0 },
+      summary: { created: 0, updated: 0, deleted: 0, skipped: 0, failed: 0 },
       details: [],
       conflicts: [],
       quotaUsed: 0,
       isDryRun: options.dryRun || false,
     };
 
+    // Events already on Google are updated one by one; an occurrence of a
+    // series becomes an exception to it rather than rewriting the series
+    const linkedEvents = events.filter(event => event.gcalEventId);
+    const newEvents = events.filter(event => !event.gcalEventId && !event.exceptionType);
+
+    // Moved classes and extra sessions are off the weekly pattern, so new
+    // ones are always written as events of their own
+    const newExceptionEvents = events.filter(event => !event.gcalEventId && event.exceptionType);
+
     // Check if we can use RRULE (multiple events, same time pattern)
-    const canUseRRule = this.canUseRecurringRule(events);
+    const useRRule = this.canUseRecurringRule(newEvents) && newEvents.length > 3;
+    const singleEvents = useRRule
+      ? [...linkedEvents, ...newExceptionEvents]
+      : [...linkedEvents, ...newEvents, ...newExceptionEvents];
 
-    if (canUseRRule && events.length > 3) {
-      // Use RRULE for efficiency
-      const groupResult = await this.syncAsRecurringEvent(userId, events, options);
-      this.mergeResults(result, groupResult);
+    if (!options.dryRun && singleEvents.length >= this.batchThreshold) {
+      this.mergeResults(result, await this.syncEventsInBatch(userId, singleEvents, calendarId, timezone));
     } else {
       // Sync individual events
-      for (const event of events) {
-        const eventResult = await this.syncSingleEvent(userId, event, options);
+      for (const event of singleEvents) {
+        const eventResult = await this.syncSingleEvent(userId, event, options, calendarId, timezone);
         this.mergeResults(result, eventResult);
       }
     }
 
+    if (useRRule) {
+      // Use RRULE for efficiency
+      const groupResult = await this.syncAsRecurringEvent(userId, newEvents, options, calendarId, timezone);
+      this.mergeResults(result, groupResult);
+    }
+
     return result;
   }
 
@@ -242,9 +1189,11 @@ export class CalendarSyncService {
     userId: string,
     localEvent: LocalEvent,
     options: SyncOptions,
+    calendarId: string,
+    timezone: string,
   ): Promise<SyncResult> {
     const result: SyncResult = {
-      summary: { created: 0, updated: 0, skipped: 0, failed: 0 },
+      summary: { created: 0, updated: 0, deleted: 0, skipped: 0, failed: 0 },
       details: [],
       conflicts: [],
       quotaUsed: 1,
@@ -253,10 +1202,11 @@ export class CalendarSyncService {
 
     try {
       // Format event for Google Calendar
-      const googleEvent = this.eventFormatterService.formatSingleEvent(
+      const googleEvent = await this.eventFormatterService.formatSingleEvent(
         localEvent,
         localEvent.subject,
         localEvent.section,
+        { timezone },
       );
 
       let detail: SyncDetail;
@@ -266,7 +1216,7 @@ export class CalendarSyncService {
         detail = await this.updateExistingEvent(userId, localEvent, googleEvent, options);
       } else {
         // Create new event
-        detail = await this.createNewEvent(userId, localEvent, googleEvent, options);
+        detail = await this.createNewEvent(userId, localEvent, googleEvent, options, calendarId);
       }
 
       result.details.push(detail);
@@ -293,6 +1243,97 @@ export class CalendarSyncService {
     return result;
   }
 
+  /**
+   * Creates and updates single events through one batch request per
+   * batchSize events. Outcomes match syncSingleEvent event by event.
+   */
+  private async syncEventsInBatch(
+    userId: string,
+    events: LocalEvent[],
+    calendarId: string,
+    timezone: string,
+  ): Promise<SyncResult> {
+    const result: SyncResult = {
+      summary: { created: 0, updated: 0, deleted: 0, skipped: 0, failed: 0 },
+      details: [],
+      conflicts: [],
+      quotaUsed: 0,
+      isDryRun: false,
+    };
+    const eventsById = new Map(events.map(event => [event.id, event]));
+    const isUpdate = (event: LocalEvent) => !!(event.gcalEventId && event.gcalEtag);
+    const operations: BatchOperation[] = [];
+
+    for (const event of events) {
+      try {
+        const googleEvent = await this.eventFormatterService.formatSingleEvent(
+          event,
+          event.subject,
+          event.section,
+          { timezone },
+        );
+        operations.push(isUpdate(event)
+          ? {
+              localEventId: event.id,
+              method: 'update',
+              eventId: event.gcalEventId,
+              event: googleEvent,
+              etag: event.gcalEtag,
+              calendarId: this.getEventCalendarId(event),
+            }
+          : { localEventId: event.id, method: 'create', event: googleEvent, calendarId });
+      } catch (error) {
+        result.details.push({
+          localEventId: event.id,
+          action: 'failed',
+          error: error instanceof Error ? error.message : String(error),
+        });
+        result.summary.failed++;
+      }
+    }
+
+    let batch;
+    try {
+      batch = await this.googleCalendarService.executeBatch(userId, operations);
+      result.quotaUsed += batch.requestsSent;
+    } catch (error) {
+      this.logger.error(`Batch sync failed for user ${userId}:`, error);
+      const message = error instanceof Error ? error.message : String(error);
+      operations.forEach(operation => {
+        result.details.push({ localEventId: operation.localEventId, action: 'failed', error: message });
+        result.summary.failed++;
+      });
+      return result;
+    }
+
+    for (const item of batch.successful) {
+      const event = eventsById.get(item.localEventId);
+      const action = isUpdate(event) ? 'updated' : 'created';
+
+      await this.localEventRepository.update(event.id, action === 'created'
+        ? { gcalEventId: item.googleEventId, gcalCalendarId: calendarId, gcalEtag: item.etag, status: 'synced', dirty: false }
+        : { gcalEtag: item.etag, status: 'synced', dirty: false });
+
+      result.details.push({ localEventId: event.id, googleEventId: item.googleEventId, action, etag: item.etag });
+      result.summary[action]++;
+    }
+
+    for (const item of batch.failed) {
+      const event = eventsById.get(item.localEventId);
+      result.details.push({ localEventId: event.id, googleEventId: event.gcalEventId, action: 'failed', error: item.error });
+      result.summary.failed++;
+
+      if (item.status === 412) {
+        const conflict = await this.detectConflict(userId, event);
+        if (conflict) {
+          result.conflicts.push(conflict);
+        }
+      }
+    }
+
+    return result;
+  }
+
   /**
    * Syncs events as a recurring Google Calendar event
    */
@@ -300,44 +1341,50 @@ export class CalendarSyncService {
     userId: string,
     events: LocalEvent[],
     options: SyncOptions,
+    calendarId: string,
+    timezone: string,
   ): Promise<SyncResult> {
     const result: SyncResult = {
-      summary: { created: 0, updated: 0, skipped: 0, failed: 0 },
+      summary: { created: 0, updated: 0, deleted: 0, skipped: 0, failed: 0 },
       details: [],
       conflicts: [],
-      quotaUsed: 1, // RRULE counts as one API call
+      quotaUsed: 2, // One insert for the whole series, then one call to list its instances
       isDryRun: options.dryRun || false,
     };
 
     try {
-      // Check if any events already have Google IDs (mixed state)
-      const syncedEvents = events.filter(e => e.gcalEventId);
-      
-      if (syncedEvents.length > 0) {
-        // Mixed state - fall back to individual sync
-        this.logger.debug('Mixed sync state detected, falling back to individual events');
-        for (const event of events) {
-          const eventResult = await this.syncSingleEvent(userId, event, options);
-          this.mergeResults(result, eventResult);
-        }
-        return result;
-      }
-
       // Create recurring event
-      const googleEvent = this.eventFormatterService.formatRecurringEvent(
+      const googleEvent = await this.eventFormatterService.formatRecurringEvent(
         events,
         events[0].subject,
         events[0].section,
+        { timezone },
       );
 
       if (!options.dryRun) {
         const { eventId, etag } = await this.googleCalendarService.createEvent(
           userId,
           googleEvent,
+          calendarId,
         );
 
-        // Update all local events with the Google event ID
-        await this.updateLocalEventsWithGoogleId(events, eventId, etag);
+        // Link each local event to its own instance of the series
+        const synced: Partial<LocalEvent> = { status: 'synced', dirty: false, gcalCalendarId: calendarId };
+        const unmatched = await this.linkSeriesInstances(userId, calendarId, eventId, events, synced);
+
+        // Keep unmatched events on the series so they are not created twice;
+        // the next push retries mapping them
+        for (const event of unmatched) {
+          event.gcalEventId = eventId;
+          event.gcalRecurringEventId = eventId;
+          event.gcalEtag = etag;
+          await this.localEventRepository.update(event.id, {
+            ...synced,
+            gcalEventId: eventId,
+            gcalRecurringEventId: eventId,
+            gcalEtag: etag,
+          });
+        }
       }
 
       // Create details for all events
@@ -375,6 +1422,7 @@ export class CalendarSyncService {
     localEvent: LocalEvent,
     googleEvent: any,
     options: SyncOptions,
+    calendarId: string,
   ): Promise<SyncDetail> {
     if (options.dryRun) {
       return {
@@ -388,13 +1436,16 @@ export class CalendarSyncService {
     const { eventId, etag } = await this.googleCalendarService.createEvent(
       userId,
       googleEvent,
+      calendarId,
     );
 
     // Update local event with Google details
     await this.localEventRepository.update(localEvent.id, {
       gcalEventId: eventId,
+      gcalCalendarId: calendarId,
       gcalEtag: etag,
       status: 'synced',
+      dirty: false,
     });
 
     return {
@@ -429,12 +1480,14 @@ export class CalendarSyncService {
         localEvent.gcalEventId!,
         googleEvent,
         localEvent.gcalEtag!,
+        this.getEventCalendarId(localEvent),
       );
 
       // Update local event with new ETag
       await this.localEventRepository.update(localEvent.id, {
         gcalEtag: etag,
         status: 'synced',
+        dirty: false,
       });
 
       return {
@@ -466,6 +1519,7 @@ export class CalendarSyncService {
       const googleEvent = await this.googleCalendarService.getEvent(
         userId,
         localEvent.gcalEventId!,
+        this.getEventCalendarId(localEvent),
       );
 
       const conflictType = this.determineConflictType(localEvent, googleEvent);
@@ -482,21 +1536,25 @@ export class CalendarSyncService {
 
     } catch (error) {
       if (error.message.includes('not found')) {
-        return {
-          localEventId: localEvent.id,
-          googleEventId: localEvent.gcalEventId!,
-          conflictType: 'deleted_on_google',
-          localEvent,
-          suggestedResolution: {
-            action: 'recreate',
-            reason: 'Event was deleted on Google Calendar',
-          },
-        };
+        return this.createDeletedOnGoogleConflict(localEvent);
       }
       return null;
     }
   }
 
+  private createDeletedOnGoogleConflict(localEvent: LocalEvent): EventConflict {
+    return {
+      localEventId: localEvent.id,
+      googleEventId: localEvent.gcalEventId!,
+      conflictType: 'deleted_on_google',
+      localEvent,
+      suggestedResolution: {
+        action: 'recreate',
+        reason: 'Event was deleted on Google Calendar',
+      },
+    };
+  }
+
   /**
    * Determines the type of conflict
    */
@@ -587,10 +1645,12 @@ export class CalendarSyncService {
    * Helper methods for conflict resolution
    */
   private async forceUpdateWithLocal(userId: string, conflict: EventConflict): Promise<SyncDetail> {
-    const googleEvent = this.eventFormatterService.formatSingleEvent(
+    const timezone = await this.userTimezoneService.getTimezone(userId);
+    const googleEvent = await this.eventFormatterService.formatSingleEvent(
       conflict.localEvent,
       conflict.localEvent.subject,
       conflict.localEvent.section,
+      { timezone },
     );
 
     // Update without ETag check (force update)
@@ -598,11 +1658,14 @@ export class CalendarSyncService {
       userId,
       conflict.googleEventId,
       googleEvent,
+      undefined,
+      this.getEventCalendarId(conflict.localEvent),
     );
 
     await this.localEventRepository.update(conflict.localEventId, {
       gcalEtag: etag,
       status: 'synced',
+      dirty: false,
     });
 
     return {
@@ -614,19 +1677,18 @@ export class CalendarSyncService {
   }
 
   private async updateLocalWithGoogle(userId: string, conflict: EventConflict): Promise<SyncDetail> {
-    // This would require parsing Google event back to local format
-    // For now, just update the ETag to acknowledge the Google version
-    await this.localEventRepository.update(conflict.localEventId, {
-      gcalEtag: conflict.googleEvent.etag,
-      status: 'synced',
-    });
+    // Read the current Google version rather than trusting the copy sent back by the client
+    const googleEvent = await this.googleCalendarService.getEvent(
+      userId,
+      conflict.localEvent.gcalEventId || conflict.googleEventId,
+      this.getEventCalendarId(conflict.localEvent),
+    );
 
-    return {
-      localEventId: conflict.localEventId,
-      googleEventId: conflict.googleEventId,
-      action: 'updated',
-      etag: conflict.googleEvent.etag,
-    };
+    const timezone = await this.userTimezoneService.getTimezone(userId);
+    const detail = await this.applyGoogleChanges(conflict.localEvent, googleEvent, false, timezone);
+
+    // Adopting the Google version always settles the conflict, even with no field changes
+    return { ...detail, action: 'updated' };
   }
 
   private async mergeConflictedEvent(userId: string, conflict: EventConflict): Promise<SyncDetail> {
@@ -635,21 +1697,31 @@ export class CalendarSyncService {
   }
 
   private async recreateDeletedEvent(userId: string, conflict: EventConflict): Promise<SyncDetail> {
-    const googleEvent = this.eventFormatterService.formatSingleEvent(
+    const timezone = await this.userTimezoneService.getTimezone(userId);
+    const googleEvent = await this.eventFormatterService.formatSingleEvent(
       conflict.localEvent,
       conflict.localEvent.subject,
       conflict.localEvent.section,
+      { timezone },
     );
 
+    // Recreate in the calendar the subject currently targets
+    const account = await this.getCalendarAccount(userId);
+    const calendarId = this.getTargetCalendarId(conflict.localEvent.subject, account);
+
     const { eventId, etag } = await this.googleCalendarService.createEvent(
       userId,
       googleEvent,
+      calendarId,
     );
 
     await this.localEventRepository.update(conflict.localEventId, {
       gcalEventId: eventId,
+      gcalCalendarId: calendarId,
+      gcalRecurringEventId: null,
       gcalEtag: etag,
       status: 'synced',
+      dirty: false,
     });
 
     return {
@@ -663,8 +1735,11 @@ export class CalendarSyncService {
   private async unlinkGoogleEvent(userId: string, conflict: EventConflict): Promise<SyncDetail> {
     await this.localEventRepository.update(conflict.localEventId, {
       gcalEventId: null,
+      gcalCalendarId: null,
+      gcalRecurringEventId: null,
       gcalEtag: null,
       status: 'planned',
+      dirty: true,
     });
 
     return {
@@ -695,29 +1770,30 @@ export class CalendarSyncService {
     return true; // Simplified implementation
   }
 
-  private async updateLocalEventsWithGoogleId(
-    events: LocalEvent[],
-    googleEventId: string,
-    etag: string,
-  ): Promise<void> {
-    const eventIds = events.map(e => e.id);
-    await this.localEventRepository.update(
-      eventIds,
-      {
-        gcalEventId: googleEventId,
-        gcalEtag: etag,
-        status: 'synced',
-      },
-    );
+  private createEmptyResult(options: Pick<SyncOptions, 'dryRun'>): SyncResult {
+    return {
+      summary: { created: 0, updated: 0, deleted: 0, skipped: 0, failed: 0 },
+      details: [],
+      conflicts: [],
+      quotaUsed: 0,
+      isDryRun: options.dryRun || false,
+    };
   }
 
   private mergeResults(target: SyncResult, source: SyncResult): void {
     target.summary.created += source.summary.created;
     target.summary.updated += source.summary.updated;
+    target.summary.deleted += source.summary.deleted;
     target.summary.skipped += source.summary.skipped;
     target.summary.failed += source.summary.failed;
     target.details.push(...source.details);
     target.conflicts.push(...source.conflicts);
     target.quotaUsed += source.quotaUsed;
+    if (source.estimatedQuota !== undefined) {
+      target.estimatedQuota = (target.estimatedQuota || 0) + source.estimatedQuota;
+    }
+    if (source.deferred) {
+      target.deferred = source.deferred;
+    }
   }
 }
\ No newline at end of file
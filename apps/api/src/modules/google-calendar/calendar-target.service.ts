@@ -0,0 +1,157 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { CalendarAccount } from '../../infra/database/entities/calendar-account.entity';
+import { Subject } from '../../infra/database/entities/subject.entity';
+import { GoogleCalendarService, GoogleCalendarSummary } from './google-calendar.service';
+import { ColorMapping, EventFormatterService } from './event-formatter.service';
+
+export interface TargetCalendar extends GoogleCalendarSummary {
+  isTarget: boolean;
+}
+
+export interface TargetCalendarList {
+  targetCalendarId: string;
+  calendars: TargetCalendar[];
+}
+
+/**
+ * A subject's color and the Google Calendar color its events get
+ */
+export interface SubjectColor {
+  subjectId: string;
+  code?: string;
+  name: string;
+  colorHex: string;
+  googleColor: ColorMapping;
+}
+
+@Injectable()
+export class CalendarTargetService {
+  private readonly logger = new Logger(CalendarTargetService.name);
+
+  constructor(
+    @InjectRepository(CalendarAccount)
+    private readonly calendarAccountRepository: Repository<CalendarAccount>,
+    @InjectRepository(Subject)
+    private readonly subjectRepository: Repository<Subject>,
+    private readonly googleCalendarService: GoogleCalendarService,
+    private readonly eventFormatterService: EventFormatterService,
+  ) {}
+
+  /**
+   * List the user's Google calendars, marking the default target for new events
+   */
+  async listCalendars(userId: string): Promise<TargetCalendarList> {
+    const account = await this.getAccount(userId);
+    const calendars = await this.googleCalendarService.listCalendars(userId);
+
+    // An unset target means the primary calendar, which Google lists under its real ID
+    const primary = calendars.find(calendar => calendar.primary);
+    const targetCalendarId = account.primaryCalendarId || primary?.id || 'primary';
+
+    return {
+      targetCalendarId,
+      calendars: calendars.map(calendar => ({
+        ...calendar,
+        isTarget: calendar.id === targetCalendarId,
+      })),
+    };
+  }
+
+  /**
+   * Create a secondary calendar, optionally making it the default target
+   */
+  async createCalendar(
+    userId: string,
+    summary: string,
+    timeZone?: string,
+    makeTarget = false,
+  ): Promise<GoogleCalendarSummary> {
+    const account = await this.getAccount(userId);
+    const calendar = await this.googleCalendarService.createCalendar(userId, summary, timeZone);
+
+    if (makeTarget) {
+      await this.calendarAccountRepository.update(account.id, { primaryCalendarId: calendar.id });
+    }
+
+    return calendar;
+  }
+
+  /**
+   * Set the calendar new events are written to when a subject has no calendar of its own
+   */
+  async setDefaultCalendar(userId: string, calendarId: string): Promise<void> {
+    const account = await this.getAccount(userId);
+    await this.assertWritable(userId, calendarId);
+
+    await this.calendarAccountRepository.update(account.id, { primaryCalendarId: calendarId });
+    this.logger.debug(`Default calendar for user ${userId} set to ${calendarId}`);
+  }
+
+  /**
+   * Set or clear (null) the calendar a subject's new events are written to
+   */
+  async setSubjectCalendar(userId: string, subjectId: string, calendarId: string | null): Promise<void> {
+    const subject = await this.subjectRepository.findOne({
+      where: { id: subjectId, userId },
+    });
+
+    if (!subject) {
+      throw new NotFoundException(`Subject with ID '${subjectId}' not found`);
+    }
+
+    if (calendarId) {
+      await this.getAccount(userId);
+      await this.assertWritable(userId, calendarId);
+    }
+
+    await this.subjectRepository.update(subjectId, { calendarId });
+    this.logger.debug(`Calendar for subject ${subjectId} set to ${calendarId || 'account default'}`);
+  }
+
+  /**
+   * List the user's subjects with the Google color each one is synced as
+   */
+  async getSubjectColors(userId: string): Promise<SubjectColor[]> {
+    const subjects = await this.subjectRepository.find({
+      where: { userId },
+      order: { name: 'ASC' },
+    });
+
+    return subjects.map(subject => ({
+      subjectId: subject.id,
+      code: subject.code,
+      name: subject.name,
+      colorHex: subject.colorHex,
+      googleColor: this.eventFormatterService.getNearestGoogleColor(subject.colorHex),
+    }));
+  }
+
+  private async getAccount(userId: string): Promise<CalendarAccount> {
+    const account = await this.calendarAccountRepository.findOne({
+      where: { userId, provider: 'google' },
+    });
+
+    if (!account) {
+      throw new NotFoundException('No Google Calendar account connected');
+    }
+
+    return account;
+  }
+
+  private async assertWritable(userId: string, calendarId: string): Promise<void> {
+    const calendars = await this.googleCalendarService.listCalendars(userId);
+    const calendar = calendars.find(
+      entry => entry.id === calendarId || (calendarId === 'primary' && entry.primary),
+    );
+
+    if (!calendar) {
+      throw new NotFoundException(`Calendar '${calendarId}' not found`);
+    }
+
+    if (!calendar.writable) {
+      throw new BadRequestException(`Calendar '${calendar.summary}' is read-only`);
+    }
+  }
+}
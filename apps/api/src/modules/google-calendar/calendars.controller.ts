@@ -0,0 +1,84 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Param,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { JwtAuthGuard } from '../auth/guards/auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { User } from '../../infra/database/entities/user.entity';
+import { GoogleCalendarSummary } from './google-calendar.service';
+import { CalendarTargetService, SubjectColor, TargetCalendarList } from './calendar-target.service';
+import { CreateCalendarDto, SetTargetCalendarDto, SetSubjectCalendarDto } from './dto/calendar.dto';
+
+@Controller('calendars')
+@UseGuards(JwtAuthGuard)
+export class CalendarsController {
+  constructor(private readonly calendarTargetService: CalendarTargetService) {}
+
+  /**
+   * Lists the user's Google calendars and the current default target
+   */
+  @Get()
+  async listCalendars(@CurrentUser() user: User): Promise<{ data: TargetCalendarList }> {
+    const result = await this.calendarTargetService.listCalendars(user.id);
+    return { data: result };
+  }
+
+  /**
+   * Lists the user's subjects with the Google color their events are synced as
+   */
+  @Get('colors')
+  async getSubjectColors(@CurrentUser() user: User): Promise<{ data: SubjectColor[] }> {
+    const colors = await this.calendarTargetService.getSubjectColors(user.id);
+    return { data: colors };
+  }
+
+  /**
+   * Creates a dedicated Google calendar, e.g. one per semester
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async createCalendar(
+    @CurrentUser() user: User,
+    @Body() createDto: CreateCalendarDto,
+  ): Promise<{ data: GoogleCalendarSummary }> {
+    const calendar = await this.calendarTargetService.createCalendar(
+      user.id,
+      createDto.summary,
+      createDto.timeZone,
+      createDto.makeTarget,
+    );
+    return { data: calendar };
+  }
+
+  /**
+   * Sets the default calendar new events are written to
+   */
+  @Put('target')
+  async setTargetCalendar(
+    @CurrentUser() user: User,
+    @Body() targetDto: SetTargetCalendarDto,
+  ): Promise<{ data: { targetCalendarId: string } }> {
+    await this.calendarTargetService.setDefaultCalendar(user.id, targetDto.calendarId);
+    return { data: { targetCalendarId: targetDto.calendarId } };
+  }
+
+  /**
+   * Sets the calendar for one subject's events, overriding the default
+   */
+  @Put('subjects/:subjectId')
+  async setSubjectCalendar(
+    @CurrentUser() user: User,
+    @Param('subjectId') subjectId: string,
+    @Body() subjectDto: SetSubjectCalendarDto,
+  ): Promise<{ data: { subjectId: string; calendarId: string | null } }> {
+    await this.calendarTargetService.setSubjectCalendar(user.id, subjectId, subjectDto.calendarId);
+    return { data: { subjectId, calendarId: subjectDto.calendarId } };
+  }
+}
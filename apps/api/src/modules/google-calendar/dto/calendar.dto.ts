@@ -0,0 +1,30 @@
+import { IsOptional, IsString, IsNotEmpty, IsBoolean, MaxLength, ValidateIf } from 'class-validator';
+
+export class CreateCalendarDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  summary: string;
+
+  @IsOptional()
+  @IsString()
+  timeZone?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  makeTarget?: boolean;
+}
+
+export class SetTargetCalendarDto {
+  @IsString()
+  @IsNotEmpty()
+  calendarId: string;
+}
+
+export class SetSubjectCalendarDto {
+  // null clears the subject's calendar so it falls back to the account default
+  @ValidateIf((dto) => dto.calendarId !== null)
+  @IsString()
+  @IsNotEmpty()
+  calendarId: string | null;
+}
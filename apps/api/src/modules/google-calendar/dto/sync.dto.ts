@@ -0,0 +1,92 @@
+import {
+  IsIn,
+  IsOptional,
+  IsArray,
+  IsString,
+  IsBoolean,
+  IsDateString,
+  IsNotEmpty,
+  IsInt,
+  Min,
+  Max,
+  ValidateNested,
+  ArrayMaxSize,
+  Matches,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { EventConflict, ConflictResolution, SYNC_DIRECTIONS, SyncDirection } from '../calendar-sync.service';
+
+export class SyncRangeDto {
+  @IsDateString({}, { message: 'Range start must be a valid ISO date string (YYYY-MM-DD)' })
+  from: string;
+
+  @IsDateString({}, { message: 'Range end must be a valid ISO date string (YYYY-MM-DD)' })
+  to: string;
+}
+
+export class SyncToGoogleDto {
+  @IsIn(SYNC_DIRECTIONS)
+  direction: SyncDirection;
+
+  @ValidateNested()
+  @Type(() => SyncRangeDto)
+  range: SyncRangeDto;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  eventIds?: string[];
+
+  @IsOptional()
+  @IsBoolean()
+  dryRun?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  fullResync?: boolean;
+
+  @IsNotEmpty()
+  @Matches(/^[a-zA-Z0-9_-]{16,64}$/, {
+    message: 'Idempotency key must be 16-64 characters, alphanumeric with hyphens/underscores',
+  })
+  idempotencyKey: string;
+}
+
+export class ConflictResolutionDto implements ConflictResolution {
+  @IsIn(['use_local', 'use_google', 'merge', 'recreate', 'unlink'])
+  action: ConflictResolution['action'];
+
+  @IsOptional()
+  @IsString()
+  reason: string;
+}
+
+export class ResolveConflictsDto {
+  @IsArray()
+  @ArrayMaxSize(500)
+  conflicts: EventConflict[];
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ConflictResolutionDto)
+  resolutions: ConflictResolutionDto[];
+
+  @IsOptional()
+  @Matches(/^[a-zA-Z0-9_-]{16,64}$/, {
+    message: 'Idempotency key must be 16-64 characters, alphanumeric with hyphens/underscores',
+  })
+  idempotencyKey?: string;
+}
+
+export class SyncHistoryQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+}
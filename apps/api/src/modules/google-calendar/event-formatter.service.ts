@@ -1,9 +1,18 @@
 import { Injectable } from '@nestjs/common';
+import { calendar_v3 } from 'googleapis';
 import { LocalEvent } from '../../infra/database/entities/local-event.entity';
 import { Subject } from '../../infra/database/entities/subject.entity';
-import { Section } from '../../infra/database/entities/section.entity';
+import { Section, ScheduleRule } from '../../infra/database/entities/section.entity';
 import { ReminderService } from './reminder.service';
 import { GoogleCalendarEvent } from './google-calendar.service';
+import {
+  DEFAULT_TIMEZONE,
+  formatInTimeZone,
+  toDateString,
+  toZonedDateTime,
+  zonedTimeToUtc,
+} from '../../common/utils/timezone';
+import { expandScheduleRule, isEveryWeek, toRRuleParts } from '../../common/utils/schedule-recurrence';
 
 export interface EventFormattingOptions {
   includeReminders?: boolean;
@@ -13,36 +22,44 @@ export interface EventFormattingOptions {
 }
 
 export interface RRuleOptions {
-  frequency: 'WEEKLY';
+  frequency: 'WEEKLY' | 'MONTHLY';
   interval: number;
   byDay: string[];
+  bySetPos?: number;
   until?: string;
   count?: number;
 }
 
+/**
+ * Local fields that can be pulled back from an edited Google event
+ */
+export type LocalEventChanges = Partial<
+  Pick<LocalEvent, 'eventDate' | 'startTime' | 'endTime' | 'room' | 'titleOverride'>
+>;
+
 export interface ColorMapping {
   id: string;
   hex: string;
+  name: string;
 }
 
 @Injectable()
 export class EventFormatterService {
   constructor(private readonly reminderService: ReminderService) {}
-  private readonly timezone = 'Asia/Bangkok';
   
   // Google Calendar color palette
   private readonly googleColorPalette: ColorMapping[] = [
-    { id: '1', hex: '#a4bdfc' }, // Lavender
-    { id: '2', hex: '#7ae7bf' }, // Sage
-    { id: '3', hex: '#dbadff' }, // Grape
-    { id: '4', hex: '#ff887c' }, // Flamingo
-    { id: '5', hex: '#fbd75b' }, // Banana
-    { id: '6', hex: '#ffb878' }, // Tangerine
-    { id: '7', hex: '#46d6db' }, // Peacock
-    { id: '8', hex: '#e1e1e1' }, // Graphite
-    { id: '9', hex: '#5484ed' }, // Blueberry
-    { id: '10', hex: '#51b749' }, // Basil
-    { id: '11', hex: '#dc2127' }, // Tomato
+    { id: '1', hex: '#a4bdfc', name: 'Lavender' },
+    { id: '2', hex: '#7ae7bf', name: 'Sage' },
+    { id: '3', hex: '#dbadff', name: 'Grape' },
+    { id: '4', hex: '#ff887c', name: 'Flamingo' },
+    { id: '5', hex: '#fbd75b', name: 'Banana' },
+    { id: '6', hex: '#ffb878', name: 'Tangerine' },
+    { id: '7', hex: '#46d6db', name: 'Peacock' },
+    { id: '8', hex: '#e1e1e1', name: 'Graphite' },
+    { id: '9', hex: '#5484ed', name: 'Blueberry' },
+    { id: '10', hex: '#51b749', name: 'Basil' },
+    { id: '11', hex: '#dc2127', name: 'Tomato' },
   ];
 
   /**
@@ -56,19 +73,17 @@ export class EventFormatterService {
   ): Promise<GoogleCalendarEvent> {
     const {
       includeReminders = true,
-      timezone = this.timezone,
+      timezone = DEFAULT_TIMEZONE,
     } = options;
 
     // Create event title
-    const summary = this.createEventTitle(subject, section);
+    const summary = localEvent.titleOverride || this.createEventTitle(subject, section);
     
     // Create description
     const description = this.createEventDescription(subject, section, localEvent);
     
-    // Format date and time - convert string to Date if needed
-    const eventDate = typeof localEvent.eventDate === 'string' 
-      ? new Date(localEvent.eventDate) 
-      : localEvent.eventDate;
+    // Format date and time as wall-clock time in the user's timezone
+    const eventDate = toDateString(localEvent.eventDate);
     const startDateTime = this.formatDateTime(eventDate, localEvent.startTime, timezone);
     const endDateTime = this.formatDateTime(eventDate, localEvent.endTime, timezone);
     
@@ -113,11 +128,9 @@ export class EventFormatterService {
     }
 
     // Sort events by date to get the first occurrence
-    const sortedEvents = localEvents.sort((a, b) => {
-      const dateA = typeof a.eventDate === 'string' ? new Date(a.eventDate) : a.eventDate;
-      const dateB = typeof b.eventDate === 'string' ? new Date(b.eventDate) : b.eventDate;
-      return dateA.getTime() - dateB.getTime();
-    });
+    const sortedEvents = localEvents.sort((a, b) =>
+      toDateString(a.eventDate).localeCompare(toDateString(b.eventDate)),
+    );
     
     const firstEvent = sortedEvents[0];
     const lastEvent = sortedEvents[sortedEvents.length - 1];
@@ -128,30 +141,40 @@ export class EventFormatterService {
       useRecurrence: false,
     });
 
-    // Generate RRULE
-    const lastEventDate = typeof lastEvent.eventDate === 'string' 
-      ? new Date(lastEvent.eventDate) 
-      : lastEvent.eventDate;
-    const rrule = this.generateRRule(localEvents, lastEventDate);
+    // Generate RRULE. Events that all follow one interval, odd/even week or
+    // monthly rule repeat on that rule's pattern; anything else is described
+    // as weekly on the weekdays the events fall on.
+    const timezone = options.timezone || DEFAULT_TIMEZONE;
+    const patternRule = this.findPatternRule(sortedEvents, section);
+    const rrule = patternRule
+      ? this.generatePatternRRule(patternRule, lastEvent.eventDate, timezone)
+      : this.generateRRule(localEvents, lastEvent.eventDate, timezone);
     
-    // Add recurrence rule
-    baseEvent.recurrence = [rrule];
+    // Add recurrence rule, excluding occurrences without a class (skip dates
+    // and removed sessions) so the series matches the local events
+    const missingDates = patternRule
+      ? this.findMissingPatternOccurrences(patternRule, sortedEvents)
+      : this.findMissingOccurrences(sortedEvents);
+    const exdates = missingDates.map(date =>
+      this.formatExDate(date, firstEvent.startTime, timezone),
+    );
+    baseEvent.recurrence = [rrule, ...exdates];
 
     return baseEvent;
   }
 
   /**
-   * Generates RRULE string for recurring weekly classes
+   * Generates RRULE string for recurring weekly classes. UNTIL is the end of
+   * the last day in the user's timezone, expressed in UTC as RFC 5545
+   * requires alongside a zoned DTSTART.
    */
-  generateRRule(events: LocalEvent[], endDate: Date): string {
+  generateRRule(events: LocalEvent[], endDate: string | Date, timezone: string = DEFAULT_TIMEZONE): string {
     // Group events by day of week to determine pattern
     const dayMap = new Map<number, LocalEvent[]>();
     
     events.forEach(event => {
-      const eventDate = typeof event.eventDate === 'string' 
-        ? new Date(event.eventDate) 
-        : event.eventDate;
-      const dayOfWeek = eventDate.getDay();
+      // Event dates are calendar dates, so read the weekday without a timezone
+      const dayOfWeek = new Date(`${toDateString(event.eventDate)}T00:00:00Z`).getUTCDay();
       if (!dayMap.has(dayOfWeek)) {
         dayMap.set(dayOfWeek, []);
       }
@@ -165,7 +188,7 @@ export class EventFormatterService {
       .map(day => dayNames[day]);
 
     // Format end date for UNTIL parameter
-    const untilDate = this.formatDateForRRule(endDate);
+    const untilDate = this.formatDateForRRule(toDateString(endDate), timezone);
 
     // Build RRULE string
     const rruleParts = [
@@ -178,14 +201,130 @@ export class EventFormatterService {
     return `RRULE:${rruleParts.join(';')}`;
   }
 
+  /**
+   * Generates the RRULE for a schedule rule with an interval, week parity or
+   * set position. The series must start on one of the rule's occurrences.
+   */
+  generatePatternRRule(rule: ScheduleRule, endDate: string | Date, timezone: string = DEFAULT_TIMEZONE): string {
+    const untilDate = this.formatDateForRRule(toDateString(endDate), timezone);
+    return `RRULE:${[...toRRuleParts(rule), `UNTIL=${untilDate}`].join(';')}`;
+  }
+
+  /**
+   * Parses a Google event back onto the local fields it was formatted from.
+   * Only fields that differ from the local event are returned; a room or title
+   * that matches the section default clears the local override.
+   */
+  parseGoogleEvent(
+    googleEvent: calendar_v3.Schema$Event,
+    localEvent: LocalEvent,
+    timezone: string = DEFAULT_TIMEZONE,
+  ): LocalEventChanges {
+    if (!googleEvent.start?.dateTime || !googleEvent.end?.dateTime) {
+      throw new Error('All-day events cannot be mapped onto a class session');
+    }
+
+    const start = this.parseDateTime(googleEvent.start.dateTime, timezone);
+    const end = this.parseDateTime(googleEvent.end.dateTime, timezone);
+    const changes: LocalEventChanges = {};
+
+    if (start.date !== toDateString(localEvent.eventDate)) {
+      changes.eventDate = start.date;
+    }
+    if (start.time !== localEvent.startTime.substring(0, 5)) {
+      changes.startTime = start.time;
+    }
+    if (end.time !== localEvent.endTime.substring(0, 5)) {
+      changes.endTime = end.time;
+    }
+
+    const sectionRoom = localEvent.section?.room || '';
+    const location = googleEvent.location || '';
+    if (location !== (localEvent.room || sectionRoom)) {
+      changes.room = location && location !== sectionRoom ? location : null;
+    }
+
+    const defaultTitle = this.createEventTitle(localEvent.subject, localEvent.section);
+    const summary = googleEvent.summary || defaultTitle;
+    if (summary !== (localEvent.titleOverride || defaultTitle)) {
+      changes.titleOverride = summary !== defaultTitle ? summary : null;
+    }
+
+    return changes;
+  }
+
+  /**
+   * Formats an EXDATE line that removes one occurrence from a recurring event.
+   * Matches the wall-clock DTSTART written by formatSingleEvent.
+   */
+  formatExDate(eventDate: string | Date, startTime: string, timezone: string = DEFAULT_TIMEZONE): string {
+    const date = toDateString(eventDate).replace(/-/g, '');
+    const time = startTime.substring(0, 5).replace(':', '');
+    return `EXDATE;TZID=${timezone}:${date}T${time}00`;
+  }
+
+  /**
+   * Ends a recurrence after the given date by replacing the RRULE's UNTIL or
+   * COUNT. EXDATEs past the new end are dropped as they no longer apply.
+   */
+  truncateRecurrence(
+    recurrence: string[],
+    lastEventDate: string | Date,
+    timezone: string = DEFAULT_TIMEZONE,
+  ): string[] {
+    const lastDate = toDateString(lastEventDate);
+    const until = this.formatDateForRRule(lastDate, timezone);
+
+    return recurrence
+      .filter(line => {
+        const match = line.match(/^EXDATE[^:]*:(\d{8})/);
+        return !match || match[1] <= lastDate.replace(/-/g, '');
+      })
+      .map(line => {
+        if (!line.startsWith('RRULE:')) {
+          return line;
+        }
+        const parts = line
+          .substring('RRULE:'.length)
+          .split(';')
+          .filter(part => !part.startsWith('UNTIL=') && !part.startsWith('COUNT='));
+        return `RRULE:${[...parts, `UNTIL=${until}`].join(';')}`;
+      });
+  }
+
+  /**
+   * Reads the slot a recurring-event instance was generated for, as local
+   * date and start time. Returns null for all-day instances.
+   */
+  parseOriginalStart(
+    instance: calendar_v3.Schema$Event,
+    timezone: string = DEFAULT_TIMEZONE,
+  ): { eventDate: string; startTime: string } | null {
+    const dateTime = instance.originalStartTime?.dateTime || instance.start?.dateTime;
+    if (!dateTime) {
+      return null;
+    }
+
+    const { date, time } = this.parseDateTime(dateTime, timezone);
+    return { eventDate: date, startTime: time };
+  }
+
   /**
    * Maps subject color to closest Google Calendar color
    */
   mapSubjectColorToGoogle(subjectColorHex: string): string {
+    return this.getNearestGoogleColor(subjectColorHex).id;
+  }
+
+  /**
+   * Finds the Google Calendar color closest to a subject color, which is what
+   * the subject's events show in Google
+   */
+  getNearestGoogleColor(subjectColorHex: string): ColorMapping {
     const subjectRgb = this.hexToRgb(subjectColorHex);
     
     let minDistance = Infinity;
-    let closestColorId = '1'; // Default to lavender
+    let closestColor = this.googleColorPalette[0]; // Default to lavender
 
     for (const color of this.googleColorPalette) {
       const googleRgb = this.hexToRgb(color.hex);
@@ -193,11 +332,11 @@ export class EventFormatterService {
       
       if (distance < minDistance) {
         minDistance = distance;
-        closestColorId = color.id;
+        closestColor = color;
       }
     }
 
-    return closestColorId;
+    return { ...closestColor };
   }
 
   /**
@@ -237,6 +376,16 @@ export class EventFormatterService {
       parts.push(`Room: ${localEvent.room || section.room}`);
     }
 
+    if (localEvent.exceptionType === 'moved' && localEvent.originalDate) {
+      parts.push(`Rescheduled from ${toDateString(localEvent.originalDate)}`);
+    } else if (localEvent.exceptionType === 'extra') {
+      parts.push('Extra session');
+    }
+
+    if (localEvent.notes) {
+      parts.push(localEvent.notes);
+    }
+
     if (subject.meta && typeof subject.meta === 'object') {
       Object.entries(subject.meta).forEach(([key, value]) => {
         if (value && typeof value === 'string') {
@@ -249,33 +398,85 @@ export class EventFormatterService {
   }
 
   /**
-   * Formats date and time for Google Calendar API
+   * Formats a local date and time for Google Calendar API, with the UTC
+   * offset the timezone has on that date
    */
-  private formatDateTime(date: Date, time: string, timezone: string): string {
-    // Parse time (format: "HH:mm")
-    const [hours, minutes] = time.split(':').map(Number);
-    
-    // Create datetime object using the date components to avoid timezone issues
-    const year = date.getFullYear();
-    const month = date.getMonth();
-    const day = date.getDate();
-    
-    const dateTime = new Date(year, month, day, hours, minutes, 0, 0);
-    
-    // Return ISO string without Z (Google Calendar expects local time format)
-    return dateTime.toISOString().replace('Z', '');
+  private formatDateTime(date: string, time: string, timezone: string): string {
+    return formatInTimeZone(zonedTimeToUtc(date, time.substring(0, 5), timezone), timezone);
+  }
+
+  /**
+   * Splits a Google dateTime into local date (YYYY-MM-DD) and time (HH:mm).
+   * Values with an offset are converted to the given timezone; values without
+   * one are already wall-clock time.
+   */
+  private parseDateTime(dateTime: string, timezone: string): { date: string; time: string } {
+    if (!/(Z|[+-]\d{2}:\d{2})$/.test(dateTime)) {
+      return { date: dateTime.substring(0, 10), time: dateTime.substring(11, 16) };
+    }
+
+    const { date, time } = toZonedDateTime(new Date(dateTime), timezone);
+    return { date, time: time.substring(0, 5) };
+  }
+
+  /**
+   * Lists the dates between the first and last event that fall on one of the
+   * series' weekdays but have no event
+   */
+  private findMissingOccurrences(sortedEvents: LocalEvent[]): string[] {
+    const eventDates = new Set(sortedEvents.map(event => toDateString(event.eventDate)));
+    const toUtcDate = (date: string) => new Date(`${date}T00:00:00Z`);
+    const weekdays = new Set(Array.from(eventDates).map(date => toUtcDate(date).getUTCDay()));
+
+    const missing: string[] = [];
+    const current = toUtcDate(toDateString(sortedEvents[0].eventDate));
+    const last = toUtcDate(toDateString(sortedEvents[sortedEvents.length - 1].eventDate));
+
+    while (current <= last) {
+      const date = current.toISOString().substring(0, 10);
+      if (weekdays.has(current.getUTCDay()) && !eventDates.has(date)) {
+        missing.push(date);
+      }
+      current.setUTCDate(current.getUTCDate() + 1);
+    }
+
+    return missing;
+  }
+
+  /**
+   * Finds the section's non-weekly rule whose pattern every event falls on
+   */
+  private findPatternRule(sortedEvents: LocalEvent[], section: Section): ScheduleRule | null {
+    const eventDates = sortedEvents.map(event => toDateString(event.eventDate));
+
+    return (section.scheduleRules || []).find(rule => {
+      if (isEveryWeek(rule)) {
+        return false;
+      }
+      const occurrences = new Set(expandScheduleRule(rule));
+      return eventDates.every(date => occurrences.has(date));
+    }) || null;
+  }
+
+  /**
+   * Lists the rule's occurrences between the first and last event that have
+   * no event
+   */
+  private findMissingPatternOccurrences(rule: ScheduleRule, sortedEvents: LocalEvent[]): string[] {
+    const eventDates = new Set(sortedEvents.map(event => toDateString(event.eventDate)));
+    const first = toDateString(sortedEvents[0].eventDate);
+    const last = toDateString(sortedEvents[sortedEvents.length - 1].eventDate);
+
+    return expandScheduleRule(rule, first, last).filter(date => !eventDates.has(date));
   }
 
   /**
    * Formats date for RRULE UNTIL parameter (YYYYMMDDTHHMMSSZ)
    */
-  private formatDateForRRule(date: Date): string {
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const day = String(date.getDate()).padStart(2, '0');
-    
-    // Set to end of day (23:59:59)
-    return `${year}${month}${day}T235959Z`;
+  private formatDateForRRule(date: string, timezone: string): string {
+    // Set to end of day (23:59:59) in the user's timezone
+    const endOfDay = zonedTimeToUtc(date, '23:59:59', timezone);
+    return endOfDay.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
   }
 
   /**
@@ -317,8 +518,8 @@ export class EventFormatterService {
    * Validates RRULE string format
    */
   validateRRule(rrule: string): boolean {
-    // Basic RRULE validation
-    const requiredParts = ['FREQ=WEEKLY'];
-    return requiredParts.every(part => rrule.includes(part));
+    // Basic RRULE validation: classes repeat weekly or, for Nth-weekday
+    // rules, monthly
+    return ['FREQ=WEEKLY', 'FREQ=MONTHLY'].some(part => rrule.includes(part));
   }
 }
\ No newline at end of file
@@ -0,0 +1,122 @@
+/**
+ * Encoding and decoding for Google's HTTP batch format: a multipart/mixed
+ * request whose parts are each an embedded HTTP request, answered by a
+ * multipart/mixed response of embedded HTTP responses.
+ * https://developers.google.com/calendar/api/guides/batch
+ */
+
+export interface BatchRequestPart {
+  id: string;
+  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  path: string;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+export interface BatchResponsePart {
+  id: string;
+  status: number;
+  headers: Record<string, string>;
+  body: any;
+}
+
+const CRLF = '\r\n';
+
+/**
+ * Builds the multipart body for a batch request
+ */
+export function encodeBatchRequest(parts: BatchRequestPart[], boundary: string): string {
+  const encoded = parts.map(part => {
+    const lines = [
+      `--${boundary}`,
+      'Content-Type: application/http',
+      `Content-ID: <${part.id}>`,
+      '',
+      `${part.method} ${part.path} HTTP/1.1`,
+    ];
+
+    for (const [name, value] of Object.entries(part.headers || {})) {
+      lines.push(`${name}: ${value}`);
+    }
+
+    if (part.body !== undefined) {
+      lines.push('Content-Type: application/json', '', JSON.stringify(part.body));
+    } else {
+      lines.push('');
+    }
+
+    return lines.join(CRLF);
+  });
+
+  return `${encoded.join(CRLF)}${CRLF}--${boundary}--${CRLF}`;
+}
+
+/**
+ * Reads the boundary from a multipart Content-Type header
+ */
+export function getBoundary(contentType: string): string | null {
+  const match = /boundary="?([^";]+)"?/i.exec(contentType || '');
+  return match ? match[1] : null;
+}
+
+/**
+ * Splits a batch response into its embedded responses. Google answers with
+ * Content-IDs of the form <response-{request id}>; the prefix is removed so
+ * parts map back to the ids they were sent with.
+ */
+export function decodeBatchResponse(body: string, boundary: string): BatchResponsePart[] {
+  const parts: BatchResponsePart[] = [];
+
+  for (const chunk of body.split(`--${boundary}`)) {
+    const trimmed = chunk.replace(/^\r?\n/, '');
+    if (!trimmed.trim() || trimmed.startsWith('--')) {
+      continue;
+    }
+
+    const [partHeaderBlock, httpMessage] = splitOnce(trimmed, /\r?\n\r?\n/);
+    const partHeaders = parseHeaders(partHeaderBlock);
+    const [responseHead, responseBody] = splitOnce(httpMessage || '', /\r?\n\r?\n/);
+    const [statusLine, ...headerLines] = responseHead.split(/\r?\n/);
+    const status = Number(/^HTTP\/[\d.]+\s+(\d{3})/.exec(statusLine)?.[1]);
+
+    parts.push({
+      id: (partHeaders['content-id'] || '').replace(/^<|>$/g, '').replace(/^response-/, ''),
+      status: Number.isNaN(status) ? 0 : status,
+      headers: parseHeaders(headerLines.join('\n')),
+      body: parseJson(responseBody),
+    });
+  }
+
+  return parts;
+}
+
+function splitOnce(text: string, separator: RegExp): [string, string] {
+  const match = separator.exec(text);
+  if (!match) {
+    return [text, ''];
+  }
+  return [text.slice(0, match.index), text.slice(match.index + match[0].length)];
+}
+
+function parseHeaders(block: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const line of block.split(/\r?\n/)) {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      headers[line.slice(0, separator).trim().toLowerCase()] = line.slice(separator + 1).trim();
+    }
+  }
+  return headers;
+}
+
+function parseJson(text: string): any {
+  const trimmed = (text || '').trim();
+  if (!trimmed) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    return trimmed;
+  }
+}
@@ -1,23 +1,54 @@
-import { Module } from '@nestjs/common';
+import { Module, MiddlewareConsumer, NestModule, RequestMethod } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { GoogleCalendarService } from './google-calendar.service';
 import { EventFormatterService } from './event-formatter.service';
 import { CalendarSyncService } from './calendar-sync.service';
 import { ReminderService } from './reminder.service';
 import { ReminderController } from './reminder.controller';
+import { SyncHistoryService } from './sync-history.service';
+import { SyncController } from './sync.controller';
+import { CalendarTargetService } from './calendar-target.service';
+import { CalendarsController } from './calendars.controller';
+import { UserTimezoneService } from './user-timezone.service';
 import { AuthModule } from '../auth/auth.module';
+import { RedisModule } from '../../infra/redis/redis.module';
+import { IdempotencyMiddleware } from '../../infra/redis/idempotency.middleware';
+import { SyncJobProcessor } from '../../infra/redis/jobs/sync-job.processor';
 import { CalendarAccount } from '../../infra/database/entities/calendar-account.entity';
+import { User } from '../../infra/database/entities/user.entity';
 import { LocalEvent } from '../../infra/database/entities/local-event.entity';
 import { Subject } from '../../infra/database/entities/subject.entity';
 import { Section } from '../../infra/database/entities/section.entity';
+import { SyncHistory } from '../../infra/database/entities/sync-history.entity';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([CalendarAccount, LocalEvent, Subject, Section]),
+    TypeOrmModule.forFeature([User, CalendarAccount, LocalEvent, Subject, Section, SyncHistory]),
     AuthModule,
+    RedisModule,
   ],
-  controllers: [ReminderController],
-  providers: [GoogleCalendarService, EventFormatterService, CalendarSyncService, ReminderService],
-  exports: [GoogleCalendarService, EventFormatterService, CalendarSyncService, ReminderService],
+  controllers: [ReminderController, SyncController, CalendarsController],
+  providers: [
+    GoogleCalendarService,
+    EventFormatterService,
+    CalendarSyncService,
+    ReminderService,
+    SyncHistoryService,
+    CalendarTargetService,
+    UserTimezoneService,
+    // Registered here rather than in RedisModule so it can reach CalendarSyncService
+    SyncJobProcessor,
+  ],
+  exports: [GoogleCalendarService, EventFormatterService, CalendarSyncService, ReminderService, UserTimezoneService],
 })
-export class GoogleCalendarModule {}
\ No newline at end of file
+export class GoogleCalendarModule implements NestModule {
+  configure(consumer: MiddlewareConsumer) {
+    consumer
+      .apply(IdempotencyMiddleware)
+      .forRoutes(
+        { path: 'sync/google', method: RequestMethod.POST },
+        { path: 'sync/resolve-conflicts', method: RequestMethod.POST },
+        { path: 'sync/jobs', method: RequestMethod.POST },
+      );
+  }
+}
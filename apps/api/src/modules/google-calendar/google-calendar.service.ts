@@ -5,6 +5,8 @@ import { Repository } from 'typeorm';
 import { google, calendar_v3 } from 'googleapis';
 import { CryptoService } from '../auth/crypto.service';
 import { CalendarAccount } from '../../infra/database/entities/calendar-account.entity';
+import { QuotaService } from '../../infra/redis/quota.service';
+import { encodeBatchRequest, decodeBatchResponse, getBoundary, BatchRequestPart, BatchResponsePart } from './google-batch';
 import { GoogleTokens } from '../auth/interfaces/auth.interface';
 
 export interface GoogleCalendarEvent {
@@ -39,7 +41,34 @@ export interface BatchOperationResult {
   failed: Array<{
     localEventId: string;
     error: string;
+    // HTTP status of the item, when Google answered it
+    status?: number;
   }>;
+  // Batch sub-requests sent to Google, retries included
+  requestsSent: number;
+}
+
+export type BatchOperation =
+  | { localEventId: string; method: 'create'; event: GoogleCalendarEvent; calendarId?: string }
+  | { localEventId: string; method: 'update'; eventId: string; event: GoogleCalendarEvent; etag?: string; calendarId?: string }
+  | { localEventId: string; method: 'delete'; eventId: string; calendarId?: string };
+
+export interface EventChanges {
+  events: calendar_v3.Schema$Event[];
+  nextSyncToken: string;
+  // True when the stored token was rejected and every event was listed again
+  fullResync: boolean;
+  requests: number;
+}
+
+export interface GoogleCalendarSummary {
+  id: string;
+  summary: string;
+  timeZone?: string;
+  primary: boolean;
+  // Events can only be written to calendars the user owns or can edit
+  writable: boolean;
+  backgroundColor?: string;
 }
 
 export interface QuotaInfo {
@@ -51,8 +80,6 @@ export interface QuotaInfo {
 @Injectable()
 export class GoogleCalendarService {
   private readonly logger = new Logger(GoogleCalendarService.name);
-  private readonly timezone = 'Asia/Bangkok';
-  private readonly dailyQuotaLimit: number;
   private readonly batchSize = 50;
   private readonly maxRetries = 3;
   private readonly baseDelay = 1000; // 1 second
@@ -62,8 +89,22 @@ export class GoogleCalendarService {
     @InjectRepository(CalendarAccount)
     private readonly calendarAccountRepository: Repository<CalendarAccount>,
     private readonly cryptoService: CryptoService,
-  ) {
-    this.dailyQuotaLimit = this.configService.get<number>('GOOGLE_API_QUOTA_LIMIT', 3000);
+    private readonly quotaService: QuotaService,
+  ) {}
+
+  /**
+   * Gets a valid access token for requests made outside the googleapis client
+   */
+  private async getAccessToken(userId: string): Promise<string> {
+    const account = await this.calendarAccountRepository.findOne({
+      where: { userId, provider: 'google' },
+    });
+    if (!account) {
+      throw new UnauthorizedException('No Google Calendar account found for user');
+    }
+
+    const tokens = await this.getValidTokens(account);
+    return tokens.accessToken;
   }
 
   /**
@@ -184,20 +225,10 @@ export class GoogleCalendarService {
     const calendar = await this.createCalendarClient(userId);
 
     try {
-      const response = await this.executeWithRetry(async () => {
+      const response = await this.executeWithRetry(userId, async () => {
         return calendar.events.insert({
           calendarId,
-          requestBody: {
-            ...event,
-            start: {
-              ...event.start,
-              timeZone: this.timezone,
-            },
-            end: {
-              ...event.end,
-              timeZone: this.timezone,
-            },
-          },
+          requestBody: event,
         });
       });
 
@@ -235,21 +266,11 @@ export class GoogleCalendarService {
         headers['If-Match'] = etag;
       }
 
-      const response = await this.executeWithRetry(async () => {
+      const response = await this.executeWithRetry(userId, async () => {
         return calendar.events.update({
           calendarId,
           eventId,
-          requestBody: {
-            ...event,
-            start: {
-              ...event.start,
-              timeZone: this.timezone,
-            },
-            end: {
-              ...event.end,
-              timeZone: this.timezone,
-            },
-          },
+          requestBody: event,
           headers,
         });
       });
@@ -270,6 +291,51 @@ export class GoogleCalendarService {
     }
   }
 
+  /**
+   * Patches selected fields of an existing event in Google Calendar
+   */
+  async patchEvent(
+    userId: string,
+    eventId: string,
+    changes: Partial<GoogleCalendarEvent>,
+    etag?: string,
+    calendarId: string = 'primary',
+  ): Promise<{ eventId: string; etag: string }> {
+    const calendar = await this.createCalendarClient(userId);
+
+    try {
+      const headers: Record<string, string> = {};
+      if (etag) {
+        headers['If-Match'] = etag;
+      }
+
+      const response = await this.executeWithRetry(userId, async () => {
+        return calendar.events.patch(
+          {
+            calendarId,
+            eventId,
+            requestBody: changes,
+          },
+          { headers },
+        );
+      });
+
+      if (!response.data.id || !response.data.etag) {
+        throw new Error('Invalid response from Google Calendar API');
+      }
+
+      this.logger.debug(`Patched event ${response.data.id} for user ${userId}`);
+
+      return {
+        eventId: response.data.id,
+        etag: response.data.etag,
+      };
+    } catch (error) {
+      this.logger.error(`Failed to patch event ${eventId} for user ${userId}:`, error);
+      throw this.handleGoogleApiError(error);
+    }
+  }
+
   /**
    * Deletes an event from Google Calendar
    */
@@ -281,7 +347,7 @@ export class GoogleCalendarService {
     const calendar = await this.createCalendarClient(userId);
 
     try {
-      await this.executeWithRetry(async () => {
+      await this.executeWithRetry(userId, async () => {
         return calendar.events.delete({
           calendarId,
           eventId,
@@ -312,7 +378,7 @@ export class GoogleCalendarService {
     const calendar = await this.createCalendarClient(userId);
 
     try {
-      const response = await this.executeWithRetry(async () => {
+      const response = await this.executeWithRetry(userId, async () => {
         return calendar.events.get({
           calendarId,
           eventId,
@@ -326,6 +392,177 @@ export class GoogleCalendarService {
     }
   }
 
+  /**
+   * Lists events changed since the given sync token, or every event when no
+   * token is given. An expired token (410 Gone) falls back to a full listing.
+   */
+  async listEventChanges(
+    userId: string,
+    syncToken?: string,
+    calendarId: string = 'primary',
+  ): Promise<EventChanges> {
+    const calendar = await this.createCalendarClient(userId);
+    const events: calendar_v3.Schema$Event[] = [];
+    let requests = 0;
+    let pageToken: string | undefined;
+    let nextSyncToken: string | undefined;
+
+    try {
+      do {
+        const response = await this.executeWithRetry(userId, async () => {
+          return calendar.events.list({
+            calendarId,
+            syncToken,
+            pageToken,
+            showDeleted: true,
+            maxResults: 2500,
+          });
+        });
+        requests++;
+
+        events.push(...(response.data.items || []));
+        pageToken = response.data.nextPageToken || undefined;
+        nextSyncToken = response.data.nextSyncToken || undefined;
+      } while (pageToken);
+    } catch (error: any) {
+      if (error.code === 410 && syncToken) {
+        this.logger.debug(`Sync token expired for user ${userId}, listing all events`);
+        const full = await this.listEventChanges(userId, undefined, calendarId);
+        return { ...full, fullResync: true, requests: full.requests + requests + 1 };
+      }
+
+      this.logger.error(`Failed to list event changes for user ${userId}:`, error);
+      throw this.handleGoogleApiError(error);
+    }
+
+    if (!nextSyncToken) {
+      throw new Error('Invalid response from Google Calendar API');
+    }
+
+    return { events, nextSyncToken, fullResync: !syncToken, requests };
+  }
+
+  /**
+   * Lists the occurrences of a recurring event, including cancelled ones
+   */
+  async listInstances(
+    userId: string,
+    eventId: string,
+    calendarId: string = 'primary',
+  ): Promise<calendar_v3.Schema$Event[]> {
+    const calendar = await this.createCalendarClient(userId);
+    const instances: calendar_v3.Schema$Event[] = [];
+    let pageToken: string | undefined;
+
+    try {
+      do {
+        const response = await this.executeWithRetry(userId, async () => {
+          return calendar.events.instances({
+            calendarId,
+            eventId,
+            pageToken,
+            showDeleted: true,
+            maxResults: 2500,
+          });
+        });
+
+        instances.push(...(response.data.items || []));
+        pageToken = response.data.nextPageToken || undefined;
+      } while (pageToken);
+
+      return instances;
+    } catch (error) {
+      this.logger.error(`Failed to list instances of event ${eventId} for user ${userId}:`, error);
+      throw this.handleGoogleApiError(error);
+    }
+  }
+
+  /**
+   * Lists the calendars on the user's Google calendar list
+   */
+  async listCalendars(userId: string): Promise<GoogleCalendarSummary[]> {
+    const calendar = await this.createCalendarClient(userId);
+    const calendars: GoogleCalendarSummary[] = [];
+    let pageToken: string | undefined;
+
+    try {
+      do {
+        const response = await this.executeWithRetry(userId, async () => {
+          return calendar.calendarList.list({ pageToken, showHidden: true });
+        });
+
+        for (const entry of response.data.items || []) {
+          calendars.push({
+            id: entry.id!,
+            summary: entry.summaryOverride || entry.summary || entry.id!,
+            timeZone: entry.timeZone || undefined,
+            primary: !!entry.primary,
+            writable: entry.accessRole === 'owner' || entry.accessRole === 'writer',
+            backgroundColor: entry.backgroundColor || undefined,
+          });
+        }
+        pageToken = response.data.nextPageToken || undefined;
+      } while (pageToken);
+
+      return calendars;
+    } catch (error) {
+      this.logger.error(`Failed to list calendars for user ${userId}:`, error);
+      throw this.handleGoogleApiError(error);
+    }
+  }
+
+  /**
+   * Creates a secondary calendar owned by the user
+   */
+  async createCalendar(
+    userId: string,
+    summary: string,
+    timeZone?: string,
+  ): Promise<GoogleCalendarSummary> {
+    const calendar = await this.createCalendarClient(userId);
+
+    try {
+      const response = await this.executeWithRetry(userId, async () => {
+        return calendar.calendars.insert({ requestBody: { summary, timeZone } });
+      });
+
+      if (!response.data.id) {
+        throw new Error('Invalid response from Google Calendar API');
+      }
+
+      this.logger.debug(`Created calendar ${response.data.id} for user ${userId}`);
+
+      return {
+        id: response.data.id,
+        summary: response.data.summary || summary,
+        timeZone: response.data.timeZone || timeZone,
+        primary: false,
+        writable: true,
+      };
+    } catch (error) {
+      this.logger.error(`Failed to create calendar for user ${userId}:`, error);
+      throw this.handleGoogleApiError(error);
+    }
+  }
+
+  /**
+   * Gets the timezone a calendar is set to
+   */
+  async getCalendarTimezone(userId: string, calendarId: string = 'primary'): Promise<string | null> {
+    const calendar = await this.createCalendarClient(userId);
+
+    try {
+      const response = await this.executeWithRetry(userId, async () => {
+        return calendar.calendars.get({ calendarId });
+      });
+
+      return response.data.timeZone || null;
+    } catch (error) {
+      this.logger.error(`Failed to get timezone of calendar ${calendarId} for user ${userId}:`, error);
+      throw this.handleGoogleApiError(error);
+    }
+  }
+
   /**
    * Batch creates multiple events
    */
@@ -334,76 +571,214 @@ export class GoogleCalendarService {
     events: Array<{ localEventId: string; event: GoogleCalendarEvent }>,
     calendarId: string = 'primary',
   ): Promise<BatchOperationResult> {
+    return this.executeBatch(
+      userId,
+      events.map(({ localEventId, event }) => ({ localEventId, method: 'create' as const, event, calendarId })),
+    );
+  }
+
+  /**
+   * Runs creates, updates and deletes through Google's batch endpoint, up to
+   * batchSize operations per HTTP request. Items rejected for rate limiting
+   * are retried on their own; everything else is reported per item.
+   */
+  async executeBatch(userId: string, operations: BatchOperation[]): Promise<BatchOperationResult> {
     const result: BatchOperationResult = {
       successful: [],
       failed: [],
+      requestsSent: 0,
     };
 
+    if (operations.length === 0) {
+      return result;
+    }
+
+    const accessToken = await this.getAccessToken(userId);
+
     // Process in chunks to respect batch size limits
-    const chunks = this.chunkArray(events, this.batchSize);
+    const chunks = this.chunkArray(operations, this.batchSize);
 
     for (const chunk of chunks) {
-      const chunkResult = await this.processBatchChunk(userId, chunk, 'create', calendarId);
+      const chunkResult = await this.processBatchChunk(userId, accessToken, chunk);
       result.successful.push(...chunkResult.successful);
       result.failed.push(...chunkResult.failed);
+      result.requestsSent += chunkResult.requestsSent;
     }
 
     return result;
   }
 
   /**
-   * Processes a batch chunk of operations
+   * Sends one batch, then resends only the items that were rate limited
    */
   private async processBatchChunk(
     userId: string,
-    events: Array<{ localEventId: string; event: GoogleCalendarEvent }>,
-    operation: 'create' | 'update',
-    calendarId: string,
+    accessToken: string,
+    operations: BatchOperation[],
   ): Promise<BatchOperationResult> {
     const result: BatchOperationResult = {
       successful: [],
       failed: [],
+      requestsSent: 0,
     };
 
-    // For now, process sequentially to avoid rate limits
-    // In production, could use Google's batch API
-    for (const { localEventId, event } of events) {
+    let pending = operations.map((operation, index) => ({ id: `item-${index}`, operation }));
+
+    for (let attempt = 1; attempt <= this.maxRetries && pending.length > 0; attempt++) {
+      let responses: Map<string, BatchResponsePart>;
+
       try {
-        const response = operation === 'create'
-          ? await this.createEvent(userId, event, calendarId)
-          : await this.updateEvent(userId, localEventId, event, undefined, calendarId);
-
-        result.successful.push({
-          localEventId,
-          googleEventId: response.eventId,
-          etag: response.etag,
+        const parts = pending.map(({ id, operation }) => this.toBatchPart(id, operation));
+        responses = await this.sendBatch(userId, accessToken, parts, () => {
+          result.requestsSent += parts.length;
         });
-      } catch (error) {
+      } catch (error: any) {
         const handledError = this.handleGoogleApiError(error);
-        result.failed.push({
-          localEventId,
+        pending.forEach(({ operation }) => result.failed.push({
+          localEventId: operation.localEventId,
           error: handledError.message || 'Unknown error',
-        });
+          status: error.code,
+        }));
+        return result;
       }
+
+      const retry: typeof pending = [];
+
+      for (const item of pending) {
+        const { operation } = item;
+        const response = responses.get(item.id);
+
+        if (!response) {
+          result.failed.push({ localEventId: operation.localEventId, error: 'No response for batch item' });
+        } else if (this.isBatchItemSuccessful(operation, response)) {
+          result.successful.push({
+            localEventId: operation.localEventId,
+            googleEventId: operation.method === 'create' ? response.body?.id : operation.eventId,
+            etag: response.body?.etag || '',
+          });
+        } else if (this.isRateLimited(response) && attempt < this.maxRetries) {
+          retry.push(item);
+        } else {
+          const handledError = this.handleGoogleApiError({
+            code: response.status,
+            message: response.body?.error?.message || `HTTP ${response.status}`,
+          });
+          result.failed.push({
+            localEventId: operation.localEventId,
+            error: handledError.message,
+            status: response.status,
+          });
+        }
+      }
+
+      if (retry.length > 0) {
+        const delay = this.baseDelay * Math.pow(2, attempt - 1);
+        this.logger.warn(`${retry.length} batch items rate limited, retrying in ${delay}ms`);
+        await this.sleep(delay);
+      }
+      pending = retry;
     }
 
     return result;
   }
 
   /**
-   * Executes an operation with retry logic and exponential backoff
+   * Posts a multipart batch and returns the embedded responses by item id.
+   * Each item counts against the quota as a separate request, and onSend
+   * runs for every attempt that actually goes out.
+   */
+  private async sendBatch(
+    userId: string,
+    accessToken: string,
+    parts: BatchRequestPart[],
+    onSend: () => void,
+  ): Promise<Map<string, BatchResponsePart>> {
+    // Overridable so the batch client can run against a local stub
+    const batchUrl = this.configService.get<string>('GOOGLE_BATCH_URL', 'https://www.googleapis.com/batch/calendar/v3');
+    const boundary = `batch_${Date.now().toString(36)}${Math.random().toString(36).substring(2, 10)}`;
+    const body = encodeBatchRequest(parts, boundary);
+
+    const text = await this.executeWithRetry(userId, async () => {
+      onSend();
+      const response = await fetch(batchUrl, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          'Content-Type': `multipart/mixed; boundary=${boundary}`,
+        },
+        body,
+      });
+
+      const responseText = await response.text();
+      if (!response.ok) {
+        throw Object.assign(new Error(`Batch request failed: ${responseText}`), { code: response.status });
+      }
+
+      const responseBoundary = getBoundary(response.headers.get('content-type'));
+      if (!responseBoundary) {
+        throw new Error('Invalid batch response from Google Calendar API');
+      }
+
+      return { responseText, responseBoundary };
+    }, parts.length);
+
+    const responses = decodeBatchResponse(text.responseText, text.responseBoundary);
+    return new Map(responses.map(response => [response.id, response]));
+  }
+
+  private toBatchPart(id: string, operation: BatchOperation): BatchRequestPart {
+    const eventsPath = `/calendar/v3/calendars/${encodeURIComponent(operation.calendarId || 'primary')}/events`;
+
+    switch (operation.method) {
+      case 'create':
+        return { id, method: 'POST', path: eventsPath, body: operation.event };
+
+      case 'update':
+        return {
+          id,
+          method: 'PUT',
+          path: `${eventsPath}/${encodeURIComponent(operation.eventId)}`,
+          headers: operation.etag ? { 'If-Match': operation.etag } : undefined,
+          body: operation.event,
+        };
+
+      case 'delete':
+        return { id, method: 'DELETE', path: `${eventsPath}/${encodeURIComponent(operation.eventId)}` };
+    }
+  }
+
+  private isBatchItemSuccessful(operation: BatchOperation, response: BatchResponsePart): boolean {
+    if (response.status >= 200 && response.status < 300) {
+      return true;
+    }
+    // An event that is already gone counts as deleted
+    return operation.method === 'delete' && [404, 410].includes(response.status);
+  }
+
+  private isRateLimited(response: BatchResponsePart): boolean {
+    if (response.status === 429) {
+      return true;
+    }
+    const reason = response.body?.error?.errors?.[0]?.reason;
+    return response.status === 403 && ['rateLimitExceeded', 'userRateLimitExceeded'].includes(reason);
+  }
+
+  /**
+   * Executes an operation with retry logic and exponential backoff. Every
+   * attempt counts against the user's daily quota, as `requests` requests.
    */
-  private async executeWithRetry<T>(operation: () => Promise<T>): Promise<T> {
+  private async executeWithRetry<T>(userId: string, operation: () => Promise<T>, requests = 1): Promise<T> {
     let lastError: any;
 
     for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
       try {
+        await this.quotaService.recordRequests(userId, requests);
         return await operation();
       } catch (error) {
         lastError = error;
 
         // Don't retry on certain errors
-        if (error.code === 401 || error.code === 403 || error.code === 404) {
+        if ([401, 403, 404, 410].includes(error.code)) {
           throw error;
         }
 
@@ -469,16 +844,14 @@ export class GoogleCalendarService {
   }
 
   /**
-   * Gets quota information (mock implementation for now)
+   * Gets the user's remaining daily quota
    */
   async getQuotaInfo(userId: string): Promise<QuotaInfo> {
-    // This is a simplified implementation
-    // In production, you'd track quota usage in Redis or database
-    const dailyLimit = this.configService.get<number>('GOOGLE_API_QUOTA_LIMIT', 3000);
+    const usage = await this.quotaService.getUsage(userId);
     return {
-      remaining: dailyLimit,
-      resetTime: new Date(Date.now() + 24 * 60 * 60 * 1000),
-      dailyLimit: dailyLimit,
+      remaining: usage.remaining,
+      resetTime: usage.resetTime,
+      dailyLimit: usage.dailyLimit,
     };
   }
 }
\ No newline at end of file
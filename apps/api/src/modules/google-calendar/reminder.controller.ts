@@ -9,7 +9,7 @@ import {
   BadRequestException,
   NotFoundException
 } from '@nestjs/common';
-import { AuthGuard } from '../auth/guards/auth.guard';
+import { JwtAuthGuard } from '../auth/guards/auth.guard';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { ReminderService, ReminderSettings, UserReminderPreferences } from './reminder.service';
 
@@ -28,8 +28,8 @@ interface BulkUpdateSubjectRemindersDto {
   reminderSettings: ReminderSettings;
 }
 
-@Controller('api/reminders')
-@UseGuards(AuthGuard)
+@Controller('reminders')
+@UseGuards(JwtAuthGuard)
 export class ReminderController {
   constructor(private readonly reminderService: ReminderService) {}
 
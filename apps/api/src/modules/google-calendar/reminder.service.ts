@@ -1,6 +1,6 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { IsNull, Not, Repository } from 'typeorm';
 import { Subject } from '../../infra/database/entities/subject.entity';
 import { LocalEvent } from '../../infra/database/entities/local-event.entity';
 
@@ -110,6 +110,12 @@ export class ReminderService {
       meta: updatedMeta
     });
 
+    // Reminders are part of each synced event, so the next sync has to rewrite them
+    await this.localEventRepository.update(
+      { userId, subjectId, gcalEventId: Not(IsNull()) },
+      { dirty: true }
+    );
+
     this.logger.debug(`Updated reminder settings for subject ${subjectId}: ${JSON.stringify(settings)}`);
   }
 
@@ -0,0 +1,150 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Equal, LessThan, Repository } from 'typeorm';
+import { SyncHistory } from '../../infra/database/entities/sync-history.entity';
+import { SyncOptions, SyncResult } from './calendar-sync.service';
+
+export interface SyncHistoryEntry {
+  id: string;
+  userId: string;
+  startedAt: string;
+  completedAt?: string;
+  status: SyncHistory['status'];
+  options: SyncHistory['options'];
+  result?: SyncHistory['result'];
+  error?: string;
+}
+
+// Position after which a page starts, in newest-first start time and ID order
+interface SyncHistoryCursor {
+  startedAt: string;
+  id: string;
+}
+
+export interface SyncHistoryPage {
+  data: SyncHistoryEntry[];
+  nextCursor?: string;
+}
+
+@Injectable()
+export class SyncHistoryService {
+  private readonly logger = new Logger(SyncHistoryService.name);
+  private readonly defaultPageSize = 20;
+
+  constructor(
+    @InjectRepository(SyncHistory)
+    private readonly syncHistoryRepository: Repository<SyncHistory>,
+  ) {}
+
+  /**
+   * Runs a sync operation and records it in the user's history
+   */
+  async record(
+    userId: string,
+    options: Pick<SyncOptions, 'direction' | 'range' | 'eventIds' | 'dryRun'>,
+    operation: () => Promise<SyncResult>,
+  ): Promise<SyncResult> {
+    const entry = await this.syncHistoryRepository.save(
+      this.syncHistoryRepository.create({
+        userId,
+        status: 'pending',
+        options: {
+          direction: options.direction,
+          range: options.range,
+          eventIds: options.eventIds,
+          dryRun: options.dryRun || false,
+        },
+        startedAt: new Date(),
+      }),
+    );
+
+    try {
+      const result = await operation();
+
+      await this.syncHistoryRepository.update(entry.id, {
+        status: 'completed',
+        result: {
+          summary: result.summary,
+          quotaUsed: result.quotaUsed,
+          conflicts: result.conflicts.length,
+        },
+        completedAt: new Date(),
+      });
+
+      return result;
+    } catch (error) {
+      this.logger.error(`Sync ${entry.id} failed for user ${userId}:`, error);
+      await this.syncHistoryRepository.update(entry.id, {
+        status: 'failed',
+        errorMessage: error instanceof Error ? error.message : String(error),
+        completedAt: new Date(),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Gets a page of the user's sync history, newest first. Syncs that started
+   * in the same millisecond are ordered by ID, so the cursor holds both.
+   */
+  async getHistory(userId: string, limit?: number, cursor?: string): Promise<SyncHistoryPage> {
+    const pageSize = limit || this.defaultPageSize;
+    const after = cursor ? this.decodeCursor(cursor) : undefined;
+
+    const entries = await this.syncHistoryRepository.find({
+      where: after
+        ? [
+            { userId, startedAt: LessThan(new Date(after.startedAt)) },
+            { userId, startedAt: Equal(new Date(after.startedAt)), id: LessThan(after.id) },
+          ]
+        : { userId },
+      order: { startedAt: 'DESC', id: 'DESC' },
+      take: pageSize + 1,
+    });
+
+    const hasMore = entries.length > pageSize;
+    const page = entries.slice(0, pageSize);
+
+    return {
+      data: page.map(entry => this.toEntry(entry)),
+      nextCursor: hasMore ? this.encodeCursor(page[page.length - 1]) : undefined,
+    };
+  }
+
+  private encodeCursor(entry: SyncHistory): string {
+    const cursor: SyncHistoryCursor = {
+      startedAt: entry.startedAt.toISOString(),
+      id: entry.id,
+    };
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  }
+
+  private decodeCursor(value: string): SyncHistoryCursor {
+    try {
+      const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+      if (
+        typeof cursor.startedAt === 'string' &&
+        !isNaN(Date.parse(cursor.startedAt)) &&
+        typeof cursor.id === 'string'
+      ) {
+        return { startedAt: cursor.startedAt, id: cursor.id };
+      }
+    } catch {
+      // Reported below
+    }
+    throw new BadRequestException('Invalid cursor');
+  }
+
+  private toEntry(entry: SyncHistory): SyncHistoryEntry {
+    return {
+      id: entry.id,
+      userId: entry.userId,
+      startedAt: entry.startedAt.toISOString(),
+      completedAt: entry.completedAt?.toISOString(),
+      status: entry.status,
+      options: entry.options,
+      result: entry.result,
+      error: entry.errorMessage,
+    };
+  }
+}
@@ -0,0 +1,133 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Query,
+  Param,
+  UseGuards,
+  UseInterceptors,
+  HttpCode,
+  HttpStatus,
+  BadRequestException,
+  NotFoundException,
+  Logger,
+} from '@nestjs/common';
+import { JwtAuthGuard } from '../auth/guards/auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { User } from '../../infra/database/entities/user.entity';
+import { Idempotent } from '../../infra/redis/idempotent.decorator';
+import { IdempotencyInterceptor } from '../../infra/redis/idempotency.interceptor';
+import { JobService, JobStatus } from '../../infra/redis/jobs/job.service';
+import { CalendarSyncService, SyncResult } from './calendar-sync.service';
+import { SyncHistoryService, SyncHistoryPage } from './sync-history.service';
+import { SyncToGoogleDto, ResolveConflictsDto, SyncHistoryQueryDto } from './dto/sync.dto';
+
+@Controller('sync')
+@UseGuards(JwtAuthGuard)
+@UseInterceptors(IdempotencyInterceptor)
+export class SyncController {
+  private readonly logger = new Logger(SyncController.name);
+
+  constructor(
+    private readonly calendarSyncService: CalendarSyncService,
+    private readonly syncHistoryService: SyncHistoryService,
+    private readonly jobService: JobService,
+  ) {}
+
+  /**
+   * Syncs events in the given range with Google Calendar in the requested direction
+   */
+  @Post('google')
+  @HttpCode(HttpStatus.OK)
+  @Idempotent({ keyPrefix: 'sync' })
+  async syncWithGoogle(
+    @CurrentUser() user: User,
+    @Body() syncDto: SyncToGoogleDto,
+  ): Promise<{ data: SyncResult }> {
+    if (syncDto.range.from > syncDto.range.to) {
+      throw new BadRequestException('Range start must be on or before range end');
+    }
+
+    this.logger.debug(`Sync requested by user ${user.id} for ${syncDto.range.from}..${syncDto.range.to}`);
+
+    const result = await this.syncHistoryService.record(user.id, syncDto, () =>
+      this.calendarSyncService.sync(user.id, syncDto),
+    );
+
+    return { data: result };
+  }
+
+  /**
+   * Queues a background sync job for large ranges
+   */
+  @Post('jobs')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async createSyncJob(
+    @CurrentUser() user: User,
+    @Body() syncDto: SyncToGoogleDto,
+  ): Promise<{ data: { jobId: string } }> {
+    if (syncDto.range.from > syncDto.range.to) {
+      throw new BadRequestException('Range start must be on or before range end');
+    }
+
+    // A retried request with the same key resolves to the job it already queued
+    const existingJob = await this.jobService.findJobByIdempotencyKey(syncDto.idempotencyKey);
+    if (existingJob && existingJob.data.userId === user.id) {
+      return { data: { jobId: existingJob.id.toString() } };
+    }
+
+    const job = await this.jobService.createSyncJob({ userId: user.id, ...syncDto });
+    return { data: { jobId: job.id.toString() } };
+  }
+
+  /**
+   * Gets the status of a queued sync job
+   */
+  @Get('jobs/:jobId')
+  async getSyncJob(
+    @CurrentUser() user: User,
+    @Param('jobId') jobId: string,
+  ): Promise<{ data: JobStatus }> {
+    const status = await this.jobService.getJobStatus(jobId);
+    if (!status || status.data.userId !== user.id) {
+      throw new NotFoundException(`Sync job ${jobId} not found`);
+    }
+
+    return { data: status };
+  }
+
+  /**
+   * Gets the user's sync history, newest first
+   */
+  @Get('history')
+  async getHistory(
+    @CurrentUser() user: User,
+    @Query() query: SyncHistoryQueryDto,
+  ): Promise<SyncHistoryPage> {
+    return this.syncHistoryService.getHistory(user.id, query.limit, query.cursor);
+  }
+
+  /**
+   * Applies the chosen resolutions to conflicts reported by a previous sync
+   */
+  @Post('resolve-conflicts')
+  @HttpCode(HttpStatus.OK)
+  @Idempotent({ keyPrefix: 'sync-resolve' })
+  async resolveConflicts(
+    @CurrentUser() user: User,
+    @Body() resolveDto: ResolveConflictsDto,
+  ): Promise<{ data: SyncResult }> {
+    if (resolveDto.conflicts.length !== resolveDto.resolutions.length) {
+      throw new BadRequestException('Each conflict must have exactly one resolution');
+    }
+
+    const result = await this.calendarSyncService.resolveConflicts(
+      user.id,
+      resolveDto.conflicts,
+      resolveDto.resolutions,
+    );
+
+    return { data: result };
+  }
+}
@@ -0,0 +1,43 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { User } from '../../infra/database/entities/user.entity';
+import { GoogleCalendarService } from './google-calendar.service';
+import { DEFAULT_TIMEZONE, isValidTimeZone } from '../../common/utils/timezone';
+
+@Injectable()
+export class UserTimezoneService {
+  private readonly logger = new Logger(UserTimezoneService.name);
+
+  constructor(
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly googleCalendarService: GoogleCalendarService,
+  ) {}
+
+  /**
+   * Gets the timezone a user's classes are scheduled in. A user without one
+   * takes the timezone of their primary Google calendar the first time it is
+   * needed; if Google can't be reached, UTC is used without being stored.
+   */
+  async getTimezone(userId: string): Promise<string> {
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+    if (user?.timezone) {
+      return user.timezone;
+    }
+
+    try {
+      const timezone = await this.googleCalendarService.getCalendarTimezone(userId);
+      if (user && isValidTimeZone(timezone)) {
+        await this.userRepository.update(user.id, { timezone });
+        return timezone;
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Failed to read Google calendar timezone for user ${userId}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    return DEFAULT_TIMEZONE;
+  }
+}
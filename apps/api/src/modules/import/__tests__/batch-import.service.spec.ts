@@ -1,32 +1,34 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { BadRequestException } from '@nestjs/common';
+import { BadRequestException, ConflictException } from '@nestjs/common';
 import { BatchImportService } from '../services/batch-import.service';
 import { ImportJobRepositoryInterface } from '../../../infra/database/repositories/interfaces/import-job-repository.interface';
 import { ImportItemRepositoryInterface } from '../../../infra/database/repositories/interfaces/import-item-repository.interface';
-import { SubjectRepositoryInterface } from '../../../infra/database/repositories/interfaces/subject-repository.interface';
-import { SectionRepositoryInterface } from '../../../infra/database/repositories/interfaces/section-repository.interface';
-import { LocalEventRepositoryInterface } from '../../../infra/database/repositories/interfaces/local-event-repository.interface';
+import { SubjectRepository } from '../../../infra/database/repositories/interfaces/subject-repository.interface';
+import { SectionRepository } from '../../../infra/database/repositories/interfaces/section-repository.interface';
+import { LocalEventRepository } from '../../../infra/database/repositories/interfaces/local-event-repository.interface';
+import { UnitOfWork } from '../../../infra/database/repositories/unit-of-work';
 import { EventGenerationService } from '../../events/event-generation.service';
+import { ClashDetectionService } from '../../events/clash-detection.service';
 import {
     IMPORT_JOB_REPOSITORY,
     IMPORT_ITEM_REPOSITORY,
-    SUBJECT_REPOSITORY,
-    SECTION_REPOSITORY,
-    LOCAL_EVENT_REPOSITORY,
 } from '../../../infra/database/repositories/repository.module';
 import { ImportJob } from '../../../infra/database/entities/import-job.entity';
 import { ImportItem } from '../../../infra/database/entities/import-item.entity';
 import { Subject } from '../../../infra/database/entities/subject.entity';
 import { Section } from '../../../infra/database/entities/section.entity';
+import { ICS_COLUMN_MAP, SCHEDULE_COLUMN_MAP } from '../services/ics-calendar';
 
 describe('BatchImportService', () => {
     let service: BatchImportService;
     let importJobRepository: jest.Mocked<ImportJobRepositoryInterface>;
     let importItemRepository: jest.Mocked<ImportItemRepositoryInterface>;
-    let subjectRepository: jest.Mocked<SubjectRepositoryInterface>;
-    let sectionRepository: jest.Mocked<SectionRepositoryInterface>;
-    let localEventRepository: jest.Mocked<LocalEventRepositoryInterface>;
+    let subjectRepository: jest.Mocked<SubjectRepository>;
+    let sectionRepository: jest.Mocked<SectionRepository>;
+    let localEventRepository: jest.Mocked<LocalEventRepository>;
+    let unitOfWork: jest.Mocked<UnitOfWork>;
     let eventGenerationService: jest.Mocked<EventGenerationService>;
+    let clashDetectionService: jest.Mocked<ClashDetectionService>;
 
     const mockImportJob: ImportJob = {
         id: 'job-1',
@@ -69,6 +71,8 @@ describe('BatchImportService', () => {
             room: null,
             note: null,
             status: 'preview',
+            changes: [],
+            errorMessage: null,
             importJob: null,
         },
     ];
@@ -113,6 +117,7 @@ describe('BatchImportService', () => {
             findByUserId: jest.fn(),
             findByUserIdAndState: jest.fn(),
             findWithItems: jest.fn(),
+            claimForApply: jest.fn().mockResolvedValue(true),
             delete: jest.fn(),
             findAll: jest.fn(),
         };
@@ -161,6 +166,22 @@ describe('BatchImportService', () => {
 
         const mockEventGenerationService = {
             generateEventsForSection: jest.fn(),
+            regenerateEventsForSection: jest.fn(),
+            withRepositories: jest.fn(),
+        };
+        // Generation inside a transaction goes through the same mock
+        mockEventGenerationService.withRepositories.mockReturnValue(mockEventGenerationService);
+
+        const repositories = {
+            subjects: mockSubjectRepo,
+            sections: mockSectionRepo,
+            localEvents: mockLocalEventRepo,
+            importJobs: mockImportJobRepo,
+            importItems: mockImportItemRepo,
+        };
+
+        const mockClashDetectionService = {
+            detectClashes: jest.fn().mockResolvedValue([]),
         };
 
         const module: TestingModule = await Test.createTestingModule({
@@ -175,31 +196,29 @@ describe('BatchImportService', () => {
                     useValue: mockImportItemRepo,
                 },
                 {
-                    provide: SUBJECT_REPOSITORY,
-                    useValue: mockSubjectRepo,
-                },
-                {
-                    provide: SECTION_REPOSITORY,
-                    useValue: mockSectionRepo,
-                },
-                {
-                    provide: LOCAL_EVENT_REPOSITORY,
-                    useValue: mockLocalEventRepo,
+                    provide: UnitOfWork,
+                    useValue: { run: jest.fn(work => work(repositories)) },
                 },
                 {
                     provide: EventGenerationService,
                     useValue: mockEventGenerationService,
                 },
+                {
+                    provide: ClashDetectionService,
+                    useValue: mockClashDetectionService,
+                },
             ],
         }).compile();
 
         service = module.get<BatchImportService>(BatchImportService);
         importJobRepository = module.get(IMPORT_JOB_REPOSITORY);
         importItemRepository = module.get(IMPORT_ITEM_REPOSITORY);
-        subjectRepository = module.get(SUBJECT_REPOSITORY);
-        sectionRepository = module.get(SECTION_REPOSITORY);
-        localEventRepository = module.get(LOCAL_EVENT_REPOSITORY);
+        subjectRepository = mockSubjectRepo as any;
+        sectionRepository = mockSectionRepo as any;
+        localEventRepository = mockLocalEventRepo as any;
+        unitOfWork = module.get(UnitOfWork);
         eventGenerationService = module.get(EventGenerationService);
+        clashDetectionService = module.get(ClashDetectionService);
     });
 
     describe('processImport', () => {
@@ -210,7 +229,7 @@ describe('BatchImportService', () => {
             subjectRepository.create.mockResolvedValue(mockSubject);
             sectionRepository.findBySubjectIdAndSecCode.mockResolvedValue(null);
             sectionRepository.create.mockResolvedValue(mockSection);
-            eventGenerationService.generateEventsForSection.mockResolvedValue([]);
+            eventGenerationService.generateEventsForSection.mockResolvedValue({ generated: 0, events: [] } as any);
             importItemRepository.updateStatus.mockResolvedValue(undefined);
             importJobRepository.update.mockResolvedValue(mockImportJob);
 
@@ -223,6 +242,10 @@ describe('BatchImportService', () => {
             expect(result.details[0].action).toBe('created');
             expect(result.details[0].subjectName).toBe('Math 101');
             expect(result.details[0].sectionCode).toBe('001');
+            expect(clashDetectionService.detectClashes).toHaveBeenCalledWith('user-1', {
+                sectionIds: [mockSection.id],
+            });
+            expect(result.clashes).toEqual([]);
         });
 
         it('should throw error for non-existent job', async () => {
@@ -281,7 +304,7 @@ describe('BatchImportService', () => {
             subjectRepository.findByUserIdAndName.mockResolvedValue(mockSubject);
             sectionRepository.findBySubjectIdAndSecCode.mockResolvedValue(null);
             sectionRepository.create.mockResolvedValue(mockSection);
-            eventGenerationService.generateEventsForSection.mockResolvedValue([]);
+            eventGenerationService.generateEventsForSection.mockResolvedValue({ generated: 0, events: [] } as any);
             importItemRepository.updateStatus.mockResolvedValue(undefined);
             importJobRepository.update.mockResolvedValue(mockImportJob);
 
@@ -296,7 +319,7 @@ describe('BatchImportService', () => {
             importItemRepository.findByImportJobId.mockResolvedValue(mockImportItems);
             subjectRepository.findByUserIdAndName.mockResolvedValue(mockSubject);
             sectionRepository.findBySubjectIdAndSecCode.mockResolvedValue(mockSection);
-            eventGenerationService.generateEventsForSection.mockResolvedValue([]);
+            eventGenerationService.generateEventsForSection.mockResolvedValue({ generated: 0, events: [] } as any);
             importItemRepository.updateStatus.mockResolvedValue(undefined);
             importJobRepository.update.mockResolvedValue(mockImportJob);
 
@@ -305,6 +328,270 @@ describe('BatchImportService', () => {
             expect(sectionRepository.create).not.toHaveBeenCalled();
             expect(result.summary.created).toBe(1);
         });
+
+        describe('apply modes', () => {
+            const failingItem: ImportItem = {
+                ...mockImportItems[0],
+                id: 'item-2',
+                rawRow: { ...mockImportItems[0].rawRow, 'Subject': 'Physics 101', 'Section': '' },
+            };
+
+            beforeEach(() => {
+                importItemRepository.findByImportJobId.mockResolvedValue([mockImportItems[0], failingItem]);
+                subjectRepository.findByUserIdAndName.mockResolvedValue(null);
+                subjectRepository.create.mockResolvedValue(mockSubject);
+                sectionRepository.findBySubjectIdAndSecCode.mockResolvedValue(null);
+                sectionRepository.create.mockResolvedValue(mockSection);
+                eventGenerationService.generateEventsForSection.mockResolvedValue({ generated: 1, events: [{ id: 'event-1' }] } as any);
+            });
+
+            it('should apply nothing when a row fails all-or-nothing', async () => {
+                importJobRepository.findById.mockResolvedValue(mockImportJob);
+
+                const result = await service.processImport('job-1', 'user-1');
+
+                expect(unitOfWork.run).toHaveBeenCalledTimes(1);
+                expect(importJobRepository.claimForApply).toHaveBeenCalledWith('job-1', 'preview', {
+                    applyMode: 'all-or-nothing',
+                    applyLeaseExpiresAt: expect.any(Date),
+                    errorMessage: null,
+                }, expect.any(Date));
+                expect(result.summary).toEqual({ totalRows: 2, created: 0, updated: 0, skipped: 1, failed: 1 });
+                expect(result.details).toEqual([
+                    { row: 1, action: 'skipped', message: 'Not applied because row 2 failed' },
+                    expect.objectContaining({ row: 2, action: 'failed', message: 'Missing required field: sectionCode' }),
+                ]);
+                expect(importItemRepository.update).toHaveBeenCalledWith('item-2', {
+                    status: 'failed',
+                    errorMessage: 'Missing required field: sectionCode',
+                });
+                expect(clashDetectionService.detectClashes).not.toHaveBeenCalled();
+                expect(importJobRepository.update).toHaveBeenLastCalledWith('job-1', expect.objectContaining({ state: 'failed' }));
+            });
+
+            it('should keep the rows that apply best-effort', async () => {
+                importJobRepository.findById.mockResolvedValue(mockImportJob);
+
+                const result = await service.processImport('job-1', 'user-1', { mode: 'best-effort' });
+
+                expect(unitOfWork.run).toHaveBeenCalledTimes(2);
+                expect(result.summary).toEqual({ totalRows: 2, created: 1, updated: 0, skipped: 0, failed: 1 });
+                expect(importItemRepository.update).toHaveBeenCalledWith('item-1', {
+                    status: 'created',
+                    subjectId: 'subject-1',
+                    sectionId: 'section-1',
+                    changes: [
+                        { entity: 'subject', id: 'subject-1', action: 'created' },
+                        { entity: 'section', id: 'section-1', action: 'created' },
+                        { entity: 'event', id: 'event-1', action: 'created' },
+                    ],
+                    applySequence: 1,
+                    errorMessage: null,
+                });
+                expect(result.errors).toEqual([
+                    { row: 2, message: 'Missing required field: sectionCode', data: failingItem.rawRow },
+                ]);
+            });
+
+            it('should resume an interrupted job in its mode without applying rows again', async () => {
+                importJobRepository.findById.mockResolvedValue({ ...mockImportJob, state: 'applying', applyMode: 'best-effort' });
+                importItemRepository.findByImportJobId.mockResolvedValue([
+                    { ...mockImportItems[0], status: 'created', applySequence: 3 },
+                    { ...failingItem, rawRow: mockImportItems[0].rawRow },
+                ]);
+
+                const result = await service.processImport('job-1', 'user-1', { mode: 'all-or-nothing' });
+
+                expect(importJobRepository.claimForApply).toHaveBeenCalledWith(
+                    'job-1',
+                    'applying',
+                    expect.objectContaining({ applyMode: 'best-effort' }),
+                    expect.any(Date),
+                );
+                expect(subjectRepository.create).toHaveBeenCalledTimes(1);
+                expect(result.summary).toEqual({ totalRows: 2, created: 1, updated: 0, skipped: 1, failed: 0 });
+                expect(result.details[0]).toEqual({ row: 1, action: 'skipped', message: 'Applied by an earlier run' });
+                expect(importItemRepository.update).toHaveBeenCalledWith('item-2', expect.objectContaining({
+                    status: 'created',
+                    applySequence: 4,
+                }));
+            });
+
+            describe('claiming the job', () => {
+                let storedJob: ImportJob;
+
+                // Claims the job the way the repository's conditional update does
+                beforeEach(() => {
+                    storedJob = { ...mockImportJob };
+                    importJobRepository.findById.mockImplementation(async () => storedJob);
+                    importJobRepository.update.mockImplementation(async (id, data) => (storedJob = { ...storedJob, ...data }));
+                    importJobRepository.claimForApply.mockImplementation(async (id, fromState, data, now) => {
+                        const leased = storedJob.applyLeaseExpiresAt && storedJob.applyLeaseExpiresAt >= now;
+                        if (storedJob.state !== fromState || leased) {
+                            return false;
+                        }
+                        storedJob = { ...storedJob, ...data, state: 'applying' };
+                        return true;
+                    });
+                    importItemRepository.findByImportJobId.mockResolvedValue([mockImportItems[0]]);
+                });
+
+                it('should refuse a second apply that overlaps the first', async () => {
+                    const [first, second] = await Promise.allSettled([
+                        service.processImport('job-1', 'user-1'),
+                        service.processImport('job-1', 'user-1'),
+                    ]);
+
+                    expect(first.status).toBe('fulfilled');
+                    expect(second).toEqual({
+                        status: 'rejected',
+                        reason: new ConflictException('Import job is already being applied'),
+                    });
+                    expect(unitOfWork.run).toHaveBeenCalledTimes(1);
+                    expect(subjectRepository.create).toHaveBeenCalledTimes(1);
+                    expect(storedJob).toEqual(expect.objectContaining({ state: 'applied', applyLeaseExpiresAt: null }));
+                });
+
+                it('should refuse to resume a job whose lease has not run out', async () => {
+                    storedJob = { ...storedJob, state: 'applying', applyLeaseExpiresAt: new Date(Date.now() + 60000) };
+
+                    await expect(service.processImport('job-1', 'user-1')).rejects.toThrow(ConflictException);
+                    expect(unitOfWork.run).not.toHaveBeenCalled();
+                });
+
+                it('should resume a job whose lease ran out', async () => {
+                    storedJob = { ...storedJob, state: 'applying', applyLeaseExpiresAt: new Date(Date.now() - 60000) };
+
+                    const result = await service.processImport('job-1', 'user-1');
+
+                    expect(result.summary.created).toBe(1);
+                    expect(storedJob.state).toBe('applied');
+                });
+            });
+        });
+
+        describe('calendar files', () => {
+            const calendarJob: ImportJob = {
+                ...mockImportJob,
+                sourceType: 'ics',
+                columnMap: ICS_COLUMN_MAP,
+            };
+
+            const calendarRow = (row: Record<string, any>) => ({
+                'Subject': 'CS101 Computer Science',
+                'Section': '01',
+                'Room': 'Room 101',
+                'Repeats': 'weekly',
+                'Start Time': '09:00',
+                'End Time': '10:30',
+                'Start Date': '2024-01-15',
+                'End Date': '2024-02-29',
+                'Interval': null,
+                'Week of Month': null,
+                'Skip Dates': null,
+                ...row,
+            });
+
+            const calendarItems: ImportItem[] = [
+                calendarRow({ 'Days': 'MO', 'Skip Dates': '2024-01-29' }),
+                calendarRow({ 'Days': 'WE', 'Start Date': '2024-01-17', 'Interval': 2 }),
+                calendarRow({ 'Repeats': 'once', 'Days': 'SA', 'Start Date': '2024-03-02', 'End Date': '2024-03-02', 'Start Time': '13:00', 'End Time': '14:30' }),
+            ].map((rawRow, index) => ({ ...mockImportItems[0], id: `item-${index + 1}`, rawRow }));
+
+            beforeEach(() => {
+                importJobRepository.findById.mockResolvedValue(calendarJob);
+                importItemRepository.findByImportJobId.mockResolvedValue(calendarItems);
+                subjectRepository.findByUserIdAndName.mockResolvedValue(mockSubject);
+                importItemRepository.updateStatus.mockResolvedValue(undefined);
+                importJobRepository.update.mockResolvedValue(calendarJob);
+            });
+
+            it('should collapse the rows of a section into its schedule rules and extra sessions', async () => {
+                sectionRepository.findBySubjectIdAndSecCode.mockResolvedValue(null);
+                sectionRepository.create.mockResolvedValue(mockSection);
+                eventGenerationService.generateEventsForSection.mockResolvedValue({ generated: 12, events: [{ id: 'event-1' }] } as any);
+
+                const result = await service.processImport('job-1', 'user-1');
+
+                expect(sectionRepository.create).toHaveBeenCalledTimes(1);
+                expect(sectionRepository.create).toHaveBeenCalledWith({
+                    subjectId: 'subject-1',
+                    secCode: '01',
+                    teacher: null,
+                    room: 'Room 101',
+                    scheduleRules: [
+                        { dayOfWeek: 1, startTime: '09:00', endTime: '10:30', startDate: '2024-01-15', endDate: '2024-02-29', skipDates: ['2024-01-29'] },
+                        { dayOfWeek: 3, startTime: '09:00', endTime: '10:30', startDate: '2024-01-17', endDate: '2024-02-29', skipDates: [], interval: 2 },
+                    ],
+                    exceptions: [
+                        { id: expect.any(String), type: 'extra', date: '2024-03-02', startTime: '13:00', endTime: '14:30' },
+                    ],
+                });
+                expect(eventGenerationService.generateEventsForSection).toHaveBeenCalledWith('user-1', 'section-1');
+                expect(result.summary).toEqual({ totalRows: 3, created: 3, updated: 0, skipped: 0, failed: 0 });
+                expect(result.details.map(detail => detail.eventsCreated)).toEqual([12, undefined, undefined]);
+                // The section's records are kept on its first row
+                expect(importItemRepository.update).toHaveBeenCalledWith('item-1', expect.objectContaining({
+                    status: 'created',
+                    sectionId: 'section-1',
+                    changes: [
+                        { entity: 'section', id: 'section-1', action: 'created' },
+                        { entity: 'event', id: 'event-1', action: 'created' },
+                    ],
+                }));
+                expect(importItemRepository.update).toHaveBeenCalledWith('item-3', expect.objectContaining({
+                    status: 'created',
+                    changes: [],
+                }));
+            });
+
+            it('should update a section imported before without adding its extra sessions twice', async () => {
+                const extra = { id: 'exception-1', type: 'extra' as const, date: '2024-03-02', startTime: '13:00', endTime: '14:30' };
+                sectionRepository.findBySubjectIdAndSecCode.mockResolvedValue({ ...mockSection, scheduleRules: [], exceptions: [extra] });
+                sectionRepository.update.mockResolvedValue(mockSection);
+                eventGenerationService.regenerateEventsForSection.mockResolvedValue({ generated: 1 } as any);
+
+                await service.processImport('job-1', 'user-1');
+
+                expect(sectionRepository.create).not.toHaveBeenCalled();
+                expect(sectionRepository.update).toHaveBeenCalledWith('section-1', expect.objectContaining({
+                    exceptions: [extra],
+                }));
+                expect(eventGenerationService.regenerateEventsForSection).toHaveBeenCalledWith('user-1', 'section-1');
+                expect(importItemRepository.update).toHaveBeenCalledWith('item-1', expect.objectContaining({
+                    changes: [{
+                        entity: 'section',
+                        id: 'section-1',
+                        action: 'updated',
+                        previous: { teacher: null, room: 'A101', scheduleRules: [], exceptions: [extra] },
+                    }],
+                }));
+            });
+
+            it('should apply an exported schedule with its teacher and moved rooms', async () => {
+                const scheduleItems = [
+                    { ...calendarRow({ 'Days': 'MO' }), 'Code': 'CS101', 'Teacher': 'Dr. Smith' },
+                    { ...calendarRow({ 'Repeats': 'once', 'Days': 'TU', 'Start Date': '2024-01-23', 'End Date': '2024-01-23', 'Room': 'Lab 2' }), 'Code': 'CS101', 'Teacher': 'Dr. Smith' },
+                ].map((rawRow, index) => ({ ...mockImportItems[0], id: `item-${index + 1}`, rawRow }));
+                importJobRepository.findById.mockResolvedValue({ ...mockImportJob, columnMap: SCHEDULE_COLUMN_MAP });
+                importItemRepository.findByImportJobId.mockResolvedValue(scheduleItems);
+                subjectRepository.update.mockResolvedValue({ ...mockSubject, code: 'CS101' });
+                sectionRepository.findBySubjectIdAndSecCode.mockResolvedValue(null);
+                sectionRepository.create.mockResolvedValue(mockSection);
+                eventGenerationService.generateEventsForSection.mockResolvedValue({ generated: 8, events: [] } as any);
+
+                await service.processImport('job-1', 'user-1');
+
+                expect(subjectRepository.update).toHaveBeenCalledWith('subject-1', { code: 'CS101' });
+                expect(sectionRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+                    teacher: 'Dr. Smith',
+                    room: 'Room 101',
+                    exceptions: [
+                        { id: expect.any(String), type: 'extra', date: '2024-01-23', startTime: '09:00', endTime: '10:30', room: 'Lab 2' },
+                    ],
+                }));
+            });
+        });
     });
 
     describe('getImportResult', () => {
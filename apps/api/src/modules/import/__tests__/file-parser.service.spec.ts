@@ -24,6 +24,11 @@ describe('FileParserService', () => {
       expect(service.validateFileType('test.XLSX', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet')).toBe('xlsx');
     });
 
+    it('should validate ICS files correctly', () => {
+      expect(service.validateFileType('timetable.ics', 'text/calendar')).toBe('ics');
+      expect(service.validateFileType('timetable.ICS', 'application/octet-stream')).toBe('ics');
+    });
+
     it('should throw error for unsupported file types', () => {
       expect(() => service.validateFileType('test.txt', 'text/plain')).toThrow(BadRequestException);
       expect(() => service.validateFileType('test.pdf', 'application/pdf')).toThrow(BadRequestException);
@@ -112,4 +117,37 @@ Math 101,001,09:00-10:30,A101
       await expect(service.parseXLSX(emptyBuffer)).rejects.toThrow(BadRequestException);
     });
   });
-});
\ No newline at end of file
+
+  describe('parseICS', () => {
+    it('should read the classes of a calendar as rows', async () => {
+      const icsData = [
+        'BEGIN:VCALENDAR',
+        'BEGIN:VEVENT',
+        'SUMMARY:Math 101',
+        'LOCATION:A101',
+        'DTSTART:20240115T020000Z',
+        'DTEND:20240115T033000Z',
+        'RRULE:FREQ=WEEKLY;COUNT=10',
+        'END:VEVENT',
+        'END:VCALENDAR',
+      ].join('\r\n');
+
+      const result = await service.parseICS(Buffer.from(icsData), 'Asia/Bangkok');
+
+      expect(result.headers).toContain('Skip Dates');
+      expect(result.rows).toHaveLength(1);
+      expect(result.rows[0]).toMatchObject({
+        'Subject': 'Math 101',
+        'Days': 'MO',
+        'Start Time': '09:00',
+        'End Time': '10:30',
+        'End Date': '2024-03-18',
+      });
+      expect(result.errors).toHaveLength(0);
+    });
+
+    it('should reject a file that is not a calendar', async () => {
+      await expect(service.parseICS(Buffer.from('Subject,Section'), 'UTC')).rejects.toThrow(BadRequestException);
+    });
+  });
+});
@@ -0,0 +1,184 @@
+import { parseICalendar, toImportRows } from '../services/ics-calendar';
+
+describe('ics-calendar', () => {
+  const calendar = (...events: string[][]) => [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//University//Timetable//EN',
+    ...events.flatMap(event => ['BEGIN:VEVENT', ...event, 'END:VEVENT']),
+    'END:VCALENDAR',
+  ].join('\r\n');
+
+  const lecture = [
+    'UID:lecture-1@university.edu',
+    'SUMMARY:CS101 Computer Science',
+    'LOCATION:Room 101',
+    'DTSTART;TZID=Asia/Bangkok:20240115T090000',
+    'DTEND;TZID=Asia/Bangkok:20240115T103000',
+    'RRULE:FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20240228T235959Z',
+    'EXDATE;TZID=Asia/Bangkok:20240129T090000,20240207T090000',
+  ];
+
+  const rowsOf = (text: string, timezone = 'Asia/Bangkok') =>
+    toImportRows(parseICalendar(text, timezone).events);
+
+  describe('parseICalendar', () => {
+    it('should read folded and escaped properties', () => {
+      const { events, errors } = parseICalendar(calendar([
+        'UID:lab-1',
+        'SUMMARY:Physics\\, Lab',
+        'LOCATION:Science Building\\, ',
+        ' Room 2',
+        'DTSTART:20240116T060000Z',
+        'DURATION:PT2H',
+      ]), 'Asia/Bangkok');
+
+      expect(errors).toEqual([]);
+      expect(events).toEqual([
+        expect.objectContaining({
+          summary: 'Physics, Lab',
+          location: 'Science Building, Room 2',
+          start: { date: '2024-01-16', time: '13:00', shift: 0 },
+          duration: 120,
+        }),
+      ]);
+    });
+
+    it('should reject a file that is not a calendar', () => {
+      const { events, errors } = parseICalendar('Subject,Section\nMath,001', 'UTC');
+
+      expect(events).toEqual([]);
+      expect(errors).toHaveLength(1);
+    });
+  });
+
+  describe('toImportRows', () => {
+    it('should split a weekly series into one row per day with its skip dates', () => {
+      const { rows, errors } = rowsOf(calendar(lecture));
+
+      expect(errors).toEqual([]);
+      expect(rows).toEqual([
+        {
+          'Subject': 'CS101 Computer Science',
+          'Section': '01',
+          'Room': 'Room 101',
+          'Repeats': 'weekly',
+          'Days': 'MO',
+          'Start Time': '09:00',
+          'End Time': '10:30',
+          'Start Date': '2024-01-15',
+          'End Date': '2024-02-28',
+          'Interval': null,
+          'Week of Month': null,
+          'Skip Dates': '2024-01-29',
+        },
+        expect.objectContaining({
+          'Days': 'WE',
+          'Start Date': '2024-01-17',
+          'Skip Dates': '2024-02-07',
+        }),
+      ]);
+    });
+
+    it('should move the days of a series that crosses midnight in the user\'s timezone', () => {
+      const { rows, errors } = rowsOf(calendar([
+        'SUMMARY:Online Lecture',
+        'DTSTART;TZID=America/New_York:20240115T230000',
+        'DTEND;TZID=America/New_York:20240115T235000',
+        'RRULE:FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20240222T040000Z',
+        'EXDATE;TZID=America/New_York:20240129T230000',
+      ]));
+
+      expect(errors).toEqual([]);
+      expect(rows.map(row => [row['Days'], row['Start Time'], row['Start Date'], row['End Date'], row['Skip Dates']])).toEqual([
+        ['TU', '11:00', '2024-01-16', '2024-02-22', '2024-01-30'],
+        ['TH', '11:00', '2024-01-18', '2024-02-22', null],
+      ]);
+
+      const { rows: untilDateRows } = rowsOf(calendar([
+        'SUMMARY:Online Lecture',
+        'DTSTART;TZID=America/New_York:20240115T230000',
+        'DTEND;TZID=America/New_York:20240115T235000',
+        'RRULE:FREQ=WEEKLY;BYDAY=MO;UNTIL=20240219',
+      ]));
+
+      expect(untilDateRows.map(row => [row['Days'], row['Start Date'], row['End Date']])).toEqual([
+        ['TU', '2024-01-16', '2024-02-20'],
+      ]);
+    });
+
+    it('should start each day of a fortnightly series in the first week', () => {
+      const { rows } = rowsOf(calendar([
+        'SUMMARY:Seminar',
+        'DTSTART:20240117T090000',
+        'DTEND:20240117T100000',
+        'RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=4',
+      ]));
+
+      expect(rows.map(row => [row['Days'], row['Start Date'], row['End Date'], row['Interval']])).toEqual([
+        ['MO', '2024-01-29', '2024-02-12', 2],
+        ['WE', '2024-01-17', '2024-02-12', 2],
+      ]);
+    });
+
+    it('should read a monthly Nth-weekday series', () => {
+      const { rows } = rowsOf(calendar([
+        'SUMMARY:Department Meeting',
+        'DTSTART:20240108T150000',
+        'DURATION:PT1H',
+        'RRULE:FREQ=MONTHLY;BYDAY=2MO;COUNT=3',
+      ]));
+
+      expect(rows).toEqual([
+        expect.objectContaining({
+          'Repeats': 'monthly',
+          'Days': 'MO',
+          'End Time': '16:00',
+          'Start Date': '2024-01-08',
+          'End Date': '2024-03-11',
+          'Week of Month': 2,
+        }),
+      ]);
+    });
+
+    it('should make one-off events, RDATEs and changed classes repeat once', () => {
+      const { rows } = rowsOf(calendar(
+        [...lecture, 'RDATE;TZID=Asia/Bangkok:20240302T130000'],
+        [
+          'UID:lecture-1@university.edu',
+          'RECURRENCE-ID;TZID=Asia/Bangkok:20240214T090000',
+          'DTSTART;TZID=Asia/Bangkok:20240215T090000',
+          'DTEND;TZID=Asia/Bangkok:20240215T103000',
+        ],
+        [
+          'SUMMARY:CS101 Computer Science',
+          'LOCATION:Exam Hall',
+          'DTSTART:20240305T020000Z',
+          'DTEND:20240305T050000Z',
+        ],
+      ));
+
+      const once = rows.filter(row => row['Repeats'] === 'once');
+      expect(rows.find(row => row['Days'] === 'WE')['Skip Dates']).toBe('2024-02-07,2024-02-14');
+      expect(once.map(row => [row['Section'], row['Start Date'], row['Start Time'], row['End Time']])).toEqual([
+        ['01', '2024-03-02', '13:00', '14:30'],
+        ['01', '2024-02-15', '09:00', '10:30'],
+        ['02', '2024-03-05', '09:00', '12:00'],
+      ]);
+    });
+
+    it('should report events that cannot be classes and skip cancelled ones', () => {
+      const { rows, errors } = rowsOf(calendar(
+        ['SUMMARY:Holiday', 'DTSTART;VALUE=DATE:20240212', 'DTEND;VALUE=DATE:20240213'],
+        ['SUMMARY:Daily Standup', 'DTSTART:20240115T090000', 'DURATION:PT15M', 'RRULE:FREQ=DAILY'],
+        ['SUMMARY:Cancelled Lecture', 'STATUS:CANCELLED', 'DTSTART:20240115T090000', 'DURATION:PT1H'],
+      ));
+
+      expect(rows).toEqual([]);
+      expect(errors.map(error => error.message)).toEqual([
+        'Holiday: All-day events are not classes',
+        'Daily Standup: Unsupported recurrence: FREQ=DAILY',
+      ]);
+    });
+  });
+});
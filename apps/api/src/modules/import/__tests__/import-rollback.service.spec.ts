@@ -0,0 +1,248 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { ImportRollbackService } from '../services/import-rollback.service';
+import {
+  IMPORT_JOB_REPOSITORY,
+  IMPORT_ITEM_REPOSITORY,
+} from '../../../infra/database/repositories/repository.module';
+import { UnitOfWork } from '../../../infra/database/repositories/unit-of-work';
+import { EventGenerationService } from '../../events/event-generation.service';
+import { CalendarSyncService } from '../../google-calendar/calendar-sync.service';
+import { ImportJob } from '../../../infra/database/entities/import-job.entity';
+import { ImportItem } from '../../../infra/database/entities/import-item.entity';
+
+describe('ImportRollbackService', () => {
+  let service: ImportRollbackService;
+  let importJobRepository: any;
+  let importItemRepository: any;
+  let calendarSyncService: jest.Mocked<CalendarSyncService>;
+  let unitOfWork: { run: jest.Mock };
+  let eventGenerationService: any;
+  let repositories: any;
+
+  const mockImportJob = {
+    id: 'job-1',
+    userId: 'user-1',
+    state: 'applied',
+  } as ImportJob;
+
+  const createdItem: Partial<ImportItem> = {
+    id: 'item-1',
+    importJobId: 'job-1',
+    status: 'created',
+    changes: [
+      { entity: 'subject', id: 'subject-1', action: 'created' },
+      { entity: 'section', id: 'section-1', action: 'created' },
+      { entity: 'event', id: 'event-1', action: 'created' },
+    ],
+  };
+
+  const updatedItem: Partial<ImportItem> = {
+    id: 'item-2',
+    importJobId: 'job-1',
+    status: 'created',
+    changes: [
+      {
+        entity: 'section',
+        id: 'section-2',
+        action: 'updated',
+        previous: { teacher: 'Dr. Smith', room: 'A101', scheduleRules: [] },
+      },
+    ],
+  };
+
+  const linkedEvent = {
+    id: 'event-1',
+    sectionId: 'section-1',
+    eventDate: '2024-01-15',
+    gcalEventId: 'google-1',
+    status: 'planned',
+  };
+
+  beforeEach(async () => {
+    repositories = {
+      subjects: { delete: jest.fn().mockResolvedValue(true), update: jest.fn() },
+      sections: { delete: jest.fn().mockResolvedValue(true), update: jest.fn().mockResolvedValue({ id: 'section-2' }) },
+      localEvents: {
+        delete: jest.fn().mockResolvedValue(true),
+        findById: jest.fn(),
+        findBySectionId: jest.fn().mockResolvedValue([]),
+        findBySubjectId: jest.fn().mockResolvedValue([]),
+      },
+      importJobs: { update: jest.fn() },
+      importItems: { updateStatus: jest.fn() },
+    };
+
+    eventGenerationService = {
+      withRepositories: jest.fn(),
+      regenerateEventsForSection: jest.fn().mockResolvedValue({ generated: 4, events: [] }),
+    };
+    eventGenerationService.withRepositories.mockReturnValue(eventGenerationService);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ImportRollbackService,
+        {
+          provide: IMPORT_JOB_REPOSITORY,
+          useValue: { findById: jest.fn() },
+        },
+        {
+          provide: IMPORT_ITEM_REPOSITORY,
+          useValue: { findByImportJobIdAndStatus: jest.fn() },
+        },
+        {
+          provide: UnitOfWork,
+          useValue: { run: jest.fn(work => work(repositories)) },
+        },
+        {
+          provide: EventGenerationService,
+          useValue: eventGenerationService,
+        },
+        {
+          provide: CalendarSyncService,
+          useValue: { removeDeletedEvents: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ImportRollbackService>(ImportRollbackService);
+    importJobRepository = module.get(IMPORT_JOB_REPOSITORY);
+    importItemRepository = module.get(IMPORT_ITEM_REPOSITORY);
+    calendarSyncService = module.get(CalendarSyncService);
+    unitOfWork = module.get(UnitOfWork);
+
+    importJobRepository.findById.mockResolvedValue(mockImportJob);
+  });
+
+  it('should delete what the job created, newest first', async () => {
+    importItemRepository.findByImportJobIdAndStatus.mockResolvedValue([createdItem]);
+
+    const deletions: string[] = [];
+    repositories.localEvents.delete.mockImplementation(async (id: string) => deletions.push(id));
+    repositories.sections.delete.mockImplementation(async (id: string) => deletions.push(id));
+    repositories.subjects.delete.mockImplementation(async (id: string) => deletions.push(id));
+
+    const result = await service.rollback('job-1', 'user-1');
+
+    expect(importItemRepository.findByImportJobIdAndStatus).toHaveBeenCalledWith('job-1', 'created');
+    expect(deletions).toEqual(['event-1', 'section-1', 'subject-1']);
+    expect(result).toEqual({
+      deleted: { subjects: 1, sections: 1, events: 1 },
+      restored: { subjects: 0, sections: 0 },
+      googleEventsDeleted: 0,
+      googleEventsFailed: 0,
+    });
+    expect(calendarSyncService.removeDeletedEvents).not.toHaveBeenCalled();
+    expect(repositories.importItems.updateStatus).toHaveBeenCalledWith('item-1', 'rolled_back');
+    expect(repositories.importJobs.update).toHaveBeenCalledWith('job-1', { state: 'rolled_back' });
+  });
+
+  it('should restore updated sections and regenerate their classes', async () => {
+    importItemRepository.findByImportJobIdAndStatus.mockResolvedValue([updatedItem]);
+
+    const result = await service.rollback('job-1', 'user-1');
+
+    expect(repositories.sections.update).toHaveBeenCalledWith('section-2', {
+      teacher: 'Dr. Smith',
+      room: 'A101',
+      scheduleRules: [],
+    });
+    expect(eventGenerationService.withRepositories).toHaveBeenCalledWith(repositories.localEvents, repositories.sections);
+    expect(eventGenerationService.regenerateEventsForSection).toHaveBeenCalledWith('user-1', 'section-2');
+    expect(repositories.sections.delete).not.toHaveBeenCalled();
+    expect(result.restored).toEqual({ subjects: 0, sections: 1 });
+  });
+
+  it('should undo rows in the reverse of the order they were applied', async () => {
+    const firstUpdate: Partial<ImportItem> = {
+      ...updatedItem,
+      id: 'item-b',
+      applySequence: 1,
+      changes: [{ entity: 'section', id: 'section-2', action: 'updated', previous: { room: 'A101' } }],
+    };
+    const secondUpdate: Partial<ImportItem> = {
+      ...updatedItem,
+      id: 'item-a',
+      applySequence: 2,
+      changes: [{ entity: 'section', id: 'section-2', action: 'updated', previous: { room: 'B202' } }],
+    };
+    // Listed by their random ids rather than when they were applied
+    importItemRepository.findByImportJobIdAndStatus.mockResolvedValue([secondUpdate, firstUpdate]);
+
+    await service.rollback('job-1', 'user-1');
+
+    expect(repositories.sections.update.mock.calls).toEqual([
+      ['section-2', { room: 'B202' }],
+      ['section-2', { room: 'A101' }],
+    ]);
+  });
+
+  it('should remove synced classes from Google Calendar once the undo commits', async () => {
+    importItemRepository.findByImportJobIdAndStatus.mockResolvedValue([createdItem]);
+    repositories.localEvents.findById.mockResolvedValue(linkedEvent);
+    repositories.localEvents.findBySectionId.mockResolvedValue([linkedEvent]);
+    let committed = false;
+    unitOfWork.run.mockImplementation(async work => {
+      const linked = await work(repositories);
+      committed = true;
+      return linked;
+    });
+    calendarSyncService.removeDeletedEvents.mockImplementation(async () => {
+      expect(committed).toBe(true);
+      return {
+        summary: { created: 0, updated: 0, deleted: 1, skipped: 0, failed: 0 },
+        details: [],
+        conflicts: [],
+        quotaUsed: 1,
+        isDryRun: false,
+      };
+    });
+
+    const result = await service.rollback('job-1', 'user-1');
+
+    expect(calendarSyncService.removeDeletedEvents).toHaveBeenCalledWith('user-1', [linkedEvent]);
+    expect(result.googleEventsDeleted).toBe(1);
+    expect(result.googleEventsFailed).toBe(0);
+  });
+
+  it('should leave synced classes in place when the undo fails', async () => {
+    importItemRepository.findByImportJobIdAndStatus.mockResolvedValue([createdItem]);
+    repositories.localEvents.findById.mockResolvedValue(linkedEvent);
+    repositories.subjects.delete.mockRejectedValue(new Error('violates foreign key constraint'));
+
+    await expect(service.rollback('job-1', 'user-1')).rejects.toThrow('violates foreign key constraint');
+
+    expect(calendarSyncService.removeDeletedEvents).not.toHaveBeenCalled();
+  });
+
+  it('should report synced classes that could not be removed from Google Calendar', async () => {
+    importItemRepository.findByImportJobIdAndStatus.mockResolvedValue([createdItem]);
+    repositories.localEvents.findById.mockResolvedValue(linkedEvent);
+    calendarSyncService.removeDeletedEvents.mockResolvedValue({
+      summary: { created: 0, updated: 0, deleted: 0, skipped: 0, failed: 1 },
+      details: [],
+      conflicts: [],
+      quotaUsed: 1,
+      isDryRun: false,
+    });
+
+    const result = await service.rollback('job-1', 'user-1');
+
+    expect(result.deleted).toEqual({ subjects: 1, sections: 1, events: 1 });
+    expect(result.googleEventsFailed).toBe(1);
+    expect(repositories.importJobs.update).toHaveBeenCalledWith('job-1', { state: 'rolled_back' });
+  });
+
+  it('should reject jobs that have not been applied', async () => {
+    importJobRepository.findById.mockResolvedValue({ ...mockImportJob, state: 'preview' });
+
+    await expect(service.rollback('job-1', 'user-1')).rejects.toThrow(
+      new BadRequestException('Import job cannot be rolled back in the preview state'),
+    );
+  });
+
+  it('should reject jobs of other users', async () => {
+    await expect(service.rollback('job-1', 'user-2')).rejects.toThrow(BadRequestException);
+    expect(importItemRepository.findByImportJobIdAndStatus).not.toHaveBeenCalled();
+  });
+});
@@ -3,14 +3,16 @@ import { BadRequestException } from '@nestjs/common';
 import { ImportController } from '../import.controller';
 import { ImportService } from '../services/import.service';
 import { BatchImportService } from '../services/batch-import.service';
+import { ImportRollbackService } from '../services/import-rollback.service';
 import { ImportPreview, ValidationResult } from '../dto/upload-file.dto';
 
 describe('ImportController', () => {
   let controller: ImportController;
   let importService: jest.Mocked<ImportService>;
   let batchImportService: jest.Mocked<BatchImportService>;
+  let importRollbackService: jest.Mocked<ImportRollbackService>;
 
-  const mockUser = { id: 'user-1', email: 'test@example.com' };
+  const mockUser = { id: 'user-1', email: 'test@example.com', timezone: 'Asia/Bangkok' };
   const mockRequest = { user: mockUser };
 
   const mockImportPreview: ImportPreview = {
@@ -37,6 +39,10 @@ describe('ImportController', () => {
       getImportResult: jest.fn(),
     };
 
+    const mockImportRollbackService = {
+      rollback: jest.fn(),
+    };
+
     const module: TestingModule = await Test.createTestingModule({
       controllers: [ImportController],
       providers: [
@@ -48,12 +54,17 @@ describe('ImportController', () => {
           provide: BatchImportService,
           useValue: mockBatchImportService,
         },
+        {
+          provide: ImportRollbackService,
+          useValue: mockImportRollbackService,
+        },
       ],
     }).compile();
 
     controller = module.get<ImportController>(ImportController);
     importService = module.get(ImportService);
     batchImportService = module.get(BatchImportService);
+    importRollbackService = module.get(ImportRollbackService);
   });
 
   describe('uploadFile', () => {
@@ -76,7 +87,7 @@ describe('ImportController', () => {
       const result = await controller.uploadFile(mockFile, mockRequest);
 
       expect(result).toEqual(mockImportPreview);
-      expect(importService.createImportJob).toHaveBeenCalledWith('user-1', mockFile);
+      expect(importService.createImportJob).toHaveBeenCalledWith('user-1', mockFile, 'Asia/Bangkok');
     });
 
     it('should throw error when no file is uploaded', async () => {
@@ -147,6 +158,35 @@ describe('ImportController', () => {
     });
   });
 
+  describe('applyImport', () => {
+    it('should apply the import in the requested mode', async () => {
+      const mockResult = { jobId: 'job-1', summary: { totalRows: 1, created: 1, updated: 0, skipped: 0, failed: 0 } };
+      batchImportService.processImport.mockResolvedValue(mockResult as any);
+
+      const result = await controller.applyImport('job-1', { mode: 'best-effort' }, mockRequest);
+
+      expect(result).toEqual(mockResult);
+      expect(batchImportService.processImport).toHaveBeenCalledWith('job-1', 'user-1', { mode: 'best-effort' });
+    });
+  });
+
+  describe('rollbackImport', () => {
+    it('should roll the import back', async () => {
+      const mockResult = {
+        deleted: { subjects: 1, sections: 1, events: 12 },
+        restored: { subjects: 0, sections: 0 },
+        googleEventsDeleted: 12,
+        googleEventsFailed: 0,
+      };
+      importRollbackService.rollback.mockResolvedValue(mockResult);
+
+      const result = await controller.rollbackImport('job-1', mockRequest);
+
+      expect(result).toEqual(mockResult);
+      expect(importRollbackService.rollback).toHaveBeenCalledWith('job-1', 'user-1');
+    });
+  });
+
   describe('deleteImportJob', () => {
     it('should delete import job successfully', async () => {
       importService.deleteImportJob.mockResolvedValue(undefined);
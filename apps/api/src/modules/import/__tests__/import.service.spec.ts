@@ -7,6 +7,7 @@ import { ImportItemRepositoryInterface } from '../../../infra/database/repositor
 import { IMPORT_JOB_REPOSITORY, IMPORT_ITEM_REPOSITORY } from '../../../infra/database/repositories/repository.module';
 import { ImportJob } from '../../../infra/database/entities/import-job.entity';
 import { ImportItem } from '../../../infra/database/entities/import-item.entity';
+import { ICS_COLUMN_MAP, SCHEDULE_COLUMN_MAP } from '../services/ics-calendar';
 
 describe('ImportService', () => {
   let service: ImportService;
@@ -40,6 +41,8 @@ describe('ImportService', () => {
     room: null,
     note: null,
     status: 'preview',
+    changes: [],
+    errorMessage: null,
     importJob: null,
   };
 
@@ -70,6 +73,7 @@ describe('ImportService', () => {
     const mockFileParserService = {
       parseCSV: jest.fn(),
       parseXLSX: jest.fn(),
+      parseICS: jest.fn(),
       validateFileType: jest.fn(),
       validateFileSize: jest.fn(),
     };
@@ -160,6 +164,58 @@ describe('ImportService', () => {
       expect(fileParserService.parseXLSX).toHaveBeenCalledWith(xlsxFile.buffer);
       expect(result.jobId).toBe('job-1');
     });
+
+    it('should create calendar jobs with their columns already mapped', async () => {
+      const icsFile = { ...mockFile, originalname: 'timetable.ics', mimetype: 'text/calendar' };
+      const parseResult = {
+        headers: Object.keys(ICS_COLUMN_MAP),
+        rows: [{ Subject: 'Math 101', Section: '01' }],
+        errors: [],
+      };
+
+      fileParserService.validateFileSize.mockReturnValue(undefined);
+      fileParserService.validateFileType.mockReturnValue('ics');
+      fileParserService.parseICS.mockResolvedValue(parseResult);
+      importJobRepository.create.mockResolvedValue({ ...mockImportJob, sourceType: 'ics', columnMap: ICS_COLUMN_MAP });
+      importItemRepository.bulkCreate.mockResolvedValue([mockImportItem]);
+      importJobRepository.update.mockResolvedValue(mockImportJob);
+
+      const result = await service.createImportJob('user-1', icsFile, 'Asia/Bangkok');
+
+      expect(fileParserService.parseICS).toHaveBeenCalledWith(icsFile.buffer, 'Asia/Bangkok');
+      expect(importJobRepository.create).toHaveBeenCalledWith({
+        userId: 'user-1',
+        sourceType: 'ics',
+        state: 'pending',
+        columnMap: ICS_COLUMN_MAP,
+      });
+      expect(result.columnMapping).toEqual(ICS_COLUMN_MAP);
+    });
+
+    it('should map the columns of an exported schedule', async () => {
+      const parseResult = {
+        headers: Object.keys(SCHEDULE_COLUMN_MAP),
+        rows: [{ Subject: 'Math 101', Code: 'MATH101', Section: '01' }],
+        errors: [],
+      };
+
+      fileParserService.validateFileSize.mockReturnValue(undefined);
+      fileParserService.validateFileType.mockReturnValue('csv');
+      fileParserService.parseCSV.mockResolvedValue(parseResult);
+      importJobRepository.create.mockResolvedValue({ ...mockImportJob, columnMap: SCHEDULE_COLUMN_MAP });
+      importItemRepository.bulkCreate.mockResolvedValue([mockImportItem]);
+      importJobRepository.update.mockResolvedValue(mockImportJob);
+
+      const result = await service.createImportJob('user-1', mockFile);
+
+      expect(importJobRepository.create).toHaveBeenCalledWith({
+        userId: 'user-1',
+        sourceType: 'csv',
+        state: 'pending',
+        columnMap: SCHEDULE_COLUMN_MAP,
+      });
+      expect(result.columnMapping).toEqual(SCHEDULE_COLUMN_MAP);
+    });
   });
 
   describe('getImportJob', () => {
@@ -255,7 +311,7 @@ describe('ImportService', () => {
   describe('deleteImportJob', () => {
     it('should delete import job successfully', async () => {
       importJobRepository.findById.mockResolvedValue(mockImportJob);
-      importJobRepository.delete.mockResolvedValue(undefined);
+      importJobRepository.delete.mockResolvedValue(true);
 
       await service.deleteImportJob('job-1', 'user-1');
 
@@ -0,0 +1,9 @@
+import { IsIn, IsOptional } from 'class-validator';
+import { IMPORT_APPLY_MODES, ImportApplyMode } from '../../../infra/database/entities/import-job.entity';
+
+export class ApplyImportDto {
+  // All-or-nothing by default; a resumed job keeps the mode it started with
+  @IsOptional()
+  @IsIn(IMPORT_APPLY_MODES, { message: `Mode must be one of: ${IMPORT_APPLY_MODES.join(', ')}` })
+  mode?: ImportApplyMode;
+}
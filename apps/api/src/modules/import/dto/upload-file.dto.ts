@@ -1,8 +1,9 @@
 import { IsIn, IsOptional } from 'class-validator';
+import { IMPORT_SOURCE_TYPES, ImportSourceType } from '../../../infra/database/entities/import-job.entity';
 
 export class UploadFileDto {
-  @IsIn(['csv', 'xlsx'])
-  fileType: 'csv' | 'xlsx';
+  @IsIn(IMPORT_SOURCE_TYPES)
+  fileType: ImportSourceType;
 }
 
 export interface ParsedRow {
@@ -15,6 +16,8 @@ export interface ImportPreview {
   rows: ParsedRow[];
   totalRows: number;
   errors: ImportError[];
+  // Set for files whose columns are known, such as calendar files
+  columnMapping?: ColumnMapping;
 }
 
 export interface ImportError {
@@ -16,7 +16,9 @@ import { FileInterceptor } from '@nestjs/platform-express';
 import { JwtAuthGuard } from '../auth/guards/auth.guard';
 import { ImportService } from './services/import.service';
 import { BatchImportService, ImportResult } from './services/batch-import.service';
+import { ImportRollbackService, ImportRollbackResult } from './services/import-rollback.service';
 import { ColumnMapping, ImportPreview, ValidationResult } from './dto/upload-file.dto';
+import { ApplyImportDto } from './dto/apply-import.dto';
 
 @Controller('import')
 @UseGuards(JwtAuthGuard)
@@ -24,6 +26,7 @@ export class ImportController {
   constructor(
     private readonly importService: ImportService,
     private readonly batchImportService: BatchImportService,
+    private readonly importRollbackService: ImportRollbackService,
   ) {}
 
   @Post('upload')
@@ -35,12 +38,13 @@ export class ImportController {
       const allowedMimes = [
         'text/csv',
         'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'text/calendar',
       ];
       
       if (allowedMimes.includes(file.mimetype)) {
         callback(null, true);
       } else {
-        callback(new BadRequestException('Only CSV and XLSX files are allowed'), false);
+        callback(new BadRequestException('Only CSV, XLSX and ICS files are allowed'), false);
       }
     },
   }))
@@ -52,7 +56,7 @@ export class ImportController {
       throw new BadRequestException('No file uploaded');
     }
 
-    return this.importService.createImportJob(req.user.id, file);
+    return this.importService.createImportJob(req.user.id, file, req.user.timezone);
   }
 
   @Get('jobs')
@@ -91,9 +95,18 @@ export class ImportController {
   @Post('jobs/:jobId/apply')
   async applyImport(
     @Param('jobId') jobId: string,
+    @Body() body: ApplyImportDto,
     @Request() req: any,
   ): Promise<ImportResult> {
-    return this.batchImportService.processImport(jobId, req.user.id);
+    return this.batchImportService.processImport(jobId, req.user.id, body);
+  }
+
+  @Post('jobs/:jobId/rollback')
+  async rollbackImport(
+    @Param('jobId') jobId: string,
+    @Request() req: any,
+  ): Promise<ImportRollbackResult> {
+    return this.importRollbackService.rollback(jobId, req.user.id);
   }
 
   @Get('jobs/:jobId/result')
@@ -3,13 +3,16 @@ import { ImportController } from './import.controller';
 import { ImportService } from './services/import.service';
 import { FileParserService } from './services/file-parser.service';
 import { BatchImportService } from './services/batch-import.service';
+import { ImportRollbackService } from './services/import-rollback.service';
 import { RepositoryModule } from '../../infra/database/repositories/repository.module';
+import { UnitOfWork } from '../../infra/database/repositories/unit-of-work';
 import { EventsModule } from '../events/events.module';
+import { GoogleCalendarModule } from '../google-calendar/google-calendar.module';
 
 @Module({
-  imports: [RepositoryModule, EventsModule],
+  imports: [RepositoryModule, EventsModule, GoogleCalendarModule],
   controllers: [ImportController],
-  providers: [ImportService, FileParserService, BatchImportService],
-  exports: [ImportService, BatchImportService],
+  providers: [ImportService, FileParserService, BatchImportService, ImportRollbackService, UnitOfWork],
+  exports: [ImportService, BatchImportService, ImportRollbackService],
 })
 export class ImportModule {}
\ No newline at end of file
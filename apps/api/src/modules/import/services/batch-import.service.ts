@@ -1,21 +1,23 @@
-import { Injectable, Inject, BadRequestException } from '@nestjs/common';
+import { Injectable, Inject, BadRequestException, ConflictException } from '@nestjs/common';
+import * as crypto from 'crypto';
 import { ImportJobRepositoryInterface } from '../../../infra/database/repositories/interfaces/import-job-repository.interface';
 import { ImportItemRepositoryInterface } from '../../../infra/database/repositories/interfaces/import-item-repository.interface';
-import { SubjectRepositoryInterface } from '../../../infra/database/repositories/interfaces/subject-repository.interface';
-import { SectionRepositoryInterface } from '../../../infra/database/repositories/interfaces/section-repository.interface';
-import { LocalEventRepositoryInterface } from '../../../infra/database/repositories/interfaces/local-event-repository.interface';
-import { 
-  IMPORT_JOB_REPOSITORY, 
+import { SubjectRepository } from '../../../infra/database/repositories/interfaces/subject-repository.interface';
+import { SectionRepository } from '../../../infra/database/repositories/interfaces/section-repository.interface';
+import {
+  IMPORT_JOB_REPOSITORY,
   IMPORT_ITEM_REPOSITORY,
-  SUBJECT_REPOSITORY,
-  SECTION_REPOSITORY,
-  LOCAL_EVENT_REPOSITORY
 } from '../../../infra/database/repositories/repository.module';
+import { UnitOfWork, TransactionRepositories } from '../../../infra/database/repositories/unit-of-work';
 import { EventGenerationService } from '../../events/event-generation.service';
+import { ClashDetectionService } from '../../events/clash-detection.service';
+import { ClashReport } from '../../events/event-clashes';
 import { ImportJob } from '../../../infra/database/entities/import-job.entity';
-import { ImportItem } from '../../../infra/database/entities/import-item.entity';
+import { ImportItem, ImportItemChange } from '../../../infra/database/entities/import-item.entity';
 import { Subject } from '../../../infra/database/entities/subject.entity';
-import { Section } from '../../../infra/database/entities/section.entity';
+import { Section, ScheduleRule, SectionException } from '../../../infra/database/entities/section.entity';
+import { ApplyImportDto } from '../dto/apply-import.dto';
+import { ICAL_DAYS } from './ics-calendar';
 
 export interface ImportResult {
   summary: {
@@ -27,6 +29,8 @@ export interface ImportResult {
   };
   details: ImportDetail[];
   errors: ImportError[];
+  // Clashes of the imported sections with each other and the user's other classes
+  clashes?: ClashReport[];
 }
 
 export interface ImportDetail {
@@ -34,6 +38,7 @@ export interface ImportDetail {
   action: 'created' | 'updated' | 'skipped' | 'failed';
   subjectName?: string;
   sectionCode?: string;
+  sectionId?: string;
   message?: string;
   eventsCreated?: number;
 }
@@ -44,6 +49,28 @@ export interface ImportError {
   data?: any;
 }
 
+interface ImportRow {
+  item: ImportItem;
+  row: number;
+  data: Record<string, any>;
+}
+
+// A job left applying once its lease ran out was interrupted and is resumed
+// by applying it again
+const APPLICABLE_STATES: ImportJob['state'][] = ['preview', 'applying', 'failed'];
+
+// How long an apply holds its job between renewals
+const APPLY_LEASE_MS = 5 * 60 * 1000;
+
+/**
+ * Thrown inside an all-or-nothing apply to roll it back when rows fail
+ */
+class ImportRowsFailed extends Error {
+  constructor(readonly rows: ImportRow[], readonly reason: unknown) {
+    super('Import rows failed');
+  }
+}
+
 @Injectable()
 export class BatchImportService {
   constructor(
@@ -51,32 +78,50 @@ export class BatchImportService {
     private readonly importJobRepository: ImportJobRepositoryInterface,
     @Inject(IMPORT_ITEM_REPOSITORY)
     private readonly importItemRepository: ImportItemRepositoryInterface,
-    @Inject(SUBJECT_REPOSITORY)
-    private readonly subjectRepository: SubjectRepositoryInterface,
-    @Inject(SECTION_REPOSITORY)
-    private readonly sectionRepository: SectionRepositoryInterface,
-    @Inject(LOCAL_EVENT_REPOSITORY)
-    private readonly localEventRepository: LocalEventRepositoryInterface,
+    private readonly unitOfWork: UnitOfWork,
     private readonly eventGenerationService: EventGenerationService,
+    private readonly clashDetectionService: ClashDetectionService,
   ) {}
 
-  async processImport(jobId: string, userId: string): Promise<ImportResult> {
+  /**
+   * Applies a job's rows. All-or-nothing applies them in one transaction, so
+   * a failing row leaves nothing behind; best-effort applies each row, or
+   * each section of a calendar file, in its own and reports the ones that
+   * fail. A row records what it created or updated in the same transaction,
+   * so applying a job again, after a crash or failed rows, resumes it: rows
+   * already applied are skipped. An apply claims the job with a lease it
+   * renews as it goes, so a second apply of a job being applied is refused.
+   */
+  async processImport(jobId: string, userId: string, options: ApplyImportDto = {}): Promise<ImportResult> {
     const job = await this.importJobRepository.findById(jobId);
-    
+
     if (!job || job.userId !== userId) {
       throw new BadRequestException('Import job not found');
     }
 
-    if (job.state !== 'preview') {
-      throw new BadRequestException('Import job must be in preview state');
+    if (!APPLICABLE_STATES.includes(job.state)) {
+      throw new BadRequestException(`Import job cannot be applied in the ${job.state} state`);
     }
 
     if (!job.columnMap) {
       throw new BadRequestException('Column mapping is required');
     }
 
+    const mode = (job.state === 'applying' && job.applyMode) || options.mode || 'all-or-nothing';
+    const claimed = await this.importJobRepository.claimForApply(jobId, job.state, {
+      applyMode: mode,
+      applyLeaseExpiresAt: this.leaseExpiry(),
+      errorMessage: null,
+    }, new Date());
+
+    if (!claimed) {
+      throw new ConflictException('Import job is already being applied');
+    }
+
     const items = await this.importItemRepository.findByImportJobId(jobId);
-    
+    // Units are numbered on from the rows earlier runs applied
+    const firstSequence = Math.max(0, ...items.map(item => item.applySequence || 0)) + 1;
+
     const result: ImportResult = {
       summary: {
         totalRows: items.length,
@@ -89,109 +134,334 @@ export class BatchImportService {
       errors: [],
     };
 
-    // Process items in batches to avoid overwhelming the database
-    const batchSize = 50;
-    for (let i = 0; i < items.length; i += batchSize) {
-      const batch = items.slice(i, i + batchSize);
-      await this.processBatch(batch, job, result);
+    const rows: ImportRow[] = [];
+    items.forEach((item, index) => {
+      if (item.status === 'created') {
+        result.details.push({ row: index + 1, action: 'skipped', message: 'Applied by an earlier run' });
+        result.summary.skipped++;
+      } else {
+        rows.push({ item, row: index + 1, data: this.mapRowData(item.rawRow, job.columnMap) });
+      }
+    });
+
+    // Rows that say how they repeat describe whole schedules, as calendar
+    // files and exported schedules do, and are applied a section at a time
+    const units = this.isCalendarJob(job) ? this.groupBySection(rows) : rows.map(row => [row]);
+
+    if (mode === 'all-or-nothing') {
+      await this.applyAllOrNothing(units, job, firstSequence, result);
+    } else {
+      await this.applyBestEffort(units, job, firstSequence, result);
     }
 
+    const sectionIds = [...new Set(result.details
+      .filter(detail => detail.action === 'created' && detail.sectionId)
+      .map(detail => detail.sectionId))];
+    result.clashes = sectionIds.length > 0
+      ? await this.clashDetectionService.detectClashes(userId, { sectionIds })
+      : [];
+
     // Update job state
-    await this.importJobRepository.update(jobId, { 
+    await this.importJobRepository.update(jobId, {
       state: result.summary.failed === 0 ? 'applied' : 'failed',
       errorMessage: result.errors.length > 0 ? `${result.errors.length} errors occurred` : null,
+      applyLeaseExpiresAt: null,
     });
 
     return result;
   }
 
-  private async processBatch(
-    items: ImportItem[],
+  private leaseExpiry(): Date {
+    return new Date(Date.now() + APPLY_LEASE_MS);
+  }
+
+  private async renewLease(job: ImportJob): Promise<void> {
+    await this.importJobRepository.update(job.id, { applyLeaseExpiresAt: this.leaseExpiry() });
+  }
+
+  private async applyAllOrNothing(
+    units: ImportRow[][],
     job: ImportJob,
+    firstSequence: number,
     result: ImportResult,
   ): Promise<void> {
-    for (const [index, item] of items.entries()) {
-      try {
-        const detail = await this.processItem(item, job, index + 1);
-        result.details.push(detail);
-        
-        switch (detail.action) {
-          case 'created':
-            result.summary.created++;
-            break;
-          case 'updated':
-            result.summary.updated++;
-            break;
-          case 'skipped':
-            result.summary.skipped++;
-            break;
-          case 'failed':
-            result.summary.failed++;
-            break;
+    const applied: [ImportRow[], Omit<ImportDetail, 'row'>][] = [];
+
+    try {
+      await this.unitOfWork.run(async repositories => {
+        for (const [index, rows] of units.entries()) {
+          await this.renewLease(job);
+          try {
+            applied.push([rows, await this.applyRows(rows, job, firstSequence + index, repositories)]);
+          } catch (error) {
+            throw new ImportRowsFailed(rows, error);
+          }
+        }
+      });
+    } catch (error) {
+      if (!(error instanceof ImportRowsFailed)) {
+        throw error;
+      }
+
+      // The transaction was rolled back, so none of the other rows were kept either
+      for (const rows of units) {
+        if (rows === error.rows) {
+          await this.failRows(rows, error.reason, result);
+        } else {
+          this.addDetails(rows, { action: 'skipped', message: `Not applied because row ${error.rows[0].row} failed` }, result);
         }
+      }
+      return;
+    }
+
+    applied.forEach(([rows, detail]) => this.addDetails(rows, detail, result));
+  }
 
-        // Update item status
-        await this.importItemRepository.updateStatus(item.id, 
-          detail.action === 'failed' ? 'failed' : 'created'
-        );
+  private async applyBestEffort(
+    units: ImportRow[][],
+    job: ImportJob,
+    firstSequence: number,
+    result: ImportResult,
+  ): Promise<void> {
+    for (const [index, rows] of units.entries()) {
+      await this.renewLease(job);
+      try {
+        const detail = await this.unitOfWork.run(repositories =>
+          this.applyRows(rows, job, firstSequence + index, repositories));
+        this.addDetails(rows, detail, result);
       } catch (error) {
-        result.summary.failed++;
-        result.errors.push({
-          row: index + 1,
-          message: error.message,
-          data: item.rawRow,
-        });
-        
-        await this.importItemRepository.updateStatus(item.id, 'failed');
+        await this.failRows(rows, error, result);
       }
     }
   }
 
-  private async processItem(
-    item: ImportItem,
+  /**
+   * Applies a row, or the rows of a calendar file's section, and records on
+   * them what was created or updated, and in which order. Throws when they
+   * cannot be applied.
+   */
+  private async applyRows(
+    rows: ImportRow[],
     job: ImportJob,
-    rowNumber: number,
-  ): Promise<ImportDetail> {
-    const mappedData = this.mapRowData(item.rawRow, job.columnMap);
-    
-    // Validate required fields
-    const requiredFields = ['subjectName', 'sectionCode', 'startTime', 'endTime', 'daysOfWeek'];
-    for (const field of requiredFields) {
-      if (!mappedData[field]) {
-        return {
-          row: rowNumber,
-          action: 'failed',
-          message: `Missing required field: ${field}`,
-        };
+    sequence: number,
+    repositories: TransactionRepositories,
+  ): Promise<Omit<ImportDetail, 'row'>> {
+    const { data } = rows[0];
+    const changes: ImportItemChange[] = [];
+    const eventGenerationService = this.eventGenerationService.withRepositories(
+      repositories.localEvents,
+      repositories.sections,
+    );
+
+    if (!this.isCalendarJob(job)) {
+      // Validate required fields
+      const requiredFields = ['subjectName', 'sectionCode', 'startTime', 'endTime', 'daysOfWeek'];
+      const missing = requiredFields.find(field => !data[field]);
+      if (missing) {
+        throw new Error(`Missing required field: ${missing}`);
       }
     }
 
-    try {
-      // Find or create subject
-      const subject = await this.findOrCreateSubject(mappedData, job.userId);
-      
-      // Find or create section
-      const section = await this.findOrCreateSection(mappedData, subject.id);
-      
-      // Generate events for this section
-      const eventsCreated = await this.generateEventsForSection(section, mappedData);
-      
-      return {
-        row: rowNumber,
-        action: 'created',
-        subjectName: subject.name,
-        sectionCode: section.secCode,
-        eventsCreated,
-      };
-    } catch (error) {
-      return {
-        row: rowNumber,
-        action: 'failed',
-        message: error.message,
-        subjectName: mappedData.subjectName,
-        sectionCode: mappedData.sectionCode,
-      };
+    let section: Section;
+    let eventsCreated: number;
+    const subject = await this.findOrCreateSubject(data, job.userId, repositories.subjects, changes);
+
+    if (this.isCalendarJob(job)) {
+      ({ section, eventsCreated } = await this.saveCalendarSection(
+        rows.map(row => row.data),
+        subject.id,
+        job.userId,
+        repositories.sections,
+        eventGenerationService,
+        changes,
+      ));
+    } else {
+      section = await this.findOrCreateSection(data, subject.id, repositories.sections, changes);
+
+      const generation = await eventGenerationService.generateEventsForSection(job.userId, section.id, {
+        ...(data.startDate && { startDate: String(data.startDate) }),
+        ...(data.endDate && { endDate: String(data.endDate) }),
+      });
+      changes.push(...generation.events.map(event => ({ entity: 'event' as const, id: event.id, action: 'created' as const })));
+      eventsCreated = generation.generated;
+    }
+
+    for (const [index, { item }] of rows.entries()) {
+      await repositories.importItems.update(item.id, {
+        status: 'created',
+        subjectId: subject.id,
+        sectionId: section.id,
+        // A section's records are kept once, on its first row
+        changes: index === 0 ? changes : [],
+        applySequence: sequence,
+        errorMessage: null,
+      });
+    }
+
+    return {
+      action: 'created',
+      subjectName: subject.name,
+      sectionCode: section.secCode,
+      sectionId: section.id,
+      eventsCreated,
+    };
+  }
+
+  private async failRows(rows: ImportRow[], error: unknown, result: ImportResult): Promise<void> {
+    const message = error instanceof Error ? error.message : String(error);
+
+    this.addDetails(rows, {
+      action: 'failed',
+      message,
+      subjectName: rows[0].data.subjectName,
+      sectionCode: rows[0].data.sectionCode,
+    }, result);
+
+    for (const { item } of rows) {
+      await this.importItemRepository.update(item.id, { status: 'failed', errorMessage: message });
+    }
+  }
+
+  private addDetails(rows: ImportRow[], detail: Omit<ImportDetail, 'row'>, result: ImportResult): void {
+    for (const [index, { item, row }] of rows.entries()) {
+      // A section's events are counted once, on its first row
+      result.details.push({ row, ...detail, eventsCreated: index === 0 ? detail.eventsCreated : undefined });
+      result.summary[detail.action]++;
+
+      if (detail.action === 'failed') {
+        result.errors.push({ row, message: detail.message, data: item.rawRow });
+      }
+    }
+  }
+
+  private isCalendarJob(job: ImportJob): boolean {
+    return Object.values(job.columnMap).includes('repeats');
+  }
+
+  /**
+   * Groups the rows of a calendar file or exported schedule by section. The
+   * rows of a subject's section are collapsed into that one section: its
+   * schedule rules are replaced by the rows that repeat, and the rows that
+   * happen once are added as extra sessions.
+   */
+  private groupBySection(rows: ImportRow[]): ImportRow[][] {
+    const sections = new Map<string, ImportRow[]>();
+
+    for (const row of rows) {
+      const key = `${row.data.subjectName}\u0000${row.data.sectionCode}`;
+      sections.set(key, [...(sections.get(key) || []), row]);
+    }
+
+    return [...sections.values()];
+  }
+
+  /**
+   * Creates or updates a section from its calendar rows and generates its
+   * events, returning how many were created. An updated section records its
+   * old fields rather than its events, which a rollback regenerates.
+   */
+  private async saveCalendarSection(
+    rows: Record<string, any>[],
+    subjectId: string,
+    userId: string,
+    sectionRepository: SectionRepository,
+    eventGenerationService: EventGenerationService,
+    changes: ImportItemChange[],
+  ): Promise<{ section: Section; eventsCreated: number }> {
+    const { scheduleRules, extras } = this.buildCalendarSchedule(rows);
+    const sectionCode = String(rows[0].sectionCode).trim();
+    const room = rows[0].room || null;
+    const teacher = rows[0].teacher || null;
+    const existing = await sectionRepository.findBySubjectIdAndSecCode(subjectId, sectionCode);
+
+    if (!existing) {
+      const section = await sectionRepository.create({
+        subjectId,
+        secCode: sectionCode,
+        teacher,
+        room,
+        scheduleRules,
+        exceptions: extras,
+      });
+      changes.push({ entity: 'section', id: section.id, action: 'created' });
+
+      const generation = await eventGenerationService.generateEventsForSection(userId, section.id);
+      changes.push(...generation.events.map(event => ({ entity: 'event' as const, id: event.id, action: 'created' as const })));
+      return { section, eventsCreated: generation.generated };
+    }
+
+    // Importing the same calendar again does not add its extra sessions twice
+    const exceptions = existing.exceptions || [];
+    const added = extras.filter(extra => !exceptions.some(exception =>
+      exception.type === 'extra' && exception.date === extra.date && exception.startTime === extra.startTime
+    ));
+
+    const section = await sectionRepository.update(existing.id, {
+      teacher: teacher || existing.teacher,
+      room: room || existing.room,
+      scheduleRules,
+      exceptions: [...exceptions, ...added],
+    });
+    changes.push({
+      entity: 'section',
+      id: existing.id,
+      action: 'updated',
+      previous: {
+        teacher: existing.teacher,
+        room: existing.room,
+        scheduleRules: existing.scheduleRules,
+        exceptions: existing.exceptions,
+      },
+    });
+
+    const regeneration = await eventGenerationService.regenerateEventsForSection(userId, existing.id);
+    return { section, eventsCreated: regeneration.generated };
+  }
+
+  private buildCalendarSchedule(
+    rows: Record<string, any>[],
+  ): { scheduleRules: ScheduleRule[]; extras: SectionException[] } {
+    const scheduleRules: ScheduleRule[] = [];
+    const extras: SectionException[] = [];
+    const requiredFields = ['subjectName', 'sectionCode', 'startTime', 'endTime', 'daysOfWeek', 'startDate', 'endDate'];
+
+    for (const data of rows) {
+      const missing = requiredFields.find(field => !data[field]);
+      if (missing) {
+        throw new Error(`Missing required field: ${missing}`);
+      }
+
+      const startTime = this.normalizeTime(data.startTime);
+      const endTime = this.normalizeTime(data.endTime);
+
+      if (data.repeats === 'once') {
+        extras.push({
+          id: crypto.randomUUID(),
+          type: 'extra',
+          date: String(data.startDate),
+          startTime,
+          endTime,
+          // A session away from the section's room keeps its own
+          ...(data.room && data.room !== rows[0].room && { room: String(data.room) }),
+        });
+        continue;
+      }
+
+      for (const day of this.normalizeDaysOfWeek(data.daysOfWeek)) {
+        scheduleRules.push({
+          dayOfWeek: ICAL_DAYS.indexOf(day),
+          startTime,
+          endTime,
+          startDate: String(data.startDate),
+          endDate: String(data.endDate),
+          skipDates: data.skipDates ? String(data.skipDates).split(',').map(date => date.trim()) : [],
+          ...(data.interval && { interval: Number(data.interval) }),
+          ...(data.setPos && { setPos: Number(data.setPos) }),
+        });
+      }
     }
+
+    return { scheduleRules, extras };
   }
 
   private mapRowData(rawRow: Record<string, any>, columnMap: Record<string, string>): Record<string, any> {
@@ -206,21 +476,27 @@ export class BatchImportService {
     return mappedData;
   }
 
-  private async findOrCreateSubject(data: Record<string, any>, userId: string): Promise<Subject> {
+  private async findOrCreateSubject(
+    data: Record<string, any>,
+    userId: string,
+    subjectRepository: SubjectRepository,
+    changes: ImportItemChange[],
+  ): Promise<Subject> {
     const subjectName = String(data.subjectName).trim();
     const subjectCode = data.subjectCode ? String(data.subjectCode).trim() : null;
-    
+
     // Try to find existing subject by name and code
-    let subject = await this.subjectRepository.findByUserIdAndName(userId, subjectName);
-    
+    let subject = await subjectRepository.findByUserIdAndName(userId, subjectName);
+
     if (subject) {
       // Update subject code if provided and different
       if (subjectCode && subject.code !== subjectCode) {
-        subject = await this.subjectRepository.update(subject.id, { code: subjectCode });
+        changes.push({ entity: 'subject', id: subject.id, action: 'updated', previous: { code: subject.code } });
+        subject = await subjectRepository.update(subject.id, { code: subjectCode });
       }
       return subject;
     }
-    
+
     // Create new subject
     const subjectData = {
       userId,
@@ -232,16 +508,23 @@ export class BatchImportService {
         importedAt: new Date().toISOString(),
       },
     };
-    
-    return this.subjectRepository.create(subjectData);
+
+    subject = await subjectRepository.create(subjectData);
+    changes.push({ entity: 'subject', id: subject.id, action: 'created' });
+    return subject;
   }
 
-  private async findOrCreateSection(data: Record<string, any>, subjectId: string): Promise<Section> {
+  private async findOrCreateSection(
+    data: Record<string, any>,
+    subjectId: string,
+    sectionRepository: SectionRepository,
+    changes: ImportItemChange[],
+  ): Promise<Section> {
     const sectionCode = String(data.sectionCode).trim();
-    
+
     // Try to find existing section
-    let section = await this.sectionRepository.findBySubjectIdAndSecCode(subjectId, sectionCode);
-    
+    let section = await sectionRepository.findBySubjectIdAndSecCode(subjectId, sectionCode);
+
     if (section) {
       // Update section if data has changed
       const updatedScheduleRules = this.buildScheduleRules(data);
@@ -250,17 +533,23 @@ export class BatchImportService {
         room: data.room || section.room,
         scheduleRules: updatedScheduleRules,
       };
-      
+
       // Check if update is needed
       if (JSON.stringify(section.scheduleRules) !== JSON.stringify(updatedScheduleRules) ||
           section.teacher !== updatedData.teacher ||
           section.room !== updatedData.room) {
-        section = await this.sectionRepository.update(section.id, updatedData);
+        changes.push({
+          entity: 'section',
+          id: section.id,
+          action: 'updated',
+          previous: { teacher: section.teacher, room: section.room, scheduleRules: section.scheduleRules },
+        });
+        section = await sectionRepository.update(section.id, updatedData);
       }
-      
+
       return section;
     }
-    
+
     // Create new section
     const sectionData = {
       subjectId,
@@ -269,8 +558,10 @@ export class BatchImportService {
       room: data.room || null,
       scheduleRules: this.buildScheduleRules(data),
     };
-    
-    return this.sectionRepository.create(sectionData);
+
+    section = await sectionRepository.create(sectionData);
+    changes.push({ entity: 'section', id: section.id, action: 'created' });
+    return section;
   }
 
   private buildScheduleRules(data: Record<string, any>): any {
@@ -351,24 +642,6 @@ export class BatchImportService {
     return [...new Set(normalizedDays)]; // Remove duplicates
   }
 
-  private async generateEventsForSection(section: Section, data: Record<string, any>): Promise<number> {
-    const scheduleRules = section.scheduleRules;
-    
-    // Determine date range
-    const startDate = data.startDate ? new Date(data.startDate) : new Date();
-    const endDate = data.endDate ? new Date(data.endDate) : new Date(Date.now() + 120 * 24 * 60 * 60 * 1000); // 4 months from now
-    
-    // Generate events using the event generation service
-    const events = await this.eventGenerationService.generateEventsForSection(
-      section.id,
-      startDate,
-      endDate,
-      scheduleRules.skipDates || []
-    );
-    
-    return events.length;
-  }
-
   private generateRandomColor(): string {
     const colors = [
       '#3B82F6', '#EF4444', '#10B981', '#F59E0B', '#8B5CF6',
@@ -412,7 +685,8 @@ export class BatchImportService {
                 item.status === 'failed' ? 'failed' : 'skipped',
         subjectName: mappedData.subjectName,
         sectionCode: mappedData.sectionCode,
-        message: item.status === 'failed' ? 'Processing failed' : undefined,
+        sectionId: item.sectionId,
+        message: item.status === 'failed' ? item.errorMessage || 'Processing failed' : undefined,
       });
     });
 
@@ -3,6 +3,8 @@ import csv from 'csv-parser';
 import * as XLSX from 'xlsx';
 import { Readable } from 'stream';
 import { ParsedRow, ImportError } from '../dto/upload-file.dto';
+import { ImportSourceType } from '../../../infra/database/entities/import-job.entity';
+import { ICS_COLUMN_MAP, parseICalendar, toImportRows } from './ics-calendar';
 
 @Injectable()
 export class FileParserService {
@@ -133,7 +135,30 @@ export class FileParserService {
     }
   }
 
-  validateFileType(filename: string, mimeType: string): 'csv' | 'xlsx' {
+  /**
+   * Reads the classes of an iCalendar file as rows with the columns of
+   * ICS_COLUMN_MAP, with times in the given timezone
+   */
+  async parseICS(buffer: Buffer, timezone: string): Promise<{ headers: string[]; rows: ParsedRow[]; errors: ImportError[] }> {
+    if (!buffer || buffer.length === 0) {
+      throw new BadRequestException('Calendar file is empty');
+    }
+
+    const calendar = parseICalendar(buffer.toString('utf8'), timezone);
+    if (calendar.events.length === 0 && calendar.errors.length > 0) {
+      throw new BadRequestException(calendar.errors[0].message);
+    }
+
+    const { rows, errors } = toImportRows(calendar.events);
+
+    return {
+      headers: Object.keys(ICS_COLUMN_MAP),
+      rows,
+      errors: [...calendar.errors, ...errors],
+    };
+  }
+
+  validateFileType(filename: string, mimeType: string): ImportSourceType {
     const extension = filename.toLowerCase().split('.').pop();
     
     if (extension === 'csv' || mimeType === 'text/csv') {
@@ -144,8 +169,12 @@ export class FileParserService {
         mimeType === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet') {
       return 'xlsx';
     }
+
+    if (extension === 'ics' || mimeType === 'text/calendar') {
+      return 'ics';
+    }
     
-    throw new BadRequestException('Unsupported file type. Only CSV and XLSX files are allowed.');
+    throw new BadRequestException('Unsupported file type. Only CSV, XLSX and ICS files are allowed.');
   }
 
   validateFileSize(size: number, maxSizeMB: number = 10): void {
@@ -0,0 +1,526 @@
+/**
+ * Reading iCalendar (.ics) timetables into import rows.
+ *
+ * Each VEVENT is read in the user's timezone. A recurring VEVENT (RRULE)
+ * becomes one row per weekday it repeats on, which the apply step collapses
+ * with the other rows of its subject and room into one section's schedule
+ * rules. EXDATEs become skip dates. One-off VEVENTs, RDATEs and changed
+ * occurrences (RECURRENCE-ID) become rows that repeat "once" and are applied
+ * as extra sessions of their section.
+ *
+ * Rows carry fixed column names, and ICS_COLUMN_MAP maps them to import
+ * fields, so a calendar file needs no column mapping.
+ */
+import { ImportError, ParsedRow } from '../dto/upload-file.dto';
+import { SET_POSITIONS, daysBetween, expandScheduleRule, getWeekStart, shiftDate } from '../../../common/utils/schedule-recurrence';
+import { isValidTimeZone, toZonedDateTime, zonedTimeToUtc } from '../../../common/utils/timezone';
+
+// Day codes of RRULE BYDAY, indexed by dayOfWeek (0=Sunday)
+export const ICAL_DAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+export const ICS_COLUMN_MAP: Record<string, string> = {
+  'Subject': 'subjectName',
+  'Section': 'sectionCode',
+  'Repeats': 'repeats',
+  'Days': 'daysOfWeek',
+  'Start Time': 'startTime',
+  'End Time': 'endTime',
+  'Start Date': 'startDate',
+  'End Date': 'endDate',
+  'Interval': 'interval',
+  'Week of Month': 'setPos',
+  'Skip Dates': 'skipDates',
+  'Room': 'room',
+};
+
+// Columns of an exported schedule: the calendar columns with the subject code
+// and teacher. A CSV or XLSX file with all of them needs no column mapping.
+export const SCHEDULE_COLUMN_MAP: Record<string, string> = {
+  'Subject': 'subjectName',
+  'Code': 'subjectCode',
+  'Section': 'sectionCode',
+  'Teacher': 'teacher',
+  ...ICS_COLUMN_MAP,
+};
+
+// How long a series without UNTIL or COUNT runs, like a CSV row without an end date
+const DEFAULT_SERIES_DAYS = 120;
+
+/**
+ * A date, and a HH:mm time unless all-day, as read in the user's timezone
+ */
+export interface ICalDateTime {
+  date: string;
+  time?: string;
+  // Days the date moved when a UTC or TZID time was converted to the user's
+  // timezone; unset for floating times and dates
+  shift?: number;
+}
+
+export interface ICalEvent {
+  // Line of the event's BEGIN:VEVENT, used as the row of its errors
+  line: number;
+  uid?: string;
+  summary?: string;
+  location?: string;
+  start?: ICalDateTime;
+  end?: ICalDateTime;
+  // Length in minutes, from DURATION when there is no DTEND
+  duration?: number;
+  rrule?: Record<string, string>;
+  // The RRULE's UNTIL
+  until?: ICalDateTime;
+  exdates: ICalDateTime[];
+  rdates: ICalDateTime[];
+  recurrenceId?: ICalDateTime;
+  cancelled: boolean;
+}
+
+interface ICalProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/**
+ * Reads the VEVENTs of a calendar, with their dates in the given timezone
+ */
+export function parseICalendar(text: string, timezone: string): { events: ICalEvent[]; errors: ImportError[] } {
+  const events: ICalEvent[] = [];
+  const errors: ImportError[] = [];
+  const lines = unfoldLines(text);
+  let event: ICalEvent | null = null;
+
+  if (!lines.some(({ content }) => content.toUpperCase() === 'BEGIN:VCALENDAR')) {
+    errors.push({ row: 0, message: 'File is not an iCalendar file (no BEGIN:VCALENDAR)' });
+    return { events, errors };
+  }
+
+  for (const { line, content } of lines) {
+    const property = parseProperty(content);
+    if (!property) {
+      continue;
+    }
+
+    if (property.name === 'BEGIN' && property.value.toUpperCase() === 'VEVENT') {
+      event = { line, exdates: [], rdates: [], cancelled: false };
+      continue;
+    }
+
+    if (!event) {
+      continue;
+    }
+
+    if (property.name === 'END' && property.value.toUpperCase() === 'VEVENT') {
+      events.push(event);
+      event = null;
+      continue;
+    }
+
+    try {
+      readProperty(event, property, timezone);
+    } catch (error) {
+      errors.push({ row: line, column: property.name, message: (error as Error).message, value: property.value });
+    }
+  }
+
+  return { events, errors };
+}
+
+/**
+ * Turns calendar events into import rows: recurring events are split into
+ * one row per weekday, and one-off events, RDATEs and changed occurrences
+ * into rows that repeat once
+ */
+export function toImportRows(events: ICalEvent[]): { rows: ParsedRow[]; errors: ImportError[] } {
+  const rows: ParsedRow[] = [];
+  const errors: ImportError[] = [];
+  const sectionCodes = new Map<string, string[]>();
+
+  // A changed occurrence replaces the class of its series on that date
+  const series = events.filter(event => event.rrule && !event.recurrenceId);
+  for (const override of events.filter(event => event.recurrenceId)) {
+    const master = series.find(event => event.uid && event.uid === override.uid);
+    if (master) {
+      master.exdates.push(override.recurrenceId);
+      override.summary = override.summary || master.summary;
+      override.location = override.location || master.location;
+    }
+  }
+
+  for (const event of events) {
+    if (event.cancelled) {
+      continue;
+    }
+
+    try {
+      const { start, endTime } = readSlot(event);
+      const subject = event.summary.trim();
+      const room = event.location?.trim() || null;
+      const common = {
+        'Subject': subject,
+        'Section': sectionCode(sectionCodes, subject, room),
+        'Room': room,
+      };
+
+      if (!event.rrule || event.recurrenceId) {
+        rows.push(toSingleRow(common, start, endTime));
+        continue;
+      }
+
+      rows.push(...toSeriesRows(common, event, start, endTime));
+
+      for (const rdate of event.rdates) {
+        const rdateStart = rdate.time || start.time;
+        rows.push(toSingleRow(
+          common,
+          { date: rdate.date, time: rdateStart },
+          addMinutes(rdateStart, minutesBetween(start.time, endTime)),
+        ));
+      }
+    } catch (error) {
+      errors.push({ row: event.line, message: `${event.summary || 'Untitled event'}: ${(error as Error).message}` });
+    }
+  }
+
+  return { rows, errors };
+}
+
+function unfoldLines(text: string): { line: number; content: string }[] {
+  const lines: { line: number; content: string }[] = [];
+
+  text.split(/\r?\n/).forEach((content, index) => {
+    // Lines that start with a space or tab continue the previous line
+    if (/^[ \t]/.test(content) && lines.length > 0) {
+      lines[lines.length - 1].content += content.substring(1);
+    } else if (content.trim() !== '') {
+      lines.push({ line: index + 1, content });
+    }
+  });
+
+  return lines;
+}
+
+function parseProperty(content: string): ICalProperty | null {
+  // The value starts after the first colon outside a quoted parameter
+  let quoted = false;
+  let colon = -1;
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === '"') {
+      quoted = !quoted;
+    } else if (content[i] === ':' && !quoted) {
+      colon = i;
+      break;
+    }
+  }
+
+  if (colon < 0) {
+    return null;
+  }
+
+  const [name, ...paramParts] = content.substring(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const [key, ...value] = part.split('=');
+    params[key.toUpperCase()] = value.join('=').replace(/^"|"$/g, '');
+  }
+
+  return { name: name.toUpperCase(), params, value: content.substring(colon + 1) };
+}
+
+function readProperty(event: ICalEvent, property: ICalProperty, timezone: string): void {
+  switch (property.name) {
+    case 'UID':
+      event.uid = property.value;
+      break;
+    case 'SUMMARY':
+      event.summary = unescapeText(property.value);
+      break;
+    case 'LOCATION':
+      event.location = unescapeText(property.value);
+      break;
+    case 'STATUS':
+      event.cancelled = property.value.toUpperCase() === 'CANCELLED';
+      break;
+    case 'DTSTART':
+      event.start = readDateTime(property.value, property.params, timezone);
+      break;
+    case 'DTEND':
+      event.end = readDateTime(property.value, property.params, timezone);
+      break;
+    case 'DURATION':
+      event.duration = readDuration(property.value);
+      break;
+    case 'RRULE':
+      event.rrule = Object.fromEntries(property.value.split(';').map(part => {
+        const [key, value] = part.split('=');
+        return [key.toUpperCase(), value];
+      }));
+      if (event.rrule.UNTIL) {
+        event.until = readDateTime(event.rrule.UNTIL, {}, timezone);
+      }
+      break;
+    case 'EXDATE':
+      event.exdates.push(...readDateList(property, timezone));
+      break;
+    case 'RDATE':
+      event.rdates.push(...readDateList(property, timezone));
+      break;
+    case 'RECURRENCE-ID':
+      event.recurrenceId = readDateTime(property.value, property.params, timezone);
+      break;
+  }
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([nN,;\\])/g, (_, char: string) => (char.toLowerCase() === 'n' ? '\n' : char));
+}
+
+/**
+ * Reads a DATE or DATE-TIME value. UTC times and times with a known TZID are
+ * converted to the user's timezone; floating times are taken as they are.
+ */
+function readDateTime(value: string, params: Record<string, string>, timezone: string): ICalDateTime {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) {
+    throw new Error(`Invalid date: ${value}`);
+  }
+
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  const date = `${year}-${month}-${day}`;
+  if (hours === undefined) {
+    return { date };
+  }
+
+  const time = `${hours}:${minutes}:${seconds}`;
+  const tzid = params.TZID?.replace(/^\//, '');
+  let instant: Date;
+  if (utc) {
+    instant = new Date(`${date}T${time}Z`);
+  } else if (tzid && isValidTimeZone(tzid)) {
+    instant = zonedTimeToUtc(date, time, tzid);
+  } else {
+    return { date, time: `${hours}:${minutes}` };
+  }
+
+  const zoned = toZonedDateTime(instant, timezone);
+  return { date: zoned.date, time: zoned.time.substring(0, 5), shift: daysBetween(date, zoned.date) };
+}
+
+function readDateList(property: ICalProperty, timezone: string): ICalDateTime[] {
+  // A PERIOD value is read as its start
+  return property.value.split(',').map(value => readDateTime(value.split('/')[0], property.params, timezone));
+}
+
+function readDuration(value: string): number {
+  const match = value.match(/^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) {
+    throw new Error(`Invalid duration: ${value}`);
+  }
+
+  const [weeks, days, hours, minutes] = match.slice(1, 5).map(part => Number(part || 0));
+  return ((weeks * 7 + days) * 24 + hours) * 60 + minutes;
+}
+
+/**
+ * Start and end of an event's class, which must be timed and end on the day
+ * it starts
+ */
+function readSlot(event: ICalEvent): { start: ICalDateTime; endTime: string } {
+  if (!event.summary?.trim()) {
+    throw new Error('Event has no SUMMARY');
+  }
+  if (!event.start) {
+    throw new Error('Event has no DTSTART');
+  }
+  if (!event.start.time) {
+    throw new Error('All-day events are not classes');
+  }
+
+  let endTime: string;
+  if (event.end) {
+    if (event.end.date !== event.start.date) {
+      throw new Error('Events that end on another day are not supported');
+    }
+    endTime = event.end.time;
+  } else if (event.duration !== undefined) {
+    if (minutesOf(event.start.time) + event.duration > 24 * 60) {
+      throw new Error('Events that end on another day are not supported');
+    }
+    endTime = addMinutes(event.start.time, event.duration);
+  } else {
+    throw new Error('Event has no DTEND or DURATION');
+  }
+
+  if (!endTime || endTime <= event.start.time) {
+    throw new Error('Event must end after it starts');
+  }
+
+  return { start: event.start, endTime };
+}
+
+/**
+ * Numbers the sections of a subject in the order their rooms first appear
+ */
+function sectionCode(sectionCodes: Map<string, string[]>, subject: string, room: string | null): string {
+  const rooms = sectionCodes.get(subject) || [];
+  let index = rooms.indexOf(room || '');
+  if (index < 0) {
+    index = rooms.push(room || '') - 1;
+    sectionCodes.set(subject, rooms);
+  }
+  return String(index + 1).padStart(2, '0');
+}
+
+function toSingleRow(common: ParsedRow, start: ICalDateTime, endTime: string): ParsedRow {
+  return {
+    ...common,
+    'Repeats': 'once',
+    'Days': ICAL_DAYS[weekdayOf(start.date)],
+    'Start Time': start.time,
+    'End Time': endTime,
+    'Start Date': start.date,
+    'End Date': start.date,
+    'Interval': null,
+    'Week of Month': null,
+    'Skip Dates': null,
+  };
+}
+
+/**
+ * Splits a series into one row per weekday. BYDAY and a date-only UNTIL are
+ * in DTSTART's own timezone, so they move by as many days as DTSTART did.
+ */
+function toSeriesRows(common: ParsedRow, event: ICalEvent, start: ICalDateTime, endTime: string): ParsedRow[] {
+  const rrule = event.rrule;
+  const interval = Number(rrule.INTERVAL || 1);
+  const shift = start.shift || 0;
+  // DTSTART's date before it was converted to the user's timezone
+  const dtstart = shiftDate(start.date, -shift);
+  const byDay = rrule.BYDAY ? rrule.BYDAY.split(',') : [ICAL_DAYS[weekdayOf(dtstart)]];
+  let rules: { dayOfWeek: number; startDate: string; setPos?: number }[];
+
+  if (!Number.isInteger(interval) || interval < 1) {
+    throw new Error(`Invalid INTERVAL: ${rrule.INTERVAL}`);
+  }
+
+  if (rrule.FREQ === 'WEEKLY') {
+    rules = byDay.map(code => {
+      const dayOfWeek = readDay(code);
+      return {
+        dayOfWeek: (dayOfWeek + shift + 7) % 7,
+        startDate: shiftDate(firstWeeklyDate(dtstart, dayOfWeek, interval), shift),
+      };
+    });
+  } else if (rrule.FREQ === 'MONTHLY' && rrule.BYDAY) {
+    if (shift !== 0) {
+      // The Nth weekday there is not always the Nth of the next or previous weekday here
+      throw new Error('Monthly recurrences that fall on another day in your timezone are not supported');
+    }
+    rules = byDay.map(code => {
+      const match = code.match(/^([+-]?\d)?([A-Z]{2})$/);
+      const setPos = Number(match?.[1] || rrule.BYSETPOS);
+      if (!match || !SET_POSITIONS.includes(setPos)) {
+        throw new Error(`Unsupported monthly recurrence: ${code}`);
+      }
+      return { dayOfWeek: readDay(match[2]), startDate: start.date, setPos };
+    });
+  } else {
+    throw new Error(`Unsupported recurrence: FREQ=${rrule.FREQ}${rrule.BYMONTHDAY ? ';BYMONTHDAY' : ''}`);
+  }
+
+  const endDate = seriesEndDate(event, rules, interval, start);
+
+  return rules.map(rule => {
+    const skipDates = event.exdates
+      .map(exdate => exdate.date)
+      .filter(date => expandScheduleRule({ ...rule, endDate, interval }, date, date).length > 0)
+      .sort();
+
+    return {
+      ...common,
+      'Repeats': rule.setPos ? 'monthly' : 'weekly',
+      'Days': ICAL_DAYS[rule.dayOfWeek],
+      'Start Time': start.time,
+      'End Time': endTime,
+      'Start Date': rule.startDate,
+      'End Date': endDate,
+      'Interval': interval > 1 ? interval : null,
+      'Week of Month': rule.setPos || null,
+      'Skip Dates': skipDates.length > 0 ? skipDates.join(',') : null,
+    };
+  });
+}
+
+function readDay(code: string): number {
+  const dayOfWeek = ICAL_DAYS.indexOf(code.replace(/^[+-]?\d+/, '').toUpperCase());
+  if (dayOfWeek < 0) {
+    throw new Error(`Invalid day: ${code}`);
+  }
+  return dayOfWeek;
+}
+
+/**
+ * First class on a weekday of a series every `interval` weeks from dtstart,
+ * where weeks start on Monday as in the RRULE default
+ */
+function firstWeeklyDate(dtstart: string, dayOfWeek: number, interval: number): string {
+  const date = shiftDate(getWeekStart(dtstart), (dayOfWeek + 6) % 7);
+  return date < dtstart ? shiftDate(date, 7 * interval) : date;
+}
+
+/**
+ * Last date of a series: its UNTIL, the date of its COUNT-th class, or a
+ * term's length after it starts
+ */
+function seriesEndDate(
+  event: ICalEvent,
+  rules: { dayOfWeek: number; startDate: string; setPos?: number }[],
+  interval: number,
+  start: ICalDateTime,
+): string {
+  const dtstart = start.date;
+  const { until } = event;
+
+  if (until) {
+    if (until.shift === undefined && start.shift !== undefined) {
+      // Given in DTSTART's own timezone
+      return shiftDate(until.date, start.shift);
+    }
+    // The last class is the last one that starts by UNTIL
+    return until.time && until.time < start.time ? shiftDate(until.date, -1) : until.date;
+  }
+
+  if (event.rrule.COUNT) {
+    const count = Number(event.rrule.COUNT);
+    if (!Number.isInteger(count) || count < 1) {
+      throw new Error(`Invalid COUNT: ${event.rrule.COUNT}`);
+    }
+
+    const horizon = shiftDate(dtstart, count * interval * (rules[0].setPos ? 31 : 7));
+    const dates = rules
+      .flatMap(rule => expandScheduleRule({ ...rule, endDate: horizon, interval }))
+      .sort();
+    return dates[Math.min(count, dates.length) - 1];
+  }
+
+  return shiftDate(dtstart, DEFAULT_SERIES_DAYS);
+}
+
+function weekdayOf(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+function minutesOf(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function minutesBetween(from: string, to: string): number {
+  return minutesOf(to) - minutesOf(from);
+}
+
+function addMinutes(time: string, minutes: number): string {
+  const total = minutesOf(time) + minutes;
+  return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+}
@@ -0,0 +1,169 @@
+import { Injectable, Inject, BadRequestException, Logger } from '@nestjs/common';
+import { ImportJobRepositoryInterface } from '../../../infra/database/repositories/interfaces/import-job-repository.interface';
+import { ImportItemRepositoryInterface } from '../../../infra/database/repositories/interfaces/import-item-repository.interface';
+import {
+  IMPORT_JOB_REPOSITORY,
+  IMPORT_ITEM_REPOSITORY,
+} from '../../../infra/database/repositories/repository.module';
+import { UnitOfWork, TransactionRepositories } from '../../../infra/database/repositories/unit-of-work';
+import { ImportItemChange } from '../../../infra/database/entities/import-item.entity';
+import { LocalEvent } from '../../../infra/database/entities/local-event.entity';
+import { EventGenerationService } from '../../events/event-generation.service';
+import { CalendarSyncService } from '../../google-calendar/calendar-sync.service';
+
+export interface ImportRollbackResult {
+  deleted: {
+    subjects: number;
+    sections: number;
+    events: number;
+  };
+  // Updated by the import and given their old fields back
+  restored: {
+    subjects: number;
+    sections: number;
+  };
+  googleEventsDeleted: number;
+  // Synced classes left in Google Calendar because removing them failed
+  googleEventsFailed: number;
+}
+
+@Injectable()
+export class ImportRollbackService {
+  private readonly logger = new Logger(ImportRollbackService.name);
+
+  constructor(
+    @Inject(IMPORT_JOB_REPOSITORY)
+    private readonly importJobRepository: ImportJobRepositoryInterface,
+    @Inject(IMPORT_ITEM_REPOSITORY)
+    private readonly importItemRepository: ImportItemRepositoryInterface,
+    private readonly unitOfWork: UnitOfWork,
+    private readonly eventGenerationService: EventGenerationService,
+    private readonly calendarSyncService: CalendarSyncService,
+  ) {}
+
+  /**
+   * Undoes what an applied job's rows created or updated, in the reverse of
+   * the order they were applied, in one transaction: created records are
+   * deleted, and updated subjects and sections get their old fields back
+   * with their classes regenerated, so classes the import added to them
+   * leave Google Calendar on the next sync. Once it commits, synced classes
+   * of the records it deleted are removed from Google Calendar; a failed
+   * undo leaves both untouched.
+   */
+  async rollback(jobId: string, userId: string): Promise<ImportRollbackResult> {
+    const job = await this.importJobRepository.findById(jobId);
+
+    if (!job || job.userId !== userId) {
+      throw new BadRequestException('Import job not found');
+    }
+
+    if (job.state !== 'applied' && job.state !== 'failed') {
+      throw new BadRequestException(`Import job cannot be rolled back in the ${job.state} state`);
+    }
+
+    const items = await this.importItemRepository.findByImportJobIdAndStatus(jobId, 'created');
+    const changes = [...items]
+      .sort((a, b) => (a.applySequence || 0) - (b.applySequence || 0))
+      .flatMap(item => item.changes || [])
+      .reverse();
+
+    const result: ImportRollbackResult = {
+      deleted: { subjects: 0, sections: 0, events: 0 },
+      restored: { subjects: 0, sections: 0 },
+      googleEventsDeleted: 0,
+      googleEventsFailed: 0,
+    };
+
+    const linkedEvents = await this.unitOfWork.run(async repositories => {
+      const linked = await this.findLinkedEvents(changes, repositories);
+
+      for (const change of changes) {
+        await this.undo(change, userId, repositories, result);
+      }
+
+      for (const item of items) {
+        await repositories.importItems.updateStatus(item.id, 'rolled_back');
+      }
+      await repositories.importJobs.update(jobId, { state: 'rolled_back' });
+      return linked;
+    });
+
+    if (linkedEvents.length > 0) {
+      const syncResult = await this.calendarSyncService.removeDeletedEvents(userId, linkedEvents);
+      result.googleEventsDeleted = syncResult.summary.deleted;
+      result.googleEventsFailed = syncResult.summary.failed;
+    }
+
+    this.logger.debug(
+      `Rolled back import job ${jobId}: ${result.deleted.sections} sections, ${result.googleEventsDeleted} Google events`,
+    );
+
+    return result;
+  }
+
+  /**
+   * Finds the synced classes of what the job created, which its undo
+   * deletes. This includes classes added to those subjects and sections
+   * after the import, as deleting them would otherwise leave their Google
+   * events behind.
+   */
+  private async findLinkedEvents(
+    changes: ImportItemChange[],
+    repositories: TransactionRepositories,
+  ): Promise<LocalEvent[]> {
+    const events = new Map<string, LocalEvent>();
+
+    for (const change of changes) {
+      let found: LocalEvent[] = [];
+      if (change.entity === 'event') {
+        const event = await repositories.localEvents.findById(change.id);
+        found = event ? [event] : [];
+      } else if (change.action === 'created') {
+        found = change.entity === 'section'
+          ? await repositories.localEvents.findBySectionId(change.id)
+          : await repositories.localEvents.findBySubjectId(change.id);
+      }
+      found.forEach(event => events.set(event.id, event));
+    }
+
+    return [...events.values()].filter(event => event.gcalEventId);
+  }
+
+  private async undo(
+    change: ImportItemChange,
+    userId: string,
+    repositories: TransactionRepositories,
+    result: ImportRollbackResult,
+  ): Promise<void> {
+    switch (change.entity) {
+      case 'event':
+        if (await repositories.localEvents.delete(change.id)) {
+          result.deleted.events++;
+        }
+        break;
+
+      case 'section':
+        if (change.action === 'created') {
+          if (await repositories.sections.delete(change.id)) {
+            result.deleted.sections++;
+          }
+        } else if (await repositories.sections.update(change.id, change.previous)) {
+          await this.eventGenerationService
+            .withRepositories(repositories.localEvents, repositories.sections)
+            .regenerateEventsForSection(userId, change.id);
+          result.restored.sections++;
+        }
+        break;
+
+      case 'subject':
+        if (change.action === 'created') {
+          if (await repositories.subjects.delete(change.id)) {
+            result.deleted.subjects++;
+          }
+        } else if (await repositories.subjects.update(change.id, change.previous)) {
+          result.restored.subjects++;
+        }
+        break;
+    }
+  }
+}
@@ -6,6 +6,8 @@ import { FileParserService } from './file-parser.service';
 import { ImportPreview, ParsedRow, ImportError, ColumnMapping, ValidationResult } from '../dto/upload-file.dto';
 import { ImportJob } from '../../../infra/database/entities/import-job.entity';
 import { ImportItem } from '../../../infra/database/entities/import-item.entity';
+import { DEFAULT_TIMEZONE } from '../../../common/utils/timezone';
+import { ICS_COLUMN_MAP, SCHEDULE_COLUMN_MAP } from './ics-calendar';
 
 @Injectable()
 export class ImportService {
@@ -20,6 +22,7 @@ export class ImportService {
   async createImportJob(
     userId: string,
     file: Express.Multer.File,
+    timezone: string = DEFAULT_TIMEZONE,
   ): Promise<ImportPreview> {
     // Validate file
     this.fileParserService.validateFileSize(file.size);
@@ -30,15 +33,21 @@ export class ImportService {
     
     if (fileType === 'csv') {
       parseResult = await this.fileParserService.parseCSV(file.buffer);
+    } else if (fileType === 'ics') {
+      parseResult = await this.fileParserService.parseICS(file.buffer, timezone);
     } else {
       parseResult = await this.fileParserService.parseXLSX(file.buffer);
     }
 
-    // Create import job
+    // Create import job; calendar rows and exported schedules have known
+    // columns, so they come mapped
+    const isSchedule = Object.keys(SCHEDULE_COLUMN_MAP).every(column => parseResult.headers.includes(column));
+    const columnMap = fileType === 'ics' ? ICS_COLUMN_MAP : isSchedule ? SCHEDULE_COLUMN_MAP : undefined;
     const importJob = await this.importJobRepository.create({
       userId,
       sourceType: fileType,
       state: 'pending',
+      ...(columnMap && { columnMap }),
     });
 
     // Create import items for each row
@@ -61,6 +70,7 @@ export class ImportService {
       rows: parseResult.rows.slice(0, 10), // Return first 10 rows for preview
       totalRows: parseResult.rows.length,
       errors: parseResult.errors,
+      columnMapping: importJob.columnMap || undefined,
     };
   }
 
@@ -87,6 +97,7 @@ export class ImportService {
       rows: items.slice(0, 10).map(item => item.rawRow), // First 10 rows for preview
       totalRows: items.length,
       errors: [], // Parse errors would have been caught during creation
+      columnMapping: job.columnMap || undefined,
     };
   }
 
@@ -117,7 +128,7 @@ export class ImportService {
 
     // Required fields mapping
     const requiredFields = ['subjectName', 'sectionCode', 'startTime', 'endTime', 'daysOfWeek'];
-    const optionalFields = ['room', 'teacher', 'startDate', 'endDate', 'note'];
+    const optionalFields = ['room', 'teacher', 'startDate', 'endDate', 'note', 'repeats', 'interval', 'setPos', 'skipDates'];
 
     // Check if required fields are mapped
     for (const field of requiredFields) {
@@ -263,7 +274,8 @@ export class ImportService {
   async deleteImportJob(jobId: string, userId: string): Promise<void> {
     const job = await this.getImportJob(jobId, userId);
     
-    if (job.state === 'applied') {
+    // Their records of what they created are what a rollback undoes
+    if (job.state === 'applied' || job.state === 'applying') {
       throw new BadRequestException('Cannot delete applied import jobs');
     }
 
@@ -30,6 +30,7 @@ describe('SectionsController', () => {
         skipDates: [],
       },
     ],
+    exceptions: [],
     subjectName: 'Computer Science',
     subjectCode: 'CS101',
     eventsCount: 0,
@@ -42,6 +43,8 @@ describe('SectionsController', () => {
       findOne: jest.fn(),
       update: jest.fn(),
       remove: jest.fn(),
+      addException: jest.fn(),
+      removeException: jest.fn(),
     };
 
     const mockAuthGuard = {
@@ -90,9 +93,9 @@ describe('SectionsController', () => {
 
       service.create.mockResolvedValue(mockSectionResponse);
 
-      const result = await controller.create(mockUserId, createDto);
+      const result = await controller.create(mockUserId, createDto, 'Asia/Bangkok');
 
-      expect(service.create).toHaveBeenCalledWith(mockUserId, createDto);
+      expect(service.create).toHaveBeenCalledWith(mockUserId, createDto, 'Asia/Bangkok');
       expect(result).toEqual(mockSectionResponse);
     });
   });
@@ -129,9 +132,9 @@ describe('SectionsController', () => {
       const updatedSection = { ...mockSectionResponse, ...updateDto };
       service.update.mockResolvedValue(updatedSection);
 
-      const result = await controller.update(mockUserId, mockSectionId, updateDto);
+      const result = await controller.update(mockUserId, mockSectionId, updateDto, 'Asia/Bangkok');
 
-      expect(service.update).toHaveBeenCalledWith(mockUserId, mockSectionId, updateDto);
+      expect(service.update).toHaveBeenCalledWith(mockUserId, mockSectionId, updateDto, 'Asia/Bangkok');
       expect(result).toEqual(updatedSection);
     });
   });
@@ -145,4 +148,20 @@ describe('SectionsController', () => {
       expect(service.remove).toHaveBeenCalledWith(mockUserId, mockSectionId);
     });
   });
-});
\ No newline at end of file
+
+  describe('addException', () => {
+    it('should add an exception to the section', async () => {
+      const exceptionDto = { type: 'cancel' as const, date: '2024-01-22' };
+      const updatedSection = {
+        ...mockSectionResponse,
+        exceptions: [{ id: 'exception-1', ...exceptionDto }],
+      };
+      service.addException.mockResolvedValue(updatedSection);
+
+      const result = await controller.addException(mockUserId, mockSectionId, exceptionDto);
+
+      expect(service.addException).toHaveBeenCalledWith(mockUserId, mockSectionId, exceptionDto);
+      expect(result).toEqual(updatedSection);
+    });
+  });
+});
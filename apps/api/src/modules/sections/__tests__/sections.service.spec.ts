@@ -1,20 +1,29 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { ConflictException, NotFoundException, BadRequestException } from '@nestjs/common';
 import { SectionsService } from '../sections.service';
+import { EventGenerationService } from '../../events/event-generation.service';
+import { ClashDetectionService } from '../../events/clash-detection.service';
+import { ClashReport } from '../../events/event-clashes';
 import { SectionRepository } from '../../../infra/database/repositories/interfaces/section-repository.interface';
 import { SubjectRepository } from '../../../infra/database/repositories/interfaces/subject-repository.interface';
+import { TermRepository } from '../../../infra/database/repositories/interfaces/term-repository.interface';
 import { Section } from '../../../infra/database/entities/section.entity';
 import { Subject } from '../../../infra/database/entities/subject.entity';
+import { Term } from '../../../infra/database/entities/term.entity';
 import { CreateSectionDto } from '../dto/create-section.dto';
 import { UpdateSectionDto } from '../dto/update-section.dto';
 
 const SECTION_REPOSITORY_TOKEN = 'SectionRepository';
 const SUBJECT_REPOSITORY_TOKEN = 'SubjectRepository';
+const TERM_REPOSITORY_TOKEN = 'TermRepository';
 
 describe('SectionsService', () => {
   let service: SectionsService;
   let sectionRepository: jest.Mocked<SectionRepository>;
   let subjectRepository: jest.Mocked<SubjectRepository>;
+  let termRepository: jest.Mocked<TermRepository>;
+  let eventGenerationService: jest.Mocked<EventGenerationService>;
+  let clashDetectionService: jest.Mocked<ClashDetectionService>;
 
   const mockUserId = 'user-123';
   const mockSubjectId = 'subject-123';
@@ -67,6 +76,20 @@ describe('SectionsService', () => {
       findById: jest.fn(),
     };
 
+    const mockTermRepository = {
+      findById: jest.fn(),
+    };
+
+    const mockEventGenerationService = {
+      applyException: jest.fn(),
+      revertException: jest.fn(),
+      regenerateEventsForSection: jest.fn(),
+    };
+
+    const mockClashDetectionService = {
+      detectSectionClashes: jest.fn().mockResolvedValue([]),
+    };
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         SectionsService,
@@ -78,12 +101,27 @@ describe('SectionsService', () => {
           provide: SUBJECT_REPOSITORY_TOKEN,
           useValue: mockSubjectRepository,
         },
+        {
+          provide: TERM_REPOSITORY_TOKEN,
+          useValue: mockTermRepository,
+        },
+        {
+          provide: EventGenerationService,
+          useValue: mockEventGenerationService,
+        },
+        {
+          provide: ClashDetectionService,
+          useValue: mockClashDetectionService,
+        },
       ],
     }).compile();
 
     service = module.get<SectionsService>(SectionsService);
     sectionRepository = module.get(SECTION_REPOSITORY_TOKEN);
     subjectRepository = module.get(SUBJECT_REPOSITORY_TOKEN);
+    termRepository = module.get(TERM_REPOSITORY_TOKEN);
+    eventGenerationService = module.get(EventGenerationService);
+    clashDetectionService = module.get(ClashDetectionService);
   });
 
   it('should be defined', () => {
@@ -137,6 +175,54 @@ describe('SectionsService', () => {
       expect(result.secCode).toBe('A01');
     });
 
+    it('should pad one-digit hours of schedule rules', async () => {
+      subjectRepository.findById.mockResolvedValue(mockSubject);
+      sectionRepository.findBySubjectIdAndSecCode.mockResolvedValue(null);
+      sectionRepository.create.mockResolvedValue(mockSection);
+
+      await service.create(mockUserId, {
+        ...createDto,
+        scheduleRules: [{ ...createDto.scheduleRules[0], startTime: '9:00', endTime: '10:30' }],
+      });
+
+      expect(sectionRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+        scheduleRules: [expect.objectContaining({ startTime: '09:00', endTime: '10:30' })],
+      }));
+    });
+
+    it('should report clashes of the new schedule with other sections', async () => {
+      const clash: ClashReport = {
+        sections: [
+          { sectionId: mockSectionId, subjectId: mockSubjectId, secCode: 'A01', subjectCode: 'CS101' },
+          { sectionId: 'section-456', subjectId: 'subject-456', secCode: '1', subjectCode: 'MATH201' },
+        ],
+        occurrences: [{
+          date: '2024-01-15',
+          overlapStart: '10:00',
+          overlapEnd: '10:30',
+          overlapMinutes: 30,
+          events: [
+            { sectionId: mockSectionId, startTime: '09:00', endTime: '10:30' },
+            { eventId: 'event-456', sectionId: 'section-456', startTime: '10:00', endTime: '11:30' },
+          ],
+        }],
+        totalOverlapMinutes: 30,
+      };
+      subjectRepository.findById.mockResolvedValue(mockSubject);
+      sectionRepository.findBySubjectIdAndSecCode.mockResolvedValue(null);
+      sectionRepository.create.mockResolvedValue(mockSection);
+      clashDetectionService.detectSectionClashes.mockResolvedValue([clash]);
+
+      const result = await service.create(mockUserId, createDto, 'Asia/Bangkok');
+
+      expect(clashDetectionService.detectSectionClashes).toHaveBeenCalledWith(
+        mockUserId,
+        mockSectionId,
+        { timezone: 'Asia/Bangkok' },
+      );
+      expect(result.clashes).toEqual([clash]);
+    });
+
     it('should throw NotFoundException if subject not found', async () => {
       subjectRepository.findById.mockResolvedValue(null);
 
@@ -163,6 +249,30 @@ describe('SectionsService', () => {
       );
     });
 
+    it('should link the section to a term owned by the user', async () => {
+      subjectRepository.findById.mockResolvedValue(mockSubject);
+      sectionRepository.findBySubjectIdAndSecCode.mockResolvedValue(null);
+      termRepository.findById.mockResolvedValue({ id: 'term-123', userId: mockUserId } as Term);
+      sectionRepository.create.mockResolvedValue(mockSection);
+
+      await service.create(mockUserId, { ...createDto, termId: 'term-123' });
+
+      expect(sectionRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ termId: 'term-123' }),
+      );
+    });
+
+    it('should throw NotFoundException if term belongs to different user', async () => {
+      subjectRepository.findById.mockResolvedValue(mockSubject);
+      sectionRepository.findBySubjectIdAndSecCode.mockResolvedValue(null);
+      termRepository.findById.mockResolvedValue({ id: 'term-123', userId: 'other-user' } as Term);
+
+      await expect(service.create(mockUserId, { ...createDto, termId: 'term-123' })).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(sectionRepository.create).not.toHaveBeenCalled();
+    });
+
     it('should throw BadRequestException for invalid time range', async () => {
       const invalidDto = {
         ...createDto,
@@ -240,6 +350,57 @@ describe('SectionsService', () => {
       );
     });
 
+    it('should allow odd and even week rules in the same slot', async () => {
+      const alternatingDto = {
+        ...createDto,
+        scheduleRules: [
+          { ...createDto.scheduleRules[0], weekParity: 'odd' as const },
+          { ...createDto.scheduleRules[0], weekParity: 'even' as const },
+        ],
+      };
+
+      subjectRepository.findById.mockResolvedValue(mockSubject);
+      sectionRepository.findBySubjectIdAndSecCode.mockResolvedValue(null);
+      sectionRepository.create.mockResolvedValue(mockSection);
+
+      await expect(service.create(mockUserId, alternatingDto)).resolves.toBeDefined();
+    });
+
+    it('should throw BadRequestException for week parity with an interval', async () => {
+      const invalidDto = {
+        ...createDto,
+        scheduleRules: [{ ...createDto.scheduleRules[0], weekParity: 'even' as const, interval: 3 }],
+      };
+
+      subjectRepository.findById.mockResolvedValue(mockSubject);
+      sectionRepository.findBySubjectIdAndSecCode.mockResolvedValue(null);
+
+      await expect(service.create(mockUserId, invalidDto)).rejects.toThrow(
+        'Week parity already repeats every other week and cannot have an interval',
+      );
+    });
+
+    it('should throw BadRequestException for a rule with no classes in its date range', async () => {
+      const emptyDto = {
+        ...createDto,
+        scheduleRules: [
+          {
+            ...createDto.scheduleRules[0],
+            startDate: '2024-01-09',
+            endDate: '2024-01-28',
+            setPos: -1, // Last Monday of January is the 29th
+          },
+        ],
+      };
+
+      subjectRepository.findById.mockResolvedValue(mockSubject);
+      sectionRepository.findBySubjectIdAndSecCode.mockResolvedValue(null);
+
+      await expect(service.create(mockUserId, emptyDto)).rejects.toThrow(
+        'Schedule rule has no classes between 2024-01-09 and 2024-01-28',
+      );
+    });
+
     it('should throw BadRequestException for too short duration', async () => {
       const shortDto = {
         ...createDto,
@@ -356,6 +517,100 @@ describe('SectionsService', () => {
         ConflictException,
       );
     });
+
+    describe('when the schedule changes', () => {
+      const scheduledSection = {
+        ...mockSection,
+        events: [{ id: 'event-1', status: 'synced' } as any],
+      };
+      const rulesDto: UpdateSectionDto = {
+        scheduleRules: [
+          {
+            dayOfWeek: 3,
+            startTime: '13:00',
+            endTime: '14:30',
+            startDate: '2024-01-15',
+            endDate: '2024-04-15',
+          },
+        ],
+      };
+      const regenerationResult = {
+        generated: 0,
+        skipped: 0,
+        replaced: 1,
+        deleted: 0,
+        unchanged: 12,
+        events: [],
+        changes: [{
+          action: 'update' as const,
+          eventId: 'event-1',
+          eventDate: '2024-01-17',
+          startTime: '13:00',
+          endTime: '14:30',
+          gcalEventId: 'google-1',
+        }],
+      };
+
+      beforeEach(() => {
+        sectionRepository.findById.mockResolvedValue(scheduledSection);
+        sectionRepository.update.mockImplementation(async (id, updates) => ({ ...scheduledSection, ...updates }));
+        eventGenerationService.regenerateEventsForSection.mockResolvedValue(regenerationResult);
+      });
+
+      it('should reconcile the events and report what changed', async () => {
+        const result = await service.update(mockUserId, mockSectionId, rulesDto, 'Asia/Bangkok');
+
+        expect(eventGenerationService.regenerateEventsForSection).toHaveBeenCalledWith(
+          mockUserId,
+          mockSectionId,
+          { timezone: 'Asia/Bangkok' },
+        );
+        expect(result.eventChanges.replaced).toBe(1);
+        expect(result.eventChanges.changes).toEqual(regenerationResult.changes);
+      });
+
+      it('should report clashes of the new schedule even when opted out of reconciliation', async () => {
+        await service.update(mockUserId, mockSectionId, { ...rulesDto, regenerateEvents: false });
+
+        expect(clashDetectionService.detectSectionClashes).toHaveBeenCalledWith(
+          mockUserId,
+          mockSectionId,
+          { timezone: undefined },
+        );
+      });
+
+      it('should reconcile when the room changes', async () => {
+        await service.update(mockUserId, mockSectionId, { room: 'Room 202' });
+
+        expect(eventGenerationService.regenerateEventsForSection).toHaveBeenCalled();
+      });
+
+      it('should not reconcile when the request opts out', async () => {
+        const result = await service.update(mockUserId, mockSectionId, { ...rulesDto, regenerateEvents: false });
+
+        expect(eventGenerationService.regenerateEventsForSection).not.toHaveBeenCalled();
+        expect(result.eventChanges).toBeUndefined();
+        expect(sectionRepository.update).toHaveBeenCalledWith(
+          mockSectionId,
+          expect.not.objectContaining({ regenerateEvents: false }),
+        );
+      });
+
+      it('should not reconcile when nothing the events depend on changed', async () => {
+        await service.update(mockUserId, mockSectionId, { teacher: 'Jane Smith', room: 'Room 101' });
+
+        expect(eventGenerationService.regenerateEventsForSection).not.toHaveBeenCalled();
+        expect(clashDetectionService.detectSectionClashes).not.toHaveBeenCalled();
+      });
+
+      it('should not reconcile a section without events', async () => {
+        sectionRepository.findById.mockResolvedValue(mockSection);
+
+        await service.update(mockUserId, mockSectionId, rulesDto);
+
+        expect(eventGenerationService.regenerateEventsForSection).not.toHaveBeenCalled();
+      });
+    });
   });
 
   describe('remove', () => {
@@ -388,4 +643,103 @@ describe('SectionsService', () => {
       );
     });
   });
-});
\ No newline at end of file
+
+  describe('addException', () => {
+    beforeEach(() => {
+      sectionRepository.findById.mockResolvedValue(mockSection);
+      sectionRepository.update.mockImplementation(async (id, updates) => ({ ...mockSection, ...updates }));
+    });
+
+    it('should move a class and update its event', async () => {
+      const result = await service.addException(mockUserId, mockSectionId, {
+        type: 'move',
+        date: '2024-01-22',
+        newDate: '2024-01-24',
+        room: ' Room 205 ',
+        reason: 'Lecturer at a conference',
+      });
+
+      const [exception] = result.exceptions;
+      expect(exception).toEqual({
+        id: expect.any(String),
+        type: 'move',
+        date: '2024-01-22',
+        newDate: '2024-01-24',
+        room: 'Room 205',
+        reason: 'Lecturer at a conference',
+      });
+      expect(eventGenerationService.applyException).toHaveBeenCalledWith(
+        expect.objectContaining({ exceptions: [exception] }),
+        exception,
+      );
+    });
+
+    it('should throw BadRequestException when the section has no class on the date', async () => {
+      await expect(
+        service.addException(mockUserId, mockSectionId, { type: 'cancel', date: '2024-01-23' }),
+      ).rejects.toThrow(BadRequestException);
+      expect(sectionRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should throw ConflictException when the class is already cancelled', async () => {
+      sectionRepository.findById.mockResolvedValue({
+        ...mockSection,
+        exceptions: [{ id: 'exception-1', type: 'cancel', date: '2024-01-22' }],
+      });
+
+      await expect(
+        service.addException(mockUserId, mockSectionId, { type: 'move', date: '2024-01-22', startTime: '13:00' }),
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it('should throw ConflictException for an extra session over a scheduled class', async () => {
+      await expect(
+        service.addException(mockUserId, mockSectionId, {
+          type: 'extra',
+          date: '2024-01-29',
+          startTime: '10:00',
+          endTime: '11:30',
+        }),
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it('should allow an extra session in the slot of a cancelled class', async () => {
+      sectionRepository.findById.mockResolvedValue({
+        ...mockSection,
+        exceptions: [{ id: 'exception-1', type: 'cancel', date: '2024-01-29' }],
+      });
+
+      const result = await service.addException(mockUserId, mockSectionId, {
+        type: 'extra',
+        date: '2024-01-29',
+        startTime: '09:00',
+        endTime: '10:30',
+      });
+
+      expect(result.exceptions).toHaveLength(2);
+    });
+  });
+
+  describe('removeException', () => {
+    it('should remove the exception and revert its event', async () => {
+      const exception = { id: 'exception-1', type: 'extra' as const, date: '2024-01-27', startTime: '09:00', endTime: '12:00' };
+      sectionRepository.findById.mockResolvedValue({ ...mockSection, exceptions: [exception] });
+      sectionRepository.update.mockImplementation(async (id, updates) => ({ ...mockSection, ...updates }));
+
+      const result = await service.removeException(mockUserId, mockSectionId, 'exception-1');
+
+      expect(sectionRepository.update).toHaveBeenCalledWith(mockSectionId, { exceptions: [] });
+      expect(eventGenerationService.revertException).toHaveBeenCalledWith(
+        expect.objectContaining({ exceptions: [] }),
+        exception,
+      );
+      expect(result.exceptions).toEqual([]);
+    });
+
+    it('should throw NotFoundException for an unknown exception', async () => {
+      sectionRepository.findById.mockResolvedValue(mockSection);
+
+      await expect(service.removeException(mockUserId, mockSectionId, 'exception-1')).rejects.toThrow(NotFoundException);
+    });
+  });
+});
@@ -0,0 +1,38 @@
+import { IsOptional, IsString, IsDateString, IsIn, Matches, MaxLength } from 'class-validator';
+import { SECTION_EXCEPTION_TYPES, SectionExceptionType } from '../../../infra/database/entities/section.entity';
+
+export class CreateSectionExceptionDto {
+  @IsIn(SECTION_EXCEPTION_TYPES, { message: 'Exception type must be cancel, move or extra' })
+  type: SectionExceptionType;
+
+  // Date of the cancelled or moved class, or of the extra session
+  @IsDateString({}, { message: 'Date must be a valid ISO date string (YYYY-MM-DD)' })
+  date: string;
+
+  // Picks the class on the date when the section has more than one that day
+  @IsOptional()
+  @Matches(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/, { message: 'Original start time must be in HH:MM format' })
+  originalStartTime?: string;
+
+  @IsOptional()
+  @IsDateString({}, { message: 'New date must be a valid ISO date string (YYYY-MM-DD)' })
+  newDate?: string;
+
+  @IsOptional()
+  @Matches(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/, { message: 'Start time must be in HH:MM format' })
+  startTime?: string;
+
+  @IsOptional()
+  @Matches(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/, { message: 'End time must be in HH:MM format' })
+  endTime?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  room?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  reason?: string;
+}
@@ -1,4 +1,4 @@
-import { IsNotEmpty, IsOptional, IsString, IsArray, ValidateNested, MaxLength } from 'class-validator';
+import { IsNotEmpty, IsOptional, IsString, IsUUID, IsArray, ValidateNested, MaxLength } from 'class-validator';
 import { Type } from 'class-transformer';
 import { ScheduleRuleDto } from './schedule-rule.dto';
 
@@ -12,6 +12,11 @@ export class CreateSectionDto {
   @MaxLength(20)
   secCode: string;
 
+  // Term whose blackout periods the section's classes skip
+  @IsOptional()
+  @IsUUID()
+  termId?: string;
+
   @IsOptional()
   @IsString()
   @MaxLength(100)
@@ -1,5 +1,6 @@
-import { IsNotEmpty, IsInt, IsString, IsOptional, IsArray, IsDateString, Min, Max, Matches } from 'class-validator';
+import { IsNotEmpty, IsInt, IsString, IsOptional, IsArray, IsDateString, IsIn, Min, Max, Matches } from 'class-validator';
 import { Transform } from 'class-transformer';
+import { MAX_INTERVAL, SET_POSITIONS, WEEK_PARITIES, WeekParity } from '../../../common/utils/schedule-recurrence';
 
 export class ScheduleRuleDto {
   @IsInt()
@@ -27,4 +28,18 @@ export class ScheduleRuleDto {
   @IsArray()
   @IsDateString({}, { each: true, message: 'Each skip date must be a valid ISO date string (YYYY-MM-DD)' })
   skipDates?: string[];
-}
\ No newline at end of file
+
+  @IsOptional()
+  @IsInt()
+  @Min(1, { message: 'Interval must be at least 1' })
+  @Max(MAX_INTERVAL, { message: `Interval cannot exceed ${MAX_INTERVAL}` })
+  interval?: number;
+
+  @IsOptional()
+  @IsIn(WEEK_PARITIES, { message: 'Week parity must be either odd or even' })
+  weekParity?: WeekParity;
+
+  @IsOptional()
+  @IsIn(SET_POSITIONS, { message: 'Set position must be 1, 2, 3, 4 or -1 (last)' })
+  setPos?: number;
+}
@@ -1,24 +1,34 @@
-import { Section, ScheduleRule } from '../../../infra/database/entities/section.entity';
+import { Section, ScheduleRule, SectionException } from '../../../infra/database/entities/section.entity';
+import { EventGenerationResultDto } from '../../events/dto/event-generation-result.dto';
+import { ClashReport } from '../../events/event-clashes';
 
 export class SectionResponseDto {
   id: string;
   subjectId: string;
   secCode: string;
+  termId?: string;
   teacher?: string;
   room?: string;
   scheduleRules: ScheduleRule[];
+  exceptions: SectionException[];
   subjectName?: string;
   subjectCode?: string;
   eventsCount?: number;
+  // What an update changed in the section's events
+  eventChanges?: EventGenerationResultDto;
+  // Clashes of a created or rescheduled section with the user's other classes
+  clashes?: ClashReport[];
 
   static fromEntity(section: Section): SectionResponseDto {
     return {
       id: section.id,
       subjectId: section.subjectId,
       secCode: section.secCode,
+      termId: section.termId,
       teacher: section.teacher,
       room: section.room,
       scheduleRules: section.scheduleRules,
+      exceptions: section.exceptions || [],
       subjectName: section.subject?.name,
       subjectCode: section.subject?.code,
       eventsCount: section.events?.length || 0,
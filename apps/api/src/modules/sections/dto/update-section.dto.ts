@@ -1,6 +1,13 @@
 import { PartialType, OmitType } from '@nestjs/mapped-types';
+import { IsOptional, IsBoolean } from 'class-validator';
 import { CreateSectionDto } from './create-section.dto';
 
 export class UpdateSectionDto extends PartialType(
   OmitType(CreateSectionDto, ['subjectId'] as const)
-) {}
\ No newline at end of file
+) {
+  // Reconcile the section's events with its new schedule, room or term;
+  // on unless set to false
+  @IsOptional()
+  @IsBoolean()
+  regenerateEvents?: boolean;
+}
@@ -15,6 +15,7 @@ import { SectionsService } from './sections.service';
 import { CreateSectionDto } from './dto/create-section.dto';
 import { UpdateSectionDto } from './dto/update-section.dto';
 import { SectionResponseDto } from './dto/section-response.dto';
+import { CreateSectionExceptionDto } from './dto/create-section-exception.dto';
 import { JwtAuthGuard } from '../auth/guards/auth.guard';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 
@@ -28,8 +29,9 @@ export class SectionsController {
   async create(
     @CurrentUser('id') userId: string,
     @Body() createSectionDto: CreateSectionDto,
+    @CurrentUser('timezone') timezone: string,
   ): Promise<SectionResponseDto> {
-    return this.sectionsService.create(userId, createSectionDto);
+    return this.sectionsService.create(userId, createSectionDto, timezone);
   }
 
   @Get('subject/:subjectId')
@@ -53,8 +55,9 @@ export class SectionsController {
     @CurrentUser('id') userId: string,
     @Param('id', ParseUUIDPipe) id: string,
     @Body() updateSectionDto: UpdateSectionDto,
+    @CurrentUser('timezone') timezone: string,
   ): Promise<SectionResponseDto> {
-    return this.sectionsService.update(userId, id, updateSectionDto);
+    return this.sectionsService.update(userId, id, updateSectionDto, timezone);
   }
 
   @Delete(':id')
@@ -65,4 +68,23 @@ export class SectionsController {
   ): Promise<void> {
     return this.sectionsService.remove(userId, id);
   }
+
+  @Post(':id/exceptions')
+  @HttpCode(HttpStatus.CREATED)
+  async addException(
+    @CurrentUser('id') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() createExceptionDto: CreateSectionExceptionDto,
+  ): Promise<SectionResponseDto> {
+    return this.sectionsService.addException(userId, id, createExceptionDto);
+  }
+
+  @Delete(':id/exceptions/:exceptionId')
+  async removeException(
+    @CurrentUser('id') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('exceptionId', ParseUUIDPipe) exceptionId: string,
+  ): Promise<SectionResponseDto> {
+    return this.sectionsService.removeException(userId, id, exceptionId);
+  }
 }
\ No newline at end of file
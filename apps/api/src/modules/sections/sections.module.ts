@@ -4,11 +4,14 @@ import { SectionsService } from './sections.service';
 import { SectionsController } from './sections.controller';
 import { Section } from '../../infra/database/entities/section.entity';
 import { Subject } from '../../infra/database/entities/subject.entity';
+import { Term } from '../../infra/database/entities/term.entity';
 import { TypeOrmSectionRepository } from '../../infra/database/repositories/typeorm-section.repository';
 import { TypeOrmSubjectRepository } from '../../infra/database/repositories/typeorm-subject.repository';
+import { TypeOrmTermRepository } from '../../infra/database/repositories/typeorm-term.repository';
+import { EventsModule } from '../events/events.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Section, Subject])],
+  imports: [TypeOrmModule.forFeature([Section, Subject, Term]), EventsModule],
   controllers: [SectionsController],
   providers: [
     SectionsService,
@@ -20,6 +23,10 @@ import { TypeOrmSubjectRepository } from '../../infra/database/repositories/type
       provide: 'SubjectRepository',
       useClass: TypeOrmSubjectRepository,
     },
+    {
+      provide: 'TermRepository',
+      useClass: TypeOrmTermRepository,
+    },
   ],
   exports: [SectionsService, 'SectionRepository'],
 })
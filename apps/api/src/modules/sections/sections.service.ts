@@ -1,11 +1,18 @@
 import { Injectable, ConflictException, NotFoundException, BadRequestException, Inject } from '@nestjs/common';
+import * as crypto from 'crypto';
 import { SectionRepository } from '../../infra/database/repositories/interfaces/section-repository.interface';
 import { SubjectRepository } from '../../infra/database/repositories/interfaces/subject-repository.interface';
+import { TermRepository } from '../../infra/database/repositories/interfaces/term-repository.interface';
 import { CreateSectionDto } from './dto/create-section.dto';
 import { UpdateSectionDto } from './dto/update-section.dto';
 import { SectionResponseDto } from './dto/section-response.dto';
 import { ScheduleRuleDto } from './dto/schedule-rule.dto';
-import { Section } from '../../infra/database/entities/section.entity';
+import { CreateSectionExceptionDto } from './dto/create-section-exception.dto';
+import { Section, SectionException, ScheduleRule } from '../../infra/database/entities/section.entity';
+import { EventGenerationService } from '../events/event-generation.service';
+import { EventGenerationResultDto } from '../events/dto/event-generation-result.dto';
+import { ClashDetectionService } from '../events/clash-detection.service';
+import { expandDateRanges, expandScheduleRule } from '../../common/utils/schedule-recurrence';
 
 @Injectable()
 export class SectionsService {
@@ -14,9 +21,17 @@ export class SectionsService {
     private readonly sectionRepository: SectionRepository,
     @Inject('SubjectRepository')
     private readonly subjectRepository: SubjectRepository,
+    @Inject('TermRepository')
+    private readonly termRepository: TermRepository,
+    private readonly eventGenerationService: EventGenerationService,
+    private readonly clashDetectionService: ClashDetectionService,
   ) {}
 
-  async create(userId: string, createSectionDto: CreateSectionDto): Promise<SectionResponseDto> {
+  /**
+   * Creates a section; the response lists the clashes of its schedule with
+   * the user's other classes
+   */
+  async create(userId: string, createSectionDto: CreateSectionDto, timezone?: string): Promise<SectionResponseDto> {
     // Verify subject exists and belongs to user
     const subject = await this.subjectRepository.findById(createSectionDto.subjectId);
     if (!subject || subject.userId !== userId) {
@@ -37,9 +52,14 @@ export class SectionsService {
     // Validate schedule rules
     this.validateScheduleRules(createSectionDto.scheduleRules);
 
+    if (createSectionDto.termId) {
+      await this.verifyTerm(userId, createSectionDto.termId);
+    }
+
     // Create section
     const sectionData: Partial<Section> = {
       subjectId: createSectionDto.subjectId,
+      termId: createSectionDto.termId,
       secCode: createSectionDto.secCode.trim(),
       teacher: createSectionDto.teacher?.trim(),
       room: createSectionDto.room?.trim(),
@@ -47,7 +67,10 @@ export class SectionsService {
     };
 
     const section = await this.sectionRepository.create(sectionData);
-    return SectionResponseDto.fromEntity(section);
+    const response = SectionResponseDto.fromEntity(section);
+    response.clashes = await this.clashDetectionService.detectSectionClashes(userId, section.id, { timezone });
+
+    return response;
   }
 
   async findBySubject(userId: string, subjectId: string): Promise<SectionResponseDto[]> {
@@ -76,7 +99,17 @@ export class SectionsService {
     return SectionResponseDto.fromEntity(section);
   }
 
-  async update(userId: string, id: string, updateSectionDto: UpdateSectionDto): Promise<SectionResponseDto> {
+  /**
+   * Updates a section. A new schedule, room or term also reconciles the
+   * section's events, unless the request opts out, and the response reports
+   * what that changed and the clashes of the new schedule.
+   */
+  async update(
+    userId: string,
+    id: string,
+    updateSectionDto: UpdateSectionDto,
+    timezone?: string,
+  ): Promise<SectionResponseDto> {
     const existingSection = await this.sectionRepository.findById(id);
     
     if (!existingSection) {
@@ -108,6 +141,14 @@ export class SectionsService {
       updateData.secCode = updateSectionDto.secCode.trim();
     }
     
+    if (updateSectionDto.termId !== undefined) {
+      // null moves the section out of its term
+      if (updateSectionDto.termId) {
+        await this.verifyTerm(userId, updateSectionDto.termId);
+      }
+      updateData.termId = updateSectionDto.termId;
+    }
+    
     if (updateSectionDto.teacher !== undefined) {
       updateData.teacher = updateSectionDto.teacher?.trim();
     }
@@ -127,7 +168,21 @@ export class SectionsService {
       throw new NotFoundException(`Section with ID '${id}' not found`);
     }
 
-    return SectionResponseDto.fromEntity(updatedSection);
+    const response = SectionResponseDto.fromEntity(updatedSection);
+
+    if (!this.changesEvents(existingSection, updateData)) {
+      return response;
+    }
+
+    // Sections whose events were never generated are left alone
+    if (updateSectionDto.regenerateEvents !== false && existingSection.events?.length > 0) {
+      const result = await this.eventGenerationService.regenerateEventsForSection(userId, id, { timezone });
+      response.eventChanges = EventGenerationResultDto.fromResult(result);
+    }
+
+    response.clashes = await this.clashDetectionService.detectSectionClashes(userId, id, { timezone });
+
+    return response;
   }
 
   async remove(userId: string, id: string): Promise<void> {
@@ -154,6 +209,85 @@ export class SectionsService {
     }
   }
 
+  /**
+   * Cancels or moves one class of the section, or adds an extra session, and
+   * brings the section's events in line with it
+   */
+  async addException(
+    userId: string,
+    id: string,
+    createExceptionDto: CreateSectionExceptionDto,
+  ): Promise<SectionResponseDto> {
+    const section = await this.sectionRepository.findById(id);
+
+    // Verify section belongs to user through subject
+    if (!section || section.subject.userId !== userId) {
+      throw new NotFoundException(`Section with ID '${id}' not found`);
+    }
+
+    const exception = this.buildException(createExceptionDto);
+    this.validateException(section, exception);
+
+    const exceptions = [...(section.exceptions || []), exception];
+    const updatedSection = await this.sectionRepository.update(id, { exceptions });
+
+    if (!updatedSection) {
+      throw new NotFoundException(`Section with ID '${id}' not found`);
+    }
+
+    await this.eventGenerationService.applyException({ ...section, exceptions }, exception);
+
+    return SectionResponseDto.fromEntity(updatedSection);
+  }
+
+  /**
+   * Removes an exception, putting the class back on its scheduled slot or
+   * dropping the extra session
+   */
+  async removeException(userId: string, id: string, exceptionId: string): Promise<SectionResponseDto> {
+    const section = await this.sectionRepository.findById(id);
+
+    // Verify section belongs to user through subject
+    if (!section || section.subject.userId !== userId) {
+      throw new NotFoundException(`Section with ID '${id}' not found`);
+    }
+
+    const exception = (section.exceptions || []).find(existing => existing.id === exceptionId);
+    if (!exception) {
+      throw new NotFoundException(`Exception with ID '${exceptionId}' not found`);
+    }
+
+    const exceptions = section.exceptions.filter(existing => existing.id !== exceptionId);
+    const updatedSection = await this.sectionRepository.update(id, { exceptions });
+
+    if (!updatedSection) {
+      throw new NotFoundException(`Section with ID '${id}' not found`);
+    }
+
+    await this.eventGenerationService.revertException({ ...section, exceptions }, exception);
+
+    return SectionResponseDto.fromEntity(updatedSection);
+  }
+
+  /**
+   * True when an update moves, adds or removes classes or changes their room
+   */
+  private changesEvents(section: Section, updateData: Partial<Section>): boolean {
+    return (
+      (updateData.scheduleRules !== undefined &&
+        JSON.stringify(updateData.scheduleRules) !== JSON.stringify(section.scheduleRules)) ||
+      (updateData.room !== undefined && updateData.room !== section.room) ||
+      (updateData.termId !== undefined && updateData.termId !== section.termId)
+    );
+  }
+
+  private async verifyTerm(userId: string, termId: string): Promise<void> {
+    const term = await this.termRepository.findById(termId);
+    if (!term || term.userId !== userId) {
+      throw new NotFoundException(`Term with ID '${termId}' not found`);
+    }
+  }
+
   /**
    * Validate schedule rules for logical consistency
    */
@@ -171,6 +305,9 @@ export class SectionsService {
       
       // Validate skip dates
       this.validateSkipDates(rule);
+
+      // Validate interval, week parity and set position
+      this.validateRecurrence(rule);
     }
 
     // Check for overlapping rules
@@ -230,6 +367,22 @@ export class SectionsService {
     }
   }
 
+  private validateRecurrence(rule: ScheduleRuleDto): void {
+    if (rule.weekParity && rule.setPos) {
+      throw new BadRequestException('Week parity cannot be combined with a monthly set position');
+    }
+
+    if (rule.weekParity && (rule.interval || 1) !== 1) {
+      throw new BadRequestException('Week parity already repeats every other week and cannot have an interval');
+    }
+
+    if (expandScheduleRule(rule).length === 0) {
+      throw new BadRequestException(
+        `Schedule rule has no classes between ${rule.startDate} and ${rule.endDate}`
+      );
+    }
+  }
+
   private validateNoOverlappingRules(scheduleRules: ScheduleRuleDto[]): void {
     for (let i = 0; i < scheduleRules.length; i++) {
       for (let j = i + 1; j < scheduleRules.length; j++) {
@@ -251,14 +404,10 @@ export class SectionsService {
       return false;
     }
 
-    // Check date range overlap
-    const start1 = new Date(rule1.startDate);
-    const end1 = new Date(rule1.endDate);
-    const start2 = new Date(rule2.startDate);
-    const end2 = new Date(rule2.endDate);
-
-    const dateOverlap = start1 <= end2 && start2 <= end1;
-    if (!dateOverlap) {
+    // Rules on the same weekday only clash if they share a class date,
+    // so odd and even week rules can use the same slot
+    const dates1 = new Set(expandScheduleRule(rule1));
+    if (!expandScheduleRule(rule2).some(date => dates1.has(date))) {
       return false;
     }
 
@@ -276,10 +425,158 @@ export class SectionsService {
     return new Date(2000, 0, 1, hours, minutes).getTime();
   }
 
+  /**
+   * Pads one-digit hours, as rule times are matched against event times as
+   * HH:MM strings
+   */
   private normalizeScheduleRules(scheduleRules: ScheduleRuleDto[]) {
     return scheduleRules.map(rule => ({
       ...rule,
+      startTime: padTime(rule.startTime),
+      endTime: padTime(rule.endTime),
       skipDates: rule.skipDates || [],
     }));
   }
-}
\ No newline at end of file
+
+  private buildException(dto: CreateSectionExceptionDto): SectionException {
+    const exception: SectionException = {
+      id: crypto.randomUUID(),
+      type: dto.type,
+      date: dto.date.substring(0, 10),
+    };
+
+    if (dto.type !== 'extra' && dto.originalStartTime) {
+      exception.originalStartTime = padTime(dto.originalStartTime);
+    }
+
+    if (dto.type === 'move' && dto.newDate) {
+      exception.newDate = dto.newDate.substring(0, 10);
+    }
+
+    if (dto.type !== 'cancel') {
+      if (dto.startTime) exception.startTime = padTime(dto.startTime);
+      if (dto.endTime) exception.endTime = padTime(dto.endTime);
+      if (dto.room?.trim()) exception.room = dto.room.trim();
+    }
+
+    if (dto.reason?.trim()) {
+      exception.reason = dto.reason.trim();
+    }
+
+    return exception;
+  }
+
+  /**
+   * Checks that a cancelled or moved class is on the schedule and not
+   * already changed, and that a moved class or extra session has a free slot
+   */
+  private validateException(section: Section, exception: SectionException): void {
+    if (exception.type === 'extra') {
+      if (!exception.startTime || !exception.endTime) {
+        throw new BadRequestException('An extra session needs a start and end time');
+      }
+    } else {
+      const rules = this.findClassRules(section, exception.date, exception.originalStartTime);
+
+      if (rules.length === 0) {
+        throw new BadRequestException(`Section has no class on ${exception.date}`);
+      }
+
+      if (rules.length > 1) {
+        throw new BadRequestException(
+          `Section has more than one class on ${exception.date}; give the original start time of the one to change`
+        );
+      }
+
+      const existing = (section.exceptions || []).find(other =>
+        other.type !== 'extra' &&
+        other.date === exception.date &&
+        (!other.originalStartTime || !exception.originalStartTime || other.originalStartTime === exception.originalStartTime)
+      );
+      if (existing) {
+        throw new ConflictException(`The class on ${exception.date} is already ${existing.type === 'cancel' ? 'cancelled' : 'moved'}`);
+      }
+
+      if (exception.type === 'cancel') {
+        return;
+      }
+
+      if (!exception.newDate && !exception.startTime && !exception.endTime && !exception.room) {
+        throw new BadRequestException('A moved class needs a new date, time or room');
+      }
+    }
+
+    const slot = this.getExceptionSlot(section, exception);
+    if (this.parseTime(slot.startTime) >= this.parseTime(slot.endTime)) {
+      throw new BadRequestException(
+        `Start time (${slot.startTime}) must be before end time (${slot.endTime})`
+      );
+    }
+
+    const clash = this.getClassSlots(section, slot.date, exception).find(other =>
+      this.parseTime(slot.startTime) < this.parseTime(other.endTime) &&
+      this.parseTime(other.startTime) < this.parseTime(slot.endTime)
+    );
+    if (clash) {
+      throw new ConflictException(
+        `Section already has a class on ${slot.date} from ${clash.startTime} to ${clash.endTime}`
+      );
+    }
+  }
+
+  private findClassRules(section: Section, date: string, startTime?: string): ScheduleRule[] {
+    if (expandDateRanges(section.term?.blackouts || []).has(date)) {
+      return [];
+    }
+
+    return section.scheduleRules.filter(rule =>
+      (!startTime || rule.startTime === startTime) &&
+      expandScheduleRule(rule, date, date).length > 0 &&
+      !(rule.skipDates || []).includes(date)
+    );
+  }
+
+  /**
+   * Slot a moved class or extra session takes; a move keeps whatever of the
+   * original class it does not change
+   */
+  private getExceptionSlot(section: Section, exception: SectionException) {
+    if (exception.type === 'extra') {
+      return { date: exception.date, startTime: exception.startTime, endTime: exception.endTime };
+    }
+
+    const [rule] = this.findClassRules(section, exception.date, exception.originalStartTime);
+    return {
+      date: exception.newDate || exception.date,
+      startTime: exception.startTime || rule?.startTime,
+      endTime: exception.endTime || rule?.endTime,
+    };
+  }
+
+  /**
+   * Lists the section's classes on a date, leaving out the one a new
+   * exception changes and those already cancelled or moved away
+   */
+  private getClassSlots(section: Section, date: string, exception: SectionException) {
+    const exceptions = section.exceptions || [];
+    const changes = (rule: ScheduleRule, other: SectionException) =>
+      other.type !== 'extra' &&
+      other.date === date &&
+      (!other.originalStartTime || other.originalStartTime === rule.startTime);
+
+    const scheduled = this.findClassRules(section, date)
+      .filter(rule => !changes(rule, exception) && !exceptions.some(other => changes(rule, other)))
+      .map(rule => ({ date, startTime: rule.startTime, endTime: rule.endTime }));
+
+    const added = exceptions
+      .filter(other => other.type !== 'cancel')
+      .map(other => this.getExceptionSlot(section, other))
+      .filter(slot => slot.date === date && slot.startTime && slot.endTime);
+
+    return [...scheduled, ...added];
+  }
+}
+
+function padTime(time: string): string {
+  return time.padStart(5, '0');
+}
@@ -18,7 +18,9 @@ describe('SavedFiltersController', () => {
     events: [],
     calendarAccounts: [],
     savedFilters: [],
-    importJobs: []
+    importJobs: [],
+    terms: [],
+    calendarFeeds: []
   };
 
   const mockSavedFilter = {
@@ -18,7 +18,9 @@ describe('SpotlightController', () => {
     events: [],
     calendarAccounts: [],
     savedFilters: [],
-    importJobs: []
+    importJobs: [],
+    terms: [],
+    calendarFeeds: []
   };
 
   beforeEach(async () => {
@@ -16,6 +16,7 @@ import { CalendarAccount } from '../../../infra/database/entities/calendar-accou
 import { SavedFilter } from '../../../infra/database/entities/saved-filter.entity';
 import { ImportJob } from '../../../infra/database/entities/import-job.entity';
 import { ImportItem } from '../../../infra/database/entities/import-item.entity';
+import { Term } from '../../../infra/database/entities/term.entity';
 import { DataSource } from 'typeorm';
 import { JwtService } from '@nestjs/jwt';
 
@@ -32,7 +33,7 @@ describe('Quick Add Integration', () => {
         TypeOrmModule.forRoot({
           type: 'sqlite',
           database: ':memory:',
-          entities: [User, Subject, Section, LocalEvent, CalendarAccount, SavedFilter, ImportJob, ImportItem],
+          entities: [User, Subject, Section, LocalEvent, CalendarAccount, SavedFilter, ImportJob, ImportItem, Term],
           synchronize: true,
           logging: false,
         }),
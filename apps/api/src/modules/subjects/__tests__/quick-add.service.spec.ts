@@ -3,7 +3,9 @@ import { BadRequestException } from '@nestjs/common';
 import { QuickAddService } from '../quick-add.service';
 import { SubjectRepository } from '../../../infra/database/repositories/interfaces/subject-repository.interface';
 import { SectionRepository } from '../../../infra/database/repositories/interfaces/section-repository.interface';
-import { EventGenerationService } from '../../events/event-generation.service';
+import { EventGenerationService, EventGenerationResult } from '../../events/event-generation.service';
+import { ClashDetectionService } from '../../events/clash-detection.service';
+import { ClashReport } from '../../events/event-clashes';
 import { Subject } from '../../../infra/database/entities/subject.entity';
 import { Section } from '../../../infra/database/entities/section.entity';
 import { QuickAddClassDto } from '../dto/quick-add-class.dto';
@@ -13,6 +15,7 @@ describe('QuickAddService', () => {
   let subjectRepository: jest.Mocked<SubjectRepository>;
   let sectionRepository: jest.Mocked<SectionRepository>;
   let eventGenerationService: jest.Mocked<EventGenerationService>;
+  let clashDetectionService: jest.Mocked<ClashDetectionService>;
 
   const mockUserId = 'user-123';
   const mockSubject: Subject = {
@@ -23,6 +26,7 @@ describe('QuickAddService', () => {
     colorHex: '#3b82f6',
     meta: {},
     createdAt: new Date(),
+    user: null,
     sections: [],
     events: [],
   };
@@ -45,6 +49,13 @@ describe('QuickAddService', () => {
     events: [],
   };
 
+  const generationResult = (generated: number): EventGenerationResult => ({
+    generated,
+    skipped: 0,
+    replaced: 0,
+    events: [],
+  });
+
   beforeEach(async () => {
     const mockSubjectRepository = {
       create: jest.fn(),
@@ -62,6 +73,10 @@ describe('QuickAddService', () => {
       generateEventsForSection: jest.fn(),
     };
 
+    const mockClashDetectionService = {
+      detectSectionClashes: jest.fn().mockResolvedValue([]),
+    };
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         QuickAddService,
@@ -77,6 +92,10 @@ describe('QuickAddService', () => {
           provide: EventGenerationService,
           useValue: mockEventGenerationService,
         },
+        {
+          provide: ClashDetectionService,
+          useValue: mockClashDetectionService,
+        },
       ],
     }).compile();
 
@@ -84,6 +103,7 @@ describe('QuickAddService', () => {
     subjectRepository = module.get('SubjectRepository');
     sectionRepository = module.get('SectionRepository');
     eventGenerationService = module.get(EventGenerationService);
+    clashDetectionService = module.get(ClashDetectionService);
   });
 
   it('should be defined', () => {
@@ -112,7 +132,7 @@ describe('QuickAddService', () => {
       subjectRepository.create.mockResolvedValue(mockSubject);
       sectionRepository.findBySubjectIdAndSecCode.mockResolvedValue(null);
       sectionRepository.create.mockResolvedValue(mockSection);
-      eventGenerationService.generateEventsForSection.mockResolvedValue(10);
+      eventGenerationService.generateEventsForSection.mockResolvedValue(generationResult(10));
 
       const result = await service.quickAddClass(mockUserId, validQuickAddDto);
 
@@ -126,6 +146,7 @@ describe('QuickAddService', () => {
           secCode: mockSection.secCode,
         }),
         eventsGenerated: 10,
+        clashes: [],
       });
 
       expect(subjectRepository.create).toHaveBeenCalledWith({
@@ -151,7 +172,38 @@ describe('QuickAddService', () => {
         }],
       });
 
-      expect(eventGenerationService.generateEventsForSection).toHaveBeenCalledWith(mockSection.id);
+      expect(eventGenerationService.generateEventsForSection).toHaveBeenCalledWith(
+        mockUserId,
+        mockSection.id,
+        { timezone: undefined },
+      );
+    });
+
+    it('should report clashes of the new class with other sections', async () => {
+      const clash: ClashReport = {
+        sections: [
+          { sectionId: mockSection.id, subjectId: mockSubject.id },
+          { sectionId: 'section-456', subjectId: 'subject-456' },
+        ],
+        occurrences: [],
+        totalOverlapMinutes: 90,
+      };
+      subjectRepository.findByUserIdAndName.mockResolvedValue(null);
+      subjectRepository.findByUserIdAndCode.mockResolvedValue(null);
+      subjectRepository.create.mockResolvedValue(mockSubject);
+      sectionRepository.findBySubjectIdAndSecCode.mockResolvedValue(null);
+      sectionRepository.create.mockResolvedValue(mockSection);
+      eventGenerationService.generateEventsForSection.mockResolvedValue(generationResult(10));
+      clashDetectionService.detectSectionClashes.mockResolvedValue([clash]);
+
+      const result = await service.quickAddClass(mockUserId, validQuickAddDto, 'Asia/Bangkok');
+
+      expect(clashDetectionService.detectSectionClashes).toHaveBeenCalledWith(
+        mockUserId,
+        mockSection.id,
+        { timezone: 'Asia/Bangkok' },
+      );
+      expect(result.clashes).toEqual([clash]);
     });
 
     it('should use existing subject if found by name', async () => {
@@ -160,7 +212,7 @@ describe('QuickAddService', () => {
       subjectRepository.update.mockResolvedValue({ ...existingSubject, colorHex: '#3b82f6' });
       sectionRepository.findBySubjectIdAndSecCode.mockResolvedValue(null);
       sectionRepository.create.mockResolvedValue(mockSection);
-      eventGenerationService.generateEventsForSection.mockResolvedValue(5);
+      eventGenerationService.generateEventsForSection.mockResolvedValue(generationResult(5));
 
       const result = await service.quickAddClass(mockUserId, validQuickAddDto);
 
@@ -282,7 +334,7 @@ describe('QuickAddService', () => {
       subjectRepository.create.mockResolvedValue(mockSubject);
       sectionRepository.findBySubjectIdAndSecCode.mockResolvedValue(null);
       sectionRepository.create.mockResolvedValue(mockSection);
-      eventGenerationService.generateEventsForSection.mockResolvedValue(1);
+      eventGenerationService.generateEventsForSection.mockResolvedValue(generationResult(1));
 
       await service.quickAddClass(mockUserId, dtoWithUppercaseColor);
 
@@ -304,7 +356,7 @@ describe('QuickAddService', () => {
       subjectRepository.create.mockResolvedValue(mockSubject);
       sectionRepository.findBySubjectIdAndSecCode.mockResolvedValue(null);
       sectionRepository.create.mockResolvedValue(mockSection);
-      eventGenerationService.generateEventsForSection.mockResolvedValue(1);
+      eventGenerationService.generateEventsForSection.mockResolvedValue(generationResult(1));
 
       await service.quickAddClass(mockUserId, dtoWithoutHash);
 
@@ -331,7 +383,7 @@ describe('QuickAddService', () => {
       subjectRepository.create.mockResolvedValue(mockSubject);
       sectionRepository.findBySubjectIdAndSecCode.mockResolvedValue(null);
       sectionRepository.create.mockResolvedValue(mockSection);
-      eventGenerationService.generateEventsForSection.mockResolvedValue(1);
+      eventGenerationService.generateEventsForSection.mockResolvedValue(generationResult(1));
 
       const result = await service.quickAddClass(mockUserId, minimalDto);
 
@@ -14,6 +14,7 @@ import { LocalEvent } from '../../../infra/database/entities/local-event.entity'
 import { SavedFilter } from '../../../infra/database/entities/saved-filter.entity';
 import { ImportJob } from '../../../infra/database/entities/import-job.entity';
 import { ImportItem } from '../../../infra/database/entities/import-item.entity';
+import { Term } from '../../../infra/database/entities/term.entity';
 import { Repository } from 'typeorm';
 import { getRepositoryToken } from '@nestjs/typeorm';
 import { AuthService } from '../../auth/auth.service';
@@ -40,7 +41,7 @@ describe('Subjects Integration', () => {
           username: process.env.DB_USERNAME || 'test',
           password: process.env.DB_PASSWORD || 'test',
           database: process.env.DB_NAME || 'test_db',
-          entities: [User, CalendarAccount, Subject, Section, LocalEvent, SavedFilter, ImportJob, ImportItem],
+          entities: [User, CalendarAccount, Subject, Section, LocalEvent, SavedFilter, ImportJob, ImportItem, Term],
           synchronize: true,
           dropSchema: true,
         }),
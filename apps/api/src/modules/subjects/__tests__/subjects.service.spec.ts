@@ -3,6 +3,7 @@ import { ConflictException, NotFoundException, BadRequestException } from '@nest
 import { SubjectsService } from '../subjects.service';
 import { SubjectRepository } from '../../../infra/database/repositories/interfaces/subject-repository.interface';
 import { Subject } from '../../../infra/database/entities/subject.entity';
+import { UnitOfWork } from '../../../infra/database/repositories/unit-of-work';
 import { CreateSubjectDto } from '../dto/create-subject.dto';
 import { UpdateSubjectDto } from '../dto/update-subject.dto';
 
@@ -11,6 +12,7 @@ const SUBJECT_REPOSITORY_TOKEN = 'SubjectRepository';
 describe('SubjectsService', () => {
   let service: SubjectsService;
   let repository: jest.Mocked<SubjectRepository>;
+  let localEvents: { markDirtyBySubjectId: jest.Mock };
 
   const mockUserId = 'user-123';
   const mockSubjectId = 'subject-123';
@@ -39,6 +41,7 @@ describe('SubjectsService', () => {
       delete: jest.fn(),
       searchByText: jest.fn(),
     };
+    localEvents = { markDirtyBySubjectId: jest.fn() };
 
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -47,6 +50,10 @@ describe('SubjectsService', () => {
           provide: SUBJECT_REPOSITORY_TOKEN,
           useValue: mockRepository,
         },
+        {
+          provide: UnitOfWork,
+          useValue: { run: jest.fn(work => work({ subjects: mockRepository, localEvents })) },
+        },
       ],
     }).compile();
 
@@ -199,6 +206,16 @@ describe('SubjectsService', () => {
       expect(result.name).toBe('Updated Computer Science');
     });
 
+    it('should mark the subject events for the next sync to push the rename', async () => {
+      repository.findById.mockResolvedValue(mockSubject);
+      repository.findByUserIdAndName.mockResolvedValue(null);
+      repository.update.mockResolvedValue({ ...mockSubject, name: 'Updated Computer Science' });
+
+      await service.update(mockUserId, mockSubjectId, { name: 'Updated Computer Science' });
+
+      expect(localEvents.markDirtyBySubjectId).toHaveBeenCalledWith(mockSubjectId);
+    });
+
     it('should throw NotFoundException if subject not found', async () => {
       repository.findById.mockResolvedValue(null);
 
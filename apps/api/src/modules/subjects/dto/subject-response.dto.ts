@@ -5,6 +5,7 @@ export class SubjectResponseDto {
   code?: string;
   name: string;
   colorHex: string;
+  calendarId?: string;
   meta?: Record<string, any>;
   createdAt: Date;
   sectionsCount?: number;
@@ -16,6 +17,7 @@ export class SubjectResponseDto {
       code: subject.code,
       name: subject.name,
       colorHex: subject.colorHex,
+      calendarId: subject.calendarId,
       meta: subject.meta,
       createdAt: subject.createdAt,
       sectionsCount: subject.sections?.length || 0,
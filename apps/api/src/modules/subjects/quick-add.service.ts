@@ -7,11 +7,15 @@ import { SectionResponseDto } from '../sections/dto/section-response.dto';
 import { Subject } from '../../infra/database/entities/subject.entity';
 import { Section } from '../../infra/database/entities/section.entity';
 import { EventGenerationService } from '../events/event-generation.service';
+import { ClashDetectionService } from '../events/clash-detection.service';
+import { ClashReport } from '../events/event-clashes';
 
 export interface QuickAddResult {
   subject: SubjectResponseDto;
   section: SectionResponseDto;
   eventsGenerated: number;
+  // Clashes of the new class with the user's other classes
+  clashes: ClashReport[];
 }
 
 @Injectable()
@@ -22,9 +26,10 @@ export class QuickAddService {
     @Inject('SectionRepository')
     private readonly sectionRepository: SectionRepository,
     private readonly eventGenerationService: EventGenerationService,
+    private readonly clashDetectionService: ClashDetectionService,
   ) {}
 
-  async quickAddClass(userId: string, quickAddDto: QuickAddClassDto): Promise<QuickAddResult> {
+  async quickAddClass(userId: string, quickAddDto: QuickAddClassDto, timezone?: string): Promise<QuickAddResult> {
     // Validate input data
     this.validateQuickAddData(quickAddDto);
 
@@ -35,12 +40,20 @@ export class QuickAddService {
     const section = await this.createSection(subject.id, quickAddDto);
 
     // Step 3: Generate events
-    const eventsGenerated = await this.eventGenerationService.generateEventsForSection(section.id);
+    const { generated: eventsGenerated } = await this.eventGenerationService.generateEventsForSection(
+      userId,
+      section.id,
+      { timezone },
+    );
+
+    // Step 4: Check the new class against the rest of the timetable
+    const clashes = await this.clashDetectionService.detectSectionClashes(userId, section.id, { timezone });
 
     return {
       subject: SubjectResponseDto.fromEntity(subject),
       section: SectionResponseDto.fromEntity(section),
       eventsGenerated,
+      clashes,
     };
   }
 
@@ -43,8 +43,9 @@ export class SubjectsController {
   async quickAddClass(
     @CurrentUser('id') userId: string,
     @Body() quickAddDto: QuickAddClassDto,
+    @CurrentUser('timezone') timezone: string,
   ): Promise<QuickAddResult> {
-    return this.quickAddService.quickAddClass(userId, quickAddDto);
+    return this.quickAddService.quickAddClass(userId, quickAddDto, timezone);
   }
 
   @Get()
@@ -9,6 +9,7 @@ import { TypeOrmSubjectRepository } from '../../infra/database/repositories/type
 import { TypeOrmSectionRepository } from '../../infra/database/repositories/typeorm-section.repository';
 import { SubjectRepository } from '../../infra/database/repositories/interfaces/subject-repository.interface';
 import { SectionRepository } from '../../infra/database/repositories/interfaces/section-repository.interface';
+import { UnitOfWork } from '../../infra/database/repositories/unit-of-work';
 import { EventsModule } from '../events/events.module';
 
 @Module({
@@ -20,6 +21,7 @@ import { EventsModule } from '../events/events.module';
   providers: [
     SubjectsService,
     QuickAddService,
+    UnitOfWork,
     {
       provide: 'SubjectRepository',
       useClass: TypeOrmSubjectRepository,
@@ -4,12 +4,14 @@ import { CreateSubjectDto } from './dto/create-subject.dto';
 import { UpdateSubjectDto } from './dto/update-subject.dto';
 import { SubjectResponseDto } from './dto/subject-response.dto';
 import { Subject } from '../../infra/database/entities/subject.entity';
+import { UnitOfWork } from '../../infra/database/repositories/unit-of-work';
 
 @Injectable()
 export class SubjectsService {
   constructor(
     @Inject('SubjectRepository')
-    private readonly subjectRepository: SubjectRepository
+    private readonly subjectRepository: SubjectRepository,
+    private readonly unitOfWork: UnitOfWork,
   ) {}
 
   async create(userId: string, createSubjectDto: CreateSubjectDto): Promise<SubjectResponseDto> {
@@ -98,7 +100,15 @@ export class SubjectsService {
       updateData.meta = updateSubjectDto.meta;
     }
 
-    const updatedSubject = await this.subjectRepository.update(id, updateData);
+    // Synced events show the subject's name, code, colour and reminders, so
+    // mark them for the next sync to rewrite
+    const updatedSubject = await this.unitOfWork.run(async repositories => {
+      const subject = await repositories.subjects.update(id, updateData);
+      if (subject) {
+        await repositories.localEvents.markDirtyBySubjectId(id);
+      }
+      return subject;
+    });
     
     if (!updatedSubject) {
       throw new NotFoundException(`Subject with ID '${id}' not found`);
@@ -0,0 +1,81 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { TermsController } from '../terms.controller';
+import { TermsService } from '../terms.service';
+import { TermResponseDto } from '../dto/term-response.dto';
+import { JwtAuthGuard } from '../../auth/guards/auth.guard';
+
+describe('TermsController', () => {
+  let controller: TermsController;
+  let service: jest.Mocked<TermsService>;
+
+  const mockUserId = 'user-123';
+  const mockTermId = 'term-123';
+
+  const mockTermResponse: TermResponseDto = {
+    id: mockTermId,
+    name: 'Semester 2/2024',
+    startDate: '2024-01-15',
+    endDate: '2024-05-10',
+    blackouts: [],
+    sectionsCount: 2,
+  };
+
+  beforeEach(async () => {
+    const mockService = {
+      create: jest.fn(),
+      findAll: jest.fn(),
+      findOne: jest.fn(),
+      update: jest.fn(),
+      remove: jest.fn(),
+      regenerateEvents: jest.fn(),
+    };
+
+    const mockAuthGuard = {
+      canActivate: jest.fn(() => true),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [TermsController],
+      providers: [
+        {
+          provide: TermsService,
+          useValue: mockService,
+        },
+      ],
+    })
+      .overrideGuard(JwtAuthGuard)
+      .useValue(mockAuthGuard)
+      .compile();
+
+    controller = module.get<TermsController>(TermsController);
+    service = module.get(TermsService);
+  });
+
+  it('should list the user terms', async () => {
+    service.findAll.mockResolvedValue([mockTermResponse]);
+
+    await expect(controller.findAll(mockUserId)).resolves.toEqual([mockTermResponse]);
+    expect(service.findAll).toHaveBeenCalledWith(mockUserId);
+  });
+
+  it('should confirm deletion with a body', async () => {
+    service.remove.mockResolvedValue(undefined);
+
+    await expect(controller.remove(mockUserId, mockTermId)).resolves.toEqual({ deleted: true });
+    expect(service.remove).toHaveBeenCalledWith(mockUserId, mockTermId);
+  });
+
+  it('should regenerate events in the user timezone', async () => {
+    service.regenerateEvents.mockResolvedValue({ generated: 3, skipped: 1, replaced: 4, events: [] });
+
+    const result = await controller.regenerateEvents(
+      mockUserId,
+      mockTermId,
+      { sectionIds: ['section-123'] },
+      'Asia/Bangkok',
+    );
+
+    expect(service.regenerateEvents).toHaveBeenCalledWith(mockUserId, mockTermId, ['section-123'], 'Asia/Bangkok');
+    expect(result).toEqual({ generated: 3, skipped: 1, replaced: 4, events: [] });
+  });
+});
@@ -0,0 +1,187 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException, NotFoundException, BadRequestException } from '@nestjs/common';
+import { TermsService } from '../terms.service';
+import { EventGenerationService } from '../../events/event-generation.service';
+import { TermRepository } from '../../../infra/database/repositories/interfaces/term-repository.interface';
+import { Term } from '../../../infra/database/entities/term.entity';
+import { Section } from '../../../infra/database/entities/section.entity';
+import { CreateTermDto } from '../dto/create-term.dto';
+
+const TERM_REPOSITORY_TOKEN = 'TermRepository';
+
+describe('TermsService', () => {
+  let service: TermsService;
+  let termRepository: jest.Mocked<TermRepository>;
+  let eventGenerationService: jest.Mocked<EventGenerationService>;
+
+  const mockUserId = 'user-123';
+  const mockTermId = 'term-123';
+
+  // Mondays 2024-01-15 to 2024-04-29
+  const mondaySection = {
+    id: 'section-mon',
+    scheduleRules: [
+      { dayOfWeek: 1, startTime: '09:00', endTime: '10:30', startDate: '2024-01-15', endDate: '2024-04-30' },
+    ],
+  } as Section;
+
+  // Fridays 2024-01-19 to 2024-04-26
+  const fridaySection = {
+    id: 'section-fri',
+    scheduleRules: [
+      { dayOfWeek: 5, startTime: '13:00', endTime: '15:00', startDate: '2024-01-15', endDate: '2024-04-30' },
+    ],
+  } as Section;
+
+  const mockTerm: Term = {
+    id: mockTermId,
+    userId: mockUserId,
+    name: 'Semester 2/2024',
+    startDate: '2024-01-15',
+    endDate: '2024-05-10',
+    blackouts: [
+      { name: 'Midterm week', kind: 'midterm', startDate: '2024-03-04', endDate: '2024-03-08' },
+    ],
+    createdAt: new Date(),
+    user: null,
+    sections: [mondaySection, fridaySection],
+  };
+
+  const createDto: CreateTermDto = {
+    name: ' Semester 2/2024 ',
+    startDate: '2024-01-15',
+    endDate: '2024-05-10',
+    blackouts: [
+      { name: 'Midterm week', kind: 'midterm', startDate: '2024-03-04', endDate: '2024-03-08' },
+    ],
+  };
+
+  beforeEach(async () => {
+    const mockTermRepository = {
+      create: jest.fn(),
+      findById: jest.fn(),
+      findByUserId: jest.fn(),
+      findByUserIdAndName: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    };
+
+    const mockEventGenerationService = {
+      regenerateEventsForSection: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TermsService,
+        {
+          provide: TERM_REPOSITORY_TOKEN,
+          useValue: mockTermRepository,
+        },
+        {
+          provide: EventGenerationService,
+          useValue: mockEventGenerationService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<TermsService>(TermsService);
+    termRepository = module.get(TERM_REPOSITORY_TOKEN);
+    eventGenerationService = module.get(EventGenerationService);
+  });
+
+  describe('create', () => {
+    it('should create a term', async () => {
+      termRepository.findByUserIdAndName.mockResolvedValue(null);
+      termRepository.create.mockResolvedValue({ ...mockTerm, sections: [] });
+
+      const result = await service.create(mockUserId, createDto);
+
+      expect(termRepository.create).toHaveBeenCalledWith({
+        userId: mockUserId,
+        name: 'Semester 2/2024',
+        startDate: '2024-01-15',
+        endDate: '2024-05-10',
+        blackouts: createDto.blackouts,
+      });
+      expect(result.id).toBe(mockTermId);
+      expect(result.sectionsCount).toBe(0);
+    });
+
+    it('should throw ConflictException if a term with the name exists', async () => {
+      termRepository.findByUserIdAndName.mockResolvedValue(mockTerm);
+
+      await expect(service.create(mockUserId, createDto)).rejects.toThrow(ConflictException);
+    });
+
+    it('should throw BadRequestException for a blackout outside the term', async () => {
+      termRepository.findByUserIdAndName.mockResolvedValue(null);
+
+      await expect(
+        service.create(mockUserId, {
+          ...createDto,
+          blackouts: [{ name: 'Final exams', kind: 'exam', startDate: '2024-05-06', endDate: '2024-05-17' }],
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(termRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findOne', () => {
+    it('should throw NotFoundException if term belongs to different user', async () => {
+      termRepository.findById.mockResolvedValue({ ...mockTerm, userId: 'other-user' });
+
+      await expect(service.findOne(mockUserId, mockTermId)).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('update', () => {
+    it('should list sections with classes on added or removed blackout dates', async () => {
+      termRepository.findById.mockResolvedValue(mockTerm);
+      termRepository.update.mockImplementation(async (id, updates) => ({ ...mockTerm, ...updates }));
+
+      // Songkran falls on a Monday; the midterm week is unchanged
+      const result = await service.update(mockUserId, mockTermId, {
+        blackouts: [
+          ...mockTerm.blackouts,
+          { name: 'Songkran', kind: 'holiday', startDate: '2024-04-15', endDate: '2024-04-15' },
+        ],
+      });
+
+      expect(result.affectedSectionIds).toEqual(['section-mon']);
+      expect(result.blackouts.map(blackout => blackout.name)).toEqual(['Midterm week', 'Songkran']);
+    });
+
+    it('should not list sections when the blackouts are unchanged', async () => {
+      termRepository.findById.mockResolvedValue(mockTerm);
+      termRepository.findByUserIdAndName.mockResolvedValue(null);
+      termRepository.update.mockImplementation(async (id, updates) => ({ ...mockTerm, ...updates }));
+
+      const result = await service.update(mockUserId, mockTermId, { name: 'Spring 2024' });
+
+      expect(result.name).toBe('Spring 2024');
+      expect(result.affectedSectionIds).toEqual([]);
+    });
+  });
+
+  describe('regenerateEvents', () => {
+    it('should regenerate only the requested sections of the term', async () => {
+      termRepository.findById.mockResolvedValue(mockTerm);
+      eventGenerationService.regenerateEventsForSection.mockResolvedValue({
+        generated: 14,
+        skipped: 2,
+        replaced: 16,
+        events: [],
+      });
+
+      const result = await service.regenerateEvents(mockUserId, mockTermId, ['section-fri'], 'Asia/Bangkok');
+
+      expect(eventGenerationService.regenerateEventsForSection).toHaveBeenCalledTimes(1);
+      expect(eventGenerationService.regenerateEventsForSection).toHaveBeenCalledWith(
+        mockUserId,
+        'section-fri',
+        { timezone: 'Asia/Bangkok' },
+      );
+      expect(result.generated).toBe(14);
+    });
+  });
+});
@@ -0,0 +1,38 @@
+import { IsNotEmpty, IsOptional, IsString, IsArray, IsDateString, IsIn, ValidateNested, MaxLength } from 'class-validator';
+import { Type } from 'class-transformer';
+import { BLACKOUT_KINDS, BlackoutKind } from '../../../infra/database/entities/term.entity';
+
+export class TermBlackoutDto {
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @IsIn(BLACKOUT_KINDS, { message: `Blackout kind must be one of: ${BLACKOUT_KINDS.join(', ')}` })
+  kind: BlackoutKind;
+
+  @IsDateString({}, { message: 'Blackout start date must be a valid ISO date string (YYYY-MM-DD)' })
+  startDate: string;
+
+  @IsDateString({}, { message: 'Blackout end date must be a valid ISO date string (YYYY-MM-DD)' })
+  endDate: string;
+}
+
+export class CreateTermDto {
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @IsDateString({}, { message: 'Start date must be a valid ISO date string (YYYY-MM-DD)' })
+  startDate: string;
+
+  @IsDateString({}, { message: 'End date must be a valid ISO date string (YYYY-MM-DD)' })
+  endDate: string;
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => TermBlackoutDto)
+  blackouts?: TermBlackoutDto[];
+}
@@ -0,0 +1,9 @@
+import { IsOptional, IsArray, IsString } from 'class-validator';
+
+export class RegenerateTermDto {
+  // Sections to regenerate; defaults to every section in the term
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  sectionIds?: string[];
+}
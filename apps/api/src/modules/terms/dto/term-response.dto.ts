@@ -0,0 +1,29 @@
+import { Term, TermBlackout } from '../../../infra/database/entities/term.entity';
+
+export class TermResponseDto {
+  id: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+  blackouts: TermBlackout[];
+  sectionsCount: number;
+  // Sections with classes on dates an update blacked out or freed up; their
+  // events are out of date until regenerated
+  affectedSectionIds?: string[];
+
+  static fromEntity(term: Term, affectedSectionIds?: string[]): TermResponseDto {
+    return {
+      id: term.id,
+      name: term.name,
+      startDate: term.startDate,
+      endDate: term.endDate,
+      blackouts: term.blackouts || [],
+      sectionsCount: term.sections?.length || 0,
+      ...(affectedSectionIds && { affectedSectionIds }),
+    };
+  }
+
+  static fromEntities(terms: Term[]): TermResponseDto[] {
+    return terms.map(term => this.fromEntity(term));
+  }
+}
@@ -0,0 +1,85 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Param,
+  Delete,
+  UseGuards,
+  ParseUUIDPipe,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { TermsService } from './terms.service';
+import { CreateTermDto } from './dto/create-term.dto';
+import { UpdateTermDto } from './dto/update-term.dto';
+import { RegenerateTermDto } from './dto/regenerate-term.dto';
+import { TermResponseDto } from './dto/term-response.dto';
+import { EventGenerationResultDto } from '../events/dto/event-generation-result.dto';
+import { JwtAuthGuard } from '../auth/guards/auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+@Controller('terms')
+@UseGuards(JwtAuthGuard)
+export class TermsController {
+  constructor(private readonly termsService: TermsService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async create(
+    @CurrentUser('id') userId: string,
+    @Body() createTermDto: CreateTermDto,
+  ): Promise<TermResponseDto> {
+    return this.termsService.create(userId, createTermDto);
+  }
+
+  @Get()
+  async findAll(@CurrentUser('id') userId: string): Promise<TermResponseDto[]> {
+    return this.termsService.findAll(userId);
+  }
+
+  @Get(':id')
+  async findOne(
+    @CurrentUser('id') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<TermResponseDto> {
+    return this.termsService.findOne(userId, id);
+  }
+
+  @Put(':id')
+  async update(
+    @CurrentUser('id') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateTermDto: UpdateTermDto,
+  ): Promise<TermResponseDto> {
+    return this.termsService.update(userId, id, updateTermDto);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.OK)
+  async remove(
+    @CurrentUser('id') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<{ deleted: boolean }> {
+    await this.termsService.remove(userId, id);
+    return { deleted: true };
+  }
+
+  @Post(':id/regenerate')
+  @HttpCode(HttpStatus.CREATED)
+  async regenerateEvents(
+    @CurrentUser('id') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() regenerateTermDto: RegenerateTermDto,
+    @CurrentUser('timezone') timezone: string,
+  ): Promise<EventGenerationResultDto> {
+    const result = await this.termsService.regenerateEvents(
+      userId,
+      id,
+      regenerateTermDto.sectionIds,
+      timezone,
+    );
+    return EventGenerationResultDto.fromResult(result);
+  }
+}
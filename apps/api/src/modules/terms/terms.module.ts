@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { TermsService } from './terms.service';
+import { TermsController } from './terms.controller';
+import { Term } from '../../infra/database/entities/term.entity';
+import { TypeOrmTermRepository } from '../../infra/database/repositories/typeorm-term.repository';
+import { EventsModule } from '../events/events.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Term]), EventsModule],
+  controllers: [TermsController],
+  providers: [
+    TermsService,
+    {
+      provide: 'TermRepository',
+      useClass: TypeOrmTermRepository,
+    },
+  ],
+  exports: [TermsService, 'TermRepository'],
+})
+export class TermsModule {}
@@ -0,0 +1,217 @@
+import { Injectable, ConflictException, NotFoundException, BadRequestException, Inject } from '@nestjs/common';
+import { TermRepository } from '../../infra/database/repositories/interfaces/term-repository.interface';
+import { Term, TermBlackout } from '../../infra/database/entities/term.entity';
+import { Section } from '../../infra/database/entities/section.entity';
+import { EventGenerationService, EventGenerationResult } from '../events/event-generation.service';
+import { expandDateRanges, expandScheduleRule } from '../../common/utils/schedule-recurrence';
+import { CreateTermDto } from './dto/create-term.dto';
+import { UpdateTermDto } from './dto/update-term.dto';
+import { TermResponseDto } from './dto/term-response.dto';
+
+@Injectable()
+export class TermsService {
+  constructor(
+    @Inject('TermRepository')
+    private readonly termRepository: TermRepository,
+    private readonly eventGenerationService: EventGenerationService,
+  ) {}
+
+  async create(userId: string, createTermDto: CreateTermDto): Promise<TermResponseDto> {
+    const name = createTermDto.name.trim();
+
+    const existingTerm = await this.termRepository.findByUserIdAndName(userId, name);
+    if (existingTerm) {
+      throw new ConflictException(`Term '${name}' already exists`);
+    }
+
+    const startDate = createTermDto.startDate.substring(0, 10);
+    const endDate = createTermDto.endDate.substring(0, 10);
+    const blackouts = this.normalizeBlackouts(createTermDto.blackouts || []);
+    this.validateTerm(startDate, endDate, blackouts);
+
+    const term = await this.termRepository.create({ userId, name, startDate, endDate, blackouts });
+    return TermResponseDto.fromEntity(term);
+  }
+
+  async findAll(userId: string): Promise<TermResponseDto[]> {
+    const terms = await this.termRepository.findByUserId(userId);
+    return TermResponseDto.fromEntities(terms);
+  }
+
+  async findOne(userId: string, id: string): Promise<TermResponseDto> {
+    const term = await this.findOwnedTerm(userId, id);
+    return TermResponseDto.fromEntity(term);
+  }
+
+  /**
+   * Updates a term. The response lists the sections whose generated events no
+   * longer match the new blackouts, so the caller can offer to regenerate them.
+   */
+  async update(userId: string, id: string, updateTermDto: UpdateTermDto): Promise<TermResponseDto> {
+    const existingTerm = await this.findOwnedTerm(userId, id);
+
+    const updateData: Partial<Term> = {};
+
+    if (updateTermDto.name !== undefined) {
+      const name = updateTermDto.name.trim();
+      const existingByName = await this.termRepository.findByUserIdAndName(userId, name);
+      if (existingByName && existingByName.id !== id) {
+        throw new ConflictException(`Term '${name}' already exists`);
+      }
+      updateData.name = name;
+    }
+
+    if (updateTermDto.startDate !== undefined) {
+      updateData.startDate = updateTermDto.startDate.substring(0, 10);
+    }
+
+    if (updateTermDto.endDate !== undefined) {
+      updateData.endDate = updateTermDto.endDate.substring(0, 10);
+    }
+
+    if (updateTermDto.blackouts !== undefined) {
+      updateData.blackouts = this.normalizeBlackouts(updateTermDto.blackouts);
+    }
+
+    this.validateTerm(
+      updateData.startDate ?? existingTerm.startDate,
+      updateData.endDate ?? existingTerm.endDate,
+      updateData.blackouts ?? existingTerm.blackouts,
+    );
+
+    const affectedSectionIds = updateData.blackouts
+      ? this.findAffectedSections(existingTerm.sections || [], existingTerm.blackouts, updateData.blackouts)
+      : [];
+
+    const updatedTerm = await this.termRepository.update(id, updateData);
+
+    if (!updatedTerm) {
+      throw new NotFoundException(`Term with ID '${id}' not found`);
+    }
+
+    return TermResponseDto.fromEntity(updatedTerm, affectedSectionIds);
+  }
+
+  async remove(userId: string, id: string): Promise<void> {
+    await this.findOwnedTerm(userId, id);
+
+    // Sections in the term are kept and stop skipping its blackouts
+    const deleted = await this.termRepository.delete(id);
+
+    if (!deleted) {
+      throw new NotFoundException(`Term with ID '${id}' not found`);
+    }
+  }
+
+  /**
+   * Regenerates the events of the term's sections, or the given subset, so
+   * they follow its current blackouts
+   */
+  async regenerateEvents(
+    userId: string,
+    id: string,
+    sectionIds?: string[],
+    timezone?: string,
+  ): Promise<EventGenerationResult> {
+    const term = await this.findOwnedTerm(userId, id);
+
+    const sections = (term.sections || []).filter(
+      section => !sectionIds || sectionIds.includes(section.id),
+    );
+
+    const result: EventGenerationResult = {
+      generated: 0,
+      skipped: 0,
+      replaced: 0,
+      deleted: 0,
+      unchanged: 0,
+      events: [],
+      changes: [],
+    };
+
+    for (const section of sections) {
+      const sectionResult = await this.eventGenerationService.regenerateEventsForSection(
+        userId,
+        section.id,
+        { timezone },
+      );
+      result.generated += sectionResult.generated;
+      result.skipped += sectionResult.skipped;
+      result.replaced += sectionResult.replaced;
+      result.deleted += sectionResult.deleted || 0;
+      result.unchanged += sectionResult.unchanged || 0;
+      result.events.push(...sectionResult.events);
+      result.changes.push(...(sectionResult.changes || []));
+    }
+
+    return result;
+  }
+
+  private async findOwnedTerm(userId: string, id: string): Promise<Term> {
+    const term = await this.termRepository.findById(id);
+
+    if (!term || term.userId !== userId) {
+      throw new NotFoundException(`Term with ID '${id}' not found`);
+    }
+
+    return term;
+  }
+
+  private validateTerm(startDate: string, endDate: string, blackouts: TermBlackout[]): void {
+    if (startDate >= endDate) {
+      throw new BadRequestException(`Start date (${startDate}) must be before end date (${endDate})`);
+    }
+
+    for (const blackout of blackouts) {
+      if (blackout.startDate > blackout.endDate) {
+        throw new BadRequestException(
+          `Blackout '${blackout.name}' must not end (${blackout.endDate}) before it starts (${blackout.startDate})`
+        );
+      }
+
+      if (blackout.startDate < startDate || blackout.endDate > endDate) {
+        throw new BadRequestException(
+          `Blackout '${blackout.name}' must be within the term (${startDate} to ${endDate})`
+        );
+      }
+    }
+  }
+
+  /**
+   * Lists sections with a class on a date that was added to or removed from
+   * the blackouts
+   */
+  private findAffectedSections(
+    sections: Section[],
+    previousBlackouts: TermBlackout[],
+    blackouts: TermBlackout[],
+  ): string[] {
+    const previousDates = expandDateRanges(previousBlackouts || []);
+    const dates = expandDateRanges(blackouts);
+    const changedDates = new Set([
+      ...Array.from(previousDates).filter(date => !dates.has(date)),
+      ...Array.from(dates).filter(date => !previousDates.has(date)),
+    ]);
+
+    if (changedDates.size === 0) {
+      return [];
+    }
+
+    return sections
+      .filter(section => (section.scheduleRules || []).some(rule =>
+        expandScheduleRule(rule).some(date => changedDates.has(date)),
+      ))
+      .map(section => section.id);
+  }
+
+  private normalizeBlackouts(blackouts: TermBlackout[]): TermBlackout[] {
+    return blackouts
+      .map(blackout => ({
+        name: blackout.name.trim(),
+        kind: blackout.kind,
+        startDate: blackout.startDate.substring(0, 10),
+        endDate: blackout.endDate.substring(0, 10),
+      }))
+      .sort((a, b) => a.startDate.localeCompare(b.startDate));
+  }
+}
@@ -15,5 +15,18 @@ const customJestConfig = {
   },
 }
 
+// FullCalendar and the preact it renders with ship only ES modules, so they
+// are transformed along with the app's own code
+const esModules = ['@fullcalendar', 'preact'].join('|')
+
 // createJestConfig is exported this way to ensure that next/jest can load the Next.js config which is async
-module.exports = createJestConfig(customJestConfig)
\ No newline at end of file
+module.exports = async () => {
+  const config = await createJestConfig(customJestConfig)()
+  return {
+    ...config,
+    transformIgnorePatterns: [
+      `/node_modules/(?!(${esModules})/)`,
+      ...config.transformIgnorePatterns.filter(pattern => !pattern.includes('node_modules')),
+    ],
+  }
+}
@@ -2,15 +2,59 @@
 
 import { useState, useEffect } from 'react'
 import FullCalendar from '@fullcalendar/react'
+import { EventDropArg } from '@fullcalendar/core'
 import dayGridPlugin from '@fullcalendar/daygrid'
 import timeGridPlugin from '@fullcalendar/timegrid'
-import interactionPlugin from '@fullcalendar/interaction'
-import { useQuery } from '@tanstack/react-query'
-import { eventsApi } from '@/lib/api'
+import interactionPlugin, { EventResizeDoneArg } from '@fullcalendar/interaction'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { eventsApi, calendarsApi } from '@/lib/api'
+import { getEventColors } from '@/lib/colors'
+import { useOptimisticUpdates } from '@/hooks/useOptimisticUpdates'
 import QuickAddClass from './QuickAddClass'
 import SyncControls from './SyncControls'
 import SyncHistory from './SyncHistory'
 import ReminderSettings from './ReminderSettings'
+import ClashPanel, { ClashReport } from './ClashPanel'
+import EventEditPanel, { EditableEvent } from './EventEditPanel'
+import RescheduleScopeDialog, { RescheduleScope } from './RescheduleScopeDialog'
+import SubjectColorLegend, { SubjectColor } from './SubjectColorLegend'
+
+// Regenerating the following classes of a series takes longer than the
+// optimistic update's default timeout
+const SERIES_RESCHEDULE_TIMEOUT_MS = 60000
+
+// An event as GET /api/events lists it
+interface EventListItem {
+  id: string
+  title: string
+  start: string
+  end: string
+  eventDate: string
+  startTime: string
+  endTime: string
+  color?: string
+  room?: string
+  teacher?: string
+  titleOverride?: string
+  notes?: string
+  exceptionType?: 'moved' | 'extra'
+  originalDate?: string
+  subject?: { id: string; code?: string; name?: string }
+}
+
+interface EventPage {
+  data: EventListItem[]
+  nextCursor?: string
+}
+
+// A dragged or resized class waiting for the user to pick what it applies to
+interface PendingReschedule {
+  event: EventListItem
+  slot: { eventDate: string; startTime: string; endTime: string }
+  start: string
+  end: string
+  revert: () => void
+}
 
 interface CalendarEvent {
   id: string
@@ -19,76 +63,211 @@ interface CalendarEvent {
   end: string
   backgroundColor?: string
   borderColor?: string
+  textColor?: string
+  classNames?: string[]
   extendedProps?: {
     subject?: string
     location?: string
     instructor?: string
-    type?: string
+    exceptionType?: 'moved' | 'extra'
+    originalDate?: string
+    clash?: boolean
   }
 }
 
-const SUBJECT_COLORS = {
-  'Mathematics': { bg: '#3b82f6', border: '#2563eb' },
-  'Physics': { bg: '#ef4444', border: '#dc2626' },
-  'Chemistry': { bg: '#10b981', border: '#059669' },
-  'Biology': { bg: '#f59e0b', border: '#d97706' },
-  'Computer Science': { bg: '#8b5cf6', border: '#7c3aed' },
-  'English': { bg: '#06b6d4', border: '#0891b2' },
-  'History': { bg: '#84cc16', border: '#65a30d' },
-  'default': { bg: '#6b7280', border: '#4b5563' }
+// Moved classes and extra sessions stand out from the regular schedule
+const EXCEPTION_LABELS = {
+  moved: 'Rescheduled',
+  extra: 'Extra session',
+}
+
+const exceptionClassNames = ['border-2', 'border-dashed']
+
+// Classes that overlap another section's are outlined in red
+const CLASH_BORDER_COLOR = '#dc2626'
+
+const MINUTES_PER_DAY = 24 * 60
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+const toTime = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`
+
+const addDays = (date: string, days: number) => {
+  const result = new Date(`${date}T00:00:00Z`)
+  result.setUTCDate(result.getUTCDate() + days)
+  return result.toISOString().split('T')[0]
+}
+
+// Works out a class's new slot from how far FullCalendar moved its start and
+// end, in the class's own date and times so the browser's timezone does not
+// matter; null when the class would no longer start and end on one day
+const shiftSlot = (
+  event: EventListItem,
+  startDelta: { days: number; milliseconds: number },
+  endDelta: { days: number; milliseconds: number }
+) => {
+  const start = startDelta.days * MINUTES_PER_DAY + toMinutes(event.startTime) + startDelta.milliseconds / 60000
+  const end = endDelta.days * MINUTES_PER_DAY + toMinutes(event.endTime) + endDelta.milliseconds / 60000
+  const dayOffset = Math.floor(start / MINUTES_PER_DAY)
+  const dayStart = dayOffset * MINUTES_PER_DAY
+
+  if (end <= start || end - dayStart > MINUTES_PER_DAY) {
+    return null
+  }
+
+  return {
+    eventDate: addDays(event.eventDate, dayOffset),
+    startTime: toTime(start - dayStart),
+    endTime: toTime(end - dayStart),
+  }
+}
+
+// The visible range is loaded in full, a page at a time
+const fetchEvents = async (from: string, to: string): Promise<EventListItem[]> => {
+  const events: EventListItem[] = []
+  let cursor: string | undefined
+
+  do {
+    const page = await eventsApi.getAll({ from, to, cursor }) as EventPage
+    events.push(...page.data)
+    cursor = page.nextCursor
+  } while (cursor)
+
+  return events
 }
 
 export default function CalendarDashboard() {
   const [currentView, setCurrentView] = useState('dayGridMonth')
   const [isQuickAddOpen, setIsQuickAddOpen] = useState(false)
   const [isReminderSettingsOpen, setIsReminderSettingsOpen] = useState(false)
+  const [selectedEvent, setSelectedEvent] = useState<EditableEvent | null>(null)
+  const [pendingReschedule, setPendingReschedule] = useState<PendingReschedule | null>(null)
   const [dateRange, setDateRange] = useState({
     start: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
     end: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0]
   })
 
+  const queryClient = useQueryClient()
+  const eventsQueryKey = ['events', dateRange.start, dateRange.end]
+
   const { data: events = [], isLoading, error } = useQuery({
-    queryKey: ['events', dateRange.start, dateRange.end],
-    queryFn: () => eventsApi.getAll({
-      from: dateRange.start,
-      to: dateRange.end
-    }),
+    queryKey: eventsQueryKey,
+    queryFn: () => fetchEvents(dateRange.start, dateRange.end),
     staleTime: 5 * 60 * 1000, // 5 minutes
   })
 
-  const calendarEvents: CalendarEvent[] = (events as any[]).map((event: any) => {
-    const subjectName = event.subject?.name || 'default'
-    const colors = SUBJECT_COLORS[subjectName as keyof typeof SUBJECT_COLORS] || SUBJECT_COLORS.default
+  const { data: clashes = [], isLoading: isLoadingClashes } = useQuery({
+    queryKey: ['clashes', dateRange.start, dateRange.end],
+    queryFn: () => eventsApi.getClashes({
+      startDate: dateRange.start,
+      endDate: dateRange.end
+    }) as Promise<ClashReport[]>,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  })
+
+  const { data: subjectColors = [] } = useQuery({
+    queryKey: ['subject-colors'],
+    queryFn: async () => ((await calendarsApi.getSubjectColors()) as { data: SubjectColor[] }).data,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  })
+
+  const clashingEventIds = new Set(
+    clashes.flatMap(clash => clash.occurrences.flatMap(occurrence =>
+      occurrence.events.map(event => event.eventId)
+    ))
+  )
+
+  const calendarEvents: CalendarEvent[] = events.map((event) => {
+    const colors = getEventColors(event.color)
+    const exceptionType = event.exceptionType
+    const clash = clashingEventIds.has(event.id)
     
     return {
       id: event.id,
-      title: event.title || `${event.subject?.name} - ${event.section?.name}`,
-      start: event.startTime,
-      end: event.endTime,
-      backgroundColor: colors.bg,
-      borderColor: colors.border,
+      title: exceptionType ? `${EXCEPTION_LABELS[exceptionType]}: ${event.title}` : event.title,
+      start: event.start,
+      end: event.end,
+      backgroundColor: colors.backgroundColor,
+      borderColor: clash ? CLASH_BORDER_COLOR : exceptionType ? '#111827' : colors.borderColor,
+      textColor: colors.textColor,
+      classNames: [...(exceptionType ? exceptionClassNames : []), ...(clash ? ['border-2'] : [])],
       extendedProps: {
         subject: event.subject?.name,
-        location: event.location,
-        instructor: event.instructor,
-        type: event.type
+        location: event.room,
+        instructor: event.teacher,
+        exceptionType,
+        originalDate: event.originalDate,
+        clash
       }
     }
   })
 
   const handleEventClick = (clickInfo: any) => {
-    const event = clickInfo.event
-    const props = event.extendedProps
-    
-    const details = [
-      props.subject && `Subject: ${props.subject}`,
-      props.location && `Location: ${props.location}`,
-      props.instructor && `Instructor: ${props.instructor}`,
-      props.type && `Type: ${props.type}`,
-      `Time: ${event.start?.toLocaleString()} - ${event.end?.toLocaleString()}`
-    ].filter(Boolean).join('\n')
-    
-    alert(`${event.title}\n\n${details}`)
+    const event = events.find(item => item.id === clickInfo.event.id)
+    if (event) {
+      setSelectedEvent({ ...event, clash: clashingEventIds.has(event.id) })
+    }
+  }
+
+  const { updateOptimisticItem } = useOptimisticUpdates<EventListItem>({
+    queryKey: eventsQueryKey,
+    errorMessage: 'Could Not Reschedule Class',
+  })
+
+  // Drops and resizes both wait for a scope before anything is saved
+  const handleEventChange = (changeInfo: EventDropArg | EventResizeDoneArg) => {
+    const { start, end } = changeInfo.event
+    const event = events.find(item => item.id === changeInfo.event.id)
+    const startDelta = 'delta' in changeInfo ? changeInfo.delta : changeInfo.startDelta
+    const endDelta = 'delta' in changeInfo ? changeInfo.delta : changeInfo.endDelta
+    const slot = event && shiftSlot(event, startDelta, endDelta)
+
+    if (!event || !slot || !start || !end) {
+      changeInfo.revert()
+      return
+    }
+
+    setPendingReschedule({
+      event,
+      slot,
+      start: start.toISOString(),
+      end: end.toISOString(),
+      revert: changeInfo.revert,
+    })
+  }
+
+  const handleRescheduleScope = (scope: RescheduleScope) => {
+    if (!pendingReschedule) return
+    const { event, slot, start, end, revert } = pendingReschedule
+    setPendingReschedule(null)
+
+    updateOptimisticItem(
+      event.id,
+      { ...slot, start, end },
+      () => eventsApi.update(event.id, { ...slot, scope }) as Promise<EventListItem>,
+      {
+        timeout: scope === 'occurrence' ? undefined : SERIES_RESCHEDULE_TIMEOUT_MS,
+        onSuccess: () => {
+          queryClient.invalidateQueries({ queryKey: ['clashes'] })
+        }
+      }
+    )
+      .catch(() => revert())
+      .finally(() => {
+        // Settled or not, the rest of a series may have moved on the server, so it is loaded again
+        if (scope !== 'occurrence') {
+          queryClient.invalidateQueries({ queryKey: ['events'] })
+        }
+      })
+  }
+
+  const handleRescheduleCancel = () => {
+    pendingReschedule?.revert()
+    setPendingReschedule(null)
   }
 
   const handleDatesSet = (dateInfo: any) => {
@@ -158,6 +337,8 @@ export default function CalendarDashboard() {
             
             <SyncHistory />
             
+            <ClashPanel clashes={clashes} isLoading={isLoadingClashes} />
+            
             <button
               onClick={() => setIsReminderSettingsOpen(true)}
               className="inline-flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
@@ -208,7 +389,7 @@ export default function CalendarDashboard() {
       <div className="p-6">
         {isLoading ? (
           <div className="flex items-center justify-center h-96">
-            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600" role="status" aria-label="Loading classes"></div>
           </div>
         ) : (
           <FullCalendar
@@ -221,6 +402,9 @@ export default function CalendarDashboard() {
             }}
             events={calendarEvents}
             eventClick={handleEventClick}
+            editable={true}
+            eventDrop={handleEventChange}
+            eventResize={handleEventChange}
             datesSet={handleDatesSet}
             height="auto"
             eventDisplay="block"
@@ -251,22 +435,18 @@ export default function CalendarDashboard() {
       </div>
 
       {/* Legend */}
-      <div className="px-6 py-4 border-t border-gray-200">
-        <h3 className="text-sm font-medium text-gray-900 mb-3">Subject Colors</h3>
-        <div className="flex flex-wrap gap-4">
-          {Object.entries(SUBJECT_COLORS).map(([subject, colors]) => (
-            subject !== 'default' && (
-              <div key={subject} className="flex items-center space-x-2">
-                <div
-                  className="w-3 h-3 rounded"
-                  style={{ backgroundColor: colors.bg }}
-                />
-                <span className="text-xs text-gray-600">{subject}</span>
-              </div>
-            )
-          ))}
+      <SubjectColorLegend subjects={subjectColors}>
+        {Object.entries(EXCEPTION_LABELS).map(([type, label]) => (
+          <div key={type} className="flex items-center space-x-2">
+            <div className="w-3 h-3 rounded border-2 border-dashed border-gray-900" />
+            <span className="text-xs text-gray-600">{label}</span>
+          </div>
+        ))}
+        <div className="flex items-center space-x-2">
+          <div className="w-3 h-3 rounded border-2" style={{ borderColor: CLASH_BORDER_COLOR }} />
+          <span className="text-xs text-gray-600">Clash</span>
         </div>
-      </div>
+      </SubjectColorLegend>
 
       {/* Quick Add Modal */}
       <QuickAddClass
@@ -282,6 +462,20 @@ export default function CalendarDashboard() {
         isOpen={isReminderSettingsOpen}
         onClose={() => setIsReminderSettingsOpen(false)}
       />
+
+      {/* Event Edit Modal */}
+      <EventEditPanel
+        event={selectedEvent}
+        onClose={() => setSelectedEvent(null)}
+      />
+
+      {/* Reschedule Scope Prompt */}
+      <RescheduleScopeDialog
+        title={pendingReschedule?.event.title ?? null}
+        isSeries={!pendingReschedule?.event.exceptionType}
+        onChoose={handleRescheduleScope}
+        onCancel={handleRescheduleCancel}
+      />
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,133 @@
+'use client'
+
+import { useState } from 'react'
+
+interface ClashSection {
+  sectionId: string
+  subjectId: string
+  secCode?: string
+  subjectCode?: string
+  subjectName?: string
+}
+
+interface ClashEvent {
+  eventId?: string
+  sectionId: string
+  startTime: string
+  endTime: string
+  room?: string
+}
+
+export interface ClashReport {
+  sections: [ClashSection, ClashSection]
+  occurrences: {
+    date: string
+    overlapStart: string
+    overlapEnd: string
+    overlapMinutes: number
+    events: [ClashEvent, ClashEvent]
+  }[]
+  totalOverlapMinutes: number
+}
+
+interface ClashPanelProps {
+  clashes: ClashReport[]
+  isLoading?: boolean
+  className?: string
+}
+
+const formatSection = (section: ClashSection) => {
+  const subject = section.subjectCode || section.subjectName || 'Class'
+  return section.secCode ? `${subject} Sec ${section.secCode}` : subject
+}
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  })
+
+export default function ClashPanel({ clashes, isLoading = false, className = '' }: ClashPanelProps) {
+  const [isOpen, setIsOpen] = useState(false)
+
+  return (
+    <div className={`relative ${className}`}>
+      {/* Clashes Button */}
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`inline-flex items-center px-3 py-2 text-sm font-medium border rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 ${
+          clashes.length > 0
+            ? 'text-red-700 bg-red-50 border-red-300 hover:bg-red-100 focus:ring-red-500'
+            : 'text-gray-700 bg-white border-gray-300 hover:bg-gray-50 focus:ring-gray-500'
+        }`}
+      >
+        <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L3.732 16.5c-.77.833.192 2.5 1.732 2.5z" />
+        </svg>
+        Clashes{clashes.length > 0 && ` (${clashes.length})`}
+      </button>
+
+      {/* Clashes Panel */}
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-2 w-96 bg-white border border-gray-200 rounded-lg shadow-lg z-50">
+          <div className="p-4">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-medium text-gray-900">Timetable Clashes</h3>
+              <button
+                onClick={() => setIsOpen(false)}
+                className="text-gray-400 hover:text-gray-600"
+                aria-label="Close clashes"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            {/* Loading State */}
+            {isLoading && (
+              <div className="flex items-center justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900" role="status" aria-label="Loading clashes"></div>
+              </div>
+            )}
+
+            {/* Empty State */}
+            {!isLoading && clashes.length === 0 && (
+              <div className="text-center py-8">
+                <div className="text-gray-600 mb-2">No clashes</div>
+                <div className="text-sm text-gray-500">None of your classes in this range overlap</div>
+              </div>
+            )}
+
+            {/* Clash List */}
+            {!isLoading && clashes.length > 0 && (
+              <div className="space-y-3 max-h-96 overflow-y-auto">
+                {clashes.map((clash) => (
+                  <div
+                    key={`${clash.sections[0].sectionId}-${clash.sections[1].sectionId}`}
+                    className="p-3 border border-red-200 rounded-lg"
+                  >
+                    <div className="text-sm font-medium text-gray-900 mb-1">
+                      {formatSection(clash.sections[0])} and {formatSection(clash.sections[1])}
+                    </div>
+                    <div className="text-xs text-gray-600 mb-2">
+                      {clash.occurrences.length} {clash.occurrences.length === 1 ? 'date' : 'dates'}, {clash.totalOverlapMinutes} min overlap in total
+                    </div>
+                    <ul className="space-y-1">
+                      {clash.occurrences.map((occurrence) => (
+                        <li key={`${occurrence.date}-${occurrence.overlapStart}`} className="text-xs text-red-700">
+                          {formatDate(occurrence.date)}, {occurrence.overlapStart} - {occurrence.overlapEnd} ({occurrence.overlapMinutes} min)
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,267 @@
+'use client'
+
+import { useForm } from 'react-hook-form'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { eventsApi } from '@/lib/api'
+
+// The parts of an event from GET /api/events the panel shows and edits
+export interface EditableEvent {
+  id: string
+  title: string
+  eventDate: string
+  startTime: string
+  endTime: string
+  room?: string
+  teacher?: string
+  titleOverride?: string
+  notes?: string
+  exceptionType?: 'moved' | 'extra'
+  originalDate?: string
+  subject?: { code?: string; name?: string }
+  clash?: boolean
+}
+
+interface EventEditFormData {
+  eventDate: string
+  startTime: string
+  endTime: string
+  room: string
+  titleOverride: string
+  notes: string
+}
+
+interface EventEditPanelProps {
+  event: EditableEvent | null
+  onClose: () => void
+}
+
+const toFormData = (event: EditableEvent): EventEditFormData => ({
+  eventDate: event.eventDate,
+  startTime: event.startTime,
+  endTime: event.endTime,
+  room: event.room || '',
+  titleOverride: event.titleOverride || '',
+  notes: event.notes || '',
+})
+
+export default function EventEditPanel({ event, onClose }: EventEditPanelProps) {
+  const queryClient = useQueryClient()
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors }
+  } = useForm<EventEditFormData>({
+    values: event ? toFormData(event) : undefined
+  })
+
+  const onSaved = () => {
+    queryClient.invalidateQueries({ queryKey: ['events'] })
+    queryClient.invalidateQueries({ queryKey: ['clashes'] })
+    onClose()
+  }
+
+  const updateMutation = useMutation({
+    mutationFn: (data: EventEditFormData) => {
+      // Only the fields that were changed are sent, so an unchanged slot
+      // stays on the schedule
+      const original = toFormData(event!)
+      const changes = Object.fromEntries(
+        (Object.keys(data) as (keyof EventEditFormData)[])
+          .filter(key => data[key] !== original[key])
+          .map(key => [key, data[key]])
+      )
+      return eventsApi.update(event!.id, changes)
+    },
+    onSuccess: onSaved,
+  })
+
+  const cancelMutation = useMutation({
+    mutationFn: () => eventsApi.delete(event!.id),
+    onSuccess: onSaved,
+  })
+
+  if (!event) return null
+
+  const isSubmitting = updateMutation.isPending || cancelMutation.isPending
+  const error = updateMutation.error || cancelMutation.error
+
+  const validateTimeRange = (endTime: string) => {
+    const startTime = watch('startTime')
+    if (!startTime || !endTime) return true
+
+    return endTime > startTime || 'End time must be after start time'
+  }
+
+  const handleCancelClass = () => {
+    if (confirm(`Cancel this class on ${event.eventDate}?`)) {
+      cancelMutation.mutate()
+    }
+  }
+
+  const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-lg font-medium text-gray-900">{event.title}</h2>
+              <p className="text-sm text-gray-500">
+                {[
+                  event.teacher,
+                  event.exceptionType === 'moved' && event.originalDate && `Rescheduled from ${event.originalDate}`,
+                  event.exceptionType === 'extra' && 'Extra session',
+                ].filter(Boolean).join(' · ')}
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600"
+              disabled={isSubmitting}
+              aria-label="Close event"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+          {event.clash && (
+            <p className="mt-2 text-sm text-red-600">Clashes with another class</p>
+          )}
+        </div>
+
+        <form onSubmit={handleSubmit(data => updateMutation.mutate(data))} className="p-6 space-y-4">
+          <div>
+            <label htmlFor="eventDate" className="block text-sm font-medium text-gray-700 mb-1">
+              Date
+            </label>
+            <input
+              {...register('eventDate', { required: 'Date is required' })}
+              id="eventDate"
+              type="date"
+              className={inputClassName}
+            />
+            {errors.eventDate && (
+              <p className="mt-1 text-sm text-red-600">{errors.eventDate.message}</p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="startTime" className="block text-sm font-medium text-gray-700 mb-1">
+                Start Time
+              </label>
+              <input
+                {...register('startTime', { required: 'Start time is required' })}
+                id="startTime"
+                type="time"
+                className={inputClassName}
+              />
+              {errors.startTime && (
+                <p className="mt-1 text-sm text-red-600">{errors.startTime.message}</p>
+              )}
+            </div>
+            <div>
+              <label htmlFor="endTime" className="block text-sm font-medium text-gray-700 mb-1">
+                End Time
+              </label>
+              <input
+                {...register('endTime', {
+                  required: 'End time is required',
+                  validate: validateTimeRange
+                })}
+                id="endTime"
+                type="time"
+                className={inputClassName}
+              />
+              {errors.endTime && (
+                <p className="mt-1 text-sm text-red-600">{errors.endTime.message}</p>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="room" className="block text-sm font-medium text-gray-700 mb-1">
+              Room
+            </label>
+            <input
+              {...register('room', {
+                maxLength: { value: 50, message: 'Room must be 50 characters or less' }
+              })}
+              id="room"
+              type="text"
+              className={inputClassName}
+            />
+            {errors.room && (
+              <p className="mt-1 text-sm text-red-600">{errors.room.message}</p>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="titleOverride" className="block text-sm font-medium text-gray-700 mb-1">
+              Title
+            </label>
+            <input
+              {...register('titleOverride', {
+                maxLength: { value: 200, message: 'Title must be 200 characters or less' }
+              })}
+              id="titleOverride"
+              type="text"
+              className={inputClassName}
+              placeholder="Leave empty to use the subject's name"
+            />
+            {errors.titleOverride && (
+              <p className="mt-1 text-sm text-red-600">{errors.titleOverride.message}</p>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="notes" className="block text-sm font-medium text-gray-700 mb-1">
+              Notes
+            </label>
+            <textarea
+              {...register('notes', {
+                maxLength: { value: 2000, message: 'Notes must be 2000 characters or less' }
+              })}
+              id="notes"
+              rows={3}
+              className={inputClassName}
+            />
+            {errors.notes && (
+              <p className="mt-1 text-sm text-red-600">{errors.notes.message}</p>
+            )}
+          </div>
+
+          <div className="flex justify-between pt-4 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={handleCancelClass}
+              disabled={isSubmitting}
+              className="px-4 py-2 text-sm font-medium text-red-600 bg-white border border-red-300 rounded-md hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Cancel This Class
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {updateMutation.isPending ? 'Saving...' : 'Save Changes'}
+            </button>
+          </div>
+        </form>
+
+        {error && (
+          <div className="px-6 pb-4">
+            <div className="bg-red-50 border border-red-200 rounded-md p-4 text-sm text-red-700">
+              {error.message}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,57 @@
+'use client'
+
+export type RescheduleScope = 'occurrence' | 'following' | 'series'
+
+interface RescheduleScopeDialogProps {
+  // Title of the class being moved or resized, or null when closed
+  title: string | null
+  // Rescheduled classes and extra sessions are not part of a series
+  isSeries: boolean
+  onChoose: (scope: RescheduleScope) => void
+  onCancel: () => void
+}
+
+const SCOPE_OPTIONS: { scope: RescheduleScope; label: string; description: string }[] = [
+  { scope: 'occurrence', label: 'This class only', description: 'Only this class moves' },
+  { scope: 'following', label: 'This and following classes', description: 'Earlier classes stay where they are' },
+  { scope: 'series', label: 'All classes', description: 'Every class of the series moves' },
+]
+
+export default function RescheduleScopeDialog({ title, isSeries, onChoose, onCancel }: RescheduleScopeDialogProps) {
+  if (title === null) return null
+
+  const options = isSeries ? SCOPE_OPTIONS : SCOPE_OPTIONS.filter(option => option.scope === 'occurrence')
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div role="dialog" aria-labelledby="reschedule-scope-title" className="bg-white rounded-lg shadow-xl max-w-sm w-full mx-4">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 id="reschedule-scope-title" className="text-lg font-medium text-gray-900">Reschedule Class</h2>
+          <p className="text-sm text-gray-500">{title}</p>
+        </div>
+
+        <div className="p-6 space-y-2">
+          {options.map(option => (
+            <button
+              key={option.scope}
+              onClick={() => onChoose(option.scope)}
+              className="w-full text-left px-4 py-3 border border-gray-200 rounded-md hover:bg-gray-50"
+            >
+              <span className="block text-sm font-medium text-gray-900">{option.label}</span>
+              <span className="block text-xs text-gray-500">{option.description}</span>
+            </button>
+          ))}
+        </div>
+
+        <div className="flex justify-end px-6 pb-4">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,51 @@
+'use client'
+
+import { ReactNode } from 'react'
+
+// A subject's colour and the Google Calendar colour its events are synced as,
+// as GET /api/calendars/colors lists them
+export interface SubjectColor {
+  subjectId: string
+  code?: string
+  name: string
+  colorHex: string
+  googleColor: { id: string; hex: string; name: string }
+}
+
+interface SubjectColorLegendProps {
+  subjects: SubjectColor[]
+  // Further legend entries, such as exception and clash markers
+  children?: ReactNode
+}
+
+export default function SubjectColorLegend({ subjects, children }: SubjectColorLegendProps) {
+  return (
+    <div className="px-6 py-4 border-t border-gray-200">
+      <h3 className="text-sm font-medium text-gray-900 mb-3">Subject Colors</h3>
+      <div className="flex flex-wrap gap-4">
+        {subjects.map(subject => (
+          <div key={subject.subjectId} className="flex items-center space-x-2">
+            <div
+              className="w-3 h-3 rounded"
+              style={{ backgroundColor: subject.colorHex }}
+            />
+            <span className="text-xs text-gray-600">
+              {subject.code ? `${subject.code} ${subject.name}` : subject.name}
+            </span>
+            <span
+              className="flex items-center space-x-1 text-xs text-gray-400"
+              title={`Shown as ${subject.googleColor.name} in Google Calendar`}
+            >
+              <span
+                className="inline-block w-2 h-2 rounded-full"
+                style={{ backgroundColor: subject.googleColor.hex }}
+              />
+              <span>Google: {subject.googleColor.name}</span>
+            </span>
+          </div>
+        ))}
+        {children}
+      </div>
+    </div>
+  )
+}
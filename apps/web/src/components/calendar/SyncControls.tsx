@@ -1,11 +1,13 @@
 'use client'
 
 import { useState } from 'react'
-import { useMutation, useQuery } from '@tanstack/react-query'
-import { syncApi } from '@/lib/api'
+import { useMutation } from '@tanstack/react-query'
+import { syncApi, SyncResult, EventConflict } from '@/lib/api'
+
+type SyncDirection = 'upsert-to-google' | 'pull-from-google' | 'bidirectional'
 
 interface SyncOptions {
-  direction: 'upsert-to-google'
+  direction: SyncDirection
   range: {
     from: string
     to: string
@@ -15,39 +17,6 @@ interface SyncOptions {
   idempotencyKey: string
 }
 
-interface SyncResult {
-  summary: {
-    created: number
-    updated: number
-    skipped: number
-    failed: number
-  }
-  details: SyncDetail[]
-  conflicts: EventConflict[]
-  quotaUsed: number
-  isDryRun: boolean
-}
-
-interface SyncDetail {
-  localEventId: string
-  googleEventId?: string
-  action: 'created' | 'updated' | 'skipped' | 'failed'
-  error?: string
-  etag?: string
-}
-
-interface EventConflict {
-  localEventId: string
-  googleEventId: string
-  conflictType: 'etag_mismatch' | 'deleted_on_google' | 'modified_externally'
-  localEvent: any
-  googleEvent?: any
-  suggestedResolution: {
-    action: 'use_local' | 'use_google' | 'merge' | 'recreate' | 'unlink'
-    reason: string
-  }
-}
-
 interface SyncControlsProps {
   onSyncComplete?: (result: SyncResult) => void
   className?: string
@@ -73,7 +42,7 @@ export default function SyncControls({ onSyncComplete, className = '' }: SyncCon
         ...options,
         idempotencyKey: `sync-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
       })
-      return response.data as SyncResult
+      return response.data
     },
     onSuccess: (result) => {
       setLastSyncResult(result)
@@ -87,11 +56,23 @@ export default function SyncControls({ onSyncComplete, className = '' }: SyncCon
     }
   })
 
-  // Get sync history
-  const { data: syncHistory } = useQuery({
-    queryKey: ['sync-history'],
-    queryFn: () => syncApi.getHistory(),
-    enabled: false // Only fetch when needed
+  // Resolve conflicts mutation
+  const resolveMutation = useMutation({
+    mutationFn: async (resolutions: Array<{ action: string; reason?: string }>) => {
+      const response = await syncApi.resolveConflicts({
+        conflicts: lastSyncResult?.conflicts ?? [],
+        resolutions,
+        idempotencyKey: `resolve-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+      })
+      return response.data
+    },
+    onSuccess: (result) => {
+      setShowConflictResolution(false)
+      onSyncComplete?.(result)
+    },
+    onError: (error) => {
+      console.error('Conflict resolution failed:', error)
+    }
   })
 
   const handleSync = () => {
@@ -100,7 +81,7 @@ export default function SyncControls({ onSyncComplete, className = '' }: SyncCon
     }
 
     syncMutation.mutate({
-      direction: 'upsert-to-google',
+      direction: syncOptions.direction || 'upsert-to-google',
       range: syncOptions.range,
       eventIds: syncOptions.eventIds,
       dryRun: syncOptions.dryRun || false,
@@ -114,7 +95,7 @@ export default function SyncControls({ onSyncComplete, className = '' }: SyncCon
     }
 
     syncMutation.mutate({
-      direction: 'upsert-to-google',
+      direction: syncOptions.direction || 'upsert-to-google',
       range: syncOptions.range,
       eventIds: syncOptions.eventIds,
       dryRun: true,
@@ -126,15 +107,21 @@ export default function SyncControls({ onSyncComplete, className = '' }: SyncCon
     if (!result || !result.summary) return 'No result'
     
     const { summary } = result
-    const total = summary.created + summary.updated + summary.skipped + summary.failed
+    const deleted = summary.deleted || 0
+    const deferred = result.deferred?.eventIds.length || 0
+    const total = summary.created + summary.updated + deleted + summary.skipped + summary.failed + deferred
     
     if (total === 0) return 'No events to sync'
     
     const parts = []
     if (summary.created > 0) parts.push(`${summary.created} created`)
     if (summary.updated > 0) parts.push(`${summary.updated} updated`)
+    if (deleted > 0) parts.push(`${deleted} deleted`)
     if (summary.skipped > 0) parts.push(`${summary.skipped} skipped`)
     if (summary.failed > 0) parts.push(`${summary.failed} failed`)
+    if (deferred > 0) {
+      parts.push(`${deferred} queued until ${new Date(result.deferred!.resumeAt).toLocaleString()} (daily Google quota reached)`)
+    }
     
     return parts.join(', ')
   }
@@ -193,6 +180,26 @@ export default function SyncControls({ onSyncComplete, className = '' }: SyncCon
           <div className="p-4">
             <h3 className="text-lg font-medium text-gray-900 mb-4">Sync Options</h3>
             
+            {/* Direction */}
+            <div className="mb-4">
+              <label htmlFor="sync-direction" className="block text-sm font-medium text-gray-700 mb-2">
+                Direction
+              </label>
+              <select
+                id="sync-direction"
+                value={syncOptions.direction || 'upsert-to-google'}
+                onChange={(e) => setSyncOptions(prev => ({
+                  ...prev,
+                  direction: e.target.value as SyncDirection
+                }))}
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              >
+                <option value="upsert-to-google">Push to Google Calendar</option>
+                <option value="pull-from-google">Pull edits from Google Calendar</option>
+                <option value="bidirectional">Two-way (latest edit wins)</option>
+              </select>
+            </div>
+
             {/* Date Range */}
             <div className="mb-4">
               <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -288,10 +295,7 @@ export default function SyncControls({ onSyncComplete, className = '' }: SyncCon
       {showConflictResolution && lastSyncResult?.conflicts && (
         <ConflictResolutionModal
           conflicts={lastSyncResult.conflicts}
-          onResolve={(resolutions) => {
-            // Handle conflict resolutions
-            setShowConflictResolution(false)
-          }}
+          onResolve={(resolutions) => resolveMutation.mutate(resolutions)}
           onClose={() => setShowConflictResolution(false)}
         />
       )}
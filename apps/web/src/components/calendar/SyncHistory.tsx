@@ -1,7 +1,7 @@
 'use client'
 
 import { useState } from 'react'
-import { useQuery } from '@tanstack/react-query'
+import { useInfiniteQuery } from '@tanstack/react-query'
 import { syncApi } from '@/lib/api'
 
 interface SyncHistoryEntry {
@@ -19,6 +19,7 @@ interface SyncHistoryEntry {
     summary: {
       created: number
       updated: number
+      deleted?: number
       skipped: number
       failed: number
     }
@@ -28,6 +29,11 @@ interface SyncHistoryEntry {
   error?: string
 }
 
+interface SyncHistoryPage {
+  data: SyncHistoryEntry[]
+  nextCursor?: string
+}
+
 interface SyncHistoryProps {
   className?: string
 }
@@ -36,16 +42,27 @@ export default function SyncHistory({ className = '' }: SyncHistoryProps) {
   const [isOpen, setIsOpen] = useState(false)
   const [selectedEntry, setSelectedEntry] = useState<SyncHistoryEntry | null>(null)
 
-  const { data: history = [], isLoading, error } = useQuery({
+  const {
+    data,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
     queryKey: ['sync-history'],
-    queryFn: async () => {
-      const response = await syncApi.getHistory()
-      return response.data as SyncHistoryEntry[]
+    queryFn: async ({ pageParam }) => {
+      const response = await syncApi.getHistory(pageParam ? { cursor: pageParam } : undefined)
+      return response as SyncHistoryPage
     },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
     enabled: isOpen, // Only fetch when panel is open
     refetchInterval: 5000, // Refresh every 5 seconds to show live updates
   })
 
+  const history = data?.pages.flatMap(page => page.data) ?? []
+
   const getStatusIcon = (status: SyncHistoryEntry['status']) => {
     switch (status) {
       case 'completed':
@@ -107,13 +124,15 @@ export default function SyncHistory({ className = '' }: SyncHistoryProps) {
     if (!result) return 'No result'
     
     const { summary } = result
-    const total = summary.created + summary.updated + summary.skipped + summary.failed
+    const deleted = summary.deleted || 0
+    const total = summary.created + summary.updated + deleted + summary.skipped + summary.failed
     
     if (total === 0) return 'No events processed'
     
     const parts = []
     if (summary.created > 0) parts.push(`${summary.created} created`)
     if (summary.updated > 0) parts.push(`${summary.updated} updated`)
+    if (deleted > 0) parts.push(`${deleted} deleted`)
     if (summary.skipped > 0) parts.push(`${summary.skipped} skipped`)
     if (summary.failed > 0) parts.push(`${summary.failed} failed`)
     
@@ -227,6 +246,16 @@ export default function SyncHistory({ className = '' }: SyncHistoryProps) {
                     )}
                   </div>
                 ))}
+
+                {hasNextPage && (
+                  <button
+                    onClick={() => fetchNextPage()}
+                    disabled={isFetchingNextPage}
+                    className="w-full py-2 text-sm font-medium text-gray-700 hover:text-gray-900 disabled:opacity-50"
+                  >
+                    {isFetchingNextPage ? 'Loading...' : 'Load more'}
+                  </button>
+                )}
               </div>
             )}
           </div>
@@ -337,6 +366,15 @@ function SyncHistoryDetailModal({ entry, onClose }: SyncHistoryDetailModalProps)
                     {entry.result.summary.updated}
                   </span>
                 </div>
+                {!!entry.result.summary.deleted && (
+                  <div className="flex items-center">
+                    <div className="w-3 h-3 bg-orange-500 rounded-full mr-2"></div>
+                    <span className="text-gray-500">Deleted:</span>
+                    <span className="ml-2 font-medium text-gray-900">
+                      {entry.result.summary.deleted}
+                    </span>
+                  </div>
+                )}
                 <div className="flex items-center">
                   <div className="w-3 h-3 bg-gray-500 rounded-full mr-2"></div>
                   <span className="text-gray-500">Skipped:</span>
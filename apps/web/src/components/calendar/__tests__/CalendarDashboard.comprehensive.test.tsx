@@ -2,6 +2,7 @@ import { render, screen, fireEvent, waitFor } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
 import CalendarDashboard from '../CalendarDashboard'
+import { ToastProvider } from '../../common/Toast'
 import { useAuthStore } from '../../../store/auth'
 import * as api from '../../../lib/api'
 
@@ -174,7 +175,9 @@ describe('CalendarDashboard (Comprehensive)', () => {
   const renderCalendarDashboard = (props = {}) => {
     return render(
       <QueryClientProvider client={queryClient}>
-        <CalendarDashboard {...props} />
+        <ToastProvider>
+          <CalendarDashboard {...props} />
+        </ToastProvider>
       </QueryClientProvider>
     )
   }
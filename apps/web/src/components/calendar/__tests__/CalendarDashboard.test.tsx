@@ -1,6 +1,7 @@
 import { render, screen, fireEvent, waitFor } from '@testing-library/react'
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
 import CalendarDashboard from '../CalendarDashboard'
+import { ToastProvider } from '../../common/Toast'
 
 // Mock FullCalendar
 jest.mock('@fullcalendar/react', () => {
@@ -12,9 +13,21 @@ jest.mock('@fullcalendar/react', () => {
             <div
               key={event.id}
               data-testid={`event-${event.id}`}
+              style={{ backgroundColor: event.backgroundColor, color: event.textColor }}
               onClick={() => props.eventClick?.({ event })}
             >
               {event.title}
+              <button
+                data-testid={`drag-${event.id}`}
+                onClick={(e) => {
+                  e.stopPropagation()
+                  props.eventDrop?.({
+                    event: { id: event.id, start: new Date('2024-01-16T10:00:00Z'), end: new Date('2024-01-16T11:30:00Z') },
+                    delta: { days: 1, milliseconds: 60 * 60 * 1000 },
+                    revert: mockRevert,
+                  })
+                }}
+              />
             </div>
           ))}
         </div>
@@ -23,10 +36,17 @@ jest.mock('@fullcalendar/react', () => {
   }
 })
 
+const mockRevert = jest.fn()
+
 // Mock API
 jest.mock('@/lib/api', () => ({
   eventsApi: {
     getAll: jest.fn(),
+    update: jest.fn(),
+    getClashes: jest.fn().mockResolvedValue([]),
+  },
+  calendarsApi: {
+    getSubjectColors: jest.fn(),
   },
 }))
 
@@ -34,27 +54,46 @@ const mockEvents = [
   {
     id: '1',
     title: 'Mathematics Lecture',
-    startTime: '2024-01-15T09:00:00Z',
-    endTime: '2024-01-15T10:30:00Z',
-    subject: { name: 'Mathematics' },
-    section: { name: 'Section A' },
-    location: 'Room 101',
-    instructor: 'Dr. Smith',
-    type: 'Lecture'
+    start: '2024-01-15T09:00:00+00:00',
+    end: '2024-01-15T10:30:00+00:00',
+    eventDate: '2024-01-15',
+    startTime: '09:00',
+    endTime: '10:30',
+    color: '#3b82f6',
+    subject: { id: 'subject-1', name: 'Mathematics' },
+    room: 'Room 101',
+    teacher: 'Dr. Smith',
   },
   {
     id: '2',
     title: 'Physics Lab',
-    startTime: '2024-01-15T14:00:00Z',
-    endTime: '2024-01-15T16:00:00Z',
-    subject: { name: 'Physics' },
-    section: { name: 'Section B' },
-    location: 'Lab 201',
-    instructor: 'Prof. Johnson',
-    type: 'Lab'
+    start: '2024-01-15T14:00:00+00:00',
+    end: '2024-01-15T16:00:00+00:00',
+    eventDate: '2024-01-15',
+    startTime: '14:00',
+    endTime: '16:00',
+    color: '#ef4444',
+    subject: { id: 'subject-2', name: 'Physics' },
+    room: 'Lab 201',
+    teacher: 'Prof. Johnson',
   }
 ]
 
+const mockSubjectColors = [
+  {
+    subjectId: 'subject-1',
+    name: 'Mathematics',
+    colorHex: '#3b82f6',
+    googleColor: { id: '9', hex: '#5484ed', name: 'Blueberry' },
+  },
+  {
+    subjectId: 'subject-2',
+    name: 'Physics',
+    colorHex: '#ef4444',
+    googleColor: { id: '11', hex: '#dc2127', name: 'Tomato' },
+  },
+]
+
 const createTestQueryClient = () => {
   return new QueryClient({
     defaultOptions: {
@@ -69,17 +108,20 @@ const renderWithQueryClient = (component: React.ReactElement) => {
   const queryClient = createTestQueryClient()
   return render(
     <QueryClientProvider client={queryClient}>
-      {component}
+      <ToastProvider>
+        {component}
+      </ToastProvider>
     </QueryClientProvider>
   )
 }
 
 describe('CalendarDashboard', () => {
-  const { eventsApi } = require('@/lib/api')
+  const { eventsApi, calendarsApi } = require('@/lib/api')
 
   beforeEach(() => {
     jest.clearAllMocks()
-    eventsApi.getAll.mockResolvedValue(mockEvents)
+    eventsApi.getAll.mockResolvedValue({ data: mockEvents })
+    calendarsApi.getSubjectColors.mockResolvedValue({ data: mockSubjectColors })
   })
 
   it('renders calendar dashboard with header', async () => {
@@ -108,6 +150,72 @@ describe('CalendarDashboard', () => {
     expect(screen.getByTestId('event-2')).toBeInTheDocument()
   })
 
+  it('opens the edit panel when an event is clicked', async () => {
+    renderWithQueryClient(<CalendarDashboard />)
+
+    await waitFor(() => {
+      expect(screen.getByTestId('event-1')).toBeInTheDocument()
+    })
+
+    fireEvent.click(screen.getByTestId('event-1'))
+
+    expect(screen.getByText('Save Changes')).toBeInTheDocument()
+    expect(screen.getByLabelText('Room')).toHaveValue('Room 101')
+  })
+
+  it('saves a dragged class for the chosen scope', async () => {
+    eventsApi.update.mockResolvedValue({ ...mockEvents[0], eventDate: '2024-01-16', startTime: '10:00', endTime: '11:30' })
+    renderWithQueryClient(<CalendarDashboard />)
+
+    await waitFor(() => {
+      expect(screen.getByTestId('event-1')).toBeInTheDocument()
+    })
+
+    fireEvent.click(screen.getByTestId('drag-1'))
+    fireEvent.click(screen.getByText('All classes'))
+
+    await waitFor(() => {
+      expect(eventsApi.update).toHaveBeenCalledWith('1', {
+        eventDate: '2024-01-16',
+        startTime: '10:00',
+        endTime: '11:30',
+        scope: 'series',
+      })
+    })
+  })
+
+  it('reloads the series when moving it fails', async () => {
+    eventsApi.update.mockRejectedValue(new Error('Server error'))
+    renderWithQueryClient(<CalendarDashboard />)
+
+    await waitFor(() => {
+      expect(screen.getByTestId('event-1')).toBeInTheDocument()
+    })
+    eventsApi.getAll.mockClear()
+
+    fireEvent.click(screen.getByTestId('drag-1'))
+    fireEvent.click(screen.getByText('All classes'))
+
+    await waitFor(() => {
+      expect(mockRevert).toHaveBeenCalled()
+      expect(eventsApi.getAll).toHaveBeenCalled()
+    })
+  })
+
+  it('puts a dragged class back when the change is cancelled', async () => {
+    renderWithQueryClient(<CalendarDashboard />)
+
+    await waitFor(() => {
+      expect(screen.getByTestId('event-1')).toBeInTheDocument()
+    })
+
+    fireEvent.click(screen.getByTestId('drag-1'))
+    fireEvent.click(screen.getByText('Cancel'))
+
+    expect(mockRevert).toHaveBeenCalled()
+    expect(eventsApi.update).not.toHaveBeenCalled()
+  })
+
   it('handles view switching', async () => {
     renderWithQueryClient(<CalendarDashboard />)
     
@@ -117,6 +225,17 @@ describe('CalendarDashboard', () => {
     expect(weekButton).toHaveClass('bg-primary-100', 'text-primary-700')
   })
 
+  it('colours events from their subject with readable text', async () => {
+    renderWithQueryClient(<CalendarDashboard />)
+
+    await waitFor(() => {
+      expect(screen.getByTestId('event-1')).toBeInTheDocument()
+    })
+
+    expect(screen.getByTestId('event-1')).toHaveStyle({ backgroundColor: '#3b82f6', color: '#111827' })
+    expect(screen.getByTestId('event-2')).toHaveStyle({ backgroundColor: '#ef4444', color: '#111827' })
+  })
+
   it('displays subject color legend', async () => {
     renderWithQueryClient(<CalendarDashboard />)
     
@@ -124,8 +243,42 @@ describe('CalendarDashboard', () => {
       expect(screen.getByText('Subject Colors')).toBeInTheDocument()
     })
     
-    expect(screen.getByText('Mathematics')).toBeInTheDocument()
+    expect(await screen.findByText('Mathematics')).toBeInTheDocument()
     expect(screen.getByText('Physics')).toBeInTheDocument()
+    expect(screen.getByText('Google: Tomato')).toBeInTheDocument()
+  })
+
+  it('marks rescheduled classes and extra sessions', async () => {
+    eventsApi.getAll.mockResolvedValue({
+      data: [
+        ...mockEvents,
+        {
+          id: '3',
+          title: 'Mathematics Lecture',
+          start: '2024-01-17T13:00:00+00:00',
+          end: '2024-01-17T14:30:00+00:00',
+          subject: { id: 'subject-1', name: 'Mathematics' },
+          exceptionType: 'moved',
+          originalDate: '2024-01-15',
+        },
+        {
+          id: '4',
+          title: 'Physics Lab',
+          start: '2024-01-20T09:00:00+00:00',
+          end: '2024-01-20T11:00:00+00:00',
+          subject: { id: 'subject-2', name: 'Physics' },
+          exceptionType: 'extra',
+        },
+      ],
+    })
+
+    renderWithQueryClient(<CalendarDashboard />)
+
+    await waitFor(() => {
+      expect(screen.getByTestId('event-3')).toHaveTextContent('Rescheduled: Mathematics Lecture')
+    })
+    expect(screen.getByTestId('event-4')).toHaveTextContent('Extra session: Physics Lab')
+    expect(screen.getByTestId('event-1')).toHaveTextContent(/^Mathematics Lecture$/)
   })
 
   it('handles API error gracefully', async () => {
@@ -138,6 +291,20 @@ describe('CalendarDashboard', () => {
     })
   })
 
+  it('loads every page of the visible range', async () => {
+    eventsApi.getAll
+      .mockResolvedValueOnce({ data: [mockEvents[0]], nextCursor: 'page-2' })
+      .mockResolvedValueOnce({ data: [mockEvents[1]] })
+
+    renderWithQueryClient(<CalendarDashboard />)
+
+    await waitFor(() => {
+      expect(screen.getByTestId('event-2')).toBeInTheDocument()
+    })
+    expect(screen.getByTestId('event-1')).toBeInTheDocument()
+    expect(eventsApi.getAll).toHaveBeenLastCalledWith(expect.objectContaining({ cursor: 'page-2' }))
+  })
+
   it('calls API with correct date range', async () => {
     renderWithQueryClient(<CalendarDashboard />)
     
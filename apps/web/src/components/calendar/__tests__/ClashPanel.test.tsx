@@ -0,0 +1,68 @@
+import { render, screen, fireEvent } from '@testing-library/react'
+import ClashPanel, { ClashReport } from '../ClashPanel'
+
+const mockClash: ClashReport = {
+  sections: [
+    { sectionId: 'section-cs', subjectId: 'subject-cs', secCode: '2', subjectCode: 'CS101' },
+    { sectionId: 'section-math', subjectId: 'subject-math', secCode: '1', subjectCode: 'MATH201' },
+  ],
+  occurrences: [
+    {
+      date: '2024-01-16',
+      overlapStart: '10:00',
+      overlapEnd: '10:30',
+      overlapMinutes: 30,
+      events: [
+        { eventId: 'event-1', sectionId: 'section-cs', startTime: '09:00', endTime: '10:30' },
+        { eventId: 'event-2', sectionId: 'section-math', startTime: '10:00', endTime: '11:30' },
+      ],
+    },
+    {
+      date: '2024-01-23',
+      overlapStart: '10:00',
+      overlapEnd: '10:30',
+      overlapMinutes: 30,
+      events: [
+        { eventId: 'event-3', sectionId: 'section-cs', startTime: '09:00', endTime: '10:30' },
+        { eventId: 'event-4', sectionId: 'section-math', startTime: '10:00', endTime: '11:30' },
+      ],
+    },
+  ],
+  totalOverlapMinutes: 60,
+}
+
+describe('ClashPanel', () => {
+  it('shows the number of clashes on the button', () => {
+    render(<ClashPanel clashes={[mockClash]} />)
+
+    expect(screen.getByText('Clashes (1)')).toBeInTheDocument()
+  })
+
+  it('lists the clashing sections and dates when opened', () => {
+    render(<ClashPanel clashes={[mockClash]} />)
+
+    fireEvent.click(screen.getByText('Clashes (1)'))
+
+    expect(screen.getByText('Timetable Clashes')).toBeInTheDocument()
+    expect(screen.getByText('CS101 Sec 2 and MATH201 Sec 1')).toBeInTheDocument()
+    expect(screen.getByText('2 dates, 60 min overlap in total')).toBeInTheDocument()
+    expect(screen.getAllByText(/10:00 - 10:30 \(30 min\)/)).toHaveLength(2)
+  })
+
+  it('shows an empty state without clashes', () => {
+    render(<ClashPanel clashes={[]} />)
+
+    fireEvent.click(screen.getByText('Clashes'))
+
+    expect(screen.getByText('No clashes')).toBeInTheDocument()
+  })
+
+  it('closes the panel', () => {
+    render(<ClashPanel clashes={[mockClash]} />)
+
+    fireEvent.click(screen.getByText('Clashes (1)'))
+    fireEvent.click(screen.getByLabelText('Close clashes'))
+
+    expect(screen.queryByText('Timetable Clashes')).not.toBeInTheDocument()
+  })
+})
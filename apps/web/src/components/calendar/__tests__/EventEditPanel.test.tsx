@@ -0,0 +1,102 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import EventEditPanel, { EditableEvent } from '../EventEditPanel'
+import { eventsApi } from '@/lib/api'
+
+jest.mock('@/lib/api', () => ({
+  eventsApi: {
+    update: jest.fn(),
+    delete: jest.fn(),
+  },
+}))
+
+const mockEventsApi = eventsApi as jest.Mocked<typeof eventsApi>
+
+const mockEvent: EditableEvent = {
+  id: 'event-1',
+  title: 'CS101 Computer Science (2)',
+  eventDate: '2024-01-16',
+  startTime: '09:00',
+  endTime: '10:30',
+  room: 'Room 101',
+  teacher: 'Dr. Smith',
+}
+
+const createWrapper = () => {
+  const queryClient = new QueryClient({
+    defaultOptions: {
+      queries: { retry: false },
+      mutations: { retry: false },
+    },
+  })
+
+  return ({ children }: { children: React.ReactNode }) => (
+    <QueryClientProvider client={queryClient}>
+      {children}
+    </QueryClientProvider>
+  )
+}
+
+describe('EventEditPanel', () => {
+  const mockOnClose = jest.fn()
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('does not render without an event', () => {
+    render(<EventEditPanel event={null} onClose={mockOnClose} />, { wrapper: createWrapper() })
+
+    expect(screen.queryByText('Save Changes')).not.toBeInTheDocument()
+  })
+
+  it('shows the event with its current values', () => {
+    render(<EventEditPanel event={mockEvent} onClose={mockOnClose} />, { wrapper: createWrapper() })
+
+    expect(screen.getByText('CS101 Computer Science (2)')).toBeInTheDocument()
+    expect(screen.getByLabelText('Date')).toHaveValue('2024-01-16')
+    expect(screen.getByLabelText('Start Time')).toHaveValue('09:00')
+    expect(screen.getByLabelText('Room')).toHaveValue('Room 101')
+  })
+
+  it('sends only the changed fields', async () => {
+    mockEventsApi.update.mockResolvedValue({})
+    render(<EventEditPanel event={mockEvent} onClose={mockOnClose} />, { wrapper: createWrapper() })
+
+    fireEvent.change(screen.getByLabelText('Room'), { target: { value: 'Hall A' } })
+    fireEvent.change(screen.getByLabelText('Notes'), { target: { value: 'Bring a calculator' } })
+    fireEvent.click(screen.getByText('Save Changes'))
+
+    await waitFor(() => {
+      expect(mockEventsApi.update).toHaveBeenCalledWith('event-1', {
+        room: 'Hall A',
+        notes: 'Bring a calculator',
+      })
+    })
+    await waitFor(() => {
+      expect(mockOnClose).toHaveBeenCalled()
+    })
+  })
+
+  it('rejects an end time before the start time', async () => {
+    render(<EventEditPanel event={mockEvent} onClose={mockOnClose} />, { wrapper: createWrapper() })
+
+    fireEvent.change(screen.getByLabelText('End Time'), { target: { value: '08:00' } })
+    fireEvent.click(screen.getByText('Save Changes'))
+
+    expect(await screen.findByText('End time must be after start time')).toBeInTheDocument()
+    expect(mockEventsApi.update).not.toHaveBeenCalled()
+  })
+
+  it('cancels the class after confirming', async () => {
+    mockEventsApi.delete.mockResolvedValue(undefined)
+    jest.spyOn(window, 'confirm').mockReturnValue(true)
+    render(<EventEditPanel event={mockEvent} onClose={mockOnClose} />, { wrapper: createWrapper() })
+
+    fireEvent.click(screen.getByText('Cancel This Class'))
+
+    await waitFor(() => {
+      expect(mockEventsApi.delete).toHaveBeenCalledWith('event-1')
+    })
+  })
+})
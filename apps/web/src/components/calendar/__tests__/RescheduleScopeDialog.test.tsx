@@ -0,0 +1,42 @@
+import { render, screen, fireEvent } from '@testing-library/react'
+import RescheduleScopeDialog from '../RescheduleScopeDialog'
+
+describe('RescheduleScopeDialog', () => {
+  const mockOnChoose = jest.fn()
+  const mockOnCancel = jest.fn()
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('does not render without a class', () => {
+    render(<RescheduleScopeDialog title={null} isSeries onChoose={mockOnChoose} onCancel={mockOnCancel} />)
+
+    expect(screen.queryByText('Reschedule Class')).not.toBeInTheDocument()
+  })
+
+  it('asks which classes of a series the change applies to', () => {
+    render(<RescheduleScopeDialog title="CS101 Lecture" isSeries onChoose={mockOnChoose} onCancel={mockOnCancel} />)
+
+    expect(screen.getByText('CS101 Lecture')).toBeInTheDocument()
+    fireEvent.click(screen.getByText('This and following classes'))
+
+    expect(mockOnChoose).toHaveBeenCalledWith('following')
+  })
+
+  it('only offers this class for a class outside a series', () => {
+    render(<RescheduleScopeDialog title="Extra session" isSeries={false} onChoose={mockOnChoose} onCancel={mockOnCancel} />)
+
+    expect(screen.getByText('This class only')).toBeInTheDocument()
+    expect(screen.queryByText('All classes')).not.toBeInTheDocument()
+  })
+
+  it('cancels the change', () => {
+    render(<RescheduleScopeDialog title="CS101 Lecture" isSeries onChoose={mockOnChoose} onCancel={mockOnCancel} />)
+
+    fireEvent.click(screen.getByText('Cancel'))
+
+    expect(mockOnCancel).toHaveBeenCalled()
+    expect(mockOnChoose).not.toHaveBeenCalled()
+  })
+})
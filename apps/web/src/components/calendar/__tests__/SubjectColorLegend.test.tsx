@@ -0,0 +1,39 @@
+import { render, screen } from '@testing-library/react'
+import SubjectColorLegend, { SubjectColor } from '../SubjectColorLegend'
+
+const subjects: SubjectColor[] = [
+  {
+    subjectId: 'subject-1',
+    code: 'CS101',
+    name: 'Computer Science',
+    colorHex: '#3b82f6',
+    googleColor: { id: '9', hex: '#5484ed', name: 'Blueberry' },
+  },
+  {
+    subjectId: 'subject-2',
+    name: 'Statistics',
+    colorHex: '#f59e0b',
+    googleColor: { id: '5', hex: '#fbd75b', name: 'Banana' },
+  },
+]
+
+describe('SubjectColorLegend', () => {
+  it('lists the user\'s subjects with their Google colour', () => {
+    render(<SubjectColorLegend subjects={subjects} />)
+
+    expect(screen.getByText('CS101 Computer Science')).toBeInTheDocument()
+    expect(screen.getByText('Statistics')).toBeInTheDocument()
+    expect(screen.getByText('Google: Blueberry')).toBeInTheDocument()
+    expect(screen.getByTitle('Shown as Banana in Google Calendar')).toBeInTheDocument()
+  })
+
+  it('shows further legend entries after the subjects', () => {
+    render(
+      <SubjectColorLegend subjects={[]}>
+        <span>Clash</span>
+      </SubjectColorLegend>
+    )
+
+    expect(screen.getByText('Clash')).toBeInTheDocument()
+  })
+})
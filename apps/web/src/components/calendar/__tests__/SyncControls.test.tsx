@@ -139,6 +139,33 @@ describe('SyncControls', () => {
     })
   })
 
+  it('shows events deferred by the daily quota', async () => {
+    const mockResult = {
+      summary: { created: 2, updated: 0, skipped: 0, failed: 0 },
+      details: [],
+      conflicts: [],
+      quotaUsed: 2,
+      deferred: { eventIds: ['event-3', 'event-4', 'event-5'], resumeAt: '2024-01-16T00:00:00Z', jobIds: [] },
+      isDryRun: true
+    }
+
+    mockSyncApi.syncToGoogle.mockResolvedValue({ data: mockResult })
+
+    const Wrapper = createWrapper()
+    render(
+      <Wrapper>
+        <SyncControls />
+      </Wrapper>
+    )
+
+    fireEvent.click(screen.getByText('Sync to Google'))
+    fireEvent.click(screen.getByText('Preview Changes'))
+
+    await waitFor(() => {
+      expect(screen.getByText(/2 created, 3 queued until .* \(daily Google quota reached\)/)).toBeInTheDocument()
+    })
+  })
+
   it('performs actual sync', async () => {
     const mockResult = {
       summary: { created: 5, updated: 2, skipped: 1, failed: 0 },
@@ -174,6 +201,35 @@ describe('SyncControls', () => {
     })
   })
 
+  it('sends the selected sync direction', async () => {
+    mockSyncApi.syncToGoogle.mockResolvedValue({
+      data: {
+        summary: { created: 0, updated: 1, skipped: 0, failed: 0 },
+        details: [],
+        conflicts: [],
+        quotaUsed: 1,
+        isDryRun: false
+      }
+    })
+
+    const Wrapper = createWrapper()
+    render(
+      <Wrapper>
+        <SyncControls />
+      </Wrapper>
+    )
+
+    fireEvent.click(screen.getByText('Sync to Google'))
+    fireEvent.change(screen.getByLabelText('Direction'), { target: { value: 'bidirectional' } })
+    fireEvent.click(screen.getByText('Sync Now'))
+
+    await waitFor(() => {
+      expect(mockSyncApi.syncToGoogle).toHaveBeenCalledWith(
+        expect.objectContaining({ direction: 'bidirectional' })
+      )
+    })
+  })
+
   it('shows conflict resolution modal when conflicts exist', async () => {
     const mockResult = {
       summary: { created: 3, updated: 1, skipped: 0, failed: 1 },
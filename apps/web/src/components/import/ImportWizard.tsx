@@ -3,7 +3,7 @@
 import React, { useState, useCallback } from 'react';
 import { useDropzone } from 'react-dropzone';
 import { useMutation, useQuery } from '@tanstack/react-query';
-import { api } from '../../lib/api';
+import { importApi } from '../../lib/api';
 
 interface ImportWizardProps {
   onComplete?: () => void;
@@ -20,6 +20,8 @@ interface ImportPreview {
     message: string;
     value?: any;
   }>;
+  // Set for calendar files, whose columns are mapped by the server
+  columnMapping?: ColumnMapping;
 }
 
 interface ColumnMapping {
@@ -38,6 +40,10 @@ const FIELD_OPTIONS = [
   { value: 'startDate', label: 'Start Date' },
   { value: 'endDate', label: 'End Date' },
   { value: 'note', label: 'Note' },
+  { value: 'repeats', label: 'Repeats' },
+  { value: 'interval', label: 'Interval (weeks or months)' },
+  { value: 'setPos', label: 'Week of Month' },
+  { value: 'skipDates', label: 'Skip Dates' },
 ];
 
 export default function ImportWizard({ onComplete }: ImportWizardProps) {
@@ -47,19 +53,15 @@ export default function ImportWizard({ onComplete }: ImportWizardProps) {
   const [validationResult, setValidationResult] = useState<any>(null);
 
   const uploadMutation = useMutation({
-    mutationFn: async (file: File) => {
-      const formData = new FormData();
-      formData.append('file', file);
-      
-      const response = await api.post('/import/upload', formData, {
-        headers: {
-          'Content-Type': 'multipart/form-data',
-        },
-      });
-      return response.data;
-    },
+    mutationFn: (file: File) => importApi.upload(file) as Promise<ImportPreview>,
     onSuccess: (data: ImportPreview) => {
       setImportPreview(data);
+
+      if (data.columnMapping) {
+        setColumnMapping(data.columnMapping);
+        setStep('mapping');
+        return;
+      }
       
       // Auto-suggest column mappings based on header names
       const autoMapping: ColumnMapping = {};
@@ -95,12 +97,8 @@ export default function ImportWizard({ onComplete }: ImportWizardProps) {
     mutationFn: async (mapping: ColumnMapping) => {
       if (!importPreview) throw new Error('No import preview available');
       
-      await api.put(`/import/jobs/${importPreview.jobId}/mapping`, {
-        columnMapping: mapping,
-      });
-      
-      const response = await api.post(`/import/jobs/${importPreview.jobId}/validate`);
-      return response.data;
+      await importApi.updateMapping(importPreview.jobId, mapping);
+      return importApi.validate(importPreview.jobId);
     },
     onSuccess: (data) => {
       setValidationResult(data);
@@ -119,6 +117,7 @@ export default function ImportWizard({ onComplete }: ImportWizardProps) {
     accept: {
       'text/csv': ['.csv'],
       'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
+      'text/calendar': ['.ics'],
     },
     maxFiles: 1,
     maxSize: 10 * 1024 * 1024, // 10MB
@@ -166,7 +165,7 @@ export default function ImportWizard({ onComplete }: ImportWizardProps) {
               <>
                 <p className="text-lg">Drag and drop your file here, or click to select</p>
                 <p className="text-sm text-gray-500">
-                  Supports CSV and XLSX files up to 10MB
+                  Supports CSV, XLSX and iCalendar (.ics) files up to 10MB
                 </p>
               </>
             )}
@@ -317,7 +316,7 @@ export default function ImportWizard({ onComplete }: ImportWizardProps) {
     );
   }
 
-  if (step === 'validation' && validationResult) {
+  if (step === 'validation' && validationResult && importPreview) {
     return (
       <div className="max-w-4xl mx-auto p-6">
         <div className="flex items-center justify-between mb-6">
@@ -429,29 +428,62 @@ interface ProcessImportButtonProps {
 
 function ProcessImportButton({ jobId, onComplete }: ProcessImportButtonProps) {
   const [isProcessing, setIsProcessing] = useState(false);
+  const [mode, setMode] = useState<'all-or-nothing' | 'best-effort'>('all-or-nothing');
   const [result, setResult] = useState<any>(null);
   const [error, setError] = useState<string | null>(null);
+  const [isRollingBack, setIsRollingBack] = useState(false);
+  const [rolledBack, setRolledBack] = useState(false);
+  const [googleEventsLeft, setGoogleEventsLeft] = useState(0);
 
   const handleProcessImport = async () => {
     setIsProcessing(true);
     setError(null);
 
     try {
-      const response = await api.post(`/import/jobs/${jobId}/apply`);
-      setResult(response.data);
+      const data: any = await importApi.apply(jobId, mode);
+      setResult(data);
       
-      if (response.data.summary.failed === 0) {
+      if (data.summary.failed === 0) {
         setTimeout(() => {
           onComplete?.();
         }, 2000);
       }
     } catch (err: any) {
-      setError(err.response?.data?.message || 'Import processing failed');
+      setError(err.message || 'Import processing failed');
     } finally {
       setIsProcessing(false);
     }
   };
 
+  // Removes everything the import created, including its Google Calendar events
+  const handleRollback = async () => {
+    setIsRollingBack(true);
+    setError(null);
+
+    try {
+      const rollback = await importApi.rollback(jobId);
+      setGoogleEventsLeft(rollback.googleEventsFailed);
+      setRolledBack(true);
+    } catch (err: any) {
+      setError(err.message || 'Undoing the import failed');
+    } finally {
+      setIsRollingBack(false);
+    }
+  };
+
+  if (rolledBack) {
+    return (
+      <div className="p-4 rounded-md bg-gray-50 border border-gray-200 text-gray-800">
+        Import undone. Nothing it added is left in your schedule.
+        {googleEventsLeft > 0 && (
+          <p className="mt-2 text-sm text-yellow-800">
+            {googleEventsLeft} of its classes could not be removed from Google Calendar; delete them there.
+          </p>
+        )}
+      </div>
+    );
+  }
+
   if (result) {
     return (
       <div className="space-y-4">
@@ -491,6 +523,28 @@ function ProcessImportButton({ jobId, onComplete }: ProcessImportButtonProps) {
           </div>
         )}
 
+        {result.summary.failed > 0 && result.summary.created + result.summary.updated === 0 && (
+          <p className="text-sm text-gray-600">
+            Nothing was imported. Fix the rows below and upload the file again, or import in best-effort mode.
+          </p>
+        )}
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4">
+            <p className="text-red-800">{error}</p>
+          </div>
+        )}
+
+        {result.summary.failed > 0 && result.summary.created + result.summary.updated > 0 && (
+          <button
+            onClick={handleRollback}
+            disabled={isRollingBack}
+            className="border border-red-300 text-red-700 px-4 py-2 rounded-md hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isRollingBack ? 'Undoing Import...' : 'Undo Import'}
+          </button>
+        )}
+
         {result.errors && result.errors.length > 0 && (
           <div className="space-y-2">
             <h4 className="font-medium text-red-800">Errors:</h4>
@@ -517,6 +571,18 @@ function ProcessImportButton({ jobId, onComplete }: ProcessImportButtonProps) {
           <p className="text-red-800">{error}</p>
         </div>
       )}
+
+      <label className="flex items-center space-x-2 text-sm text-gray-700">
+        <span>If a row fails:</span>
+        <select
+          value={mode}
+          onChange={(e) => setMode(e.target.value as typeof mode)}
+          className="border border-gray-300 rounded-md px-2 py-1"
+        >
+          <option value="all-or-nothing">Import nothing</option>
+          <option value="best-effort">Import the other rows</option>
+        </select>
+      </label>
       
       <button
         onClick={handleProcessImport}
@@ -2,17 +2,19 @@ import React from 'react';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import ImportWizard from '../ImportWizard';
-import { api } from '../../../lib/api';
+import { importApi } from '../../../lib/api';
 
 // Mock the API
 jest.mock('../../../lib/api', () => ({
-  api: {
-    post: jest.fn(),
-    put: jest.fn(),
-    get: jest.fn(),
+  importApi: {
+    upload: jest.fn(),
+    updateMapping: jest.fn(),
+    validate: jest.fn(),
+    apply: jest.fn(),
+    rollback: jest.fn(),
   },
 }));
-const mockApi = api as jest.Mocked<typeof api>;
+const mockImportApi = importApi as jest.Mocked<typeof importApi>;
 
 // Mock react-dropzone
 jest.mock('react-dropzone', () => ({
@@ -50,7 +52,7 @@ describe('ImportWizard', () => {
     
     expect(screen.getByText('Import Class Schedule')).toBeInTheDocument();
     expect(screen.getByText('Drag and drop your file here, or click to select')).toBeInTheDocument();
-    expect(screen.getByText('Supports CSV and XLSX files up to 10MB')).toBeInTheDocument();
+    expect(screen.getByText('Supports CSV, XLSX and iCalendar (.ics) files up to 10MB')).toBeInTheDocument();
   });
 
   it('shows expected file format information', () => {
@@ -63,7 +65,7 @@ describe('ImportWizard', () => {
   });
 
   it('shows loading state during upload', async () => {
-    mockApi.post.mockImplementation(() => new Promise(() => {})); // Never resolves
+    mockImportApi.upload.mockImplementation(() => new Promise(() => {})); // Never resolves
     
     const { useDropzone } = require('react-dropzone');
     const mockFile = new File(['test content'], 'test.csv', { type: 'text/csv' });
@@ -83,7 +85,7 @@ describe('ImportWizard', () => {
   });
 
   it('shows error message on upload failure', async () => {
-    mockApi.post.mockRejectedValue(new Error('Upload failed'));
+    mockImportApi.upload.mockRejectedValue(new Error('Upload failed'));
     
     renderWithQueryClient(<ImportWizard />);
     
@@ -91,6 +93,86 @@ describe('ImportWizard', () => {
     // In a real test, we would simulate the file drop and wait for the error
   });
 
+  it('uses the column mapping of a calendar file', async () => {
+    mockImportApi.upload.mockResolvedValue({
+      jobId: 'job-1',
+      headers: ['Subject', 'Repeats', 'Skip Dates'],
+      rows: [{ 'Subject': 'Math 101', 'Repeats': 'weekly', 'Skip Dates': '2024-01-29' }],
+      totalRows: 1,
+      errors: [],
+      columnMapping: { 'Subject': 'subjectName', 'Repeats': 'repeats', 'Skip Dates': 'skipDates' },
+    });
+
+    let onDrop: (files: File[]) => void = () => {};
+    const { useDropzone } = require('react-dropzone');
+    useDropzone.mockImplementation((options: { onDrop: (files: File[]) => void }) => {
+      onDrop = options.onDrop;
+      return {
+        getRootProps: () => ({ 'data-testid': 'dropzone' }),
+        getInputProps: () => ({ 'data-testid': 'file-input' }),
+        isDragActive: false,
+      };
+    });
+
+    renderWithQueryClient(<ImportWizard />);
+    onDrop([new File(['BEGIN:VCALENDAR'], 'timetable.ics', { type: 'text/calendar' })]);
+
+    expect(await screen.findByText('Map Columns')).toBeInTheDocument();
+    expect(screen.getByDisplayValue('Repeats')).toBeInTheDocument();
+    expect(screen.getByDisplayValue('Skip Dates')).toBeInTheDocument();
+  });
+
+  it('applies best-effort and undoes a partial import', async () => {
+    mockImportApi.upload.mockResolvedValue({
+      jobId: 'job-1',
+      headers: ['Subject'],
+      rows: [{ 'Subject': 'Math 101' }],
+      totalRows: 2,
+      errors: [],
+      columnMapping: { 'Subject': 'subjectName' },
+    });
+    mockImportApi.updateMapping.mockResolvedValue(undefined);
+    mockImportApi.validate.mockResolvedValue({ isValid: true, errors: [], warnings: [] });
+    mockImportApi.apply.mockResolvedValue({
+      jobId: 'job-1',
+      summary: { totalRows: 2, created: 1, updated: 0, skipped: 0, failed: 1 },
+      details: [],
+      errors: [{ row: 2, message: 'Missing required field: sectionCode' }],
+    });
+    mockImportApi.rollback.mockResolvedValue({
+      deleted: { subjects: 1, sections: 1, events: 12 },
+      restored: { subjects: 0, sections: 0 },
+      googleEventsDeleted: 0,
+      googleEventsFailed: 0,
+    });
+
+    let onDrop: (files: File[]) => void = () => {};
+    const { useDropzone } = require('react-dropzone');
+    useDropzone.mockImplementation((options: { onDrop: (files: File[]) => void }) => {
+      onDrop = options.onDrop;
+      return {
+        getRootProps: () => ({ 'data-testid': 'dropzone' }),
+        getInputProps: () => ({ 'data-testid': 'file-input' }),
+        isDragActive: false,
+      };
+    });
+
+    renderWithQueryClient(<ImportWizard />);
+    onDrop([new File(['Subject'], 'timetable.csv', { type: 'text/csv' })]);
+
+    fireEvent.click(await screen.findByText('Validate & Continue'));
+    fireEvent.change(await screen.findByDisplayValue('Import nothing'), { target: { value: 'best-effort' } });
+    fireEvent.click(screen.getByText('Proceed to Import'));
+
+    expect(await screen.findByText('Row 2: Missing required field: sectionCode')).toBeInTheDocument();
+    expect(mockImportApi.apply).toHaveBeenCalledWith('job-1', 'best-effort');
+
+    fireEvent.click(screen.getByText('Undo Import'));
+
+    expect(await screen.findByText('Import undone. Nothing it added is left in your schedule.')).toBeInTheDocument();
+    expect(mockImportApi.rollback).toHaveBeenCalledWith('job-1');
+  });
+
   it('calls onComplete callback when provided', () => {
     const mockOnComplete = jest.fn();
     renderWithQueryClient(<ImportWizard onComplete={mockOnComplete} />);
@@ -0,0 +1,185 @@
+'use client'
+
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { calendarsApi, subjectsApi } from '@/lib/api'
+
+interface GoogleCalendar {
+  id: string
+  summary: string
+  timeZone?: string
+  primary: boolean
+  writable: boolean
+  backgroundColor?: string
+  isTarget: boolean
+}
+
+interface CalendarList {
+  targetCalendarId: string
+  calendars: GoogleCalendar[]
+}
+
+interface SubjectSummary {
+  id: string
+  code?: string
+  name: string
+  calendarId?: string
+}
+
+export default function CalendarTargetSettings() {
+  const queryClient = useQueryClient()
+  const [newCalendarName, setNewCalendarName] = useState('Stanlendar – Semester 1')
+  const [makeTarget, setMakeTarget] = useState(true)
+
+  const { data: calendarList, isLoading, error } = useQuery({
+    queryKey: ['google-calendars'],
+    queryFn: () => calendarsApi.getAll() as Promise<{ data: CalendarList }>,
+  })
+
+  const { data: subjects = [] } = useQuery({
+    queryKey: ['subjects'],
+    queryFn: () => subjectsApi.getAll() as Promise<SubjectSummary[]>,
+  })
+
+  const setTargetMutation = useMutation({
+    mutationFn: (calendarId: string) => calendarsApi.setTarget(calendarId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['google-calendars'] })
+    }
+  })
+
+  const setSubjectCalendarMutation = useMutation({
+    mutationFn: ({ subjectId, calendarId }: { subjectId: string; calendarId: string | null }) =>
+      calendarsApi.setSubjectCalendar(subjectId, calendarId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['subjects'] })
+    }
+  })
+
+  const createMutation = useMutation({
+    mutationFn: () => calendarsApi.create({
+      summary: newCalendarName.trim(),
+      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      makeTarget,
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['google-calendars'] })
+    }
+  })
+
+  const writableCalendars = calendarList?.data.calendars.filter(calendar => calendar.writable) || []
+  const mutationError = setTargetMutation.error || setSubjectCalendarMutation.error || createMutation.error
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600" role="status" aria-label="Loading calendars"></div>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <p className="text-sm text-red-600">
+        Could not load your Google calendars: {(error as Error).message}
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-sm font-medium text-gray-900 mb-1">
+          Target Calendar
+        </h3>
+        <p className="text-sm text-gray-600 mb-3">
+          New class events are written to this calendar unless a subject has its own. Events already in Google stay where they are.
+        </p>
+        <select
+          aria-label="Target calendar"
+          value={calendarList?.data.targetCalendarId}
+          onChange={(e) => setTargetMutation.mutate(e.target.value)}
+          disabled={setTargetMutation.isPending}
+          className="block w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {writableCalendars.map(calendar => (
+            <option key={calendar.id} value={calendar.id}>
+              {calendar.summary}{calendar.primary ? ' (primary)' : ''}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="pt-4 border-t border-gray-200">
+        <h3 className="text-sm font-medium text-gray-900 mb-1">
+          Create a Dedicated Calendar
+        </h3>
+        <p className="text-sm text-gray-600 mb-3">
+          Keeps classes separate from personal events. It uses your current timezone.
+        </p>
+        <div className="flex space-x-3">
+          <input
+            type="text"
+            aria-label="New calendar name"
+            value={newCalendarName}
+            onChange={(e) => setNewCalendarName(e.target.value)}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            onClick={() => createMutation.mutate()}
+            disabled={!newCalendarName.trim() || createMutation.isPending}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {createMutation.isPending ? 'Creating...' : 'Create'}
+          </button>
+        </div>
+        <label className="flex items-center mt-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={makeTarget}
+            onChange={(e) => setMakeTarget(e.target.checked)}
+            className="mr-2"
+          />
+          Use as target calendar
+        </label>
+      </div>
+
+      {subjects.length > 0 && (
+        <div className="pt-4 border-t border-gray-200">
+          <h3 className="text-sm font-medium text-gray-900 mb-3">
+            Per-Subject Calendars
+          </h3>
+          <ul className="space-y-2">
+            {subjects.map(subject => (
+              <li key={subject.id} className="flex items-center justify-between">
+                <span className="text-sm text-gray-700">
+                  {subject.code ? `${subject.code} ` : ''}{subject.name}
+                </span>
+                <select
+                  aria-label={`Calendar for ${subject.name}`}
+                  value={subject.calendarId || ''}
+                  onChange={(e) => setSubjectCalendarMutation.mutate({
+                    subjectId: subject.id,
+                    calendarId: e.target.value || null,
+                  })}
+                  className="px-3 py-1 border border-gray-300 rounded-md text-sm"
+                >
+                  <option value="">Target calendar</option>
+                  {writableCalendars.map(calendar => (
+                    <option key={calendar.id} value={calendar.id}>
+                      {calendar.summary}
+                    </option>
+                  ))}
+                </select>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {mutationError && (
+        <p className="text-sm text-red-600">{(mutationError as Error).message}</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,148 @@
+'use client'
+
+import { useState } from 'react'
+import { useMutation, useQuery } from '@tanstack/react-query'
+import { exportApi, spotlightApi, subjectsApi, termsApi } from '@/lib/api'
+
+type ExportFormat = 'ics' | 'csv' | 'json'
+
+interface Named {
+  id: string
+  name: string
+  code?: string | null
+}
+
+const FORMATS: { value: ExportFormat; label: string; description: string }[] = [
+  { value: 'ics', label: 'iCal (.ics)', description: 'Classes for any calendar app, with moved and edited classes' },
+  { value: 'csv', label: 'CSV', description: 'One row per class pattern; imports back into Stanlendar' },
+  { value: 'json', label: 'JSON backup', description: 'Everything, including terms, edits and saved filters' },
+]
+
+const selectClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+// Saves a downloaded file through a temporary link
+function saveFile(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
+
+export default function ExportSettings() {
+  const [format, setFormat] = useState<ExportFormat>('ics')
+  // Empty for everything, or "subject:<id>", "term:<id>" or "filter:<id>"
+  const [scope, setScope] = useState('')
+
+  const { data: subjects = [] } = useQuery({
+    queryKey: ['subjects'],
+    queryFn: () => subjectsApi.getAll() as Promise<Named[]>,
+  })
+
+  const { data: terms = [] } = useQuery({
+    queryKey: ['terms'],
+    queryFn: () => termsApi.getAll() as Promise<Named[]>,
+  })
+
+  const { data: savedFilters = [] } = useQuery({
+    queryKey: ['saved-filters'],
+    queryFn: () => spotlightApi.savedFilters.getAll() as Promise<Named[]>,
+  })
+
+  const exportMutation = useMutation({
+    mutationFn: () => {
+      const [kind, id] = scope.split(':')
+      return exportApi.download({
+        format,
+        ...(kind === 'subject' && { subjectId: id }),
+        ...(kind === 'term' && { termId: id }),
+        ...(kind === 'filter' && { filterId: id }),
+      })
+    },
+    onSuccess: ({ blob, filename }) => {
+      saveFile(blob, filename || `stanlendar.${format}`)
+    }
+  })
+
+  return (
+    <div>
+      <p className="text-sm text-gray-600 mb-3">
+        Download your schedule to use in another calendar, edit as a spreadsheet or keep as a backup.
+      </p>
+      <div className="space-y-3">
+        <fieldset>
+          <legend className="block text-sm font-medium text-gray-700 mb-1">Format</legend>
+          <div className="space-y-2">
+            {FORMATS.map(option => (
+              <label key={option.value} className="flex items-start space-x-2">
+                <input
+                  type="radio"
+                  name="export-format"
+                  value={option.value}
+                  checked={format === option.value}
+                  onChange={() => setFormat(option.value)}
+                  className="mt-1"
+                />
+                <span>
+                  <span className="block text-sm text-gray-900">{option.label}</span>
+                  <span className="block text-xs text-gray-500">{option.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+        </fieldset>
+        <div>
+          <label htmlFor="export-scope" className="block text-sm font-medium text-gray-700 mb-1">
+            Include
+          </label>
+          <select
+            id="export-scope"
+            value={scope}
+            onChange={(e) => setScope(e.target.value)}
+            className={selectClassName}
+          >
+            <option value="">All subjects</option>
+            {subjects.length > 0 && (
+              <optgroup label="Subject">
+                {subjects.map(subject => (
+                  <option key={subject.id} value={`subject:${subject.id}`}>
+                    {subject.code ? `${subject.code} ${subject.name}` : subject.name}
+                  </option>
+                ))}
+              </optgroup>
+            )}
+            {terms.length > 0 && (
+              <optgroup label="Term">
+                {terms.map(term => (
+                  <option key={term.id} value={`term:${term.id}`}>{term.name}</option>
+                ))}
+              </optgroup>
+            )}
+            {savedFilters.length > 0 && (
+              <optgroup label="Saved filter">
+                {savedFilters.map(filter => (
+                  <option key={filter.id} value={`filter:${filter.id}`}>{filter.name}</option>
+                ))}
+              </optgroup>
+            )}
+          </select>
+        </div>
+        <button
+          onClick={() => exportMutation.mutate()}
+          disabled={exportMutation.isPending}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          {exportMutation.isPending ? 'Exporting...' : 'Download'}
+        </button>
+      </div>
+      {exportMutation.error && (
+        <p className="mt-2 text-sm text-red-600">
+          {(exportMutation.error as Error).message}
+        </p>
+      )}
+    </div>
+  )
+}
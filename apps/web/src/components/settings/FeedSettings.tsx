@@ -0,0 +1,159 @@
+'use client'
+
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { feedsApi, spotlightApi } from '@/lib/api'
+
+interface Feed {
+  id: string
+  name: string
+  token: string
+  savedFilterId: string | null
+}
+
+interface SavedFilter {
+  id: string
+  name: string
+}
+
+const inputClassName = 'px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+export default function FeedSettings() {
+  const queryClient = useQueryClient()
+  const [newFeed, setNewFeed] = useState({ name: '', savedFilterId: '' })
+  const [copiedId, setCopiedId] = useState<string | null>(null)
+
+  const { data: feeds = [], isLoading } = useQuery({
+    queryKey: ['feeds'],
+    queryFn: () => feedsApi.getAll() as Promise<Feed[]>,
+  })
+
+  const { data: savedFilters = [] } = useQuery({
+    queryKey: ['saved-filters'],
+    queryFn: () => spotlightApi.savedFilters.getAll() as Promise<SavedFilter[]>,
+  })
+
+  const createMutation = useMutation({
+    mutationFn: () => feedsApi.create({
+      name: newFeed.name.trim(),
+      ...(newFeed.savedFilterId && { savedFilterId: newFeed.savedFilterId }),
+    }),
+    onSuccess: () => {
+      setNewFeed({ name: '', savedFilterId: '' })
+      queryClient.invalidateQueries({ queryKey: ['feeds'] })
+    }
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => feedsApi.delete(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['feeds'] })
+    }
+  })
+
+  const copyUrl = async (feed: Feed) => {
+    await navigator.clipboard.writeText(feedsApi.url(feed.token))
+    setCopiedId(feed.id)
+  }
+
+  const revoke = (feed: Feed) => {
+    if (confirm(`Revoke "${feed.name}"? Calendars subscribed to it will stop updating.`)) {
+      deleteMutation.mutate(feed.id)
+    }
+  }
+
+  const mutationError = createMutation.error || deleteMutation.error
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-600">Loading...</p>
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Subscribe to your classes from Apple Calendar, Outlook or any app that takes a calendar URL.
+        Anyone with a feed&apos;s link can see its classes; revoke it to turn the link off.
+      </p>
+
+      {feeds.length > 0 && (
+        <ul className="space-y-3">
+          {feeds.map(feed => (
+            <li key={feed.id} className="text-sm">
+              <div className="flex items-center justify-between">
+                <span className="font-medium text-gray-900">
+                  {feed.name}
+                  {feed.savedFilterId && (
+                    <span className="ml-2 font-normal text-gray-500">
+                      {savedFilters.find(filter => filter.id === feed.savedFilterId)?.name}
+                    </span>
+                  )}
+                </span>
+                <span className="space-x-3">
+                  <button
+                    onClick={() => copyUrl(feed)}
+                    className="text-blue-600 hover:text-blue-700"
+                  >
+                    {copiedId === feed.id ? 'Copied' : 'Copy link'}
+                  </button>
+                  <button
+                    onClick={() => revoke(feed)}
+                    disabled={deleteMutation.isPending}
+                    className="text-red-600 hover:text-red-700"
+                  >
+                    Revoke
+                  </button>
+                </span>
+              </div>
+              <input
+                type="text"
+                readOnly
+                aria-label={`${feed.name} URL`}
+                value={feedsApi.url(feed.token)}
+                onFocus={(e) => e.target.select()}
+                className={`${inputClassName} mt-1 w-full text-gray-600`}
+              />
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="pt-4 border-t border-gray-200">
+        <h3 className="text-sm font-medium text-gray-900 mb-3">
+          New Feed
+        </h3>
+        <div className="grid grid-cols-2 gap-2">
+          <input
+            type="text"
+            aria-label="Feed name"
+            placeholder="Labs only"
+            value={newFeed.name}
+            onChange={(e) => setNewFeed({ ...newFeed, name: e.target.value })}
+            className={inputClassName}
+          />
+          <select
+            aria-label="Feed classes"
+            value={newFeed.savedFilterId}
+            onChange={(e) => setNewFeed({ ...newFeed, savedFilterId: e.target.value })}
+            className={inputClassName}
+          >
+            <option value="">All classes</option>
+            {savedFilters.map(filter => (
+              <option key={filter.id} value={filter.id}>{filter.name}</option>
+            ))}
+          </select>
+        </div>
+        <button
+          onClick={() => createMutation.mutate()}
+          disabled={!newFeed.name.trim() || createMutation.isPending}
+          className="mt-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          {createMutation.isPending ? 'Creating...' : 'Create feed'}
+        </button>
+      </div>
+
+      {mutationError && (
+        <p className="text-sm text-red-600">{(mutationError as Error).message}</p>
+      )}
+    </div>
+  )
+}
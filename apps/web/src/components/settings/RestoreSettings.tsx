@@ -0,0 +1,177 @@
+'use client'
+
+import { useState } from 'react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { exportApi } from '@/lib/api'
+
+type RestoreMode = 'merge' | 'replace'
+
+interface RestoreCounts {
+  created: number
+  matched: number
+  deleted: number
+}
+
+interface RestoreReport {
+  mode: RestoreMode
+  dryRun: boolean
+  terms: RestoreCounts
+  subjects: RestoreCounts
+  sections: RestoreCounts
+  events: RestoreCounts
+  savedFilters: RestoreCounts
+  feeds: { repointed: number; deleted: number }
+  googleEventsDeleted: number
+  warnings: string[]
+}
+
+const MODES: { value: RestoreMode; label: string; description: string }[] = [
+  { value: 'merge', label: 'Merge', description: 'Add what you do not have yet; subjects, sections, terms and filters you have stay as they are' },
+  { value: 'replace', label: 'Replace', description: 'Delete your subjects, classes, terms and saved filters, then restore the backup' },
+]
+
+const REPORT_ROWS: { key: keyof Pick<RestoreReport, 'terms' | 'subjects' | 'sections' | 'events' | 'savedFilters'>; label: string }[] = [
+  { key: 'terms', label: 'Terms' },
+  { key: 'subjects', label: 'Subjects' },
+  { key: 'sections', label: 'Sections' },
+  { key: 'events', label: 'Classes' },
+  { key: 'savedFilters', label: 'Saved filters' },
+]
+
+function describeCounts(counts: RestoreCounts, dryRun: boolean): string {
+  return [
+    counts.deleted > 0 ? `${counts.deleted} ${dryRun ? 'to remove' : 'removed'}` : null,
+    `${counts.created} ${dryRun ? 'to add' : 'added'}`,
+    counts.matched > 0 ? `${counts.matched} already there` : null,
+  ].filter(Boolean).join(', ')
+}
+
+export default function RestoreSettings() {
+  const queryClient = useQueryClient()
+  const [file, setFile] = useState<File | null>(null)
+  const [mode, setMode] = useState<RestoreMode>('merge')
+
+  const restoreMutation = useMutation({
+    mutationFn: (dryRun: boolean) => exportApi.restore(file!, { mode, dryRun }) as Promise<RestoreReport>,
+    onSuccess: (report) => {
+      if (!report.dryRun) {
+        queryClient.invalidateQueries()
+      }
+    }
+  })
+
+  const restore = () => {
+    if (mode === 'replace' && !confirm('Replace your schedule with the backup? Your current subjects, classes, terms and saved filters will be deleted, and synced classes removed from Google Calendar.')) {
+      return
+    }
+    restoreMutation.mutate(false)
+  }
+
+  const report = restoreMutation.data
+
+  return (
+    <div>
+      <p className="text-sm text-gray-600 mb-3">
+        Restore a JSON backup from Export Data. Check it first to see what it would change.
+      </p>
+      <div className="space-y-3">
+        <div>
+          <label htmlFor="restore-file" className="block text-sm font-medium text-gray-700 mb-1">
+            Backup file
+          </label>
+          <input
+            id="restore-file"
+            type="file"
+            accept=".json,application/json"
+            onChange={(e) => {
+              setFile(e.target.files?.[0] || null)
+              restoreMutation.reset()
+            }}
+            className="block w-full text-sm text-gray-700"
+          />
+        </div>
+        <fieldset>
+          <legend className="block text-sm font-medium text-gray-700 mb-1">Mode</legend>
+          <div className="space-y-2">
+            {MODES.map(option => (
+              <label key={option.value} className="flex items-start space-x-2">
+                <input
+                  type="radio"
+                  name="restore-mode"
+                  value={option.value}
+                  checked={mode === option.value}
+                  onChange={() => {
+                    setMode(option.value)
+                    restoreMutation.reset()
+                  }}
+                  className="mt-1"
+                />
+                <span>
+                  <span className="block text-sm text-gray-900">{option.label}</span>
+                  <span className="block text-xs text-gray-500">{option.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+        </fieldset>
+        <div className="space-x-2">
+          <button
+            onClick={() => restoreMutation.mutate(true)}
+            disabled={!file || restoreMutation.isPending}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            Check backup
+          </button>
+          <button
+            onClick={restore}
+            disabled={!file || restoreMutation.isPending}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {restoreMutation.isPending ? 'Working...' : 'Restore'}
+          </button>
+        </div>
+      </div>
+
+      {report && (
+        <div className="mt-4 text-sm">
+          <h3 className="font-medium text-gray-900 mb-2">
+            {report.dryRun ? 'Restoring this backup would change:' : 'Backup restored'}
+          </h3>
+          <ul className="space-y-1 text-gray-700">
+            {REPORT_ROWS.map(row => (
+              <li key={row.key}>
+                {row.label}: {describeCounts(report[row.key], report.dryRun)}
+              </li>
+            ))}
+            {report.feeds.repointed + report.feeds.deleted > 0 && (
+              <li>
+                Calendar feeds: {[
+                  report.feeds.repointed > 0 ? `${report.feeds.repointed} kept` : null,
+                  report.feeds.deleted > 0 ? `${report.feeds.deleted} ${report.dryRun ? 'to remove' : 'removed'}` : null,
+                ].filter(Boolean).join(', ')}
+              </li>
+            )}
+            {report.googleEventsDeleted > 0 && (
+              <li>
+                Google Calendar: {report.googleEventsDeleted} synced classes {report.dryRun ? 'to remove' : 'removed'}
+              </li>
+            )}
+          </ul>
+          {report.warnings.length > 0 && (
+            <ul className="mt-2 space-y-1 text-amber-700">
+              {report.warnings.map(warning => (
+                <li key={warning}>{warning}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {restoreMutation.error && (
+        <p className="mt-2 text-sm text-red-600">
+          {(restoreMutation.error as Error).message}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -1,14 +1,51 @@
 'use client'
 
+import CalendarTargetSettings from './CalendarTargetSettings'
+import TimezoneSettings from './TimezoneSettings'
+import TermSettings from './TermSettings'
+import ExportSettings from './ExportSettings'
+import RestoreSettings from './RestoreSettings'
+import FeedSettings from './FeedSettings'
+
 export default function SettingsForm() {
   return (
-    <div className="bg-white shadow rounded-lg p-6">
-      <h2 className="text-lg font-medium text-gray-900 mb-4">
-        Account Settings
-      </h2>
-      <p className="text-gray-600">
-        Settings form component will be implemented in a future task.
-      </p>
+    <div className="space-y-6">
+      <div className="bg-white shadow rounded-lg p-6">
+        <h2 className="text-lg font-medium text-gray-900 mb-4">
+          Google Calendar
+        </h2>
+        <CalendarTargetSettings />
+      </div>
+      <div className="bg-white shadow rounded-lg p-6">
+        <h2 className="text-lg font-medium text-gray-900 mb-4">
+          Academic Calendar
+        </h2>
+        <TermSettings />
+      </div>
+      <div className="bg-white shadow rounded-lg p-6">
+        <h2 className="text-lg font-medium text-gray-900 mb-4">
+          Account Settings
+        </h2>
+        <TimezoneSettings />
+      </div>
+      <div className="bg-white shadow rounded-lg p-6">
+        <h2 className="text-lg font-medium text-gray-900 mb-4">
+          Export Data
+        </h2>
+        <ExportSettings />
+      </div>
+      <div className="bg-white shadow rounded-lg p-6">
+        <h2 className="text-lg font-medium text-gray-900 mb-4">
+          Restore Backup
+        </h2>
+        <RestoreSettings />
+      </div>
+      <div className="bg-white shadow rounded-lg p-6">
+        <h2 className="text-lg font-medium text-gray-900 mb-4">
+          Calendar Feeds
+        </h2>
+        <FeedSettings />
+      </div>
     </div>
   )
 }
\ No newline at end of file
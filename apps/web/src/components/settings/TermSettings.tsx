@@ -0,0 +1,272 @@
+'use client'
+
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { termsApi } from '@/lib/api'
+
+type BlackoutKind = 'holiday' | 'reading_week' | 'midterm' | 'exam' | 'other'
+
+interface Blackout {
+  name: string
+  kind: BlackoutKind
+  startDate: string
+  endDate: string
+}
+
+interface Term {
+  id: string
+  name: string
+  startDate: string
+  endDate: string
+  blackouts: Blackout[]
+  sectionsCount: number
+  affectedSectionIds?: string[]
+}
+
+const BLACKOUT_KINDS: { value: BlackoutKind; label: string }[] = [
+  { value: 'holiday', label: 'Holiday' },
+  { value: 'reading_week', label: 'Reading week' },
+  { value: 'midterm', label: 'Midterm week' },
+  { value: 'exam', label: 'Exam period' },
+  { value: 'other', label: 'Other' },
+]
+
+const emptyBlackout: Blackout = { name: '', kind: 'holiday', startDate: '', endDate: '' }
+
+const inputClassName = 'px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+export default function TermSettings() {
+  const queryClient = useQueryClient()
+  const [newTerm, setNewTerm] = useState({ name: '', startDate: '', endDate: '' })
+  const [selectedTermId, setSelectedTermId] = useState<string | null>(null)
+  const [blackout, setBlackout] = useState<Blackout>(emptyBlackout)
+  // Term whose last edit left sections with out-of-date events
+  const [pendingRegeneration, setPendingRegeneration] = useState<{ termId: string; sectionIds: string[] } | null>(null)
+
+  const { data: terms = [], isLoading } = useQuery({
+    queryKey: ['terms'],
+    queryFn: () => termsApi.getAll() as Promise<Term[]>,
+  })
+
+  const createMutation = useMutation({
+    mutationFn: () => termsApi.create(newTerm) as Promise<Term>,
+    onSuccess: (term) => {
+      setNewTerm({ name: '', startDate: '', endDate: '' })
+      setSelectedTermId(term.id)
+      queryClient.invalidateQueries({ queryKey: ['terms'] })
+    }
+  })
+
+  const updateBlackoutsMutation = useMutation({
+    mutationFn: ({ termId, blackouts }: { termId: string; blackouts: Blackout[] }) =>
+      termsApi.update(termId, { blackouts }) as Promise<Term>,
+    onSuccess: (term) => {
+      setBlackout(emptyBlackout)
+      setPendingRegeneration(term.affectedSectionIds?.length
+        ? { termId: term.id, sectionIds: term.affectedSectionIds }
+        : null)
+      queryClient.invalidateQueries({ queryKey: ['terms'] })
+    }
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: (termId: string) => termsApi.delete(termId),
+    onSuccess: () => {
+      setSelectedTermId(null)
+      queryClient.invalidateQueries({ queryKey: ['terms'] })
+    }
+  })
+
+  const regenerateMutation = useMutation({
+    mutationFn: ({ termId, sectionIds }: { termId: string; sectionIds: string[] }) =>
+      termsApi.regenerate(termId, sectionIds),
+    onSuccess: () => {
+      setPendingRegeneration(null)
+      queryClient.invalidateQueries({ queryKey: ['events'] })
+    }
+  })
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-600">Loading...</p>
+  }
+
+  const selectedTerm = terms.find(term => term.id === selectedTermId)
+  const mutationError = createMutation.error || updateBlackoutsMutation.error || deleteMutation.error || regenerateMutation.error
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-sm font-medium text-gray-900 mb-1">
+          Terms
+        </h3>
+        <p className="text-sm text-gray-600 mb-3">
+          Sections in a term skip its holidays, reading weeks and exam periods when events are generated.
+        </p>
+        {terms.length > 0 ? (
+          <ul className="space-y-2">
+            {terms.map(term => (
+              <li key={term.id} className="flex items-center justify-between">
+                <button
+                  onClick={() => setSelectedTermId(term.id)}
+                  className={`text-sm ${term.id === selectedTermId ? 'font-medium text-blue-600' : 'text-gray-700'}`}
+                >
+                  {term.name} ({term.startDate} – {term.endDate})
+                </button>
+                <span className="text-xs text-gray-500">
+                  {term.sectionsCount} {term.sectionsCount === 1 ? 'section' : 'sections'}
+                </span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500">No terms yet.</p>
+        )}
+      </div>
+
+      {pendingRegeneration && (
+        <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-md">
+          <p className="text-sm text-yellow-800 mb-2">
+            {pendingRegeneration.sectionIds.length === 1 ? '1 section has' : `${pendingRegeneration.sectionIds.length} sections have`} classes on dates you just changed. Regenerate their events?
+          </p>
+          <div className="flex space-x-3">
+            <button
+              onClick={() => regenerateMutation.mutate(pendingRegeneration)}
+              disabled={regenerateMutation.isPending}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {regenerateMutation.isPending ? 'Regenerating...' : 'Regenerate events'}
+            </button>
+            <button
+              onClick={() => setPendingRegeneration(null)}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Not now
+            </button>
+          </div>
+        </div>
+      )}
+
+      {selectedTerm && (
+        <div className="pt-4 border-t border-gray-200">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-sm font-medium text-gray-900">
+              Blackout Periods in {selectedTerm.name}
+            </h3>
+            <button
+              onClick={() => deleteMutation.mutate(selectedTerm.id)}
+              disabled={deleteMutation.isPending}
+              className="text-sm text-red-600 hover:text-red-700"
+            >
+              Delete term
+            </button>
+          </div>
+          <ul className="space-y-2 mb-3">
+            {selectedTerm.blackouts.map((period, index) => (
+              <li key={`${period.name}-${period.startDate}`} className="flex items-center justify-between text-sm text-gray-700">
+                <span>
+                  {period.name} ({BLACKOUT_KINDS.find(kind => kind.value === period.kind)?.label}): {period.startDate}
+                  {period.endDate !== period.startDate ? ` – ${period.endDate}` : ''}
+                </span>
+                <button
+                  onClick={() => updateBlackoutsMutation.mutate({
+                    termId: selectedTerm.id,
+                    blackouts: selectedTerm.blackouts.filter((_, i) => i !== index),
+                  })}
+                  aria-label={`Remove ${period.name}`}
+                  className="text-gray-400 hover:text-red-600"
+                >
+                  ×
+                </button>
+              </li>
+            ))}
+          </ul>
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="text"
+              aria-label="Blackout name"
+              placeholder="Name, e.g. Songkran"
+              value={blackout.name}
+              onChange={(e) => setBlackout({ ...blackout, name: e.target.value })}
+              className={inputClassName}
+            />
+            <select
+              aria-label="Blackout kind"
+              value={blackout.kind}
+              onChange={(e) => setBlackout({ ...blackout, kind: e.target.value as BlackoutKind })}
+              className={inputClassName}
+            >
+              {BLACKOUT_KINDS.map(kind => (
+                <option key={kind.value} value={kind.value}>{kind.label}</option>
+              ))}
+            </select>
+            <input
+              type="date"
+              aria-label="Blackout start date"
+              value={blackout.startDate}
+              onChange={(e) => setBlackout({ ...blackout, startDate: e.target.value })}
+              className={inputClassName}
+            />
+            <input
+              type="date"
+              aria-label="Blackout end date"
+              value={blackout.endDate}
+              onChange={(e) => setBlackout({ ...blackout, endDate: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+          <button
+            onClick={() => updateBlackoutsMutation.mutate({
+              termId: selectedTerm.id,
+              blackouts: [...selectedTerm.blackouts, { ...blackout, endDate: blackout.endDate || blackout.startDate }],
+            })}
+            disabled={!blackout.name.trim() || !blackout.startDate || updateBlackoutsMutation.isPending}
+            className="mt-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            Add blackout
+          </button>
+        </div>
+      )}
+
+      <div className="pt-4 border-t border-gray-200">
+        <h3 className="text-sm font-medium text-gray-900 mb-3">
+          New Term
+        </h3>
+        <div className="grid grid-cols-3 gap-2">
+          <input
+            type="text"
+            aria-label="Term name"
+            placeholder="Semester 1/2025"
+            value={newTerm.name}
+            onChange={(e) => setNewTerm({ ...newTerm, name: e.target.value })}
+            className={inputClassName}
+          />
+          <input
+            type="date"
+            aria-label="Term start date"
+            value={newTerm.startDate}
+            onChange={(e) => setNewTerm({ ...newTerm, startDate: e.target.value })}
+            className={inputClassName}
+          />
+          <input
+            type="date"
+            aria-label="Term end date"
+            value={newTerm.endDate}
+            onChange={(e) => setNewTerm({ ...newTerm, endDate: e.target.value })}
+            className={inputClassName}
+          />
+        </div>
+        <button
+          onClick={() => createMutation.mutate()}
+          disabled={!newTerm.name.trim() || !newTerm.startDate || !newTerm.endDate || createMutation.isPending}
+          className="mt-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          {createMutation.isPending ? 'Creating...' : 'Create term'}
+        </button>
+      </div>
+
+      {mutationError && (
+        <p className="text-sm text-red-600">{(mutationError as Error).message}</p>
+      )}
+    </div>
+  )
+}
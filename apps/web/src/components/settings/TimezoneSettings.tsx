@@ -0,0 +1,79 @@
+'use client'
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { authApi } from '@/lib/api'
+
+interface Profile {
+  id: string
+  email: string
+  displayName: string
+  timezone?: string
+}
+
+function getTimezones(): string[] {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: string) => string[] }
+  return intl.supportedValuesOf?.('timeZone') || []
+}
+
+export default function TimezoneSettings() {
+  const queryClient = useQueryClient()
+  const deviceTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone
+
+  const { data: profile, isLoading } = useQuery({
+    queryKey: ['auth', 'me'],
+    queryFn: () => authApi.me() as Promise<Profile>,
+  })
+
+  const updateMutation = useMutation({
+    mutationFn: (timezone: string) => authApi.updateTimezone(timezone),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['auth', 'me'] })
+    }
+  })
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-600">Loading...</p>
+  }
+
+  const current = profile?.timezone
+  const timezones = Array.from(new Set([...(current ? [current] : []), deviceTimezone, ...getTimezones()])).sort()
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-gray-900 mb-1">
+        Timezone
+      </h3>
+      <p className="text-sm text-gray-600 mb-3">
+        Class times are written to Google Calendar as local times in this timezone. After a change, the next sync moves existing events to the same local times.
+      </p>
+      <div className="flex space-x-3">
+        <select
+          aria-label="Timezone"
+          value={current || ''}
+          onChange={(e) => updateMutation.mutate(e.target.value)}
+          disabled={updateMutation.isPending}
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {!current && <option value="">Same as Google Calendar</option>}
+          {timezones.map(timezone => (
+            <option key={timezone} value={timezone}>{timezone}</option>
+          ))}
+        </select>
+        {current !== deviceTimezone && (
+          <button
+            onClick={() => updateMutation.mutate(deviceTimezone)}
+            disabled={updateMutation.isPending}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            Use {deviceTimezone}
+          </button>
+        )}
+      </div>
+      {updateMutation.error && (
+        <p className="mt-2 text-sm text-red-600">
+          {(updateMutation.error as Error).message}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,137 @@
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import CalendarTargetSettings from '../CalendarTargetSettings'
+import { calendarsApi, subjectsApi } from '@/lib/api'
+
+// Mock the API
+jest.mock('@/lib/api', () => ({
+  calendarsApi: {
+    getAll: jest.fn(),
+    create: jest.fn(),
+    setTarget: jest.fn(),
+    setSubjectCalendar: jest.fn(),
+  },
+  subjectsApi: {
+    getAll: jest.fn(),
+  }
+}))
+
+const mockCalendarsApi = calendarsApi as jest.Mocked<typeof calendarsApi>
+const mockSubjectsApi = subjectsApi as jest.Mocked<typeof subjectsApi>
+
+// Test wrapper with QueryClient
+const createWrapper = () => {
+  const queryClient = new QueryClient({
+    defaultOptions: {
+      queries: { retry: false },
+      mutations: { retry: false },
+    },
+  })
+
+  return ({ children }: { children: React.ReactNode }) => (
+    <QueryClientProvider client={queryClient}>
+      {children}
+    </QueryClientProvider>
+  )
+}
+
+const mockCalendarList = {
+  data: {
+    targetCalendarId: 'me@example.com',
+    calendars: [
+      { id: 'me@example.com', summary: 'Me', primary: true, writable: true, isTarget: true },
+      { id: 'classes@group.calendar.google.com', summary: 'Classes', primary: false, writable: true, isTarget: false },
+      { id: 'holidays@group.v.calendar.google.com', summary: 'Holidays', primary: false, writable: false, isTarget: false },
+    ]
+  }
+}
+
+describe('CalendarTargetSettings', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockCalendarsApi.getAll.mockResolvedValue(mockCalendarList)
+    mockSubjectsApi.getAll.mockResolvedValue([
+      { id: 'subject-1', code: 'CS101', name: 'Computer Science' }
+    ])
+  })
+
+  it('should only offer writable calendars as targets', async () => {
+    const Wrapper = createWrapper()
+    render(
+      <Wrapper>
+        <CalendarTargetSettings />
+      </Wrapper>
+    )
+
+    const select = await screen.findByLabelText('Target calendar')
+    expect(select).toHaveValue('me@example.com')
+    expect(within(select).getAllByRole('option').map(option => option.textContent)).toEqual([
+      'Me (primary)',
+      'Classes',
+    ])
+    expect(screen.queryByRole('option', { name: 'Holidays' })).not.toBeInTheDocument()
+  })
+
+  it('should change the target calendar', async () => {
+    mockCalendarsApi.setTarget.mockResolvedValue({ data: { targetCalendarId: 'classes@group.calendar.google.com' } })
+
+    const Wrapper = createWrapper()
+    render(
+      <Wrapper>
+        <CalendarTargetSettings />
+      </Wrapper>
+    )
+
+    fireEvent.change(await screen.findByLabelText('Target calendar'), {
+      target: { value: 'classes@group.calendar.google.com' }
+    })
+
+    await waitFor(() => {
+      expect(mockCalendarsApi.setTarget).toHaveBeenCalledWith('classes@group.calendar.google.com')
+    })
+  })
+
+  it('should create a dedicated calendar in the browser timezone', async () => {
+    mockCalendarsApi.create.mockResolvedValue({ data: { id: 'new@group.calendar.google.com' } })
+
+    const Wrapper = createWrapper()
+    render(
+      <Wrapper>
+        <CalendarTargetSettings />
+      </Wrapper>
+    )
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Create' }))
+
+    await waitFor(() => {
+      expect(mockCalendarsApi.create).toHaveBeenCalledWith({
+        summary: 'Stanlendar – Semester 1',
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        makeTarget: true,
+      })
+    })
+  })
+
+  it('should clear a subject calendar back to the target', async () => {
+    mockSubjectsApi.getAll.mockResolvedValue([
+      { id: 'subject-1', code: 'CS101', name: 'Computer Science', calendarId: 'classes@group.calendar.google.com' }
+    ])
+    mockCalendarsApi.setSubjectCalendar.mockResolvedValue({ data: {} })
+
+    const Wrapper = createWrapper()
+    render(
+      <Wrapper>
+        <CalendarTargetSettings />
+      </Wrapper>
+    )
+
+    const select = await screen.findByLabelText('Calendar for Computer Science')
+    expect(select).toHaveValue('classes@group.calendar.google.com')
+
+    fireEvent.change(select, { target: { value: '' } })
+
+    await waitFor(() => {
+      expect(mockCalendarsApi.setSubjectCalendar).toHaveBeenCalledWith('subject-1', null)
+    })
+  })
+})
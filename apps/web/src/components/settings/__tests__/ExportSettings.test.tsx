@@ -0,0 +1,116 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import ExportSettings from '../ExportSettings'
+import { exportApi, spotlightApi, subjectsApi, termsApi } from '@/lib/api'
+
+// Mock the API
+jest.mock('@/lib/api', () => ({
+  exportApi: {
+    download: jest.fn(),
+  },
+  subjectsApi: {
+    getAll: jest.fn(),
+  },
+  termsApi: {
+    getAll: jest.fn(),
+  },
+  spotlightApi: {
+    savedFilters: {
+      getAll: jest.fn(),
+    },
+  },
+}))
+
+const mockExportApi = exportApi as jest.Mocked<typeof exportApi>
+const mockSubjectsApi = subjectsApi as jest.Mocked<typeof subjectsApi>
+const mockTermsApi = termsApi as jest.Mocked<typeof termsApi>
+const mockSavedFiltersApi = spotlightApi.savedFilters as jest.Mocked<typeof spotlightApi.savedFilters>
+
+// Test wrapper with QueryClient
+const createWrapper = () => {
+  const queryClient = new QueryClient({
+    defaultOptions: {
+      queries: { retry: false },
+      mutations: { retry: false },
+    },
+  })
+
+  return ({ children }: { children: React.ReactNode }) => (
+    <QueryClientProvider client={queryClient}>
+      {children}
+    </QueryClientProvider>
+  )
+}
+
+describe('ExportSettings', () => {
+  const createObjectURL = jest.fn(() => 'blob:export')
+  const revokeObjectURL = jest.fn()
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    Object.assign(URL, { createObjectURL, revokeObjectURL })
+    mockSubjectsApi.getAll.mockResolvedValue([{ id: 'subject-1', code: 'CS101', name: 'Computer Science' }])
+    mockTermsApi.getAll.mockResolvedValue([{ id: 'term-1', name: 'Semester 2/2024' }])
+    mockSavedFiltersApi.getAll.mockResolvedValue([{ id: 'filter-1', name: 'Mornings' }])
+  })
+
+  it('downloads the chosen format for everything by default', async () => {
+    const blob = new Blob(['BEGIN:VCALENDAR'])
+    mockExportApi.download.mockResolvedValue({ blob, filename: 'stanlendar.ics' })
+
+    const Wrapper = createWrapper()
+    render(
+      <Wrapper>
+        <ExportSettings />
+      </Wrapper>
+    )
+
+    fireEvent.click(screen.getByRole('button', { name: 'Download' }))
+
+    await waitFor(() => {
+      expect(mockExportApi.download).toHaveBeenCalledWith({ format: 'ics' })
+      expect(createObjectURL).toHaveBeenCalledWith(blob)
+    })
+  })
+
+  it('scopes the export to a subject, term or saved filter', async () => {
+    mockExportApi.download.mockResolvedValue({ blob: new Blob(['Subject']), filename: null })
+
+    const Wrapper = createWrapper()
+    render(
+      <Wrapper>
+        <ExportSettings />
+      </Wrapper>
+    )
+
+    await waitFor(() => {
+      expect(screen.getByRole('option', { name: 'Mornings' })).toBeInTheDocument()
+    })
+    expect(screen.getByRole('option', { name: 'CS101 Computer Science' })).toBeInTheDocument()
+
+    fireEvent.click(screen.getByLabelText(/CSV/))
+    fireEvent.change(screen.getByLabelText('Include'), { target: { value: 'term:term-1' } })
+    fireEvent.click(screen.getByRole('button', { name: 'Download' }))
+
+    await waitFor(() => {
+      expect(mockExportApi.download).toHaveBeenCalledWith({ format: 'csv', termId: 'term-1' })
+    })
+  })
+
+  it('shows why an export failed', async () => {
+    mockExportApi.download.mockRejectedValue(new Error("Term with ID 'term-1' not found"))
+
+    const Wrapper = createWrapper()
+    render(
+      <Wrapper>
+        <ExportSettings />
+      </Wrapper>
+    )
+
+    fireEvent.click(screen.getByRole('button', { name: 'Download' }))
+
+    await waitFor(() => {
+      expect(screen.getByText("Term with ID 'term-1' not found")).toBeInTheDocument()
+    })
+  })
+})
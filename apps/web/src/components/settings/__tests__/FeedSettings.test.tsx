@@ -0,0 +1,116 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import FeedSettings from '../FeedSettings'
+import { feedsApi, spotlightApi } from '@/lib/api'
+
+// Mock the API
+jest.mock('@/lib/api', () => ({
+  feedsApi: {
+    getAll: jest.fn(),
+    create: jest.fn(),
+    delete: jest.fn(),
+    url: (token: string) => `http://localhost:3001/feeds/${token}.ics`,
+  },
+  spotlightApi: {
+    savedFilters: {
+      getAll: jest.fn(),
+    },
+  },
+}))
+
+const mockFeedsApi = feedsApi as jest.Mocked<typeof feedsApi>
+const mockSavedFiltersApi = spotlightApi.savedFilters as jest.Mocked<typeof spotlightApi.savedFilters>
+
+// Test wrapper with QueryClient
+const createWrapper = () => {
+  const queryClient = new QueryClient({
+    defaultOptions: {
+      queries: { retry: false },
+      mutations: { retry: false },
+    },
+  })
+
+  return ({ children }: { children: React.ReactNode }) => (
+    <QueryClientProvider client={queryClient}>
+      {children}
+    </QueryClientProvider>
+  )
+}
+
+describe('FeedSettings', () => {
+  const labsFeed = { id: 'feed-1', name: 'Labs', token: 'abc123', savedFilterId: 'filter-1' }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockFeedsApi.getAll.mockResolvedValue([labsFeed])
+    mockSavedFiltersApi.getAll.mockResolvedValue([{ id: 'filter-1', name: 'Labs only' }])
+  })
+
+  it('lists feeds with their URLs to copy', async () => {
+    const writeText = jest.fn().mockResolvedValue(undefined)
+    Object.assign(navigator, { clipboard: { writeText } })
+
+    const Wrapper = createWrapper()
+    render(
+      <Wrapper>
+        <FeedSettings />
+      </Wrapper>
+    )
+
+    await waitFor(() => {
+      expect(screen.getByLabelText('Labs URL')).toHaveValue('http://localhost:3001/feeds/abc123.ics')
+    })
+
+    fireEvent.click(screen.getByRole('button', { name: 'Copy link' }))
+
+    await waitFor(() => {
+      expect(writeText).toHaveBeenCalledWith('http://localhost:3001/feeds/abc123.ics')
+      expect(screen.getByRole('button', { name: 'Copied' })).toBeInTheDocument()
+    })
+  })
+
+  it('creates a feed of a saved filter', async () => {
+    mockFeedsApi.create.mockResolvedValue({})
+
+    const Wrapper = createWrapper()
+    render(
+      <Wrapper>
+        <FeedSettings />
+      </Wrapper>
+    )
+
+    await waitFor(() => {
+      expect(screen.getByRole('option', { name: 'Labs only' })).toBeInTheDocument()
+    })
+
+    fireEvent.change(screen.getByLabelText('Feed name'), { target: { value: 'Lab sessions' } })
+    fireEvent.change(screen.getByLabelText('Feed classes'), { target: { value: 'filter-1' } })
+    fireEvent.click(screen.getByRole('button', { name: 'Create feed' }))
+
+    await waitFor(() => {
+      expect(mockFeedsApi.create).toHaveBeenCalledWith({ name: 'Lab sessions', savedFilterId: 'filter-1' })
+    })
+  })
+
+  it('revokes a feed after confirming', async () => {
+    mockFeedsApi.delete.mockResolvedValue(undefined)
+    jest.spyOn(window, 'confirm').mockReturnValue(true)
+
+    const Wrapper = createWrapper()
+    render(
+      <Wrapper>
+        <FeedSettings />
+      </Wrapper>
+    )
+
+    await waitFor(() => {
+      expect(screen.getByRole('button', { name: 'Revoke' })).toBeInTheDocument()
+    })
+
+    fireEvent.click(screen.getByRole('button', { name: 'Revoke' }))
+
+    await waitFor(() => {
+      expect(mockFeedsApi.delete).toHaveBeenCalledWith('feed-1')
+    })
+  })
+})
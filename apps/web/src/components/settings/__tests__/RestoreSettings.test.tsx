@@ -0,0 +1,128 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import RestoreSettings from '../RestoreSettings'
+import { exportApi } from '@/lib/api'
+
+// Mock the API
+jest.mock('@/lib/api', () => ({
+  exportApi: {
+    restore: jest.fn(),
+  },
+}))
+
+const mockExportApi = exportApi as jest.Mocked<typeof exportApi>
+
+// Test wrapper with QueryClient
+const createWrapper = () => {
+  const queryClient = new QueryClient({
+    defaultOptions: {
+      queries: { retry: false },
+      mutations: { retry: false },
+    },
+  })
+
+  return ({ children }: { children: React.ReactNode }) => (
+    <QueryClientProvider client={queryClient}>
+      {children}
+    </QueryClientProvider>
+  )
+}
+
+describe('RestoreSettings', () => {
+  const file = new File(['{"version":1}'], 'stanlendar.json', { type: 'application/json' })
+  const counts = (created: number, matched = 0, deleted = 0) => ({ created, matched, deleted })
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('checks a backup and shows what it would change', async () => {
+    mockExportApi.restore.mockResolvedValue({
+      mode: 'merge',
+      dryRun: true,
+      terms: counts(0, 1),
+      subjects: counts(2),
+      sections: counts(3),
+      events: counts(40),
+      savedFilters: counts(1),
+      feeds: { repointed: 0, deleted: 0 },
+      googleEventsDeleted: 0,
+      warnings: ['Saved filter "Labs" refers to subjects or sections that are not in the backup'],
+    })
+
+    const Wrapper = createWrapper()
+    render(
+      <Wrapper>
+        <RestoreSettings />
+      </Wrapper>
+    )
+
+    expect(screen.getByRole('button', { name: 'Check backup' })).toBeDisabled()
+
+    fireEvent.change(screen.getByLabelText('Backup file'), { target: { files: [file] } })
+    fireEvent.click(screen.getByRole('button', { name: 'Check backup' }))
+
+    await waitFor(() => {
+      expect(mockExportApi.restore).toHaveBeenCalledWith(file, { mode: 'merge', dryRun: true })
+      expect(screen.getByText('Restoring this backup would change:')).toBeInTheDocument()
+    })
+    expect(screen.getByText('Terms: 0 to add, 1 already there')).toBeInTheDocument()
+    expect(screen.getByText('Classes: 40 to add')).toBeInTheDocument()
+    expect(screen.queryByText(/Calendar feeds/)).not.toBeInTheDocument()
+    expect(screen.getByText('Saved filter "Labs" refers to subjects or sections that are not in the backup')).toBeInTheDocument()
+  })
+
+  it('replaces the schedule after confirming', async () => {
+    jest.spyOn(window, 'confirm').mockReturnValue(true)
+    mockExportApi.restore.mockResolvedValue({
+      mode: 'replace',
+      dryRun: false,
+      terms: counts(1, 0, 1),
+      subjects: counts(2, 0, 1),
+      sections: counts(3, 0, 1),
+      events: counts(40, 0, 12),
+      savedFilters: counts(1, 0, 2),
+      feeds: { repointed: 1, deleted: 1 },
+      googleEventsDeleted: 10,
+      warnings: [],
+    })
+
+    const Wrapper = createWrapper()
+    render(
+      <Wrapper>
+        <RestoreSettings />
+      </Wrapper>
+    )
+
+    fireEvent.change(screen.getByLabelText('Backup file'), { target: { files: [file] } })
+    fireEvent.click(screen.getByLabelText(/Replace/))
+    fireEvent.click(screen.getByRole('button', { name: 'Restore' }))
+
+    await waitFor(() => {
+      expect(mockExportApi.restore).toHaveBeenCalledWith(file, { mode: 'replace', dryRun: false })
+      expect(screen.getByText('Backup restored')).toBeInTheDocument()
+    })
+    expect(window.confirm).toHaveBeenCalled()
+    expect(screen.getByText('Classes: 12 removed, 40 added')).toBeInTheDocument()
+    expect(screen.getByText('Calendar feeds: 1 kept, 1 removed')).toBeInTheDocument()
+    expect(screen.getByText('Google Calendar: 10 synced classes removed')).toBeInTheDocument()
+  })
+
+  it('shows why a backup cannot be restored', async () => {
+    mockExportApi.restore.mockRejectedValue(new Error('The backup is not a JSON file'))
+
+    const Wrapper = createWrapper()
+    render(
+      <Wrapper>
+        <RestoreSettings />
+      </Wrapper>
+    )
+
+    fireEvent.change(screen.getByLabelText('Backup file'), { target: { files: [file] } })
+    fireEvent.click(screen.getByRole('button', { name: 'Check backup' }))
+
+    await waitFor(() => {
+      expect(screen.getByText('The backup is not a JSON file')).toBeInTheDocument()
+    })
+  })
+})
@@ -0,0 +1,126 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import TermSettings from '../TermSettings'
+import { termsApi } from '@/lib/api'
+
+// Mock the API
+jest.mock('@/lib/api', () => ({
+  termsApi: {
+    getAll: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+    regenerate: jest.fn(),
+  }
+}))
+
+const mockTermsApi = termsApi as jest.Mocked<typeof termsApi>
+
+// Test wrapper with QueryClient
+const createWrapper = () => {
+  const queryClient = new QueryClient({
+    defaultOptions: {
+      queries: { retry: false },
+      mutations: { retry: false },
+    },
+  })
+
+  return ({ children }: { children: React.ReactNode }) => (
+    <QueryClientProvider client={queryClient}>
+      {children}
+    </QueryClientProvider>
+  )
+}
+
+const midtermWeek = { name: 'Midterm week', kind: 'midterm', startDate: '2025-07-14', endDate: '2025-07-18' }
+
+const mockTerm = {
+  id: 'term-1',
+  name: 'Semester 1/2025',
+  startDate: '2025-06-09',
+  endDate: '2025-10-03',
+  blackouts: [midtermWeek],
+  sectionsCount: 2,
+}
+
+describe('TermSettings', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockTermsApi.getAll.mockResolvedValue([mockTerm])
+  })
+
+  it('should create a term', async () => {
+    mockTermsApi.create.mockResolvedValue({ ...mockTerm, id: 'term-2', name: 'Semester 2/2025' })
+
+    const Wrapper = createWrapper()
+    render(
+      <Wrapper>
+        <TermSettings />
+      </Wrapper>
+    )
+
+    fireEvent.change(await screen.findByLabelText('Term name'), { target: { value: 'Semester 2/2025' } })
+    fireEvent.change(screen.getByLabelText('Term start date'), { target: { value: '2025-11-03' } })
+    fireEvent.change(screen.getByLabelText('Term end date'), { target: { value: '2026-03-06' } })
+    fireEvent.click(screen.getByRole('button', { name: 'Create term' }))
+
+    await waitFor(() => {
+      expect(mockTermsApi.create).toHaveBeenCalledWith({
+        name: 'Semester 2/2025',
+        startDate: '2025-11-03',
+        endDate: '2026-03-06',
+      })
+    })
+  })
+
+  it('should offer to regenerate sections affected by a new blackout', async () => {
+    mockTermsApi.update.mockResolvedValue({ ...mockTerm, affectedSectionIds: ['section-1'] })
+    mockTermsApi.regenerate.mockResolvedValue({ generated: 15, skipped: 2, replaced: 16, events: [] })
+
+    const Wrapper = createWrapper()
+    render(
+      <Wrapper>
+        <TermSettings />
+      </Wrapper>
+    )
+
+    fireEvent.click(await screen.findByText(/Semester 1\/2025/))
+    fireEvent.change(screen.getByLabelText('Blackout name'), { target: { value: 'Queen\'s Birthday' } })
+    fireEvent.change(screen.getByLabelText('Blackout start date'), { target: { value: '2025-08-12' } })
+    fireEvent.click(screen.getByRole('button', { name: 'Add blackout' }))
+
+    await waitFor(() => {
+      expect(mockTermsApi.update).toHaveBeenCalledWith('term-1', {
+        blackouts: [
+          midtermWeek,
+          { name: 'Queen\'s Birthday', kind: 'holiday', startDate: '2025-08-12', endDate: '2025-08-12' },
+        ],
+      })
+    })
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Regenerate events' }))
+
+    await waitFor(() => {
+      expect(mockTermsApi.regenerate).toHaveBeenCalledWith('term-1', ['section-1'])
+    })
+  })
+
+  it('should not offer to regenerate when no section is affected', async () => {
+    mockTermsApi.update.mockResolvedValue({ ...mockTerm, blackouts: [], affectedSectionIds: [] })
+
+    const Wrapper = createWrapper()
+    render(
+      <Wrapper>
+        <TermSettings />
+      </Wrapper>
+    )
+
+    fireEvent.click(await screen.findByText(/Semester 1\/2025/))
+    fireEvent.click(screen.getByRole('button', { name: 'Remove Midterm week' }))
+
+    await waitFor(() => {
+      expect(mockTermsApi.update).toHaveBeenCalledWith('term-1', { blackouts: [] })
+    })
+    expect(screen.queryByRole('button', { name: 'Regenerate events' })).not.toBeInTheDocument()
+  })
+})
@@ -0,0 +1,89 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import TimezoneSettings from '../TimezoneSettings'
+import { authApi } from '@/lib/api'
+
+// Mock the API
+jest.mock('@/lib/api', () => ({
+  authApi: {
+    me: jest.fn(),
+    updateTimezone: jest.fn(),
+  }
+}))
+
+const mockAuthApi = authApi as jest.Mocked<typeof authApi>
+
+// Test wrapper with QueryClient
+const createWrapper = () => {
+  const queryClient = new QueryClient({
+    defaultOptions: {
+      queries: { retry: false },
+      mutations: { retry: false },
+    },
+  })
+
+  return ({ children }: { children: React.ReactNode }) => (
+    <QueryClientProvider client={queryClient}>
+      {children}
+    </QueryClientProvider>
+  )
+}
+
+describe('TimezoneSettings', () => {
+  const deviceTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockAuthApi.updateTimezone.mockResolvedValue({ timezone: 'Asia/Tokyo' })
+  })
+
+  it('shows the account timezone', async () => {
+    mockAuthApi.me.mockResolvedValue({ id: 'user-1', email: 'a@example.com', displayName: 'A', timezone: 'Asia/Bangkok' })
+
+    const Wrapper = createWrapper()
+    render(
+      <Wrapper>
+        <TimezoneSettings />
+      </Wrapper>
+    )
+
+    await waitFor(() => {
+      expect(screen.getByLabelText('Timezone')).toHaveValue('Asia/Bangkok')
+    })
+  })
+
+  it('saves a newly selected timezone', async () => {
+    mockAuthApi.me.mockResolvedValue({ id: 'user-1', email: 'a@example.com', displayName: 'A', timezone: 'Asia/Bangkok' })
+
+    const Wrapper = createWrapper()
+    render(
+      <Wrapper>
+        <TimezoneSettings />
+      </Wrapper>
+    )
+
+    const select = await screen.findByLabelText('Timezone')
+    fireEvent.change(select, { target: { value: deviceTimezone } })
+
+    await waitFor(() => {
+      expect(mockAuthApi.updateTimezone).toHaveBeenCalledWith(deviceTimezone)
+    })
+  })
+
+  it('offers the device timezone when none is set', async () => {
+    mockAuthApi.me.mockResolvedValue({ id: 'user-1', email: 'a@example.com', displayName: 'A' })
+
+    const Wrapper = createWrapper()
+    render(
+      <Wrapper>
+        <TimezoneSettings />
+      </Wrapper>
+    )
+
+    fireEvent.click(await screen.findByText(`Use ${deviceTimezone}`))
+
+    await waitFor(() => {
+      expect(mockAuthApi.updateTimezone).toHaveBeenCalledWith(deviceTimezone)
+    })
+  })
+})
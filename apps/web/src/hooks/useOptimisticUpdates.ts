@@ -11,8 +11,9 @@ export interface OptimisticUpdate<T> {
 
 export interface UseOptimisticUpdatesOptions<T> {
   queryKey: string[];
-  updateFn: (oldData: T[] | undefined, newItem: T) => T[];
-  rollbackFn: (oldData: T[] | undefined, itemId: string) => T[];
+  // Only needed to add items; updates and removals work on the cached list
+  updateFn?: (oldData: T[] | undefined, newItem: T) => T[];
+  rollbackFn?: (oldData: T[] | undefined, itemId: string) => T[];
   successMessage?: string;
   errorMessage?: string;
 }
@@ -40,6 +41,10 @@ export function useOptimisticUpdates<T extends { id: string }>({
         onError?: (error: Error) => void;
       }
     ) => {
+      if (!updateFn || !rollbackFn) {
+        throw new Error('updateFn and rollbackFn are required to add items');
+      }
+
       const updateId = `update_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
       const timeout = options?.timeout ?? 10000; // 10 second timeout
 
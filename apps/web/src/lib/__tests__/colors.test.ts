@@ -0,0 +1,36 @@
+import { contrastRatio, getEventColors, getReadableTextColor, relativeLuminance } from '../colors'
+
+describe('colors', () => {
+  it('measures contrast from 1 to 21', () => {
+    expect(contrastRatio('#000000', '#ffffff')).toBeCloseTo(21)
+    expect(contrastRatio('#3b82f6', '#3b82f6')).toBeCloseTo(1)
+    expect(relativeLuminance('#fff')).toBeCloseTo(1)
+  })
+
+  it('picks dark text on light colours and light text on dark ones', () => {
+    expect(getReadableTextColor('#fbd75b')).toBe('#111827')
+    expect(getReadableTextColor('#1e3a8a')).toBe('#ffffff')
+  })
+
+  it('keeps event text readable on any subject colour', () => {
+    for (const color of ['#3b82f6', '#ef4444', '#10b981', '#f59e0b', '#8b5cf6', '#000000', '#ffffff']) {
+      const colors = getEventColors(color)
+
+      expect(contrastRatio(colors.backgroundColor, colors.textColor)).toBeGreaterThanOrEqual(4.5)
+    }
+  })
+
+  it('shades the border from the background', () => {
+    const colors = getEventColors('#3b82f6')
+
+    expect(colors.backgroundColor).toBe('#3b82f6')
+    expect(colors.borderColor).toBe('#2c62b9')
+    expect(relativeLuminance(colors.borderColor)).toBeLessThan(relativeLuminance(colors.backgroundColor))
+  })
+
+  it('falls back to grey for a missing or invalid colour', () => {
+    expect(getEventColors(undefined).backgroundColor).toBe('#6b7280')
+    expect(getEventColors('not-a-colour').backgroundColor).toBe('#6b7280')
+    expect(getEventColors('#ABC').backgroundColor).toBe('#aabbcc')
+  })
+})
@@ -31,7 +31,8 @@ class ApiClient {
   ): Promise<T> {
     const url = `${this.baseURL}${endpoint}`
     const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
+      // Form data is sent with its own multipart content type
+      ...(!(options.body instanceof FormData) && { 'Content-Type': 'application/json' }),
       ...(options.headers as Record<string, string>),
     }
 
@@ -49,6 +50,10 @@ class ApiClient {
       throw new Error(errorData.error.message || 'API request failed')
     }
 
+    if (response.status === 204) {
+      return undefined as T
+    }
+
     return response.json()
   }
 
@@ -56,10 +61,11 @@ class ApiClient {
     return this.request<T>(endpoint, { method: 'GET' })
   }
 
-  async post<T>(endpoint: string, data?: any): Promise<T> {
+  async post<T>(endpoint: string, data?: any, headers?: Record<string, string>): Promise<T> {
     return this.request<T>(endpoint, {
       method: 'POST',
       body: data ? JSON.stringify(data) : undefined,
+      headers,
     })
   }
 
@@ -70,9 +76,39 @@ class ApiClient {
     })
   }
 
+  async patch<T>(endpoint: string, data?: any): Promise<T> {
+    return this.request<T>(endpoint, {
+      method: 'PATCH',
+      body: data ? JSON.stringify(data) : undefined,
+    })
+  }
+
   async delete<T>(endpoint: string): Promise<T> {
     return this.request<T>(endpoint, { method: 'DELETE' })
   }
+
+  async upload<T>(endpoint: string, data: FormData): Promise<T> {
+    return this.request<T>(endpoint, { method: 'POST', body: data })
+  }
+
+  // Fetches a file, named by the server's Content-Disposition
+  async download(endpoint: string): Promise<{ blob: Blob; filename: string | null }> {
+    const headers: Record<string, string> = {}
+    if (this.token) {
+      headers.Authorization = `Bearer ${this.token}`
+    }
+
+    const response = await fetch(`${this.baseURL}${endpoint}`, { headers })
+
+    if (!response.ok) {
+      const errorData: ApiError = await response.json()
+      throw new Error(errorData.error.message || 'API request failed')
+    }
+
+    const disposition = response.headers.get('Content-Disposition') || ''
+    const filename = /filename="([^"]+)"/.exec(disposition)?.[1] || null
+    return { blob: await response.blob(), filename }
+  }
 }
 
 export const apiClient = new ApiClient(API_BASE_URL)
@@ -84,6 +120,7 @@ export const authApi = {
   refresh: () => apiClient.post('/api/auth/refresh'),
   logout: () => apiClient.post('/api/auth/logout'),
   me: () => apiClient.get('/api/auth/me'),
+  updateTimezone: (timezone: string) => apiClient.put('/api/auth/me/timezone', { timezone }),
 }
 
 // Subjects API
@@ -101,25 +138,188 @@ export const sectionsApi = {
   create: (data: any) => apiClient.post('/api/sections', data),
   update: (id: string, data: any) => apiClient.put(`/api/sections/${id}`, data),
   delete: (id: string) => apiClient.delete(`/api/sections/${id}`),
+  addException: (id: string, data: any) => apiClient.post(`/api/sections/${id}/exceptions`, data),
+  removeException: (id: string, exceptionId: string) =>
+    apiClient.delete(`/api/sections/${id}/exceptions/${exceptionId}`),
+}
+
+// Terms API
+export const termsApi = {
+  getAll: () => apiClient.get('/api/terms'),
+  create: (data: any) => apiClient.post('/api/terms', data),
+  update: (id: string, data: any) => apiClient.put(`/api/terms/${id}`, data),
+  delete: (id: string) => apiClient.delete(`/api/terms/${id}`),
+  regenerate: (id: string, sectionIds?: string[]) =>
+    apiClient.post(`/api/terms/${id}/regenerate`, { sectionIds }),
 }
 
 // Events API
 export const eventsApi = {
-  getAll: (params?: { from?: string; to?: string }) => {
+  getAll: (params?: {
+    from?: string
+    to?: string
+    subjectId?: string
+    sectionId?: string
+    status?: 'planned' | 'synced' | 'deleted'
+    limit?: number
+    cursor?: string
+  }) => {
     const searchParams = new URLSearchParams()
     if (params?.from) searchParams.set('from', params.from)
     if (params?.to) searchParams.set('to', params.to)
+    if (params?.subjectId) searchParams.set('subjectId', params.subjectId)
+    if (params?.sectionId) searchParams.set('sectionId', params.sectionId)
+    if (params?.status) searchParams.set('status', params.status)
+    if (params?.limit) searchParams.set('limit', params.limit.toString())
+    if (params?.cursor) searchParams.set('cursor', params.cursor)
     const query = searchParams.toString()
     return apiClient.get(`/api/events${query ? `?${query}` : ''}`)
   },
+  update: (id: string, data: {
+    eventDate?: string
+    startTime?: string
+    endTime?: string
+    room?: string
+    titleOverride?: string
+    notes?: string
+    scope?: 'occurrence' | 'following' | 'series'
+  }) => apiClient.patch(`/api/events/${id}`, data),
+  delete: (id: string) => apiClient.delete(`/api/events/${id}`),
   generate: (data: any) => apiClient.post('/api/events/generate', data),
+  getClashes: (params?: { startDate?: string; endDate?: string }) => {
+    const searchParams = new URLSearchParams()
+    if (params?.startDate) searchParams.set('startDate', params.startDate)
+    if (params?.endDate) searchParams.set('endDate', params.endDate)
+    const query = searchParams.toString()
+    return apiClient.get(`/api/events/clashes${query ? `?${query}` : ''}`)
+  },
+}
+
+// Response of an import rollback
+export interface ImportRollbackResult {
+  deleted: { subjects: number; sections: number; events: number }
+  restored: { subjects: number; sections: number }
+  googleEventsDeleted: number
+  // Synced classes left in Google Calendar because removing them failed
+  googleEventsFailed: number
+}
+
+// Import API
+export const importApi = {
+  upload: (file: File) => {
+    const formData = new FormData()
+    formData.append('file', file)
+    return apiClient.upload('/api/import/upload', formData)
+  },
+  updateMapping: (jobId: string, columnMapping: Record<string, string>) =>
+    apiClient.put(`/api/import/jobs/${jobId}/mapping`, { columnMapping }),
+  validate: (jobId: string) => apiClient.post(`/api/import/jobs/${jobId}/validate`),
+  apply: (jobId: string, mode: 'all-or-nothing' | 'best-effort') =>
+    apiClient.post(`/api/import/jobs/${jobId}/apply`, { mode }),
+  rollback: (jobId: string) => apiClient.post<ImportRollbackResult>(`/api/import/jobs/${jobId}/rollback`),
+}
+
+// Export API
+export const exportApi = {
+  download: (params: {
+    format: 'ics' | 'csv' | 'json'
+    subjectId?: string
+    termId?: string
+    filterId?: string
+  }) => {
+    const searchParams = new URLSearchParams({ format: params.format })
+    if (params.subjectId) searchParams.set('subjectId', params.subjectId)
+    if (params.termId) searchParams.set('termId', params.termId)
+    if (params.filterId) searchParams.set('filterId', params.filterId)
+    return apiClient.download(`/api/export?${searchParams.toString()}`)
+  },
+  restore: (file: File, options: { mode: 'merge' | 'replace'; dryRun?: boolean }) => {
+    const formData = new FormData()
+    formData.append('file', file)
+    formData.append('mode', options.mode)
+    if (options.dryRun) formData.append('dryRun', 'true')
+    return apiClient.upload('/api/restore', formData)
+  },
+}
+
+// Calendar feeds API
+export const feedsApi = {
+  getAll: () => apiClient.get('/api/feeds'),
+  create: (data: { name: string; savedFilterId?: string }) => apiClient.post('/api/feeds', data),
+  delete: (id: string) => apiClient.delete(`/api/feeds/${id}`),
+  // Feeds are served outside /api so calendar apps get a short URL
+  url: (token: string) => `${API_BASE_URL}/feeds/${token}.ics`,
+}
+
+// Result of a sync or conflict resolution
+export interface SyncResult {
+  summary: {
+    created: number
+    updated: number
+    deleted?: number
+    skipped: number
+    failed: number
+  }
+  details: SyncDetail[]
+  conflicts: EventConflict[]
+  quotaUsed: number
+  estimatedQuota?: number
+  // Events left for follow-up jobs because the daily Google quota ran out
+  deferred?: {
+    eventIds: string[]
+    resumeAt: string
+    jobIds: string[]
+  }
+  isDryRun: boolean
+}
+
+export interface SyncDetail {
+  localEventId: string
+  googleEventId?: string
+  action: 'created' | 'updated' | 'deleted' | 'skipped' | 'failed'
+  error?: string
+  etag?: string
+}
+
+export interface EventConflict {
+  localEventId: string
+  googleEventId: string
+  conflictType: 'etag_mismatch' | 'deleted_on_google' | 'modified_externally'
+  localEvent: any
+  googleEvent?: any
+  suggestedResolution: {
+    action: 'use_local' | 'use_google' | 'merge' | 'recreate' | 'unlink'
+    reason: string
+  }
 }
 
 // Sync API
 export const syncApi = {
-  syncToGoogle: (data: any) => apiClient.post('/api/sync/google', data),
-  getHistory: () => apiClient.get('/api/sync/history'),
-  resolveConflicts: (data: any) => apiClient.post('/api/sync/resolve-conflicts', data),
+  syncToGoogle: (data: any) =>
+    apiClient.post<ApiResponse<SyncResult>>('/api/sync/google', data, { 'Idempotency-Key': data.idempotencyKey }),
+  getHistory: (params?: { limit?: number; cursor?: string }) => {
+    const searchParams = new URLSearchParams()
+    if (params?.limit) searchParams.set('limit', params.limit.toString())
+    if (params?.cursor) searchParams.set('cursor', params.cursor)
+    const query = searchParams.toString()
+    return apiClient.get(`/api/sync/history${query ? `?${query}` : ''}`)
+  },
+  resolveConflicts: (data: any) =>
+    apiClient.post<ApiResponse<SyncResult>>('/api/sync/resolve-conflicts', data, { 'Idempotency-Key': data.idempotencyKey }),
+  createJob: (data: any) =>
+    apiClient.post('/api/sync/jobs', data, { 'Idempotency-Key': data.idempotencyKey }),
+  getJob: (jobId: string) => apiClient.get(`/api/sync/jobs/${jobId}`),
+}
+
+// Google calendars API
+export const calendarsApi = {
+  getAll: () => apiClient.get('/api/calendars'),
+  getSubjectColors: () => apiClient.get('/api/calendars/colors'),
+  create: (data: { summary: string; timeZone?: string; makeTarget?: boolean }) =>
+    apiClient.post('/api/calendars', data),
+  setTarget: (calendarId: string) => apiClient.put('/api/calendars/target', { calendarId }),
+  setSubjectCalendar: (subjectId: string, calendarId: string | null) =>
+    apiClient.put(`/api/calendars/subjects/${subjectId}`, { calendarId }),
 }
 
 // Reminder API
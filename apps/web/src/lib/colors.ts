@@ -0,0 +1,79 @@
+// Calendar colours worked out from a subject's own colour. Text goes dark or
+// light, whichever contrasts more with the background (WCAG 2 contrast
+// ratio), and the border is a darker shade of the background.
+
+export interface EventColors {
+  backgroundColor: string
+  borderColor: string
+  textColor: string
+}
+
+export const DEFAULT_SUBJECT_COLOR = '#6b7280'
+
+const DARK_TEXT = '#111827'
+const LIGHT_TEXT = '#ffffff'
+
+// WCAG AA for normal text; black or white always reaches it on its own
+const MIN_CONTRAST = 4.5
+const BLACK = '#000000'
+
+// Share of black mixed into the background for the border
+const BORDER_SHADE = 0.25
+
+const parseHex = (hex: string): [number, number, number] | null => {
+  const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(hex.trim())
+  if (!match) return null
+
+  const digits = match[1].length === 3
+    ? match[1].split('').map(digit => digit + digit).join('')
+    : match[1]
+  return [0, 2, 4].map(index => parseInt(digits.substring(index, index + 2), 16)) as [number, number, number]
+}
+
+const toHex = (rgb: number[]) =>
+  `#${rgb.map(channel => Math.round(channel).toString(16).padStart(2, '0')).join('')}`
+
+/**
+ * Relative luminance of a colour, from 0 for black to 1 for white
+ */
+export const relativeLuminance = (hex: string): number => {
+  const [r, g, b] = (parseHex(hex) || [0, 0, 0]).map(channel => {
+    const value = channel / 255
+    return value <= 0.03928 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4)
+  })
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b
+}
+
+/**
+ * Contrast ratio between two colours, from 1 (none) to 21 (black on white)
+ */
+export const contrastRatio = (first: string, second: string): number => {
+  const [lighter, darker] = [relativeLuminance(first), relativeLuminance(second)].sort((a, b) => b - a)
+  return (lighter + 0.05) / (darker + 0.05)
+}
+
+/**
+ * Dark or light text, whichever is easier to read on the background. Mid-tone
+ * backgrounds where neither reaches AA contrast get black text.
+ */
+export const getReadableTextColor = (background: string): string => {
+  const textColor = contrastRatio(background, DARK_TEXT) >= contrastRatio(background, LIGHT_TEXT)
+    ? DARK_TEXT
+    : LIGHT_TEXT
+  return contrastRatio(background, textColor) >= MIN_CONTRAST ? textColor : BLACK
+}
+
+/**
+ * Background, border and text colours of a subject's events; subjects
+ * without a valid colour are grey
+ */
+export const getEventColors = (colorHex?: string): EventColors => {
+  const rgb = (colorHex && parseHex(colorHex)) || parseHex(DEFAULT_SUBJECT_COLOR)!
+  const backgroundColor = toHex(rgb)
+
+  return {
+    backgroundColor,
+    borderColor: toHex(rgb.map(channel => channel * (1 - BORDER_SHADE))),
+    textColor: getReadableTextColor(backgroundColor),
+  }
+}
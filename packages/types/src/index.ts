@@ -3,6 +3,8 @@ export interface User {
   id: string;
   email: string;
   displayName: string;
+  // IANA timezone class times are scheduled in
+  timezone?: string;
   createdAt: Date;
   lastLoginAt?: Date;
 }
@@ -27,6 +29,7 @@ export interface Subject {
   code?: string;
   name: string;
   colorHex: string;
+  calendarId?: string; // Google calendar for new events; unset uses the account default
   meta?: Record<string, any>;
   createdAt: Date;
 }
@@ -34,10 +37,39 @@ export interface Subject {
 export interface Section {
   id: string;
   subjectId: string;
+  termId?: string;
   secCode: string;
   teacher?: string;
   room?: string;
   scheduleRules: ScheduleRule[];
+  exceptions?: SectionException[];
+}
+
+export interface SectionException {
+  id: string;
+  type: 'cancel' | 'move' | 'extra';
+  date: string; // YYYY-MM-DD, the changed class or the extra session
+  originalStartTime?: string; // HH:mm, when the section has several classes that day
+  newDate?: string; // YYYY-MM-DD, moved classes only
+  startTime?: string; // HH:mm
+  endTime?: string;   // HH:mm
+  room?: string;
+  reason?: string;
+}
+
+export interface TermBlackout {
+  name: string;
+  kind: 'holiday' | 'reading_week' | 'midterm' | 'exam' | 'other';
+  startDate: string; // YYYY-MM-DD
+  endDate: string;   // YYYY-MM-DD, inclusive
+}
+
+export interface Term {
+  id: string;
+  name: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string;   // YYYY-MM-DD
+  blackouts: TermBlackout[];
 }
 
 export interface ScheduleRule {
@@ -47,6 +79,9 @@ export interface ScheduleRule {
   startDate: string; // YYYY-MM-DD
   endDate: string;   // YYYY-MM-DD
   skipDates?: string[]; // YYYY-MM-DD format
+  interval?: number; // repeat every N weeks, or N months with setPos
+  weekParity?: 'odd' | 'even'; // academic weeks, week 1 contains startDate
+  setPos?: number; // 1-4 or -1 (last) weekday of the month
 }
 
 // Event Types
@@ -60,13 +95,90 @@ export interface LocalEvent {
   endTime: string;   // HH:mm
   room?: string;
   titleOverride?: string;
+  notes?: string;
+  exceptionId?: string;
+  exceptionType?: 'moved' | 'extra';
+  originalDate?: string; // YYYY-MM-DD, before the class was moved
   status: 'planned' | 'synced' | 'deleted';
   gcalEventId?: string;
+  gcalCalendarId?: string;
+  gcalRecurringEventId?: string;
   gcalEtag?: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// An event as listed by GET /api/events
+export interface CalendarEvent {
+  id: string;
+  title: string;
+  start: string; // RFC 3339 date-time in the user's timezone
+  end: string;
+  eventDate: string; // YYYY-MM-DD
+  startTime: string; // HH:mm
+  endTime: string;   // HH:mm
+  color?: string;
+  room?: string;
+  teacher?: string;
+  status: 'planned' | 'synced' | 'deleted';
+  dirty?: boolean;
+  exceptionType?: 'moved' | 'extra';
+  originalDate?: string;
+  titleOverride?: string;
+  notes?: string;
+  gcalEventId?: string;
+  subject: { id: string; code?: string; name?: string; colorHex?: string };
+  section: { id: string; secCode?: string };
+}
+
+export type RescheduleScope = 'occurrence' | 'following' | 'series';
+
+export interface UpdateCalendarEventRequest {
+  eventDate?: string;
+  startTime?: string;
+  endTime?: string;
+  room?: string;
+  titleOverride?: string;
+  notes?: string;
+  scope?: RescheduleScope;
+}
+
+export interface CalendarEventPage {
+  data: CalendarEvent[];
+  nextCursor?: string;
+}
+
+// Timetable Clash Types
+export interface ClashSection {
+  sectionId: string;
+  subjectId: string;
+  secCode?: string;
+  subjectCode?: string;
+  subjectName?: string;
+}
+
+export interface ClashEvent {
+  eventId?: string; // unset for a class not generated yet
+  sectionId: string;
+  startTime: string; // HH:mm
+  endTime: string;   // HH:mm
+  room?: string;
+}
+
+export interface ClashOccurrence {
+  date: string; // YYYY-MM-DD
+  overlapStart: string; // HH:mm
+  overlapEnd: string;   // HH:mm
+  overlapMinutes: number;
+  events: [ClashEvent, ClashEvent];
+}
+
+export interface ClashReport {
+  sections: [ClashSection, ClashSection];
+  occurrences: ClashOccurrence[];
+  totalOverlapMinutes: number;
+}
+
 // Spotlight Filter Types
 export interface SpotlightQuery {
   subjectIds?: string[];
@@ -87,16 +199,28 @@ export interface SavedFilter {
 }
 
 // Import Types
+export type ImportApplyMode = 'all-or-nothing' | 'best-effort';
+
 export interface ImportJob {
   id: string;
   userId: string;
-  sourceType: 'csv' | 'xlsx';
+  sourceType: 'csv' | 'xlsx' | 'ics';
   columnMap?: Record<string, string>;
-  state: 'pending' | 'preview' | 'applied' | 'failed';
+  state: 'pending' | 'preview' | 'applying' | 'applied' | 'failed' | 'rolled_back';
+  applyMode?: ImportApplyMode;
+  applyLeaseExpiresAt?: Date;
   errorMessage?: string;
   createdAt: Date;
 }
 
+// A record an import row created or updated, undone by a rollback
+export interface ImportItemChange {
+  entity: 'subject' | 'section' | 'event';
+  id: string;
+  action: 'created' | 'updated';
+  previous?: Record<string, any>;
+}
+
 export interface ImportItem {
   id: string;
   importJobId: string;
@@ -110,7 +234,79 @@ export interface ImportItem {
   endTime?: string;
   room?: string;
   note?: string;
-  status: 'preview' | 'created' | 'skipped' | 'failed';
+  status: 'preview' | 'created' | 'skipped' | 'failed' | 'rolled_back';
+  changes: ImportItemChange[];
+  applySequence?: number;
+  errorMessage?: string;
+}
+
+// Response of POST /api/import/jobs/:jobId/rollback
+export interface ImportRollbackResult {
+  deleted: {
+    subjects: number;
+    sections: number;
+    events: number;
+  };
+  restored: {
+    subjects: number;
+    sections: number;
+  };
+  googleEventsDeleted: number;
+  // Synced classes left in Google Calendar because removing them failed
+  googleEventsFailed: number;
+}
+
+// Export Types
+export type ExportFormat = 'ics' | 'csv' | 'json';
+
+// Query of GET /api/export; scopes narrow the export together
+export interface ExportQuery {
+  format: ExportFormat;
+  subjectId?: string;
+  termId?: string;
+  filterId?: string;
+}
+
+// Restore Types
+export type RestoreMode = 'merge' | 'replace';
+
+export interface RestoreCounts {
+  created: number;
+  // Already in the workspace under the same name or code, and kept as it is
+  matched: number;
+  // Removed from the workspace by a replace
+  deleted: number;
+}
+
+// Response of POST /api/restore; a dry run reports without keeping changes
+export interface RestoreReport {
+  mode: RestoreMode;
+  dryRun: boolean;
+  terms: RestoreCounts;
+  subjects: RestoreCounts;
+  sections: RestoreCounts;
+  events: RestoreCounts;
+  savedFilters: RestoreCounts;
+  feeds: { repointed: number; deleted: number };
+  // Synced classes a replace removed from Google Calendar
+  googleEventsDeleted: number;
+  warnings: string[];
+}
+
+// Calendar Feed Types
+export interface CalendarFeed {
+  id: string;
+  name: string;
+  // Secret part of the feed URL, /feeds/<token>.ics
+  token: string;
+  savedFilterId: string | null;
+  lastModifiedAt: Date;
+  createdAt: Date;
+}
+
+export interface CreateCalendarFeedRequest {
+  name: string;
+  savedFilterId?: string;
 }
 
 // API Response Types
@@ -124,13 +320,14 @@ export interface ApiResponse<T = any> {
 }
 
 export interface SyncRequest {
-  direction: 'upsert-to-google';
+  direction: 'upsert-to-google' | 'pull-from-google' | 'bidirectional';
   range: {
     from: string;
     to: string;
   };
   eventIds?: string[];
   dryRun?: boolean;
+  fullResync?: boolean;
   idempotencyKey: string;
 }
 
@@ -138,6 +335,7 @@ export interface SyncResult {
   summary: {
     created: number;
     updated: number;
+    deleted: number;
     skipped: number;
     failed: number;
   };
@@ -150,7 +348,7 @@ export interface SyncResult {
 export interface SyncDetail {
   localEventId: string;
   gcalEventId?: string;
-  action: 'created' | 'updated' | 'skipped' | 'failed';
+  action: 'created' | 'updated' | 'deleted' | 'skipped' | 'failed';
   error?: string;
 }
 
@@ -184,6 +382,21 @@ export interface GoogleCalendarEvent {
   };
 }
 
+export interface GoogleColor {
+  id: string;
+  name: string;
+  hex: string;
+}
+
+// A subject's color with the Google Calendar color it is synced as
+export interface SubjectColor {
+  subjectId: string;
+  code?: string;
+  name: string;
+  colorHex: string;
+  googleColor: GoogleColor;
+}
+
 // Authentication Types
 export interface AuthResult {
   user: User;